@@ -0,0 +1,433 @@
+import { createToolLogger } from '@/shared/utils/logger.js';
+import { getAdapterSettings } from '@/shared/config/index.js';
+import type { AnalysisResult } from '@/shared/types/accessibility.js';
+import { AxeAdapter } from '@/tools/Axe/adapters/index.js';
+import { AxeToolInputSchema } from '@/tools/Axe/types/index.js';
+import * as axeUtils from '@/tools/Axe/utils/index.js';
+import { Pa11yAdapter } from '@/tools/Pa11y/adapters/index.js';
+import { Pa11yToolInputSchema } from '@/tools/Pa11y/types/index.js';
+import * as pa11yUtils from '@/tools/Pa11y/utils/index.js';
+import { LighthouseAdapter } from '@/tools/Lighthouse/adapters/index.js';
+import { LighthouseToolInputSchema } from '@/tools/Lighthouse/types/index.js';
+import * as lighthouseUtils from '@/tools/Lighthouse/utils/index.js';
+import { ContrastAdapter } from '@/tools/Contrast/adapters/index.js';
+import { ContrastToolInputSchema } from '@/tools/Contrast/types/index.js';
+import * as contrastUtils from '@/tools/Contrast/utils/index.js';
+import { KeyboardAdapter } from '@/tools/Keyboard/adapters/index.js';
+import { KeyboardToolInputSchema } from '@/tools/Keyboard/types/index.js';
+import * as keyboardUtils from '@/tools/Keyboard/utils/index.js';
+import { AccessibilityTreeAdapter } from '@/tools/AccessibilityTree/adapters/index.js';
+import { AccessibilityTreeToolInputSchema } from '@/tools/AccessibilityTree/types/index.js';
+import * as treeUtils from '@/tools/AccessibilityTree/utils/index.js';
+import { ReflowAdapter } from '@/tools/Reflow/adapters/index.js';
+import { ReflowToolInputSchema } from '@/tools/Reflow/types/index.js';
+import * as reflowUtils from '@/tools/Reflow/utils/index.js';
+import { TargetSizeAdapter } from '@/tools/TargetSize/adapters/index.js';
+import { TargetSizeToolInputSchema } from '@/tools/TargetSize/types/index.js';
+import * as targetSizeUtils from '@/tools/TargetSize/utils/index.js';
+import { runCombinedAnalysis } from '@/tools/AnalyzeMixed/main.js';
+import { CombinedAnalysisInputSchema } from '@/tools/AnalyzeMixed/types/index.js';
+import * as mixedUtils from '@/tools/AnalyzeMixed/utils/index.js';
+import type { CliCommand, CliCommandName } from '../types/index.js';
+import { buildBrowserOptions, parseList, parseNumber, parseToolInput } from '../utils/index.js';
+
+const ADAPTER_TIMEOUT = 30000;
+const LIGHTHOUSE_TIMEOUT = 60000;
+
+function getAccessibilityScore(result: AnalysisResult): number | undefined {
+  const summary = result.summary as AnalysisResult['summary'] & { accessibilityScore?: number };
+  return summary.accessibilityScore;
+}
+
+const axeCommand: CliCommand = {
+  name: 'axe',
+  tool: 'analyze-with-axe',
+  description: 'Analyze with axe-core',
+  acceptsHtml: true,
+  options: ['--rules <ids>', '--exclude-rules <ids>', '--include-incomplete', '--selector <css>'],
+
+  async run(target, values) {
+    const input = parseToolInput(AxeToolInputSchema, {
+      ...target,
+      options: {
+        wcagLevel: values['wcag-level'],
+        rules: parseList(values.rules),
+        excludeRules: parseList(values['exclude-rules']),
+        includeIncomplete: values['include-incomplete'] ?? false,
+        selector: values.selector,
+        browser: buildBrowserOptions(values),
+      },
+    });
+    const analysisTarget = axeUtils.buildAnalysisTarget(input);
+    const options = axeUtils.buildAnalysisOptions(input);
+    const adapter = new AxeAdapter({
+      headless: true,
+      timeout: getAdapterSettings('axe-core').timeout ?? ADAPTER_TIMEOUT,
+      ignoreHTTPSErrors: analysisTarget.options?.ignoreHTTPSErrors ?? false,
+    });
+
+    try {
+      const result = await adapter.analyze(analysisTarget, options);
+      return {
+        result,
+        output: axeUtils.formatOutput(result),
+        history: { target: analysisTarget, result },
+      };
+    } finally {
+      await adapter.dispose();
+    }
+  },
+};
+
+const pa11yCommand: CliCommand = {
+  name: 'pa11y',
+  tool: 'analyze-with-pa11y',
+  description: 'Analyze with Pa11y (HTML CodeSniffer)',
+  acceptsHtml: true,
+  options: ['--standard <WCAG2A|WCAG2AA|WCAG2AAA|WCAG21A|WCAG21AA|WCAG21AAA>'],
+
+  async run(target, values) {
+    const input = parseToolInput(Pa11yToolInputSchema, {
+      ...target,
+      options: {
+        standard: values.standard,
+        browser: buildBrowserOptions(values),
+      },
+    });
+    const analysisTarget = pa11yUtils.buildAnalysisTarget(input);
+    const options = pa11yUtils.buildAnalysisOptions(input);
+    const adapter = new Pa11yAdapter({
+      timeout: getAdapterSettings('pa11y').timeout ?? ADAPTER_TIMEOUT,
+      chromeLaunchConfig: {
+        ignoreHTTPSErrors: analysisTarget.options?.ignoreHTTPSErrors ?? false,
+      },
+    });
+
+    try {
+      const result = await adapter.analyze(analysisTarget, options);
+      return {
+        result,
+        output: pa11yUtils.formatOutput(result),
+        history: { target: analysisTarget, result },
+      };
+    } finally {
+      await adapter.dispose();
+    }
+  },
+};
+
+const lighthouseCommand: CliCommand = {
+  name: 'lighthouse',
+  tool: 'analyze-with-lighthouse',
+  description: 'Analyze with Lighthouse and compute the accessibility score (URL only)',
+  acceptsHtml: false,
+  options: [],
+
+  async run(target, values) {
+    const input = parseToolInput(LighthouseToolInputSchema, {
+      url: target.url,
+      options: {
+        wcagLevel: values['wcag-level'],
+        browser: buildBrowserOptions(values),
+      },
+    });
+    const analysisTarget = lighthouseUtils.buildAnalysisTarget(input);
+    const options = lighthouseUtils.buildAnalysisOptions(input);
+    const adapter = new LighthouseAdapter({
+      headless: true,
+      timeout: getAdapterSettings('lighthouse').timeout ?? LIGHTHOUSE_TIMEOUT,
+      ignoreHTTPSErrors: analysisTarget.options?.ignoreHTTPSErrors ?? false,
+    });
+
+    try {
+      const result = await adapter.analyze(analysisTarget, options);
+      return {
+        result,
+        output: lighthouseUtils.formatOutput(result),
+        score: getAccessibilityScore(result),
+        history: { target: analysisTarget, result },
+      };
+    } finally {
+      await adapter.dispose();
+    }
+  },
+};
+
+const contrastCommand: CliCommand = {
+  name: 'contrast',
+  tool: 'analyze-contrast',
+  description: 'Check color contrast (WCAG 2.1 or APCA)',
+  acceptsHtml: true,
+  options: [
+    '--algorithm <WCAG21|APCA>',
+    '--mode <text|non-text|all>',
+    '--background-sampling <off|auto|all>',
+    '--pseudo-states <hover,focus,visited,placeholder>',
+    '--media <dark,light,more-contrast,less-contrast,forced-colors>',
+    '--include-passing',
+    '--selector <css>',
+  ],
+
+  async run(target, values) {
+    const input = parseToolInput(ContrastToolInputSchema, {
+      ...target,
+      options: {
+        wcagLevel: values['wcag-level'],
+        contrastAlgorithm: values.algorithm,
+        mode: values.mode,
+        backgroundSampling: values['background-sampling'],
+        styleStates:
+          values['pseudo-states'] !== undefined || values.media !== undefined
+            ? { pseudoStates: parseList(values['pseudo-states']), media: parseList(values.media) }
+            : undefined,
+        includePassingElements: values['include-passing'] ?? false,
+        selector: values.selector,
+        browser: buildBrowserOptions(values),
+      },
+    });
+    const analysisTarget = contrastUtils.buildAnalysisTarget(input);
+    const options = contrastUtils.buildAnalysisOptions(input);
+    const adapter = new ContrastAdapter({
+      headless: true,
+      timeout: getAdapterSettings('contrast-analyzer').timeout ?? ADAPTER_TIMEOUT,
+      ignoreHTTPSErrors: analysisTarget.options?.ignoreHTTPSErrors ?? false,
+    });
+
+    try {
+      const result = await adapter.analyze(analysisTarget, options);
+      return {
+        result,
+        output: contrastUtils.formatOutput(result),
+        history: { target: analysisTarget, result: mixedUtils.fromContrastResult(result) },
+      };
+    } finally {
+      await adapter.dispose();
+    }
+  },
+};
+
+const keyboardCommand: CliCommand = {
+  name: 'keyboard',
+  tool: 'analyze-keyboard',
+  description: 'Trace Tab order and check keyboard traps and focus visibility',
+  acceptsHtml: true,
+  options: ['--max-tab-stops <n>', '--skip-focus-indicator'],
+
+  async run(target, values) {
+    const input = parseToolInput(KeyboardToolInputSchema, {
+      ...target,
+      options: {
+        wcagLevel: values['wcag-level'],
+        maxTabStops: parseNumber(values['max-tab-stops'], 'max-tab-stops'),
+        checkFocusIndicator: !(values['skip-focus-indicator'] ?? false),
+        browser: buildBrowserOptions(values),
+      },
+    });
+    const analysisTarget = keyboardUtils.buildAnalysisTarget(input);
+    const options = keyboardUtils.buildAnalysisOptions(input);
+    const adapter = new KeyboardAdapter({
+      headless: true,
+      timeout: getAdapterSettings('keyboard-analyzer').timeout ?? ADAPTER_TIMEOUT,
+      ignoreHTTPSErrors: analysisTarget.options?.ignoreHTTPSErrors ?? false,
+    });
+
+    try {
+      const result = await adapter.analyze(analysisTarget, options);
+      return {
+        result,
+        output: keyboardUtils.formatOutput(result),
+        history: { target: analysisTarget, result },
+      };
+    } finally {
+      await adapter.dispose();
+    }
+  },
+};
+
+const treeCommand: CliCommand = {
+  name: 'tree',
+  tool: 'inspect-accessibility-tree',
+  description: 'Capture the accessibility tree and a screen reader transcript',
+  acceptsHtml: true,
+  options: ['--selector <css>', '--all-nodes'],
+
+  async run(target, values) {
+    const input = parseToolInput(AccessibilityTreeToolInputSchema, {
+      ...target,
+      options: {
+        selector: values.selector,
+        interestingOnly: !(values['all-nodes'] ?? false),
+        browser: buildBrowserOptions(values),
+      },
+    });
+    const analysisTarget = treeUtils.buildAnalysisTarget(input);
+    const options = treeUtils.buildAnalysisOptions(input);
+    const adapter = new AccessibilityTreeAdapter({
+      headless: true,
+      timeout: getAdapterSettings('accessibility-tree').timeout ?? ADAPTER_TIMEOUT,
+      ignoreHTTPSErrors: analysisTarget.options?.ignoreHTTPSErrors ?? false,
+    });
+
+    try {
+      const result = await adapter.analyze(analysisTarget, options);
+      return {
+        result,
+        output: treeUtils.formatOutput(result),
+        history: { target: analysisTarget, result },
+      };
+    } finally {
+      await adapter.dispose();
+    }
+  },
+};
+
+const reflowCommand: CliCommand = {
+  name: 'reflow',
+  tool: 'analyze-reflow',
+  description: 'Check reflow at 320px, text at 200%/400% zoom and text spacing',
+  acceptsHtml: true,
+  options: [
+    '--zoom-levels <200,400>',
+    '--reflow-width <px>',
+    '--skip-reflow',
+    '--skip-text-spacing',
+  ],
+
+  async run(target, values) {
+    const input = parseToolInput(ReflowToolInputSchema, {
+      ...target,
+      options: {
+        wcagLevel: values['wcag-level'],
+        zoomLevels: parseList(values['zoom-levels'])?.map((level) =>
+          parseNumber(level, 'zoom-levels')
+        ),
+        reflowWidth: parseNumber(values['reflow-width'], 'reflow-width'),
+        checkReflow: !(values['skip-reflow'] ?? false),
+        checkTextSpacing: !(values['skip-text-spacing'] ?? false),
+        browser: buildBrowserOptions(values),
+      },
+    });
+    const analysisTarget = reflowUtils.buildAnalysisTarget(input);
+    const options = reflowUtils.buildAnalysisOptions(input);
+    const adapter = new ReflowAdapter({
+      headless: true,
+      timeout: getAdapterSettings('reflow-analyzer').timeout ?? ADAPTER_TIMEOUT,
+      ignoreHTTPSErrors: analysisTarget.options?.ignoreHTTPSErrors ?? false,
+    });
+
+    try {
+      const result = await adapter.analyze(analysisTarget, options);
+      return {
+        result,
+        output: reflowUtils.formatOutput(result),
+        history: { target: analysisTarget, result },
+      };
+    } finally {
+      await adapter.dispose();
+    }
+  },
+};
+
+const targetSizeCommand: CliCommand = {
+  name: 'target-size',
+  tool: 'analyze-target-size',
+  description: 'Measure pointer targets against the 24px and 44px minimums',
+  acceptsHtml: true,
+  options: ['--selector <css>'],
+
+  async run(target, values) {
+    const input = parseToolInput(TargetSizeToolInputSchema, {
+      ...target,
+      options: {
+        wcagLevel: values['wcag-level'],
+        selector: values.selector,
+        browser: buildBrowserOptions(values),
+      },
+    });
+    const analysisTarget = targetSizeUtils.buildAnalysisTarget(input);
+    const options = targetSizeUtils.buildAnalysisOptions(input);
+    const adapter = new TargetSizeAdapter({
+      headless: true,
+      timeout: getAdapterSettings('target-size-analyzer').timeout ?? ADAPTER_TIMEOUT,
+      ignoreHTTPSErrors: analysisTarget.options?.ignoreHTTPSErrors ?? false,
+    });
+
+    try {
+      const result = await adapter.analyze(analysisTarget, options);
+      return {
+        result,
+        output: targetSizeUtils.formatOutput(result),
+        history: { target: analysisTarget, result },
+      };
+    } finally {
+      await adapter.dispose();
+    }
+  },
+};
+
+const mixedCommand: CliCommand = {
+  name: 'mixed',
+  tool: 'analyze-mixed',
+  description: 'Run several engines in parallel and combine the results',
+  acceptsHtml: true,
+  options: [
+    '--tools <axe-core,pa11y,lighthouse,...>',
+    '--keep-duplicates',
+    '--single-render',
+    '--html-report <file>',
+    '--screenshots <dir>',
+  ],
+
+  async run(target, values) {
+    const input = parseToolInput(CombinedAnalysisInputSchema, {
+      ...target,
+      tools: parseList(values.tools),
+      options: {
+        wcagLevel: values['wcag-level'],
+        deduplicateResults: !(values['keep-duplicates'] ?? false),
+        singleRender: values['single-render'] ?? false,
+        htmlReportPath: values['html-report'],
+        screenshots: values.screenshots ? { outputDir: values.screenshots } : undefined,
+        browser: buildBrowserOptions(values),
+      },
+    });
+
+    const analysisTarget = mixedUtils.buildAnalysisTarget(input);
+
+    const { result, originalCount, issuesByWCAG } = await runCombinedAnalysis(
+      analysisTarget,
+      mixedUtils.buildAnalysisOptions(input),
+      {
+        tools: input.tools ?? ['axe-core', 'pa11y'],
+        deduplicate: input.options?.deduplicateResults ?? true,
+        ignoreHTTPSErrors: analysisTarget.options?.ignoreHTTPSErrors ?? false,
+        singleRender: input.options?.singleRender ?? false,
+        logger: createToolLogger('cli'),
+      }
+    );
+    const output = mixedUtils.formatOutput(result, originalCount, issuesByWCAG);
+    if (input.options?.htmlReportPath) {
+      Object.assign(output, await mixedUtils.saveHtmlReport(input.options.htmlReportPath, result));
+    }
+    const lighthouseResult = result.individualResults?.find((r) => r.tool === 'lighthouse');
+
+    return {
+      result,
+      output,
+      score: lighthouseResult ? getAccessibilityScore(lighthouseResult) : undefined,
+      history: { target: analysisTarget, result },
+    };
+  },
+};
+
+export const CLI_COMMANDS: Record<CliCommandName, CliCommand> = {
+  axe: axeCommand,
+  pa11y: pa11yCommand,
+  lighthouse: lighthouseCommand,
+  contrast: contrastCommand,
+  keyboard: keyboardCommand,
+  tree: treeCommand,
+  reflow: reflowCommand,
+  'target-size': targetSizeCommand,
+  mixed: mixedCommand,
+};
@@ -0,0 +1,4 @@
+export { runCli, isCliInvocation, buildHelpText } from './main.js';
+export { CLI_COMMANDS } from './commands/index.js';
+export * from './types/index.js';
+export * from './utils/index.js';
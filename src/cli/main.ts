@@ -0,0 +1,144 @@
+import { APP_VERSION } from '@/shared/utils/logger.js';
+import { ensureProjectConfig } from '@/shared/config/index.js';
+import { closeBrowserPool } from '@/shared/browser/pool.js';
+import { recordAnalysisHistory } from '@/shared/history/index.js';
+import { CLI_COMMANDS } from './commands/index.js';
+import { CLI_COMMAND_NAMES, type CliCommandName } from './types/index.js';
+import {
+  findThresholdViolations,
+  parseCliArgs,
+  renderReport,
+  resolveExitCode,
+  resolveFormat,
+  resolveTargetInput,
+  resolveThresholds,
+  writeReport,
+} from './utils/index.js';
+
+const COMMON_OPTIONS = [
+  ['-f, --format <format>', 'json, markdown, sarif, junit or tap (default: json)'],
+  ['-o, --output <file>', 'Write the report to a file instead of stdout'],
+  ['-c, --config <file>', 'Project config file (default: nearest .accessibilityhubrc)'],
+  ['--fail-on <severity>', 'critical, serious, moderate, minor or none (default: serious)'],
+  ['--min-score <0-100>', 'Minimum Lighthouse accessibility score (lighthouse, mixed)'],
+  ['--wcag-level <level>', 'WCAG level: A, AA or AAA (default: config, else AA)'],
+  ['--wait-for-selector <css>', 'CSS selector to wait for before analysis'],
+  ['--wait-for-timeout <ms>', 'Time to wait before analysis (max 60000)'],
+  ['--viewport <WxH>', 'Viewport size, e.g. 1280x720'],
+  ['--ignore-https-errors', 'Ignore HTTPS certificate errors'],
+  ['--stdin', 'Read HTML from stdin (same as target "-")'],
+];
+
+function isCliCommandName(value: string | undefined): value is CliCommandName {
+  return CLI_COMMAND_NAMES.includes(value as CliCommandName);
+}
+
+/**
+ * Whether the arguments ask for the CLI. The MCP server only starts without
+ * arguments or with `serve`, so a mistyped command exits with code 2 instead
+ * of waiting for an MCP client on stdin.
+ */
+export function isCliInvocation(argv: string[]): boolean {
+  return argv.length > 0 && argv[0] !== 'serve';
+}
+
+export function buildHelpText(commandName?: CliCommandName): string {
+  const lines: string[] = [];
+  const pad = (text: string): string => text.padEnd(30);
+
+  if (commandName) {
+    const command = CLI_COMMANDS[commandName];
+    const target = command.acceptsHtml ? '<url | file.html | ->' : '<url>';
+    lines.push(
+      `Usage: accessibility-hub ${command.name} ${target} [options]`,
+      '',
+      command.description
+    );
+
+    if (command.options.length > 0) {
+      lines.push('', 'Command options:', ...command.options.map((option) => `  ${option}`));
+    }
+  } else {
+    lines.push(
+      'Usage: accessibility-hub <command> <target> [options]',
+      '',
+      'Run accessibility analyses from the shell. Without arguments or with "serve", the MCP server starts on stdio.',
+      '',
+      'Commands:',
+      ...CLI_COMMAND_NAMES.map((name) => `  ${pad(name)}${CLI_COMMANDS[name].description}`),
+      '',
+      'Target: a URL, a path to an HTML file, or "-" to read HTML from stdin.'
+    );
+  }
+
+  lines.push(
+    '',
+    'Options:',
+    ...COMMON_OPTIONS.map(([flag, description]) => `  ${pad(flag ?? '')}${description}`),
+    '',
+    'Exit codes: 0 passed, 1 thresholds not met, 2 invalid input or analysis failure',
+    ''
+  );
+
+  return lines.join('\n');
+}
+
+export async function runCli(argv: string[]): Promise<number> {
+  try {
+    const { command: commandName, target, values } = parseCliArgs(argv);
+
+    if (values.version) {
+      process.stdout.write(`${APP_VERSION}\n`);
+      return 0;
+    }
+
+    if (commandName === undefined && values.help) {
+      process.stdout.write(buildHelpText());
+      return 0;
+    }
+
+    if (!isCliCommandName(commandName)) {
+      const reason =
+        commandName === undefined ? 'Missing command' : `Unknown command: ${commandName}`;
+      process.stderr.write(`${reason}\n\n${buildHelpText()}`);
+      return 2;
+    }
+
+    if (values.help) {
+      process.stdout.write(buildHelpText(commandName));
+      return 0;
+    }
+
+    await ensureProjectConfig({ configPath: values.config });
+
+    const command = CLI_COMMANDS[commandName];
+    const format = resolveFormat(values);
+    const thresholds = resolveThresholds(values);
+    const targetInput = await resolveTargetInput(target, values);
+
+    if (!command.acceptsHtml && targetInput.url === undefined) {
+      throw new Error(`The ${command.name} command requires a URL target`);
+    }
+
+    const run = await command.run(targetInput, values);
+    await writeReport(renderReport(run, format), values.output);
+    if (run.history) {
+      await recordAnalysisHistory(command.tool, run.history.target, run.history.result);
+    }
+
+    if (!run.result.success) {
+      process.stderr.write(`Analysis failed: ${run.result.error ?? 'unknown error'}\n`);
+    }
+    for (const violation of findThresholdViolations(run, thresholds)) {
+      process.stderr.write(`Threshold not met: ${violation}\n`);
+    }
+
+    return resolveExitCode(run, thresholds);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    process.stderr.write(`Error: ${message}\n`);
+    return 2;
+  } finally {
+    await closeBrowserPool();
+  }
+}
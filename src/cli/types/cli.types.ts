@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { SeveritySchema } from '@/shared/types/accessibility.js';
+import type { ReportableAnalysisResult } from '@/shared/reporters/index.js';
+import type { RecordableResult } from '@/shared/history/index.js';
+import type { AnalysisTarget } from '@/shared/types/analysis.js';
+
+export const CLI_COMMAND_NAMES = [
+  'axe',
+  'pa11y',
+  'lighthouse',
+  'contrast',
+  'keyboard',
+  'tree',
+  'reflow',
+  'target-size',
+  'mixed',
+] as const;
+export type CliCommandName = (typeof CLI_COMMAND_NAMES)[number];
+
+export const CliFormatSchema = z
+  .enum(['json', 'markdown', 'sarif', 'junit', 'tap'])
+  .describe('Report format written to stdout or --output');
+export type CliFormat = z.infer<typeof CliFormatSchema>;
+
+export const CliThresholdsSchema = z.object({
+  failOn: z
+    .union([SeveritySchema, z.literal('none')])
+    .default('serious')
+    .describe('Lowest issue severity that makes the command exit with code 1'),
+  minScore: z
+    .number()
+    .min(0)
+    .max(100)
+    .optional()
+    .describe('Minimum Lighthouse accessibility score; lower scores exit with code 1'),
+});
+export type CliThresholds = z.infer<typeof CliThresholdsSchema>;
+
+export interface CliValues {
+  format?: string | undefined;
+  output?: string | undefined;
+  config?: string | undefined;
+  'fail-on'?: string | undefined;
+  'min-score'?: string | undefined;
+  'wcag-level'?: string | undefined;
+  'wait-for-selector'?: string | undefined;
+  'wait-for-timeout'?: string | undefined;
+  viewport?: string | undefined;
+  'ignore-https-errors'?: boolean | undefined;
+  rules?: string | undefined;
+  'exclude-rules'?: string | undefined;
+  'include-incomplete'?: boolean | undefined;
+  selector?: string | undefined;
+  standard?: string | undefined;
+  algorithm?: string | undefined;
+  mode?: string | undefined;
+  'background-sampling'?: string | undefined;
+  'pseudo-states'?: string | undefined;
+  media?: string | undefined;
+  'include-passing'?: boolean | undefined;
+  'max-tab-stops'?: string | undefined;
+  'skip-focus-indicator'?: boolean | undefined;
+  'all-nodes'?: boolean | undefined;
+  'zoom-levels'?: string | undefined;
+  'reflow-width'?: string | undefined;
+  'skip-reflow'?: boolean | undefined;
+  'skip-text-spacing'?: boolean | undefined;
+  tools?: string | undefined;
+  'keep-duplicates'?: boolean | undefined;
+  'single-render'?: boolean | undefined;
+  'html-report'?: string | undefined;
+  screenshots?: string | undefined;
+  stdin?: boolean | undefined;
+  help?: boolean | undefined;
+  version?: boolean | undefined;
+}
+
+export interface ParsedCliArgs {
+  command?: string | undefined;
+  target?: string | undefined;
+  values: CliValues;
+}
+
+export interface CliTargetInput {
+  url?: string | undefined;
+  html?: string | undefined;
+}
+
+export interface CliCommandRun {
+  result: ReportableAnalysisResult;
+  output: unknown;
+  score?: number | undefined;
+  /** Analysis recorded in the history once the report is written. */
+  history?: { target: AnalysisTarget; result: RecordableResult } | undefined;
+}
+
+export interface CliCommand {
+  name: CliCommandName;
+  /** MCP tool the command runs, which names its runs in the history. */
+  tool: string;
+  description: string;
+  acceptsHtml: boolean;
+  options: string[];
+  run(target: CliTargetInput, values: CliValues): Promise<CliCommandRun>;
+}
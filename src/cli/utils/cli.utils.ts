@@ -0,0 +1,224 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { formatValidationErrorsForMcp, formatZodErrors } from '@/shared/types/validation.js';
+import { isAtLeastSeverity } from '@/shared/utils/severity.js';
+import { toJUnitXml, toMarkdown, toSarifLog, toTap } from '@/shared/reporters/index.js';
+import {
+  CliFormatSchema,
+  CliThresholdsSchema,
+  type CliCommandRun,
+  type CliFormat,
+  type CliTargetInput,
+  type CliThresholds,
+  type CliValues,
+  type ParsedCliArgs,
+} from '../types/index.js';
+
+export const CLI_OPTIONS = {
+  format: { type: 'string', short: 'f' },
+  output: { type: 'string', short: 'o' },
+  config: { type: 'string', short: 'c' },
+  'fail-on': { type: 'string' },
+  'min-score': { type: 'string' },
+  'wcag-level': { type: 'string' },
+  'wait-for-selector': { type: 'string' },
+  'wait-for-timeout': { type: 'string' },
+  viewport: { type: 'string' },
+  'ignore-https-errors': { type: 'boolean' },
+  rules: { type: 'string' },
+  'exclude-rules': { type: 'string' },
+  'include-incomplete': { type: 'boolean' },
+  selector: { type: 'string' },
+  standard: { type: 'string' },
+  algorithm: { type: 'string' },
+  mode: { type: 'string' },
+  'background-sampling': { type: 'string' },
+  'pseudo-states': { type: 'string' },
+  media: { type: 'string' },
+  'include-passing': { type: 'boolean' },
+  'max-tab-stops': { type: 'string' },
+  'skip-focus-indicator': { type: 'boolean' },
+  'all-nodes': { type: 'boolean' },
+  'zoom-levels': { type: 'string' },
+  'reflow-width': { type: 'string' },
+  'skip-reflow': { type: 'boolean' },
+  'skip-text-spacing': { type: 'boolean' },
+  tools: { type: 'string' },
+  'keep-duplicates': { type: 'boolean' },
+  'single-render': { type: 'boolean' },
+  'html-report': { type: 'string' },
+  screenshots: { type: 'string' },
+  stdin: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+} as const;
+
+export function parseCliArgs(argv: string[]): ParsedCliArgs {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: CLI_OPTIONS,
+    allowPositionals: true,
+    strict: true,
+  });
+
+  if (positionals.length > 2) {
+    throw new Error(`Unexpected arguments: ${positionals.slice(2).join(' ')}`);
+  }
+
+  return {
+    command: positionals[0],
+    target: positionals[1],
+    values: values as CliValues,
+  };
+}
+
+export function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function parseNumber(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (value.trim() === '' || Number.isNaN(parsed)) {
+    throw new Error(`--${flag} must be a number, received "${value}"`);
+  }
+  return parsed;
+}
+
+export function parseViewport(
+  value: string | undefined
+): { width: number; height: number } | undefined {
+  if (value === undefined) return undefined;
+
+  const match = /^(\d+)x(\d+)$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(
+      `--viewport must use the format WIDTHxHEIGHT (e.g. 1280x720), received "${value}"`
+    );
+  }
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
+
+export function buildBrowserOptions(values: CliValues) {
+  return {
+    waitForSelector: values['wait-for-selector'],
+    waitForTimeout: parseNumber(values['wait-for-timeout'], 'wait-for-timeout'),
+    viewport: parseViewport(values.viewport),
+    ignoreHTTPSErrors: values['ignore-https-errors'],
+  };
+}
+
+export function parseToolInput<T>(schema: ZodType<T, ZodTypeDef, unknown>, data: unknown): T {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    throw new Error(formatValidationErrorsForMcp(formatZodErrors(result.error)));
+  }
+  return result.data;
+}
+
+export function resolveFormat(values: CliValues): CliFormat {
+  return parseToolInput(CliFormatSchema, values.format ?? 'json');
+}
+
+export function resolveThresholds(values: CliValues): CliThresholds {
+  return parseToolInput(CliThresholdsSchema, {
+    failOn: values['fail-on'],
+    minScore: parseNumber(values['min-score'], 'min-score'),
+  });
+}
+
+export async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+export async function resolveTargetInput(
+  target: string | undefined,
+  values: CliValues,
+  stdin: NodeJS.ReadableStream = process.stdin
+): Promise<CliTargetInput> {
+  if (target === '-' || values.stdin) {
+    const html = await readStream(stdin);
+    if (html.trim() === '') {
+      throw new Error('No HTML received on stdin');
+    }
+    return { html };
+  }
+
+  if (target === undefined) {
+    throw new Error('Missing target: provide a URL, an HTML file path or "-" to read from stdin');
+  }
+
+  if (/^https?:\/\//i.test(target)) {
+    return { url: target };
+  }
+
+  const filePath = resolve(process.cwd(), target);
+  try {
+    return { html: await readFile(filePath, 'utf-8') };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read HTML file ${filePath}: ${message}`);
+  }
+}
+
+export function findThresholdViolations(run: CliCommandRun, thresholds: CliThresholds): string[] {
+  const violations: string[] = [];
+  const { failOn, minScore } = thresholds;
+
+  if (failOn !== 'none') {
+    const blocking = run.result.issues.filter((issue) => isAtLeastSeverity(issue.severity, failOn));
+    if (blocking.length > 0) {
+      violations.push(`${blocking.length} issue(s) with severity ${failOn} or higher`);
+    }
+  }
+
+  if (minScore !== undefined && run.score !== undefined && run.score < minScore) {
+    violations.push(`Lighthouse accessibility score ${run.score} is below ${minScore}`);
+  }
+
+  return violations;
+}
+
+export function resolveExitCode(run: CliCommandRun, thresholds: CliThresholds): number {
+  if (!run.result.success) return 2;
+  return findThresholdViolations(run, thresholds).length > 0 ? 1 : 0;
+}
+
+export function renderReport(run: CliCommandRun, format: CliFormat): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(run.result);
+    case 'sarif':
+      return `${JSON.stringify(toSarifLog(run.result), null, 2)}\n`;
+    case 'junit':
+      return toJUnitXml(run.result);
+    case 'tap':
+      return toTap(run.result);
+    default:
+      return `${JSON.stringify(run.output, null, 2)}\n`;
+  }
+}
+
+export async function writeReport(report: string, outputPath: string | undefined): Promise<void> {
+  if (outputPath) {
+    await writeFile(resolve(process.cwd(), outputPath), report, 'utf-8');
+    return;
+  }
+
+  await new Promise<void>((resolveWrite, rejectWrite) => {
+    process.stdout.write(report, (error) => (error ? rejectWrite(error) : resolveWrite()));
+  });
+}
@@ -10,11 +10,16 @@ const argsSchema = {
     .max(100)
     .optional()
     .describe('Minimum Lighthouse accessibility score to pass (default: 90)'),
+  baselinePath: z
+    .string()
+    .optional()
+    .describe('Baseline file from save-baseline; only new issues block the deployment'),
 };
 
 type PreDeployCheckArgs = {
   url: string;
   minScore?: number | undefined;
+  baselinePath?: string | undefined;
 };
 
 export const preDeployCheckPrompt: PromptDefinition = {
@@ -31,7 +36,19 @@ export const preDeployCheckPrompt: PromptDefinition = {
         description: this.description,
         argsSchema
       },
-      async ({ url, minScore = 90 }: PreDeployCheckArgs): Promise<PromptResult> => {
+      async ({ url, minScore = 90, baselinePath }: PreDeployCheckArgs): Promise<PromptResult> => {
+        const baselineStep = baselinePath
+          ? `
+
+Step 3: Use the compare-to-baseline tool with these parameters:
+- url: "${url}"
+- baselinePath: "${baselinePath}"
+- options:
+  - failOn: "serious"
+
+Known issues recorded in the baseline are accessibility debt, not regressions. Only issues reported in **newIssues** count as blocking issues; list unchanged issues under Non-Blocking Issues and mention fixed issues as progress.`
+          : '';
+
         return {
           messages: [
             {
@@ -50,7 +67,7 @@ Step 1: Use the analyze-mixed tool with these parameters:
 Step 2: Use the analyze-with-lighthouse tool with these parameters:
 - url: "${url}"
 - options:
-  - wcagLevel: "AA"
+  - wcagLevel: "AA"${baselineStep}
 
 This is a **deployment gate check**. The minimum required Lighthouse accessibility score is **${minScore}/100**. Provide a clear GO/NO-GO decision based on both the accessibility issues found and the Lighthouse score.
 
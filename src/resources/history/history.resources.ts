@@ -0,0 +1,77 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { ensureProjectConfig } from '@/shared/config/index.js';
+import { getHistoryStore } from '@/shared/history/index.js';
+
+export function registerHistoryResources(server: McpServer): void {
+  server.registerResource(
+    'history-targets',
+    'history://targets',
+    {
+      description:
+        'Páginas con análisis registrados en el historial, con el número de ejecuciones y el último resultado',
+      mimeType: 'application/json',
+    },
+    async () => {
+      await ensureProjectConfig();
+      const targets = await getHistoryStore().listTargets();
+      return {
+        contents: [
+          {
+            uri: 'history://targets',
+            mimeType: 'application/json',
+            text: JSON.stringify(targets, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerResource(
+    'history-target-trend',
+    new ResourceTemplate('history://target/{id}/trend', {
+      list: async () => {
+        await ensureProjectConfig();
+        const targets = await getHistoryStore().listTargets();
+        return {
+          resources: targets.map((target) => ({
+            uri: `history://target/${target.id}/trend`,
+            name: `Tendencia: ${target.target}`,
+            mimeType: 'application/json',
+          })),
+        };
+      },
+    }),
+    {
+      description:
+        'Evolución de una página por herramienta: incidencias por severidad, principio y criterio, y puntuación de Lighthouse',
+      mimeType: 'application/json',
+    },
+    async (uri: URL, variables: Variables) => {
+      await ensureProjectConfig();
+      const id = variables.id as string;
+      const trend = await getHistoryStore().getTrend(id);
+      if (!trend) {
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: 'application/json',
+              text: JSON.stringify({ error: `No hay historial para el objetivo '${id}'` }),
+            },
+          ],
+        };
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(trend, null, 2),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1 @@
+export { registerHistoryResources } from './history.resources.js';
@@ -2,3 +2,4 @@ export * from './types/index.js';
 export { registerWcagResources } from './wcag/index.js';
 export { registerContrastResources } from './contrast/index.js';
 export { registerLighthouseResources } from './lighthouse/index.js';
+export { registerHistoryResources } from './history/index.js';
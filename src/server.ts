@@ -1,16 +1,33 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { logger, APP_VERSION } from "@/shared/utils/logger.js";
+import { closeBrowserPool } from "@/shared/browser/pool.js";
 import {
   analyzeWithAxeTool,
   analyzeWithPa11yTool,
   analyzeMixedTool,
   analyzeContrastTool,
+  analyzeKeyboardTool,
+  inspectAccessibilityTreeTool,
+  analyzeReflowTool,
+  analyzeTargetSizeTool,
+  analyzePaletteTool,
   analyzeWithLighthouseTool,
+  analyzeSiteTool,
+  saveBaselineTool,
+  compareToBaselineTool,
+  getJobStatusTool,
+  getJobResultTool,
+  listHistoryRunsTool,
+  getHistoryRunTool,
+  getHistoryTrendTool,
   disposeAxeAdapter,
   disposePa11yAdapter,
-  disposeAnalyzeMixedAdapters,
   disposeContrastAdapter,
+  disposeKeyboardAdapter,
+  disposeAccessibilityTreeAdapter,
+  disposeReflowAdapter,
+  disposeTargetSizeAdapter,
   disposeLighthouseAdapter
 } from "@/tools/index.js";
 import {
@@ -23,7 +40,13 @@ import {
   lighthouseScoreImprovementPrompt,
   explainWcagCriterionPrompt
 } from "@/prompts/index.js";
-import { registerWcagResources, registerContrastResources, registerLighthouseResources } from "@/resources/index.js";
+import { isCliInvocation, runCli } from "@/cli/index.js";
+import {
+  registerWcagResources,
+  registerContrastResources,
+  registerLighthouseResources,
+  registerHistoryResources
+} from "@/resources/index.js";
 
 const server = new McpServer({
   name: 'AccesibilityHub',
@@ -43,8 +66,47 @@ function registerTools(): void {
   analyzeContrastTool.register(server);
   logger.info('Registered tool: analyze-contrast');
 
+  analyzeKeyboardTool.register(server);
+  logger.info('Registered tool: analyze-keyboard');
+
+  inspectAccessibilityTreeTool.register(server);
+  logger.info('Registered tool: inspect-accessibility-tree');
+
+  analyzeReflowTool.register(server);
+  logger.info('Registered tool: analyze-reflow');
+
+  analyzeTargetSizeTool.register(server);
+  logger.info('Registered tool: analyze-target-size');
+
+  analyzePaletteTool.register(server);
+  logger.info('Registered tool: analyze-palette');
+
   analyzeWithLighthouseTool.register(server);
   logger.info('Registered tool: analyze-with-lighthouse');
+
+  analyzeSiteTool.register(server);
+  logger.info('Registered tool: analyze-site');
+
+  saveBaselineTool.register(server);
+  logger.info('Registered tool: save-baseline');
+
+  compareToBaselineTool.register(server);
+  logger.info('Registered tool: compare-to-baseline');
+
+  getJobStatusTool.register(server);
+  logger.info('Registered tool: get-job-status');
+
+  getJobResultTool.register(server);
+  logger.info('Registered tool: get-job-result');
+
+  listHistoryRunsTool.register(server);
+  logger.info('Registered tool: list-history-runs');
+
+  getHistoryRunTool.register(server);
+  logger.info('Registered tool: get-history-run');
+
+  getHistoryTrendTool.register(server);
+  logger.info('Registered tool: get-history-trend');
 }
 
 function registerPrompts(): void {
@@ -74,12 +136,34 @@ function registerResources(): void {
 
   registerLighthouseResources(server);
   logger.info('Registered Lighthouse resources');
+
+  registerHistoryResources(server);
+  logger.info('Registered history resources');
 }
 
 async function main(): Promise<void> {
   logger.info('Starting AccesibilityHub Server', {
     version: APP_VERSION,
-    tools: ['analyze-with-axe', 'analyze-with-pa11y', 'analyze-mixed', 'analyze-contrast', 'analyze-with-lighthouse'],
+    tools: [
+      'analyze-with-axe',
+      'analyze-with-pa11y',
+      'analyze-mixed',
+      'analyze-contrast',
+      'analyze-keyboard',
+      'inspect-accessibility-tree',
+      'analyze-reflow',
+      'analyze-target-size',
+      'analyze-palette',
+      'analyze-with-lighthouse',
+      'analyze-site',
+      'save-baseline',
+      'compare-to-baseline',
+      'get-job-status',
+      'get-job-result',
+      'list-history-runs',
+      'get-history-run',
+      'get-history-trend'
+    ],
     prompts: [
       'full-accessibility-audit',
       'quick-accessibility-check',
@@ -100,7 +184,9 @@ async function main(): Promise<void> {
       'lighthouse://audits',
       'lighthouse://audits/{auditId}',
       'lighthouse://audits/level/{level}',
-      'lighthouse://audits/principle/{principle}'
+      'lighthouse://audits/principle/{principle}',
+      'history://targets',
+      'history://target/{id}/trend'
     ]
   });
 
@@ -120,21 +206,31 @@ async function shutdown(): Promise<void> {
   await Promise.all([
     disposeAxeAdapter(),
     disposePa11yAdapter(),
-    disposeAnalyzeMixedAdapters(),
     disposeContrastAdapter(),
+    disposeKeyboardAdapter(),
+    disposeAccessibilityTreeAdapter(),
+    disposeReflowAdapter(),
+    disposeTargetSizeAdapter(),
     disposeLighthouseAdapter()
   ]);
+  await closeBrowserPool();
 
   logger.info('All adapters disposed');
   process.exit(0);
 }
 
-process.on('SIGINT', shutdown);
-process.on('SIGTERM', shutdown);
+const cliArgs = process.argv.slice(2);
+
+if (isCliInvocation(cliArgs)) {
+  runCli(cliArgs).then((exitCode) => process.exit(exitCode));
+} else {
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 
-main().catch((error: unknown) => {
-  logger.error('Failed to start MCP server', {
-    error: error instanceof Error ? error : new Error(String(error))
+  main().catch((error: unknown) => {
+    logger.error('Failed to start MCP server', {
+      error: error instanceof Error ? error : new Error(String(error))
+    });
+    process.exit(1);
   });
-  process.exit(1);
-});
+}
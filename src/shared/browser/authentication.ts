@@ -0,0 +1,282 @@
+import type { Browser, BrowserContext, Cookie, CookieData, Page } from 'puppeteer';
+import type { AnalysisTarget } from '../types/analysis.js';
+import type {
+  AuthCookie,
+  AuthSession,
+  Authentication,
+  LoginScript,
+  LoginStep,
+} from '../types/authentication.js';
+import { createAdapterLogger } from '../utils/logger.js';
+import { onJobAbort } from '../jobs/context.js';
+import { getBrowserPool } from './pool.js';
+
+export interface LoginBrowserOptions {
+  headless?: boolean | undefined;
+  ignoreHTTPSErrors?: boolean | undefined;
+  timeout?: number | undefined;
+}
+
+const logger = createAdapterLogger('Authentication');
+
+export function hasAuthentication(target: AnalysisTarget): boolean {
+  return Boolean(target.options?.authentication || target.options?.authSession);
+}
+
+function getTargetUrl(target: AnalysisTarget): string | undefined {
+  return target.type === 'url' ? target.value : undefined;
+}
+
+function toCookieData(cookie: AuthCookie, targetUrl?: string): CookieData | null {
+  const scopeUrl = cookie.url ?? targetUrl;
+  const domain = cookie.domain ?? (scopeUrl ? new URL(scopeUrl).hostname : undefined);
+
+  if (!domain) {
+    return null;
+  }
+
+  const data: CookieData = { name: cookie.name, value: cookie.value, domain };
+  if (cookie.path !== undefined) data.path = cookie.path;
+  if (cookie.secure !== undefined) data.secure = cookie.secure;
+  if (cookie.httpOnly !== undefined) data.httpOnly = cookie.httpOnly;
+  if (cookie.sameSite !== undefined) data.sameSite = cookie.sameSite;
+  return data;
+}
+
+function fromBrowserCookie(cookie: Cookie): AuthCookie {
+  const authCookie: AuthCookie = {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+  };
+  if (cookie.sameSite) authCookie.sameSite = cookie.sameSite;
+  return authCookie;
+}
+
+export function getAuthCookies(target: AnalysisTarget): CookieData[] {
+  const cookies = [
+    ...(target.options?.authSession?.cookies ?? []),
+    ...(target.options?.authentication?.cookies ?? []),
+  ];
+
+  return cookies
+    .map((cookie) => toCookieData(cookie, getTargetUrl(target)))
+    .filter((cookie): cookie is CookieData => cookie !== null);
+}
+
+export function getAuthLocalStorage(
+  target: AnalysisTarget
+): Record<string, Record<string, string>> {
+  const storage: Record<string, Record<string, string>> = {
+    ...target.options?.authSession?.localStorage,
+  };
+  const entries = target.options?.authentication?.localStorage;
+  const targetUrl = getTargetUrl(target);
+
+  if (entries && targetUrl) {
+    const origin = new URL(targetUrl).origin;
+    storage[origin] = { ...storage[origin], ...entries };
+  }
+
+  return storage;
+}
+
+export function getAuthHeaders(target: AnalysisTarget): Record<string, string> {
+  const authentication = target.options?.authentication;
+  const headers: Record<string, string> = { ...authentication?.headers };
+
+  if (authentication?.basicAuth) {
+    const { username, password } = authentication.basicAuth;
+    headers['Authorization'] ??=
+      `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Returns the authentication headers for a request, which only requests to
+ * the target's origin receive so tokens never reach third-party hosts.
+ */
+export function getRequestAuthHeaders(
+  requestUrl: string,
+  target: AnalysisTarget
+): Record<string, string> {
+  const targetUrl = getTargetUrl(target);
+  if (!targetUrl) {
+    return {};
+  }
+
+  return new URL(requestUrl).origin === new URL(targetUrl).origin ? getAuthHeaders(target) : {};
+}
+
+async function applyAuthHeaders(page: Page, target: AnalysisTarget): Promise<void> {
+  if (!getTargetUrl(target) || Object.keys(getAuthHeaders(target)).length === 0) {
+    return;
+  }
+
+  await page.setRequestInterception(true);
+  page.on('request', (request) => {
+    if (request.isInterceptResolutionHandled()) return;
+
+    const headers = getRequestAuthHeaders(request.url(), target);
+    const overrides =
+      Object.keys(headers).length > 0 ? { headers: { ...request.headers(), ...headers } } : {};
+    request.continue(overrides).catch(() => {});
+  });
+}
+
+export async function applyAuthentication(page: Page, target: AnalysisTarget): Promise<void> {
+  await applyAuthHeaders(page, target);
+
+  const cookies = getAuthCookies(target);
+  if (cookies.length > 0) {
+    await page.browserContext().setCookie(...cookies);
+  }
+
+  const storage = getAuthLocalStorage(target);
+  if (Object.keys(storage).length > 0) {
+    await page.evaluateOnNewDocument((entriesByOrigin: Record<string, Record<string, string>>) => {
+      const entries = entriesByOrigin[window.location.origin];
+      if (!entries) return;
+      for (const [key, value] of Object.entries(entries)) {
+        window.localStorage.setItem(key, value);
+      }
+    }, storage);
+  }
+}
+
+/**
+ * Opens a page for the target. When called inside a job, the page is closed
+ * if the job is cancelled, which makes pending navigation and evaluation fail
+ * fast.
+ */
+export async function openTargetPage(browser: Browser, target: AnalysisTarget): Promise<Page> {
+  if (!hasAuthentication(target)) {
+    return closeOnJobAbort(await browser.newPage());
+  }
+
+  const context = await browser.createBrowserContext();
+  const page = closeOnJobAbort(await context.newPage());
+  await applyAuthentication(page, target);
+  return page;
+}
+
+function closeOnJobAbort(page: Page): Page {
+  const detach = onJobAbort(() => {
+    page.close().catch(() => {});
+  });
+
+  if (detach) {
+    page.once('close', detach);
+  }
+
+  return page;
+}
+
+export async function closeTargetPage(page: Page): Promise<void> {
+  const context = page.browserContext();
+  await page.close().catch(() => {});
+
+  if (context !== page.browser().defaultBrowserContext()) {
+    await context.close().catch(() => {});
+  }
+}
+
+async function runLoginStep(page: Page, step: LoginStep, timeout: number): Promise<void> {
+  switch (step.action) {
+    case 'goto':
+      await page.goto(step.url, { waitUntil: 'networkidle2', timeout });
+      break;
+
+    case 'type':
+      await page.waitForSelector(step.selector, { timeout });
+      await page.type(step.selector, step.value);
+      break;
+
+    case 'click':
+      await page.waitForSelector(step.selector, { timeout });
+      await page.click(step.selector);
+      break;
+
+    case 'waitForSelector':
+      await page.waitForSelector(step.selector, { timeout: step.timeout ?? timeout });
+      break;
+  }
+}
+
+export async function runLoginScript(
+  script: LoginScript,
+  authentication: Omit<Authentication, 'loginScript'> = {},
+  options: LoginBrowserOptions = {}
+): Promise<AuthSession> {
+  const timeout = options.timeout ?? 30000;
+  const lease = await getBrowserPool().acquire({
+    headless: options.headless,
+    ignoreHTTPSErrors: options.ignoreHTTPSErrors,
+  });
+  let context: BrowserContext | null = null;
+
+  try {
+    context = await lease.browser.createBrowserContext();
+    const page = await context.newPage();
+    await applyAuthentication(page, {
+      type: 'url',
+      value: script.url,
+      options: { authentication },
+    });
+
+    logger.info('Running login script', { target: script.url, steps: script.steps.length });
+    await page.goto(script.url, { waitUntil: 'networkidle2', timeout });
+
+    for (const [index, step] of script.steps.entries()) {
+      logger.debug('Running login step', { step: index + 1, action: step.action });
+
+      try {
+        await runLoginStep(page, step, timeout);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Login step ${index + 1} (${step.action}) failed: ${message}`);
+      }
+    }
+
+    const cookies = await context.cookies();
+    const storage = await page.evaluate(() => ({
+      origin: window.location.origin,
+      entries: Object.fromEntries(Object.entries(window.localStorage)),
+    }));
+
+    logger.info('Login script completed', { cookieCount: cookies.length });
+
+    return {
+      cookies: cookies.map(fromBrowserCookie),
+      localStorage:
+        Object.keys(storage.entries).length > 0 ? { [storage.origin]: storage.entries } : {},
+    };
+  } finally {
+    await context?.close().catch(() => {});
+    await lease.release();
+  }
+}
+
+export async function resolveAuthSession(
+  target: AnalysisTarget,
+  options: LoginBrowserOptions = {}
+): Promise<AnalysisTarget> {
+  const authentication = target.options?.authentication;
+
+  if (!authentication?.loginScript || target.options?.authSession) {
+    return target;
+  }
+
+  const { loginScript, ...rest } = authentication;
+  const authSession = await runLoginScript(loginScript, rest, {
+    ...options,
+    ignoreHTTPSErrors: options.ignoreHTTPSErrors ?? target.options?.ignoreHTTPSErrors ?? false,
+  });
+
+  return { ...target, options: { ...target.options, authSession } };
+}
@@ -0,0 +1,8 @@
+export * from './authentication.js';
+export * from './interactions.js';
+export * from './navigation.js';
+export * from './states.js';
+export * from './pool.js';
+export * from './screenshots.js';
+export * from './selectors.js';
+export * from './viewports.js';
@@ -0,0 +1,90 @@
+import type { KeyInput, Page } from 'puppeteer';
+import type { AnalysisTarget } from '../types/analysis.js';
+import type { InteractionAction } from '../types/interaction.js';
+import { createAdapterLogger } from '../utils/logger.js';
+
+const logger = createAdapterLogger('Interactions');
+
+async function runInteraction(
+  page: Page,
+  action: InteractionAction,
+  timeout: number
+): Promise<void> {
+  switch (action.action) {
+    case 'click':
+      await page.waitForSelector(action.selector, { timeout });
+      await page.click(action.selector);
+      break;
+
+    case 'hover':
+      await page.waitForSelector(action.selector, { timeout });
+      await page.hover(action.selector);
+      break;
+
+    case 'focus':
+      await page.waitForSelector(action.selector, { timeout });
+      await page.focus(action.selector);
+      break;
+
+    case 'type':
+      await page.waitForSelector(action.selector, { timeout });
+      await page.type(action.selector, action.value);
+      break;
+
+    case 'press':
+      if (action.selector) {
+        await page.waitForSelector(action.selector, { timeout });
+        await page.focus(action.selector);
+      }
+      await page.keyboard.press(action.key as KeyInput);
+      break;
+
+    case 'scroll':
+      if (action.selector) {
+        const element = await page.waitForSelector(action.selector, { timeout });
+        await element?.scrollIntoView();
+      } else {
+        await page.evaluate(
+          (x: number, y: number) => window.scrollTo(x, y),
+          action.x ?? 0,
+          action.y ?? 0
+        );
+      }
+      break;
+
+    case 'wait':
+      if (action.selector) {
+        await page.waitForSelector(action.selector, { visible: true, timeout });
+      }
+      if (action.duration) {
+        await new Promise((resolve) => setTimeout(resolve, action.duration));
+      }
+      break;
+
+    case 'select':
+      await page.waitForSelector(action.selector, { timeout });
+      await page.select(action.selector, ...action.values);
+      break;
+  }
+}
+
+export function hasInteractions(target: AnalysisTarget): boolean {
+  return (target.options?.actions?.length ?? 0) > 0;
+}
+
+export async function runInteractions(
+  page: Page,
+  actions: InteractionAction[] = [],
+  timeout = 30000
+): Promise<void> {
+  for (const [index, action] of actions.entries()) {
+    logger.debug('Running interaction', { step: index + 1, action: action.action });
+
+    try {
+      await runInteraction(page, action, timeout);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Action ${index + 1} (${action.action}) failed: ${message}`);
+    }
+  }
+}
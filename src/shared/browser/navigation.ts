@@ -0,0 +1,51 @@
+import type { Page } from 'puppeteer';
+import type { PageSnapshot } from '../types/accessibility.js';
+import type { AnalysisTarget } from '../types/analysis.js';
+import { runInteractions } from './interactions.js';
+
+export function createPageSnapshot(url?: string): PageSnapshot {
+  return {
+    id: `snap_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+    url: url || undefined,
+    loadedAt: new Date().toISOString(),
+  };
+}
+
+export async function loadTarget(
+  page: Page,
+  target: AnalysisTarget,
+  defaultTimeout = 30000
+): Promise<PageSnapshot> {
+  const timeout = target.options?.timeout ?? defaultTimeout;
+
+  switch (target.type) {
+    case 'url':
+      await page.goto(target.value, {
+        waitUntil: 'networkidle2',
+        timeout,
+      });
+      break;
+
+    case 'html':
+      await page.setContent(target.value, {
+        waitUntil: 'networkidle2',
+        timeout,
+      });
+      break;
+
+    case 'file':
+      await page.goto(`file://${target.value}`, {
+        waitUntil: 'networkidle2',
+        timeout,
+      });
+      break;
+  }
+
+  if (target.options?.waitForSelector) {
+    await page.waitForSelector(target.options.waitForSelector, { timeout });
+  }
+
+  await runInteractions(page, target.options?.actions, timeout);
+
+  return createPageSnapshot(target.type === 'html' ? undefined : page.url());
+}
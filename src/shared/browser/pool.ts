@@ -0,0 +1,465 @@
+import type { Browser, LaunchOptions } from 'puppeteer';
+import puppeteer from 'puppeteer';
+import { getBrowserPoolSettings } from '../config/resolve.js';
+import { createAdapterLogger } from '../utils/logger.js';
+
+export interface BrowserLaunchOptions {
+  headless?: boolean | undefined;
+  args?: string[] | undefined;
+  ignoreHTTPSErrors?: boolean | undefined;
+  executablePath?: string | undefined;
+}
+
+export interface BrowserPoolOptions {
+  /** Browsers kept open at the same time, across all launch options. */
+  maxBrowsers: number;
+  /** Leases served concurrently by one browser. */
+  maxPagesPerBrowser: number;
+  /** Milliseconds an unused browser stays open. 0 closes it as soon as it is released. */
+  idleTimeout: number;
+  /** Milliseconds between health checks of idle browsers. 0 disables them. */
+  healthCheckInterval: number;
+  /** Milliseconds to wait for a free slot before giving up. */
+  acquireTimeout: number;
+}
+
+export type BrowserPoolConfig = {
+  [K in keyof BrowserPoolOptions]?: BrowserPoolOptions[K] | undefined;
+};
+
+export interface AcquireOptions {
+  /** Reserve the whole browser, for tools such as Lighthouse that drive it over its debugging port. */
+  exclusive?: boolean | undefined;
+}
+
+export interface ReleaseOptions {
+  /** Close the browser instead of returning it, e.g. after session cookies were set on its default context. */
+  discard?: boolean | undefined;
+}
+
+export interface BrowserLease {
+  readonly browser: Browser;
+  release(options?: ReleaseOptions): Promise<void>;
+}
+
+export interface BrowserPoolStats {
+  browsers: number;
+  activeLeases: number;
+  waiting: number;
+}
+
+interface PooledBrowser {
+  id: number;
+  key: string;
+  ready: Promise<Browser>;
+  browser: Browser | null;
+  leases: number;
+  exclusive: boolean;
+  closing: boolean;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+export const DEFAULT_BROWSER_POOL_OPTIONS: BrowserPoolOptions = {
+  maxBrowsers: 2,
+  maxPagesPerBrowser: 5,
+  idleTimeout: 30000,
+  healthCheckInterval: 60000,
+  acquireTimeout: 120000,
+};
+
+const DEFAULT_BROWSER_ARGS = ['--no-sandbox', '--disable-setuid-sandbox'];
+const SSL_BROWSER_ARGS = [
+  '--ignore-certificate-errors',
+  '--ignore-ssl-errors',
+  '--allow-running-insecure-content',
+];
+const HEALTH_CHECK_TIMEOUT = 5000;
+
+export function toPuppeteerLaunchOptions(options: BrowserLaunchOptions = {}): LaunchOptions {
+  const ignoreHTTPSErrors = options.ignoreHTTPSErrors ?? false;
+
+  return {
+    headless: options.headless ?? true,
+    args: [
+      ...(options.args ?? DEFAULT_BROWSER_ARGS),
+      ...(ignoreHTTPSErrors ? SSL_BROWSER_ARGS : []),
+    ],
+    acceptInsecureCerts: ignoreHTTPSErrors,
+    ...(options.executablePath && { executablePath: options.executablePath }),
+  };
+}
+
+function toPoolKey(options: BrowserLaunchOptions): string {
+  const launch = toPuppeteerLaunchOptions(options);
+  return JSON.stringify([
+    launch.headless,
+    [...(launch.args ?? [])].sort(),
+    launch.acceptInsecureCerts,
+    launch.executablePath ?? null,
+  ]);
+}
+
+async function respondsWithin(browser: Browser, timeout: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeout);
+  });
+
+  try {
+    return await Promise.race([
+      browser.version().then(
+        () => true,
+        () => false
+      ),
+      timedOut,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Shares Chrome instances between adapters. Browsers are keyed by their
+ * launch options, so tools that need the same flags reuse one process and
+ * each analysis leases a slot instead of launching its own browser.
+ */
+export class BrowserPool {
+  private readonly options: BrowserPoolOptions;
+  private readonly entries = new Set<PooledBrowser>();
+  private waiters: Array<() => void> = [];
+  private healthTimer: NodeJS.Timeout | null = null;
+  private nextId = 1;
+  private logger = createAdapterLogger('BrowserPool');
+
+  constructor(config: BrowserPoolConfig = {}) {
+    this.options = {
+      maxBrowsers: config.maxBrowsers ?? DEFAULT_BROWSER_POOL_OPTIONS.maxBrowsers,
+      maxPagesPerBrowser:
+        config.maxPagesPerBrowser ?? DEFAULT_BROWSER_POOL_OPTIONS.maxPagesPerBrowser,
+      idleTimeout: config.idleTimeout ?? DEFAULT_BROWSER_POOL_OPTIONS.idleTimeout,
+      healthCheckInterval:
+        config.healthCheckInterval ?? DEFAULT_BROWSER_POOL_OPTIONS.healthCheckInterval,
+      acquireTimeout: config.acquireTimeout ?? DEFAULT_BROWSER_POOL_OPTIONS.acquireTimeout,
+    };
+  }
+
+  async acquire(
+    launch: BrowserLaunchOptions = {},
+    options: AcquireOptions = {}
+  ): Promise<BrowserLease> {
+    const key = toPoolKey(launch);
+    const exclusive = options.exclusive ?? false;
+    const deadline = Date.now() + this.options.acquireTimeout;
+
+    for (;;) {
+      const entry = this.reserve(key, launch, exclusive);
+      if (!entry) {
+        await this.waitForSlot(deadline);
+        continue;
+      }
+
+      try {
+        const browser = await entry.ready;
+        return this.createLease(entry, browser);
+      } catch (error) {
+        entry.leases--;
+        await this.closeEntry(entry);
+        throw error;
+      }
+    }
+  }
+
+  async isAvailable(launch: BrowserLaunchOptions = {}): Promise<boolean> {
+    const key = toPoolKey(launch);
+    for (const entry of this.entries) {
+      if (entry.key === key && !entry.closing && entry.browser?.connected) {
+        return true;
+      }
+    }
+
+    try {
+      const lease = await this.acquire(launch);
+      await lease.release();
+      return true;
+    } catch (error) {
+      this.logger.warn('Browser is not available', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Closes browsers that are disconnected or do not answer within a few
+   * seconds. Browsers serving a lease are only checked for a connection.
+   */
+  async checkHealth(): Promise<number> {
+    const unhealthy: PooledBrowser[] = [];
+
+    for (const entry of this.entries) {
+      if (!entry.browser || entry.closing) continue;
+
+      const healthy =
+        entry.browser.connected &&
+        (entry.leases > 0 || (await respondsWithin(entry.browser, HEALTH_CHECK_TIMEOUT)));
+      if (!healthy) {
+        unhealthy.push(entry);
+      }
+    }
+
+    for (const entry of unhealthy) {
+      this.logger.warn('Browser failed health check', { browser: entry.id, leases: entry.leases });
+      await this.closeEntry(entry);
+    }
+
+    return unhealthy.length;
+  }
+
+  /** Closes browsers without active leases, optionally only those launched with `launch`. */
+  async closeIdle(launch?: BrowserLaunchOptions): Promise<void> {
+    const key = launch ? toPoolKey(launch) : undefined;
+    const idle = [...this.entries].filter(
+      (entry) => entry.leases === 0 && (key === undefined || entry.key === key)
+    );
+
+    await Promise.all(idle.map((entry) => this.closeEntry(entry)));
+  }
+
+  async close(): Promise<void> {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+
+    await Promise.all([...this.entries].map((entry) => this.closeEntry(entry)));
+  }
+
+  stats(): BrowserPoolStats {
+    let activeLeases = 0;
+    for (const entry of this.entries) {
+      activeLeases += entry.leases;
+    }
+
+    return { browsers: this.entries.size, activeLeases, waiting: this.waiters.length };
+  }
+
+  private reserve(
+    key: string,
+    launch: BrowserLaunchOptions,
+    exclusive: boolean
+  ): PooledBrowser | null {
+    for (const entry of [...this.entries]) {
+      if (entry.browser && !entry.browser.connected) {
+        this.logger.warn('Dropping disconnected browser', { browser: entry.id });
+        void this.closeEntry(entry);
+      }
+    }
+
+    for (const entry of this.entries) {
+      const hasRoom = exclusive
+        ? entry.leases === 0
+        : !entry.exclusive && entry.leases < this.options.maxPagesPerBrowser;
+
+      if (entry.key === key && hasRoom) {
+        this.take(entry, exclusive);
+        return entry;
+      }
+    }
+
+    if (this.entries.size >= this.options.maxBrowsers) {
+      const idle = [...this.entries].find((entry) => entry.leases === 0);
+      if (!idle) {
+        return null;
+      }
+      this.logger.debug('Evicting idle browser for different launch options', { browser: idle.id });
+      void this.closeEntry(idle);
+    }
+
+    const entry = this.launch(key, launch);
+    this.take(entry, exclusive);
+    return entry;
+  }
+
+  private launch(key: string, launch: BrowserLaunchOptions): PooledBrowser {
+    const id = this.nextId++;
+    this.logger.debug('Launching browser', {
+      browser: id,
+      ignoreHTTPSErrors: launch.ignoreHTTPSErrors ?? false,
+    });
+
+    const ready = puppeteer.launch(toPuppeteerLaunchOptions(launch));
+    const entry: PooledBrowser = {
+      id,
+      key,
+      ready,
+      browser: null,
+      leases: 0,
+      exclusive: false,
+      closing: false,
+      idleTimer: null,
+    };
+
+    ready.then(
+      (browser) => {
+        entry.browser = browser;
+        browser.on('disconnected', () => this.handleDisconnect(entry));
+      },
+      () => {}
+    );
+
+    this.entries.add(entry);
+    this.startHealthChecks();
+    return entry;
+  }
+
+  private take(entry: PooledBrowser, exclusive: boolean): void {
+    entry.leases++;
+    entry.exclusive = exclusive;
+
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+  }
+
+  private createLease(entry: PooledBrowser, browser: Browser): BrowserLease {
+    let released = false;
+
+    return {
+      browser,
+      release: async (options: ReleaseOptions = {}) => {
+        if (released) return;
+        released = true;
+
+        entry.leases--;
+        if (entry.leases === 0) {
+          entry.exclusive = false;
+        }
+        if (options.discard) {
+          this.entries.delete(entry);
+        }
+
+        if (!this.entries.has(entry)) {
+          if (entry.leases === 0) {
+            await this.closeEntry(entry);
+          }
+        } else if (entry.leases === 0) {
+          this.scheduleIdleClose(entry);
+        }
+
+        this.notify();
+      },
+    };
+  }
+
+  private scheduleIdleClose(entry: PooledBrowser): void {
+    if (this.options.idleTimeout === 0) {
+      void this.closeEntry(entry);
+      return;
+    }
+
+    entry.idleTimer = setTimeout(() => {
+      entry.idleTimer = null;
+      if (entry.leases === 0) {
+        this.logger.debug('Closing idle browser', { browser: entry.id });
+        void this.closeEntry(entry);
+      }
+    }, this.options.idleTimeout);
+    entry.idleTimer.unref();
+  }
+
+  private startHealthChecks(): void {
+    if (this.healthTimer || this.options.healthCheckInterval === 0) return;
+
+    this.healthTimer = setInterval(() => {
+      this.checkHealth().catch((error) => {
+        this.logger.warn('Browser health check failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }, this.options.healthCheckInterval);
+    this.healthTimer.unref();
+  }
+
+  private handleDisconnect(entry: PooledBrowser): void {
+    if (entry.closing) return;
+
+    this.logger.warn('Browser disconnected unexpectedly', {
+      browser: entry.id,
+      leases: entry.leases,
+    });
+    entry.closing = true;
+    this.entries.delete(entry);
+    this.notify();
+  }
+
+  private async closeEntry(entry: PooledBrowser): Promise<void> {
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+
+    const wasClosing = entry.closing;
+    entry.closing = true;
+    this.entries.delete(entry);
+    this.notify();
+
+    if (wasClosing) return;
+
+    const browser = entry.browser ?? (await entry.ready.catch(() => null));
+    if (browser) {
+      await browser.close().catch(() => {});
+      this.logger.debug('Browser closed', { browser: entry.id });
+    }
+  }
+
+  private async waitForSlot(deadline: number): Promise<void> {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new Error(
+        `Timed out after ${this.options.acquireTimeout}ms waiting for a browser from the pool`
+      );
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const wake = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((waiter) => waiter !== wake);
+        reject(
+          new Error(
+            `Timed out after ${this.options.acquireTimeout}ms waiting for a browser from the pool`
+          )
+        );
+      }, remaining);
+
+      this.waiters.push(wake);
+    });
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const wake of waiters) {
+      wake();
+    }
+  }
+}
+
+let sharedPool: BrowserPool | null = null;
+
+/** Returns the process-wide pool, created from the project config's `browserPool` settings. */
+export function getBrowserPool(): BrowserPool {
+  sharedPool ??= new BrowserPool(getBrowserPoolSettings());
+  return sharedPool;
+}
+
+export async function closeBrowserPool(): Promise<void> {
+  if (sharedPool) {
+    const pool = sharedPool;
+    sharedPool = null;
+    await pool.close();
+  }
+}
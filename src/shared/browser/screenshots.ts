@@ -0,0 +1,257 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import type { Page } from 'puppeteer';
+import type { AccessibilityIssue, PageSnapshot } from '../types/accessibility.js';
+import type { IssueScreenshot, ScreenshotImage, ScreenshotOptions } from '../types/screenshot.js';
+import { DEFAULT_MAX_ELEMENT_SCREENSHOTS } from '../types/screenshot.js';
+import { createAdapterLogger } from '../utils/logger.js';
+
+export interface ElementBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DocumentSize {
+  width: number;
+  height: number;
+}
+
+export interface ScreenshotTarget {
+  marker: number;
+  selector: string;
+  box: ElementBox;
+}
+
+export interface IssueScreenshots<I extends AccessibilityIssue> {
+  issues: I[];
+  pageScreenshot?: ScreenshotImage | undefined;
+}
+
+/** Space kept around the element so the highlight and its surroundings show. */
+const CROP_PADDING = 16;
+const OVERLAY_ATTRIBUTE = 'data-accessibilityhub-screenshot';
+
+const logger = createAdapterLogger('Screenshots');
+
+/**
+ * Picks the elements to capture from unique selectors, in issue order,
+ * skipping zero-size elements and elements entirely outside the document
+ * (such as visually hidden text moved offscreen).
+ */
+export function planIssueScreenshots(
+  selectors: string[],
+  boxes: Array<ElementBox | null>,
+  document: DocumentSize,
+  maxElements: number
+): ScreenshotTarget[] {
+  const targets: ScreenshotTarget[] = [];
+
+  selectors.forEach((selector, index) => {
+    const box = boxes[index];
+    if (targets.length >= maxElements || !box) return;
+    if (box.width < 1 || box.height < 1) return;
+    if (
+      box.x + box.width <= 0 ||
+      box.y + box.height <= 0 ||
+      box.x >= document.width ||
+      box.y >= document.height
+    ) {
+      return;
+    }
+
+    targets.push({ marker: targets.length + 1, selector, box });
+  });
+
+  return targets;
+}
+
+/** Crop around an element, clamped to the document. */
+export function getScreenshotClip(box: ElementBox, document: DocumentSize): ElementBox {
+  const x = Math.max(box.x - CROP_PADDING, 0);
+  const y = Math.max(box.y - CROP_PADDING, 0);
+
+  return {
+    x,
+    y,
+    width: Math.max(Math.min(box.x + box.width + CROP_PADDING, document.width) - x, 1),
+    height: Math.max(Math.min(box.y + box.height + CROP_PADDING, document.height) - y, 1),
+  };
+}
+
+async function locateElements(
+  page: Page,
+  selectors: string[]
+): Promise<{ document: DocumentSize; boxes: Array<ElementBox | null> }> {
+  return await page.evaluate((selectorList: string[]) => {
+    const boxes = selectorList.map((selector) => {
+      let element: Element | null = null;
+      try {
+        element = document.querySelector(selector);
+      } catch {
+        return null;
+      }
+      if (!element) return null;
+
+      const style = window.getComputedStyle(element);
+      if (style.display === 'none' || style.visibility === 'hidden') return null;
+
+      const rect = element.getBoundingClientRect();
+      return {
+        x: rect.left + window.scrollX,
+        y: rect.top + window.scrollY,
+        width: rect.width,
+        height: rect.height,
+      };
+    });
+
+    return {
+      document: {
+        width: document.documentElement.scrollWidth,
+        height: document.documentElement.scrollHeight,
+      },
+      boxes,
+    };
+  }, selectors);
+}
+
+async function drawMarkers(page: Page, targets: ScreenshotTarget[]): Promise<void> {
+  await page.evaluate(
+    (markers: Array<{ marker: number; box: ElementBox }>, attribute: string) => {
+      const overlay = document.createElement('div');
+      overlay.setAttribute(attribute, '');
+      overlay.style.cssText =
+        'position:absolute;top:0;left:0;width:0;height:0;z-index:2147483647;pointer-events:none;';
+
+      for (const { marker, box } of markers) {
+        const frame = document.createElement('div');
+        frame.style.cssText = `position:absolute;left:${box.x - 3}px;top:${box.y - 3}px;width:${box.width + 6}px;height:${box.height + 6}px;border:3px solid #d6336c;box-shadow:0 0 0 2px #fff;box-sizing:border-box;`;
+
+        const label = document.createElement('span');
+        label.textContent = String(marker);
+        label.style.cssText =
+          'position:absolute;top:-12px;left:-12px;min-width:22px;height:22px;padding:0 4px;border-radius:11px;background:#d6336c;color:#fff;font:bold 13px/22px sans-serif;text-align:center;box-shadow:0 0 0 2px #fff;';
+
+        frame.appendChild(label);
+        overlay.appendChild(frame);
+      }
+
+      document.body.appendChild(overlay);
+    },
+    targets.map(({ marker, box }) => ({ marker, box })),
+    OVERLAY_ATTRIBUTE
+  );
+}
+
+async function removeMarkers(page: Page): Promise<void> {
+  await page.evaluate((attribute: string) => {
+    document.querySelectorAll(`[${attribute}]`).forEach((element) => element.remove());
+  }, OVERLAY_ATTRIBUTE);
+}
+
+async function saveImage(
+  data: string,
+  fileName: string,
+  outputDir: string | undefined
+): Promise<ScreenshotImage> {
+  if (!outputDir) return { data };
+
+  const directory = resolve(process.cwd(), outputDir);
+  const path = join(directory, fileName);
+  await mkdir(directory, { recursive: true });
+  await writeFile(path, Buffer.from(data, 'base64'));
+
+  return { path };
+}
+
+/** Files of the annotated full-page screenshots written for these page loads. */
+export function getPageScreenshotPaths(
+  snapshots: PageSnapshot[] | undefined
+): string[] | undefined {
+  const paths = (snapshots ?? []).flatMap((snapshot) =>
+    snapshot.screenshot?.path ? [snapshot.screenshot.path] : []
+  );
+  return paths.length > 0 ? Array.from(new Set(paths)) : undefined;
+}
+
+/**
+ * Captures a cropped, highlighted screenshot of the elements the issues point
+ * at and attaches it to each issue. Issues sharing a selector share the
+ * screenshot. `name` prefixes the file names when images are written to disk,
+ * so it should identify the tool and the page load. Capturing never fails the
+ * analysis: on error the issues are returned without screenshots.
+ */
+export async function captureIssueScreenshots<I extends AccessibilityIssue>(
+  page: Page,
+  issues: I[],
+  options: ScreenshotOptions,
+  name: string
+): Promise<IssueScreenshots<I>> {
+  const selectors = Array.from(
+    new Set(
+      issues
+        .map((issue) => issue.location.selector)
+        .filter((selector): selector is string => !!selector)
+    )
+  );
+  if (selectors.length === 0) return { issues };
+
+  try {
+    const { document, boxes } = await locateElements(page, selectors);
+    const targets = planIssueScreenshots(
+      selectors,
+      boxes,
+      document,
+      options.maxElements ?? DEFAULT_MAX_ELEMENT_SCREENSHOTS
+    );
+    if (targets.length === 0) return { issues };
+
+    const screenshots = new Map<string, IssueScreenshot>();
+    let pageScreenshot: ScreenshotImage | undefined;
+
+    await drawMarkers(page, targets);
+    try {
+      for (const target of targets) {
+        const data = await page.screenshot({
+          clip: getScreenshotClip(target.box, document),
+          captureBeyondViewport: true,
+          encoding: 'base64',
+          type: 'png',
+        });
+        screenshots.set(target.selector, {
+          marker: target.marker,
+          boundingBox: target.box,
+          ...(await saveImage(data, `${name}-${target.marker}.png`, options.outputDir)),
+        });
+      }
+
+      if (options.fullPage) {
+        const data = await page.screenshot({ fullPage: true, encoding: 'base64', type: 'png' });
+        pageScreenshot = await saveImage(data, `${name}-page.png`, options.outputDir);
+      }
+    } finally {
+      await removeMarkers(page);
+    }
+
+    logger.debug('Captured element screenshots', {
+      captured: targets.length,
+      skipped: selectors.length - targets.length,
+    });
+
+    return {
+      issues: issues.map((issue) => {
+        const screenshot = issue.location.selector
+          ? screenshots.get(issue.location.selector)
+          : undefined;
+        return screenshot ? { ...issue, screenshot } : issue;
+      }),
+      pageScreenshot,
+    };
+  } catch (error) {
+    logger.warn('Could not capture element screenshots', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { issues };
+  }
+}
@@ -0,0 +1,44 @@
+import type { Page } from 'puppeteer';
+
+export type SelectorWindow = Window & { __a11ySelectorOf: (el: Element) => string };
+
+/**
+ * Runs in the page. Defines `window.__a11ySelectorOf`, which builds a
+ * selector matching only the given element: the nearest unique id, escaped,
+ * followed by an nth-of-type path down to the element.
+ */
+function defineSelectorHelper(): void {
+  function selectorOf(el: Element): string {
+    const parts: string[] = [];
+    let current: Element | null = el;
+
+    while (current && current !== document.documentElement) {
+      if (current.id && document.querySelectorAll(`#${CSS.escape(current.id)}`).length === 1) {
+        parts.unshift(`#${CSS.escape(current.id)}`);
+        break;
+      }
+
+      const tagName = current.tagName.toLowerCase();
+      const parent: Element | null = current.parentElement;
+      const sameTag = parent
+        ? Array.from(parent.children).filter((child) => child.tagName === current!.tagName)
+        : [];
+      parts.unshift(
+        sameTag.length > 1 ? `${tagName}:nth-of-type(${sameTag.indexOf(current) + 1})` : tagName
+      );
+      current = parent;
+    }
+
+    return parts.join(' > ') || 'html';
+  }
+
+  (window as unknown as SelectorWindow).__a11ySelectorOf = selectorOf;
+}
+
+/**
+ * Makes `window.__a11ySelectorOf` available to later evaluate calls. Call it
+ * after every navigation, since the page's window is replaced.
+ */
+export async function installSelectorHelper(page: Page): Promise<void> {
+  await page.evaluate(defineSelectorHelper);
+}
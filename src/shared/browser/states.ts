@@ -0,0 +1,123 @@
+import type { AccessibilityIssue, AnalysisSummary, PageSnapshot } from '../types/accessibility.js';
+import type { AnalysisTarget } from '../types/analysis.js';
+import type { InteractionState } from '../types/interaction.js';
+import type { ProgressReporter } from '../jobs/context.js';
+import { createAdapterLogger } from '../utils/logger.js';
+import { resolveAuthSession } from './authentication.js';
+
+export interface StateSummary {
+  byState?: Record<string, number> | undefined;
+}
+
+export interface StatefulResult<S extends StateSummary = StateSummary> {
+  success: boolean;
+  duration?: number | undefined;
+  issues: AccessibilityIssue[];
+  summary: S;
+  snapshots?: PageSnapshot[] | undefined;
+  error?: string | undefined;
+}
+
+export interface StateRun<R extends StatefulResult> {
+  state: string;
+  result: R;
+}
+
+export type StateSummaryMerger<S extends StateSummary> = (summaries: S[]) => S;
+
+const logger = createAdapterLogger('States');
+
+export function toStateTarget(target: AnalysisTarget, state: InteractionState): AnalysisTarget {
+  const { states: _states, ...options } = target.options ?? {};
+
+  return {
+    ...target,
+    options: { ...options, actions: [...(options.actions ?? []), ...state.actions] },
+  };
+}
+
+export function mergeAnalysisSummaries(summaries: AnalysisSummary[]): AnalysisSummary {
+  const merged: AnalysisSummary = {
+    total: 0,
+    bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+  };
+
+  for (const summary of summaries) {
+    merged.total += summary.total;
+
+    for (const [severity, count] of Object.entries(summary.bySeverity)) {
+      merged.bySeverity[severity as keyof AnalysisSummary['bySeverity']] += count;
+    }
+
+    if (summary.byPrinciple) {
+      merged.byPrinciple ??= { perceivable: 0, operable: 0, understandable: 0, robust: 0 };
+      for (const [principle, count] of Object.entries(summary.byPrinciple)) {
+        merged.byPrinciple[principle as keyof NonNullable<AnalysisSummary['byPrinciple']>] += count;
+      }
+    }
+
+    if (summary.byRule) {
+      merged.byRule ??= {};
+      for (const [ruleId, count] of Object.entries(summary.byRule)) {
+        merged.byRule[ruleId] = (merged.byRule[ruleId] ?? 0) + count;
+      }
+    }
+  }
+
+  return merged;
+}
+
+export function mergeStateResults<S extends StateSummary, R extends StatefulResult<S>>(
+  runs: Array<StateRun<R>>,
+  mergeSummaries: StateSummaryMerger<S>
+): R {
+  const issues = runs.flatMap(({ state, result }) =>
+    result.issues.map((issue) => ({ ...issue, id: `${state}:${issue.id}`, state }))
+  );
+  const errors = runs
+    .filter(({ result }) => result.error)
+    .map(({ state, result }) => `${state}: ${result.error}`);
+  const snapshots = runs.flatMap(({ state, result }) =>
+    (result.snapshots ?? []).map((snapshot) => ({ ...snapshot, state }))
+  );
+
+  return {
+    ...runs[0]!.result,
+    success: runs.every(({ result }) => result.success),
+    duration: runs.reduce((total, { result }) => total + (result.duration ?? 0), 0),
+    issues,
+    summary: {
+      ...mergeSummaries(runs.map(({ result }) => result.summary)),
+      byState: Object.fromEntries(runs.map(({ state, result }) => [state, result.issues.length])),
+    },
+    snapshots: snapshots.length > 0 ? snapshots : undefined,
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+  };
+}
+
+export async function analyzeInStates<S extends StateSummary, R extends StatefulResult<S>>(
+  target: AnalysisTarget,
+  analyze: (stateTarget: AnalysisTarget) => Promise<R>,
+  mergeSummaries: StateSummaryMerger<S>,
+  onProgress?: ProgressReporter
+): Promise<R> {
+  const states = target.options?.states;
+
+  if (!states || states.length === 0) {
+    return analyze(target);
+  }
+
+  const sessionTarget = await resolveAuthSession(target, {
+    ignoreHTTPSErrors: target.options?.ignoreHTTPSErrors,
+    timeout: target.options?.timeout,
+  });
+  const runs: Array<StateRun<R>> = [];
+
+  for (const [index, state] of states.entries()) {
+    logger.info('Analyzing UI state', { target: target.value, state: state.name });
+    runs.push({ state: state.name, result: await analyze(toStateTarget(sessionTarget, state)) });
+    onProgress?.(index + 1, states.length, `Analyzed state "${state.name}"`);
+  }
+
+  return mergeStateResults(runs, mergeSummaries);
+}
@@ -0,0 +1,179 @@
+import type { Viewport } from 'puppeteer';
+import type { AccessibilityIssue } from '../types/accessibility.js';
+import type { AnalysisTarget } from '../types/analysis.js';
+import type { EmulatedViewport, NamedViewport } from '../types/viewport.js';
+import { resolveViewport } from '../types/viewport.js';
+import { createAdapterLogger } from '../utils/logger.js';
+import { scaleProgress, type ProgressReporter } from '../jobs/context.js';
+import { resolveAuthSession } from './authentication.js';
+import type { StatefulResult, StateSummary, StateSummaryMerger } from './states.js';
+
+export interface ViewportSummary extends StateSummary {
+  byViewport?: Record<string, number> | undefined;
+  viewportSpecific?: Record<string, number> | undefined;
+  allViewports?: number | undefined;
+}
+
+export interface ViewportRun<R extends StatefulResult> {
+  viewport: string;
+  result: R;
+}
+
+export interface ViewportComparison<I extends AccessibilityIssue> {
+  issues: I[];
+  summary: Required<Pick<ViewportSummary, 'byViewport' | 'viewportSpecific' | 'allViewports'>>;
+}
+
+const logger = createAdapterLogger('Viewports');
+
+/** Puppeteer viewport without the emulation fields that were not set. */
+export function toPageViewport(viewport: EmulatedViewport): Viewport {
+  const { width, height, deviceScaleFactor, isMobile, hasTouch } = viewport;
+
+  return {
+    width,
+    height,
+    ...(deviceScaleFactor !== undefined && { deviceScaleFactor }),
+    ...(isMobile !== undefined && { isMobile }),
+    ...(hasTouch !== undefined && { hasTouch }),
+  };
+}
+
+export function toViewportTarget(target: AnalysisTarget, viewport: NamedViewport): AnalysisTarget {
+  const { viewports: _viewports, ...options } = target.options ?? {};
+  const { name: _name, ...emulated } = viewport;
+
+  return { ...target, options: { ...options, viewport: emulated } };
+}
+
+/** Identifies the same problem across viewports, where issue ids differ. */
+function getViewportIssueKey(issue: AccessibilityIssue): string {
+  return [
+    issue.tool,
+    issue.ruleId,
+    issue.state ?? '',
+    issue.location.selector ?? issue.location.xpath ?? issue.message,
+  ].join('|');
+}
+
+/**
+ * Flags each issue as viewport-specific unless the same rule fails on the same
+ * element in every viewport, and counts the issues per viewport.
+ */
+export function compareViewports<I extends AccessibilityIssue>(
+  issues: I[],
+  viewports: string[]
+): ViewportComparison<I> {
+  const found = new Map<string, Set<string>>();
+  for (const issue of issues) {
+    const key = getViewportIssueKey(issue);
+    found.set(key, (found.get(key) ?? new Set()).add(issue.viewport ?? ''));
+  }
+
+  const byViewport = Object.fromEntries(viewports.map((viewport) => [viewport, 0]));
+  const viewportSpecific = Object.fromEntries(viewports.map((viewport) => [viewport, 0]));
+
+  const flagged = issues.map((issue) => {
+    const specific = (found.get(getViewportIssueKey(issue))?.size ?? 0) < viewports.length;
+    if (issue.viewport !== undefined) {
+      byViewport[issue.viewport] = (byViewport[issue.viewport] ?? 0) + 1;
+      if (specific) {
+        viewportSpecific[issue.viewport] = (viewportSpecific[issue.viewport] ?? 0) + 1;
+      }
+    }
+    return { ...issue, viewportSpecific: specific };
+  });
+
+  return {
+    issues: flagged,
+    summary: {
+      byViewport,
+      viewportSpecific,
+      allViewports: [...found.values()].filter((names) => names.size === viewports.length).length,
+    },
+  };
+}
+
+function mergeStateCounts(summaries: StateSummary[]): Record<string, number> | undefined {
+  if (!summaries.some((summary) => summary.byState)) return undefined;
+
+  const merged: Record<string, number> = {};
+  for (const summary of summaries) {
+    for (const [state, count] of Object.entries(summary.byState ?? {})) {
+      merged[state] = (merged[state] ?? 0) + count;
+    }
+  }
+  return merged;
+}
+
+export function mergeViewportResults<S extends ViewportSummary, R extends StatefulResult<S>>(
+  runs: Array<ViewportRun<R>>,
+  mergeSummaries: StateSummaryMerger<S>
+): R {
+  const comparison = compareViewports(
+    runs.flatMap(({ viewport, result }) =>
+      result.issues.map((issue) => ({ ...issue, id: `${viewport}:${issue.id}`, viewport }))
+    ),
+    runs.map(({ viewport }) => viewport)
+  );
+  const errors = runs
+    .filter(({ result }) => result.error)
+    .map(({ viewport, result }) => `${viewport}: ${result.error}`);
+  const snapshots = runs.flatMap(({ viewport, result }) =>
+    (result.snapshots ?? []).map((snapshot) => ({ ...snapshot, viewport }))
+  );
+  const summaries = runs.map(({ result }) => result.summary);
+  const byState = mergeStateCounts(summaries);
+
+  return {
+    ...runs[0]!.result,
+    success: runs.every(({ result }) => result.success),
+    duration: runs.reduce((total, { result }) => total + (result.duration ?? 0), 0),
+    issues: comparison.issues,
+    summary: {
+      ...mergeSummaries(summaries),
+      ...(byState && { byState }),
+      ...comparison.summary,
+    },
+    snapshots: snapshots.length > 0 ? snapshots : undefined,
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+  };
+}
+
+export async function analyzeInViewports<S extends ViewportSummary, R extends StatefulResult<S>>(
+  target: AnalysisTarget,
+  analyze: (viewportTarget: AnalysisTarget, onProgress?: ProgressReporter) => Promise<R>,
+  mergeSummaries: StateSummaryMerger<S>,
+  onProgress?: ProgressReporter
+): Promise<R> {
+  const viewports = target.options?.viewports;
+
+  if (!viewports || viewports.length === 0) {
+    return analyze(target, onProgress);
+  }
+
+  const sessionTarget = await resolveAuthSession(target, {
+    ignoreHTTPSErrors: target.options?.ignoreHTTPSErrors,
+    timeout: target.options?.timeout,
+  });
+  const runs: Array<ViewportRun<R>> = [];
+
+  for (const [index, viewport] of viewports.map(resolveViewport).entries()) {
+    logger.info('Analyzing viewport', {
+      target: target.value,
+      viewport: viewport.name,
+      width: viewport.width,
+      height: viewport.height,
+    });
+    runs.push({
+      viewport: viewport.name,
+      result: await analyze(
+        toViewportTarget(sessionTarget, viewport),
+        onProgress && scaleProgress(onProgress, index, viewports.length)
+      ),
+    });
+    onProgress?.(index + 1, viewports.length, `Analyzed viewport "${viewport.name}"`);
+  }
+
+  return mergeViewportResults(runs, mergeSummaries);
+}
@@ -0,0 +1,3 @@
+export * from './types.js';
+export * from './loader.js';
+export * from './resolve.js';
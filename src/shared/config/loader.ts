@@ -0,0 +1,141 @@
+import { access, readFile } from 'node:fs/promises';
+import { dirname, extname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parse as parseYaml } from 'yaml';
+import { formatValidationErrorsForMcp, validate } from '../types/validation.js';
+import {
+  ProjectConfigSchema,
+  type LoadProjectConfigOptions,
+  type LoadedProjectConfig,
+  type ProjectConfig,
+} from './types.js';
+
+export const CONFIG_FILE_NAMES = [
+  '.accessibilityhubrc',
+  '.accessibilityhubrc.json',
+  '.accessibilityhubrc.yaml',
+  '.accessibilityhubrc.yml',
+  'accessibilityhub.config.ts',
+  'accessibilityhub.config.mjs',
+  'accessibilityhub.config.js',
+] as const;
+
+export const CONFIG_PATH_ENV = 'ACCESSIBILITY_HUB_CONFIG';
+
+const MODULE_EXTENSIONS = new Set(['.ts', '.mts', '.js', '.mjs']);
+
+const EMPTY_CONFIG: LoadedProjectConfig = { config: {}, filePath: null };
+
+let activeConfig: LoadedProjectConfig = EMPTY_CONFIG;
+let activeConfigLoaded = false;
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function findProjectConfigFile(startDir = process.cwd()): Promise<string | null> {
+  let currentDir = resolve(startDir);
+
+  while (true) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const candidate = join(currentDir, fileName);
+      if (await fileExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parentDir = dirname(currentDir);
+    if (parentDir === currentDir) {
+      return null;
+    }
+    currentDir = parentDir;
+  }
+}
+
+async function importConfigModule(filePath: string): Promise<unknown> {
+  try {
+    const module = (await import(pathToFileURL(filePath).href)) as { default?: unknown };
+    return module.default ?? module;
+  } catch (error) {
+    const code = (error as { code?: string }).code;
+    if (code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw new Error(
+        'TypeScript config files need a Node.js version with type stripping (22.18 or later); use accessibilityhub.config.mjs or .accessibilityhubrc.json instead'
+      );
+    }
+    throw error;
+  }
+}
+
+async function readConfigSource(filePath: string): Promise<unknown> {
+  const extension = extname(filePath);
+
+  if (MODULE_EXTENSIONS.has(extension)) {
+    return importConfigModule(filePath);
+  }
+
+  const content = await readFile(filePath, 'utf-8');
+  return extension === '.json' ? JSON.parse(content) : parseYaml(content);
+}
+
+export async function loadProjectConfig(
+  options: LoadProjectConfigOptions = {}
+): Promise<LoadedProjectConfig> {
+  const cwd = options.cwd ?? process.cwd();
+  const explicitPath = options.configPath ?? process.env[CONFIG_PATH_ENV];
+  const filePath = explicitPath ? resolve(cwd, explicitPath) : await findProjectConfigFile(cwd);
+
+  if (!filePath) {
+    return EMPTY_CONFIG;
+  }
+
+  let raw: unknown;
+
+  try {
+    raw = await readConfigSource(filePath);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read configuration file ${filePath}: ${message}`);
+  }
+
+  const result = validate(ProjectConfigSchema, raw ?? {});
+  if (!result.success) {
+    throw new Error(
+      `Invalid configuration file ${filePath}\n${formatValidationErrorsForMcp(result.errors)}`
+    );
+  }
+
+  return { config: result.data, filePath };
+}
+
+export async function ensureProjectConfig(
+  options: LoadProjectConfigOptions = {}
+): Promise<LoadedProjectConfig> {
+  if (!activeConfigLoaded) {
+    setProjectConfig(await loadProjectConfig(options));
+  }
+  return activeConfig;
+}
+
+export function setProjectConfig(loaded: LoadedProjectConfig): void {
+  activeConfig = loaded;
+  activeConfigLoaded = true;
+}
+
+export function resetProjectConfig(): void {
+  activeConfig = EMPTY_CONFIG;
+  activeConfigLoaded = false;
+}
+
+export function getProjectConfig(): ProjectConfig {
+  return activeConfig.config;
+}
+
+export function getProjectConfigPath(): string | null {
+  return activeConfig.filePath;
+}
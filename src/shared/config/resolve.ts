@@ -0,0 +1,121 @@
+import type { ToolSource, WCAGLevel } from '../types/accessibility.js';
+import type { AnalysisOptions, AnalysisTarget } from '../types/analysis.js';
+import { getProjectConfig } from './loader.js';
+import type {
+  AdapterSettings,
+  BrowserPoolSettings,
+  HistorySettings,
+  IgnoredRule,
+  JobQueueSettings,
+  ProjectConfig,
+  ProjectSettings,
+} from './types.js';
+
+const PATTERN_SPECIAL_CHARS = /[.+?^${}()|[\]\\]/g;
+
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const source = pattern.replace(PATTERN_SPECIAL_CHARS, '\\$&').replace(/\*+/g, '.*');
+  return new RegExp(`^${source}$`).test(url);
+}
+
+export function resolveProjectSettings(
+  url?: string,
+  config: ProjectConfig = getProjectConfig()
+): ProjectSettings {
+  const settings: ProjectSettings = { ...config.defaults };
+  let browser = { ...config.defaults?.browser };
+
+  for (const override of config.overrides ?? []) {
+    if (!url || !matchesUrlPattern(url, override.pattern)) {
+      continue;
+    }
+    if (override.wcagLevel) {
+      settings.wcagLevel = override.wcagLevel;
+    }
+    browser = { ...browser, ...override.browser };
+  }
+
+  settings.browser = browser;
+  return settings;
+}
+
+export function resolveWcagLevel(
+  url?: string,
+  config: ProjectConfig = getProjectConfig()
+): WCAGLevel {
+  return resolveProjectSettings(url, config).wcagLevel ?? 'AA';
+}
+
+export function getIgnoredRules(
+  tool: ToolSource,
+  url?: string,
+  config: ProjectConfig = getProjectConfig()
+): IgnoredRule[] {
+  return (config.ignoredRules ?? []).filter(
+    (rule) =>
+      rule.tool === tool &&
+      (!rule.pattern || (url !== undefined && matchesUrlPattern(url, rule.pattern)))
+  );
+}
+
+export function getAdapterSettings(
+  tool: ToolSource,
+  config: ProjectConfig = getProjectConfig()
+): AdapterSettings {
+  return config.adapters?.[tool] ?? {};
+}
+
+export function getBrowserPoolSettings(
+  config: ProjectConfig = getProjectConfig()
+): BrowserPoolSettings {
+  return config.browserPool ?? {};
+}
+
+export function getJobQueueSettings(config: ProjectConfig = getProjectConfig()): JobQueueSettings {
+  return config.jobs ?? {};
+}
+
+export function getHistorySettings(config: ProjectConfig = getProjectConfig()): HistorySettings {
+  return config.history ?? {};
+}
+
+export function applyProjectTarget(
+  target: AnalysisTarget,
+  config: ProjectConfig = getProjectConfig()
+): AnalysisTarget {
+  const url = target.type === 'url' ? target.value : undefined;
+  const browser = resolveProjectSettings(url, config).browser ?? {};
+
+  return {
+    ...target,
+    options: {
+      waitForSelector: target.options?.waitForSelector ?? browser.waitForSelector,
+      timeout: target.options?.timeout ?? browser.waitForTimeout,
+      viewport: target.options?.viewport ?? browser.viewport,
+      ignoreHTTPSErrors: target.options?.ignoreHTTPSErrors ?? browser.ignoreHTTPSErrors,
+      authentication: target.options?.authentication,
+      authSession: target.options?.authSession,
+      actions: target.options?.actions,
+      states: target.options?.states,
+      viewports: target.options?.viewports ?? browser.viewports,
+    },
+  };
+}
+
+export function applyIgnoredRules(
+  options: AnalysisOptions,
+  tool: ToolSource,
+  url?: string,
+  config: ProjectConfig = getProjectConfig()
+): AnalysisOptions {
+  const ignoredRuleIds = getIgnoredRules(tool, url, config).map((rule) => rule.ruleId);
+
+  if (ignoredRuleIds.length === 0) {
+    return options;
+  }
+
+  return {
+    ...options,
+    excludeRules: Array.from(new Set([...(options.excludeRules ?? []), ...ignoredRuleIds])),
+  };
+}
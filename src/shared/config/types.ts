@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { ToolSourceSchema, WCAGLevelSchema } from '../types/accessibility.js';
+import { ViewportsSchema } from '../types/viewport.js';
+
+export const ProjectBrowserSettingsSchema = z
+  .object({
+    waitForSelector: z.string().min(1).optional(),
+    waitForTimeout: z.number().int().positive().max(60000).optional(),
+    viewport: z
+      .object({
+        width: z.number().int().positive(),
+        height: z.number().int().positive(),
+      })
+      .strict()
+      .optional(),
+    viewports: ViewportsSchema.optional(),
+    ignoreHTTPSErrors: z.boolean().optional(),
+  })
+  .strict();
+
+export const ProjectSettingsSchema = z
+  .object({
+    wcagLevel: WCAGLevelSchema.optional(),
+    browser: ProjectBrowserSettingsSchema.optional(),
+  })
+  .strict();
+
+export const UrlOverrideSchema = ProjectSettingsSchema.extend({
+  pattern: z.string().min(1),
+}).strict();
+
+export const IgnoredRuleSchema = z
+  .object({
+    tool: ToolSourceSchema,
+    ruleId: z.string().min(1),
+    justification: z.string().trim().min(1, 'Every ignored rule needs a justification'),
+    pattern: z.string().min(1).optional(),
+  })
+  .strict();
+
+export const AdapterSettingsSchema = z
+  .object({
+    timeout: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export const BrowserPoolSettingsSchema = z
+  .object({
+    maxBrowsers: z.number().int().positive().max(16).optional(),
+    maxPagesPerBrowser: z.number().int().positive().max(50).optional(),
+    idleTimeout: z.number().int().nonnegative().optional(),
+    healthCheckInterval: z.number().int().nonnegative().optional(),
+    acquireTimeout: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export const JobQueueSettingsSchema = z
+  .object({
+    concurrency: z.number().int().positive().max(16).optional(),
+    maxFinishedJobs: z.number().int().positive().max(1000).optional(),
+  })
+  .strict();
+
+export const HistorySettingsSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    directory: z.string().min(1).optional(),
+    maxRunsPerTarget: z.number().int().positive().max(10000).optional(),
+  })
+  .strict();
+
+export const ProjectConfigSchema = z
+  .object({
+    $schema: z.string().optional(),
+    defaults: ProjectSettingsSchema.optional(),
+    overrides: z.array(UrlOverrideSchema).optional(),
+    ignoredRules: z.array(IgnoredRuleSchema).optional(),
+    adapters: z
+      .object({
+        'axe-core': AdapterSettingsSchema.optional(),
+        pa11y: AdapterSettingsSchema.optional(),
+        lighthouse: AdapterSettingsSchema.optional(),
+        'contrast-analyzer': AdapterSettingsSchema.optional(),
+        'keyboard-analyzer': AdapterSettingsSchema.optional(),
+        'accessibility-tree': AdapterSettingsSchema.optional(),
+        'reflow-analyzer': AdapterSettingsSchema.optional(),
+        'target-size-analyzer': AdapterSettingsSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    browserPool: BrowserPoolSettingsSchema.optional(),
+    jobs: JobQueueSettingsSchema.optional(),
+    history: HistorySettingsSchema.optional(),
+  })
+  .strict();
+
+export type ProjectBrowserSettings = z.infer<typeof ProjectBrowserSettingsSchema>;
+export type ProjectSettings = z.infer<typeof ProjectSettingsSchema>;
+export type UrlOverride = z.infer<typeof UrlOverrideSchema>;
+export type IgnoredRule = z.infer<typeof IgnoredRuleSchema>;
+export type AdapterSettings = z.infer<typeof AdapterSettingsSchema>;
+export type BrowserPoolSettings = z.infer<typeof BrowserPoolSettingsSchema>;
+export type JobQueueSettings = z.infer<typeof JobQueueSettingsSchema>;
+export type HistorySettings = z.infer<typeof HistorySettingsSchema>;
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+
+export interface LoadedProjectConfig {
+  config: ProjectConfig;
+  filePath: string | null;
+}
+
+export interface LoadProjectConfigOptions {
+  cwd?: string | undefined;
+  configPath?: string | undefined;
+}
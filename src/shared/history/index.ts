@@ -0,0 +1,3 @@
+export * from './types.js';
+export * from './trends.js';
+export * from './store.js';
@@ -0,0 +1,297 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { getHistorySettings, getProjectConfigPath } from '../config/index.js';
+import type { AnalysisTarget } from '../types/analysis.js';
+import { formatValidationErrorsForMcp, validate } from '../types/validation.js';
+import { createAdapterLogger } from '../utils/logger.js';
+import {
+  computeTargetTrend,
+  countResultIssues,
+  type RecordableResult,
+  type TrendOptions,
+} from './trends.js';
+import {
+  HISTORY_FILE_VERSION,
+  HistoryTargetFileSchema,
+  type HistoryRun,
+  type HistoryRunQuery,
+  type HistoryTargetFile,
+  type HistoryTargetSummary,
+  type HistoryTargetTrend,
+  type StoredHistoryRun,
+} from './types.js';
+
+export interface HistoryStoreOptions {
+  /** Absolute directory holding one folder per target. */
+  directory: string;
+  /** Runs kept per target. The oldest are deleted first. */
+  maxRunsPerTarget: number;
+}
+
+export const DEFAULT_HISTORY_DIRECTORY = '.accessibilityhub/history';
+export const DEFAULT_MAX_RUNS_PER_TARGET = 100;
+
+const INDEX_FILE = 'index.json';
+const TARGET_ID_PATTERN = /^[0-9a-f]{16}$/;
+
+const logger = createAdapterLogger('HistoryStore');
+
+/** Stable, filesystem-safe id for a target URL. */
+export function createHistoryTargetId(target: string): string {
+  return createHash('sha256').update(target).digest('hex').slice(0, 16);
+}
+
+function generateRunId(): string {
+  return `run_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function writeJsonAtomic(path: string, data: unknown): Promise<void> {
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(tempPath, `${JSON.stringify(data, null, 2)}\n`, 'utf-8');
+  await rename(tempPath, path);
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | undefined)?.code === 'ENOENT';
+}
+
+/**
+ * Keeps analysis results as JSON files: an index of run summaries per target
+ * plus one file per full result. Writes go through a single chain so runs
+ * finishing at the same time do not overwrite each other's index entries.
+ */
+export class HistoryStore {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: HistoryStoreOptions) {}
+
+  get directory(): string {
+    return this.options.directory;
+  }
+
+  record(tool: string, target: string, result: RecordableResult): Promise<HistoryRun> {
+    const write = this.writes.then(() => this.append(tool, target, result));
+    this.writes = write.catch(() => {});
+    return write;
+  }
+
+  async listTargets(): Promise<HistoryTargetSummary[]> {
+    const files = await this.readAllTargets();
+
+    return files
+      .flatMap((file): HistoryTargetSummary[] => {
+        const first = file.runs[0];
+        const latest = file.runs[file.runs.length - 1];
+        if (!first || !latest) return [];
+
+        return [
+          {
+            id: file.id,
+            target: file.target,
+            runCount: file.runs.length,
+            tools: Array.from(new Set(file.runs.map((run) => run.tool))),
+            firstRunAt: first.timestamp,
+            lastRunAt: latest.timestamp,
+            latest: {
+              id: latest.id,
+              tool: latest.tool,
+              timestamp: latest.timestamp,
+              total: latest.total,
+              bySeverity: latest.bySeverity,
+              ...(latest.score !== undefined && { score: latest.score }),
+            },
+          },
+        ];
+      })
+      .sort((a, b) => b.lastRunAt.localeCompare(a.lastRunAt));
+  }
+
+  async getTarget(targetId: string): Promise<HistoryTargetFile | undefined> {
+    if (!TARGET_ID_PATTERN.test(targetId)) return undefined;
+
+    const path = this.indexPath(targetId);
+    let raw: unknown;
+
+    try {
+      raw = JSON.parse(await readFile(path, 'utf-8'));
+    } catch (error) {
+      if (isMissingFile(error)) return undefined;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not read history index ${path}: ${message}`);
+    }
+
+    const result = validate(HistoryTargetFileSchema, raw);
+    if (!result.success) {
+      throw new Error(
+        `Invalid history index ${path}\n${formatValidationErrorsForMcp(result.errors)}`
+      );
+    }
+
+    return result.data;
+  }
+
+  /** Runs newest first, across every target unless `targetId` is set. */
+  async listRuns(query: HistoryRunQuery = {}): Promise<HistoryRun[]> {
+    let files: HistoryTargetFile[];
+    if (query.targetId) {
+      const file = await this.getTarget(query.targetId);
+      files = file ? [file] : [];
+    } else {
+      files = await this.readAllTargets();
+    }
+
+    const runs = files
+      .flatMap((file) => file.runs)
+      .filter((run) => !query.tool || run.tool === query.tool)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    return query.limit ? runs.slice(0, query.limit) : runs;
+  }
+
+  async getRun(runId: string): Promise<StoredHistoryRun | undefined> {
+    const files = await this.readAllTargets();
+    const run = files.flatMap((file) => file.runs).find((entry) => entry.id === runId);
+    if (!run) return undefined;
+
+    const path = this.runPath(run.targetId, run.id);
+    try {
+      return { run, result: JSON.parse(await readFile(path, 'utf-8')) as unknown };
+    } catch (error) {
+      if (isMissingFile(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async getTrend(
+    targetId: string,
+    options: TrendOptions = {}
+  ): Promise<HistoryTargetTrend | undefined> {
+    const file = await this.getTarget(targetId);
+    return file && computeTargetTrend(file, options);
+  }
+
+  private async append(
+    tool: string,
+    target: string,
+    result: RecordableResult
+  ): Promise<HistoryRun> {
+    const targetId = createHistoryTargetId(target);
+    const file: HistoryTargetFile = (await this.getTarget(targetId)) ?? {
+      version: HISTORY_FILE_VERSION,
+      id: targetId,
+      target,
+      runs: [],
+    };
+
+    const run: HistoryRun = {
+      id: generateRunId(),
+      targetId,
+      target,
+      tool,
+      timestamp: result.timestamp,
+      success: result.success,
+      ...(result.duration !== undefined && { duration: result.duration }),
+      ...countResultIssues(result),
+      ...(result.error !== undefined && { error: result.error }),
+    };
+
+    await writeJsonAtomic(this.runPath(targetId, run.id), result);
+    file.runs.push(run);
+
+    const dropped = file.runs.splice(
+      0,
+      Math.max(file.runs.length - this.options.maxRunsPerTarget, 0)
+    );
+    await writeJsonAtomic(this.indexPath(targetId), file);
+    await Promise.all(dropped.map((old) => rm(this.runPath(targetId, old.id), { force: true })));
+
+    return run;
+  }
+
+  private async readAllTargets(): Promise<HistoryTargetFile[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.options.directory);
+    } catch (error) {
+      if (isMissingFile(error)) return [];
+      throw error;
+    }
+
+    const files = await Promise.all(
+      entries.map(async (entry) => {
+        try {
+          return await this.getTarget(entry);
+        } catch (error) {
+          logger.warn('Skipping unreadable history target', {
+            targetId: entry,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return undefined;
+        }
+      })
+    );
+
+    return files.filter((file): file is HistoryTargetFile => file !== undefined);
+  }
+
+  private indexPath(targetId: string): string {
+    return join(this.options.directory, targetId, INDEX_FILE);
+  }
+
+  private runPath(targetId: string, runId: string): string {
+    return join(this.options.directory, targetId, `${runId}.json`);
+  }
+}
+
+let historyStore: HistoryStore | null = null;
+
+/**
+ * Store configured by the `history` settings. Relative directories resolve
+ * against the folder of the project config file, or the working directory
+ * when there is none.
+ */
+export function getHistoryStore(): HistoryStore {
+  const settings = getHistorySettings();
+  const configPath = getProjectConfigPath();
+  const directory = resolve(
+    configPath ? dirname(configPath) : process.cwd(),
+    settings.directory ?? DEFAULT_HISTORY_DIRECTORY
+  );
+
+  if (historyStore?.directory !== directory) {
+    historyStore = new HistoryStore({
+      directory,
+      maxRunsPerTarget: settings.maxRunsPerTarget ?? DEFAULT_MAX_RUNS_PER_TARGET,
+    });
+  }
+
+  return historyStore;
+}
+
+/**
+ * Records the result of an analysis of a URL when a project config enables
+ * history. It is off otherwise: without a config file the directory would
+ * resolve against the working directory, which an MCP client picks for the
+ * server. Failures are logged and never fail the analysis.
+ */
+export async function recordAnalysisHistory(
+  tool: string,
+  target: AnalysisTarget,
+  result: RecordableResult
+): Promise<HistoryRun | undefined> {
+  if (target.type !== 'url' || getHistorySettings().enabled !== true) {
+    return undefined;
+  }
+
+  try {
+    return await getHistoryStore().record(tool, target.value, result);
+  } catch (error) {
+    logger.warn('Could not record analysis history', {
+      tool,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
@@ -0,0 +1,161 @@
+import type {
+  AnalysisResult,
+  CombinedAnalysisResult,
+  Severity,
+  ToolSource,
+  WCAGPrinciple,
+} from '../types/accessibility.js';
+import type {
+  HistoryRun,
+  HistoryTargetFile,
+  HistoryTargetTrend,
+  HistoryTrend,
+  TrendDelta,
+  TrendDirection,
+} from './types.js';
+
+export type RecordableResult = AnalysisResult | CombinedAnalysisResult;
+
+export type HistoryRunCounts = Pick<
+  HistoryRun,
+  'toolsUsed' | 'total' | 'bySeverity' | 'byPrinciple' | 'byCriterion' | 'score'
+>;
+
+export interface TrendOptions {
+  tool?: string | undefined;
+  /** Only the most recent runs are used. */
+  limit?: number | undefined;
+}
+
+const SEVERITIES: Severity[] = ['critical', 'serious', 'moderate', 'minor'];
+const PRINCIPLES: WCAGPrinciple[] = ['perceivable', 'operable', 'understandable', 'robust'];
+
+function getAccessibilityScore(summary: AnalysisResult['summary']): number | undefined {
+  return (summary as AnalysisResult['summary'] & { accessibilityScore?: number })
+    .accessibilityScore;
+}
+
+function countBy<T>(items: T[], key: (item: T) => string | undefined): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) {
+    const value = key(item);
+    if (value !== undefined) {
+      counts[value] = (counts[value] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Counts stored with each run. They are computed from the issues rather than
+ * the summary so that every tool gets criterion counts.
+ */
+export function countResultIssues(result: RecordableResult): HistoryRunCounts {
+  const toolsUsed: ToolSource[] = 'toolsUsed' in result ? result.toolsUsed : [result.tool];
+  const lighthouse =
+    'toolsUsed' in result
+      ? result.individualResults?.find((individual) => individual.tool === 'lighthouse')
+      : result.tool === 'lighthouse'
+        ? result
+        : undefined;
+  const score = lighthouse?.success ? getAccessibilityScore(lighthouse.summary) : undefined;
+
+  return {
+    toolsUsed,
+    total: result.issues.length,
+    bySeverity: countBy(result.issues, (issue) => issue.severity),
+    byPrinciple: countBy(result.issues, (issue) => issue.wcag?.principle),
+    byCriterion: countBy(result.issues, (issue) => issue.wcag?.criterion),
+    ...(score !== undefined && { score }),
+  };
+}
+
+function delta(first: number, last: number): TrendDelta {
+  return { first, last, change: last - first };
+}
+
+function deltas<K extends string>(
+  keys: K[],
+  first: Record<string, number>,
+  last: Record<string, number>
+): Record<K, TrendDelta> {
+  const result = {} as Record<K, TrendDelta>;
+  for (const key of keys) {
+    result[key] = delta(first[key] ?? 0, last[key] ?? 0);
+  }
+  return result;
+}
+
+function severityCounts(counts: Record<string, number>): Record<Severity, number> {
+  return {
+    critical: counts.critical ?? 0,
+    serious: counts.serious ?? 0,
+    moderate: counts.moderate ?? 0,
+    minor: counts.minor ?? 0,
+  };
+}
+
+function resolveDirection(total: TrendDelta, score?: TrendDelta): TrendDirection {
+  const change = total.change !== 0 ? -total.change : (score?.change ?? 0);
+  if (change > 0) return 'improving';
+  if (change < 0) return 'worsening';
+  return 'stable';
+}
+
+/**
+ * Trend of one tool over successful runs, oldest first. Failed runs are left
+ * out because their counts say nothing about the page.
+ */
+export function computeTrend(tool: string, runs: HistoryRun[]): HistoryTrend | undefined {
+  const first = runs[0];
+  const last = runs[runs.length - 1];
+  if (!first || !last) return undefined;
+
+  const criteria = Array.from(new Set(runs.flatMap((run) => Object.keys(run.byCriterion)))).sort(
+    (a, b) => a.localeCompare(b, undefined, { numeric: true })
+  );
+  const total = delta(first.total, last.total);
+  const score =
+    first.score !== undefined && last.score !== undefined
+      ? delta(first.score, last.score)
+      : undefined;
+
+  return {
+    tool,
+    runCount: runs.length,
+    from: first.timestamp,
+    to: last.timestamp,
+    direction: resolveDirection(total, score),
+    total,
+    bySeverity: deltas(SEVERITIES, first.bySeverity, last.bySeverity),
+    byPrinciple: deltas(PRINCIPLES, first.byPrinciple, last.byPrinciple),
+    byCriterion: deltas(criteria, first.byCriterion, last.byCriterion),
+    ...(score && { score }),
+    points: runs.map((run) => ({
+      runId: run.id,
+      timestamp: run.timestamp,
+      total: run.total,
+      bySeverity: severityCounts(run.bySeverity),
+      ...(run.score !== undefined && { score: run.score }),
+    })),
+  };
+}
+
+export function computeTargetTrend(
+  file: HistoryTargetFile,
+  options: TrendOptions = {}
+): HistoryTargetTrend {
+  const successful = file.runs.filter(
+    (run) => run.success && (!options.tool || run.tool === options.tool)
+  );
+  const tools = Array.from(new Set(successful.map((run) => run.tool)));
+
+  const trends = tools
+    .map((tool) => {
+      const runs = successful.filter((run) => run.tool === tool);
+      return computeTrend(tool, options.limit ? runs.slice(-options.limit) : runs);
+    })
+    .filter((trend): trend is HistoryTrend => trend !== undefined);
+
+  return { targetId: file.id, target: file.target, trends };
+}
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { ToolSourceSchema } from '../types/accessibility.js';
+import type { Severity, WCAGPrinciple } from '../types/accessibility.js';
+
+export const HISTORY_FILE_VERSION = 1;
+
+const CountsSchema = z.record(z.string(), z.number().int().nonnegative());
+
+export const HistoryRunSchema = z
+  .object({
+    id: z.string().min(1),
+    targetId: z.string().min(1),
+    target: z.string(),
+    tool: z.string().min(1).describe('Tool or CLI command that produced the result'),
+    toolsUsed: z.array(ToolSourceSchema),
+    timestamp: z.string().datetime(),
+    success: z.boolean(),
+    duration: z.number().int().nonnegative().optional(),
+    total: z.number().int().nonnegative(),
+    bySeverity: CountsSchema,
+    byPrinciple: CountsSchema,
+    byCriterion: CountsSchema,
+    score: z.number().min(0).max(100).optional().describe('Lighthouse accessibility score'),
+    error: z.string().optional(),
+  })
+  .describe('Summary of one recorded analysis run');
+export type HistoryRun = z.infer<typeof HistoryRunSchema>;
+
+export const HistoryTargetFileSchema = z
+  .object({
+    version: z.literal(HISTORY_FILE_VERSION),
+    id: z.string().min(1),
+    target: z.string(),
+    runs: z.array(HistoryRunSchema).describe('Runs in recording order, oldest first'),
+  })
+  .describe('Index of the runs recorded for one target');
+export type HistoryTargetFile = z.infer<typeof HistoryTargetFileSchema>;
+
+export interface HistoryTargetSummary {
+  id: string;
+  target: string;
+  runCount: number;
+  tools: string[];
+  firstRunAt: string;
+  lastRunAt: string;
+  latest: Pick<HistoryRun, 'id' | 'tool' | 'timestamp' | 'total' | 'bySeverity' | 'score'>;
+}
+
+export interface HistoryRunQuery {
+  targetId?: string | undefined;
+  tool?: string | undefined;
+  limit?: number | undefined;
+}
+
+export interface StoredHistoryRun {
+  run: HistoryRun;
+  result: unknown;
+}
+
+export interface TrendDelta {
+  first: number;
+  last: number;
+  change: number;
+}
+
+export type TrendDirection = 'improving' | 'worsening' | 'stable';
+
+export interface HistoryTrendPoint {
+  runId: string;
+  timestamp: string;
+  total: number;
+  bySeverity: Record<Severity, number>;
+  score?: number | undefined;
+}
+
+export interface HistoryTrend {
+  tool: string;
+  runCount: number;
+  from: string;
+  to: string;
+  direction: TrendDirection;
+  total: TrendDelta;
+  bySeverity: Record<Severity, TrendDelta>;
+  byPrinciple: Record<WCAGPrinciple, TrendDelta>;
+  byCriterion: Record<string, TrendDelta>;
+  score?: TrendDelta | undefined;
+  points: HistoryTrendPoint[];
+}
+
+export interface HistoryTargetTrend {
+  targetId: string;
+  target: string;
+  trends: HistoryTrend[];
+}
@@ -2,3 +2,8 @@ export * from './types/index.js';
 export * from './utils/index.js';
 export * from './adapters/index.js';
 export * from './normalizers/index.js';
+export * from './reporters/index.js';
+export * from './config/index.js';
+export * from './browser/index.js';
+export * from './jobs/index.js';
+export * from './history/index.js';
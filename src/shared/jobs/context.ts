@@ -0,0 +1,61 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export interface JobProgress {
+  progress: number;
+  total?: number | undefined;
+  message?: string | undefined;
+}
+
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
+export interface JobContext {
+  readonly id: string;
+  readonly signal: AbortSignal;
+  reportProgress: ProgressReporter;
+}
+
+const storage = new AsyncLocalStorage<JobContext>();
+
+export function runInJob<T>(job: JobContext, task: () => Promise<T>): Promise<T> {
+  return storage.run(job, task);
+}
+
+export function getCurrentJob(): JobContext | undefined {
+  return storage.getStore();
+}
+
+export function reportJobProgress(progress: number, total?: number, message?: string): void {
+  storage.getStore()?.reportProgress(progress, total, message);
+}
+
+/**
+ * Maps the progress of step `step` (0-based) of `steps` onto `report`, so
+ * nested loops such as viewports and UI states report one increasing
+ * sequence.
+ */
+export function scaleProgress(
+  report: ProgressReporter,
+  step: number,
+  steps: number
+): ProgressReporter {
+  return (progress, total = 1, message) => report(step * total + progress, steps * total, message);
+}
+
+/**
+ * Calls `listener` when the job running the current code is cancelled, so
+ * code deep in an analysis can close its page without the signal being
+ * passed down. Returns a function that removes the listener, or undefined
+ * outside a job.
+ */
+export function onJobAbort(listener: () => void): (() => void) | undefined {
+  const signal = storage.getStore()?.signal;
+  if (!signal) return undefined;
+
+  if (signal.aborted) {
+    listener();
+    return () => {};
+  }
+
+  signal.addEventListener('abort', listener, { once: true });
+  return () => signal.removeEventListener('abort', listener);
+}
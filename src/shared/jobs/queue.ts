@@ -0,0 +1,281 @@
+import { createAdapterLogger } from '../utils/logger.js';
+import { runInJob, type JobContext, type JobProgress } from './context.js';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobQueueOptions {
+  /** Jobs running at the same time. Further jobs wait in submission order. */
+  concurrency: number;
+  /** Finished jobs kept for status and result lookups. The oldest are dropped first. */
+  maxFinishedJobs: number;
+}
+
+export type JobQueueConfig = {
+  [K in keyof JobQueueOptions]?: JobQueueOptions[K] | undefined;
+};
+
+export interface JobInfo {
+  id: string;
+  tool: string;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string | undefined;
+  finishedAt?: string | undefined;
+  progress?: JobProgress | undefined;
+  error?: string | undefined;
+}
+
+export interface SubmitJobOptions {
+  id?: string | undefined;
+  /** Cancels the job when aborted, e.g. the signal of the MCP request. */
+  signal?: AbortSignal | undefined;
+  onProgress?: ((progress: JobProgress) => void) | undefined;
+}
+
+export interface JobHandle<T> {
+  readonly id: string;
+  readonly result: Promise<T>;
+}
+
+export type JobTask<T> = (job: JobContext) => Promise<T>;
+
+export interface JobQueueStats {
+  queued: number;
+  running: number;
+  finished: number;
+}
+
+interface JobRecord<T> {
+  info: JobInfo;
+  task: JobTask<T>;
+  controller: AbortController;
+  onProgress: ((progress: JobProgress) => void) | undefined;
+  detachSignal: () => void;
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+  result?: T | undefined;
+  /** Last progress value sent to onProgress. */
+  forwarded?: number | undefined;
+}
+
+export const DEFAULT_JOB_QUEUE_OPTIONS: JobQueueOptions = {
+  concurrency: 2,
+  maxFinishedJobs: 50,
+};
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export class JobCancelledError extends Error {
+  constructor(public readonly jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+function generateJobId(): string {
+  return `job_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Runs analyses with a concurrency limit. Each job gets an abort signal and a
+ * progress reporter through its JobContext, and finished jobs stay available
+ * for status and result lookups until they are pushed out by newer ones.
+ */
+export class JobQueue<T> {
+  private readonly options: JobQueueOptions;
+  private readonly jobs = new Map<string, JobRecord<T>>();
+  private readonly pending: Array<JobRecord<T>> = [];
+  private readonly finished: string[] = [];
+  private running = 0;
+  private logger = createAdapterLogger('JobQueue');
+
+  constructor(config: JobQueueConfig = {}) {
+    this.options = {
+      concurrency: config.concurrency ?? DEFAULT_JOB_QUEUE_OPTIONS.concurrency,
+      maxFinishedJobs: config.maxFinishedJobs ?? DEFAULT_JOB_QUEUE_OPTIONS.maxFinishedJobs,
+    };
+  }
+
+  submit(tool: string, task: JobTask<T>, options: SubmitJobOptions = {}): JobHandle<T> {
+    const id = options.id ?? generateJobId();
+
+    if (this.jobs.has(id)) {
+      throw new Error(`Job ${id} already exists`);
+    }
+
+    let resolve!: (value: T) => void;
+    let reject!: (error: Error) => void;
+    const result = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    const record: JobRecord<T> = {
+      info: { id, tool, status: 'queued', createdAt: new Date().toISOString() },
+      task,
+      controller: new AbortController(),
+      onProgress: options.onProgress,
+      detachSignal: () => {},
+      resolve,
+      reject,
+    };
+
+    const external = options.signal;
+    if (external) {
+      const cancel = (): void => {
+        this.cancel(id);
+      };
+      external.addEventListener('abort', cancel, { once: true });
+      record.detachSignal = () => external.removeEventListener('abort', cancel);
+    }
+
+    this.jobs.set(id, record);
+    this.pending.push(record);
+    this.logger.debug('Job queued', { jobId: id, tool, position: this.pending.length });
+
+    if (external?.aborted) {
+      this.cancel(id);
+    } else if (this.running >= this.options.concurrency) {
+      const ahead = this.running + this.pending.length - 1;
+      this.report(record, { progress: 0, message: `Job ${id} queued behind ${ahead} job(s)` }, 0);
+    }
+
+    this.drain();
+    return { id, result };
+  }
+
+  get(id: string): JobInfo | undefined {
+    const record = this.jobs.get(id);
+    return record && { ...record.info };
+  }
+
+  getResult(id: string): T | undefined {
+    return this.jobs.get(id)?.result;
+  }
+
+  list(): JobInfo[] {
+    return [...this.jobs.values()].map((record) => ({ ...record.info })).reverse();
+  }
+
+  /**
+   * Cancels a job. Queued jobs are dropped; running jobs have their signal
+   * aborted and are marked cancelled once their task settles.
+   */
+  cancel(id: string): boolean {
+    const record = this.jobs.get(id);
+    if (!record || FINISHED_STATUSES.includes(record.info.status)) {
+      return false;
+    }
+
+    record.controller.abort();
+
+    if (record.info.status === 'queued') {
+      this.pending.splice(this.pending.indexOf(record), 1);
+      this.finish(record, 'cancelled');
+      record.reject(new JobCancelledError(id));
+    }
+
+    this.logger.info('Job cancelled', { jobId: id, tool: record.info.tool });
+    return true;
+  }
+
+  stats(): JobQueueStats {
+    return {
+      queued: this.pending.length,
+      running: this.running,
+      finished: this.finished.length,
+    };
+  }
+
+  private drain(): void {
+    while (this.running < this.options.concurrency && this.pending.length > 0) {
+      const record = this.pending.shift()!;
+      void this.run(record);
+    }
+  }
+
+  private async run(record: JobRecord<T>): Promise<void> {
+    const { info, controller } = record;
+    this.running++;
+    info.status = 'running';
+    info.startedAt = new Date().toISOString();
+    this.logger.debug('Job started', { jobId: info.id, tool: info.tool });
+    this.report(record, { progress: 0, message: `Job ${info.id} started` });
+
+    const context: JobContext = {
+      id: info.id,
+      signal: controller.signal,
+      reportProgress: (progress, total, message) =>
+        this.report(record, { progress, total, message }),
+    };
+
+    try {
+      const value = await runInJob(context, () => record.task(context));
+
+      if (controller.signal.aborted) {
+        this.finish(record, 'cancelled');
+        record.reject(new JobCancelledError(info.id));
+      } else {
+        record.result = value;
+        this.finish(record, 'completed');
+        record.resolve(value);
+      }
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+
+      if (controller.signal.aborted) {
+        this.finish(record, 'cancelled');
+        record.reject(new JobCancelledError(info.id));
+      } else {
+        info.error = failure.message;
+        this.finish(record, 'failed');
+        record.reject(failure);
+      }
+    } finally {
+      this.running--;
+      this.drain();
+    }
+  }
+
+  /**
+   * Forwarded progress counts the start of the job as one step ahead of the
+   * task's own steps, so "queued" (0) and "started" (1) are both sent. It
+   * only moves forward, as MCP progress notifications require; updates that
+   * do not increase it are stored but not forwarded.
+   */
+  private report(record: JobRecord<T>, progress: JobProgress, offset = 1): void {
+    record.info.progress = progress;
+
+    const forwarded: JobProgress = {
+      ...progress,
+      progress: progress.progress + offset,
+      total: progress.total !== undefined ? progress.total + offset : undefined,
+    };
+    if (record.forwarded !== undefined && forwarded.progress <= record.forwarded) {
+      return;
+    }
+    record.forwarded = forwarded.progress;
+
+    try {
+      record.onProgress?.(forwarded);
+    } catch (error) {
+      this.logger.warn('Progress listener failed', {
+        jobId: record.info.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private finish(record: JobRecord<T>, status: JobStatus): void {
+    record.info.status = status;
+    record.info.finishedAt = new Date().toISOString();
+    record.detachSignal();
+
+    this.finished.push(record.info.id);
+    while (this.finished.length > this.options.maxFinishedJobs) {
+      this.jobs.delete(this.finished.shift()!);
+    }
+
+    this.logger.debug('Job finished', { jobId: record.info.id, status });
+  }
+}
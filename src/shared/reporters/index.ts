@@ -0,0 +1,6 @@
+export * from './types.js';
+export * from './utils.js';
+export * from './sarif.js';
+export * from './junit.js';
+export * from './tap.js';
+export * from './markdown.js';
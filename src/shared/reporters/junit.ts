@@ -0,0 +1,153 @@
+import type { AccessibilityIssue, ToolSource } from '../types/accessibility.js';
+import { isAtLeastSeverity } from '../utils/severity.js';
+import type { ReportableAnalysisResult, ReportIssueGroup, ReportOptions } from './types.js';
+import { getReportTargetName, groupIssuesForReport, resolveReportTools } from './utils.js';
+
+const INVALID_XML_CHARS = /[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+interface JUnitTestSuite {
+  xml: string;
+  tests: number;
+  failures: number;
+  errors: number;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toSeconds(duration: number | undefined): string {
+  return ((duration ?? 0) / 1000).toFixed(3);
+}
+
+function formatFailureBody(issue: AccessibilityIssue): string {
+  const lines = [`[${issue.severity}] ${issue.ruleId} (${issue.tool}): ${issue.message}`];
+
+  if (issue.location.selector) lines.push(`Selector: ${issue.location.selector}`);
+  if (issue.location.xpath) lines.push(`XPath: ${issue.location.xpath}`);
+  if (issue.location.file) {
+    const line = issue.location.line !== undefined ? `:${issue.location.line}` : '';
+    lines.push(`File: ${issue.location.file}${line}`);
+  }
+  if (issue.location.snippet) lines.push(`Snippet: ${issue.location.snippet}`);
+  if (issue.wcag?.url) lines.push(`Reference: ${issue.wcag.url}`);
+  if (issue.suggestedActions && issue.suggestedActions.length > 0) {
+    lines.push('Suggested actions:', ...issue.suggestedActions.map((action) => `- ${action}`));
+  }
+
+  return lines.join('\n');
+}
+
+function formatFailureMessage(issue: AccessibilityIssue): string {
+  return issue.location.selector ? `${issue.message} (${issue.location.selector})` : issue.message;
+}
+
+/**
+ * Builds the single failure of a test case. JUnit schemas allow one failure
+ * per test case and CI servers only show the first, so the issues of a group
+ * are listed together in the body and the type is their highest severity.
+ */
+function buildFailure(issues: AccessibilityIssue[]): string {
+  const [first] = issues;
+  if (!first) return '';
+
+  const severity = issues.reduce(
+    (highest, issue) => (isAtLeastSeverity(issue.severity, highest) ? issue.severity : highest),
+    first.severity
+  );
+  const message =
+    issues.length === 1
+      ? formatFailureMessage(first)
+      : `${issues.length} issues: ${formatFailureMessage(first)}, …`;
+  const body = issues.map(formatFailureBody).join('\n\n');
+
+  return `      <failure message="${escapeXml(message)}" type="${severity}">${escapeXml(body)}</failure>`;
+}
+
+function buildTestCase(name: string, className: string, body: string[] = []): string {
+  const attributes = `name="${escapeXml(name)}" classname="${escapeXml(className)}"`;
+
+  if (body.length === 0) {
+    return `    <testcase ${attributes}/>`;
+  }
+
+  return `    <testcase ${attributes}>\n${body.join('\n')}\n    </testcase>`;
+}
+
+function buildTestSuite(
+  tool: ToolSource,
+  result: ReportableAnalysisResult,
+  options: ReportOptions
+): JUnitTestSuite {
+  const groups: ReportIssueGroup[] = groupIssuesForReport(
+    result.issues.filter((issue) => issue.tool === tool),
+    options.groupBy
+  );
+  const className = `${tool}.${getReportTargetName(result.target)}`;
+  const testCases = groups.map((group) =>
+    buildTestCase(group.name, className, [buildFailure(group.issues)])
+  );
+  const errors = !result.success && result.error ? 1 : 0;
+
+  if (errors > 0) {
+    testCases.push(
+      buildTestCase('analysis', className, [
+        `      <error message="${escapeXml(result.error ?? '')}" type="analysis-error"/>`,
+      ])
+    );
+  }
+
+  if (testCases.length === 0) {
+    testCases.push(buildTestCase('accessibility', className));
+  }
+
+  const attributes = [
+    `name="${escapeXml(tool)}"`,
+    `tests="${testCases.length}"`,
+    `failures="${groups.length}"`,
+    `errors="${errors}"`,
+    'skipped="0"',
+    `timestamp="${escapeXml(result.timestamp)}"`,
+    `time="${toSeconds(result.duration)}"`,
+  ];
+
+  return {
+    xml: `  <testsuite ${attributes.join(' ')}>\n${testCases.join('\n')}\n  </testsuite>`,
+    tests: testCases.length,
+    failures: groups.length,
+    errors,
+  };
+}
+
+export function toJUnitXml(result: ReportableAnalysisResult, options: ReportOptions = {}): string {
+  const suites = resolveReportTools(result).map((tool) => buildTestSuite(tool, result, options));
+  const totals = suites.reduce(
+    (sum, suite) => ({
+      tests: sum.tests + suite.tests,
+      failures: sum.failures + suite.failures,
+      errors: sum.errors + suite.errors,
+    }),
+    { tests: 0, failures: 0, errors: 0 }
+  );
+  const attributes = [
+    'name="accessibility-hub"',
+    `tests="${totals.tests}"`,
+    `failures="${totals.failures}"`,
+    `errors="${totals.errors}"`,
+    `time="${toSeconds(result.duration)}"`,
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites ${attributes.join(' ')}>`,
+    ...suites.map((suite) => suite.xml),
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,78 @@
+import type { AccessibilityIssue, Severity } from '../types/accessibility.js';
+import type { ReportableAnalysisResult, ReportOptions } from './types.js';
+import { getReportTargetName, groupIssuesForReport, resolveReportTools } from './utils.js';
+
+const SEVERITY_LABELS: Record<Severity, string> = {
+  critical: 'Critical',
+  serious: 'Serious',
+  moderate: 'Moderate',
+  minor: 'Minor',
+};
+
+function escapeInlineCode(value: string): string {
+  return value.replace(/`/g, "'").replace(/[\r\n]+/g, ' ');
+}
+
+function formatIssue(issue: AccessibilityIssue): string[] {
+  const lines = [`- **[${issue.severity}] ${issue.ruleId}** (${issue.tool}): ${issue.message}`];
+
+  if (issue.location.selector) {
+    lines.push(`  - Selector: \`${escapeInlineCode(issue.location.selector)}\``);
+  }
+  if (issue.location.file) {
+    const line = issue.location.line !== undefined ? `:${issue.location.line}` : '';
+    lines.push(`  - File: \`${escapeInlineCode(issue.location.file)}${line}\``);
+  }
+  if (issue.location.snippet) {
+    lines.push(`  - Snippet: \`${escapeInlineCode(issue.location.snippet)}\``);
+  }
+  if (issue.humanContext) {
+    lines.push(`  - Impact: ${issue.humanContext.replace(/\s*\n\s*/g, ' ')}`);
+  }
+  if (issue.suggestedActions && issue.suggestedActions.length > 0) {
+    lines.push(`  - Suggested: ${issue.suggestedActions.join('; ')}`);
+  }
+
+  return lines;
+}
+
+export function toMarkdown(result: ReportableAnalysisResult, options: ReportOptions = {}): string {
+  const bySeverity: Record<Severity, number> = { critical: 0, serious: 0, moderate: 0, minor: 0 };
+  for (const issue of result.issues) {
+    bySeverity[issue.severity]++;
+  }
+
+  const lines = [
+    '# Accessibility Report',
+    '',
+    `- **Target:** ${getReportTargetName(result.target)}`,
+    `- **Tools:** ${resolveReportTools(result).join(', ') || 'none'}`,
+    `- **Date:** ${result.timestamp}`,
+    `- **Status:** ${result.success ? 'Completed' : 'Failed'}`,
+  ];
+
+  if (result.duration !== undefined) {
+    lines.push(`- **Duration:** ${result.duration} ms`);
+  }
+  if (result.error) {
+    lines.push(`- **Error:** ${result.error}`);
+  }
+
+  lines.push('', '## Summary', '', '| Severity | Issues |', '|----------|--------|');
+  for (const severity of Object.keys(SEVERITY_LABELS) as Severity[]) {
+    lines.push(`| ${SEVERITY_LABELS[severity]} | ${bySeverity[severity]} |`);
+  }
+  lines.push(`| **Total** | **${result.issues.length}** |`, '', '## Issues', '');
+
+  const groups = groupIssuesForReport(result.issues, options.groupBy);
+  if (groups.length === 0) {
+    lines.push(result.success ? 'No accessibility issues found.' : 'No results available.', '');
+  }
+
+  for (const group of groups) {
+    lines.push(`### ${group.name} (${group.issues.length})`, '');
+    lines.push(...group.issues.flatMap(formatIssue), '');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,218 @@
+import type { AccessibilityIssue, Severity, ToolSource } from '../types/accessibility.js';
+import { generateStableFingerprint } from '../utils/fingerprint.js';
+import type {
+  ReportableAnalysisResult,
+  SarifLevel,
+  SarifLocation,
+  SarifLog,
+  SarifReportingDescriptor,
+  SarifResult,
+  SarifRun,
+} from './types.js';
+import { isWebUrl, resolveReportTools } from './utils.js';
+
+export const SARIF_SCHEMA_URI = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * Artifact reported for raw HTML targets. Code scanning rejects results
+ * without a physical location, so issues with no file and no URL point here.
+ */
+export const HTML_CONTENT_ARTIFACT_URI = 'html-content.html';
+
+const TOOL_INFORMATION_URIS: Record<ToolSource, string> = {
+  'axe-core': 'https://github.com/dequelabs/axe-core',
+  pa11y: 'https://pa11y.org',
+  lighthouse: 'https://developer.chrome.com/docs/lighthouse/accessibility',
+  'contrast-analyzer': 'https://www.w3.org/WAI/WCAG21/Understanding/contrast-minimum.html',
+  'keyboard-analyzer': 'https://www.w3.org/WAI/WCAG21/Understanding/keyboard.html',
+  'accessibility-tree': 'https://www.w3.org/WAI/WCAG21/Understanding/name-role-value.html',
+  'reflow-analyzer': 'https://www.w3.org/WAI/WCAG21/Understanding/reflow.html',
+  'target-size-analyzer': 'https://www.w3.org/WAI/WCAG22/Understanding/target-size-minimum.html',
+};
+
+const SEVERITY_LEVELS: Record<Severity, SarifLevel> = {
+  critical: 'error',
+  serious: 'error',
+  moderate: 'warning',
+  minor: 'note',
+};
+
+export function severityToSarifLevel(severity: Severity): SarifLevel {
+  return SEVERITY_LEVELS[severity];
+}
+
+function buildRuleHelp(issue: AccessibilityIssue): { text: string; markdown: string } {
+  const textLines: string[] = [issue.message];
+  const markdownLines: string[] = [issue.message];
+
+  if (issue.wcag) {
+    const title = issue.wcag.title ? ` ${issue.wcag.title}` : '';
+    const reference = `WCAG ${issue.wcag.criterion}${title} (Level ${issue.wcag.level})`;
+    textLines.push('', issue.wcag.url ? `${reference}: ${issue.wcag.url}` : reference);
+    markdownLines.push(
+      '',
+      issue.wcag.url ? `[${reference}](${issue.wcag.url})` : `**${reference}**`
+    );
+  }
+
+  if (issue.humanContext) {
+    textLines.push('', issue.humanContext);
+    markdownLines.push('', issue.humanContext);
+  }
+
+  if (issue.suggestedActions && issue.suggestedActions.length > 0) {
+    textLines.push(
+      '',
+      'Suggested actions:',
+      ...issue.suggestedActions.map((action) => `- ${action}`)
+    );
+    markdownLines.push(
+      '',
+      '**Suggested actions:**',
+      ...issue.suggestedActions.map((action) => `- ${action}`)
+    );
+  }
+
+  return { text: textLines.join('\n'), markdown: markdownLines.join('\n') };
+}
+
+function buildRule(issue: AccessibilityIssue): SarifReportingDescriptor {
+  const tags = ['accessibility'];
+  if (issue.wcag) {
+    tags.push(`wcag${issue.wcag.criterion.replace(/\./g, '')}`, `wcag-level-${issue.wcag.level}`);
+  }
+
+  const rule: SarifReportingDescriptor = {
+    id: issue.ruleId,
+    name: issue.ruleId,
+    shortDescription: { text: issue.message },
+    help: buildRuleHelp(issue),
+    defaultConfiguration: { level: severityToSarifLevel(issue.severity) },
+    properties: {
+      tags,
+      ...(issue.wcag && {
+        wcagCriterion: issue.wcag.criterion,
+        wcagLevel: issue.wcag.level,
+        wcagPrinciple: issue.wcag.principle,
+      }),
+    },
+  };
+
+  if (issue.wcag?.title) {
+    rule.fullDescription = { text: issue.wcag.title };
+  }
+  if (issue.wcag?.url) {
+    rule.helpUri = issue.wcag.url;
+  }
+
+  return rule;
+}
+
+function shouldReplaceRuleSource(
+  current: AccessibilityIssue,
+  candidate: AccessibilityIssue
+): boolean {
+  const score = (issue: AccessibilityIssue): number =>
+    (issue.wcag ? 2 : 0) + (issue.suggestedActions?.length ? 1 : 0);
+  return score(candidate) > score(current);
+}
+
+function buildLocation(issue: AccessibilityIssue, target: string): SarifLocation {
+  const { selector, xpath, file, line, column, snippet } = issue.location;
+  const artifactUri = file ?? (isWebUrl(target) ? target : HTML_CONTENT_ARTIFACT_URI);
+  const location: SarifLocation = { physicalLocation: { artifactLocation: { uri: artifactUri } } };
+
+  const region = {
+    ...(file && line !== undefined && { startLine: line }),
+    ...(file && line !== undefined && column !== undefined && { startColumn: column + 1 }),
+    ...(snippet && { snippet: { text: snippet } }),
+  };
+  if (Object.keys(region).length > 0) {
+    location.physicalLocation.region = region;
+  }
+
+  const logicalLocations = [
+    ...(selector ? [{ name: selector, fullyQualifiedName: selector, kind: 'element' }] : []),
+    ...(xpath ? [{ name: xpath, fullyQualifiedName: xpath, kind: 'element' }] : []),
+  ];
+  if (logicalLocations.length > 0) {
+    location.logicalLocations = logicalLocations;
+  }
+
+  return location;
+}
+
+function buildResult(issue: AccessibilityIssue, ruleIndex: number, target: string): SarifResult {
+  const location = buildLocation(issue, target);
+
+  return {
+    ruleId: issue.ruleId,
+    ruleIndex,
+    level: severityToSarifLevel(issue.severity),
+    message: { text: issue.message },
+    locations: [location],
+    partialFingerprints: {
+      'accessibilityHubFingerprint/v1': generateStableFingerprint(issue),
+    },
+    properties: {
+      severity: issue.severity,
+      ...(issue.wcag && { wcagCriterion: issue.wcag.criterion, wcagLevel: issue.wcag.level }),
+      ...(issue.affectedUsers && { affectedUsers: issue.affectedUsers }),
+      ...(issue.priority && { priority: issue.priority }),
+      ...(issue.confidence !== undefined && { confidence: issue.confidence }),
+    },
+  };
+}
+
+function buildRun(tool: ToolSource, result: ReportableAnalysisResult): SarifRun {
+  const issues = result.issues.filter((issue) => issue.tool === tool);
+  const ruleSources = new Map<string, AccessibilityIssue>();
+
+  for (const issue of issues) {
+    const current = ruleSources.get(issue.ruleId);
+    if (!current || shouldReplaceRuleSource(current, issue)) {
+      ruleSources.set(issue.ruleId, issue);
+    }
+  }
+
+  const rules = Array.from(ruleSources.values()).map(buildRule);
+  const ruleIndexes = new Map(rules.map((rule, index) => [rule.id, index]));
+  const version = result.tool === tool ? result.metadata?.toolVersion : undefined;
+
+  return {
+    tool: {
+      driver: {
+        name: tool,
+        informationUri: TOOL_INFORMATION_URIS[tool],
+        ...(version && { version }),
+        rules,
+      },
+    },
+    invocations: [
+      {
+        executionSuccessful: result.success,
+        endTimeUtc: result.timestamp,
+        ...(result.error && {
+          toolExecutionNotifications: [
+            { level: 'error' as const, message: { text: result.error } },
+          ],
+        }),
+      },
+    ],
+    results: issues.map((issue) =>
+      buildResult(issue, ruleIndexes.get(issue.ruleId) ?? 0, result.target)
+    ),
+    properties: {
+      target: result.target,
+      ...(result.duration !== undefined && { durationMs: result.duration }),
+    },
+  };
+}
+
+export function toSarifLog(result: ReportableAnalysisResult): SarifLog {
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: '2.1.0',
+    runs: resolveReportTools(result).map((tool) => buildRun(tool, result)),
+  };
+}
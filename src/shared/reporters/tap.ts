@@ -0,0 +1,76 @@
+import type { AccessibilityIssue } from '../types/accessibility.js';
+import type { ReportableAnalysisResult, ReportOptions } from './types.js';
+import { getHighestSeverity, groupIssuesForReport, resolveReportTools } from './utils.js';
+
+function escapeDescription(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/#/g, '\\#')
+    .replace(/[\r\n]+/g, ' ');
+}
+
+function toYamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+function buildIssueDiagnostics(issue: AccessibilityIssue): string[] {
+  const lines = [
+    `    - severity: ${issue.severity}`,
+    `      ruleId: ${toYamlString(issue.ruleId)}`,
+    `      message: ${toYamlString(issue.message)}`,
+  ];
+
+  if (issue.wcag) lines.push(`      criterion: ${toYamlString(issue.wcag.criterion)}`);
+  if (issue.location.selector)
+    lines.push(`      selector: ${toYamlString(issue.location.selector)}`);
+  if (issue.location.xpath) lines.push(`      xpath: ${toYamlString(issue.location.xpath)}`);
+  if (issue.location.file) lines.push(`      file: ${toYamlString(issue.location.file)}`);
+  if (issue.location.line !== undefined) lines.push(`      line: ${issue.location.line}`);
+  if (issue.location.snippet) lines.push(`      snippet: ${toYamlString(issue.location.snippet)}`);
+
+  return lines;
+}
+
+export function toTap(result: ReportableAnalysisResult, options: ReportOptions = {}): string {
+  const lines: string[] = [];
+  let testNumber = 0;
+
+  for (const tool of resolveReportTools(result)) {
+    const groups = groupIssuesForReport(
+      result.issues.filter((issue) => issue.tool === tool),
+      options.groupBy
+    );
+
+    if (groups.length === 0) {
+      testNumber++;
+      lines.push(`ok ${testNumber} - ${escapeDescription(`${tool}: accessibility`)}`);
+      continue;
+    }
+
+    for (const group of groups) {
+      testNumber++;
+      lines.push(`not ok ${testNumber} - ${escapeDescription(`${tool}: ${group.name}`)}`);
+      lines.push('  ---');
+      lines.push(`  severity: ${getHighestSeverity(group.issues)}`);
+      lines.push(`  count: ${group.issues.length}`);
+      lines.push('  failures:');
+      lines.push(...group.issues.flatMap(buildIssueDiagnostics));
+      lines.push('  ...');
+    }
+  }
+
+  if (!result.success && result.error) {
+    testNumber++;
+    lines.push(`not ok ${testNumber} - analysis`);
+    lines.push('  ---');
+    lines.push(`  message: ${toYamlString(result.error)}`);
+    lines.push('  ...');
+  }
+
+  if (testNumber === 0) {
+    testNumber++;
+    lines.push(`ok ${testNumber} - accessibility`);
+  }
+
+  return ['TAP version 13', `1..${testNumber}`, ...lines, ''].join('\n');
+}
@@ -0,0 +1,109 @@
+import type { AccessibilityIssue, ToolSource } from '../types/accessibility.js';
+
+export interface ReportableAnalysisResult {
+  success: boolean;
+  timestamp: string;
+  target: string;
+  issues: AccessibilityIssue[];
+  tool?: ToolSource | undefined;
+  toolsUsed?: ToolSource[] | undefined;
+  duration?: number | undefined;
+  metadata?: { toolVersion?: string | undefined } | undefined;
+  error?: string | undefined;
+}
+
+export type ReportGroupBy = 'criterion' | 'rule';
+
+export interface ReportOptions {
+  groupBy?: ReportGroupBy;
+}
+
+export interface ReportIssueGroup {
+  id: string;
+  name: string;
+  criterion?: string | undefined;
+  issues: AccessibilityIssue[];
+}
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifMessage {
+  text: string;
+  markdown?: string;
+}
+
+export interface SarifArtifactLocation {
+  uri: string;
+}
+
+export interface SarifRegion {
+  startLine?: number;
+  startColumn?: number;
+  snippet?: { text: string };
+}
+
+export interface SarifPhysicalLocation {
+  artifactLocation: SarifArtifactLocation;
+  region?: SarifRegion;
+}
+
+export interface SarifLogicalLocation {
+  name?: string;
+  fullyQualifiedName: string;
+  kind: string;
+}
+
+export interface SarifLocation {
+  physicalLocation: SarifPhysicalLocation;
+  logicalLocations?: SarifLogicalLocation[];
+}
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: SarifMessage;
+  fullDescription?: SarifMessage;
+  help: SarifMessage;
+  helpUri?: string;
+  defaultConfiguration: { level: SarifLevel };
+  properties: {
+    tags: string[];
+    [key: string]: unknown;
+  };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations: SarifLocation[];
+  partialFingerprints: Record<string, string>;
+  properties: Record<string, unknown>;
+}
+
+export interface SarifInvocation {
+  executionSuccessful: boolean;
+  endTimeUtc: string;
+  toolExecutionNotifications?: Array<{ level: SarifLevel; message: SarifMessage }>;
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      informationUri: string;
+      version?: string;
+      rules: SarifReportingDescriptor[];
+    };
+  };
+  invocations: SarifInvocation[];
+  results: SarifResult[];
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
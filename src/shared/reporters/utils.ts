@@ -0,0 +1,71 @@
+import type { AccessibilityIssue, Severity, ToolSource } from '../types/accessibility.js';
+import type { ReportableAnalysisResult, ReportGroupBy, ReportIssueGroup } from './types.js';
+
+const SEVERITY_ORDER: Severity[] = ['critical', 'serious', 'moderate', 'minor'];
+
+export function resolveReportTools(result: ReportableAnalysisResult): ToolSource[] {
+  const tools = new Set<ToolSource>(result.toolsUsed ?? (result.tool ? [result.tool] : []));
+
+  for (const issue of result.issues) {
+    tools.add(issue.tool);
+  }
+
+  return Array.from(tools);
+}
+
+function compareCriteria(a: string, b: string): number {
+  const aParts = a.split('.').map(Number);
+  const bParts = b.split('.').map(Number);
+
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+
+  return 0;
+}
+
+export function groupIssuesForReport(
+  issues: AccessibilityIssue[],
+  groupBy: ReportGroupBy = 'criterion'
+): ReportIssueGroup[] {
+  const groups = new Map<string, ReportIssueGroup>();
+
+  for (const issue of issues) {
+    const criterion = groupBy === 'criterion' ? issue.wcag?.criterion : undefined;
+    const id = criterion ? `wcag-${criterion}` : `rule-${issue.ruleId}`;
+    let group = groups.get(id);
+
+    if (!group) {
+      const title = criterion && issue.wcag?.title ? ` ${issue.wcag.title}` : '';
+      group = {
+        id,
+        name: criterion ? `WCAG ${criterion}${title}` : issue.ruleId,
+        criterion,
+        issues: [],
+      };
+      groups.set(id, group);
+    }
+
+    group.issues.push(issue);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => {
+    if (a.criterion && b.criterion) return compareCriteria(a.criterion, b.criterion);
+    if (a.criterion) return -1;
+    if (b.criterion) return 1;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+export function getHighestSeverity(issues: AccessibilityIssue[]): Severity | undefined {
+  return SEVERITY_ORDER.find((severity) => issues.some((issue) => issue.severity === severity));
+}
+
+export function isWebUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+export function getReportTargetName(target: string): string {
+  return isWebUrl(target) ? target : 'html';
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { IssueScreenshotSchema, ScreenshotImageSchema } from './screenshot.js';
 
 export const SeveritySchema = z
   .enum(['critical', 'serious', 'moderate', 'minor'])
@@ -20,7 +21,16 @@ export const WCAGPrincipleSchema = z
 export type WCAGPrinciple = z.infer<typeof WCAGPrincipleSchema>;
 
 export const ToolSourceSchema = z
-  .enum(['axe-core', 'pa11y', 'contrast-analyzer', 'lighthouse'])
+  .enum([
+    'axe-core',
+    'pa11y',
+    'contrast-analyzer',
+    'lighthouse',
+    'keyboard-analyzer',
+    'accessibility-tree',
+    'reflow-analyzer',
+    'target-size-analyzer',
+  ])
   .describe('Source tool that detected the issue');
 export type ToolSource = z.infer<typeof ToolSourceSchema>;
 
@@ -90,6 +100,13 @@ export const AccessibilityIssueSchema = z
       .optional()
       .describe('Estimated effort to fix'),
     confidence: z.number().min(0).max(1).optional().describe('Tool confidence score (0-1)'),
+    state: z.string().optional().describe('Named UI state the issue was found in'),
+    viewport: z.string().optional().describe('Named viewport the issue was found in'),
+    viewportSpecific: z
+      .boolean()
+      .optional()
+      .describe('True when the issue is not found in every analyzed viewport'),
+    screenshot: IssueScreenshotSchema.optional(),
     rawResult: z.unknown().optional().describe('Original result from source tool for debugging'),
   })
   .describe('Normalized accessibility issue from any source tool');
@@ -119,10 +136,42 @@ export const AnalysisSummarySchema = z
       .record(z.string(), z.number().int().nonnegative())
       .optional()
       .describe('Issue count grouped by rule ID'),
+    byState: z
+      .record(z.string(), z.number().int().nonnegative())
+      .optional()
+      .describe('Issue count grouped by named UI state'),
+    byViewport: z
+      .record(z.string(), z.number().int().nonnegative())
+      .optional()
+      .describe('Issue count grouped by viewport'),
+    viewportSpecific: z
+      .record(z.string(), z.number().int().nonnegative())
+      .optional()
+      .describe('Per viewport, the issues that are not found in every viewport'),
+    allViewports: z
+      .number()
+      .int()
+      .nonnegative()
+      .optional()
+      .describe('Distinct issues found in every viewport'),
   })
   .describe('Summary statistics for the analysis');
 export type AnalysisSummary = z.infer<typeof AnalysisSummarySchema>;
 
+export const PageSnapshotSchema = z
+  .object({
+    id: z.string().describe('Identifier of the page load; results sharing it saw the same render'),
+    url: z.string().optional().describe('URL of the page after redirects'),
+    loadedAt: z.string().datetime().describe('ISO 8601 timestamp of when loading finished'),
+    state: z.string().optional().describe('Named UI state the page was put in'),
+    viewport: z.string().optional().describe('Named viewport the page was rendered in'),
+    screenshot: ScreenshotImageSchema.optional().describe(
+      'Full-page screenshot with numbered markers on the captured elements'
+    ),
+  })
+  .describe('Page load an analysis ran against');
+export type PageSnapshot = z.infer<typeof PageSnapshotSchema>;
+
 export const AnalysisResultSchema = z
   .object({
     success: z.boolean().describe('Whether the analysis completed without errors'),
@@ -145,6 +194,10 @@ export const AnalysisResultSchema = z
       })
       .optional()
       .describe('Additional context about the analysis'),
+    snapshots: z
+      .array(PageSnapshotSchema)
+      .optional()
+      .describe('Page loads the result was produced from, one per UI state'),
     error: z.string().optional().describe('Error message if analysis failed'),
   })
   .describe('Complete result of an accessibility analysis');
@@ -165,6 +218,10 @@ export const CombinedAnalysisResultSchema = z
       .array(AnalysisResultSchema)
       .optional()
       .describe('Results from each tool before merging'),
+    renderMode: z
+      .enum(['single', 'separate'])
+      .optional()
+      .describe('Whether the tools shared one page load or each loaded the page'),
     error: z.string().optional(),
   })
   .describe('Combined result from multiple accessibility tools');
@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import { AuthenticationSchema, AuthSessionSchema } from './authentication.js';
+import { InteractionActionsSchema, InteractionStatesSchema } from './interaction.js';
+import { ScreenshotOptionsSchema } from './screenshot.js';
+import { EmulatedViewportSchema, ViewportsSchema } from './viewport.js';
 
 export const AnalysisTargetTypeSchema = z.enum(['url', 'html', 'file']);
 export type AnalysisTargetType = z.infer<typeof AnalysisTargetTypeSchema>;
@@ -10,13 +14,13 @@ export const AnalysisTargetSchema = z.object({
     .object({
       waitForSelector: z.string().optional(),
       timeout: z.number().positive().optional(),
-      viewport: z
-        .object({
-          width: z.number().positive(),
-          height: z.number().positive(),
-        })
-        .optional(),
+      viewport: EmulatedViewportSchema.optional(),
+      viewports: ViewportsSchema.optional(),
       ignoreHTTPSErrors: z.boolean().optional(),
+      authentication: AuthenticationSchema.optional(),
+      authSession: AuthSessionSchema.optional(),
+      actions: InteractionActionsSchema.optional(),
+      states: InteractionStatesSchema.optional(),
     })
     .optional(),
 });
@@ -27,5 +31,6 @@ export const AnalysisOptionsSchema = z.object({
   wcagLevel: z.enum(['A', 'AA', 'AAA']).optional().default('AA'),
   rules: z.array(z.string()).optional(),
   excludeRules: z.array(z.string()).optional(),
+  screenshots: ScreenshotOptionsSchema.optional(),
 });
 export type AnalysisOptions = z.infer<typeof AnalysisOptionsSchema>;
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+export const AuthCookieSchema = z
+  .object({
+    name: z.string().min(1),
+    value: z.string(),
+    url: z.string().url().optional(),
+    domain: z.string().optional(),
+    path: z.string().optional(),
+    secure: z.boolean().optional(),
+    httpOnly: z.boolean().optional(),
+    sameSite: z.enum(['Strict', 'Lax', 'None']).optional(),
+  })
+  .describe(
+    'Cookie set before the page loads. Scoped to the target URL unless url or domain is set'
+  );
+
+export const LoginStepSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('goto'),
+    url: z.string().url(),
+  }),
+  z.object({
+    action: z.literal('type'),
+    selector: z.string().min(1),
+    value: z.string(),
+  }),
+  z.object({
+    action: z.literal('click'),
+    selector: z.string().min(1),
+  }),
+  z.object({
+    action: z.literal('waitForSelector'),
+    selector: z.string().min(1),
+    timeout: z.number().int().positive().max(60000).optional(),
+  }),
+]);
+
+export const LoginScriptSchema = z
+  .object({
+    url: z.string().url().describe('Login page URL'),
+    steps: z
+      .array(LoginStepSchema)
+      .min(1)
+      .describe('Steps run in order: goto, type, click or waitForSelector'),
+  })
+  .describe(
+    'Declarative login flow run once before analysis; its cookies and localStorage are reused'
+  );
+
+export const AuthenticationSchema = z
+  .object({
+    cookies: z.array(AuthCookieSchema).optional(),
+    localStorage: z
+      .record(z.string())
+      .optional()
+      .describe('localStorage entries set on the target origin before the page loads'),
+    headers: z
+      .record(z.string())
+      .optional()
+      .describe('Extra HTTP headers sent with every request (e.g. Authorization: Bearer ...)'),
+    basicAuth: z
+      .object({
+        username: z.string().min(1),
+        password: z.string(),
+      })
+      .optional()
+      .describe('HTTP basic auth credentials'),
+    loginScript: LoginScriptSchema.optional(),
+  })
+  .describe(
+    'Authentication for pages behind a login. Secret values are redacted from logs and results'
+  );
+
+export const AuthSessionSchema = z.object({
+  cookies: z.array(AuthCookieSchema),
+  localStorage: z.record(z.record(z.string())),
+});
+
+export type AuthCookie = z.infer<typeof AuthCookieSchema>;
+export type LoginStep = z.infer<typeof LoginStepSchema>;
+export type LoginScript = z.infer<typeof LoginScriptSchema>;
+export type Authentication = z.infer<typeof AuthenticationSchema>;
+export type AuthSession = z.infer<typeof AuthSessionSchema>;
@@ -1,3 +1,7 @@
 export * from './accessibility.js';
 export * from './analysis.js';
+export * from './authentication.js';
+export * from './interaction.js';
+export * from './screenshot.js';
 export * from './validation.js';
+export * from './viewport.js';
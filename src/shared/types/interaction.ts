@@ -0,0 +1,74 @@
+import { z } from 'zod';
+
+export const InteractionActionSchema = z
+  .discriminatedUnion('action', [
+    z.object({
+      action: z.literal('click'),
+      selector: z.string().min(1),
+    }),
+    z.object({
+      action: z.literal('hover'),
+      selector: z.string().min(1),
+    }),
+    z.object({
+      action: z.literal('focus'),
+      selector: z.string().min(1),
+    }),
+    z.object({
+      action: z.literal('type'),
+      selector: z.string().min(1),
+      value: z.string(),
+    }),
+    z.object({
+      action: z.literal('press'),
+      key: z.string().min(1).describe('Key name, e.g. "Enter", "Escape" or "ArrowDown"'),
+      selector: z.string().min(1).optional().describe('Element to focus before pressing the key'),
+    }),
+    z.object({
+      action: z.literal('scroll'),
+      selector: z.string().min(1).optional().describe('Element to scroll into view'),
+      x: z.number().int().nonnegative().optional(),
+      y: z.number().int().nonnegative().optional(),
+    }),
+    z.object({
+      action: z.literal('wait'),
+      selector: z.string().min(1).optional().describe('Wait until this element is visible'),
+      duration: z.number().int().positive().max(60000).optional().describe('Fixed wait in ms'),
+    }),
+    z.object({
+      action: z.literal('select'),
+      selector: z.string().min(1),
+      values: z.array(z.string()).min(1).describe('Option values to select'),
+    }),
+  ])
+  .describe('Interaction run on the page after it loads and before analysis');
+
+export const InteractionStateSchema = z
+  .object({
+    name: z.string().trim().min(1).describe('State name used to label issues, e.g. "menu open"'),
+    actions: z
+      .array(InteractionActionSchema)
+      .max(50)
+      .default([])
+      .describe('Actions that put the page into this state, run after the shared actions'),
+  })
+  .describe('Named UI state analyzed on a fresh page load');
+
+export const InteractionActionsSchema = z
+  .array(InteractionActionSchema)
+  .max(50)
+  .describe(
+    'Actions run before analysis: click, hover, focus, type, press, scroll, wait or select'
+  );
+
+export const InteractionStatesSchema = z
+  .array(InteractionStateSchema)
+  .min(1)
+  .max(10)
+  .refine((states) => new Set(states.map((state) => state.name)).size === states.length, {
+    message: 'State names must be unique',
+  })
+  .describe('Named UI states to audit in one call; issues are reported per state');
+
+export type InteractionAction = z.infer<typeof InteractionActionSchema>;
+export type InteractionState = z.infer<typeof InteractionStateSchema>;
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+
+export const DEFAULT_MAX_ELEMENT_SCREENSHOTS = 10;
+export const MAX_ELEMENT_SCREENSHOTS = 50;
+
+export const ScreenshotOptionsSchema = z
+  .object({
+    maxElements: z
+      .number()
+      .int()
+      .positive()
+      .max(MAX_ELEMENT_SCREENSHOTS)
+      .default(DEFAULT_MAX_ELEMENT_SCREENSHOTS)
+      .describe('Maximum element screenshots per tool and page load'),
+    fullPage: z
+      .boolean()
+      .default(false)
+      .describe('Also capture the full page with a numbered marker on every captured element'),
+    outputDir: z
+      .string()
+      .min(1)
+      .optional()
+      .describe(
+        'Write PNG files to this directory and reference their paths instead of returning images'
+      ),
+  })
+  .describe('Highlighted screenshots of the elements with issues');
+export type ScreenshotOptions = z.infer<typeof ScreenshotOptionsSchema>;
+
+export const ScreenshotImageSchema = z.object({
+  path: z.string().optional().describe('Absolute path of the PNG file'),
+  data: z
+    .string()
+    .optional()
+    .describe('Base64 PNG data. Tools return it as MCP image content instead of JSON'),
+});
+export type ScreenshotImage = z.infer<typeof ScreenshotImageSchema>;
+
+export const IssueScreenshotSchema = ScreenshotImageSchema.extend({
+  marker: z
+    .number()
+    .int()
+    .positive()
+    .describe('Number of the element on the annotated full-page screenshot'),
+  boundingBox: z
+    .object({
+      x: z.number(),
+      y: z.number(),
+      width: z.number().positive(),
+      height: z.number().positive(),
+    })
+    .describe('Position of the element in the document, in CSS pixels'),
+}).describe('Cropped screenshot of the element with the element highlighted');
+export type IssueScreenshot = z.infer<typeof IssueScreenshotSchema>;
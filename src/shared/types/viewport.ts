@@ -0,0 +1,95 @@
+import { z } from 'zod';
+
+export const MAX_VIEWPORTS = 6;
+
+export const ViewportPresetSchema = z
+  .enum(['mobile', 'tablet', 'desktop'])
+  .describe('Viewport preset: mobile (375x667), tablet (768x1024) or desktop (1280x720)');
+export type ViewportPreset = z.infer<typeof ViewportPresetSchema>;
+
+export const EmulatedViewportSchema = z
+  .object({
+    width: z.number().int().positive().describe('Viewport width in CSS pixels'),
+    height: z.number().int().positive().describe('Viewport height in CSS pixels'),
+    deviceScaleFactor: z
+      .number()
+      .positive()
+      .max(4)
+      .optional()
+      .describe('Device pixel ratio, e.g. 2 for high-density screens'),
+    isMobile: z
+      .boolean()
+      .optional()
+      .describe('Emulate a mobile device, honouring the meta viewport tag'),
+    hasTouch: z.boolean().optional().describe('Emulate a touch screen'),
+  })
+  .describe('Emulated browser viewport');
+export type EmulatedViewport = z.infer<typeof EmulatedViewportSchema>;
+
+export const VIEWPORT_PRESETS: Record<ViewportPreset, EmulatedViewport> = {
+  mobile: { width: 375, height: 667, deviceScaleFactor: 2, isMobile: true, hasTouch: true },
+  tablet: { width: 768, height: 1024, deviceScaleFactor: 2, isMobile: true, hasTouch: true },
+  desktop: { width: 1280, height: 720, deviceScaleFactor: 1, isMobile: false, hasTouch: false },
+};
+
+export const ViewportConfigSchema = z
+  .union([
+    ViewportPresetSchema,
+    EmulatedViewportSchema.partial()
+      .extend({
+        name: z
+          .string()
+          .trim()
+          .min(1)
+          .optional()
+          .describe('Name used to label issues; defaults to the preset or WIDTHxHEIGHT'),
+        preset: ViewportPresetSchema.optional().describe(
+          'Preset to start from; the other fields override it'
+        ),
+      })
+      .refine((viewport) => viewport.preset || (viewport.width && viewport.height), {
+        message: 'A viewport needs a preset or both width and height',
+      }),
+  ])
+  .describe('Viewport preset name, or a custom viewport');
+export type ViewportConfig = z.infer<typeof ViewportConfigSchema>;
+
+export type NamedViewport = EmulatedViewport & { name: string };
+
+/** Fills a viewport from its preset and gives it a name. */
+export function resolveViewport(config: ViewportConfig): NamedViewport {
+  if (typeof config === 'string') {
+    return { name: config, ...VIEWPORT_PRESETS[config] };
+  }
+
+  const { name, preset, ...overrides } = config;
+  const base = preset ? VIEWPORT_PRESETS[preset] : undefined;
+  const viewport: EmulatedViewport = {
+    width: overrides.width ?? base?.width ?? 0,
+    height: overrides.height ?? base?.height ?? 0,
+    deviceScaleFactor: overrides.deviceScaleFactor ?? base?.deviceScaleFactor,
+    isMobile: overrides.isMobile ?? base?.isMobile,
+    hasTouch: overrides.hasTouch ?? base?.hasTouch,
+  };
+
+  const resized = overrides.width !== undefined || overrides.height !== undefined;
+
+  return {
+    name: name ?? (preset && !resized ? preset : `${viewport.width}x${viewport.height}`),
+    ...viewport,
+  };
+}
+
+export const ViewportsSchema = z
+  .array(ViewportConfigSchema)
+  .min(1)
+  .max(MAX_VIEWPORTS)
+  .refine(
+    (viewports) =>
+      new Set(viewports.map((viewport) => resolveViewport(viewport).name)).size ===
+      viewports.length,
+    { message: 'Viewport names must be unique' }
+  )
+  .describe(
+    'Viewports to analyze in one call, e.g. ["mobile", "desktop"]; issues are reported per viewport'
+  );
@@ -0,0 +1,104 @@
+import type { AccessibilityIssue } from '@/shared/types/accessibility.js';
+
+const MAX_SELECTOR_SEGMENTS = 3;
+
+const POSITIONAL_PSEUDO_PATTERN =
+  /:(nth-child|nth-of-type|nth-last-child|nth-last-of-type)\([^)]*\)|:(first|last|only)-(child|of-type)/g;
+
+/** CSS-in-JS prefixes followed by a hash, with an optional label (`css-1x2y3z4-Button`). */
+const CSS_IN_JS_PATTERN = /^(?:css|jsx|emotion|svelte|chakra)-([a-z0-9]+)(?:-[\w-]+)?$/i;
+
+/** styled-components class names: `sc-` followed by a mixed-case hash (`sc-bdVaJa`). */
+const STYLED_COMPONENTS_PATTERN = /^sc-(?=[a-zA-Z]*[A-Z])(?=[a-zA-Z]*[a-z])[a-zA-Z]{5,}$/;
+
+/** JSS counters (`jss123`, `makeStyles-root-12`). */
+const JSS_PATTERN = /^(?:jss|makeStyles-[\w-]+-)\d+$/;
+
+/**
+ * Whether a name part looks like a generated hash: at least five letters and
+ * digits mixed together. Words followed or preceded by a number, such as
+ * `primary2` or `2column`, are not hashes.
+ */
+function isHash(part: string): boolean {
+  return (
+    /^[a-z0-9]{5,}$/i.test(part) &&
+    /\d/.test(part) &&
+    /[a-z]/i.test(part) &&
+    !/^[a-z]+\d+$/i.test(part) &&
+    !/^\d+[a-z]+$/i.test(part)
+  );
+}
+
+/**
+ * Whether a class name or id was generated by a build tool, so it changes
+ * between builds: CSS-in-JS class names, JSS counters and CSS Modules names
+ * ending in a hash (`Button_root__a1B2c`, `_3xYz9`).
+ */
+function isGeneratedToken(token: string): boolean {
+  const cssInJs = CSS_IN_JS_PATTERN.exec(token);
+  if (cssInJs) {
+    return isHash(cssInJs[1]!);
+  }
+  if (STYLED_COMPONENTS_PATTERN.test(token) || JSS_PATTERN.test(token)) {
+    return true;
+  }
+
+  const separator = Math.max(token.lastIndexOf('_'), token.lastIndexOf('-'));
+  return separator >= 0 && isHash(token.slice(separator + 1));
+}
+
+function normalizeCompound(compound: string): string {
+  const withoutPositions = compound.replace(POSITIONAL_PSEUDO_PATTERN, '');
+
+  return withoutPositions.replace(/([#.])([\w-]+)/g, (_match, prefix: string, token: string) =>
+    isGeneratedToken(token) ? '' : `${prefix}${token}`
+  );
+}
+
+export function normalizeSelector(selector: string): string {
+  const segments = selector
+    .replace(/\s*([>+~])\s*/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .map(normalizeCompound)
+    .filter((segment) => segment.length > 0 && segment !== 'html' && segment !== 'body');
+
+  return segments.slice(-MAX_SELECTOR_SEGMENTS).join(' ') || 'document';
+}
+
+function normalizeSnippet(snippet: string): string {
+  const openingTag = /^<\s*([a-z][\w-]*)([^>]*)>/i.exec(snippet.trim());
+  if (!openingTag) {
+    return 'no-location';
+  }
+
+  const tagName = openingTag[1]!.toLowerCase();
+  const stableAttributes = ['role', 'type', 'name', 'aria-label', 'href', 'alt']
+    .map((attr) => {
+      const match = new RegExp(`\\s${attr}\\s*=\\s*["']([^"']*)["']`, 'i').exec(
+        openingTag[2] ?? ''
+      );
+      return match ? `[${attr}="${match[1]}"]` : '';
+    })
+    .join('');
+
+  return `${tagName}${stableAttributes}`;
+}
+
+export function generateStableFingerprint(issue: AccessibilityIssue): string {
+  const location = issue.location.selector
+    ? normalizeSelector(issue.location.selector)
+    : issue.location.snippet
+      ? normalizeSnippet(issue.location.snippet)
+      : (issue.location.file ?? 'document');
+
+  const parts = [issue.tool, issue.ruleId, issue.wcag?.criterion ?? 'no-wcag', location];
+  if (issue.state) {
+    parts.push(issue.state);
+  }
+  if (issue.viewport) {
+    parts.push(issue.viewport);
+  }
+
+  return parts.join('|');
+}
@@ -1,2 +1,5 @@
 export * from './logger.js';
 export * from './wcag-context.js';
+export * from './fingerprint.js';
+export * from './severity.js';
+export * from './redact.js';
@@ -16,6 +16,19 @@ export interface LogContext {
 
 const logLevel = (process.env['LOG_LEVEL'] as LogLevel) ?? 'info';
 
+const REDACTED_LOG_PATHS = [
+  'authentication',
+  'authSession',
+  'headers',
+  'cookies',
+  'password',
+  '*.authentication',
+  '*.authSession',
+  '*.headers',
+  '*.cookies',
+  '*.password',
+];
+
 const baseLogger = pino(
   {
     level: logLevel,
@@ -24,6 +37,7 @@ const baseLogger = pino(
       version: APP_VERSION,
     },
     timestamp: pino.stdTimeFunctions.isoTime,
+    redact: { paths: REDACTED_LOG_PATHS, censor: '[REDACTED]' },
     formatters: {
       level: (label) => ({ level: label }),
     },
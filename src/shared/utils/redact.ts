@@ -0,0 +1,68 @@
+import type { AnalysisTarget } from '../types/analysis.js';
+
+export const REDACTED = '[REDACTED]';
+
+const MIN_SECRET_LENGTH = 4;
+
+export function collectTargetSecrets(target: AnalysisTarget): string[] {
+  const authentication = target.options?.authentication;
+  const session = target.options?.authSession;
+  const secrets = new Set<string>();
+
+  for (const cookie of [...(authentication?.cookies ?? []), ...(session?.cookies ?? [])]) {
+    secrets.add(cookie.value);
+  }
+  for (const value of Object.values(authentication?.headers ?? {})) {
+    secrets.add(value);
+  }
+  for (const value of Object.values(authentication?.localStorage ?? {})) {
+    secrets.add(value);
+  }
+  for (const entries of Object.values(session?.localStorage ?? {})) {
+    for (const value of Object.values(entries)) {
+      secrets.add(value);
+    }
+  }
+  if (authentication?.basicAuth) {
+    const { username, password } = authentication.basicAuth;
+    secrets.add(password);
+    secrets.add(Buffer.from(`${username}:${password}`).toString('base64'));
+  }
+  for (const step of authentication?.loginScript?.steps ?? []) {
+    if (step.action === 'type') {
+      secrets.add(step.value);
+    }
+  }
+
+  return Array.from(secrets)
+    .filter((secret) => secret.length >= MIN_SECRET_LENGTH)
+    .sort((a, b) => b.length - a.length);
+}
+
+export function redactSecrets<T>(value: T, secrets: string[]): T {
+  if (secrets.length === 0) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    let redacted: string = value;
+    for (const secret of secrets) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+    return redacted as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item, secrets)) as T;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      redacted[key] = redactSecrets(item, secrets);
+    }
+    return redacted as T;
+  }
+
+  return value;
+}
@@ -0,0 +1,12 @@
+import type { Severity } from '../types/accessibility.js';
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  critical: 4,
+  serious: 3,
+  moderate: 2,
+  minor: 1,
+};
+
+export function isAtLeastSeverity(severity: Severity, threshold: Severity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold];
+}
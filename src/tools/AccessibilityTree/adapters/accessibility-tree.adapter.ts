@@ -0,0 +1,311 @@
+import type { ElementHandle, Page, SerializedAXNode } from 'puppeteer';
+import type { AnalysisTarget } from '@/shared/types/analysis.js';
+import type {
+  AccessibilityIssue,
+  AnalysisResult,
+  PageSnapshot,
+} from '@/shared/types/accessibility.js';
+import { createAdapterLogger } from '@/shared/utils/logger.js';
+import { collectTargetSecrets, redactSecrets } from '@/shared/utils/redact.js';
+import {
+  closeTargetPage,
+  openTargetPage,
+  resolveAuthSession,
+} from '@/shared/browser/authentication.js';
+import { loadTarget } from '@/shared/browser/navigation.js';
+import { installSelectorHelper, type SelectorWindow } from '@/shared/browser/selectors.js';
+import {
+  getBrowserPool,
+  type BrowserLaunchOptions,
+  type BrowserLease,
+} from '@/shared/browser/pool.js';
+import { toPageViewport } from '@/shared/browser/viewports.js';
+import { accessibilityTreeNormalizer } from '../normalizers/index.js';
+import type { AccessibilityNode, AccessibilityTreeResult, TreeFinding } from '../types/index.js';
+import {
+  buildTranscript,
+  calculateTreeStats,
+  detectTreeIssues,
+  toAccessibilityNode,
+} from '../utils/index.js';
+
+export interface AccessibilityTreeAdapterConfig {
+  timeout?: number;
+  headless?: boolean;
+  browserArgs?: string[];
+  ignoreHTTPSErrors?: boolean;
+}
+
+export interface AccessibilityTreeAdapterOptions {
+  selector?: string;
+  interestingOnly?: boolean;
+  excludeRules?: string[] | undefined;
+}
+
+export class AccessibilityTreeAdapter {
+  readonly name = 'accessibility-tree';
+  readonly version = '1.0.0';
+
+  private config: AccessibilityTreeAdapterConfig;
+  private logger: ReturnType<typeof createAdapterLogger>;
+
+  constructor(config: AccessibilityTreeAdapterConfig = {}) {
+    this.config = {
+      timeout: 30000,
+      headless: true,
+      browserArgs: ['--no-sandbox', '--disable-setuid-sandbox'],
+      ...config,
+    };
+    this.logger = createAdapterLogger('AccessibilityTreeAdapter');
+  }
+
+  async analyze(
+    target: AnalysisTarget,
+    options?: AccessibilityTreeAdapterOptions
+  ): Promise<AccessibilityTreeResult> {
+    const startTime = Date.now();
+    let page: Page | null = null;
+    let lease: BrowserLease | null = null;
+    let pageTarget = target;
+
+    try {
+      this.logger.info('Starting accessibility tree inspection', {
+        target: target.value,
+        selector: options?.selector,
+      });
+
+      pageTarget = await resolveAuthSession(target, {
+        timeout: this.config.timeout,
+        ignoreHTTPSErrors: this.config.ignoreHTTPSErrors,
+      });
+      lease = await getBrowserPool().acquire(this.launchOptions());
+      page = await openTargetPage(lease.browser, pageTarget);
+
+      if (target.options?.viewport) {
+        await page.setViewport(toPageViewport(target.options.viewport));
+      }
+
+      const snapshot = await loadTarget(page, pageTarget, this.config.timeout);
+      const result = await this.analyzePage(page, pageTarget, options, snapshot);
+
+      return { ...result, duration: Date.now() - startTime };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error('Accessibility tree inspection failed', {
+        error: error as Error,
+        target: target.value,
+      });
+
+      return redactSecrets(
+        this.buildErrorResult(target.value, error, duration),
+        collectTargetSecrets(pageTarget)
+      );
+    } finally {
+      if (page) {
+        await closeTargetPage(page);
+      }
+      await lease?.release();
+    }
+  }
+
+  /**
+   * Inspects the tree of a page that is already loaded, so it can share one
+   * render with other in-page analyses.
+   */
+  async analyzePage(
+    page: Page,
+    target: AnalysisTarget,
+    options?: AccessibilityTreeAdapterOptions,
+    snapshot?: PageSnapshot
+  ): Promise<AccessibilityTreeResult> {
+    const startTime = Date.now();
+    const snapshots = snapshot ? [snapshot] : undefined;
+
+    try {
+      const rawTree = await this.captureSnapshot(page, options);
+      const tree = rawTree ? toAccessibilityNode(rawTree) : null;
+      const findings = await this.locateFindings(
+        page,
+        detectTreeIssues(tree, options?.excludeRules),
+        rawTree
+      );
+      const issues = accessibilityTreeNormalizer.normalize(findings, {
+        tool: 'accessibility-tree',
+        targetUrl: target.type === 'url' ? target.value : undefined,
+        targetFile: target.type === 'file' ? target.value : undefined,
+      });
+
+      const duration = Date.now() - startTime;
+      this.logger.info('Accessibility tree inspection completed', {
+        issueCount: issues.length,
+        duration,
+      });
+
+      return redactSecrets(
+        { ...this.buildSuccessResult(target.value, issues, tree, duration), snapshots },
+        collectTargetSecrets(target)
+      );
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error('Accessibility tree inspection failed', {
+        error: error as Error,
+        target: target.value,
+      });
+
+      return redactSecrets(
+        { ...this.buildErrorResult(target.value, error, duration), snapshots },
+        collectTargetSecrets(target)
+      );
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return await getBrowserPool().isAvailable(this.launchOptions());
+  }
+
+  async dispose(): Promise<void> {
+    await getBrowserPool().closeIdle(this.launchOptions());
+  }
+
+  private launchOptions(): BrowserLaunchOptions {
+    return {
+      headless: this.config.headless,
+      args: this.config.browserArgs,
+      ignoreHTTPSErrors: this.config.ignoreHTTPSErrors,
+    };
+  }
+
+  private async captureSnapshot(
+    page: Page,
+    options?: AccessibilityTreeAdapterOptions
+  ): Promise<SerializedAXNode | null> {
+    let root: ElementHandle | null = null;
+
+    if (options?.selector) {
+      root = await page.$(options.selector);
+      if (!root) {
+        throw new Error(`No element matches selector "${options.selector}"`);
+      }
+    }
+
+    return await page.accessibility.snapshot({
+      interestingOnly: options?.interestingOnly ?? true,
+      ...(root && { root }),
+    });
+  }
+
+  /**
+   * Resolves the DOM element behind each flagged node so issues carry a
+   * selector, like issues from the other adapters.
+   */
+  private async locateFindings(
+    page: Page,
+    findings: TreeFinding[],
+    snapshot: SerializedAXNode | null
+  ): Promise<TreeFinding[]> {
+    if (!snapshot || findings.length === 0) {
+      return findings;
+    }
+
+    await installSelectorHelper(page);
+
+    const nodes = new Map<string, SerializedAXNode>();
+    const index = (node: SerializedAXNode, path: string): void => {
+      nodes.set(path, node);
+      node.children?.forEach((child, i) => index(child, `${path}.${i}`));
+    };
+    index(snapshot, '0');
+
+    return await Promise.all(
+      findings.map(async (finding) => {
+        const handle = await nodes
+          .get(finding.path)
+          ?.elementHandle()
+          .catch(() => null);
+        if (!handle) return finding;
+
+        try {
+          const { selector, snippet } = await handle.evaluate(describeElement);
+          return { ...finding, selector, snippet };
+        } finally {
+          await handle.dispose();
+        }
+      })
+    );
+  }
+
+  private buildSuccessResult(
+    target: string,
+    issues: AccessibilityIssue[],
+    tree: AccessibilityNode | null,
+    duration: number
+  ): AccessibilityTreeResult {
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration,
+      target,
+      tool: 'accessibility-tree',
+      issues,
+      summary: this.calculateSummary(issues),
+      tree,
+      transcript: buildTranscript(tree),
+      stats: calculateTreeStats(tree),
+    };
+  }
+
+  private buildErrorResult(
+    target: string,
+    error: unknown,
+    duration: number
+  ): AccessibilityTreeResult {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    return {
+      success: false,
+      timestamp: new Date().toISOString(),
+      duration,
+      target,
+      tool: 'accessibility-tree',
+      issues: [],
+      summary: {
+        total: 0,
+        bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+      },
+      tree: null,
+      transcript: [],
+      error: errorMessage,
+    };
+  }
+
+  private calculateSummary(issues: AccessibilityIssue[]): AnalysisResult['summary'] {
+    const bySeverity = { critical: 0, serious: 0, moderate: 0, minor: 0 };
+    const byPrinciple = { perceivable: 0, operable: 0, understandable: 0, robust: 0 };
+    const byRule: Record<string, number> = {};
+
+    for (const issue of issues) {
+      bySeverity[issue.severity]++;
+
+      if (issue.wcag?.principle) {
+        byPrinciple[issue.wcag.principle]++;
+      }
+
+      byRule[issue.ruleId] = (byRule[issue.ruleId] ?? 0) + 1;
+    }
+
+    return {
+      total: issues.length,
+      bySeverity,
+      byPrinciple,
+      byRule,
+    };
+  }
+}
+
+/** Runs in the page, after `installSelectorHelper`. */
+function describeElement(el: Element): { selector: string; snippet: string } {
+  return {
+    selector: (window as unknown as SelectorWindow).__a11ySelectorOf(el),
+    snippet: el.outerHTML.substring(0, 300),
+  };
+}
@@ -0,0 +1,8 @@
+export { inspectAccessibilityTreeTool, disposeAccessibilityTreeAdapter } from './main.js';
+export {
+  AccessibilityTreeAdapter,
+  type AccessibilityTreeAdapterConfig,
+  type AccessibilityTreeAdapterOptions,
+} from './adapters/index.js';
+export * from './types/index.js';
+export * from './utils/index.js';
@@ -0,0 +1,148 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { AccessibilityTreeAdapter } from './adapters/index.js';
+import {
+  AccessibilityTreeToolInputSchema,
+  type AccessibilityTreeToolInput,
+} from './types/index.js';
+import { buildAnalysisTarget, buildAnalysisOptions, formatOutput } from './utils/index.js';
+import { getAdapterSettings } from '@/shared/config/index.js';
+import {
+  type ToolContent,
+  type ToolDefinition,
+  type ToolResponse,
+  createErrorResponse,
+  createFormattedResponse,
+  withToolContext,
+} from '../Base/index.js';
+import { AccessibilityTreeToolMcpInputSchema } from './types/input.type.js';
+
+let sharedAdapter: AccessibilityTreeAdapter | null = null;
+let currentIgnoreHTTPS = false;
+
+function getAdapter(ignoreHTTPSErrors = false): AccessibilityTreeAdapter {
+  if (!sharedAdapter || currentIgnoreHTTPS !== ignoreHTTPSErrors) {
+    if (sharedAdapter) {
+      sharedAdapter.dispose().catch(() => {});
+    }
+    sharedAdapter = new AccessibilityTreeAdapter({
+      headless: true,
+      timeout: getAdapterSettings('accessibility-tree').timeout ?? 30000,
+      ignoreHTTPSErrors,
+    });
+    currentIgnoreHTTPS = ignoreHTTPSErrors;
+  }
+  return sharedAdapter;
+}
+
+async function disposeAdapter(): Promise<void> {
+  if (sharedAdapter) {
+    await sharedAdapter.dispose();
+    sharedAdapter = null;
+  }
+}
+
+process.on('SIGINT', () => {
+  disposeAdapter().finally(() => process.exit(0));
+});
+
+process.on('SIGTERM', () => {
+  disposeAdapter().finally(() => process.exit(0));
+});
+
+const handleAccessibilityTreeInspection = withToolContext<AccessibilityTreeToolInput>(
+  'inspect-accessibility-tree',
+  async (input, context): Promise<ToolResponse> => {
+    const target = buildAnalysisTarget(input);
+    const options = buildAnalysisOptions(input);
+    const ignoreHTTPSErrors = target.options?.ignoreHTTPSErrors ?? false;
+
+    context.logger.debug('Building inspection configuration', {
+      hasUrl: !!input.url,
+      hasHtml: !!input.html,
+      selector: options.selector,
+      interestingOnly: options.interestingOnly,
+      ignoreHTTPSErrors,
+    });
+
+    const adapter = getAdapter(ignoreHTTPSErrors);
+
+    const isAvailable = await adapter.isAvailable();
+    if (!isAvailable) {
+      return createErrorResponse(
+        new Error('Accessibility tree adapter is not available. Browser may have failed to launch.')
+      );
+    }
+
+    context.logger.info('Starting accessibility tree inspection', {
+      targetType: target.type,
+      target: target.type === 'url' ? target.value : '[html content]',
+    });
+
+    const result = await adapter.analyze(target, options);
+
+    if (!result.success) {
+      context.logger.warn('Inspection completed with errors', {
+        error: result.error,
+      });
+    }
+
+    context.recordHistory(target, result);
+    const output = formatOutput(result);
+    return createFormattedResponse(result, output, input.options?.outputFormat);
+  }
+);
+
+export const inspectAccessibilityTreeTool: ToolDefinition = {
+  name: 'inspect-accessibility-tree',
+  description: `Inspect what assistive technology announces for a web page or part of it.
+
+Captures Chrome's accessibility tree (role, name, description, value and states) and renders it as JSON and as a linear screen reader transcript. Flags nodes announced without a name, named generic containers wrapping controls, and duplicated landmarks.
+
+Input options
+- url: URL of the page to inspect
+- html: Raw HTML content to inspect (alternative to url)
+- options.selector: CSS selector of the element whose subtree is captured. Default: whole page
+- options.interestingOnly: Drop nodes that assistive technology ignores, as Chrome does. Default: true
+- options.browser.waitForSelector: CSS selector to wait for before inspection
+- options.browser.viewport: Browser viewport dimensions
+- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors. Default: project config, else false
+- options.browser.authentication: Cookies, localStorage, headers, basic auth or a login script for protected pages (secrets are redacted from output)
+- options.browser.actions: Interactions run before the snapshot (click, hover, focus, type, press, scroll, wait, select)
+- options.outputFormat: Response format, "json", "sarif" (SARIF 2.1.0), "junit" (JUnit XML) or "tap" (TAP 13). Default: json
+
+Output
+- transcript: One line per announcement in reading order, e.g. "navigation landmark, Main", "link, Home", "button, (no name), collapsed"
+- tree: Nested nodes with path, role, name, description, value, level and states
+- stats: Node, interactive element and landmark counts
+- issues: Normalized accessibility issues (tool: accessibility-tree)
+- summary: Issue counts by severity, principle and rule
+
+Rules
+- empty-accessible-name: Control, image, heading or dialog announced without a name (1.1.1, 1.3.1, 2.4.4 or 4.1.2)
+- generic-wraps-interactive: Generic container with a name that wraps controls (4.1.2)
+- duplicate-landmark: More than one main, banner or contentinfo, or same-role landmarks sharing a name (1.3.1)`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      AccessibilityTreeToolMcpInputSchema.shape,
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
+        const parseResult = AccessibilityTreeToolInputSchema.safeParse(input);
+
+        if (!parseResult.success) {
+          const errors = parseResult.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; ');
+          const response = createErrorResponse(new Error(`Invalid input: ${errors}`));
+          return { content: response.content };
+        }
+
+        const response = await handleAccessibilityTreeInspection(parseResult.data, extra);
+        return { content: response.content };
+      }
+    );
+  },
+};
+
+export { disposeAdapter as disposeAccessibilityTreeAdapter };
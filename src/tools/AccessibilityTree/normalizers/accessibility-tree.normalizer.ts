@@ -0,0 +1,44 @@
+import { BaseNormalizer, type NormalizerContext } from '@/shared/normalizers/base.js';
+import type { AccessibilityIssue } from '@/shared/types/accessibility.js';
+import { ACCESSIBILITY_TREE_RULES, TREE_CRITERIA, type TreeFinding } from '../types/index.js';
+
+export class AccessibilityTreeNormalizer extends BaseNormalizer<TreeFinding[]> {
+  normalize(findings: TreeFinding[], context: NormalizerContext): AccessibilityIssue[] {
+    return findings.map((finding) => this.normalizeFinding(finding, context));
+  }
+
+  private normalizeFinding(finding: TreeFinding, context: NormalizerContext): AccessibilityIssue {
+    const rule = ACCESSIBILITY_TREE_RULES[finding.ruleId];
+    const criterion = TREE_CRITERIA[finding.criterion];
+
+    const baseIssue = {
+      id: this.generateIssueId(
+        'accessibility-tree',
+        finding.ruleId,
+        finding.selector ?? finding.path
+      ),
+      ruleId: finding.ruleId,
+      tool: 'accessibility-tree' as const,
+      severity: rule.severity,
+      wcag: criterion && {
+        criterion: finding.criterion,
+        level: criterion.level,
+        principle: criterion.principle,
+        version: '2.1' as const,
+        title: criterion.title,
+      },
+      location: {
+        selector: finding.selector,
+        snippet: finding.snippet?.substring(0, 500),
+        file: context.targetFile,
+      },
+      message: finding.detail ? `${rule.message}: ${finding.detail}` : rule.message,
+      confidence: rule.confidence,
+      rawResult: { path: finding.path, role: finding.role },
+    };
+
+    return this.enrichWithHumanContext(baseIssue) as AccessibilityIssue;
+  }
+}
+
+export const accessibilityTreeNormalizer = new AccessibilityTreeNormalizer();
@@ -0,0 +1,132 @@
+import type { Severity, WCAGLevel, WCAGPrinciple } from '@/shared/types/accessibility.js';
+import type { AccessibilityTreeRuleId } from './accessibility-tree.type.js';
+
+export interface AccessibilityTreeRule {
+  severity: Severity;
+  confidence: number;
+  message: string;
+}
+
+export const ACCESSIBILITY_TREE_RULES: Record<AccessibilityTreeRuleId, AccessibilityTreeRule> = {
+  'empty-accessible-name': {
+    severity: 'serious',
+    confidence: 0.9,
+    message: 'Element is announced without a name',
+  },
+  'generic-wraps-interactive': {
+    severity: 'moderate',
+    confidence: 0.7,
+    message: 'Named generic element wraps interactive content; the name is not announced reliably',
+  },
+  'duplicate-landmark': {
+    severity: 'moderate',
+    confidence: 0.9,
+    message: 'Landmark is duplicated without a distinguishing name',
+  },
+};
+
+export const TREE_CRITERIA: Record<
+  string,
+  { level: WCAGLevel; principle: WCAGPrinciple; title: string }
+> = {
+  '1.1.1': { level: 'A', principle: 'perceivable', title: 'Non-text Content' },
+  '1.3.1': { level: 'A', principle: 'perceivable', title: 'Info and Relationships' },
+  '2.4.4': { level: 'A', principle: 'operable', title: 'Link Purpose (In Context)' },
+  '4.1.2': { level: 'A', principle: 'robust', title: 'Name, Role, Value' },
+};
+
+/** Roles that must have an accessible name, mapped to the criterion an empty name fails. */
+export const NAMED_ROLES: Record<string, string> = {
+  button: '4.1.2',
+  link: '2.4.4',
+  image: '1.1.1',
+  img: '1.1.1',
+  checkbox: '4.1.2',
+  radio: '4.1.2',
+  switch: '4.1.2',
+  textbox: '4.1.2',
+  searchbox: '4.1.2',
+  combobox: '4.1.2',
+  listbox: '4.1.2',
+  slider: '4.1.2',
+  spinbutton: '4.1.2',
+  menuitem: '4.1.2',
+  menuitemcheckbox: '4.1.2',
+  menuitemradio: '4.1.2',
+  tab: '4.1.2',
+  treeitem: '4.1.2',
+  option: '4.1.2',
+  dialog: '4.1.2',
+  alertdialog: '4.1.2',
+  heading: '1.3.1',
+  Iframe: '4.1.2',
+};
+
+export const INTERACTIVE_ROLES = new Set([
+  'button',
+  'link',
+  'checkbox',
+  'radio',
+  'switch',
+  'textbox',
+  'searchbox',
+  'combobox',
+  'listbox',
+  'slider',
+  'spinbutton',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'tab',
+  'treeitem',
+  'option',
+]);
+
+export const LANDMARK_ROLES = new Set([
+  'banner',
+  'complementary',
+  'contentinfo',
+  'form',
+  'main',
+  'navigation',
+  'region',
+  'search',
+]);
+
+/** Landmarks that should appear once per page, whatever their names. */
+export const UNIQUE_LANDMARK_ROLES = new Set(['banner', 'contentinfo', 'main']);
+
+export const GENERIC_ROLES = new Set(['generic', 'none', 'presentation']);
+
+/** Roles screen readers do not announce when browsing; only their content is read. */
+export const SILENT_ROLES = new Set([
+  ...GENERIC_ROLES,
+  'paragraph',
+  'LineBreak',
+  'InlineTextBox',
+  'LayoutTable',
+  'LayoutTableRow',
+  'LayoutTableCell',
+]);
+
+/** Roles whose name is computed from their text content. */
+export const NAME_FROM_CONTENT_ROLES = new Set([
+  'button',
+  'link',
+  'heading',
+  'checkbox',
+  'radio',
+  'switch',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'tab',
+  'treeitem',
+  'option',
+  'cell',
+  'columnheader',
+  'rowheader',
+  'tooltip',
+]);
+
+export const TEXT_ROLES = new Set(['StaticText', 'text']);
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { AnalysisResultSchema, type AnalysisResult } from '@/shared/types/accessibility.js';
+import {
+  BackgroundSchema,
+  BrowserOptionsSchema,
+  OutputFormatSchema,
+} from '@/tools/Base/types/base.types.js';
+
+export const AccessibilityTreeBrowserOptionsSchema = BrowserOptionsSchema.omit({
+  states: true,
+  viewports: true,
+});
+
+export const AccessibilityTreeToolInputSchema = z
+  .object({
+    url: z.string().url().optional().describe('URL of the page to inspect'),
+    html: z.string().min(1).optional().describe('Raw HTML content to inspect'),
+    background: BackgroundSchema,
+    options: z
+      .object({
+        selector: z
+          .string()
+          .optional()
+          .describe('CSS selector of the element whose subtree is captured'),
+        interestingOnly: z
+          .boolean()
+          .optional()
+          .describe('Drop nodes that assistive technology ignores, as Chrome does. Default: true'),
+        outputFormat: OutputFormatSchema.default('json'),
+        browser: AccessibilityTreeBrowserOptionsSchema.optional(),
+      })
+      .optional(),
+  })
+  .refine((data) => data.url !== undefined || data.html !== undefined, {
+    message: 'Either url or html must be provided',
+  })
+  .refine((data) => !(data.url !== undefined && data.html !== undefined), {
+    message: 'Provide either url or html, not both',
+  })
+  .describe('Input for accessibility tree inspection');
+
+export interface AccessibilityNode {
+  path: string;
+  role: string;
+  name?: string | undefined;
+  description?: string | undefined;
+  value?: string | number | undefined;
+  level?: number | undefined;
+  states?: string[] | undefined;
+  children?: AccessibilityNode[] | undefined;
+}
+
+export const AccessibilityNodeSchema: z.ZodType<AccessibilityNode> = z
+  .lazy(() =>
+    z.object({
+      path: z.string().describe('Position in the tree, e.g. "0.2.1"'),
+      role: z.string(),
+      name: z.string().optional(),
+      description: z.string().optional(),
+      value: z.union([z.string(), z.number()]).optional(),
+      level: z.number().int().optional(),
+      states: z
+        .array(z.string())
+        .optional()
+        .describe('States announced by screen readers, e.g. "expanded", "checked"'),
+      children: z.array(AccessibilityNodeSchema).optional(),
+    })
+  )
+  .describe('Node of the accessibility tree as exposed to assistive technology');
+
+export const AccessibilityTreeStatsSchema = z
+  .object({
+    nodes: z.number().int().nonnegative(),
+    interactive: z.number().int().nonnegative(),
+    landmarks: z.record(z.string(), z.number().int().nonnegative()),
+  })
+  .describe('Counts of nodes in the captured tree');
+
+export const AccessibilityTreeResultSchema = AnalysisResultSchema.extend({
+  tree: AccessibilityNodeSchema.nullable().describe('Captured tree, null if nothing is exposed'),
+  transcript: z
+    .array(z.string())
+    .describe('Linear reading order, one line per announcement, as a screen reader would browse'),
+  stats: AccessibilityTreeStatsSchema.optional(),
+}).describe('Result of an accessibility tree inspection');
+
+export type AccessibilityTreeToolInput = z.infer<typeof AccessibilityTreeToolInputSchema>;
+export type AccessibilityTreeStats = z.infer<typeof AccessibilityTreeStatsSchema>;
+export type AccessibilityTreeResult = z.infer<typeof AccessibilityTreeResultSchema>;
+
+export type AccessibilityTreeRuleId =
+  | 'empty-accessible-name'
+  | 'generic-wraps-interactive'
+  | 'duplicate-landmark';
+
+/**
+ * Subset of Puppeteer's SerializedAXNode used to build the tree, without
+ * the element handle so it can be built from plain data.
+ */
+export interface RawAXNode {
+  role: string;
+  name?: string;
+  description?: string;
+  value?: string | number;
+  level?: number;
+  disabled?: boolean;
+  expanded?: boolean;
+  focused?: boolean;
+  modal?: boolean;
+  multiselectable?: boolean;
+  readonly?: boolean;
+  required?: boolean;
+  selected?: boolean;
+  checked?: boolean | 'mixed';
+  pressed?: boolean | 'mixed';
+  invalid?: string;
+  haspopup?: string;
+  children?: RawAXNode[];
+}
+
+export interface TreeFinding {
+  ruleId: AccessibilityTreeRuleId;
+  path: string;
+  role: string;
+  criterion: string;
+  selector?: string | undefined;
+  snippet?: string | undefined;
+  detail?: string | undefined;
+}
+
+export interface AccessibilityTreeToolOutput {
+  success: boolean;
+  target: string;
+  issueCount: number;
+  issues: AnalysisResult['issues'];
+  summary: AnalysisResult['summary'];
+  transcript: string[];
+  tree: AccessibilityNode | null;
+  stats?: AccessibilityTreeStats | undefined;
+  duration?: number | undefined;
+  error?: string | undefined;
+}
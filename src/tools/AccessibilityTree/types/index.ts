@@ -0,0 +1,2 @@
+export * from './accessibility-tree.type.js';
+export * from './accessibility-tree.maps.js';
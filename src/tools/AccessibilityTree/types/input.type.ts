@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { BaseToolInputSchema, OutputFormatSchema } from '@/tools/Base/types/base.types.js';
+import { AccessibilityTreeBrowserOptionsSchema } from './accessibility-tree.type.js';
+
+export const AccessibilityTreeToolMcpInputSchema = BaseToolInputSchema.extend({
+  options: z
+    .object({
+      selector: z
+        .string()
+        .optional()
+        .describe('CSS selector of the element whose subtree is captured'),
+      interestingOnly: z
+        .boolean()
+        .optional()
+        .describe('Drop nodes that assistive technology ignores, as Chrome does. Default: true'),
+      outputFormat: OutputFormatSchema.default('json'),
+      browser: AccessibilityTreeBrowserOptionsSchema.optional(),
+    })
+    .optional(),
+});
@@ -0,0 +1,296 @@
+import type { AnalysisTarget } from '@/shared/types/analysis.js';
+import { applyProjectTarget, getIgnoredRules } from '@/shared/config/index.js';
+import {
+  GENERIC_ROLES,
+  INTERACTIVE_ROLES,
+  LANDMARK_ROLES,
+  NAMED_ROLES,
+  NAME_FROM_CONTENT_ROLES,
+  SILENT_ROLES,
+  TEXT_ROLES,
+  UNIQUE_LANDMARK_ROLES,
+  type AccessibilityNode,
+  type AccessibilityTreeResult,
+  type AccessibilityTreeStats,
+  type AccessibilityTreeToolInput,
+  type AccessibilityTreeToolOutput,
+  type RawAXNode,
+  type TreeFinding,
+} from '../types/index.js';
+
+export interface AccessibilityTreeBuildOptions {
+  selector?: string;
+  interestingOnly: boolean;
+  excludeRules?: string[];
+}
+
+export function buildAnalysisTarget(input: AccessibilityTreeToolInput): AnalysisTarget {
+  if (input.url) {
+    return applyProjectTarget({
+      type: 'url',
+      value: input.url,
+      options: {
+        waitForSelector: input.options?.browser?.waitForSelector,
+        timeout: input.options?.browser?.waitForTimeout,
+        viewport: input.options?.browser?.viewport,
+        ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+        authentication: input.options?.browser?.authentication,
+        actions: input.options?.browser?.actions,
+      },
+    });
+  }
+
+  return applyProjectTarget({
+    type: 'html',
+    value: input.html!,
+    options: {
+      waitForSelector: input.options?.browser?.waitForSelector,
+      timeout: input.options?.browser?.waitForTimeout,
+      viewport: input.options?.browser?.viewport,
+      ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+      authentication: input.options?.browser?.authentication,
+      actions: input.options?.browser?.actions,
+    },
+  });
+}
+
+export function buildAnalysisOptions(
+  input: AccessibilityTreeToolInput
+): AccessibilityTreeBuildOptions {
+  const options: AccessibilityTreeBuildOptions = {
+    interestingOnly: input.options?.interestingOnly ?? true,
+  };
+  if (input.options?.selector !== undefined) {
+    options.selector = input.options.selector;
+  }
+  const ignoredRules = getIgnoredRules('accessibility-tree', input.url).map((rule) => rule.ruleId);
+  if (ignoredRules.length > 0) {
+    options.excludeRules = ignoredRules;
+  }
+  return options;
+}
+
+export function formatOutput(result: AccessibilityTreeResult): AccessibilityTreeToolOutput {
+  return {
+    success: result.success,
+    target: result.target,
+    issueCount: result.issues.length,
+    issues: result.issues,
+    summary: result.summary,
+    transcript: result.transcript,
+    tree: result.tree,
+    stats: result.stats,
+    duration: result.duration,
+    error: result.error,
+  };
+}
+
+function toStates(node: RawAXNode): string[] {
+  const states: string[] = [];
+
+  if (node.disabled) states.push('disabled');
+  if (node.expanded !== undefined) states.push(node.expanded ? 'expanded' : 'collapsed');
+  if (node.checked !== undefined) {
+    states.push(
+      node.checked === 'mixed' ? 'partially checked' : node.checked ? 'checked' : 'not checked'
+    );
+  }
+  if (node.pressed !== undefined) {
+    states.push(
+      node.pressed === 'mixed' ? 'partially pressed' : node.pressed ? 'pressed' : 'not pressed'
+    );
+  }
+  if (node.selected) states.push('selected');
+  if (node.required) states.push('required');
+  if (node.readonly) states.push('read only');
+  if (node.invalid && node.invalid !== 'false') states.push('invalid entry');
+  if (node.haspopup && node.haspopup !== 'false') states.push(`has popup ${node.haspopup}`);
+  if (node.multiselectable) states.push('multi-selectable');
+  if (node.modal) states.push('modal');
+  if (node.focused) states.push('focused');
+
+  return states;
+}
+
+export function toAccessibilityNode(raw: RawAXNode, path = '0'): AccessibilityNode {
+  const states = toStates(raw);
+  const name = raw.name?.trim();
+  const description = raw.description?.trim();
+
+  return {
+    path,
+    role: raw.role,
+    ...(name && { name }),
+    ...(description && { description }),
+    ...(raw.value !== undefined && raw.value !== '' && { value: raw.value }),
+    ...(raw.level !== undefined && { level: raw.level }),
+    ...(states.length > 0 && { states }),
+    ...(raw.children?.length && {
+      children: raw.children.map((child, index) => toAccessibilityNode(child, `${path}.${index}`)),
+    }),
+  };
+}
+
+function* walk(node: AccessibilityNode): Generator<AccessibilityNode> {
+  yield node;
+  for (const child of node.children ?? []) {
+    yield* walk(child);
+  }
+}
+
+export function findNode(tree: AccessibilityNode, path: string): AccessibilityNode | undefined {
+  for (const node of walk(tree)) {
+    if (node.path === path) return node;
+  }
+  return undefined;
+}
+
+export function calculateTreeStats(tree: AccessibilityNode | null): AccessibilityTreeStats {
+  const stats: AccessibilityTreeStats = { nodes: 0, interactive: 0, landmarks: {} };
+  if (!tree) return stats;
+
+  for (const node of walk(tree)) {
+    stats.nodes++;
+    if (INTERACTIVE_ROLES.has(node.role)) stats.interactive++;
+    if (LANDMARK_ROLES.has(node.role)) {
+      stats.landmarks[node.role] = (stats.landmarks[node.role] ?? 0) + 1;
+    }
+  }
+
+  return stats;
+}
+
+function describeNode(node: AccessibilityNode): string {
+  if (node.role === 'RootWebArea') {
+    return ['document', node.name].filter(Boolean).join(', ');
+  }
+
+  const role = LANDMARK_ROLES.has(node.role)
+    ? `${node.role} landmark`
+    : node.level !== undefined && node.role === 'heading'
+      ? `heading level ${node.level}`
+      : node.role;
+  const name = node.name ?? (node.role in NAMED_ROLES ? '(no name)' : undefined);
+
+  return [role, name, node.value?.toString(), ...(node.states ?? []), node.description]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Flattens the tree into the lines a screen reader announces in browse
+ * mode. Generic containers are skipped, and text already announced as the
+ * name of its control is not repeated.
+ */
+export function buildTranscript(tree: AccessibilityNode | null): string[] {
+  const lines: string[] = [];
+
+  function visit(node: AccessibilityNode, announcedName: string | undefined): void {
+    if (TEXT_ROLES.has(node.role)) {
+      if (node.name && !announcedName?.includes(node.name)) {
+        lines.push(node.name);
+      }
+      return;
+    }
+
+    const silent = SILENT_ROLES.has(node.role) && !node.name;
+    if (!silent) {
+      lines.push(describeNode(node));
+    }
+
+    const childName = NAME_FROM_CONTENT_ROLES.has(node.role) ? node.name : announcedName;
+    for (const child of node.children ?? []) {
+      visit(child, childName);
+    }
+  }
+
+  if (tree) visit(tree, undefined);
+  return lines;
+}
+
+function hasInteractiveDescendant(node: AccessibilityNode): boolean {
+  return (node.children ?? []).some(
+    (child) => INTERACTIVE_ROLES.has(child.role) || hasInteractiveDescendant(child)
+  );
+}
+
+export function findEmptyNames(tree: AccessibilityNode): TreeFinding[] {
+  const findings: TreeFinding[] = [];
+
+  for (const node of walk(tree)) {
+    const criterion = NAMED_ROLES[node.role];
+    if (criterion && !node.name) {
+      findings.push({
+        ruleId: 'empty-accessible-name',
+        path: node.path,
+        role: node.role,
+        criterion,
+        detail: `announced as "${describeNode(node)}"`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+export function findGenericWrappers(tree: AccessibilityNode): TreeFinding[] {
+  const findings: TreeFinding[] = [];
+
+  for (const node of walk(tree)) {
+    if (GENERIC_ROLES.has(node.role) && node.name && hasInteractiveDescendant(node)) {
+      findings.push({
+        ruleId: 'generic-wraps-interactive',
+        path: node.path,
+        role: node.role,
+        criterion: '4.1.2',
+        detail: `"${node.name}" is set on a ${node.role} container instead of the control or a group`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+export function findDuplicateLandmarks(tree: AccessibilityNode): TreeFinding[] {
+  const findings: TreeFinding[] = [];
+  const seen = new Map<string, number>();
+
+  for (const node of walk(tree)) {
+    if (!LANDMARK_ROLES.has(node.role)) continue;
+
+    const key = UNIQUE_LANDMARK_ROLES.has(node.role)
+      ? node.role
+      : `${node.role}:${(node.name ?? '').toLowerCase()}`;
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+
+    if (count > 1) {
+      findings.push({
+        ruleId: 'duplicate-landmark',
+        path: node.path,
+        role: node.role,
+        criterion: '1.3.1',
+        detail: UNIQUE_LANDMARK_ROLES.has(node.role)
+          ? `${count} ${node.role} landmarks on the page`
+          : `${count} ${node.role} landmarks named "${node.name ?? ''}"`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+export function detectTreeIssues(
+  tree: AccessibilityNode | null,
+  excludeRules: string[] = []
+): TreeFinding[] {
+  if (!tree) return [];
+
+  const excluded = new Set(excludeRules);
+
+  return [
+    ...findEmptyNames(tree),
+    ...findGenericWrappers(tree),
+    ...findDuplicateLandmarks(tree),
+  ].filter((finding) => !excluded.has(finding.ruleId));
+}
@@ -0,0 +1 @@
+export * from './accessibility-tree.utils.js';
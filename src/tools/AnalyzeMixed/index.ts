@@ -1,2 +1,14 @@
-export { analyzeMixedTool, disposeAnalyzeMixedAdapters } from './main.js';
-export { CombinedAnalysisInputSchema, type CombinedAnalysisInput, type CombinedToolOutput } from './types/index.js';
+export {
+  analyzeMixedTool,
+  runCombinedAnalysis,
+  type WebAnalysisTool,
+  type CombinedAnalysisRun,
+  type CombinedAnalysisRunOptions,
+} from './main.js';
+export {
+  CombinedAnalysisInputSchema,
+  MixedToolSchema,
+  type CombinedAnalysisInput,
+  type CombinedToolOutput,
+  type MixedTool,
+} from './types/index.js';
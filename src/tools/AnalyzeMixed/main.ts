@@ -1,231 +1,604 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Page } from 'puppeteer';
 import { z } from 'zod';
 import { AxeAdapter } from '../Axe/adapters/index.js';
 import { Pa11yAdapter } from '../Pa11y/adapters/index.js';
 import { LighthouseAdapter } from '../Lighthouse/adapters/index.js';
-import { CombinedAnalysisInputSchema, type CombinedAnalysisInput } from './types/index.js';
-import type { AnalysisResult, CombinedAnalysisResult, ToolSource } from '@/shared/types/accessibility.js';
+import { ContrastAdapter } from '../Contrast/adapters/index.js';
+import { AccessibilityTreeAdapter } from '../AccessibilityTree/adapters/index.js';
+import {
+  CombinedAnalysisInputSchema,
+  MixedToolSchema,
+  type CombinedAnalysisInput,
+  type MixedTool,
+} from './types/index.js';
+import type {
+  AccessibilityIssue,
+  AnalysisResult,
+  CombinedAnalysisResult,
+  PageSnapshot,
+  ToolSource,
+} from '@/shared/types/accessibility.js';
+import type { AnalysisTarget, AnalysisOptions } from '@/shared/types/analysis.js';
+import { AuthenticationSchema } from '@/shared/types/authentication.js';
+import { InteractionActionsSchema, InteractionStatesSchema } from '@/shared/types/interaction.js';
+import { ViewportsSchema, resolveViewport } from '@/shared/types/viewport.js';
+import { ScreenshotOptionsSchema } from '@/shared/types/screenshot.js';
+import {
+  analyzeInStates,
+  closeTargetPage,
+  compareViewports,
+  getBrowserPool,
+  loadTarget,
+  mergeAnalysisSummaries,
+  mergeStateResults,
+  mergeViewportResults,
+  openTargetPage,
+  resolveAuthSession,
+  toPageViewport,
+  toStateTarget,
+  toViewportTarget,
+  type BrowserLaunchOptions,
+  type StateRun,
+  type ViewportRun,
+} from '@/shared/browser/index.js';
+import { applyIgnoredRules, getAdapterSettings } from '@/shared/config/index.js';
 import {
   buildAnalysisTarget,
   buildAnalysisOptions,
+  buildContrastOptions,
   deduplicateIssues,
+  fromContrastResult,
   groupByWCAG,
   buildCombinedSummary,
   formatOutput,
+  saveHtmlReport,
 } from './utils/index.js';
 import {
+  type ToolContent,
   type ToolDefinition,
   type ToolResponse,
-  createJsonResponse,
+  type ToolExecutionContext,
   createErrorResponse,
+  createFormattedResponse,
+  extractScreenshotContent,
   withToolContext,
+  BackgroundSchema,
+  OutputFormatSchema,
 } from '../Base/index.js';
 
-let sharedAxeAdapter: AxeAdapter | null = null;
-let sharedPa11yAdapter: Pa11yAdapter | null = null;
-let sharedLighthouseAdapter: LighthouseAdapter | null = null;
-let currentAxeIgnoreHTTPS = false;
-let currentPa11yIgnoreHTTPS = false;
-let currentLighthouseIgnoreHTTPS = false;
-
-function getAxeAdapter(ignoreHTTPSErrors = false): AxeAdapter {
-  if (!sharedAxeAdapter || currentAxeIgnoreHTTPS !== ignoreHTTPSErrors) {
-    if (sharedAxeAdapter) {
-      sharedAxeAdapter.dispose().catch(() => {});
-    }
-    sharedAxeAdapter = new AxeAdapter({
-      headless: true,
-      timeout: 30000,
+// Adapters only hold launch options for the shared browser pool, so each
+// analysis builds its own: concurrent jobs with different ignoreHTTPSErrors
+// settings never replace or dispose each other's adapters.
+
+function createAxeAdapter(ignoreHTTPSErrors: boolean): AxeAdapter {
+  return new AxeAdapter({
+    headless: true,
+    timeout: getAdapterSettings('axe-core').timeout ?? 30000,
+    ignoreHTTPSErrors
+  });
+}
+
+function createPa11yAdapter(ignoreHTTPSErrors: boolean): Pa11yAdapter {
+  return new Pa11yAdapter({
+    timeout: getAdapterSettings('pa11y').timeout ?? 30000,
+    chromeLaunchConfig: {
       ignoreHTTPSErrors
-    });
-    currentAxeIgnoreHTTPS = ignoreHTTPSErrors;
+    }
+  });
+}
+
+function createLighthouseAdapter(ignoreHTTPSErrors: boolean): LighthouseAdapter {
+  return new LighthouseAdapter({
+    headless: true,
+    timeout: getAdapterSettings('lighthouse').timeout ?? 60000,
+    ignoreHTTPSErrors,
+  });
+}
+
+function createContrastAdapter(ignoreHTTPSErrors: boolean): ContrastAdapter {
+  return new ContrastAdapter({
+    headless: true,
+    timeout: getAdapterSettings('contrast-analyzer').timeout ?? 30000,
+    ignoreHTTPSErrors,
+  });
+}
+
+function createTreeAdapter(ignoreHTTPSErrors: boolean): AccessibilityTreeAdapter {
+  return new AccessibilityTreeAdapter({
+    headless: true,
+    timeout: getAdapterSettings('accessibility-tree').timeout ?? 30000,
+    ignoreHTTPSErrors,
+  });
+}
+
+export type WebAnalysisTool = MixedTool;
+
+const TOOL_LABELS: Record<WebAnalysisTool, string> = {
+  'axe-core': 'Axe',
+  'pa11y': 'Pa11y',
+  'lighthouse': 'Lighthouse',
+  'contrast-analyzer': 'Contrast',
+  'accessibility-tree': 'Accessibility tree',
+};
+
+/**
+ * Order of the tools on a shared page. Read-only DOM checks go first; Pa11y
+ * injects HTML_CodeSniffer and Lighthouse attaches its own instrumentation,
+ * so they run last.
+ */
+const SINGLE_RENDER_ORDER: WebAnalysisTool[] = [
+  'axe-core',
+  'contrast-analyzer',
+  'accessibility-tree',
+  'pa11y',
+  'lighthouse',
+];
+
+export interface CombinedAnalysisRunOptions {
+  tools: WebAnalysisTool[];
+  deduplicate: boolean;
+  ignoreHTTPSErrors: boolean;
+  singleRender?: boolean | undefined;
+  logger: ToolExecutionContext['logger'];
+  /** Called each time a tool finishes, e.g. to send progress notifications. */
+  onProgress?: ((completed: number, total: number, message: string) => void) | undefined;
+}
+
+export interface CombinedAnalysisRun {
+  result: CombinedAnalysisResult;
+  originalCount: number;
+  issuesByWCAG: Record<string, AccessibilityIssue[]>;
+}
+
+interface ToolRunOutcome {
+  results: AnalysisResult[];
+  errors: string[];
+}
+
+type ToolDoneListener = (tool: WebAnalysisTool) => void;
+
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function analyzeWithTool(
+  tool: WebAnalysisTool,
+  target: AnalysisTarget,
+  options: AnalysisOptions,
+  ignoreHTTPSErrors: boolean
+): Promise<AnalysisResult> {
+  const targetUrl = target.type === 'url' ? target.value : undefined;
+  const toolOptions = applyIgnoredRules(options, tool, targetUrl);
+
+  switch (tool) {
+    case 'axe-core': {
+      const adapter = createAxeAdapter(ignoreHTTPSErrors);
+      return analyzeInStates(
+        target,
+        stateTarget => adapter.analyze(stateTarget, toolOptions),
+        mergeAnalysisSummaries
+      );
+    }
+    case 'pa11y': {
+      const adapter = createPa11yAdapter(ignoreHTTPSErrors);
+      return analyzeInStates(
+        target,
+        stateTarget => adapter.analyze(stateTarget, toolOptions),
+        mergeAnalysisSummaries
+      );
+    }
+    case 'lighthouse': {
+      const adapter = createLighthouseAdapter(ignoreHTTPSErrors);
+      return analyzeInStates(
+        target,
+        stateTarget => adapter.analyze(stateTarget, toolOptions),
+        mergeAnalysisSummaries
+      );
+    }
+    case 'contrast-analyzer': {
+      const adapter = createContrastAdapter(ignoreHTTPSErrors);
+      return analyzeInStates(
+        target,
+        async stateTarget =>
+          fromContrastResult(await adapter.analyze(stateTarget, buildContrastOptions(toolOptions))),
+        mergeAnalysisSummaries
+      );
+    }
+    case 'accessibility-tree': {
+      const adapter = createTreeAdapter(ignoreHTTPSErrors);
+      return analyzeInStates(
+        target,
+        stateTarget => adapter.analyze(stateTarget, { excludeRules: toolOptions.excludeRules }),
+        mergeAnalysisSummaries
+      );
+    }
   }
-  return sharedAxeAdapter;
 }
 
-function getPa11yAdapter(ignoreHTTPSErrors = false): Pa11yAdapter {
-  if (!sharedPa11yAdapter || currentPa11yIgnoreHTTPS !== ignoreHTTPSErrors) {
-    if (sharedPa11yAdapter) {
-      sharedPa11yAdapter.dispose().catch(() => {});
+async function analyzeRenderedPage(
+  tool: WebAnalysisTool,
+  page: Page,
+  target: AnalysisTarget,
+  options: AnalysisOptions,
+  snapshot: PageSnapshot,
+  ignoreHTTPSErrors: boolean
+): Promise<AnalysisResult> {
+  const targetUrl = target.type === 'url' ? target.value : undefined;
+  const toolOptions = applyIgnoredRules(options, tool, targetUrl);
+
+  switch (tool) {
+    case 'axe-core':
+      return createAxeAdapter(ignoreHTTPSErrors).analyzePage(page, target, toolOptions, snapshot);
+    case 'pa11y':
+      return createPa11yAdapter(ignoreHTTPSErrors).analyzePage(page, target, toolOptions, snapshot);
+    case 'lighthouse':
+      return createLighthouseAdapter(ignoreHTTPSErrors).analyzePage(
+        page,
+        target,
+        toolOptions,
+        snapshot
+      );
+    case 'contrast-analyzer':
+      return fromContrastResult(
+        await createContrastAdapter(ignoreHTTPSErrors).analyzePage(
+          page,
+          target,
+          buildContrastOptions(toolOptions),
+          snapshot
+        )
+      );
+    case 'accessibility-tree':
+      return createTreeAdapter(ignoreHTTPSErrors).analyzePage(
+        page,
+        target,
+        { excludeRules: toolOptions.excludeRules },
+        snapshot
+      );
+  }
+}
+
+async function runSeparately(
+  target: AnalysisTarget,
+  options: AnalysisOptions,
+  run: CombinedAnalysisRunOptions,
+  onToolDone: ToolDoneListener
+): Promise<ToolRunOutcome> {
+  const { tools: toolsToRun, ignoreHTTPSErrors, logger } = run;
+  const results: AnalysisResult[] = [];
+  const errors: string[] = [];
+
+  const analysisPromises = toolsToRun.map(async tool => {
+    const label = TOOL_LABELS[tool];
+
+    if (tool === 'lighthouse' && target.type !== 'url') {
+      errors.push('Lighthouse: Only URL targets are supported. Provide a url instead of html.');
+      logger.warn('Lighthouse skipped: no URL provided');
+      onToolDone(tool);
+      return;
+    }
+
+    try {
+      const result = await analyzeWithTool(tool, target, options, ignoreHTTPSErrors);
+      results.push(result);
+      logger.debug(`${label} analysis completed`, { issueCount: result.issues.length });
+    } catch (error) {
+      errors.push(`${label}: ${toErrorMessage(error)}`);
+      logger.error(`${label} analysis failed`, {
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+    }
+
+    onToolDone(tool);
+  });
+
+  await Promise.all(analysisPromises);
+
+  return { results, errors };
+}
+
+async function renderOnce(
+  target: AnalysisTarget,
+  options: AnalysisOptions,
+  run: CombinedAnalysisRunOptions,
+  onToolDone: ToolDoneListener
+): Promise<AnalysisResult[]> {
+  const { tools: toolsToRun, ignoreHTTPSErrors, logger } = run;
+  const launch: BrowserLaunchOptions = {
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    ignoreHTTPSErrors,
+  };
+  const lease = await getBrowserPool().acquire(launch);
+  let page: Page | null = null;
+
+  try {
+    page = await openTargetPage(lease.browser, target);
+
+    if (target.options?.viewport) {
+      await page.setViewport(toPageViewport(target.options.viewport));
     }
-    sharedPa11yAdapter = new Pa11yAdapter({
-      timeout: 30000,
-      chromeLaunchConfig: {
+
+    const timeout = getAdapterSettings('axe-core').timeout ?? 30000;
+    const snapshot = await loadTarget(page, target, timeout);
+    logger.debug('Page rendered for all tools', { snapshot: snapshot.id, url: snapshot.url });
+
+    const results: AnalysisResult[] = [];
+    for (const tool of SINGLE_RENDER_ORDER.filter(tool => toolsToRun.includes(tool))) {
+      const result = await analyzeRenderedPage(
+        tool,
+        page,
+        target,
+        options,
+        snapshot,
         ignoreHTTPSErrors
-      }
-    });
-    currentPa11yIgnoreHTTPS = ignoreHTTPSErrors;
+      );
+      results.push(result);
+      logger.debug(`${TOOL_LABELS[tool]} analysis completed`, {
+        issueCount: result.issues.length,
+        snapshot: snapshot.id
+      });
+      onToolDone(tool);
+    }
+
+    return results;
+  } finally {
+    if (page) {
+      await closeTargetPage(page);
+    }
+    await lease.release();
   }
-  return sharedPa11yAdapter;
 }
 
-function getLighthouseAdapter(ignoreHTTPSErrors = false): LighthouseAdapter {
-  if (!sharedLighthouseAdapter || currentLighthouseIgnoreHTTPS !== ignoreHTTPSErrors) {
-    if (sharedLighthouseAdapter) {
-      sharedLighthouseAdapter.dispose().catch(() => {});
+/**
+ * Loads the page once per UI state and runs every tool against that page,
+ * so all results describe the same render. Lighthouse takes a snapshot of
+ * the loaded page instead of navigating, which also lets it analyze html.
+ */
+async function runSingleRender(
+  target: AnalysisTarget,
+  options: AnalysisOptions,
+  run: CombinedAnalysisRunOptions,
+  onToolDone: ToolDoneListener
+): Promise<ToolRunOutcome> {
+  const states = target.options?.states;
+
+  if (!states || states.length === 0) {
+    try {
+      return { results: await renderOnce(target, options, run, onToolDone), errors: [] };
+    } catch (error) {
+      run.logger.error('Page render failed', {
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      return { results: [], errors: [`Render: ${toErrorMessage(error)}`] };
     }
-    sharedLighthouseAdapter = new LighthouseAdapter({
-      headless: true,
-      timeout: 60000,
-      ignoreHTTPSErrors,
+  }
+
+  const runsByTool = new Map<ToolSource, Array<StateRun<AnalysisResult>>>();
+  const errors: string[] = [];
+
+  for (const state of states) {
+    run.logger.info('Rendering UI state', { state: state.name });
+
+    try {
+      const stateTarget = toStateTarget(target, state);
+      for (const result of await renderOnce(stateTarget, options, run, onToolDone)) {
+        const runs = runsByTool.get(result.tool) ?? [];
+        runsByTool.set(result.tool, [...runs, { state: state.name, result }]);
+      }
+    } catch (error) {
+      errors.push(`Render (${state.name}): ${toErrorMessage(error)}`);
+      run.logger.error('Page render failed', {
+        state: state.name,
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+    }
+  }
+
+  const results = [...runsByTool.values()].map(runs =>
+    mergeStateResults(runs, mergeAnalysisSummaries)
+  );
+  return { results, errors };
+}
+
+/**
+ * Runs the tools once per viewport and merges each tool's results, so
+ * individual results stay one per tool with issues tagged by viewport.
+ */
+async function runInViewports(
+  target: AnalysisTarget,
+  run: CombinedAnalysisRunOptions,
+  runTools: (viewportTarget: AnalysisTarget) => Promise<ToolRunOutcome>
+): Promise<ToolRunOutcome> {
+  const viewports = target.options?.viewports;
+
+  if (!viewports || viewports.length === 0) {
+    return runTools(target);
+  }
+
+  const runsByTool = new Map<ToolSource, Array<ViewportRun<AnalysisResult>>>();
+  const errors: string[] = [];
+
+  for (const viewport of viewports.map(resolveViewport)) {
+    run.logger.info('Analyzing viewport', {
+      viewport: viewport.name,
+      width: viewport.width,
+      height: viewport.height
     });
-    currentLighthouseIgnoreHTTPS = ignoreHTTPSErrors;
+
+    const outcome = await runTools(toViewportTarget(target, viewport));
+    for (const result of outcome.results) {
+      const runs = runsByTool.get(result.tool) ?? [];
+      runsByTool.set(result.tool, [...runs, { viewport: viewport.name, result }]);
+    }
+    errors.push(...outcome.errors.map(error => `${viewport.name}: ${error}`));
   }
-  return sharedLighthouseAdapter;
+
+  const results = [...runsByTool.values()].map(runs =>
+    mergeViewportResults(runs, mergeAnalysisSummaries)
+  );
+  return { results, errors };
 }
 
-async function disposeAdapters(): Promise<void> {
-  await Promise.all([
-    sharedAxeAdapter?.dispose(),
-    sharedPa11yAdapter?.dispose(),
-    sharedLighthouseAdapter?.dispose(),
-  ]);
-  sharedAxeAdapter = null;
-  sharedPa11yAdapter = null;
-  sharedLighthouseAdapter = null;
+export async function runCombinedAnalysis(
+  analysisTarget: AnalysisTarget,
+  options: AnalysisOptions,
+  run: CombinedAnalysisRunOptions
+): Promise<CombinedAnalysisRun> {
+  const startTime = Date.now();
+  const { tools: toolsToRun, deduplicate: shouldDeduplicate, ignoreHTTPSErrors, logger } = run;
+  const renderMode = run.singleRender ? 'single' : 'separate';
+
+  const target = await resolveAuthSession(analysisTarget, {
+    ignoreHTTPSErrors,
+    timeout: getAdapterSettings('axe-core').timeout ?? 30000
+  });
+
+  const viewports = target.options?.viewports?.map(resolveViewport) ?? [];
+  const renders = run.singleRender ? Math.max(target.options?.states?.length ?? 0, 1) : 1;
+  const totalSteps = toolsToRun.length * renders * Math.max(viewports.length, 1);
+  let completedSteps = 0;
+  const onToolDone: ToolDoneListener = tool => {
+    completedSteps++;
+    run.onProgress?.(completedSteps, totalSteps, `${TOOL_LABELS[tool]} finished`);
+  };
+
+  const { results, errors } = await runInViewports(target, run, viewportTarget =>
+    run.singleRender
+      ? runSingleRender(viewportTarget, options, run, onToolDone)
+      : runSeparately(viewportTarget, options, run, onToolDone)
+  );
+
+  const allIssues = results.flatMap(r => r.issues);
+  const originalCount = allIssues.length;
+
+  const dedupedIssues = shouldDeduplicate
+    ? deduplicateIssues(allIssues)
+    : allIssues;
+  const comparison = viewports.length > 0
+    ? compareViewports(dedupedIssues, viewports.map(viewport => viewport.name))
+    : undefined;
+  const finalIssues = comparison?.issues ?? dedupedIssues;
+
+  const issuesByWCAG = groupByWCAG(finalIssues);
+  const duration = Date.now() - startTime;
+
+  logger.info('Combined analysis completed', {
+    totalIssues: originalCount,
+    deduplicatedIssues: finalIssues.length,
+    toolsRun: results.length,
+    renderMode,
+    errors: errors.length,
+    durationMs: duration
+  });
+
+  const result: CombinedAnalysisResult = {
+    success: errors.length === 0,
+    timestamp: new Date().toISOString(),
+    duration,
+    target: target.value,
+    toolsUsed: results.map(r => r.tool),
+    issues: finalIssues,
+    summary: {
+      ...buildCombinedSummary(finalIssues, toolsToRun),
+      ...comparison?.summary
+    },
+    individualResults: results,
+    renderMode,
+    error: errors.length > 0 ? errors.join('; ') : undefined
+  };
+
+  return { result, originalCount, issuesByWCAG };
 }
 
 const handleCombinedAnalysis = withToolContext<CombinedAnalysisInput>(
   'analyze-mixed',
   async (input, context): Promise<ToolResponse> => {
-    const startTime = Date.now();
     const toolsToRun = input.tools ?? ['axe-core', 'pa11y'];
     const shouldDeduplicate = input.options?.deduplicateResults ?? true;
-    const ignoreHTTPSErrors = input.options?.browser?.ignoreHTTPSErrors ?? false;
+    const target = buildAnalysisTarget(input);
+    const options = buildAnalysisOptions(input);
+    const ignoreHTTPSErrors = target.options?.ignoreHTTPSErrors ?? false;
 
     context.logger.info('Starting combined web analysis', {
       tools: toolsToRun,
       deduplicate: shouldDeduplicate,
+      singleRender: input.options?.singleRender ?? false,
       hasUrl: !!input.url,
       hasHtml: !!input.html,
       ignoreHTTPSErrors
     });
 
-    const target = buildAnalysisTarget(input);
-    const options = buildAnalysisOptions(input);
+    const { result, originalCount } = await runCombinedAnalysis(target, options, {
+      tools: toolsToRun,
+      deduplicate: shouldDeduplicate,
+      ignoreHTTPSErrors,
+      singleRender: input.options?.singleRender ?? false,
+      logger: context.logger,
+      onProgress: context.reportProgress
+    });
 
-    const results: AnalysisResult[] = [];
-    const errors: string[] = [];
-
-    const analysisPromises: Promise<void>[] = [];
-
-    if (toolsToRun.includes('axe-core')) {
-      analysisPromises.push(
-        (async () => {
-          try {
-            const adapter = getAxeAdapter(ignoreHTTPSErrors);
-            const result = await adapter.analyze(target, options);
-            results.push(result);
-            context.logger.debug('Axe analysis completed', { issueCount: result.issues.length });
-          } catch (error) {
-            const msg = error instanceof Error ? error.message : String(error);
-            errors.push(`Axe: ${msg}`);
-            context.logger.error('Axe analysis failed', {
-              error: error instanceof Error ? error : new Error(String(error))
-            });
-          }
-        })()
-      );
-    }
+    const screenshots = extractScreenshotContent(result);
+    context.recordHistory(target, screenshots.result);
 
-    if (toolsToRun.includes('pa11y')) {
-      analysisPromises.push(
-        (async () => {
-          try {
-            const adapter = getPa11yAdapter(ignoreHTTPSErrors);
-            const result = await adapter.analyze(target, options);
-            results.push(result);
-            context.logger.debug('Pa11y analysis completed', { issueCount: result.issues.length });
-          } catch (error) {
-            const msg = error instanceof Error ? error.message : String(error);
-            errors.push(`Pa11y: ${msg}`);
-            context.logger.error('Pa11y analysis failed', {
-              error: error instanceof Error ? error : new Error(String(error))
-            });
-          }
-        })()
-      );
-    }
+    const output = formatOutput(
+      screenshots.result,
+      originalCount,
+      groupByWCAG(screenshots.result.issues)
+    );
 
-    if (toolsToRun.includes('lighthouse')) {
-      if (!input.url) {
-        errors.push('Lighthouse: Only URL targets are supported. Provide a url instead of html.');
-        context.logger.warn('Lighthouse skipped: no URL provided');
+    if (input.options?.htmlReportPath) {
+      Object.assign(output, await saveHtmlReport(input.options.htmlReportPath, result));
+      if (output.htmlReportError) {
+        context.logger.warn('HTML report failed', { error: output.htmlReportError });
       } else {
-        analysisPromises.push(
-          (async () => {
-            try {
-              const adapter = getLighthouseAdapter(ignoreHTTPSErrors);
-              const result = await adapter.analyze(target, options);
-              results.push(result);
-              context.logger.debug('Lighthouse analysis completed', { issueCount: result.issues.length });
-            } catch (error) {
-              const msg = error instanceof Error ? error.message : String(error);
-              errors.push(`Lighthouse: ${msg}`);
-              context.logger.error('Lighthouse analysis failed', {
-                error: error instanceof Error ? error : new Error(String(error))
-              });
-            }
-          })()
-        );
+        context.logger.info('HTML report written', { reportPath: output.htmlReportPath });
       }
     }
 
-    await Promise.all(analysisPromises);
-
-    const allIssues = results.flatMap(r => r.issues);
-    const originalCount = allIssues.length;
-
-    const finalIssues = shouldDeduplicate
-      ? deduplicateIssues(allIssues)
-      : allIssues;
-
-    const issuesByWCAG = groupByWCAG(finalIssues);
-    const duration = Date.now() - startTime;
-
-    context.logger.info('Combined analysis completed', {
-      totalIssues: originalCount,
-      deduplicatedIssues: finalIssues.length,
-      toolsRun: results.length,
-      errors: errors.length,
-      durationMs: duration
-    });
-
-    const combinedResult: CombinedAnalysisResult = {
-      success: errors.length === 0,
-      timestamp: new Date().toISOString(),
-      duration,
-      target: target.value,
-      toolsUsed: results.map(r => r.tool),
-      issues: finalIssues,
-      summary: buildCombinedSummary(finalIssues, toolsToRun as ToolSource[]),
-      individualResults: results,
-      error: errors.length > 0 ? errors.join('; ') : undefined
-    };
-
-    const output = formatOutput(combinedResult, originalCount, issuesByWCAG);
-    return createJsonResponse(output, !combinedResult.success);
+    const response = createFormattedResponse(
+      screenshots.result,
+      output,
+      input.options?.outputFormat
+    );
+    return { ...response, content: [...response.content, ...screenshots.content] };
   }
 );
 
 const CombinedToolMcpInputSchema = z.object({
   url: z.string().url().optional().describe('URL of the page to analyze'),
   html: z.string().min(1).optional().describe('Raw HTML content to analyze'),
+  background: BackgroundSchema,
   tools: z
-    .array(z.enum(['axe-core', 'pa11y', 'lighthouse']))
+    .array(MixedToolSchema)
     .min(1)
     .default(['axe-core', 'pa11y'])
-    .describe("Tools to run for web analysis. Note: 'lighthouse' requires a URL (html not supported)"),
+    .describe(
+      "Tools to run for web analysis. Note: 'lighthouse' requires a URL unless singleRender is on"
+    ),
   options: z
     .object({
       wcagLevel: z
         .enum(['A', 'AA', 'AAA'])
-        .default('AA')
+        .optional()
         .describe('WCAG conformance level'),
       deduplicateResults: z
         .boolean()
         .default(true)
         .describe('Merge similar issues from different tools'),
+      singleRender: z
+        .boolean()
+        .default(false)
+        .describe('Load the page once and run every tool against that same render'),
+      htmlReportPath: z
+        .string()
+        .min(1)
+        .optional()
+        .describe('Also write a self-contained HTML report to this path'),
+      screenshots: ScreenshotOptionsSchema.optional().describe(
+        'Highlighted screenshots of the elements with axe-core and contrast issues'
+      ),
+      outputFormat: OutputFormatSchema.default('json'),
       browser: z
         .object({
           waitForSelector: z.string().optional().describe('CSS selector to wait for'),
@@ -238,8 +611,14 @@ const CombinedToolMcpInputSchema = z.object({
             .optional(),
           ignoreHTTPSErrors: z
             .boolean()
-            .default(false)
+            .optional()
             .describe('Ignore HTTPS certificate errors (for local dev servers with self-signed certs)'),
+          authentication: AuthenticationSchema.optional().describe(
+            'Authentication for protected pages: cookies, localStorage, headers, basic auth or a login script'
+          ),
+          actions: InteractionActionsSchema.optional(),
+          states: InteractionStatesSchema.optional(),
+          viewports: ViewportsSchema.optional(),
         })
         .optional(),
     })
@@ -250,33 +629,49 @@ export const analyzeMixedTool: ToolDefinition = {
   name: 'analyze-mixed',
   description: `Run multiple accessibility analysis tools in parallel and combine results.
 
-Executes axe-core, Pa11y, and/or Lighthouse for web analysis.
+Executes axe-core, Pa11y, Lighthouse, the contrast analyzer and/or the accessibility tree inspector for web analysis.
 
 Input options:
 - url: URL of the page to analyze (required for web analysis)
 - html: Raw HTML content (alternative to url for web analysis)
-- tools: Array of tools to run ['axe-core', 'pa11y', 'lighthouse']. Default: ['axe-core', 'pa11y']
-- options.wcagLevel: WCAG level (A, AA, AAA). Default: AA
+- tools: Array of tools to run ['axe-core', 'pa11y', 'lighthouse', 'contrast-analyzer', 'accessibility-tree']. Default: ['axe-core', 'pa11y']
+- options.wcagLevel: WCAG level (A, AA, AAA). Default: project config, else AA
 - options.deduplicateResults: Merge similar issues from different tools. Default: true
+- options.singleRender: Load the page once (including waits and actions) and run every tool against that same page, one after another, instead of each tool loading it. Default: false
+- options.htmlReportPath: Also write a self-contained HTML report (executive summary, issues grouped by WCAG criterion with user impact, code snippets and filters) to this path, for stakeholders who do not read JSON
+- options.screenshots: Capture a cropped, highlighted screenshot of each element with an issue found by axe-core or the contrast analyzer; the HTML report embeds them. Elements that are offscreen or have no size are skipped
+  - maxElements: Maximum screenshots per tool and page load. Default: 10, max: 50
+  - fullPage: Also capture the whole page with a numbered marker on each captured element. Default: false
+  - outputDir: Write PNG files to this directory instead of returning the images
 - options.browser.waitForSelector: CSS selector to wait for
 - options.browser.viewport: Browser viewport dimensions
-- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors (for local dev servers). Default: false
+- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors (for local dev servers). Default: project config, else false
+- options.browser.authentication: Cookies, localStorage, headers, basic auth or a login script for protected pages (secrets are redacted from output)
+- options.browser.actions: Interactions run before analysis (click, hover, focus, type, press, scroll, wait, select)
+- options.browser.states: Named UI states, each with its own actions; issues are tagged with the state and counted in summary.byState
+- options.browser.viewports: Viewports to analyze in one call, as presets ("mobile", "tablet", "desktop") or { name, preset, width, height, deviceScaleFactor, isMobile, hasTouch } (max 6); issues are tagged with the viewport and viewportSpecific, and counted in summary.byViewport, summary.viewportSpecific and summary.allViewports
+- options.outputFormat: Response format, "json", "sarif" (SARIF 2.1.0), "junit" (JUnit XML) or "tap" (TAP 13). Default: json
 
-Note: Lighthouse requires a live URL - raw HTML content is not supported. If html is provided with lighthouse selected, lighthouse will be skipped.
+Note: Lighthouse requires a live URL - raw HTML content is not supported. If html is provided with lighthouse selected, lighthouse will be skipped. With singleRender, Lighthouse takes a snapshot of the loaded page instead, which works for html too.
 
 Output:
 - issues: Combined and deduplicated accessibility issues
 - issuesByWCAG: Issues grouped by WCAG criterion
 - summary: Aggregated counts by severity, principle, and tool
-- individualResults: Full results from each tool
-- deduplicatedCount: Number of duplicate issues removed`,
+- individualResults: Full results from each tool, each with the snapshots (page loads) it was produced from
+- renderMode: "single" when the tools shared one page load, else "separate"
+- deduplicatedCount: Number of duplicate issues removed
+- htmlReportPath: Absolute path of the HTML report, when options.htmlReportPath is set
+- htmlReportError: Why the HTML report could not be written; the analysis output is returned anyway
+- issues[].screenshot: Marker number, position and, with outputDir, file path of the element screenshot. Without outputDir the images follow the JSON as image content, each after a text item naming its issues
+- pageScreenshots: Files of the annotated full-page screenshots, when outputDir is set`,
 
   register(server: McpServer): void {
     server.tool(
       this.name,
       this.description,
       CombinedToolMcpInputSchema.shape,
-      async (input): Promise<{ content: Array<{ type: 'text'; text: string }> }> => {
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
         const parseResult = CombinedAnalysisInputSchema.safeParse(input);
 
         if (!parseResult.success) {
@@ -287,11 +682,10 @@ Output:
           return { content: response.content };
         }
 
-        const response = await handleCombinedAnalysis(parseResult.data);
+        const response = await handleCombinedAnalysis(parseResult.data, extra);
         return { content: response.content };
       }
     );
   },
 };
 
-export { disposeAdapters as disposeAnalyzeMixedAdapters };
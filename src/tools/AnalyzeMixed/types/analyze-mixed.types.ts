@@ -1,21 +1,43 @@
 import { z } from 'zod';
 import { WCAGLevelSchema } from '@/shared/types/accessibility.js';
 import type { AccessibilityIssue, AnalysisResult, CombinedAnalysisResult } from '@/shared/types/accessibility.js';
-import { BaseToolInputSchema, BrowserOptionsSchema } from '@/tools/Base/types/base.types.js';
+import { ScreenshotOptionsSchema } from '@/shared/types/screenshot.js';
+import {
+  BaseToolInputSchema,
+  BrowserOptionsSchema,
+  OutputFormatSchema,
+} from '@/tools/Base/types/base.types.js';
+
+export const MixedToolSchema = z
+  .enum(['axe-core', 'pa11y', 'lighthouse', 'contrast-analyzer', 'accessibility-tree'])
+  .describe('Analysis tool that can run in a combined analysis');
 
 export const CombinedAnalysisInputSchema = BaseToolInputSchema.extend({
   tools: z
-    .array(z.enum(['axe-core', 'pa11y', 'lighthouse']))
+    .array(MixedToolSchema)
     .min(1)
     .default(['axe-core', 'pa11y'])
     .describe('Tools to run for web analysis'),
   options: z
     .object({
-      wcagLevel: WCAGLevelSchema.default('AA'),
+      wcagLevel: WCAGLevelSchema.optional(),
       deduplicateResults: z
         .boolean()
         .default(true)
         .describe('Merge similar issues from different tools'),
+      singleRender: z
+        .boolean()
+        .default(false)
+        .describe('Load the page once and run every tool against that same render'),
+      htmlReportPath: z
+        .string()
+        .min(1)
+        .optional()
+        .describe('Also write a self-contained HTML report to this path'),
+      screenshots: ScreenshotOptionsSchema.optional().describe(
+        'Highlighted screenshots of the elements with axe-core and contrast issues'
+      ),
+      outputFormat: OutputFormatSchema.default('json'),
       browser: BrowserOptionsSchema.optional(),
     })
     .optional(),
@@ -26,18 +48,23 @@ export const CombinedAnalysisInputSchema = BaseToolInputSchema.extend({
   )
   .describe('Input for combined web accessibility analysis (axe-core + Pa11y + Lighthouse)');
 
+export type MixedTool = z.infer<typeof MixedToolSchema>;
 export type CombinedAnalysisInput = z.infer<typeof CombinedAnalysisInputSchema>;
 
 export interface CombinedToolOutput {
   success: boolean;
   target: string;
-  toolsUsed: Array<'axe-core' | 'pa11y' | 'lighthouse'>;
+  toolsUsed: MixedTool[];
+  renderMode?: CombinedAnalysisResult['renderMode'];
   issueCount: number;
   deduplicatedCount: number;
   issues: AccessibilityIssue[];
   issuesByWCAG: Record<string, AccessibilityIssue[]>;
   summary: CombinedAnalysisResult['summary'];
   individualResults: AnalysisResult[];
+  htmlReportPath?: string | undefined;
+  htmlReportError?: string | undefined;
+  pageScreenshots?: string[] | undefined;
   duration?: number | undefined;
   error?: string | undefined;
 }
@@ -1,16 +1,21 @@
 import type { AnalysisTarget, AnalysisOptions } from '@/shared/types/analysis.js';
+import { applyProjectTarget, resolveWcagLevel } from '@/shared/config/index.js';
+import { getPageScreenshotPaths } from '@/shared/browser/screenshots.js';
 import type {
   AccessibilityIssue,
+  AnalysisResult,
   ToolSource,
   Severity,
   WCAGPrinciple,
   CombinedAnalysisResult,
 } from '@/shared/types/accessibility.js';
-import type { CombinedAnalysisInput, CombinedToolOutput } from '../types/index.js';
+import type { ContrastAdapterOptions } from '@/tools/Contrast/adapters/index.js';
+import type { ContrastAnalysisResult } from '@/tools/Contrast/types/index.js';
+import type { CombinedAnalysisInput, CombinedToolOutput, MixedTool } from '../types/index.js';
 
 export function buildAnalysisTarget(input: CombinedAnalysisInput): AnalysisTarget {
   if (input.url) {
-    return {
+    return applyProjectTarget({
       type: 'url',
       value: input.url,
       options: {
@@ -18,11 +23,15 @@ export function buildAnalysisTarget(input: CombinedAnalysisInput): AnalysisTarge
         timeout: input.options?.browser?.waitForTimeout,
         viewport: input.options?.browser?.viewport,
         ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+        authentication: input.options?.browser?.authentication,
+        actions: input.options?.browser?.actions,
+        states: input.options?.browser?.states,
+        viewports: input.options?.browser?.viewports,
       },
-    };
+    });
   }
 
-  return {
+  return applyProjectTarget({
     type: 'html',
     value: input.html!,
     options: {
@@ -30,14 +39,44 @@ export function buildAnalysisTarget(input: CombinedAnalysisInput): AnalysisTarge
       timeout: input.options?.browser?.waitForTimeout,
       viewport: input.options?.browser?.viewport,
       ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+      authentication: input.options?.browser?.authentication,
+      actions: input.options?.browser?.actions,
+      states: input.options?.browser?.states,
+      viewports: input.options?.browser?.viewports,
     },
-  };
+  });
 }
 
 export function buildAnalysisOptions(input: CombinedAnalysisInput): AnalysisOptions {
   return {
-    wcagLevel: input.options?.wcagLevel ?? 'AA',
+    wcagLevel: input.options?.wcagLevel ?? resolveWcagLevel(input.url),
     includeWarnings: true,
+    screenshots: input.options?.screenshots,
+  };
+}
+
+export function buildContrastOptions(options: AnalysisOptions): ContrastAdapterOptions {
+  return {
+    wcagLevel: options.wcagLevel === 'AAA' ? 'AAA' : 'AA',
+    suggestFixes: true,
+    ...(options.screenshots && { screenshots: options.screenshots }),
+    ...(options.excludeRules && { excludeRules: options.excludeRules }),
+  };
+}
+
+export function fromContrastResult(result: ContrastAnalysisResult): AnalysisResult {
+  const { byTool: _byTool, ...summary } = buildCombinedSummary(result.issues, []);
+
+  return {
+    success: result.success,
+    timestamp: result.timestamp,
+    duration: result.duration,
+    target: result.target,
+    tool: 'contrast-analyzer',
+    issues: result.issues,
+    summary,
+    snapshots: result.snapshots,
+    error: result.error,
   };
 }
 
@@ -48,6 +87,12 @@ export function generateIssueFingerprint(issue: AccessibilityIssue): string {
     issue.location.selector ?? issue.location.file ?? 'no-location',
     issue.message.substring(0, 50)
   ];
+  if (issue.state) {
+    parts.push(issue.state);
+  }
+  if (issue.viewport) {
+    parts.push(issue.viewport);
+  }
   return parts.join('|');
 }
 
@@ -89,7 +134,7 @@ export function groupByWCAG(issues: AccessibilityIssue[]): Record<string, Access
 
 export function buildCombinedSummary(
   issues: AccessibilityIssue[],
-  _toolsUsed: ToolSource[]
+  toolsUsed: ToolSource[]
 ): CombinedAnalysisResult['summary'] {
   const bySeverity: Record<Severity, number> = {
     critical: 0,
@@ -105,23 +150,32 @@ export function buildCombinedSummary(
     robust: 0
   };
 
-  const byTool: Record<Exclude<ToolSource, 'contrast-analyzer'>, number> = {
+  const byTool: Partial<Record<ToolSource, number>> = {
     'axe-core': 0,
     'pa11y': 0,
     'lighthouse': 0,
   };
 
+  for (const tool of toolsUsed) {
+    byTool[tool] ??= 0;
+  }
+
   const byRule: Record<string, number> = {};
+  const byState: Record<string, number> = {};
 
   for (const issue of issues) {
     bySeverity[issue.severity]++;
 
+    if (issue.state) {
+      byState[issue.state] = (byState[issue.state] ?? 0) + 1;
+    }
+
     if (issue.wcag?.principle) {
       byPrinciple[issue.wcag.principle]++;
     }
 
     if (issue.tool in byTool) {
-      byTool[issue.tool as Exclude<ToolSource, 'contrast-analyzer'>]++;
+      byTool[issue.tool] = (byTool[issue.tool] ?? 0) + 1;
     }
     byRule[issue.ruleId] = (byRule[issue.ruleId] ?? 0) + 1;
   }
@@ -131,7 +185,8 @@ export function buildCombinedSummary(
     bySeverity,
     byPrinciple,
     byTool,
-    byRule
+    byRule,
+    ...(Object.keys(byState).length > 0 && { byState })
   };
 }
 
@@ -143,13 +198,17 @@ export function formatOutput(
   return {
     success: result.success,
     target: result.target,
-    toolsUsed: result.toolsUsed as Array<'axe-core' | 'pa11y' | 'lighthouse'>,
+    toolsUsed: result.toolsUsed as MixedTool[],
+    renderMode: result.renderMode,
     issueCount: result.issues.length,
     deduplicatedCount,
     issues: result.issues,
     issuesByWCAG,
     summary: result.summary,
     individualResults: result.individualResults ?? [],
+    pageScreenshots: getPageScreenshotPaths(
+      result.individualResults?.flatMap((individual) => individual.snapshots ?? [])
+    ),
     duration: result.duration,
     error: result.error
   };
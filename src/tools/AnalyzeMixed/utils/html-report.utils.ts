@@ -0,0 +1,403 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type {
+  AccessibilityIssue,
+  CombinedAnalysisResult,
+  Severity,
+  WCAGPrinciple,
+} from '@/shared/types/accessibility.js';
+import { getWCAGContext } from '@/shared/utils/wcag-context.js';
+import { buildCombinedSummary, groupByWCAG } from './analyze-mixed.utils.js';
+
+type AffectedUser = NonNullable<AccessibilityIssue['affectedUsers']>[number];
+
+export interface HtmlReportOptions {
+  title?: string | undefined;
+  /** Element screenshots keyed by issue id, as base64 PNG data or data URIs. */
+  screenshots?: Record<string, string> | undefined;
+}
+
+const SEVERITIES: Severity[] = ['critical', 'serious', 'moderate', 'minor'];
+
+const SEVERITY_LABELS: Record<Severity, string> = {
+  critical: 'Critical',
+  serious: 'Serious',
+  moderate: 'Moderate',
+  minor: 'Minor',
+};
+
+const PRINCIPLE_LABELS: Record<WCAGPrinciple, string> = {
+  perceivable: 'Perceivable',
+  operable: 'Operable',
+  understandable: 'Understandable',
+  robust: 'Robust',
+};
+
+const AFFECTED_USER_LABELS: Record<AffectedUser, string> = {
+  'screen-reader': 'Screen reader users',
+  'keyboard-only': 'Keyboard-only users',
+  'low-vision': 'Low vision users',
+  'color-blind': 'Color blind users',
+  cognitive: 'Users with cognitive disabilities',
+  'motor-impaired': 'Users with motor impairments',
+};
+
+const UNMAPPED_CRITERION = 'unknown';
+
+const STYLES = `
+:root { color-scheme: light; --critical: #a4161a; --serious: #c2410c; --moderate: #a16207; --minor: #1d4ed8; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 16px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2328; background: #f6f8fa; }
+header, main { max-width: 72rem; margin: 0 auto; padding: 1.5rem; }
+header { background: #fff; border-bottom: 1px solid #d0d7de; max-width: none; }
+header > * { max-width: 69rem; margin-left: auto; margin-right: auto; }
+h1 { margin: 0 0 .5rem; font-size: 1.75rem; }
+h2 { margin-top: 2rem; font-size: 1.35rem; }
+h3 { margin: 0; font-size: 1.1rem; }
+dl.meta { display: grid; grid-template-columns: max-content 1fr; gap: .25rem 1rem; margin: 0; }
+dl.meta dt { font-weight: 600; }
+dl.meta dd { margin: 0; overflow-wrap: anywhere; }
+.headline { font-size: 1.15rem; }
+.cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(9rem, 1fr)); gap: 1rem; }
+.card { background: #fff; border: 1px solid #d0d7de; border-left-width: .4rem; border-radius: .4rem; padding: .75rem 1rem; }
+.card strong { display: block; font-size: 1.75rem; }
+.card.critical, .badge.critical { border-color: var(--critical); }
+.card.serious, .badge.serious { border-color: var(--serious); }
+.card.moderate, .badge.moderate { border-color: var(--moderate); }
+.card.minor, .badge.minor { border-color: var(--minor); }
+table { border-collapse: collapse; background: #fff; min-width: 18rem; }
+th, td { border: 1px solid #d0d7de; padding: .35rem .75rem; text-align: left; }
+.tables { display: flex; flex-wrap: wrap; gap: 1.5rem; align-items: flex-start; }
+form.filters { display: flex; flex-wrap: wrap; gap: 1rem 1.5rem; align-items: end; background: #fff; border: 1px solid #d0d7de; border-radius: .4rem; padding: 1rem; }
+fieldset { border: 0; margin: 0; padding: 0; }
+legend, label.field { font-weight: 600; }
+label.field select, label.field input { display: block; margin-top: .25rem; font: inherit; padding: .25rem .5rem; }
+.group { background: #fff; border: 1px solid #d0d7de; border-radius: .4rem; margin: 1rem 0; padding: 1rem; }
+.group > p { margin: .25rem 0 .75rem; color: #57606a; }
+details.issue { border-top: 1px solid #d0d7de; padding: .5rem 0; }
+details.issue summary { cursor: pointer; }
+.badge { display: inline-block; border: 2px solid; border-radius: 1rem; padding: 0 .5rem; font-size: .85rem; font-weight: 600; margin-right: .35rem; }
+.tool { color: #57606a; font-size: .9rem; }
+.chips { display: flex; flex-wrap: wrap; gap: .35rem; padding: 0; list-style: none; }
+.chips li { background: #ddf4ff; border-radius: 1rem; padding: 0 .6rem; font-size: .85rem; }
+pre { background: #f6f8fa; border: 1px solid #d0d7de; border-radius: .4rem; padding: .75rem; overflow-x: auto; white-space: pre-wrap; }
+img.screenshot { max-width: 100%; border: 2px solid #d0d7de; border-radius: .4rem; }
+[hidden] { display: none !important; }
+:focus-visible { outline: 3px solid #0969da; outline-offset: 2px; }
+`;
+
+const FILTER_SCRIPT = `
+(function () {
+  var form = document.querySelector('form.filters');
+  var issues = Array.prototype.slice.call(document.querySelectorAll('details.issue'));
+  var groups = Array.prototype.slice.call(document.querySelectorAll('section.group'));
+  var status = document.getElementById('filter-status');
+  function apply() {
+    var severities = Array.prototype.slice.call(form.querySelectorAll('input[name=severity]:checked')).map(function (input) { return input.value; });
+    var tool = form.elements.tool.value;
+    var user = form.elements.user.value;
+    var query = form.elements.query.value.trim().toLowerCase();
+    var visible = 0;
+    issues.forEach(function (issue) {
+      var show = severities.indexOf(issue.dataset.severity) !== -1 &&
+        (!tool || issue.dataset.tool === tool) &&
+        (!user || (' ' + issue.dataset.users + ' ').indexOf(' ' + user + ' ') !== -1) &&
+        (!query || issue.textContent.toLowerCase().indexOf(query) !== -1);
+      issue.hidden = !show;
+      if (show) visible++;
+    });
+    groups.forEach(function (group) {
+      group.hidden = !group.querySelector('details.issue:not([hidden])');
+    });
+    status.textContent = 'Showing ' + visible + ' of ' + issues.length + ' issues';
+  }
+  form.addEventListener('input', apply);
+  form.addEventListener('submit', function (event) { event.preventDefault(); });
+  apply();
+})();
+`;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function compareCriteria(a: string, b: string): number {
+  if (a === UNMAPPED_CRITERION) return 1;
+  if (b === UNMAPPED_CRITERION) return -1;
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function toImageSource(screenshot: string): string {
+  return screenshot.startsWith('data:') ? screenshot : `data:image/png;base64,${screenshot}`;
+}
+
+function describeTarget(target: string): string {
+  return /^https?:\/\//i.test(target) ? target : 'HTML content';
+}
+
+function countAffectedUsers(issues: AccessibilityIssue[]): Array<[AffectedUser, number]> {
+  const counts = new Map<AffectedUser, number>();
+  for (const issue of issues) {
+    for (const user of issue.affectedUsers ?? []) {
+      counts.set(user, (counts.get(user) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+}
+
+function renderHeadline(
+  result: CombinedAnalysisResult,
+  bySeverity: Record<Severity, number>
+): string {
+  if (!result.success && result.issues.length === 0) {
+    return `The analysis failed: ${escapeHtml(result.error ?? 'unknown error')}`;
+  }
+  if (result.issues.length === 0) {
+    return 'No accessibility issues were found by the tools that ran.';
+  }
+
+  const blocking = bySeverity.critical + bySeverity.serious;
+  const tools = result.toolsUsed.length;
+  const found = `${result.issues.length} accessibility ${result.issues.length === 1 ? 'issue was' : 'issues were'} found by ${tools} ${tools === 1 ? 'tool' : 'tools'}.`;
+  return blocking > 0
+    ? `${found} ${blocking} of them are critical or serious and can block people from using the page.`
+    : `${found} None of them are critical or serious.`;
+}
+
+function renderSummary(result: CombinedAnalysisResult): string {
+  const summary = buildCombinedSummary(result.issues, result.toolsUsed);
+  const cards = SEVERITIES.map(
+    (severity) =>
+      `<div class="card ${severity}"><strong>${summary.bySeverity[severity]}</strong>${SEVERITY_LABELS[severity]}</div>`
+  ).join('');
+  const principles = (Object.keys(PRINCIPLE_LABELS) as WCAGPrinciple[])
+    .map(
+      (principle) =>
+        `<tr><td>${PRINCIPLE_LABELS[principle]}</td><td>${summary.byPrinciple?.[principle] ?? 0}</td></tr>`
+    )
+    .join('');
+  const tools = Object.entries(summary.byTool ?? {})
+    .filter(([tool]) => result.toolsUsed.some((used) => used === tool))
+    .map(([tool, count]) => `<tr><td>${escapeHtml(tool)}</td><td>${count}</td></tr>`)
+    .join('');
+  const users = countAffectedUsers(result.issues)
+    .map(([user, count]) => `<tr><td>${AFFECTED_USER_LABELS[user]}</td><td>${count}</td></tr>`)
+    .join('');
+
+  return `<section aria-labelledby="summary-title">
+<h2 id="summary-title">Executive summary</h2>
+<p class="headline">${renderHeadline(result, summary.bySeverity)}</p>
+<div class="cards">${cards}</div>
+<div class="tables">
+<table><caption>Issues by WCAG principle</caption><thead><tr><th scope="col">Principle</th><th scope="col">Issues</th></tr></thead><tbody>${principles}</tbody></table>
+<table><caption>Issues by tool</caption><thead><tr><th scope="col">Tool</th><th scope="col">Issues</th></tr></thead><tbody>${tools}</tbody></table>
+${users ? `<table><caption>Who is affected</caption><thead><tr><th scope="col">Users</th><th scope="col">Issues</th></tr></thead><tbody>${users}</tbody></table>` : ''}
+</div>
+</section>`;
+}
+
+function renderFilters(result: CombinedAnalysisResult): string {
+  const severities = SEVERITIES.map(
+    (severity) =>
+      `<label><input type="checkbox" name="severity" value="${severity}" checked> ${SEVERITY_LABELS[severity]}</label>`
+  ).join(' ');
+  const tools = result.toolsUsed
+    .map((tool) => `<option value="${escapeHtml(tool)}">${escapeHtml(tool)}</option>`)
+    .join('');
+  const users = countAffectedUsers(result.issues)
+    .map(([user]) => `<option value="${user}">${AFFECTED_USER_LABELS[user]}</option>`)
+    .join('');
+
+  return `<form class="filters" aria-label="Filter issues">
+<fieldset><legend>Severity</legend>${severities}</fieldset>
+<label class="field">Tool<select name="tool"><option value="">All tools</option>${tools}</select></label>
+<label class="field">Affected users<select name="user"><option value="">Everyone</option>${users}</select></label>
+<label class="field">Search<input type="search" name="query" placeholder="Rule, selector or text"></label>
+<p id="filter-status" role="status"></p>
+</form>`;
+}
+
+function renderIssue(issue: AccessibilityIssue, screenshot: string | undefined): string {
+  const parts = [
+    `<summary><span class="badge ${issue.severity}">${SEVERITY_LABELS[issue.severity]}</span>${escapeHtml(issue.message)} <span class="tool">${escapeHtml(issue.ruleId)} · ${escapeHtml(issue.tool)}</span></summary>`,
+  ];
+
+  if (issue.humanContext) {
+    parts.push(`<p>${escapeHtml(issue.humanContext.trim())}</p>`);
+  }
+  if (issue.affectedUsers && issue.affectedUsers.length > 0) {
+    const chips = issue.affectedUsers
+      .map((user) => `<li>${AFFECTED_USER_LABELS[user]}</li>`)
+      .join('');
+    parts.push(`<p><strong>Affected users</strong></p><ul class="chips">${chips}</ul>`);
+  }
+  if (issue.suggestedActions && issue.suggestedActions.length > 0) {
+    const actions = issue.suggestedActions
+      .map((action) => `<li>${escapeHtml(action)}</li>`)
+      .join('');
+    parts.push(`<p><strong>How to fix</strong></p><ul>${actions}</ul>`);
+  }
+  if (issue.state) {
+    parts.push(`<p><strong>UI state:</strong> ${escapeHtml(issue.state)}</p>`);
+  }
+  if (issue.location.selector) {
+    parts.push(
+      `<p><strong>Element:</strong> <code>${escapeHtml(issue.location.selector)}</code></p>`
+    );
+  }
+  if (issue.location.snippet) {
+    parts.push(`<pre><code>${escapeHtml(issue.location.snippet)}</code></pre>`);
+  }
+  if (screenshot) {
+    const alt = `Screenshot of ${issue.location.selector ?? 'the affected element'}`;
+    parts.push(
+      `<img class="screenshot" src="${escapeHtml(toImageSource(screenshot))}" alt="${escapeHtml(alt)}" loading="lazy">`
+    );
+  }
+
+  return `<details class="issue" data-severity="${issue.severity}" data-tool="${escapeHtml(issue.tool)}" data-users="${(issue.affectedUsers ?? []).join(' ')}">
+${parts.join('\n')}
+</details>`;
+}
+
+function renderGroup(
+  criterion: string,
+  issues: AccessibilityIssue[],
+  screenshots: Record<string, string>
+): string {
+  const context = criterion === UNMAPPED_CRITERION ? undefined : getWCAGContext(criterion);
+  const reference = issues.find((issue) => issue.wcag)?.wcag;
+  const title = context?.title ?? reference?.title;
+  const level = context?.level ?? reference?.level;
+  const url = context?.wcagUrl ?? reference?.url;
+
+  const name =
+    criterion === UNMAPPED_CRITERION
+      ? 'Not mapped to a WCAG criterion'
+      : `WCAG ${escapeHtml(criterion)}${title ? ` ${escapeHtml(title)}` : ''}`;
+  const heading = url ? `<a href="${escapeHtml(url)}">${name}</a>` : name;
+  const meta = level
+    ? ` <span class="tool">Level ${level} · ${issues.length} issues</span>`
+    : ` <span class="tool">${issues.length} issues</span>`;
+  const description = context ? `<p>${escapeHtml(context.description)}</p>` : '';
+
+  return `<section class="group" aria-label="${escapeHtml(criterion === UNMAPPED_CRITERION ? 'Not mapped to WCAG' : `WCAG ${criterion}`)}">
+<h3>${heading}${meta}</h3>
+${description}
+${issues.map((issue) => renderIssue(issue, screenshots[issue.id])).join('\n')}
+</section>`;
+}
+
+/**
+ * Renders a combined analysis as a single HTML file with inline styles and
+ * script, so it can be mailed or attached to a ticket and opened offline.
+ */
+export function renderHtmlReport(
+  result: CombinedAnalysisResult,
+  options: HtmlReportOptions = {}
+): string {
+  const title = options.title ?? `Accessibility report: ${describeTarget(result.target)}`;
+  const screenshots = options.screenshots ?? {};
+  const grouped = groupByWCAG(result.issues);
+  const groups = Object.keys(grouped)
+    .sort(compareCriteria)
+    .map((criterion) => renderGroup(criterion, grouped[criterion] ?? [], screenshots))
+    .join('\n');
+
+  const meta = [
+    ['Page', escapeHtml(describeTarget(result.target))],
+    ['Date', escapeHtml(result.timestamp)],
+    ['Tools', escapeHtml(result.toolsUsed.join(', '))],
+    ['Status', result.success ? 'Completed' : 'Completed with errors'],
+    ...(result.duration !== undefined
+      ? [['Duration', `${(result.duration / 1000).toFixed(1)} s`]]
+      : []),
+    ...(result.error ? [['Error', escapeHtml(result.error)]] : []),
+  ]
+    .map(([term, value]) => `<dt>${term}</dt><dd>${value}</dd>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<dl class="meta">${meta}</dl>
+</header>
+<main>
+${renderSummary(result)}
+<section aria-labelledby="issues-title">
+<h2 id="issues-title">Issues by WCAG criterion</h2>
+${result.issues.length > 0 ? `${renderFilters(result)}\n${groups}` : '<p>No issues to show.</p>'}
+</section>
+</main>
+${result.issues.length > 0 ? `<script>${FILTER_SCRIPT}</script>` : ''}
+</body>
+</html>
+`;
+}
+
+/**
+ * Element screenshots attached to the issues, keyed by issue id, ready for
+ * `HtmlReportOptions.screenshots`. Screenshots written to disk are read back
+ * so the report stays self-contained; unreadable files are left out.
+ */
+export async function collectIssueScreenshots(
+  issues: AccessibilityIssue[]
+): Promise<Record<string, string>> {
+  const screenshots: Record<string, string> = {};
+
+  for (const issue of issues) {
+    if (issue.screenshot?.data) {
+      screenshots[issue.id] = issue.screenshot.data;
+    } else if (issue.screenshot?.path) {
+      try {
+        screenshots[issue.id] = (await readFile(issue.screenshot.path)).toString('base64');
+      } catch {
+        // The file was moved or deleted since the analysis; show the issue without it.
+      }
+    }
+  }
+
+  return screenshots;
+}
+
+export async function writeHtmlReport(reportPath: string, html: string): Promise<string> {
+  const absolutePath = resolve(process.cwd(), reportPath);
+
+  await mkdir(dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, html, 'utf-8');
+
+  return absolutePath;
+}
+
+/**
+ * Renders a combined result with its element screenshots and writes it to
+ * `reportPath`. A failed write is returned as `htmlReportError` instead of
+ * thrown, so the analysis output is still returned.
+ */
+export async function saveHtmlReport(
+  reportPath: string,
+  result: CombinedAnalysisResult
+): Promise<{ htmlReportPath?: string | undefined; htmlReportError?: string | undefined }> {
+  try {
+    const html = renderHtmlReport(result, {
+      screenshots: await collectIssueScreenshots(result.issues),
+    });
+    return { htmlReportPath: await writeHtmlReport(reportPath, html) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { htmlReportError: `Could not write HTML report to ${reportPath}: ${message}` };
+  }
+}
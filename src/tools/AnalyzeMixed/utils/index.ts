@@ -1 +1,2 @@
 export * from './analyze-mixed.utils.js';
+export * from './html-report.utils.js';
@@ -0,0 +1 @@
+export * from './site-crawler.adapter.js';
@@ -0,0 +1,240 @@
+import type { HTTPResponse, Page } from 'puppeteer';
+import { createAdapterLogger } from '@/shared/utils/logger.js';
+import type { AnalysisTarget } from '@/shared/types/analysis.js';
+import {
+  closeTargetPage,
+  getBrowserPool,
+  openTargetPage,
+  type BrowserLaunchOptions,
+  type BrowserLease,
+} from '@/shared/browser/index.js';
+import type { CrawlOptions, DiscoveredPage } from '../types/index.js';
+import { normalizeUrl, parseSitemapXml, shouldVisit } from '../utils/index.js';
+
+export interface SiteCrawlerConfig {
+  timeout?: number;
+  headless?: boolean;
+  browserArgs?: string[];
+  ignoreHTTPSErrors?: boolean;
+}
+
+const MAX_NESTED_SITEMAPS = 10;
+
+export class SiteCrawler {
+  readonly name = 'site-crawler';
+
+  private config: SiteCrawlerConfig;
+  private logger: ReturnType<typeof createAdapterLogger>;
+
+  constructor(config: SiteCrawlerConfig = {}) {
+    this.config = {
+      timeout: 30000,
+      headless: true,
+      browserArgs: ['--no-sandbox', '--disable-setuid-sandbox'],
+      ...config,
+    };
+    this.logger = createAdapterLogger('SiteCrawler');
+  }
+
+  /**
+   * Discovers the pages to analyze, breadth first from the seed. Once
+   * `signal` is aborted, no more pages or sitemaps are loaded and the pages
+   * found so far are returned.
+   */
+  async crawl(
+    seedUrl: string,
+    options: CrawlOptions,
+    authTarget?: AnalysisTarget,
+    signal?: AbortSignal
+  ): Promise<DiscoveredPage[]> {
+    const seed = normalizeUrl(seedUrl);
+    if (!seed) {
+      throw new Error(`Invalid seed URL: ${seedUrl}`);
+    }
+
+    // An excluded seed is still followed for links, but not analyzed
+    const seedPage: DiscoveredPage = { url: seed, depth: 0, source: 'seed' };
+    const visited = new Set<string>([seed]);
+    const discovered: DiscoveredPage[] = shouldVisit(seed, seed, options) ? [seedPage] : [];
+    const queue: DiscoveredPage[] = [seedPage];
+
+    if (options.useSitemap) {
+      const sitemapUrls = await this.discoverFromSitemap(seed, options, authTarget, signal);
+      for (const url of sitemapUrls) {
+        if (discovered.length >= options.maxPages) break;
+        if (visited.has(url)) continue;
+
+        const page: DiscoveredPage = { url, depth: 1, source: 'sitemap' };
+        visited.add(url);
+        discovered.push(page);
+        queue.push(page);
+      }
+    }
+
+    let index = 0;
+    while (index < queue.length && discovered.length < options.maxPages) {
+      if (signal?.aborted) {
+        this.logger.info('Crawl cancelled', { seed, pagesDiscovered: discovered.length });
+        break;
+      }
+
+      const current = queue[index++]!;
+      if (current.depth >= options.maxDepth) continue;
+
+      const links = await this.extractLinks(current.url, authTarget);
+      for (const link of links) {
+        if (discovered.length >= options.maxPages) break;
+        if (visited.has(link) || !shouldVisit(link, seed, options)) continue;
+
+        const page: DiscoveredPage = { url: link, depth: current.depth + 1, source: 'link' };
+        visited.add(link);
+        discovered.push(page);
+        queue.push(page);
+      }
+    }
+
+    this.logger.info('Crawl completed', { seed, pagesDiscovered: discovered.length });
+
+    if (discovered.length === 0) {
+      throw new Error(
+        `No pages to analyze: the seed URL ${seed} is excluded by options.crawl and no matching pages were found`
+      );
+    }
+
+    return discovered;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return await getBrowserPool().isAvailable(this.launchOptions());
+  }
+
+  async dispose(): Promise<void> {
+    await getBrowserPool().closeIdle(this.launchOptions());
+  }
+
+  /**
+   * Opens `url` in a pooled browser with the authentication of `authTarget`
+   * and the crawler's HTTPS setting, and passes the page and its response to
+   * `read`.
+   */
+  private async withTargetPage<T>(
+    url: string,
+    authTarget: AnalysisTarget | undefined,
+    read: (page: Page, response: HTTPResponse | null) => Promise<T>
+  ): Promise<T> {
+    let page: Page | null = null;
+    let lease: BrowserLease | null = null;
+
+    try {
+      lease = await getBrowserPool().acquire(this.launchOptions());
+      page = await openTargetPage(lease.browser, {
+        type: 'url',
+        value: url,
+        options: authTarget?.options,
+      });
+
+      const response = await page.goto(url, {
+        waitUntil: 'domcontentloaded',
+        timeout: this.config.timeout ?? 30000,
+      });
+
+      return await read(page, response);
+    } finally {
+      if (page) {
+        await closeTargetPage(page);
+      }
+      await lease?.release();
+    }
+  }
+
+  private async extractLinks(url: string, authTarget?: AnalysisTarget): Promise<string[]> {
+    try {
+      const hrefs = await this.withTargetPage(url, authTarget, (page) =>
+        page.evaluate(() =>
+          Array.from(document.querySelectorAll('a[href]'))
+            .filter((anchor) => !anchor.hasAttribute('download'))
+            .map((anchor) => (anchor as HTMLAnchorElement).href)
+        )
+      );
+
+      const links = new Set<string>();
+      for (const href of hrefs) {
+        const normalized = normalizeUrl(href, url);
+        if (normalized) {
+          links.add(normalized);
+        }
+      }
+
+      return Array.from(links);
+    } catch (error) {
+      this.logger.warn('Could not extract links', {
+        target: url,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Reads the sitemap and the sitemaps it indexes through the browser, so
+   * they are requested with the same authentication and HTTPS setting as the
+   * pages.
+   */
+  private async discoverFromSitemap(
+    seed: string,
+    options: CrawlOptions,
+    authTarget?: AnalysisTarget,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const sitemapUrl = options.sitemapUrl ?? new URL('/sitemap.xml', seed).href;
+    const pending = [sitemapUrl];
+    const visited = new Set<string>();
+    const urls: string[] = [];
+
+    while (pending.length > 0 && visited.size < MAX_NESTED_SITEMAPS && !signal?.aborted) {
+      const current = pending.shift()!;
+      if (visited.has(current)) continue;
+      visited.add(current);
+
+      try {
+        const xml = await this.withTargetPage(current, authTarget, async (_page, response) => {
+          if (!response?.ok()) {
+            this.logger.warn('Sitemap request failed', {
+              target: current,
+              status: response?.status(),
+            });
+            return null;
+          }
+          return await response.text();
+        });
+        if (xml === null) continue;
+
+        const parsed = parseSitemapXml(xml);
+        pending.push(...parsed.sitemaps);
+
+        for (const loc of parsed.urls) {
+          const normalized = normalizeUrl(loc);
+          if (normalized && shouldVisit(normalized, seed, options)) {
+            urls.push(normalized);
+          }
+        }
+      } catch (error) {
+        this.logger.warn('Could not read sitemap', {
+          target: current,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.logger.debug('Sitemap discovery completed', { sitemaps: visited.size, urls: urls.length });
+    return urls;
+  }
+
+  private launchOptions(): BrowserLaunchOptions {
+    return {
+      headless: this.config.headless,
+      args: this.config.browserArgs,
+      ignoreHTTPSErrors: this.config.ignoreHTTPSErrors,
+    };
+  }
+}
@@ -0,0 +1,4 @@
+export { analyzeSiteTool } from './main.js';
+export { SiteCrawler, type SiteCrawlerConfig } from './adapters/index.js';
+export * from './types/index.js';
+export * from './utils/index.js';
@@ -0,0 +1,176 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolSource } from '@/shared/types/accessibility.js';
+import { SiteCrawler } from './adapters/index.js';
+import {
+  SiteAnalysisInputSchema,
+  type SiteAnalysisInput,
+  type SitePageResult,
+} from './types/index.js';
+import {
+  buildAnalysisTarget,
+  buildAnalysisOptions,
+  buildSiteResult,
+  formatOutput,
+  resolveCrawlOptions,
+  toSitePageResult,
+} from './utils/index.js';
+import { runCombinedAnalysis } from '../AnalyzeMixed/main.js';
+import { resolveAuthSession } from '@/shared/browser/index.js';
+import { scaleProgress } from '@/shared/jobs/index.js';
+import {
+  type ToolContent,
+  type ToolDefinition,
+  type ToolResponse,
+  createErrorResponse,
+  createFormattedResponse,
+  withToolContext,
+} from '../Base/index.js';
+
+// The crawler only holds launch options for the shared browser pool, so each
+// analysis builds its own: concurrent jobs with different ignoreHTTPSErrors
+// settings never replace or dispose each other's crawler.
+function createCrawler(ignoreHTTPSErrors: boolean): SiteCrawler {
+  return new SiteCrawler({
+    headless: true,
+    timeout: 30000,
+    ignoreHTTPSErrors,
+  });
+}
+
+const handleSiteAnalysis = withToolContext<SiteAnalysisInput>(
+  'analyze-site',
+  async (input, context): Promise<ToolResponse> => {
+    const startTime = Date.now();
+    const toolsToRun = input.tools ?? ['axe-core', 'pa11y'];
+    const shouldDeduplicate = input.options?.deduplicateResults ?? true;
+    const seedTarget = buildAnalysisTarget(input, input.url);
+    const ignoreHTTPSErrors = seedTarget.options?.ignoreHTTPSErrors ?? false;
+    const crawlOptions = resolveCrawlOptions(input);
+
+    context.logger.info('Starting site crawl', {
+      seed: input.url,
+      tools: toolsToRun,
+      maxPages: crawlOptions.maxPages,
+      maxDepth: crawlOptions.maxDepth,
+      useSitemap: crawlOptions.useSitemap,
+    });
+
+    const crawler = createCrawler(ignoreHTTPSErrors);
+
+    const isAvailable = await crawler.isAvailable();
+    if (!isAvailable) {
+      return createErrorResponse(
+        new Error('Site crawler is not available. Browser may have failed to launch.')
+      );
+    }
+
+    const authTarget = await resolveAuthSession(seedTarget, { ignoreHTTPSErrors, timeout: 30000 });
+    const authSession = authTarget.options?.authSession;
+
+    const discoveredPages = await crawler.crawl(
+      input.url,
+      crawlOptions,
+      authTarget,
+      context.signal
+    );
+    const options = buildAnalysisOptions(input);
+    const pages: SitePageResult[] = [];
+
+    for (const [index, page] of discoveredPages.entries()) {
+      if (context.signal.aborted) {
+        context.logger.info('Site analysis cancelled', { pagesAnalyzed: pages.length });
+        break;
+      }
+
+      context.logger.debug('Analyzing page', { target: page.url, depth: page.depth });
+
+      const builtTarget = buildAnalysisTarget(input, page.url);
+      const pageTarget = authSession
+        ? { ...builtTarget, options: { ...builtTarget.options, authSession } }
+        : builtTarget;
+      const { result } = await runCombinedAnalysis(pageTarget, options, {
+        tools: toolsToRun,
+        deduplicate: shouldDeduplicate,
+        ignoreHTTPSErrors: pageTarget.options?.ignoreHTTPSErrors ?? ignoreHTTPSErrors,
+        logger: context.logger,
+        onProgress: scaleProgress(context.reportProgress, index, discoveredPages.length),
+      });
+
+      context.recordHistory(pageTarget, result);
+      pages.push(toSitePageResult(page, result));
+      context.reportProgress(index + 1, discoveredPages.length, `Analyzed ${page.url}`);
+    }
+
+    const siteResult = buildSiteResult(
+      input.url,
+      toolsToRun as ToolSource[],
+      pages,
+      Date.now() - startTime
+    );
+
+    context.logger.info('Site analysis completed', {
+      pagesAnalyzed: pages.length,
+      totalIssues: siteResult.issues.length,
+      uniqueIssues: siteResult.aggregatedIssues.length,
+      durationMs: siteResult.duration,
+    });
+
+    const output = formatOutput(siteResult);
+    return createFormattedResponse(siteResult, output, input.options?.outputFormat);
+  }
+);
+
+export const analyzeSiteTool: ToolDefinition = {
+  name: 'analyze-site',
+  description: `Crawl a website from a seed URL and run accessibility tools on every discovered page.
+
+Discovers same-origin links (and optionally sitemap.xml entries), analyzes each page with axe-core, Pa11y and/or Lighthouse, and aggregates issues across pages so repeated template violations appear once with a page count.
+
+Input options
+- url: Seed URL where the crawl starts (required)
+- tools: Array of tools to run ['axe-core', 'pa11y', 'lighthouse']. Default: ['axe-core', 'pa11y']
+- options.wcagLevel: WCAG level (A, AA, AAA). Default: project config, else AA
+- options.deduplicateResults: Merge similar issues from different tools on each page. Default: true
+- options.crawl.maxPages: Maximum number of pages to analyze (max 200). Default: 20
+- options.crawl.maxDepth: Maximum link depth from the seed URL. Default: 2
+- options.crawl.include: Glob patterns for URL paths to include (e.g. "/blog/**")
+- options.crawl.exclude: Glob patterns for URL paths to skip (e.g. "/admin/**")
+- options.crawl.useSitemap: Also discover pages from sitemap.xml. Default: false
+- options.crawl.sitemapUrl: Explicit sitemap URL. Default: <origin>/sitemap.xml
+- options.browser.waitForSelector: CSS selector to wait for on each page
+- options.browser.viewport: Browser viewport dimensions
+- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors (for local dev servers). Default: project config, else false
+- options.browser.authentication: Cookies, localStorage, headers, basic auth or a login script for protected pages (secrets are redacted from output)
+- options.browser.actions: Interactions run before analysis (click, hover, focus, type, press, scroll, wait, select)
+- options.browser.states: Named UI states, each with its own actions; issues are tagged with the state and counted in summary.byState
+- options.browser.viewports: Viewports to analyze in one call, as presets ("mobile", "tablet", "desktop") or { name, preset, width, height, deviceScaleFactor, isMobile, hasTouch } (max 6); issues are tagged with the viewport and viewportSpecific, and each page summary counts them in byViewport, viewportSpecific and allViewports
+- options.outputFormat: Response format, "json", "sarif" (SARIF 2.1.0), "junit" (JUnit XML) or "tap" (TAP 13). Default: json
+
+Output
+- aggregatedIssues: Issues grouped by rule and WCAG criterion with page counts
+- byCriterion: Page and occurrence counts per WCAG criterion
+- pages: Per-page results (issues, summary, errors)
+- summary: Aggregated counts by severity, principle and tool across all pages`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      SiteAnalysisInputSchema.shape,
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
+        const parseResult = SiteAnalysisInputSchema.safeParse(input);
+
+        if (!parseResult.success) {
+          const errors = parseResult.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; ');
+          const response = createErrorResponse(new Error(`Invalid input: ${errors}`));
+          return { content: response.content };
+        }
+
+        const response = await handleSiteAnalysis(parseResult.data, extra);
+        return { content: response.content };
+      }
+    );
+  },
+};
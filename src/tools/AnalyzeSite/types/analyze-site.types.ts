@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import {
+  AccessibilityIssueSchema,
+  CombinedAnalysisResultSchema,
+  SeveritySchema,
+  ToolSourceSchema,
+  WCAGLevelSchema,
+} from '@/shared/types/accessibility.js';
+import type { CombinedAnalysisResult } from '@/shared/types/accessibility.js';
+import {
+  BackgroundSchema,
+  BrowserOptionsSchema,
+  OutputFormatSchema,
+} from '@/tools/Base/types/base.types.js';
+
+export const SiteAnalysisToolsSchema = z
+  .array(z.enum(['axe-core', 'pa11y', 'lighthouse']))
+  .min(1)
+  .default(['axe-core', 'pa11y'])
+  .describe('Tools to run on every discovered page');
+
+export const CrawlOptionsSchema = z.object({
+  maxPages: z
+    .number()
+    .int()
+    .positive()
+    .max(200)
+    .default(20)
+    .describe('Maximum number of pages to analyze (max 200)'),
+  maxDepth: z
+    .number()
+    .int()
+    .nonnegative()
+    .max(10)
+    .default(2)
+    .describe('Maximum link depth from the seed URL (0 = only the seed page)'),
+  include: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Glob patterns matched against the URL path; only matching pages are analyzed'),
+  exclude: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Glob patterns matched against the URL path; matching pages are skipped'),
+  useSitemap: z.boolean().default(false).describe('Also discover pages from the site sitemap.xml'),
+  sitemapUrl: z
+    .string()
+    .url()
+    .optional()
+    .describe('Explicit sitemap URL (default: <origin>/sitemap.xml)'),
+});
+
+export const SiteAnalysisInputSchema = z
+  .object({
+    url: z.string().url().describe('Seed URL where the crawl starts'),
+    tools: SiteAnalysisToolsSchema,
+    background: BackgroundSchema,
+    options: z
+      .object({
+        wcagLevel: WCAGLevelSchema.optional(),
+        deduplicateResults: z
+          .boolean()
+          .default(true)
+          .describe('Merge similar issues from different tools on each page'),
+        crawl: CrawlOptionsSchema.optional(),
+        outputFormat: OutputFormatSchema.default('json'),
+        browser: BrowserOptionsSchema.optional(),
+      })
+      .optional(),
+  })
+  .describe('Input for multi-page site accessibility analysis');
+
+export type SiteAnalysisInput = z.infer<typeof SiteAnalysisInputSchema>;
+export type CrawlOptions = z.infer<typeof CrawlOptionsSchema>;
+
+export const DiscoveredPageSchema = z.object({
+  url: z.string().url(),
+  depth: z.number().int().nonnegative(),
+  source: z.enum(['seed', 'link', 'sitemap']),
+});
+export type DiscoveredPage = z.infer<typeof DiscoveredPageSchema>;
+
+export const SitePageResultSchema = DiscoveredPageSchema.extend({
+  success: z.boolean(),
+  issueCount: z.number().int().nonnegative(),
+  issues: z.array(AccessibilityIssueSchema),
+  summary: CombinedAnalysisResultSchema.shape.summary,
+  duration: z.number().int().nonnegative().optional(),
+  error: z.string().optional(),
+}).describe('Analysis result for a single crawled page');
+export type SitePageResult = z.infer<typeof SitePageResultSchema>;
+
+export const AggregatedSiteIssueSchema = z
+  .object({
+    ruleId: z.string(),
+    criterion: z.string().optional().describe('WCAG criterion, when the rule maps to one'),
+    tools: z.array(ToolSourceSchema),
+    severity: SeveritySchema.describe('Highest severity seen across pages'),
+    message: z.string(),
+    pageCount: z.number().int().positive().describe('Number of pages where the issue appears'),
+    occurrences: z.number().int().positive().describe('Total instances across all pages'),
+    pages: z.array(z.string()).describe('URLs of the affected pages'),
+    sampleSelectors: z.array(z.string()).describe('Up to 5 example selectors'),
+    issue: AccessibilityIssueSchema.describe('Representative issue with enriched context'),
+  })
+  .describe('Issue aggregated across pages by rule and WCAG criterion');
+export type AggregatedSiteIssue = z.infer<typeof AggregatedSiteIssueSchema>;
+
+export const CriterionSiteSummarySchema = z.object({
+  pageCount: z.number().int().nonnegative(),
+  occurrences: z.number().int().nonnegative(),
+  ruleIds: z.array(z.string()),
+});
+export type CriterionSiteSummary = z.infer<typeof CriterionSiteSummarySchema>;
+
+export const SiteAnalysisResultSchema = CombinedAnalysisResultSchema.extend({
+  pages: z.array(SitePageResultSchema),
+  aggregatedIssues: z.array(AggregatedSiteIssueSchema),
+  byCriterion: z.record(z.string(), CriterionSiteSummarySchema),
+}).describe('Site-level result combining every crawled page');
+export type SiteAnalysisResult = z.infer<typeof SiteAnalysisResultSchema>;
+
+export interface SiteToolOutput {
+  success: boolean;
+  target: string;
+  toolsUsed: CombinedAnalysisResult['toolsUsed'];
+  pagesAnalyzed: number;
+  pagesFailed: number;
+  issueCount: number;
+  uniqueIssueCount: number;
+  aggregatedIssues: AggregatedSiteIssue[];
+  byCriterion: Record<string, CriterionSiteSummary>;
+  summary: CombinedAnalysisResult['summary'];
+  pages: SitePageResult[];
+  duration?: number | undefined;
+  error?: string | undefined;
+}
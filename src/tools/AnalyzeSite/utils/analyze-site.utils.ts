@@ -0,0 +1,325 @@
+import type { AnalysisTarget, AnalysisOptions } from '@/shared/types/analysis.js';
+import { applyProjectTarget, resolveWcagLevel } from '@/shared/config/index.js';
+import type {
+  AccessibilityIssue,
+  CombinedAnalysisResult,
+  Severity,
+  ToolSource,
+} from '@/shared/types/accessibility.js';
+import { buildCombinedSummary } from '@/tools/AnalyzeMixed/utils/index.js';
+import type {
+  AggregatedSiteIssue,
+  CrawlOptions,
+  CriterionSiteSummary,
+  SiteAnalysisInput,
+  SiteAnalysisResult,
+  SitePageResult,
+  SiteToolOutput,
+} from '../types/index.js';
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  critical: 4,
+  serious: 3,
+  moderate: 2,
+  minor: 1,
+};
+
+const MAX_SAMPLE_SELECTORS = 5;
+
+export function buildAnalysisTarget(input: SiteAnalysisInput, pageUrl: string): AnalysisTarget {
+  return applyProjectTarget({
+    type: 'url',
+    value: pageUrl,
+    options: {
+      waitForSelector: input.options?.browser?.waitForSelector,
+      timeout: input.options?.browser?.waitForTimeout,
+      viewport: input.options?.browser?.viewport,
+      ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+      authentication: input.options?.browser?.authentication,
+      actions: input.options?.browser?.actions,
+      states: input.options?.browser?.states,
+      viewports: input.options?.browser?.viewports,
+    },
+  });
+}
+
+export function buildAnalysisOptions(input: SiteAnalysisInput): AnalysisOptions {
+  return {
+    wcagLevel: input.options?.wcagLevel ?? resolveWcagLevel(input.url),
+    includeWarnings: true,
+  };
+}
+
+export function resolveCrawlOptions(input: SiteAnalysisInput): CrawlOptions {
+  return {
+    maxPages: input.options?.crawl?.maxPages ?? 20,
+    maxDepth: input.options?.crawl?.maxDepth ?? 2,
+    include: input.options?.crawl?.include,
+    exclude: input.options?.crawl?.exclude,
+    useSitemap: input.options?.crawl?.useSitemap ?? false,
+    sitemapUrl: input.options?.crawl?.sitemapUrl,
+  };
+}
+
+export function normalizeUrl(href: string, base?: string): string | null {
+  try {
+    const url = base ? new URL(href, base) : new URL(href);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+export function isSameOrigin(url: string, seedUrl: string): boolean {
+  try {
+    return new URL(url).origin === new URL(seedUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
+export function patternToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesPatterns(url: string, include?: string[], exclude?: string[]): boolean {
+  let path: string;
+  try {
+    const parsed = new URL(url);
+    path = `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return false;
+  }
+
+  const matches = (patterns: string[]): boolean =>
+    patterns.some((pattern) => {
+      const regex = patternToRegExp(pattern);
+      return regex.test(path) || regex.test(path.split('?')[0]!);
+    });
+
+  if (exclude && exclude.length > 0 && matches(exclude)) {
+    return false;
+  }
+
+  if (include && include.length > 0) {
+    return matches(include);
+  }
+
+  return true;
+}
+
+export function shouldVisit(url: string, seedUrl: string, options: CrawlOptions): boolean {
+  return isSameOrigin(url, seedUrl) && matchesPatterns(url, options.include, options.exclude);
+}
+
+export function parseSitemapXml(xml: string): { urls: string[]; sitemaps: string[] } {
+  const urls: string[] = [];
+  const sitemaps: string[] = [];
+  const isIndex = /<sitemapindex[\s>]/i.test(xml);
+  const locPattern = /<loc>\s*(?:<!\[CDATA\[)?\s*([^<\]]+?)\s*(?:\]\]>)?\s*<\/loc>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = locPattern.exec(xml)) !== null) {
+    const loc = decodeXmlEntities(match[1]!);
+    if (isIndex) {
+      sitemaps.push(loc);
+    } else {
+      urls.push(loc);
+    }
+  }
+
+  return { urls, sitemaps };
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function getAggregationKey(issue: AccessibilityIssue): string {
+  return `${issue.ruleId}|${issue.wcag?.criterion ?? 'no-wcag'}`;
+}
+
+export function aggregateSiteIssues(pages: SitePageResult[]): AggregatedSiteIssue[] {
+  const groups = new Map<
+    string,
+    {
+      aggregated: AggregatedSiteIssue;
+      pages: Set<string>;
+      tools: Set<ToolSource>;
+      selectors: Set<string>;
+    }
+  >();
+
+  for (const page of pages) {
+    for (const issue of page.issues) {
+      const key = getAggregationKey(issue);
+      let group = groups.get(key);
+
+      if (!group) {
+        group = {
+          aggregated: {
+            ruleId: issue.ruleId,
+            criterion: issue.wcag?.criterion,
+            tools: [],
+            severity: issue.severity,
+            message: issue.message,
+            pageCount: 0,
+            occurrences: 0,
+            pages: [],
+            sampleSelectors: [],
+            issue,
+          },
+          pages: new Set(),
+          tools: new Set(),
+          selectors: new Set(),
+        };
+        groups.set(key, group);
+      }
+
+      group.aggregated.occurrences++;
+      group.pages.add(page.url);
+      group.tools.add(issue.tool);
+
+      if (SEVERITY_RANK[issue.severity] > SEVERITY_RANK[group.aggregated.severity]) {
+        group.aggregated.severity = issue.severity;
+        group.aggregated.issue = issue;
+      }
+
+      if (issue.location.selector && group.selectors.size < MAX_SAMPLE_SELECTORS) {
+        group.selectors.add(issue.location.selector);
+      }
+    }
+  }
+
+  return Array.from(groups.values())
+    .map(({ aggregated, pages: pageSet, tools, selectors }) => ({
+      ...aggregated,
+      pageCount: pageSet.size,
+      pages: Array.from(pageSet),
+      tools: Array.from(tools),
+      sampleSelectors: Array.from(selectors),
+    }))
+    .sort(
+      (a, b) =>
+        SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+        b.pageCount - a.pageCount ||
+        b.occurrences - a.occurrences
+    );
+}
+
+export function summarizeByCriterion(
+  aggregated: AggregatedSiteIssue[]
+): Record<string, CriterionSiteSummary> {
+  const byCriterion: Record<
+    string,
+    { pages: Set<string>; occurrences: number; ruleIds: string[] }
+  > = {};
+
+  for (const item of aggregated) {
+    const key = item.criterion ?? 'unknown';
+    const entry = (byCriterion[key] ??= { pages: new Set(), occurrences: 0, ruleIds: [] });
+
+    for (const page of item.pages) {
+      entry.pages.add(page);
+    }
+    entry.occurrences += item.occurrences;
+    entry.ruleIds.push(item.ruleId);
+  }
+
+  return Object.fromEntries(
+    Object.entries(byCriterion).map(([criterion, entry]) => [
+      criterion,
+      { pageCount: entry.pages.size, occurrences: entry.occurrences, ruleIds: entry.ruleIds },
+    ])
+  );
+}
+
+export function toSitePageResult(
+  page: { url: string; depth: number; source: SitePageResult['source'] },
+  result: CombinedAnalysisResult
+): SitePageResult {
+  return {
+    ...page,
+    success: result.success,
+    issueCount: result.issues.length,
+    issues: result.issues,
+    summary: result.summary,
+    duration: result.duration,
+    error: result.error,
+  };
+}
+
+export function buildSiteResult(
+  seedUrl: string,
+  toolsUsed: ToolSource[],
+  pages: SitePageResult[],
+  duration: number,
+  errors: string[] = []
+): SiteAnalysisResult {
+  const allIssues = pages.flatMap((page) => page.issues);
+  const aggregatedIssues = aggregateSiteIssues(pages);
+  const pageErrors = pages
+    .filter((page) => !page.success && page.error)
+    .map((page) => `${page.url}: ${page.error}`);
+  const allErrors = [...errors, ...pageErrors];
+
+  return {
+    success: pages.some((page) => page.success),
+    timestamp: new Date().toISOString(),
+    duration,
+    target: seedUrl,
+    toolsUsed,
+    issues: allIssues,
+    summary: buildCombinedSummary(allIssues, toolsUsed),
+    pages,
+    aggregatedIssues,
+    byCriterion: summarizeByCriterion(aggregatedIssues),
+    error: allErrors.length > 0 ? allErrors.join('; ') : undefined,
+  };
+}
+
+export function formatOutput(result: SiteAnalysisResult): SiteToolOutput {
+  return {
+    success: result.success,
+    target: result.target,
+    toolsUsed: result.toolsUsed,
+    pagesAnalyzed: result.pages.length,
+    pagesFailed: result.pages.filter((page) => !page.success).length,
+    issueCount: result.issues.length,
+    uniqueIssueCount: result.aggregatedIssues.length,
+    aggregatedIssues: result.aggregatedIssues,
+    byCriterion: result.byCriterion,
+    summary: result.summary,
+    pages: result.pages,
+    duration: result.duration,
+    error: result.error,
+  };
+}
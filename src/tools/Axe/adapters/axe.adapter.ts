@@ -1,9 +1,22 @@
-import type { Browser, Page } from 'puppeteer';
-import puppeteer from 'puppeteer';
+import type { Page } from 'puppeteer';
 import AxePuppeteer from '@axe-core/puppeteer';
 import type { AxeResults, Result as AxeResult, NodeResult } from 'axe-core';
 import { BaseAdapter, type AdapterConfig } from '@/shared/adapters/base.js';
 import type { AnalysisTarget, AnalysisOptions } from '@/shared/types/analysis.js';
+import {
+  closeTargetPage,
+  openTargetPage,
+  resolveAuthSession,
+} from '@/shared/browser/authentication.js';
+import { loadTarget } from '@/shared/browser/navigation.js';
+import { captureIssueScreenshots } from '@/shared/browser/screenshots.js';
+import {
+  getBrowserPool,
+  type BrowserLaunchOptions,
+  type BrowserLease,
+} from '@/shared/browser/pool.js';
+import { toPageViewport } from '@/shared/browser/viewports.js';
+import { collectTargetSecrets, redactSecrets } from '@/shared/utils/redact.js';
 import type {
   AnalysisResult,
   AccessibilityIssue,
@@ -12,6 +25,7 @@ import type {
   WCAGLevel,
   WCAGPrinciple,
   IssueLocation,
+  PageSnapshot,
 } from '@/shared/types/accessibility.js';
 
 export interface AxeAdapterConfig extends AdapterConfig {
@@ -44,7 +58,6 @@ export class AxeAdapter extends BaseAdapter {
   readonly name = 'axe-core';
   readonly version = '4.x';
 
-  private browser: Browser | null = null;
   private axeConfig: AxeAdapterConfig;
 
   constructor(config: AxeAdapterConfig = {}) {
@@ -59,105 +72,109 @@ export class AxeAdapter extends BaseAdapter {
   async analyze(target: AnalysisTarget, options?: AnalysisOptions): Promise<AnalysisResult> {
     const startTime = Date.now();
     let page: Page | null = null;
+    let lease: BrowserLease | null = null;
+    let pageTarget = target;
 
     try {
       this.logger.info('Starting axe-core analysis', { target: target.value });
 
-      await this.ensureBrowser();
-      page = await this.browser!.newPage();
+      pageTarget = await resolveAuthSession(target, {
+        timeout: this.config.timeout,
+        ignoreHTTPSErrors: this.axeConfig.ignoreHTTPSErrors,
+      });
+      lease = await getBrowserPool().acquire(this.launchOptions());
+      page = await openTargetPage(lease.browser, pageTarget);
 
       if (target.options?.viewport) {
-        await page.setViewport(target.options.viewport);
+        await page.setViewport(toPageViewport(target.options.viewport));
       }
 
-      await this.loadTarget(page, target);
+      const snapshot = await loadTarget(page, pageTarget, this.config.timeout);
+      const result = await this.analyzePage(page, pageTarget, options, snapshot);
+
+      return { ...result, duration: Date.now() - startTime };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error('Analysis failed', { error: error as Error, target: target.value });
 
+      return redactSecrets(
+        this.buildErrorResult(target.value, error, duration),
+        collectTargetSecrets(pageTarget)
+      );
+    } finally {
+      if (page) {
+        await closeTargetPage(page);
+      }
+      await lease?.release();
+    }
+  }
+
+  /**
+   * Runs axe-core against a page that is already loaded, so it can share one
+   * render with other in-page analyses.
+   */
+  async analyzePage(
+    page: Page,
+    target: AnalysisTarget,
+    options?: AnalysisOptions,
+    snapshot?: PageSnapshot
+  ): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    let snapshots = snapshot ? [snapshot] : undefined;
+
+    try {
       const axeBuilder = new AxePuppeteer(page);
       this.configureAxeBuilder(axeBuilder, options);
 
       const results = await axeBuilder.analyze();
-      const issues = this.transformResults(results, options);
+      let issues = this.transformResults(results, options);
+
+      if (options?.screenshots) {
+        const captured = await captureIssueScreenshots(
+          page,
+          issues,
+          options.screenshots,
+          `${snapshot?.id ?? `snap_${Date.now().toString(36)}`}-axe-core`
+        );
+        issues = captured.issues;
+        if (snapshot && captured.pageScreenshot) {
+          snapshots = [{ ...snapshot, screenshot: captured.pageScreenshot }];
+        }
+      }
 
       const duration = Date.now() - startTime;
       this.logger.info('Analysis completed', { issueCount: issues.length, duration });
 
-      return this.buildSuccessResult(target.value, issues, results, duration);
+      return redactSecrets(
+        { ...this.buildSuccessResult(target.value, issues, results, duration), snapshots },
+        collectTargetSecrets(target)
+      );
     } catch (error) {
       const duration = Date.now() - startTime;
       this.logger.error('Analysis failed', { error: error as Error, target: target.value });
 
-      return this.buildErrorResult(target.value, error, duration);
-    } finally {
-      if (page) {
-        await page.close().catch(() => {});
-      }
+      return redactSecrets(
+        { ...this.buildErrorResult(target.value, error, duration), snapshots },
+        collectTargetSecrets(target)
+      );
     }
   }
 
   async isAvailable(): Promise<boolean> {
-    try {
-      await this.ensureBrowser();
-      return true;
-    } catch {
-      return false;
-    }
+    return await getBrowserPool().isAvailable(this.launchOptions());
   }
 
   async dispose(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-      this.logger.debug('Browser closed');
-    }
+    await getBrowserPool().closeIdle(this.launchOptions());
     await super.dispose();
   }
 
-  private async ensureBrowser(): Promise<void> {
-    if (!this.browser || !this.browser.connected) {
-      this.logger.debug('Launching browser', { ignoreHTTPSErrors: this.axeConfig.ignoreHTTPSErrors });
-
-      const baseArgs = this.axeConfig.browserArgs ?? ['--no-sandbox', '--disable-setuid-sandbox'];
-      const sslArgs = this.axeConfig.ignoreHTTPSErrors
-        ? ['--ignore-certificate-errors', '--ignore-ssl-errors', '--allow-running-insecure-content']
-        : [];
-
-      this.browser = await puppeteer.launch({
-        headless: this.axeConfig.headless ?? true,
-        args: [...baseArgs, ...sslArgs],
-        acceptInsecureCerts: this.axeConfig.ignoreHTTPSErrors ?? false,
-      });
-    }
-  }
-
-  private async loadTarget(page: Page, target: AnalysisTarget): Promise<void> {
-    const timeout = target.options?.timeout ?? this.config.timeout ?? 30000;
-
-    switch (target.type) {
-      case 'url':
-        await page.goto(target.value, {
-          waitUntil: 'networkidle2',
-          timeout,
-        });
-        break;
-
-      case 'html':
-        await page.setContent(target.value, {
-          waitUntil: 'networkidle2',
-          timeout,
-        });
-        break;
-
-      case 'file':
-        await page.goto(`file://${target.value}`, {
-          waitUntil: 'networkidle2',
-          timeout,
-        });
-        break;
-    }
-
-    if (target.options?.waitForSelector) {
-      await page.waitForSelector(target.options.waitForSelector, { timeout });
-    }
+  private launchOptions(): BrowserLaunchOptions {
+    return {
+      headless: this.axeConfig.headless,
+      args: this.axeConfig.browserArgs,
+      ignoreHTTPSErrors: this.axeConfig.ignoreHTTPSErrors,
+    };
   }
 
   private configureAxeBuilder(builder: AxePuppeteer, options?: AnalysisOptions): void {
@@ -2,11 +2,19 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { AxeAdapter } from './adapters/index.js';
 import { AxeToolInputSchema, type AxeToolInput } from './types/index.js';
 import { buildAnalysisTarget, buildAnalysisOptions, formatOutput } from './utils/index.js';
+import { getAdapterSettings } from '@/shared/config/index.js';
 import {
+  analyzeInStates,
+  analyzeInViewports,
+  mergeAnalysisSummaries,
+} from '@/shared/browser/index.js';
+import {
+  type ToolContent,
   type ToolDefinition,
   type ToolResponse,
-  createJsonResponse,
   createErrorResponse,
+  createFormattedResponse,
+  extractScreenshotContent,
   withToolContext,
 } from '../Base/index.js';
 import { AxeToolMcpInputSchema } from './types/input.type.js';
@@ -21,7 +29,7 @@ function getAdapter(ignoreHTTPSErrors = false): AxeAdapter {
     }
     sharedAdapter = new AxeAdapter({
       headless: true,
-      timeout: 30000,
+      timeout: getAdapterSettings('axe-core').timeout ?? 30000,
       ignoreHTTPSErrors,
     });
     currentIgnoreHTTPS = ignoreHTTPSErrors;
@@ -47,12 +55,14 @@ process.on('SIGTERM', () => {
 const handleAxeAnalysis = withToolContext<AxeToolInput>(
   'analyze-with-axe',
   async (input, context): Promise<ToolResponse> => {
-    const ignoreHTTPSErrors = input.options?.browser?.ignoreHTTPSErrors ?? false;
+    const target = buildAnalysisTarget(input);
+    const options = buildAnalysisOptions(input);
+    const ignoreHTTPSErrors = target.options?.ignoreHTTPSErrors ?? false;
 
     context.logger.debug('Building analysis configuration', {
       hasUrl: !!input.url,
       hasHtml: !!input.html,
-      wcagLevel: input.options?.wcagLevel ?? 'AA',
+      wcagLevel: options.wcagLevel,
       ignoreHTTPSErrors,
     });
 
@@ -65,15 +75,23 @@ const handleAxeAnalysis = withToolContext<AxeToolInput>(
       );
     }
 
-    const target = buildAnalysisTarget(input);
-    const options = buildAnalysisOptions(input);
-
     context.logger.info('Starting axe-core analysis', {
       targetType: target.type,
       target: target.type === 'url' ? target.value : '[html content]',
     });
 
-    const result = await adapter.analyze(target, options);
+    const result = await analyzeInViewports(
+      target,
+      (viewportTarget, onProgress) =>
+        analyzeInStates(
+          viewportTarget,
+          (stateTarget) => adapter.analyze(stateTarget, options),
+          mergeAnalysisSummaries,
+          onProgress
+        ),
+      mergeAnalysisSummaries,
+      context.reportProgress
+    );
 
     if (!result.success) {
       context.logger.warn('Analysis completed with errors', {
@@ -81,8 +99,16 @@ const handleAxeAnalysis = withToolContext<AxeToolInput>(
       });
     }
 
-    const output = formatOutput(result);
-    return createJsonResponse(output, !result.success);
+    const screenshots = extractScreenshotContent(result);
+    context.recordHistory(target, screenshots.result);
+
+    const output = formatOutput(screenshots.result);
+    const response = createFormattedResponse(
+      screenshots.result,
+      output,
+      input.options?.outputFormat
+    );
+    return { ...response, content: [...response.content, ...screenshots.content] };
   }
 );
 
@@ -95,25 +121,36 @@ Returns accessibility violations and incomplete checks based on WCAG guidelines.
 Input options
 - url: URL of the page to analyze
 - html: Raw HTML content to analyze (alternative to url)
-- options.wcagLevel: WCAG level to check (A, AA, or AAA). Default: AA
+- options.wcagLevel: WCAG level to check (A, AA, or AAA). Default: project config, else AA
 - options.rules: Specific axe rule IDs to run
 - options.excludeRules: Axe rule IDs to exclude
 - options.includeIncomplete: Include needs-review results. Default: false
+- options.screenshots: Capture a cropped, highlighted screenshot of each element with an issue. Elements that are offscreen or have no size are skipped
+  - maxElements: Maximum screenshots per page load. Default: 10, max: 50
+  - fullPage: Also capture the whole page with a numbered marker on each captured element. Default: false
+  - outputDir: Write PNG files to this directory instead of returning the images
 - options.browser.waitForSelector: CSS selector to wait for before analysis
 - options.browser.viewport: Browser viewport dimensions
-- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors (for local dev servers). Default: false
+- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors (for local dev servers). Default: project config, else false
+- options.browser.authentication: Cookies, localStorage, headers, basic auth or a login script for protected pages (secrets are redacted from output)
+- options.browser.actions: Interactions run before analysis (click, hover, focus, type, press, scroll, wait, select)
+- options.browser.states: Named UI states, each with its own actions; issues are tagged with the state and counted in summary.byState
+- options.browser.viewports: Viewports to analyze in one call, as presets ("mobile", "tablet", "desktop") or { name, preset, width, height, deviceScaleFactor, isMobile, hasTouch } (max 6); issues are tagged with the viewport and viewportSpecific, and counted in summary.byViewport, summary.viewportSpecific and summary.allViewports
+- options.outputFormat: Response format, "json", "sarif" (SARIF 2.1.0), "junit" (JUnit XML) or "tap" (TAP 13). Default: json
 
 Output
 - issues: Array of accessibility issues found
 - summary: Issue counts by severity and WCAG principle
-- metadata: Tool version and browser info`,
+- metadata: Tool version and browser info
+- issues[].screenshot: Marker number, position and, with outputDir, file path of the element screenshot. Without outputDir the images follow the JSON as image content, each after a text item naming its issues
+- pageScreenshots: Files of the annotated full-page screenshots, when outputDir is set`,
 
   register(server: McpServer): void {
     server.tool(
       this.name,
       this.description,
       AxeToolMcpInputSchema.shape,
-      async (input): Promise<{ content: Array<{ type: 'text'; text: string }> }> => {
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
         const validator = AxeToolInputSchema.safeParse(input);
 
         if (!validator.success) {
@@ -124,7 +161,7 @@ Output
           return { content: response.content };
         }
 
-        const response = await handleAxeAnalysis(validator.data);
+        const response = await handleAxeAnalysis(validator.data, extra);
         return { content: response.content };
       }
     );
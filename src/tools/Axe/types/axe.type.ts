@@ -1,6 +1,11 @@
 import { z } from 'zod';
+import { AuthenticationSchema } from '@/shared/types/authentication.js';
+import { InteractionActionsSchema, InteractionStatesSchema } from '@/shared/types/interaction.js';
+import { ViewportsSchema } from '@/shared/types/viewport.js';
 import { WCAGLevelSchema } from '@/shared/types/accessibility.js';
 import type { AnalysisResult } from '@/shared/types/accessibility.js';
+import { ScreenshotOptionsSchema } from '@/shared/types/screenshot.js';
+import { BackgroundSchema, OutputFormatSchema } from '@/tools/Base/types/base.types.js';
 
 const ViewportSchema = z
   .object({
@@ -24,6 +29,12 @@ const BrowserOptionsSchema = z
       .boolean()
       .optional()
       .describe('Ignore HTTPS certificate errors (useful for local dev servers with self-signed certs)'),
+    authentication: AuthenticationSchema.optional().describe(
+      'Authentication for protected pages: cookies, localStorage, headers, basic auth or a login script'
+    ),
+    actions: InteractionActionsSchema.optional(),
+    states: InteractionStatesSchema.optional(),
+    viewports: ViewportsSchema.optional(),
   })
   .describe('Browser behavior options');
 
@@ -31,9 +42,10 @@ export const AxeToolInputSchema = z
   .object({
     url: z.string().url().optional().describe('URL of the page to analyze'),
     html: z.string().min(1).optional().describe('Raw HTML content to analyze'),
+    background: BackgroundSchema,
     options: z
       .object({
-        wcagLevel: WCAGLevelSchema.default('AA').describe('WCAG conformance level to check'),
+        wcagLevel: WCAGLevelSchema.optional().describe('WCAG conformance level to check'),
         rules: z.array(z.string()).optional().describe('Specific axe rule IDs to run'),
         excludeRules: z.array(z.string()).optional().describe('Axe rule IDs to exclude'),
         includeIncomplete: z
@@ -44,6 +56,8 @@ export const AxeToolInputSchema = z
           .string()
           .optional()
           .describe('CSS selector to scope analysis to specific element'),
+        screenshots: ScreenshotOptionsSchema.optional(),
+        outputFormat: OutputFormatSchema.default('json'),
         browser: BrowserOptionsSchema.optional(),
       })
       .optional(),
@@ -65,6 +79,7 @@ export interface AxeToolOutput {
   issues: AnalysisResult['issues'];
   summary: AnalysisResult['summary'];
   metadata?: AnalysisResult['metadata'] | undefined;
+  pageScreenshots?: string[] | undefined;
   duration?: number | undefined;
   error?: string | undefined;
 }
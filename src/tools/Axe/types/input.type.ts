@@ -1,11 +1,16 @@
 import { z } from 'zod';
-import { BaseToolInputSchema, BrowserOptionsSchema } from '@/tools/Base/types/base.types.js';
+import {
+  BaseToolInputSchema,
+  BrowserOptionsSchema,
+  OutputFormatSchema,
+} from '@/tools/Base/types/base.types.js';
 import { WCAGLevelSchema } from '@/shared/types/accessibility.js';
+import { ScreenshotOptionsSchema } from '@/shared/types/screenshot.js';
 
 export const AxeToolMcpInputSchema = BaseToolInputSchema.extend({
   options: z
     .object({
-      wcagLevel: WCAGLevelSchema.default('AA').describe('WCAG conformance level to check'),
+      wcagLevel: WCAGLevelSchema.optional().describe('WCAG conformance level to check'),
       rules: z.array(z.string()).optional().describe('Specific axe rule IDs to run'),
       excludeRules: z.array(z.string()).optional().describe('Axe rule IDs to exclude'),
       includeIncomplete: z
@@ -13,6 +18,8 @@ export const AxeToolMcpInputSchema = BaseToolInputSchema.extend({
         .default(false)
         .describe('Include incomplete/needs-review results'),
       selector: z.string().optional().describe('CSS selector to scope analysis'),
+      screenshots: ScreenshotOptionsSchema.optional(),
+      outputFormat: OutputFormatSchema.default('json'),
       browser: BrowserOptionsSchema.optional(),
     })
     .optional(),
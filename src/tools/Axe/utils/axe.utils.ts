@@ -1,10 +1,12 @@
 import type { AnalysisTarget, AnalysisOptions } from '@/shared/types/analysis.js';
+import { applyIgnoredRules, applyProjectTarget, resolveWcagLevel } from '@/shared/config/index.js';
 import type { AnalysisResult } from '@/shared/types/accessibility.js';
+import { getPageScreenshotPaths } from '@/shared/browser/screenshots.js';
 import type { AxeToolInput, AxeToolOutput } from '../types/index.js';
 
 export function buildAnalysisTarget(input: AxeToolInput): AnalysisTarget {
   if (input.url) {
-    return {
+    return applyProjectTarget({
       type: 'url',
       value: input.url,
       options: {
@@ -12,11 +14,15 @@ export function buildAnalysisTarget(input: AxeToolInput): AnalysisTarget {
         timeout: input.options?.browser?.waitForTimeout,
         viewport: input.options?.browser?.viewport,
         ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+        authentication: input.options?.browser?.authentication,
+        actions: input.options?.browser?.actions,
+        states: input.options?.browser?.states,
+        viewports: input.options?.browser?.viewports,
       },
-    };
+    });
   }
 
-  return {
+  return applyProjectTarget({
     type: 'html',
     value: input.html!,
     options: {
@@ -24,17 +30,26 @@ export function buildAnalysisTarget(input: AxeToolInput): AnalysisTarget {
       timeout: input.options?.browser?.waitForTimeout,
       viewport: input.options?.browser?.viewport,
       ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+      authentication: input.options?.browser?.authentication,
+      actions: input.options?.browser?.actions,
+      states: input.options?.browser?.states,
+      viewports: input.options?.browser?.viewports,
     },
-  };
+  });
 }
 
 export function buildAnalysisOptions(input: AxeToolInput): AnalysisOptions {
-  return {
-    wcagLevel: input.options?.wcagLevel ?? 'AA',
-    rules: input.options?.rules,
-    excludeRules: input.options?.excludeRules,
-    includeWarnings: input.options?.includeIncomplete ?? false,
-  };
+  return applyIgnoredRules(
+    {
+      wcagLevel: input.options?.wcagLevel ?? resolveWcagLevel(input.url),
+      rules: input.options?.rules,
+      excludeRules: input.options?.excludeRules,
+      includeWarnings: input.options?.includeIncomplete ?? false,
+      screenshots: input.options?.screenshots,
+    },
+    'axe-core',
+    input.url
+  );
 }
 
 export function formatOutput(result: AnalysisResult): AxeToolOutput {
@@ -45,6 +60,7 @@ export function formatOutput(result: AnalysisResult): AxeToolOutput {
     issues: result.issues,
     summary: result.summary,
     metadata: result.metadata,
+    pageScreenshots: getPageScreenshotPaths(result.snapshots),
     duration: result.duration,
     error: result.error,
   };
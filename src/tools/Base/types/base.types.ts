@@ -1,5 +1,8 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import { AuthenticationSchema } from '@/shared/types/authentication.js';
+import { InteractionActionsSchema, InteractionStatesSchema } from '@/shared/types/interaction.js';
+import { ViewportsSchema } from '@/shared/types/viewport.js';
 
 export interface ToolDefinition {
   name: string;
@@ -7,11 +10,19 @@ export interface ToolDefinition {
   register(server: McpServer): void;
 }
 
+export type ToolContent =
+  | {
+      type: 'text';
+      text: string;
+    }
+  | {
+      type: 'image';
+      data: string;
+      mimeType: string;
+    };
+
 export interface ToolResponse {
-  content: Array<{
-    type: 'text';
-    text: string;
-  }>;
+  content: ToolContent[];
   isError?: boolean;
   [key: string]: unknown;
 }
@@ -36,16 +47,37 @@ export const BrowserOptionsSchema = z
     viewport: ViewportSchema.optional(),
     ignoreHTTPSErrors: z
       .boolean()
-      .default(false)
+      .optional()
       .describe('Ignore HTTPS certificate errors (useful for local dev servers with self-signed certs)'),
+    authentication: AuthenticationSchema.optional().describe(
+      'Authentication for protected pages: cookies, localStorage, headers, basic auth or a login script'
+    ),
+    actions: InteractionActionsSchema.optional(),
+    states: InteractionStatesSchema.optional(),
+    viewports: ViewportsSchema.optional(),
   })
   .describe('Browser behavior options');
 
+export const OutputFormatSchema = z
+  .enum(['json', 'sarif', 'junit', 'tap'])
+  .describe(
+    'Response format: json (tool output), sarif (SARIF 2.1.0), junit (JUnit XML) or tap (TAP 13)'
+  );
+
+export const BackgroundSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    'Return the job id as soon as the job is queued instead of waiting for the result; fetch the result later with get-job-result'
+  );
+
 export const BaseToolInputSchema = z.object({
   url: z.string().url().optional().describe('URL of the page to analyze'),
   html: z.string().min(1).optional().describe('Raw HTML content to analyze'),
+  background: BackgroundSchema,
 });
 
 export type Viewport = z.infer<typeof ViewportSchema>;
+export type OutputFormat = z.infer<typeof OutputFormatSchema>;
 export type BrowserOptions = z.infer<typeof BrowserOptionsSchema>;
 export type BaseToolInput = z.infer<typeof BaseToolInputSchema>;
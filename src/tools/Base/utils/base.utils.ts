@@ -1,5 +1,23 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
 import { createToolLogger, generateRequestId } from '@/shared/utils/logger.js';
-import type { ToolResponse } from '../types/index.js';
+import { ensureProjectConfig, getJobQueueSettings } from '@/shared/config/index.js';
+import {
+  JobCancelledError,
+  JobQueue,
+  type JobHandle,
+  type JobProgress,
+} from '@/shared/jobs/index.js';
+import { recordAnalysisHistory, type RecordableResult } from '@/shared/history/index.js';
+import {
+  toJUnitXml,
+  toSarifLog,
+  toTap,
+  type ReportableAnalysisResult,
+} from '@/shared/reporters/index.js';
+import type { AccessibilityIssue, PageSnapshot } from '@/shared/types/accessibility.js';
+import type { AnalysisTarget } from '@/shared/types/analysis.js';
+import type { OutputFormat, ToolContent, ToolResponse } from '../types/index.js';
 
 export function createTextResponse(text: string, isError = false): ToolResponse {
   return {
@@ -20,9 +38,130 @@ export function createErrorResponse(error: unknown): ToolResponse {
   return createTextResponse(`Error: ${message}`, true);
 }
 
+export function createFormattedResponse<T>(
+  result: ReportableAnalysisResult,
+  output: T,
+  format: OutputFormat = 'json'
+): ToolResponse {
+  const isError = !result.success;
+
+  switch (format) {
+    case 'sarif':
+      return createJsonResponse(toSarifLog(result), isError);
+    case 'junit':
+      return createTextResponse(toJUnitXml(result), isError);
+    case 'tap':
+      return createTextResponse(toTap(result), isError);
+    default:
+      return createJsonResponse(output, isError);
+  }
+}
+
+interface ScreenshotSource {
+  issues: AccessibilityIssue[];
+  snapshots?: PageSnapshot[] | undefined;
+  individualResults?:
+    | Array<{ issues: AccessibilityIssue[]; snapshots?: PageSnapshot[] | undefined }>
+    | undefined;
+}
+
+interface ScreenshotEntry {
+  label: string;
+  issueIds: string[];
+}
+
+function withoutScreenshotData<
+  T extends { screenshot?: { data?: string | undefined } | undefined },
+>(item: T): T {
+  if (item.screenshot?.data === undefined) return item;
+  const { data: _data, ...screenshot } = item.screenshot;
+  return { ...item, screenshot };
+}
+
+/**
+ * Moves inline screenshot data out of a result so it is sent as MCP image
+ * content instead of base64 inside the JSON output and the history. Each image
+ * is preceded by a text item naming the issues and page load it belongs to.
+ */
+export function extractScreenshotContent<R extends ScreenshotSource>(
+  result: R
+): { result: R; content: ToolContent[] } {
+  const entries = new Map<string, ScreenshotEntry>();
+
+  const addIssues = (issues: AccessibilityIssue[]): void => {
+    for (const issue of issues) {
+      const data = issue.screenshot?.data;
+      if (!data) continue;
+
+      const entry = entries.get(data);
+      if (entry) {
+        if (!entry.issueIds.includes(issue.id)) entry.issueIds.push(issue.id);
+        continue;
+      }
+      entries.set(data, {
+        label: `Screenshot ${issue.screenshot?.marker} of ${issue.location.selector ?? 'element'}${issue.state ? ` in state "${issue.state}"` : ''}`,
+        issueIds: [issue.id],
+      });
+    }
+  };
+  const addSnapshots = (snapshots: PageSnapshot[] | undefined): void => {
+    for (const snapshot of snapshots ?? []) {
+      const data = snapshot.screenshot?.data;
+      if (!data || entries.has(data)) continue;
+      entries.set(data, {
+        label: `Annotated page screenshot of page load ${snapshot.id}${snapshot.state ? ` in state "${snapshot.state}"` : ''}`,
+        issueIds: [],
+      });
+    }
+  };
+
+  addIssues(result.issues);
+  addSnapshots(result.snapshots);
+  for (const individual of result.individualResults ?? []) {
+    addIssues(individual.issues);
+    addSnapshots(individual.snapshots);
+  }
+
+  if (entries.size === 0) return { result, content: [] };
+
+  const content = Array.from(entries).flatMap(([data, entry]): ToolContent[] => [
+    {
+      type: 'text',
+      text:
+        entry.issueIds.length > 0
+          ? `${entry.label} (issues ${entry.issueIds.join(', ')})`
+          : entry.label,
+    },
+    { type: 'image', data, mimeType: 'image/png' },
+  ]);
+
+  return {
+    result: {
+      ...result,
+      issues: result.issues.map(withoutScreenshotData),
+      snapshots: result.snapshots?.map(withoutScreenshotData),
+      ...(result.individualResults && {
+        individualResults: result.individualResults.map((individual) => ({
+          ...individual,
+          issues: individual.issues.map(withoutScreenshotData),
+          snapshots: individual.snapshots?.map(withoutScreenshotData),
+        })),
+      }),
+    },
+    content,
+  };
+}
+
+export type ToolRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
 export interface ToolExecutionContext {
   requestId: string;
+  jobId: string;
   logger: ReturnType<typeof createToolLogger>;
+  signal: AbortSignal;
+  reportProgress(progress: number, total?: number, message?: string): void;
+  /** Records the result in the history under the tool name once the handler returns. */
+  recordHistory(target: AnalysisTarget, result: RecordableResult): void;
 }
 
 export type ToolHandler<TInput> = (
@@ -30,41 +169,126 @@ export type ToolHandler<TInput> = (
   context: ToolExecutionContext
 ) => Promise<ToolResponse>;
 
-export function withToolContext<TInput>(
+let toolJobQueue: JobQueue<ToolResponse> | null = null;
+
+export function getToolJobQueue(): JobQueue<ToolResponse> {
+  toolJobQueue ??= new JobQueue<ToolResponse>(getJobQueueSettings());
+  return toolJobQueue;
+}
+
+export function resetToolJobQueue(): void {
+  toolJobQueue = null;
+}
+
+function createProgressNotifier(
+  extra?: ToolRequestExtra
+): ((progress: JobProgress) => void) | undefined {
+  const progressToken = extra?._meta?.progressToken;
+  if (!extra || progressToken === undefined) return undefined;
+
+  return (progress) => {
+    extra
+      .sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress: progress.progress,
+          ...(progress.total !== undefined && { total: progress.total }),
+          ...(progress.message && { message: progress.message }),
+        },
+      })
+      .catch(() => {});
+  };
+}
+
+/**
+ * Runs a tool handler as a job on the shared queue. The job id is derived
+ * from the request id, progress is forwarded as MCP progress notifications
+ * when the client sent a progress token, and cancelling the request aborts
+ * the job. Results the handler passes to `recordHistory` are recorded in the
+ * analysis history before the job completes. With `background: true` the
+ * call returns the queued job right away and the output is fetched later
+ * with get-job-result.
+ */
+export function withToolContext<TInput extends { background?: boolean | undefined }>(
   toolName: string,
   handler: ToolHandler<TInput>
-): (input: TInput) => Promise<ToolResponse> {
+): (input: TInput, extra?: ToolRequestExtra) => Promise<ToolResponse> {
   const toolLogger = createToolLogger(toolName);
 
-  return async (input: TInput): Promise<ToolResponse> => {
+  return async (input: TInput, extra?: ToolRequestExtra): Promise<ToolResponse> => {
     const requestId = generateRequestId();
+    const jobId = requestId.replace(/^req_/, 'job_');
+    const background = input.background ?? false;
 
-    toolLogger.info('Tool execution started', { requestId });
+    toolLogger.info('Tool execution started', { requestId, jobId, background });
     const startTime = Date.now();
 
-    try {
-      const result = await handler(input, {
-        requestId,
-        logger: toolLogger,
-      });
-
+    const handleFailure = (error: unknown): ToolResponse => {
       const duration = Date.now() - startTime;
-      toolLogger.info('Tool execution completed', {
-        requestId,
-        durationMs: duration,
-        isError: result.isError ?? false,
-      });
 
-      return result;
-    } catch (error) {
-      const duration = Date.now() - startTime;
+      if (error instanceof JobCancelledError) {
+        toolLogger.info('Tool execution cancelled', { requestId, jobId, durationMs: duration });
+        return createErrorResponse(error);
+      }
+
       toolLogger.error('Tool execution failed', {
         requestId,
+        jobId,
         durationMs: duration,
         error: error instanceof Error ? error : new Error(String(error)),
       });
 
       return createErrorResponse(error);
+    };
+
+    let job: JobHandle<ToolResponse>;
+    try {
+      await ensureProjectConfig();
+
+      // A background call has already been answered when the job runs, so
+      // neither its progress token nor its cancellation applies to the job.
+      job = getToolJobQueue().submit(
+        toolName,
+        async (jobContext) => {
+          const analyses: Array<{ target: AnalysisTarget; result: RecordableResult }> = [];
+          const response = await handler(input, {
+            requestId,
+            jobId,
+            logger: toolLogger,
+            signal: jobContext.signal,
+            reportProgress: jobContext.reportProgress,
+            recordHistory: (target, result) => {
+              analyses.push({ target, result });
+            },
+          });
+
+          for (const { target, result } of analyses) {
+            await recordAnalysisHistory(toolName, target, result);
+          }
+          return response;
+        },
+        background
+          ? { id: jobId }
+          : { id: jobId, signal: extra?.signal, onProgress: createProgressNotifier(extra) }
+      );
+    } catch (error) {
+      return handleFailure(error);
+    }
+
+    const completion = job.result.then((result) => {
+      toolLogger.info('Tool execution completed', {
+        requestId,
+        jobId,
+        durationMs: Date.now() - startTime,
+        isError: result.isError ?? false,
+      });
+      return result;
+    }, handleFailure);
+
+    if (background) {
+      return createJsonResponse(getToolJobQueue().get(job.id));
     }
+    return completion;
   };
 }
@@ -0,0 +1,3 @@
+export { saveBaselineTool, compareToBaselineTool } from './main.js';
+export * from './types/index.js';
+export * from './utils/index.js';
@@ -0,0 +1,236 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolSource } from '@/shared/types/accessibility.js';
+import { isAtLeastSeverity } from '@/shared/utils/severity.js';
+import {
+  SaveBaselineInputSchema,
+  CompareToBaselineInputSchema,
+  type SaveBaselineInput,
+  type CompareToBaselineInput,
+  type SaveBaselineOutput,
+  type CompareToBaselineOutput,
+} from './types/index.js';
+import {
+  buildAnalysisTarget,
+  buildAnalysisOptions,
+  createBaselineFile,
+  compareToBaseline,
+  countBySeverity,
+  readBaselineFile,
+  writeBaselineFile,
+} from './utils/index.js';
+import { runCombinedAnalysis, type WebAnalysisTool } from '../AnalyzeMixed/main.js';
+import {
+  type ToolContent,
+  type ToolDefinition,
+  type ToolResponse,
+  createJsonResponse,
+  createErrorResponse,
+  withToolContext,
+} from '../Base/index.js';
+
+const WEB_ANALYSIS_TOOLS: WebAnalysisTool[] = ['axe-core', 'pa11y', 'lighthouse'];
+const DEFAULT_BASELINE_TOOLS: WebAnalysisTool[] = ['axe-core', 'pa11y'];
+
+const handleSaveBaseline = withToolContext<SaveBaselineInput>(
+  'save-baseline',
+  async (input, context): Promise<ToolResponse> => {
+    const toolsToRun = input.tools ?? DEFAULT_BASELINE_TOOLS;
+    const target = buildAnalysisTarget(input);
+    const options = buildAnalysisOptions(input);
+
+    context.logger.info('Building accessibility baseline', {
+      tools: toolsToRun,
+      baselinePath: input.baselinePath,
+    });
+
+    const { result } = await runCombinedAnalysis(target, options, {
+      tools: toolsToRun,
+      deduplicate: true,
+      ignoreHTTPSErrors: target.options?.ignoreHTTPSErrors ?? false,
+      logger: context.logger,
+      onProgress: context.reportProgress,
+    });
+
+    if (!result.success) {
+      return createErrorResponse(
+        new Error(
+          `Baseline not saved because the analysis failed: ${result.error ?? 'unknown error'}`
+        )
+      );
+    }
+
+    const baseline = createBaselineFile(
+      target.value,
+      toolsToRun as ToolSource[],
+      options.wcagLevel,
+      result.issues
+    );
+    const absolutePath = await writeBaselineFile(input.baselinePath, baseline);
+
+    context.logger.info('Baseline saved', {
+      baselinePath: absolutePath,
+      issueCount: baseline.issues.length,
+    });
+
+    const output: SaveBaselineOutput = {
+      success: true,
+      target: target.value,
+      baselinePath: absolutePath,
+      issueCount: baseline.issues.length,
+      summary: result.summary,
+      createdAt: baseline.createdAt,
+      duration: result.duration,
+    };
+    return createJsonResponse(output);
+  }
+);
+
+const handleCompareToBaseline = withToolContext<CompareToBaselineInput>(
+  'compare-to-baseline',
+  async (input, context): Promise<ToolResponse> => {
+    const baseline = await readBaselineFile(input.baselinePath);
+    const failOn = input.options?.failOn ?? 'minor';
+    const baselineTools = WEB_ANALYSIS_TOOLS.filter((tool) => baseline.tools.includes(tool));
+    const toolsToRun =
+      input.tools ?? (baselineTools.length > 0 ? baselineTools : DEFAULT_BASELINE_TOOLS);
+    const target = buildAnalysisTarget(input);
+    const options = {
+      ...buildAnalysisOptions(input),
+      wcagLevel: input.options?.wcagLevel ?? baseline.wcagLevel,
+    };
+
+    context.logger.info('Comparing against accessibility baseline', {
+      tools: toolsToRun,
+      baselinePath: input.baselinePath,
+      baselineIssues: baseline.issues.length,
+    });
+
+    const { result } = await runCombinedAnalysis(target, options, {
+      tools: toolsToRun,
+      deduplicate: true,
+      ignoreHTTPSErrors: target.options?.ignoreHTTPSErrors ?? false,
+      logger: context.logger,
+      onProgress: context.reportProgress,
+    });
+
+    const comparison = compareToBaseline(result.issues, baseline.issues);
+    const blockingIssues = comparison.newIssues.filter((issue) =>
+      isAtLeastSeverity(issue.severity, failOn)
+    );
+
+    context.logger.info('Baseline comparison completed', {
+      newIssues: comparison.newIssues.length,
+      fixedIssues: comparison.fixedIssues.length,
+      unchangedIssues: comparison.unchangedIssues.length,
+      blockingIssues: blockingIssues.length,
+    });
+
+    const output: CompareToBaselineOutput = {
+      success: result.success,
+      passed: result.success && blockingIssues.length === 0,
+      target: target.value,
+      baselinePath: input.baselinePath,
+      baselineCreatedAt: baseline.createdAt,
+      failOn,
+      counts: {
+        new: comparison.newIssues.length,
+        fixed: comparison.fixedIssues.length,
+        unchanged: comparison.unchangedIssues.length,
+      },
+      newIssues: comparison.newIssues,
+      fixedIssues: comparison.fixedIssues,
+      unchangedIssues: comparison.unchangedIssues,
+      newIssuesBySeverity: countBySeverity(comparison.newIssues),
+      duration: result.duration,
+      error: result.error,
+    };
+    return createJsonResponse(output, !result.success);
+  }
+);
+
+export const saveBaselineTool: ToolDefinition = {
+  name: 'save-baseline',
+  description: `Run a combined accessibility analysis and save the issues found as a baseline JSON file.
+
+Use the baseline with compare-to-baseline to separate new regressions from known accessibility debt.
+
+Input options
+- url: URL of the page to analyze
+- html: Raw HTML content to analyze (alternative to url)
+- baselinePath: Path of the baseline JSON file to write (created or overwritten)
+- tools: Array of tools to run ['axe-core', 'pa11y', 'lighthouse']. Default: ['axe-core', 'pa11y']
+- options.wcagLevel: WCAG level (A, AA, AAA). Default: project config, else AA
+- options.browser: Browser options (waitForSelector, viewport, ignoreHTTPSErrors)
+
+Output
+- baselinePath: Absolute path of the written file
+- issueCount: Number of issues stored in the baseline
+- summary: Issue counts by severity, principle and tool`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      SaveBaselineInputSchema.shape,
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
+        const parseResult = SaveBaselineInputSchema.safeParse(input);
+
+        if (!parseResult.success || (!parseResult.data.url && !parseResult.data.html)) {
+          const errors = parseResult.success
+            ? 'Provide url or html to analyze'
+            : parseResult.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ');
+          const response = createErrorResponse(new Error(`Invalid input: ${errors}`));
+          return { content: response.content };
+        }
+
+        const response = await handleSaveBaseline(parseResult.data, extra);
+        return { content: response.content };
+      }
+    );
+  },
+};
+
+export const compareToBaselineTool: ToolDefinition = {
+  name: 'compare-to-baseline',
+  description: `Run a combined accessibility analysis and classify every issue against a saved baseline as new, fixed or unchanged.
+
+Issues are matched with a stable fingerprint (tool, rule, WCAG criterion and a normalized selector) that ignores message wording, positional selectors and generated class names. The comparison passes when there are no new issues at or above options.failOn.
+
+Input options
+- url: URL of the page to analyze
+- html: Raw HTML content to analyze (alternative to url)
+- baselinePath: Path of the baseline JSON file created by save-baseline
+- tools: Tools to run. Default: the tools recorded in the baseline
+- options.wcagLevel: WCAG level (A, AA, AAA). Default: level recorded in the baseline
+- options.failOn: Lowest severity of new issues that fails the comparison. Default: minor
+- options.browser: Browser options (waitForSelector, viewport, ignoreHTTPSErrors)
+
+Output
+- passed: Whether no blocking regressions were found
+- counts: Number of new, fixed and unchanged issues
+- newIssues: Issues not present in the baseline (regressions)
+- fixedIssues: Baseline issues no longer found
+- unchangedIssues: Known issues still present`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      CompareToBaselineInputSchema.shape,
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
+        const parseResult = CompareToBaselineInputSchema.safeParse(input);
+
+        if (!parseResult.success || (!parseResult.data.url && !parseResult.data.html)) {
+          const errors = parseResult.success
+            ? 'Provide url or html to analyze'
+            : parseResult.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ');
+          const response = createErrorResponse(new Error(`Invalid input: ${errors}`));
+          return { content: response.content };
+        }
+
+        const response = await handleCompareToBaseline(parseResult.data, extra);
+        return { content: response.content };
+      }
+    );
+  },
+};
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { SeveritySchema, ToolSourceSchema, WCAGLevelSchema } from '@/shared/types/accessibility.js';
+import type { AccessibilityIssue, AnalysisSummary } from '@/shared/types/accessibility.js';
+import { BaseToolInputSchema, BrowserOptionsSchema } from '@/tools/Base/types/base.types.js';
+
+export const BASELINE_FILE_VERSION = 1;
+
+export const BaselineIssueSchema = z
+  .object({
+    fingerprint: z.string().min(1).describe('Stable fingerprint used to match issues across runs'),
+    ruleId: z.string().min(1),
+    tool: ToolSourceSchema,
+    severity: SeveritySchema,
+    criterion: z.string().optional(),
+    selector: z.string().optional(),
+    message: z.string(),
+  })
+  .describe('Issue stored in a baseline file');
+export type BaselineIssue = z.infer<typeof BaselineIssueSchema>;
+
+export const BaselineFileSchema = z
+  .object({
+    version: z.literal(BASELINE_FILE_VERSION),
+    createdAt: z.string().datetime(),
+    target: z.string(),
+    tools: z.array(ToolSourceSchema),
+    wcagLevel: WCAGLevelSchema,
+    issues: z.array(BaselineIssueSchema),
+  })
+  .describe('Accepted accessibility issues for a target');
+export type BaselineFile = z.infer<typeof BaselineFileSchema>;
+
+const BaselineAnalysisOptionsSchema = z.object({
+  wcagLevel: WCAGLevelSchema.optional(),
+  browser: BrowserOptionsSchema.optional(),
+});
+
+export const SaveBaselineInputSchema = BaseToolInputSchema.extend({
+  baselinePath: z.string().min(1).describe('Path of the baseline JSON file to write'),
+  tools: z
+    .array(z.enum(['axe-core', 'pa11y', 'lighthouse']))
+    .min(1)
+    .default(['axe-core', 'pa11y'])
+    .describe('Tools to run to build the baseline'),
+  options: BaselineAnalysisOptionsSchema.optional(),
+});
+
+export const CompareToBaselineInputSchema = BaseToolInputSchema.extend({
+  baselinePath: z.string().min(1).describe('Path of the baseline JSON file to compare against'),
+  tools: z
+    .array(z.enum(['axe-core', 'pa11y', 'lighthouse']))
+    .min(1)
+    .optional()
+    .describe('Tools to run (default: the tools recorded in the baseline)'),
+  options: BaselineAnalysisOptionsSchema.extend({
+    failOn: SeveritySchema.default('minor').describe(
+      'Lowest severity of new issues that makes the comparison fail'
+    ),
+  }).optional(),
+});
+
+export type SaveBaselineInput = z.infer<typeof SaveBaselineInputSchema>;
+export type CompareToBaselineInput = z.infer<typeof CompareToBaselineInputSchema>;
+
+export type BaselineStatus = 'new' | 'fixed' | 'unchanged';
+
+export interface BaselineComparison {
+  newIssues: AccessibilityIssue[];
+  fixedIssues: BaselineIssue[];
+  unchangedIssues: AccessibilityIssue[];
+}
+
+export interface SaveBaselineOutput {
+  success: boolean;
+  target: string;
+  baselinePath: string;
+  issueCount: number;
+  summary: AnalysisSummary;
+  createdAt: string;
+  duration?: number | undefined;
+  error?: string | undefined;
+}
+
+export interface CompareToBaselineOutput {
+  success: boolean;
+  passed: boolean;
+  target: string;
+  baselinePath: string;
+  baselineCreatedAt: string;
+  failOn: z.infer<typeof SeveritySchema>;
+  counts: Record<BaselineStatus, number>;
+  newIssues: AccessibilityIssue[];
+  fixedIssues: BaselineIssue[];
+  unchangedIssues: AccessibilityIssue[];
+  newIssuesBySeverity: AnalysisSummary['bySeverity'];
+  duration?: number | undefined;
+  error?: string | undefined;
+}
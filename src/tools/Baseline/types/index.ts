@@ -0,0 +1 @@
+export * from './baseline.types.js';
@@ -0,0 +1,157 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type { AnalysisTarget, AnalysisOptions } from '@/shared/types/analysis.js';
+import type {
+  AccessibilityIssue,
+  AnalysisSummary,
+  ToolSource,
+  WCAGLevel,
+} from '@/shared/types/accessibility.js';
+import { formatValidationErrorsForMcp, validate } from '@/shared/types/validation.js';
+import { applyProjectTarget, resolveWcagLevel } from '@/shared/config/index.js';
+import { generateStableFingerprint } from '@/shared/utils/fingerprint.js';
+import {
+  BASELINE_FILE_VERSION,
+  BaselineFileSchema,
+  type BaselineComparison,
+  type BaselineFile,
+  type BaselineIssue,
+  type CompareToBaselineInput,
+  type SaveBaselineInput,
+} from '../types/index.js';
+
+export function buildAnalysisTarget(
+  input: SaveBaselineInput | CompareToBaselineInput
+): AnalysisTarget {
+  const options = {
+    waitForSelector: input.options?.browser?.waitForSelector,
+    timeout: input.options?.browser?.waitForTimeout,
+    viewport: input.options?.browser?.viewport,
+    ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+    authentication: input.options?.browser?.authentication,
+    actions: input.options?.browser?.actions,
+    states: input.options?.browser?.states,
+    viewports: input.options?.browser?.viewports,
+  };
+
+  if (input.url) {
+    return applyProjectTarget({ type: 'url', value: input.url, options });
+  }
+
+  return applyProjectTarget({ type: 'html', value: input.html!, options });
+}
+
+export function buildAnalysisOptions(
+  input: SaveBaselineInput | CompareToBaselineInput
+): AnalysisOptions {
+  return {
+    wcagLevel: input.options?.wcagLevel ?? resolveWcagLevel(input.url),
+    includeWarnings: true,
+  };
+}
+
+export function toBaselineIssue(issue: AccessibilityIssue): BaselineIssue {
+  return {
+    fingerprint: generateStableFingerprint(issue),
+    ruleId: issue.ruleId,
+    tool: issue.tool,
+    severity: issue.severity,
+    criterion: issue.wcag?.criterion,
+    selector: issue.location.selector,
+    message: issue.message,
+  };
+}
+
+export function createBaselineFile(
+  target: string,
+  tools: ToolSource[],
+  wcagLevel: WCAGLevel,
+  issues: AccessibilityIssue[]
+): BaselineFile {
+  return {
+    version: BASELINE_FILE_VERSION,
+    createdAt: new Date().toISOString(),
+    target,
+    tools,
+    wcagLevel,
+    issues: issues.map(toBaselineIssue),
+  };
+}
+
+export function compareToBaseline(
+  issues: AccessibilityIssue[],
+  baseline: BaselineIssue[]
+): BaselineComparison {
+  const remaining = new Map<string, BaselineIssue[]>();
+
+  for (const baselineIssue of baseline) {
+    const bucket = remaining.get(baselineIssue.fingerprint) ?? [];
+    bucket.push(baselineIssue);
+    remaining.set(baselineIssue.fingerprint, bucket);
+  }
+
+  const newIssues: AccessibilityIssue[] = [];
+  const unchangedIssues: AccessibilityIssue[] = [];
+
+  for (const issue of issues) {
+    const bucket = remaining.get(generateStableFingerprint(issue));
+
+    if (bucket && bucket.length > 0) {
+      bucket.pop();
+      unchangedIssues.push(issue);
+    } else {
+      newIssues.push(issue);
+    }
+  }
+
+  const fixedIssues = Array.from(remaining.values()).flat();
+
+  return { newIssues, fixedIssues, unchangedIssues };
+}
+
+export function countBySeverity(issues: AccessibilityIssue[]): AnalysisSummary['bySeverity'] {
+  const bySeverity = { critical: 0, serious: 0, moderate: 0, minor: 0 };
+
+  for (const issue of issues) {
+    bySeverity[issue.severity]++;
+  }
+
+  return bySeverity;
+}
+
+export function resolveBaselinePath(baselinePath: string): string {
+  return resolve(process.cwd(), baselinePath);
+}
+
+export async function readBaselineFile(baselinePath: string): Promise<BaselineFile> {
+  const absolutePath = resolveBaselinePath(baselinePath);
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(await readFile(absolutePath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read baseline file ${absolutePath}: ${message}`);
+  }
+
+  const result = validate(BaselineFileSchema, raw);
+  if (!result.success) {
+    throw new Error(
+      `Invalid baseline file ${absolutePath}\n${formatValidationErrorsForMcp(result.errors)}`
+    );
+  }
+
+  return result.data;
+}
+
+export async function writeBaselineFile(
+  baselinePath: string,
+  baseline: BaselineFile
+): Promise<string> {
+  const absolutePath = resolveBaselinePath(baselinePath);
+
+  await mkdir(dirname(absolutePath), { recursive: true });
+  await writeFile(absolutePath, `${JSON.stringify(baseline, null, 2)}\n`, 'utf-8');
+
+  return absolutePath;
+}
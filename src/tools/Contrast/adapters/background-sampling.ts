@@ -0,0 +1,126 @@
+import type { Page } from 'puppeteer';
+import { createAdapterLogger } from '@/shared/utils/logger.js';
+import type { RGB } from '../types/index.js';
+import type { ExtractedElement } from './page-helpers.js';
+
+/** Most text elements whose background is sampled per page load. */
+const MAX_SAMPLED_ELEMENTS = 100;
+
+/** Most pixels sampled from each element box. */
+const MAX_BACKGROUND_SAMPLES = 400;
+
+const HIDE_TEXT_STYLE_ID = 'a11y-hub-hide-text';
+
+const logger = createAdapterLogger('ContrastAdapter');
+
+/**
+ * Screenshots the box of each element that asks for it with all text on the
+ * page made transparent, and samples the pixels left behind into
+ * `backgroundSamples`. A failed capture leaves the element with its CSS
+ * background color.
+ */
+export async function sampleBackgrounds(
+  page: Page,
+  elements: ExtractedElement[]
+): Promise<ExtractedElement[]> {
+  const targets = elements
+    .map((element, index) => ({ index, box: element.sampleBox }))
+    .filter(
+      (target): target is { index: number; box: NonNullable<ExtractedElement['sampleBox']> } =>
+        target.box !== undefined && target.box.width >= 1 && target.box.height >= 1
+    );
+
+  if (targets.length === 0) return elements;
+
+  if (targets.length > MAX_SAMPLED_ELEMENTS) {
+    logger.info('Sampling backgrounds of the first elements only', {
+      candidates: targets.length,
+      sampled: MAX_SAMPLED_ELEMENTS,
+    });
+  }
+
+  const sampled = [...elements];
+
+  await page.evaluate((styleId: string) => {
+    const style = document.createElement('style');
+    style.id = styleId;
+    style.textContent = `*, *::before, *::after {
+      color: transparent !important;
+      -webkit-text-fill-color: transparent !important;
+      text-shadow: none !important;
+      text-decoration-color: transparent !important;
+      caret-color: transparent !important;
+      transition: none !important;
+    }`;
+    document.head.appendChild(style);
+  }, HIDE_TEXT_STYLE_ID);
+
+  try {
+    for (const { index, box } of targets.slice(0, MAX_SAMPLED_ELEMENTS)) {
+      try {
+        const pixels = await samplePixels(page, box);
+        if (pixels.length > 0) {
+          sampled[index] = { ...elements[index]!, backgroundSamples: pixels };
+        }
+      } catch (error) {
+        logger.debug('Could not sample background', {
+          selector: elements[index]?.selector,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } finally {
+    await page.evaluate((styleId: string) => {
+      document.getElementById(styleId)?.remove();
+    }, HIDE_TEXT_STYLE_ID);
+  }
+
+  return sampled;
+}
+
+/** Captures the box and decodes it in the page to read a grid of its pixels. */
+async function samplePixels(
+  page: Page,
+  box: NonNullable<ExtractedElement['sampleBox']>
+): Promise<RGB[]> {
+  const x = Math.max(0, Math.floor(box.x));
+  const y = Math.max(0, Math.floor(box.y));
+  const data = await page.screenshot({
+    clip: {
+      x,
+      y,
+      width: Math.max(1, Math.ceil(box.x + box.width) - x),
+      height: Math.max(1, Math.ceil(box.y + box.height) - y),
+    },
+    captureBeyondViewport: true,
+    encoding: 'base64',
+    type: 'png',
+  });
+
+  return await page.evaluate(
+    async (png: string, maxSamples: number) => {
+      const bytes = Uint8Array.from(atob(png), (char) => char.charCodeAt(0));
+      const bitmap = await createImageBitmap(new Blob([bytes], { type: 'image/png' }));
+      const canvas = document.createElement('canvas');
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      const context = canvas.getContext('2d');
+      if (!context) return [];
+
+      context.drawImage(bitmap, 0, 0);
+      const { data } = context.getImageData(0, 0, bitmap.width, bitmap.height);
+      const step = Math.max(1, Math.sqrt((bitmap.width * bitmap.height) / maxSamples));
+      const result: Array<{ r: number; g: number; b: number }> = [];
+
+      for (let py = step / 2; py < bitmap.height; py += step) {
+        for (let px = step / 2; px < bitmap.width; px += step) {
+          const offset = (Math.floor(py) * bitmap.width + Math.floor(px)) * 4;
+          result.push({ r: data[offset]!, g: data[offset + 1]!, b: data[offset + 2]! });
+        }
+      }
+      return result;
+    },
+    data,
+    MAX_BACKGROUND_SAMPLES
+  );
+}
@@ -1,8 +1,27 @@
-import type { Browser, Page } from 'puppeteer';
-import puppeteer from 'puppeteer';
+import type { Page } from 'puppeteer';
 import type { AnalysisTarget } from '@/shared/types/analysis.js';
-import type { Severity, WCAGReference, IssueLocation } from '@/shared/types/accessibility.js';
+import type {
+  Severity,
+  WCAGReference,
+  IssueLocation,
+  PageSnapshot,
+} from '@/shared/types/accessibility.js';
+import type { ScreenshotOptions } from '@/shared/types/screenshot.js';
 import { createAdapterLogger } from '@/shared/utils/logger.js';
+import { collectTargetSecrets, redactSecrets } from '@/shared/utils/redact.js';
+import {
+  closeTargetPage,
+  openTargetPage,
+  resolveAuthSession,
+} from '@/shared/browser/authentication.js';
+import { loadTarget } from '@/shared/browser/navigation.js';
+import { captureIssueScreenshots } from '@/shared/browser/screenshots.js';
+import {
+  getBrowserPool,
+  type BrowserLaunchOptions,
+  type BrowserLease,
+} from '@/shared/browser/pool.js';
+import { toPageViewport } from '@/shared/browser/viewports.js';
 import type {
   ContrastAnalysisResult,
   ContrastIssue,
@@ -10,21 +29,42 @@ import type {
   ContrastData,
   SuggestedFix,
   RGB,
+  ColorLayer,
   ContrastAlgorithm,
+  ContrastMode,
+  NonTextComponent,
+  BackgroundSampling,
+  BackgroundSamplingMode,
+  PseudoState,
+  StyleStates,
 } from '../types/index.js';
+import { APCA_THRESHOLDS, WCAG_THRESHOLDS } from '../types/index.js';
 import {
   parseColor,
+  parseColorWithAlpha,
+  blendOver,
+  compositeColors,
   getContrastRatio,
   getAPCAContrast,
   isLargeText,
   meetsWCAG,
+  meetsWCAGNonText,
   meetsAPCA,
   getRequiredRatio,
   getRequiredAPCALightness,
   suggestFixedColor,
   suggestFixedColorForAPCA,
+  summarizeSampledContrast,
   rgbToHex,
+  getContrastChecks,
 } from '../utils/index.js';
+import { extractNonTextData } from './non-text.js';
+import {
+  installContrastHelpers,
+  type ContrastWindow,
+  type ExtractedElement,
+} from './page-helpers.js';
+import { extractInStyleStates } from './style-states.js';
 
 export interface ContrastAdapterConfig {
   timeout?: number;
@@ -39,23 +79,40 @@ export interface ContrastAdapterOptions {
   suggestFixes?: boolean;
   includePassingElements?: boolean;
   selector?: string;
+  mode?: ContrastMode;
+  backgroundSampling?: BackgroundSamplingMode;
+  styleStates?: StyleStates;
+  screenshots?: ScreenshotOptions;
+  /** Rule ids left out: `color-contrast` and `non-text-contrast`. */
+  excludeRules?: string[] | undefined;
 }
 
-interface ExtractedElement {
-  selector: string;
-  snippet: string;
-  foreground: string;
-  background: string;
-  fontSize: number;
-  fontWeight: number;
-  hasText: boolean;
-}
+/** Confidence of results over a background that varies too much to judge. */
+const UNCERTAIN_CONFIDENCE = 0.5;
+
+/** Confidence of results whose filter or blend mode could only be approximated. */
+const APPROXIMATE_CONFIDENCE = 0.8;
+
+const PSEUDO_STATE_DESCRIPTIONS: Record<PseudoState, string> = {
+  hover: 'on hover',
+  focus: 'on focus',
+  visited: 'once the link is visited',
+  placeholder: 'in the placeholder',
+};
+
+const NON_TEXT_COMPONENT_LABELS: Record<NonTextComponent, string> = {
+  'input-border': 'input border',
+  'focus-ring': 'focus indicator',
+  icon: 'icon',
+  checkbox: 'checkbox',
+  radio: 'radio button',
+  chart: 'chart element',
+};
 
 export class ContrastAdapter {
   readonly name = 'contrast-analyzer';
   readonly version = '1.0.0';
 
-  private browser: Browser | null = null;
   private config: ContrastAdapterConfig;
   private logger: ReturnType<typeof createAdapterLogger>;
 
@@ -75,28 +132,109 @@ export class ContrastAdapter {
   ): Promise<ContrastAnalysisResult> {
     const startTime = Date.now();
     let page: Page | null = null;
-
-    const wcagLevel = options?.wcagLevel ?? 'AA';
-    const contrastAlgorithm = options?.contrastAlgorithm ?? 'WCAG21';
-    const suggestFixes = options?.suggestFixes ?? true;
-    const includePassingElements = options?.includePassingElements ?? false;
-    const selector = options?.selector;
+    let lease: BrowserLease | null = null;
+    let pageTarget = target;
 
     try {
       this.logger.info('Starting contrast analysis', { target: target.value });
 
-      await this.ensureBrowser();
-      page = await this.browser!.newPage();
+      pageTarget = await resolveAuthSession(target, {
+        timeout: this.config.timeout,
+        ignoreHTTPSErrors: this.config.ignoreHTTPSErrors,
+      });
+      lease = await getBrowserPool().acquire(this.launchOptions());
+      page = await openTargetPage(lease.browser, pageTarget);
 
       if (target.options?.viewport) {
-        await page.setViewport(target.options.viewport);
+        await page.setViewport(toPageViewport(target.options.viewport));
+      }
+
+      const snapshot = await loadTarget(page, pageTarget, this.config.timeout);
+      const result = await this.analyzePage(page, pageTarget, options, snapshot);
+
+      return { ...result, duration: Date.now() - startTime };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error('Contrast analysis failed', {
+        error: error as Error,
+        target: target.value,
+      });
+
+      return redactSecrets(
+        this.buildErrorResult(
+          target.value,
+          options?.wcagLevel ?? 'AA',
+          options?.contrastAlgorithm ?? 'WCAG21',
+          error,
+          duration
+        ),
+        collectTargetSecrets(pageTarget)
+      );
+    } finally {
+      if (page) {
+        await closeTargetPage(page);
       }
+      await lease?.release();
+    }
+  }
 
-      await this.loadTarget(page, target);
+  /**
+   * Checks contrast on a page that is already loaded, so it can share one
+   * render with other in-page analyses.
+   */
+  async analyzePage(
+    page: Page,
+    target: AnalysisTarget,
+    options?: ContrastAdapterOptions,
+    snapshot?: PageSnapshot
+  ): Promise<ContrastAnalysisResult> {
+    const startTime = Date.now();
+    let snapshots = snapshot ? [snapshot] : undefined;
 
-      const extractedElements = await this.extractColorData(page, selector);
-      const { issues, passingCount, failingCount, normalText, largeText } =
-        this.analyzeContrast(extractedElements, wcagLevel, contrastAlgorithm, suggestFixes, includePassingElements);
+    const wcagLevel = options?.wcagLevel ?? 'AA';
+    const contrastAlgorithm = options?.contrastAlgorithm ?? 'WCAG21';
+    const suggestFixes = options?.suggestFixes ?? true;
+    const includePassingElements = options?.includePassingElements ?? false;
+    const mode = options?.mode ?? 'text';
+    const backgroundSampling = options?.backgroundSampling ?? 'off';
+
+    try {
+      const checks = getContrastChecks(mode, options?.excludeRules);
+      const extractedElements = await extractInStyleStates(
+        page,
+        options?.styleStates,
+        (pseudoState) =>
+          this.extractElements(page, options?.selector, checks, backgroundSampling, pseudoState)
+      );
+      const analysis = this.analyzeContrast(
+        extractedElements,
+        wcagLevel,
+        contrastAlgorithm,
+        suggestFixes,
+        includePassingElements
+      );
+      const { passingCount, failingCount, normalText, largeText, nonText, sampled, byStyleState } =
+        analysis;
+      let issues = analysis.issues;
+
+      if (options?.screenshots) {
+        // The page is back in its default state, so only those issues can be captured
+        const captured = await captureIssueScreenshots(
+          page,
+          issues.filter(
+            (issue) =>
+              analysis.failingIds.has(issue.id) &&
+              (issue.contrastData.styleState ?? 'default') === 'default'
+          ),
+          options.screenshots,
+          `${snapshot?.id ?? `snap_${Date.now().toString(36)}`}-contrast`
+        );
+        const capturedById = new Map(captured.issues.map((issue) => [issue.id, issue]));
+        issues = issues.map((issue) => capturedById.get(issue.id) ?? issue);
+        if (snapshot && captured.pageScreenshot) {
+          snapshots = [{ ...snapshot, screenshot: captured.pageScreenshot }];
+        }
+      }
 
       const duration = Date.now() - startTime;
       this.logger.info('Contrast analysis completed', {
@@ -106,179 +244,252 @@ export class ContrastAdapter {
         duration,
       });
 
-      return this.buildSuccessResult(
-        target.value,
-        wcagLevel,
-        contrastAlgorithm,
-        issues,
-        passingCount + failingCount,
-        passingCount,
-        failingCount,
-        normalText,
-        largeText,
-        duration
+      return redactSecrets(
+        {
+          ...this.buildSuccessResult(
+            target.value,
+            wcagLevel,
+            contrastAlgorithm,
+            issues,
+            passingCount + failingCount,
+            passingCount,
+            failingCount,
+            normalText,
+            largeText,
+            mode !== 'text' ? nonText : undefined,
+            backgroundSampling !== 'off' ? sampled : undefined,
+            options?.styleStates ? byStyleState : undefined,
+            duration
+          ),
+          snapshots,
+        },
+        collectTargetSecrets(target)
       );
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error('Contrast analysis failed', { error: error as Error, target: target.value });
+      this.logger.error('Contrast analysis failed', {
+        error: error as Error,
+        target: target.value,
+      });
 
-      return this.buildErrorResult(target.value, wcagLevel, contrastAlgorithm, error, duration);
-    } finally {
-      if (page) {
-        await page.close().catch(() => {});
-      }
+      return redactSecrets(
+        {
+          ...this.buildErrorResult(target.value, wcagLevel, contrastAlgorithm, error, duration),
+          snapshots,
+        },
+        collectTargetSecrets(target)
+      );
     }
   }
 
   async isAvailable(): Promise<boolean> {
-    try {
-      await this.ensureBrowser();
-      return true;
-    } catch {
-      return false;
-    }
+    return await getBrowserPool().isAvailable(this.launchOptions());
   }
 
   async dispose(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-      this.logger.debug('Browser closed');
-    }
+    await getBrowserPool().closeIdle(this.launchOptions());
   }
 
-  private async ensureBrowser(): Promise<void> {
-    if (!this.browser || !this.browser.connected) {
-      this.logger.debug('Launching browser', {
-        ignoreHTTPSErrors: this.config.ignoreHTTPSErrors,
-      });
-
-      const baseArgs = this.config.browserArgs ?? ['--no-sandbox', '--disable-setuid-sandbox'];
-      const sslArgs = this.config.ignoreHTTPSErrors
-        ? ['--ignore-certificate-errors', '--ignore-ssl-errors', '--allow-running-insecure-content']
-        : [];
-
-      this.browser = await puppeteer.launch({
-        headless: this.config.headless ?? true,
-        args: [...baseArgs, ...sslArgs],
-        acceptInsecureCerts: this.config.ignoreHTTPSErrors ?? false,
-      });
-    }
+  private launchOptions(): BrowserLaunchOptions {
+    return {
+      headless: this.config.headless,
+      args: this.config.browserArgs,
+      ignoreHTTPSErrors: this.config.ignoreHTTPSErrors,
+    };
   }
 
-  private async loadTarget(page: Page, target: AnalysisTarget): Promise<void> {
-    const timeout = target.options?.timeout ?? this.config.timeout ?? 30000;
-
-    switch (target.type) {
-      case 'url':
-        await page.goto(target.value, {
-          waitUntil: 'networkidle2',
-          timeout,
-        });
-        break;
-
-      case 'html':
-        await page.setContent(target.value, {
-          waitUntil: 'networkidle2',
-          timeout,
-        });
-        break;
-
-      case 'file':
-        await page.goto(`file://${target.value}`, {
-          waitUntil: 'networkidle2',
-          timeout,
-        });
-        break;
-    }
-
-    if (target.options?.waitForSelector) {
-      await page.waitForSelector(target.options.waitForSelector, { timeout });
-    }
-  }
+  /**
+   * Collects the text color of every element with its own text or, with
+   * `placeholders`, the ::placeholder color of every empty field.
+   */
+  private async extractColorData(
+    page: Page,
+    selector?: string,
+    backgroundSampling: BackgroundSamplingMode = 'off',
+    placeholders = false
+  ): Promise<ExtractedElement[]> {
+    await installContrastHelpers(page);
+    return await page.evaluate(
+      (
+        scopeSelector: string | undefined,
+        sampling: BackgroundSamplingMode,
+        placeholders: boolean
+      ) => {
+        const results: ExtractedElement[] = [];
+
+        const {
+          __a11ySelectorOf: getSelector,
+          __a11yIsVisible: isVisible,
+          __a11yEffectiveBackground: getEffectiveBackground,
+        } = window as unknown as ContrastWindow;
+
+        /**
+         * The element and its ancestors that change how the text is painted,
+         * from the element outwards, for compositing outside the page.
+         */
+        function getLayers(el: Element): ColorLayer[] {
+          const layers: ColorLayer[] = [];
+
+          for (let current: Element | null = el; current; current = current.parentElement) {
+            const style = window.getComputedStyle(current);
+            const layer = {
+              backgroundColor: style.backgroundColor,
+              opacity: parseFloat(style.opacity),
+              filter: style.filter,
+              blendMode: style.mixBlendMode,
+            };
+            if (
+              (layer.backgroundColor !== 'rgba(0, 0, 0, 0)' &&
+                layer.backgroundColor !== 'transparent') ||
+              layer.opacity < 1 ||
+              layer.filter !== 'none' ||
+              layer.blendMode !== 'normal'
+            ) {
+              layers.push(layer);
+            }
+          }
 
-  private async extractColorData(page: Page, selector?: string): Promise<ExtractedElement[]> {
-    return await page.evaluate((scopeSelector?: string) => {
-      const results: ExtractedElement[] = [];
+          return layers;
+        }
 
-      function isVisible(el: Element): boolean {
-        const style = window.getComputedStyle(el);
-        if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') {
+        function hasDirectText(el: Element): boolean {
+          for (const child of el.childNodes) {
+            if (child.nodeType === Node.TEXT_NODE && child.textContent?.trim()) {
+              return true;
+            }
+          }
           return false;
         }
-        const rect = el.getBoundingClientRect();
-        return rect.width > 0 && rect.height > 0;
-      }
-
-      function getEffectiveBackground(el: Element): string {
-        let current: Element | null = el;
-
-        while (current) {
-          const style = window.getComputedStyle(current);
-          const bg = style.backgroundColor;
 
-          if (bg && bg !== 'rgba(0, 0, 0, 0)' && bg !== 'transparent') {
-            return bg;
+        const media = Array.from(document.querySelectorAll('img, picture, video, canvas'))
+          .filter(isVisible)
+          .map((el) => ({ el, rect: el.getBoundingClientRect() }));
+
+        /**
+         * Whether the CSS background colors cannot describe what is behind the
+         * text: an image or gradient down to the first opaque background, or
+         * media below it. Translucent colors alone are composited instead.
+         */
+        function hasComplexBackground(el: Element): boolean {
+          let current: Element | null = el;
+
+          while (current) {
+            const style = window.getComputedStyle(current);
+            if (style.backgroundImage !== 'none') {
+              return true;
+            }
+            // Computed colors only use rgba() when they are translucent
+            if (
+              !style.backgroundColor.startsWith('rgba(') &&
+              style.backgroundColor !== 'transparent'
+            ) {
+              break;
+            }
+            current = current.parentElement;
           }
 
-          current = current.parentElement;
+          const rect = el.getBoundingClientRect();
+          return media.some(
+            (item) =>
+              !el.contains(item.el) &&
+              item.rect.left < rect.right &&
+              item.rect.right > rect.left &&
+              item.rect.top < rect.bottom &&
+              item.rect.bottom > rect.top
+          );
         }
 
-        return 'rgb(255, 255, 255)';
-      }
+        const rootElement = scopeSelector ? document.querySelector(scopeSelector) : document.body;
+        if (!rootElement) return results;
 
-      function getSelector(el: Element): string {
-        if (el.id) {
-          return `#${el.id}`;
-        }
-        if (el.className && typeof el.className === 'string') {
-          const classes = el.className.trim().split(/\s+/).join('.');
-          if (classes) {
-            return `${el.tagName.toLowerCase()}.${classes}`;
-          }
-        }
-        return el.tagName.toLowerCase();
-      }
+        const elements = rootElement.querySelectorAll('*');
 
-      function hasDirectText(el: Element): boolean {
-        for (const child of el.childNodes) {
-          if (child.nodeType === Node.TEXT_NODE && child.textContent?.trim()) {
-            return true;
-          }
-        }
-        return false;
-      }
+        for (const el of elements) {
+          let style: CSSStyleDeclaration;
+
+          if (placeholders) {
+            const isField = el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement;
+            // The placeholder is only shown while the field is empty
+            if (!isField || !el.placeholder.trim() || el.value || !isVisible(el)) continue;
 
-      const rootElement = scopeSelector ? document.querySelector(scopeSelector) : document.body;
-      if (!rootElement) return results;
+            style = window.getComputedStyle(el, '::placeholder');
+          } else {
+            if (!isVisible(el) || !hasDirectText(el)) continue;
 
-      const elements = rootElement.querySelectorAll('*');
+            const tagName = el.tagName.toLowerCase();
+            if (['script', 'style', 'noscript', 'svg', 'path'].includes(tagName)) continue;
 
-      for (const el of elements) {
-        if (!isVisible(el) || !hasDirectText(el)) continue;
+            style = window.getComputedStyle(el);
+          }
 
-        const tagName = el.tagName.toLowerCase();
-        if (['script', 'style', 'noscript', 'svg', 'path'].includes(tagName)) continue;
+          const layers = getLayers(el);
+          // A translucent ::placeholder is one more layer over the field
+          if (placeholders && parseFloat(style.opacity) < 1) {
+            layers.unshift({
+              backgroundColor: 'rgba(0, 0, 0, 0)',
+              opacity: parseFloat(style.opacity),
+              filter: 'none',
+              blendMode: 'normal',
+            });
+          }
 
-        const style = window.getComputedStyle(el);
-        const fg = style.color;
-        const bg = getEffectiveBackground(el);
-        const fontSize = parseFloat(style.fontSize);
-        const fontWeight = parseInt(style.fontWeight, 10) || 400;
+          const fg = style.color;
+          const bg = getEffectiveBackground(el);
+          const fontSize = parseFloat(style.fontSize);
+          const fontWeight = parseInt(style.fontWeight, 10) || 400;
+          const sample = sampling === 'all' || (sampling === 'auto' && hasComplexBackground(el));
+          const rect = el.getBoundingClientRect();
+
+          results.push({
+            selector: getSelector(el),
+            snippet: (el as HTMLElement).outerHTML?.substring(0, 300) ?? '',
+            foreground: fg,
+            background: bg,
+            fontSize,
+            fontWeight,
+            hasText: true,
+            layers,
+            ...(sample && {
+              sampleBox: {
+                x: rect.left + window.scrollX,
+                y: rect.top + window.scrollY,
+                width: rect.width,
+                height: rect.height,
+              },
+            }),
+          });
+        }
 
-        results.push({
-          selector: getSelector(el),
-          snippet: (el as HTMLElement).outerHTML?.substring(0, 300) ?? '',
-          foreground: fg,
-          background: bg,
-          fontSize,
-          fontWeight,
-          hasText: true,
-        });
-      }
+        return results;
+      },
+      selector,
+      backgroundSampling,
+      placeholders
+    );
+  }
+
+  /**
+   * Extracts the elements the enabled checks cover in the page's current
+   * state. Only text is checked in ::placeholder, and non-text components
+   * only outside pseudo-states.
+   */
+  private async extractElements(
+    page: Page,
+    selector: string | undefined,
+    checks: { text: boolean; nonText: boolean },
+    backgroundSampling: BackgroundSamplingMode,
+    pseudoState?: PseudoState
+  ): Promise<ExtractedElement[]> {
+    if (pseudoState === 'placeholder') {
+      return checks.text
+        ? await this.extractColorData(page, selector, backgroundSampling, true)
+        : [];
+    }
 
-      return results;
-    }, selector);
+    return [
+      ...(checks.text ? await this.extractColorData(page, selector, backgroundSampling) : []),
+      ...(checks.nonText && !pseudoState ? await extractNonTextData(page, selector) : []),
+    ];
   }
 
   private analyzeContrast(
@@ -289,24 +500,67 @@ export class ContrastAdapter {
     includePassingElements: boolean
   ): {
     issues: ContrastIssue[];
+    /** Ids of the issues that fail, as opposed to passing elements that were included. */
+    failingIds: Set<string>;
     passingCount: number;
     failingCount: number;
     normalText: { passing: number; failing: number };
     largeText: { passing: number; failing: number };
+    nonText: { passing: number; failing: number };
+    sampled: { sampled: number; uncertain: number };
+    byStyleState: Record<string, { passing: number; failing: number }>;
   } {
     const issues: ContrastIssue[] = [];
+    const failingIds = new Set<string>();
     let passingCount = 0;
     let failingCount = 0;
     const normalText = { passing: 0, failing: 0 };
     const largeText = { passing: 0, failing: 0 };
+    const nonText = { passing: 0, failing: 0 };
+    const sampled = { sampled: 0, uncertain: 0 };
+    const byStyleState: Record<string, { passing: number; failing: number }> = {};
 
     const isAPCA = contrastAlgorithm === 'APCA';
 
     for (let i = 0; i < elements.length; i++) {
       const element = elements[i]!;
 
-      const fgRgb = parseColor(element.foreground);
-      const bgRgb = parseColor(element.background);
+      let foreground = element.foreground;
+      let fgRgb = parseColor(foreground);
+      let background = element.background;
+      let bgRgb = parseColor(background);
+
+      // Translucent text and layers are blended into the colors that are rendered
+      const textRgba = element.layers ? parseColorWithAlpha(element.foreground) : null;
+      const composited = textRgba ? compositeColors(textRgba, element.layers!) : undefined;
+      if (composited) {
+        if (!fgRgb || rgbToHex(composited.foreground) !== rgbToHex(fgRgb)) {
+          foreground = rgbToHex(composited.foreground);
+        }
+        if (!bgRgb || rgbToHex(composited.background) !== rgbToHex(bgRgb)) {
+          background = rgbToHex(composited.background);
+        }
+        fgRgb = composited.foreground;
+        bgRgb = composited.background;
+      }
+      const foregroundOpacity =
+        composited && composited.foregroundAlpha < 1
+          ? Math.round(composited.foregroundAlpha * 100) / 100
+          : undefined;
+
+      // A component passes when any of the colors that identify it stands out
+      for (const alternative of bgRgb ? (element.alternatives ?? []) : []) {
+        const altRgb = parseColor(alternative);
+        if (
+          altRgb &&
+          (!fgRgb ||
+            this.measureContrast(altRgb, bgRgb!, contrastAlgorithm) >
+              this.measureContrast(fgRgb, bgRgb!, contrastAlgorithm))
+        ) {
+          foreground = alternative;
+          fgRgb = altRgb;
+        }
+      }
 
       if (!fgRgb || !bgRgb) {
         this.logger.debug('Could not parse colors', {
@@ -317,32 +571,68 @@ export class ContrastAdapter {
         continue;
       }
 
-      const isLarge = isLargeText(element.fontSize, element.fontWeight);
+      // The worst sampled pixel stands in for the CSS background
+      const translucentText =
+        textRgba && composited && composited.foregroundAlpha < 1
+          ? { ...textRgba, a: composited.foregroundAlpha }
+          : undefined;
+      const sampledContrast = summarizeSampledContrast(
+        translucentText ?? fgRgb,
+        element.backgroundSamples ?? [],
+        contrastAlgorithm
+      );
+      let backgroundSampling: BackgroundSampling | undefined;
+      if (sampledContrast) {
+        bgRgb = sampledContrast.worst.background;
+        background = rgbToHex(bgRgb);
+        if (translucentText) {
+          fgRgb = blendOver(translucentText, bgRgb);
+          foreground = rgbToHex(fgRgb);
+        }
+        backgroundSampling = {
+          worst: this.roundContrast(sampledContrast.worst.value, contrastAlgorithm),
+          median: this.roundContrast(sampledContrast.median.value, contrastAlgorithm),
+          best: this.roundContrast(sampledContrast.best.value, contrastAlgorithm),
+          medianBackground: rgbToHex(sampledContrast.median.background),
+          bestBackground: rgbToHex(sampledContrast.best.background),
+          samples: element.backgroundSamples!.length,
+          uncertain: sampledContrast.uncertain,
+        };
+        sampled.sampled++;
+        if (sampledContrast.uncertain) sampled.uncertain++;
+      }
+
+      const isNonText = element.component !== undefined;
+      const isLarge = !isNonText && isLargeText(element.fontSize, element.fontWeight);
       let contrastValue: number;
       let requiredValue: number;
       let passes: boolean;
 
       if (isAPCA) {
         contrastValue = getAPCAContrast(fgRgb, bgRgb);
-        requiredValue = getRequiredAPCALightness(isLarge);
-        passes = meetsAPCA(contrastValue, isLarge ? 'large' : 'body');
+        requiredValue = isNonText ? APCA_THRESHOLDS.NON_TEXT : getRequiredAPCALightness(isLarge);
+        passes = meetsAPCA(contrastValue, isNonText ? 'nonText' : isLarge ? 'large' : 'body');
       } else {
         contrastValue = getContrastRatio(fgRgb, bgRgb);
-        requiredValue = getRequiredRatio(wcagLevel, isLarge);
-        passes = meetsWCAG(contrastValue, wcagLevel, isLarge);
+        requiredValue = isNonText ? WCAG_THRESHOLDS.NON_TEXT : getRequiredRatio(wcagLevel, isLarge);
+        passes = isNonText
+          ? meetsWCAGNonText(contrastValue)
+          : meetsWCAG(contrastValue, wcagLevel, isLarge);
       }
 
-      if (isLarge) {
-        if (passes) {
-          largeText.passing++;
-        } else {
-          largeText.failing++;
-        }
+      const counts = isNonText ? nonText : isLarge ? largeText : normalText;
+      if (passes) {
+        counts.passing++;
       } else {
+        counts.failing++;
+      }
+
+      if (element.styleState) {
+        const stateCounts = (byStyleState[element.styleState.name] ??= { passing: 0, failing: 0 });
         if (passes) {
-          normalText.passing++;
+          stateCounts.passing++;
         } else {
-          normalText.failing++;
+          stateCounts.failing++;
         }
       }
 
@@ -353,22 +643,29 @@ export class ContrastAdapter {
         failingCount++;
       }
 
-      const roundedValue = isAPCA
-        ? Math.round(Math.abs(contrastValue) * 10) / 10
-        : Math.round(contrastValue * 100) / 100;
+      const roundedValue = this.roundContrast(contrastValue, contrastAlgorithm);
 
       const contrastData: ContrastData = {
-        foreground: element.foreground,
-        background: element.background,
+        foreground,
+        background,
         currentRatio: roundedValue,
         requiredRatio: requiredValue,
         isLargeText: isLarge,
-        fontSize: element.fontSize,
-        fontWeight: element.fontWeight,
+        ...(isNonText
+          ? { component: element.component }
+          : { fontSize: element.fontSize, fontWeight: element.fontWeight }),
+        ...(foregroundOpacity !== undefined && { foregroundOpacity }),
+        ...(element.styleState && { styleState: element.styleState.name }),
+        ...(backgroundSampling && { backgroundSampling }),
       };
 
       if (!passes && suggestFixes) {
-        contrastData.suggestedFix = this.generateSuggestedFix(fgRgb, bgRgb, requiredValue, contrastAlgorithm);
+        contrastData.suggestedFix = this.generateSuggestedFix(
+          fgRgb,
+          bgRgb,
+          requiredValue,
+          contrastAlgorithm
+        );
       }
 
       const issue = this.createContrastIssue(
@@ -377,13 +674,37 @@ export class ContrastAdapter {
         contrastData,
         wcagLevel,
         contrastAlgorithm,
-        passes
+        passes,
+        composited?.approximate ?? false
       );
 
       issues.push(issue);
+      if (!passes) failingIds.add(issue.id);
     }
 
-    return { issues, passingCount, failingCount, normalText, largeText };
+    return {
+      issues,
+      failingIds,
+      passingCount,
+      failingCount,
+      normalText,
+      largeText,
+      nonText,
+      sampled,
+      byStyleState,
+    };
+  }
+
+  private roundContrast(value: number, contrastAlgorithm: ContrastAlgorithm): number {
+    return contrastAlgorithm === 'APCA'
+      ? Math.round(Math.abs(value) * 10) / 10
+      : Math.round(value * 100) / 100;
+  }
+
+  private measureContrast(fgRgb: RGB, bgRgb: RGB, contrastAlgorithm: ContrastAlgorithm): number {
+    return contrastAlgorithm === 'APCA'
+      ? Math.abs(getAPCAContrast(fgRgb, bgRgb))
+      : getContrastRatio(fgRgb, bgRgb);
   }
 
   private generateSuggestedFix(
@@ -421,10 +742,15 @@ export class ContrastAdapter {
     contrastData: ContrastData,
     wcagLevel: ContrastWCAGLevel,
     contrastAlgorithm: ContrastAlgorithm,
-    passes: boolean
+    passes: boolean,
+    approximate: boolean
   ): ContrastIssue {
     const isAPCA = contrastAlgorithm === 'APCA';
-    const severity = this.determineSeverity(contrastData.currentRatio, contrastData.requiredRatio, contrastAlgorithm);
+    const severity = this.determineSeverity(
+      contrastData.currentRatio,
+      contrastData.requiredRatio,
+      contrastAlgorithm
+    );
 
     const location: IssueLocation = {
       selector: element.selector,
@@ -436,7 +762,35 @@ export class ContrastAdapter {
     let suggestedActions: string[] | undefined;
     let wcag: WCAGReference;
 
-    if (isAPCA) {
+    if (contrastData.component) {
+      const component = NON_TEXT_COMPONENT_LABELS[contrastData.component];
+      const unit = isAPCA ? 'Lc' : ':1';
+      wcag = {
+        criterion: '1.4.11',
+        level: 'AA',
+        principle: 'perceivable',
+        version: isAPCA ? undefined : '2.1',
+        title: isAPCA ? 'Non-text Contrast (APCA - WCAG 3.0 Draft)' : 'Non-text Contrast',
+      };
+
+      const measure = isAPCA ? 'APCA lightness' : 'Contrast ratio';
+      message = passes
+        ? `${measure} ${contrastData.currentRatio}${unit} of the ${component} meets requirements (${contrastData.requiredRatio}${unit} required for UI components and graphics)`
+        : `${measure} ${contrastData.currentRatio}${unit} of the ${component} does not meet requirements (${contrastData.requiredRatio}${unit} required for UI components and graphics)`;
+
+      humanContext = passes
+        ? undefined
+        : `Users with low vision may not be able to find this ${component} or tell its state. Its contrast of ${contrastData.currentRatio}${unit} against the adjacent color is below ${contrastData.requiredRatio}${unit}.`;
+
+      suggestedActions = passes
+        ? undefined
+        : [
+            `Increase the contrast against the adjacent color to at least ${contrastData.requiredRatio}${unit}`,
+            contrastData.suggestedFix
+              ? `Consider using ${contrastData.suggestedFix.foreground} for the ${component}`
+              : `Darken the ${component} or lighten the background`,
+          ];
+    } else if (isAPCA) {
       wcag = {
         criterion: '1.4.3',
         level: 'AA',
@@ -490,9 +844,28 @@ export class ContrastAdapter {
           ];
     }
 
+    if (contrastData.foregroundOpacity !== undefined && humanContext) {
+      humanContext += ` The text is drawn at ${Math.round(contrastData.foregroundOpacity * 100)}% opacity, so it blends into the background more than its color suggests.`;
+    }
+
+    const styleState = element.styleState;
+    if (styleState && (styleState.pseudoState || styleState.media) && humanContext) {
+      const when = [
+        styleState.pseudoState && PSEUDO_STATE_DESCRIPTIONS[styleState.pseudoState],
+        styleState.media && `under the ${styleState.media} media emulation`,
+      ].filter(Boolean);
+      humanContext += ` These colors are shown ${when.join(', ')}.`;
+    }
+
+    const sampling = contrastData.backgroundSampling;
+    if (sampling?.uncertain && humanContext) {
+      const unit = isAPCA ? 'Lc' : ':1';
+      humanContext += ` The background behind the text varies, giving contrast from ${sampling.worst}${unit} to ${sampling.best}${unit} (median ${sampling.median}${unit}), so check the text visually.`;
+    }
+
     return {
       id: `contrast-${index}`,
-      ruleId: 'color-contrast',
+      ruleId: contrastData.component ? 'non-text-contrast' : 'color-contrast',
       tool: 'contrast-analyzer',
       severity: passes ? 'minor' : severity,
       wcag,
@@ -501,7 +874,11 @@ export class ContrastAdapter {
       humanContext,
       suggestedActions,
       affectedUsers: passes ? undefined : ['low-vision', 'color-blind'],
-      confidence: 1,
+      confidence: sampling?.uncertain
+        ? UNCERTAIN_CONFIDENCE
+        : approximate
+          ? APPROXIMATE_CONFIDENCE
+          : 1,
       contrastData,
     };
   }
@@ -547,6 +924,9 @@ export class ContrastAdapter {
     failing: number,
     normalText: { passing: number; failing: number },
     largeText: { passing: number; failing: number },
+    nonText: { passing: number; failing: number } | undefined,
+    sampledBackgrounds: { sampled: number; uncertain: number } | undefined,
+    byStyleState: Record<string, { passing: number; failing: number }> | undefined,
     duration: number
   ): ContrastAnalysisResult {
     return {
@@ -565,6 +945,9 @@ export class ContrastAdapter {
           normalText,
           largeText,
         },
+        ...(nonText && { nonText }),
+        ...(sampledBackgrounds && { sampledBackgrounds }),
+        ...(byStyleState && { byStyleState }),
       },
     };
   }
@@ -0,0 +1,224 @@
+import type { Page } from 'puppeteer';
+import type { NonTextComponent } from '../types/index.js';
+import {
+  installContrastHelpers,
+  type ContrastWindow,
+  type ExtractedElement,
+} from './page-helpers.js';
+import { forcePseudoState } from './style-states.js';
+
+/**
+ * Collects the colors that identify UI components and graphics (1.4.11):
+ * input borders, focus rings, inline SVG icons and charts, and custom
+ * checkboxes and radio buttons, each with the color next to it. Native
+ * checkboxes, radio buttons and disabled controls are exempt.
+ */
+export async function extractNonTextData(
+  page: Page,
+  selector?: string
+): Promise<ExtractedElement[]> {
+  await installContrastHelpers(page);
+  const components = await extractComponents(page, selector);
+  return [...components, ...(await extractFocusRings(page, selector))];
+}
+
+async function extractComponents(page: Page, selector?: string): Promise<ExtractedElement[]> {
+  return await page.evaluate((scopeSelector?: string) => {
+    const results: ExtractedElement[] = [];
+    const maxChartColors = 20;
+
+    const {
+      __a11ySelectorOf: getSelector,
+      __a11yIsVisible: isVisible,
+      __a11yIsPainted: isPainted,
+      __a11yEffectiveBackground: getEffectiveBackground,
+      __a11yIsDisabled: isDisabled,
+    } = window as unknown as ContrastWindow;
+
+    /** Border color of the first side that is drawn, so underlined inputs count. */
+    function getBorderColor(style: CSSStyleDeclaration): string | null {
+      for (const side of ['Bottom', 'Top', 'Left', 'Right'] as const) {
+        const color = style.getPropertyValue(`border-${side.toLowerCase()}-color`);
+        if (
+          style.getPropertyValue(`border-${side.toLowerCase()}-style`) !== 'none' &&
+          parseFloat(style.getPropertyValue(`border-${side.toLowerCase()}-width`)) > 0 &&
+          isPainted(color)
+        ) {
+          return color;
+        }
+      }
+      return null;
+    }
+
+    function push(
+      el: Element,
+      component: NonTextComponent,
+      colors: string[],
+      background: string
+    ): void {
+      const [foreground, ...alternatives] = colors;
+      if (!foreground) return;
+
+      results.push({
+        selector: getSelector(el),
+        snippet: el.outerHTML?.substring(0, 300) ?? '',
+        foreground,
+        background,
+        fontSize: 0,
+        fontWeight: 0,
+        hasText: false,
+        component,
+        ...(alternatives.length > 0 && { alternatives }),
+      });
+    }
+
+    /** A control's boundary is identified by its border or by its own fill. */
+    function pushBoundary(el: Element, component: NonTextComponent): void {
+      const style = window.getComputedStyle(el);
+      const colors = [getBorderColor(style), style.backgroundColor].filter(
+        (color): color is string => color !== null && isPainted(color)
+      );
+      push(el, component, colors, getEffectiveBackground(el.parentElement));
+    }
+
+    const rootElement = scopeSelector ? document.querySelector(scopeSelector) : document.body;
+    if (!rootElement) return results;
+
+    const inputs = rootElement.querySelectorAll(
+      'input:not([type="hidden"]):not([type="checkbox"]):not([type="radio"]):not([type="button"]):not([type="submit"]):not([type="reset"]):not([type="image"]):not([type="range"]):not([type="color"]), select, textarea'
+    );
+    for (const el of inputs) {
+      if (isVisible(el) && !isDisabled(el)) pushBoundary(el, 'input-border');
+    }
+
+    const toggles = rootElement.querySelectorAll(
+      'input[type="checkbox"], input[type="radio"], [role="checkbox"], [role="radio"], [role="switch"]'
+    );
+    for (const el of toggles) {
+      if (!isVisible(el) || isDisabled(el)) continue;
+      if (el instanceof HTMLInputElement && window.getComputedStyle(el).appearance !== 'none') {
+        continue;
+      }
+      const isRadio =
+        el.getAttribute('role') === 'radio' ||
+        (el instanceof HTMLInputElement && el.type === 'radio');
+      pushBoundary(el, isRadio ? 'radio' : 'checkbox');
+    }
+
+    for (const svg of rootElement.querySelectorAll('svg')) {
+      if (!isVisible(svg) || svg.parentElement?.closest('svg')) continue;
+
+      // Decorative icons that repeat a visible text label
+      const label = svg.parentElement?.textContent?.trim() ?? '';
+      if (svg.getAttribute('aria-hidden') === 'true' && label.length > 0) continue;
+
+      const box = svg.getBoundingClientRect();
+      const shapes = Array.from(
+        svg.querySelectorAll('path, circle, ellipse, rect, polygon, polyline, line')
+      ).filter((shape) => {
+        const style = window.getComputedStyle(shape);
+        return style.display !== 'none' && style.visibility !== 'hidden';
+      });
+      let background = getEffectiveBackground(svg);
+
+      if (box.width >= 100 && box.height >= 100 && shapes.length >= 3) {
+        const seen = new Set<string>();
+
+        for (const shape of shapes) {
+          const shapeBox = shape.getBoundingClientRect();
+          const style = window.getComputedStyle(shape);
+
+          // A shape covering the chart is its background, not a data mark
+          if (shapeBox.width * shapeBox.height >= box.width * box.height * 0.9) {
+            if (isPainted(style.fill)) background = style.fill;
+            continue;
+          }
+
+          for (const color of [style.fill, style.stroke]) {
+            if (!isPainted(color) || seen.has(color) || seen.size >= maxChartColors) continue;
+            seen.add(color);
+            push(shape, 'chart', [color], background);
+          }
+        }
+        continue;
+      }
+
+      const colors = new Set<string>();
+      for (const shape of shapes) {
+        const style = window.getComputedStyle(shape);
+        if (isPainted(style.fill)) colors.add(style.fill);
+        if (isPainted(style.stroke)) colors.add(style.stroke);
+      }
+      push(svg, 'icon', [...colors], background);
+    }
+
+    return results;
+  }, selector);
+}
+
+/**
+ * Measures focus indicators with :focus and :focus-visible forced through the
+ * DevTools protocol: focusing from a script does not match :focus-visible,
+ * and it would move focus on a page other checks still run against.
+ */
+async function extractFocusRings(page: Page, selector?: string): Promise<ExtractedElement[]> {
+  const session = await page.createCDPSession();
+
+  try {
+    await session.send('DOM.enable');
+    await session.send('CSS.enable');
+
+    const release = await forcePseudoState(page, session, 'focus');
+    try {
+      return await page.evaluate((scopeSelector?: string) => {
+        const results: ExtractedElement[] = [];
+        const maxFocusChecks = 100;
+
+        const {
+          __a11ySelectorOf: getSelector,
+          __a11yIsVisible: isVisible,
+          __a11yIsPainted: isPainted,
+          __a11yEffectiveBackground: getEffectiveBackground,
+          __a11yIsDisabled: isDisabled,
+        } = window as unknown as ContrastWindow;
+
+        const rootElement = scopeSelector ? document.querySelector(scopeSelector) : document.body;
+        if (!rootElement) return results;
+
+        const focusable = Array.from(
+          rootElement.querySelectorAll(
+            'a[href], button, input, select, textarea, summary, [tabindex]:not([tabindex="-1"])'
+          )
+        )
+          .filter((el) => isVisible(el) && !isDisabled(el))
+          .slice(0, maxFocusChecks);
+
+        for (const el of focusable) {
+          const style = window.getComputedStyle(el);
+          const ring =
+            style.outlineStyle !== 'none' && parseFloat(style.outlineWidth) > 0
+              ? style.outlineColor
+              : (style.boxShadow.match(/rgba?\([^)]+\)/)?.[0] ?? null);
+          if (!ring || !isPainted(ring)) continue;
+
+          results.push({
+            selector: getSelector(el),
+            snippet: el.outerHTML?.substring(0, 300) ?? '',
+            foreground: ring,
+            background: getEffectiveBackground(el.parentElement),
+            fontSize: 0,
+            fontWeight: 0,
+            hasText: false,
+            component: 'focus-ring',
+          });
+        }
+
+        return results;
+      }, selector);
+    } finally {
+      await release();
+    }
+  } finally {
+    await session.detach().catch(() => undefined);
+  }
+}
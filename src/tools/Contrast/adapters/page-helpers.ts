@@ -0,0 +1,101 @@
+import type { Page } from 'puppeteer';
+import { installSelectorHelper, type SelectorWindow } from '@/shared/browser/selectors.js';
+import type { ColorLayer, NonTextComponent, PseudoState, RGB } from '../types/index.js';
+
+export interface StyleState {
+  name: string;
+  media?: string | undefined;
+  pseudoState?: PseudoState | undefined;
+}
+
+export interface ExtractedElement {
+  selector: string;
+  snippet: string;
+  foreground: string;
+  background: string;
+  fontSize: number;
+  fontWeight: number;
+  hasText: boolean;
+  /** Set for UI components and graphics, which are checked against 1.4.11 instead. */
+  component?: NonTextComponent;
+  /** Other colors that identify the component, such as its fill next to its border. */
+  alternatives?: string[];
+  /** Elements from the text outwards whose background, opacity, filter or blend mode paint the text. */
+  layers?: ColorLayer[];
+  /** Box in document coordinates, set when the background should be sampled. */
+  sampleBox?: { x: number; y: number; width: number; height: number };
+  /** Pixels sampled behind the element, set once its background has been sampled. */
+  backgroundSamples?: RGB[];
+  /** Set when style states are checked. */
+  styleState?: StyleState;
+}
+
+export type ContrastWindow = SelectorWindow & {
+  __a11yIsVisible: (el: Element) => boolean;
+  __a11yIsPainted: (color: string) => boolean;
+  __a11yEffectiveBackground: (el: Element | null) => string;
+  __a11yIsDisabled: (el: Element) => boolean;
+};
+
+/**
+ * Runs in the page. Defines the helpers the contrast extractions share:
+ * `window.__a11yIsVisible`, `window.__a11yIsPainted`, which tells whether a
+ * computed color draws anything, `window.__a11yEffectiveBackground`, the
+ * first painted background color from the element outwards, and
+ * `window.__a11yIsDisabled`, which tells the controls that are exempt.
+ */
+function defineContrastHelpers(): void {
+  function isVisible(el: Element): boolean {
+    const style = window.getComputedStyle(el);
+    if (style.display === 'none' || style.visibility === 'hidden') {
+      return false;
+    }
+    // Opacity applies to the whole subtree, so a transparent ancestor hides the element too
+    for (let current: Element | null = el; current; current = current.parentElement) {
+      if (parseFloat(window.getComputedStyle(current).opacity) === 0) return false;
+    }
+    const rect = el.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
+  }
+
+  function isPainted(color: string): boolean {
+    return (
+      color !== '' &&
+      color !== 'none' &&
+      color !== 'transparent' &&
+      !color.startsWith('url(') &&
+      !/^rgba\((?:[^,]+,){3}\s*0\)$/.test(color)
+    );
+  }
+
+  function getEffectiveBackground(el: Element | null): string {
+    for (let current = el; current; current = current.parentElement) {
+      const bg = window.getComputedStyle(current).backgroundColor;
+      if (isPainted(bg)) {
+        return bg;
+      }
+    }
+
+    return 'rgb(255, 255, 255)';
+  }
+
+  function isDisabled(el: Element): boolean {
+    return el.matches(':disabled') || el.closest('[aria-disabled="true"]') !== null;
+  }
+
+  const contrastWindow = window as unknown as ContrastWindow;
+  contrastWindow.__a11yIsVisible = isVisible;
+  contrastWindow.__a11yIsPainted = isPainted;
+  contrastWindow.__a11yEffectiveBackground = getEffectiveBackground;
+  contrastWindow.__a11yIsDisabled = isDisabled;
+}
+
+/**
+ * Makes the contrast helpers and `window.__a11ySelectorOf` available to later
+ * evaluate calls. Call it after every navigation, since the page's window is
+ * replaced.
+ */
+export async function installContrastHelpers(page: Page): Promise<void> {
+  await installSelectorHelper(page);
+  await page.evaluate(defineContrastHelpers);
+}
@@ -0,0 +1,204 @@
+import type { CDPSession, Page } from 'puppeteer';
+import { createAdapterLogger } from '@/shared/utils/logger.js';
+import type { PseudoState, StyleStates } from '../types/index.js';
+import { resolveEmulatedMedia } from '../types/index.js';
+import { compositeColors, getStyleStateName, parseColorWithAlpha } from '../utils/index.js';
+import { sampleBackgrounds } from './background-sampling.js';
+import type { ExtractedElement } from './page-helpers.js';
+
+/** Elements whose :hover and :focus styles are checked. */
+const INTERACTIVE_SELECTOR =
+  'a[href], area[href], button, input, select, textarea, summary, [tabindex], [role="button"], [role="link"], [role="tab"], [role="menuitem"]';
+
+/** Most elements a pseudo-class is forced on per page load. */
+const MAX_FORCED_ELEMENTS = 500;
+
+const VISITED_STYLE_ID = 'a11y-hub-visited';
+
+const logger = createAdapterLogger('ContrastAdapter');
+
+/**
+ * Extracts the elements to check in the page as loaded and, with style
+ * states, in every pseudo-state under every emulated media. An element
+ * outside the default state is only kept when its colors differ from the
+ * same element without the pseudo-state or without the media, so unchanged
+ * elements are not reported again. Backgrounds are sampled while each state
+ * is applied.
+ */
+export async function extractInStyleStates(
+  page: Page,
+  styleStates: StyleStates | undefined,
+  extract: (pseudoState?: PseudoState) => Promise<ExtractedElement[]>
+): Promise<ExtractedElement[]> {
+  const elements: ExtractedElement[] = [];
+  const extractedByState = new Map<string, ExtractedElement[]>();
+
+  const extractState = async (media?: string, pseudoState?: PseudoState): Promise<void> => {
+    const name = getStyleStateName(media, pseudoState);
+    const extracted = await extract(pseudoState);
+    extractedByState.set(name, extracted);
+
+    let checked = extracted;
+    if (styleStates) {
+      const baselines = [
+        media ? extractedByState.get(getStyleStateName(undefined, pseudoState)) : undefined,
+        pseudoState && pseudoState !== 'placeholder'
+          ? extractedByState.get(getStyleStateName(media))
+          : undefined,
+      ].filter((baseline): baseline is ExtractedElement[] => baseline !== undefined);
+      checked = withoutUnchanged(extracted, baselines).map((element) => ({
+        ...element,
+        styleState: { name, media, pseudoState },
+      }));
+    }
+
+    elements.push(...(await sampleBackgrounds(page, checked)));
+  };
+
+  if (!styleStates) {
+    await extractState();
+    return elements;
+  }
+
+  const pseudoStates = [...new Set(styleStates.pseudoStates ?? [])];
+  const session = await page.createCDPSession();
+
+  try {
+    await session.send('DOM.enable');
+    await session.send('CSS.enable');
+
+    for (const media of [undefined, ...(styleStates.media ?? []).map(resolveEmulatedMedia)]) {
+      if (media) {
+        logger.info('Emulating media', { media: media.name });
+        await session.send('Emulation.setEmulatedMedia', { features: media.features });
+      }
+      await extractState(media?.name);
+
+      for (const pseudoState of pseudoStates) {
+        const release = await forcePseudoState(page, session, pseudoState);
+        try {
+          await extractState(media?.name, pseudoState);
+        } finally {
+          await release();
+        }
+      }
+    }
+  } finally {
+    await session.send('Emulation.setEmulatedMedia', { features: [] }).catch(() => undefined);
+    await session.detach().catch(() => undefined);
+  }
+
+  return elements;
+}
+
+/** Drops the elements that are rendered in the same colors in one of the baselines. */
+function withoutUnchanged(
+  elements: ExtractedElement[],
+  baselines: ExtractedElement[][]
+): ExtractedElement[] {
+  if (baselines.length === 0) return elements;
+
+  const key = (element: ExtractedElement): string =>
+    [element.component ?? 'text', element.selector, element.snippet].join('|');
+  const colors = (element: ExtractedElement): string => {
+    const text = element.layers ? parseColorWithAlpha(element.foreground) : null;
+    const composited = text ? compositeColors(text, element.layers!) : undefined;
+    return JSON.stringify(
+      composited
+        ? [composited.foreground, composited.background]
+        : [element.foreground, element.background, element.alternatives]
+    );
+  };
+
+  const seen = new Map<string, Set<string>>();
+  for (const element of baselines.flat()) {
+    seen.set(key(element), (seen.get(key(element)) ?? new Set()).add(colors(element)));
+  }
+
+  return elements.filter((element) => !seen.get(key(element))?.has(colors(element)));
+}
+
+/**
+ * Applies a pseudo-state to the page and returns how to undo it. :hover and
+ * :focus are forced on interactive elements through the DevTools protocol.
+ * Browsers never expose :visited colors to scripts, so :visited rules are
+ * copied with :any-link in their place, as if every link had been visited.
+ * Rules in cross-origin stylesheets cannot be read and are missed.
+ */
+export async function forcePseudoState(
+  page: Page,
+  session: CDPSession,
+  pseudoState: PseudoState
+): Promise<() => Promise<void>> {
+  if (pseudoState === 'placeholder') {
+    return async () => undefined;
+  }
+
+  if (pseudoState === 'visited') {
+    await page.evaluate((styleId: string) => {
+      const rules: string[] = [];
+
+      function collect(list: CSSRuleList, wrap: (css: string) => string): void {
+        for (const rule of Array.from(list)) {
+          if (rule instanceof CSSStyleRule) {
+            if (rule.selectorText.includes(':visited')) {
+              const selectorText = rule.selectorText.replaceAll(':visited', ':any-link');
+              rules.push(wrap(`${selectorText} { ${rule.style.cssText} }`));
+            }
+          } else if (rule instanceof CSSMediaRule) {
+            collect(rule.cssRules, (css) => wrap(`@media ${rule.media.mediaText} { ${css} }`));
+          } else if (rule instanceof CSSSupportsRule) {
+            collect(rule.cssRules, (css) => wrap(`@supports ${rule.conditionText} { ${css} }`));
+          } else if (rule instanceof CSSGroupingRule) {
+            collect(rule.cssRules, wrap);
+          }
+        }
+      }
+
+      for (const sheet of Array.from(document.styleSheets)) {
+        try {
+          collect(sheet.cssRules, (css) => css);
+        } catch {
+          // Cross-origin stylesheets cannot be read
+        }
+      }
+
+      const style = document.createElement('style');
+      style.id = styleId;
+      style.textContent = rules.join('\n');
+      document.head.appendChild(style);
+    }, VISITED_STYLE_ID);
+
+    return async () => {
+      await page.evaluate((styleId: string) => {
+        document.getElementById(styleId)?.remove();
+      }, VISITED_STYLE_ID);
+    };
+  }
+
+  const forcedPseudoClasses = pseudoState === 'focus' ? ['focus', 'focus-visible'] : ['hover'];
+  const { root } = await session.send('DOM.getDocument', { depth: 0 });
+  const { nodeIds } = await session.send('DOM.querySelectorAll', {
+    nodeId: root.nodeId,
+    selector: INTERACTIVE_SELECTOR,
+  });
+
+  if (nodeIds.length > MAX_FORCED_ELEMENTS) {
+    logger.info('Forcing pseudo-state on the first elements only', {
+      pseudoState,
+      candidates: nodeIds.length,
+      forced: MAX_FORCED_ELEMENTS,
+    });
+  }
+
+  const forced = nodeIds.slice(0, MAX_FORCED_ELEMENTS);
+  for (const nodeId of forced) {
+    await session.send('CSS.forcePseudoState', { nodeId, forcedPseudoClasses });
+  }
+
+  return async () => {
+    for (const nodeId of forced) {
+      await session.send('CSS.forcePseudoState', { nodeId, forcedPseudoClasses: [] });
+    }
+  };
+}
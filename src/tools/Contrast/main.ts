@@ -1,12 +1,22 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { ContrastAdapter } from './adapters/index.js';
 import { ContrastToolInputSchema, type ContrastToolInput } from './types/index.js';
-import { buildAnalysisTarget, buildAnalysisOptions, formatOutput } from './utils/index.js';
 import {
+  buildAnalysisTarget,
+  buildAnalysisOptions,
+  formatOutput,
+  mergeContrastSummaries,
+} from './utils/index.js';
+import { analyzeInStates, analyzeInViewports } from '@/shared/browser/index.js';
+import { getAdapterSettings } from '@/shared/config/index.js';
+import { fromContrastResult } from '@/tools/AnalyzeMixed/utils/index.js';
+import {
+  type ToolContent,
   type ToolDefinition,
   type ToolResponse,
-  createJsonResponse,
   createErrorResponse,
+  createFormattedResponse,
+  extractScreenshotContent,
   withToolContext,
 } from '../Base/index.js';
 import { ContrastToolMcpInputSchema } from './types/input.type.js';
@@ -21,7 +31,7 @@ function getAdapter(ignoreHTTPSErrors = false): ContrastAdapter {
     }
     sharedAdapter = new ContrastAdapter({
       headless: true,
-      timeout: 30000,
+      timeout: getAdapterSettings('contrast-analyzer').timeout ?? 30000,
       ignoreHTTPSErrors,
     });
     currentIgnoreHTTPS = ignoreHTTPSErrors;
@@ -47,12 +57,14 @@ process.on('SIGTERM', () => {
 const handleContrastAnalysis = withToolContext<ContrastToolInput>(
   'analyze-contrast',
   async (input, context): Promise<ToolResponse> => {
-    const ignoreHTTPSErrors = input.options?.browser?.ignoreHTTPSErrors ?? false;
+    const target = buildAnalysisTarget(input);
+    const options = buildAnalysisOptions(input);
+    const ignoreHTTPSErrors = target.options?.ignoreHTTPSErrors ?? false;
 
     context.logger.debug('Building analysis configuration', {
       hasUrl: !!input.url,
       hasHtml: !!input.html,
-      wcagLevel: input.options?.wcagLevel ?? 'AA',
+      wcagLevel: options.wcagLevel,
       suggestFixes: input.options?.suggestFixes ?? true,
       ignoreHTTPSErrors,
     });
@@ -66,16 +78,24 @@ const handleContrastAnalysis = withToolContext<ContrastToolInput>(
       );
     }
 
-    const target = buildAnalysisTarget(input);
-    const options = buildAnalysisOptions(input);
-
     context.logger.info('Starting contrast analysis', {
       targetType: target.type,
       target: target.type === 'url' ? target.value : '[html content]',
       wcagLevel: options.wcagLevel,
     });
 
-    const result = await adapter.analyze(target, options);
+    const result = await analyzeInViewports(
+      target,
+      (viewportTarget, onProgress) =>
+        analyzeInStates(
+          viewportTarget,
+          (stateTarget) => adapter.analyze(stateTarget, options),
+          mergeContrastSummaries,
+          onProgress
+        ),
+      mergeContrastSummaries,
+      context.reportProgress
+    );
 
     if (!result.success) {
       context.logger.warn('Analysis completed with errors', {
@@ -83,8 +103,15 @@ const handleContrastAnalysis = withToolContext<ContrastToolInput>(
       });
     }
 
-    const output = formatOutput(result);
-    return createJsonResponse(output, !result.success);
+    const screenshots = extractScreenshotContent(result);
+    context.recordHistory(target, fromContrastResult(screenshots.result));
+    const output = formatOutput(screenshots.result);
+    const response = createFormattedResponse(
+      screenshots.result,
+      output,
+      input.options?.outputFormat
+    );
+    return { ...response, content: [...response.content, ...screenshots.content] };
   }
 );
 
@@ -92,7 +119,7 @@ export const analyzeContrastTool: ToolDefinition = {
   name: 'analyze-contrast',
   description: `Analyze a web page or HTML content for color contrast accessibility issues.
 
-Calculates contrast ratios between text and background colors, validates against WCAG 2.1 requirements, and suggests color corrections for failing elements.
+Calculates contrast ratios between text and background colors, validates against WCAG 2.1 requirements, and suggests color corrections for failing elements. In non-text mode it also measures input borders, focus rings, inline SVG icons and charts, and custom checkboxes and radio buttons against their adjacent colors.
 
 Input options
 - url: URL of the page to analyze
@@ -100,26 +127,52 @@ Input options
 - options.contrastAlgorithm: Algorithm for contrast calculation. Default: WCAG21
   - WCAG21: Standard WCAG 2.1 contrast ratio (luminance-based)
   - APCA: Accessible Perceptual Contrast Algorithm (WCAG 3.0 draft, experimental)
-- options.wcagLevel: WCAG level to check (AA or AAA). Default: AA
+- options.wcagLevel: WCAG level to check (AA or AAA). Default: project config, else AA
   - AA: 4.5:1 for normal text, 3:1 for large text
   - AAA: 7:1 for normal text, 4.5:1 for large text
 - options.suggestFixes: Generate color correction suggestions. Default: true
 - options.includePassingElements: Include passing elements in results. Default: false
 - options.selector: CSS selector to scope analysis
+- options.mode: What to check. Default: text
+  - text: Text against its background (1.4.3, 1.4.6)
+  - non-text: UI components and graphics against adjacent colors, 3:1 (1.4.11). Native checkboxes, radio buttons and disabled controls are exempt
+  - all: Both
+- options.backgroundSampling: Measure the rendered background behind text instead of the CSS background color. Text is hidden, its box is captured and its pixels sampled, and the worst-case, median and best-case contrast are reported. Default: off
+  - auto: Only text over background images, gradients or media
+  - all: Every text element (at most 100 per page load)
+- options.styleStates: Also check text in other style states. Elements are only reported again when their colors change, and summary.byStyleState counts results per state
+  - pseudoStates: "hover" and "focus" (forced on links, buttons, fields and other interactive elements), "visited" (links) and "placeholder" (::placeholder of empty fields)
+  - media: Emulated media as presets ("dark", "light", "more-contrast", "less-contrast", "forced-colors") or { name, colorScheme, contrast, forcedColors } (max 4). Every pseudo-state is also checked under each media
+- options.screenshots: Capture a cropped, highlighted screenshot of each element with an issue (failing elements only). Elements that are offscreen or have no size are skipped
+  - maxElements: Maximum screenshots per page load. Default: 10, max: 50
+  - fullPage: Also capture the whole page with a numbered marker on each captured element. Default: false
+  - outputDir: Write PNG files to this directory instead of returning the images
 - options.browser.waitForSelector: CSS selector to wait for before analysis
 - options.browser.viewport: Browser viewport dimensions
-- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors. Default: false
+- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors. Default: project config, else false
+- options.browser.authentication: Cookies, localStorage, headers, basic auth or a login script for protected pages (secrets are redacted from output)
+- options.browser.actions: Interactions run before analysis (click, hover, focus, type, press, scroll, wait, select)
+- options.browser.states: Named UI states, each with its own actions; issues are tagged with the state and counted in summary.byState
+- options.browser.viewports: Viewports to analyze in one call, as presets ("mobile", "tablet", "desktop") or { name, preset, width, height, deviceScaleFactor, isMobile, hasTouch } (max 6); issues are tagged with the viewport and viewportSpecific, and counted in summary.byViewport, summary.viewportSpecific and summary.allViewports
+- options.outputFormat: Response format, "json", "sarif" (SARIF 2.1.0), "junit" (JUnit XML) or "tap" (TAP 13). Default: json
 
 Output
 - issues: Array of contrast issues with detailed data
-  - contrastData: foreground/background colors, current/required ratios, suggested fixes
-- summary: Statistics by text size (normal/large) and pass/fail counts
+  - contrastData: foreground/background colors as rendered (translucent layers, opacity and color filters composited), current/required ratios, suggested fixes
+  - contrastData.foregroundOpacity: Effective opacity of translucent text
+  - contrastData.styleState: The style state the colors were measured in, such as "default", "hover" or "dark:focus", with styleStates
+  - contrastData.backgroundSampling: worst, median and best contrast against the sampled pixels, and uncertain when the background varies too much to judge (confidence 0.5)
+  - contrastData.component: The component or graphic measured in non-text mode (input-border, focus-ring, icon, checkbox, radio, chart)
+- summary: Statistics by text size (normal/large), non-text components (nonText), sampled backgrounds (sampledBackgrounds), style states (byStyleState) and pass/fail counts
 - wcagLevel: The WCAG level used for analysis
 - contrastAlgorithm: The algorithm used for contrast calculation (WCAG21 or APCA)
+- issues[].screenshot: Marker number, position and, with outputDir, file path of the element screenshot. Without outputDir the images follow the JSON as image content, each after a text item naming its issues
+- pageScreenshots: Files of the annotated full-page screenshots, when outputDir is set
 
 WCAG Criteria
 - 1.4.3 Contrast (Minimum) - Level AA
 - 1.4.6 Contrast (Enhanced) - Level AAA
+- 1.4.11 Non-text Contrast - Level AA (non-text-contrast)
 
 APCA Thresholds (when using APCA algorithm)
 - Body text: Lc 75 minimum
@@ -132,7 +185,7 @@ Note: APCA is part of the WCAG 3.0 draft and may change in future versions.`,
       this.name,
       this.description,
       ContrastToolMcpInputSchema.shape,
-      async (input): Promise<{ content: Array<{ type: 'text'; text: string }> }> => {
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
         const parseResult = ContrastToolInputSchema.safeParse(input);
 
         if (!parseResult.success) {
@@ -143,7 +196,7 @@ Note: APCA is part of the WCAG 3.0 draft and may change in future versions.`,
           return { content: response.content };
         }
 
-        const response = await handleContrastAnalysis(parseResult.data);
+        const response = await handleContrastAnalysis(parseResult.data, extra);
         return { content: response.content };
       }
     );
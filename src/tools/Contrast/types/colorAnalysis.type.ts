@@ -4,6 +4,33 @@ export interface RGB {
   b: number;
 }
 
+/** Color with its alpha channel, from 0 (transparent) to 1 (opaque). */
+export interface RGBA extends RGB {
+  a: number;
+}
+
+/**
+ * An element between the text and the page canvas that changes what is
+ * painted behind or over the text, as read from its computed style.
+ */
+export interface ColorLayer {
+  backgroundColor: string;
+  opacity: number;
+  /** Computed `filter`, or `none`. */
+  filter: string;
+  /** Computed `mix-blend-mode`, or `normal`. */
+  blendMode: string;
+}
+
+export interface CompositedColors {
+  foreground: RGB;
+  background: RGB;
+  /** Alpha of the text color multiplied by the opacity of every layer. */
+  foregroundAlpha: number;
+  /** Set when a filter or blend mode could only be approximated. */
+  approximate: boolean;
+}
+
 export const WCAG_THRESHOLDS = {
   AA_NORMAL: 4.5,
   AA_LARGE: 3.0,
@@ -14,6 +41,26 @@ export const WCAG_THRESHOLDS = {
 
 export type ContrastAlgorithm = 'WCAG21' | 'APCA';
 
+/**
+ * Standard deviation of the relative luminance of sampled background pixels
+ * above which the contrast of text over them is reported as uncertain.
+ */
+export const BACKGROUND_VARIABILITY_THRESHOLD = 0.1;
+
+export interface SampledContrast {
+  value: number;
+  background: RGB;
+}
+
+export interface SampledContrastSummary {
+  worst: SampledContrast;
+  median: SampledContrast;
+  best: SampledContrast;
+  /** Standard deviation of the relative luminance of the samples, from 0 to 0.5. */
+  variability: number;
+  uncertain: boolean;
+}
+
 export const APCA_THRESHOLDS = {
   BODY_TEXT: 75,
   LARGE_TEXT: 60,
@@ -1,5 +1,10 @@
 import { z } from 'zod';
-import { AccessibilityIssueSchema } from '@/shared/types/accessibility.js';
+import { AuthenticationSchema } from '@/shared/types/authentication.js';
+import { InteractionActionsSchema, InteractionStatesSchema } from '@/shared/types/interaction.js';
+import { ViewportsSchema } from '@/shared/types/viewport.js';
+import { AccessibilityIssueSchema, PageSnapshotSchema } from '@/shared/types/accessibility.js';
+import { ScreenshotOptionsSchema } from '@/shared/types/screenshot.js';
+import { BackgroundSchema, OutputFormatSchema } from '@/tools/Base/types/base.types.js';
 
 const UrlSchema = z.string().url().describe('URL of the page to analyze');
 
@@ -27,6 +32,12 @@ const BrowserOptionsSchema = z
       .boolean()
       .optional()
       .describe('Ignore HTTPS certificate errors'),
+    authentication: AuthenticationSchema.optional().describe(
+      'Authentication for protected pages: cookies, localStorage, headers, basic auth or a login script'
+    ),
+    actions: InteractionActionsSchema.optional(),
+    states: InteractionStatesSchema.optional(),
+    viewports: ViewportsSchema.optional(),
   })
   .describe('Browser behavior options');
 
@@ -42,15 +53,163 @@ export const SuggestedFixSchema = z
   })
   .describe('Suggested color fix to meet WCAG contrast requirements');
 
+export const NonTextComponentSchema = z
+  .enum(['input-border', 'focus-ring', 'icon', 'checkbox', 'radio', 'chart'])
+  .describe('Kind of user interface component or graphic whose contrast was measured');
+
+export const ContrastModeSchema = z
+  .enum(['text', 'non-text', 'all'])
+  .describe('What to check: text (1.4.3/1.4.6), non-text UI components and graphics (1.4.11), or both');
+
+export const BackgroundSamplingModeSchema = z
+  .enum(['off', 'auto', 'all'])
+  .describe(
+    'Sample the rendered background behind text from a screenshot: off, auto (text over images and gradients) or all'
+  );
+
+export const MAX_EMULATED_MEDIA = 4;
+
+export const PseudoStateSchema = z
+  .enum(['hover', 'focus', 'visited', 'placeholder'])
+  .describe('Pseudo-class forced on interactive elements, or the ::placeholder of empty fields');
+
+export const MediaPresetSchema = z
+  .enum(['dark', 'light', 'more-contrast', 'less-contrast', 'forced-colors'])
+  .describe(
+    'Media preset: prefers-color-scheme dark or light, prefers-contrast more or less, or forced-colors active'
+  );
+
+export const EmulatedMediaSchema = z
+  .union([
+    MediaPresetSchema,
+    z
+      .object({
+        name: z
+          .string()
+          .trim()
+          .min(1)
+          .optional()
+          .describe('Name used to label results; defaults to the emulated features'),
+        colorScheme: z.enum(['light', 'dark']).optional().describe('prefers-color-scheme'),
+        contrast: z
+          .enum(['more', 'less', 'custom', 'no-preference'])
+          .optional()
+          .describe('prefers-contrast'),
+        forcedColors: z.enum(['active', 'none']).optional().describe('forced-colors'),
+      })
+      .refine((media) => media.colorScheme || media.contrast || media.forcedColors, {
+        message: 'Emulated media needs colorScheme, contrast or forcedColors',
+      }),
+  ])
+  .describe('Media preset name, or a combination of emulated media features');
+export type EmulatedMedia = z.infer<typeof EmulatedMediaSchema>;
+
+export interface MediaFeature {
+  name: string;
+  value: string;
+}
+
+export interface ResolvedMedia {
+  name: string;
+  features: MediaFeature[];
+}
+
+export const MEDIA_PRESETS: Record<z.infer<typeof MediaPresetSchema>, MediaFeature[]> = {
+  dark: [{ name: 'prefers-color-scheme', value: 'dark' }],
+  light: [{ name: 'prefers-color-scheme', value: 'light' }],
+  'more-contrast': [{ name: 'prefers-contrast', value: 'more' }],
+  'less-contrast': [{ name: 'prefers-contrast', value: 'less' }],
+  'forced-colors': [{ name: 'forced-colors', value: 'active' }],
+};
+
+/** Turns a media entry into the features to emulate, and names it after them unless named. */
+export function resolveEmulatedMedia(media: EmulatedMedia): ResolvedMedia {
+  if (typeof media === 'string') {
+    return { name: media, features: MEDIA_PRESETS[media] };
+  }
+
+  const features: MediaFeature[] = [];
+  const labels: string[] = [];
+  if (media.colorScheme) {
+    features.push({ name: 'prefers-color-scheme', value: media.colorScheme });
+    labels.push(media.colorScheme);
+  }
+  if (media.contrast) {
+    features.push({ name: 'prefers-contrast', value: media.contrast });
+    labels.push(`${media.contrast}-contrast`);
+  }
+  if (media.forcedColors) {
+    features.push({ name: 'forced-colors', value: media.forcedColors });
+    labels.push(media.forcedColors === 'active' ? 'forced-colors' : 'no-forced-colors');
+  }
+
+  return { name: media.name ?? labels.join('+'), features };
+}
+
+export const StyleStatesSchema = z
+  .object({
+    pseudoStates: z
+      .array(PseudoStateSchema)
+      .min(1)
+      .optional()
+      .describe('Pseudo-states to check besides the default, e.g. ["hover", "focus"]'),
+    media: z
+      .array(EmulatedMediaSchema)
+      .min(1)
+      .max(MAX_EMULATED_MEDIA)
+      .refine(
+        (media) =>
+          new Set(media.map((entry) => resolveEmulatedMedia(entry).name)).size === media.length,
+        { message: 'Emulated media names must be unique' }
+      )
+      .optional()
+      .describe('Emulated media to check besides the default, e.g. ["dark", "forced-colors"]'),
+  })
+  .describe(
+    'Also check text in forced pseudo-states and under emulated media; only colors that change are reported again'
+  );
+
+export const BackgroundSamplingSchema = z
+  .object({
+    worst: z.number().nonnegative().describe('Lowest contrast against any sampled pixel'),
+    median: z.number().nonnegative().describe('Median contrast across the sampled pixels'),
+    best: z.number().nonnegative().describe('Highest contrast against any sampled pixel'),
+    medianBackground: z.string().describe('Background pixel at the median contrast'),
+    bestBackground: z.string().describe('Background pixel at the highest contrast'),
+    samples: z.number().int().positive().describe('Number of background pixels sampled'),
+    uncertain: z
+      .boolean()
+      .describe('Whether the background varies so much that the result depends on where each letter sits'),
+  })
+  .describe('Contrast against the background pixels sampled from a screenshot with the text hidden');
+
 export const ContrastDataSchema = z
   .object({
-    foreground: z.string().describe('Foreground (text) color in CSS format'),
-    background: z.string().describe('Effective background color in CSS format'),
+    foreground: z.string().describe('Foreground (text) color in CSS format, as rendered over the background'),
+    background: z.string().describe('Effective background color in CSS format, with translucent layers composited'),
     currentRatio: z.number().positive().describe('Current contrast ratio (1:1 to 21:1)'),
     requiredRatio: z.number().positive().describe('Required ratio for WCAG compliance'),
     isLargeText: z.boolean().describe('Whether text qualifies as large text (>=18pt or >=14pt bold)'),
     fontSize: z.number().positive().optional().describe('Font size in pixels'),
     fontWeight: z.number().int().optional().describe('Font weight (100-900)'),
+    foregroundOpacity: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe(
+        'Set when the text is translucent: alpha of the text color times the opacity of the element and its ancestors'
+      ),
+    backgroundSampling: BackgroundSamplingSchema.optional().describe(
+      'Set when the background was sampled; background and currentRatio are then the worst case'
+    ),
+    styleState: z
+      .string()
+      .optional()
+      .describe('Pseudo-state and emulated media the colors were measured in, e.g. "dark:hover"'),
+    component: NonTextComponentSchema.optional().describe(
+      'Component or graphic measured for non-text contrast; foreground is its border, ring, fill or stroke color'
+    ),
     suggestedFix: SuggestedFixSchema.optional(),
   })
   .describe('Contrast-specific data for the accessibility issue');
@@ -67,9 +226,10 @@ export const ContrastToolInputSchema = z
   .object({
     url: UrlSchema.optional(),
     html: HtmlSchema.optional(),
+    background: BackgroundSchema,
     options: z
       .object({
-        wcagLevel: ContrastWCAGLevelSchema.default('AA').describe('WCAG conformance level to check'),
+        wcagLevel: ContrastWCAGLevelSchema.optional().describe('WCAG conformance level to check'),
         contrastAlgorithm: ContrastAlgorithmSchema.default('WCAG21').describe(
           'Contrast algorithm: WCAG21 (standard) or APCA (WCAG 3.0 draft - experimental)'
         ),
@@ -85,6 +245,15 @@ export const ContrastToolInputSchema = z
           .string()
           .optional()
           .describe('CSS selector to scope analysis to specific element'),
+        mode: ContrastModeSchema.optional().describe(
+          'Check text, non-text UI components and graphics (1.4.11), or all. Default: text'
+        ),
+        backgroundSampling: BackgroundSamplingModeSchema.optional().describe(
+          'Sample the rendered background behind text from screenshots. Default: off'
+        ),
+        styleStates: StyleStatesSchema.optional(),
+        screenshots: ScreenshotOptionsSchema.optional(),
+        outputFormat: OutputFormatSchema.default('json'),
         browser: BrowserOptionsSchema.optional(),
       })
       .optional(),
@@ -124,13 +293,66 @@ export const ContrastAnalysisResultSchema = z
           })
           .optional()
           .describe('Results grouped by text size'),
+        nonText: z
+          .object({
+            passing: z.number().int().nonnegative(),
+            failing: z.number().int().nonnegative(),
+          })
+          .optional()
+          .describe('Results for UI components and graphics (1.4.11)'),
+        sampledBackgrounds: z
+          .object({
+            sampled: z.number().int().nonnegative(),
+            uncertain: z.number().int().nonnegative(),
+          })
+          .optional()
+          .describe('Text elements whose background was sampled, and how many of them are uncertain'),
+        byStyleState: z
+          .record(
+            z.string(),
+            z.object({
+              passing: z.number().int().nonnegative(),
+              failing: z.number().int().nonnegative(),
+            })
+          )
+          .optional()
+          .describe('Results per pseudo-state and emulated media, with "default" for the page as loaded'),
+        byState: z
+          .record(z.string(), z.number().int().nonnegative())
+          .optional()
+          .describe('Failing elements grouped by named UI state'),
+        byViewport: z
+          .record(z.string(), z.number().int().nonnegative())
+          .optional()
+          .describe('Failing elements grouped by viewport'),
+        viewportSpecific: z
+          .record(z.string(), z.number().int().nonnegative())
+          .optional()
+          .describe('Per viewport, the failing elements that do not fail in every viewport'),
+        allViewports: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe('Distinct failing elements that fail in every viewport'),
       })
       .describe('Summary statistics for contrast analysis'),
+    snapshots: z
+      .array(PageSnapshotSchema)
+      .optional()
+      .describe('Page loads the result was produced from, one per UI state'),
     error: z.string().optional().describe('Error message if analysis failed'),
   })
   .describe('Complete result of a contrast accessibility analysis');
 
 export type ContrastWCAGLevel = z.infer<typeof ContrastWCAGLevelSchema>;
+export type NonTextComponent = z.infer<typeof NonTextComponentSchema>;
+export type ContrastMode = z.infer<typeof ContrastModeSchema>;
+export type BackgroundSamplingMode = z.infer<typeof BackgroundSamplingModeSchema>;
+export type PseudoState = z.infer<typeof PseudoStateSchema>;
+export type MediaPreset = z.infer<typeof MediaPresetSchema>;
+export type StyleStates = z.infer<typeof StyleStatesSchema>;
+export type BackgroundSampling = z.infer<typeof BackgroundSamplingSchema>;
 export type SuggestedFix = z.infer<typeof SuggestedFixSchema>;
 export type ContrastData = z.infer<typeof ContrastDataSchema>;
 export type ContrastIssue = z.infer<typeof ContrastIssueSchema>;
@@ -1,8 +1,15 @@
 import { z } from 'zod';
+import { AuthenticationSchema } from '@/shared/types/authentication.js';
+import { InteractionActionsSchema, InteractionStatesSchema } from '@/shared/types/interaction.js';
+import { ViewportsSchema } from '@/shared/types/viewport.js';
+import { ScreenshotOptionsSchema } from '@/shared/types/screenshot.js';
+import { BackgroundSchema, OutputFormatSchema } from '@/tools/Base/types/base.types.js';
+import { StyleStatesSchema } from './contrast.type.js';
 
 export const ContrastToolMcpInputSchema = z.object({
   url: z.string().url().optional().describe('URL of the page to analyze'),
   html: z.string().min(1).optional().describe('Raw HTML content to analyze'),
+  background: BackgroundSchema,
   options: z
     .object({
       contrastAlgorithm: z
@@ -11,7 +18,7 @@ export const ContrastToolMcpInputSchema = z.object({
         .describe('Contrast algorithm: WCAG21 (standard) or APCA (WCAG 3.0 draft - experimental)'),
       wcagLevel: z
         .enum(['AA', 'AAA'])
-        .default('AA')
+        .optional()
         .describe('WCAG conformance level: AA (4.5:1 normal, 3:1 large) or AAA (7:1 normal, 4.5:1 large)'),
       suggestFixes: z
         .boolean()
@@ -25,6 +32,21 @@ export const ContrastToolMcpInputSchema = z.object({
         .string()
         .optional()
         .describe('CSS selector to scope analysis to specific element'),
+      mode: z
+        .enum(['text', 'non-text', 'all'])
+        .optional()
+        .describe(
+          'Check text (1.4.3/1.4.6), non-text UI components and graphics (1.4.11), or all. Default: text'
+        ),
+      backgroundSampling: z
+        .enum(['off', 'auto', 'all'])
+        .optional()
+        .describe(
+          'Sample the rendered background behind text from screenshots: off, auto (text over images and gradients) or all. Default: off'
+        ),
+      styleStates: StyleStatesSchema.optional(),
+      screenshots: ScreenshotOptionsSchema.optional(),
+      outputFormat: OutputFormatSchema.default('json'),
       browser: z
         .object({
           waitForSelector: z.string().optional().describe('CSS selector to wait for'),
@@ -37,8 +59,14 @@ export const ContrastToolMcpInputSchema = z.object({
             .optional(),
           ignoreHTTPSErrors: z
             .boolean()
-            .default(false)
+            .optional()
             .describe('Ignore HTTPS certificate errors (for local dev servers with self-signed certs)'),
+          authentication: AuthenticationSchema.optional().describe(
+            'Authentication for protected pages: cookies, localStorage, headers, basic auth or a login script'
+          ),
+          actions: InteractionActionsSchema.optional(),
+          states: InteractionStatesSchema.optional(),
+          viewports: ViewportsSchema.optional(),
         })
         .optional(),
     })
@@ -0,0 +1,278 @@
+import type { RGB, RGBA, ColorLayer, CompositedColors } from '../types/colorAnalysis.type.js';
+import { parseColorWithAlpha } from './contrast.js';
+
+/** Premultiplied color with channels from 0 to 1. */
+interface Premultiplied {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+type Channels = [number, number, number];
+type Matrix = [Channels, Channels, Channels];
+
+/** What the browser paints below the root element when nothing else does. */
+const CANVAS: RGB = { r: 255, g: 255, b: 255 };
+
+const TRANSPARENT: Premultiplied = { r: 0, g: 0, b: 0, a: 0 };
+
+const SEPARABLE_BLEND_MODES: Record<string, (backdrop: number, source: number) => number> = {
+  normal: (_backdrop, source) => source,
+  multiply: (backdrop, source) => backdrop * source,
+  screen: (backdrop, source) => backdrop + source - backdrop * source,
+  overlay: (backdrop, source) => hardLight(source, backdrop),
+  darken: (backdrop, source) => Math.min(backdrop, source),
+  lighten: (backdrop, source) => Math.max(backdrop, source),
+  'color-dodge': (backdrop, source) =>
+    backdrop === 0 ? 0 : source === 1 ? 1 : Math.min(1, backdrop / (1 - source)),
+  'color-burn': (backdrop, source) =>
+    backdrop === 1 ? 1 : source === 0 ? 0 : 1 - Math.min(1, (1 - backdrop) / source),
+  'hard-light': hardLight,
+  'soft-light': (backdrop, source) => {
+    if (source <= 0.5) return backdrop - (1 - 2 * source) * backdrop * (1 - backdrop);
+    const d =
+      backdrop <= 0.25 ? ((16 * backdrop - 12) * backdrop + 4) * backdrop : Math.sqrt(backdrop);
+    return backdrop + (2 * source - 1) * (d - backdrop);
+  },
+  difference: (backdrop, source) => Math.abs(backdrop - source),
+  exclusion: (backdrop, source) => backdrop + source - 2 * backdrop * source,
+};
+
+function hardLight(backdrop: number, source: number): number {
+  return source <= 0.5
+    ? backdrop * 2 * source
+    : backdrop + (2 * source - 1) - backdrop * (2 * source - 1);
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function premultiply(color: RGBA): Premultiplied {
+  const a = clamp(color.a);
+  return { r: (color.r / 255) * a, g: (color.g / 255) * a, b: (color.b / 255) * a, a };
+}
+
+function unpremultiply(color: Premultiplied): Channels {
+  return color.a === 0 ? [0, 0, 0] : [color.r / color.a, color.g / color.a, color.b / color.a];
+}
+
+function withChannels([r, g, b]: Channels, a: number): Premultiplied {
+  return { r: clamp(r) * a, g: clamp(g) * a, b: clamp(b) * a, a };
+}
+
+/** Source-over compositing of two premultiplied colors. */
+function over(top: Premultiplied, bottom: Premultiplied): Premultiplied {
+  return {
+    r: top.r + bottom.r * (1 - top.a),
+    g: top.g + bottom.g * (1 - top.a),
+    b: top.b + bottom.b * (1 - top.a),
+    a: top.a + bottom.a * (1 - top.a),
+  };
+}
+
+function toRgb(color: Premultiplied): RGB {
+  const [r, g, b] = unpremultiply(over(color, premultiply({ ...CANVAS, a: 1 })));
+  return { r: Math.round(r * 255), g: Math.round(g * 255), b: Math.round(b * 255) };
+}
+
+function multiply(matrix: Matrix, [r, g, b]: Channels): Channels {
+  return matrix.map(([mr, mg, mb]) => mr * r + mg * g + mb * b) as Channels;
+}
+
+function parseAmount(argument: string): number {
+  const value = parseFloat(argument);
+  if (Number.isNaN(value)) return 1;
+  return argument.trim().endsWith('%') ? value / 100 : value;
+}
+
+function parseAngle(argument: string): number {
+  const value = parseFloat(argument) || 0;
+  if (argument.endsWith('grad')) return (value * Math.PI) / 200;
+  if (argument.endsWith('rad')) return value;
+  if (argument.endsWith('turn')) return value * 2 * Math.PI;
+  return (value * Math.PI) / 180;
+}
+
+/**
+ * Color matrices of the CSS filter functions, from the Filter Effects
+ * specification. Functions that move pixels around, such as `blur()`, leave
+ * the color of a uniform area unchanged and have no entry.
+ */
+function getFilterMatrix(name: string, argument: string): Matrix | null {
+  const amount = parseAmount(argument);
+
+  switch (name) {
+    case 'grayscale': {
+      const a = 1 - clamp(amount);
+      return [
+        [0.2126 + 0.7874 * a, 0.7152 - 0.7152 * a, 0.0722 - 0.0722 * a],
+        [0.2126 - 0.2126 * a, 0.7152 + 0.2848 * a, 0.0722 - 0.0722 * a],
+        [0.2126 - 0.2126 * a, 0.7152 - 0.7152 * a, 0.0722 + 0.9278 * a],
+      ];
+    }
+    case 'sepia': {
+      const a = 1 - clamp(amount);
+      return [
+        [0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a],
+        [0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a],
+        [0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a],
+      ];
+    }
+    case 'saturate':
+      return [
+        [0.213 + 0.787 * amount, 0.715 - 0.715 * amount, 0.072 - 0.072 * amount],
+        [0.213 - 0.213 * amount, 0.715 + 0.285 * amount, 0.072 - 0.072 * amount],
+        [0.213 - 0.213 * amount, 0.715 - 0.715 * amount, 0.072 + 0.928 * amount],
+      ];
+    case 'hue-rotate': {
+      const angle = parseAngle(argument.trim());
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      return [
+        [
+          0.213 + cos * 0.787 - sin * 0.213,
+          0.715 - cos * 0.715 - sin * 0.715,
+          0.072 - cos * 0.072 + sin * 0.928,
+        ],
+        [
+          0.213 - cos * 0.213 + sin * 0.143,
+          0.715 + cos * 0.285 + sin * 0.14,
+          0.072 - cos * 0.072 - sin * 0.283,
+        ],
+        [
+          0.213 - cos * 0.213 - sin * 0.787,
+          0.715 - cos * 0.715 + sin * 0.715,
+          0.072 + cos * 0.928 + sin * 0.072,
+        ],
+      ];
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Applies a computed `filter` value to a composited group. Returns null when a
+ * function cannot be reproduced, such as a `url()` reference to an SVG filter.
+ */
+function applyFilter(color: Premultiplied, filter: string): Premultiplied | null {
+  if (filter === 'none' || filter === '') return color;
+
+  let channels = unpremultiply(color);
+  let alpha = color.a;
+  let exact = true;
+
+  for (const [, name = '', argument = ''] of filter.matchAll(
+    /([a-z-]+)\(((?:[^()]|\([^()]*\))*)\)/g
+  )) {
+    const amount = parseAmount(argument);
+
+    switch (name) {
+      case 'opacity':
+        alpha *= clamp(amount);
+        break;
+      case 'brightness':
+        channels = channels.map((c) => clamp(c * amount)) as Channels;
+        break;
+      case 'contrast':
+        channels = channels.map((c) => clamp((c - 0.5) * amount + 0.5)) as Channels;
+        break;
+      case 'invert': {
+        const a = clamp(amount);
+        channels = channels.map((c) => a + c * (1 - 2 * a)) as Channels;
+        break;
+      }
+      case 'blur':
+      case 'drop-shadow':
+        break;
+      default: {
+        const matrix = getFilterMatrix(name, argument);
+        if (matrix) {
+          channels = multiply(matrix, channels).map(clamp) as Channels;
+        } else {
+          exact = false;
+        }
+      }
+    }
+  }
+
+  return exact ? withChannels(channels, alpha) : null;
+}
+
+/**
+ * Composites the layers from the innermost outwards, starting from `content`
+ * (the text color, or nothing for the background). Each layer paints its
+ * background below what is inside it, then applies its filter, blend mode and
+ * opacity to the whole group, the way the browser renders a stacking context.
+ */
+function compositeStack(
+  content: RGBA | null,
+  layers: ColorLayer[],
+  state: { approximate: boolean }
+): Premultiplied {
+  let group = content ? premultiply(content) : TRANSPARENT;
+
+  layers.forEach((layer, index) => {
+    const background = parseColorWithAlpha(layer.backgroundColor);
+    if (background) {
+      group = over(group, premultiply(background));
+    } else {
+      state.approximate = true;
+    }
+
+    const filtered = applyFilter(group, layer.filter);
+    if (filtered) {
+      group = filtered;
+    } else {
+      state.approximate = true;
+    }
+
+    if (layer.blendMode !== 'normal') {
+      const blend = SEPARABLE_BLEND_MODES[layer.blendMode];
+      if (blend) {
+        // The backdrop is approximated by the layers outside this one
+        const backdrop = toRgb(compositeStack(null, layers.slice(index + 1), state));
+        const [r, g, b] = unpremultiply(group);
+        group = withChannels(
+          [blend(backdrop.r / 255, r), blend(backdrop.g / 255, g), blend(backdrop.b / 255, b)],
+          group.a
+        );
+      } else {
+        state.approximate = true;
+      }
+    }
+
+    const opacity = clamp(layer.opacity);
+    group = {
+      r: group.r * opacity,
+      g: group.g * opacity,
+      b: group.b * opacity,
+      a: group.a * opacity,
+    };
+  });
+
+  return group;
+}
+
+/**
+ * Works out the rendered text and background colors from the text color and
+ * the layers between the text and the page canvas, listed from the text
+ * element outwards. Translucent backgrounds are blended down to the first
+ * opaque one, or to the white canvas, and the opacity of every layer applies
+ * to the text as well.
+ */
+export function compositeColors(foreground: RGBA, layers: ColorLayer[]): CompositedColors {
+  const state = { approximate: false };
+  const text = compositeStack(foreground, layers, state);
+  const background = compositeStack(null, layers, state);
+  const opacity = layers.reduce((total, layer) => total * clamp(layer.opacity), 1);
+
+  return {
+    foreground: toRgb(text),
+    background: toRgb(background),
+    foregroundAlpha: clamp(foreground.a) * opacity,
+    approximate: state.approximate,
+  };
+}
@@ -1,8 +1,12 @@
 import Color from 'colorjs.io';
 import {
   type RGB,
+  type RGBA,
+  type ContrastAlgorithm,
+  type SampledContrastSummary,
   WCAG_THRESHOLDS,
   APCA_THRESHOLDS,
+  BACKGROUND_VARIABILITY_THRESHOLD,
 } from '../types/colorAnalysis.type.js';
 
 function rgbToColor(rgb: RGB): Color {
@@ -27,6 +31,16 @@ export function parseColor(colorStr: string): RGB | null {
   }
 }
 
+export function parseColorWithAlpha(colorStr: string): RGBA | null {
+  try {
+    const color = new Color(colorStr);
+    const alpha = Number(color.alpha ?? 1);
+    return { ...colorToRgb(color), a: Number.isNaN(alpha) ? 1 : alpha };
+  } catch {
+    return null;
+  }
+}
+
 export function rgbToHex(rgb: RGB): string {
   const toHex = (n: number): string => {
     const hex = Math.max(0, Math.min(255, Math.round(n))).toString(16);
@@ -35,6 +49,16 @@ export function rgbToHex(rgb: RGB): string {
   return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`;
 }
 
+/** Paints a translucent color over an opaque one. */
+export function blendOver(top: RGBA, bottom: RGB): RGB {
+  const alpha = Math.max(0, Math.min(1, top.a));
+  return {
+    r: Math.round(top.r * alpha + bottom.r * (1 - alpha)),
+    g: Math.round(top.g * alpha + bottom.g * (1 - alpha)),
+    b: Math.round(top.b * alpha + bottom.b * (1 - alpha)),
+  };
+}
+
 export function getContrastRatio(fg: RGB, bg: RGB): number {
   const fgColor = rgbToColor(fg);
   const bgColor = rgbToColor(bg);
@@ -47,6 +71,50 @@ export function getAPCAContrast(fg: RGB, bg: RGB): number {
   return fgColor.contrast(bgColor, 'APCA');
 }
 
+export function getRelativeLuminance(rgb: RGB): number {
+  return rgbToColor(rgb).luminance;
+}
+
+/**
+ * Contrast of a text color against every sampled background pixel. Values are
+ * absolute, so APCA polarity does not affect the ordering. A translucent text
+ * color is blended over each pixel first.
+ */
+export function summarizeSampledContrast(
+  fg: RGB | RGBA,
+  samples: RGB[],
+  algorithm: ContrastAlgorithm = 'WCAG21'
+): SampledContrastSummary | null {
+  if (samples.length === 0) return null;
+
+  const measured = samples
+    .map((background) => {
+      const foreground = 'a' in fg ? blendOver(fg, background) : fg;
+      return {
+        value:
+          algorithm === 'APCA'
+            ? Math.abs(getAPCAContrast(foreground, background))
+            : getContrastRatio(foreground, background),
+        background,
+      };
+    })
+    .sort((a, b) => a.value - b.value);
+
+  const luminances = samples.map(getRelativeLuminance);
+  const mean = luminances.reduce((total, l) => total + l, 0) / luminances.length;
+  const variability = Math.sqrt(
+    luminances.reduce((total, l) => total + (l - mean) ** 2, 0) / luminances.length
+  );
+
+  return {
+    worst: measured[0]!,
+    median: measured[Math.floor(measured.length / 2)]!,
+    best: measured[measured.length - 1]!,
+    variability,
+    uncertain: variability > BACKGROUND_VARIABILITY_THRESHOLD,
+  };
+}
+
 export function meetsWCAG(ratio: number, level: 'AA' | 'AAA', isLargeText: boolean): boolean {
   if (level === 'AA') {
     return isLargeText ? ratio >= WCAG_THRESHOLDS.AA_LARGE : ratio >= WCAG_THRESHOLDS.AA_NORMAL;
@@ -54,6 +122,10 @@ export function meetsWCAG(ratio: number, level: 'AA' | 'AAA', isLargeText: boole
   return isLargeText ? ratio >= WCAG_THRESHOLDS.AAA_LARGE : ratio >= WCAG_THRESHOLDS.AAA_NORMAL;
 }
 
+export function meetsWCAGNonText(ratio: number): boolean {
+  return ratio >= WCAG_THRESHOLDS.NON_TEXT;
+}
+
 export function meetsAPCA(lightness: number, textType: 'body' | 'large' | 'nonText'): boolean {
   const absLightness = Math.abs(lightness);
   switch (textType) {
@@ -1,7 +1,18 @@
 export * from './contrast.js';
+export * from './compositing.js';
 
 import type { AnalysisTarget } from '@/shared/types/analysis.js';
-import type { ContrastToolInput, ContrastAnalysisResult } from '../types/contrast.type.js';
+import type { ScreenshotOptions } from '@/shared/types/screenshot.js';
+import { applyProjectTarget, getIgnoredRules, resolveWcagLevel } from '@/shared/config/index.js';
+import { getPageScreenshotPaths } from '@/shared/browser/screenshots.js';
+import type {
+  ContrastToolInput,
+  ContrastAnalysisResult,
+  ContrastMode,
+  BackgroundSamplingMode,
+  PseudoState,
+  StyleStates,
+} from '../types/contrast.type.js';
 
 export interface ContrastToolOutput {
   success: boolean;
@@ -11,13 +22,14 @@ export interface ContrastToolOutput {
   issueCount: number;
   issues: ContrastAnalysisResult['issues'];
   summary: ContrastAnalysisResult['summary'];
+  pageScreenshots?: string[] | undefined;
   duration?: number | undefined;
   error?: string | undefined;
 }
 
 export function buildAnalysisTarget(input: ContrastToolInput): AnalysisTarget {
   if (input.url) {
-    return {
+    return applyProjectTarget({
       type: 'url',
       value: input.url,
       options: {
@@ -25,11 +37,15 @@ export function buildAnalysisTarget(input: ContrastToolInput): AnalysisTarget {
         timeout: input.options?.browser?.waitForTimeout,
         viewport: input.options?.browser?.viewport,
         ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+        authentication: input.options?.browser?.authentication,
+        actions: input.options?.browser?.actions,
+        states: input.options?.browser?.states,
+        viewports: input.options?.browser?.viewports,
       },
-    };
+    });
   }
 
-  return {
+  return applyProjectTarget({
     type: 'html',
     value: input.html!,
     options: {
@@ -37,8 +53,12 @@ export function buildAnalysisTarget(input: ContrastToolInput): AnalysisTarget {
       timeout: input.options?.browser?.waitForTimeout,
       viewport: input.options?.browser?.viewport,
       ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+      authentication: input.options?.browser?.authentication,
+      actions: input.options?.browser?.actions,
+      states: input.options?.browser?.states,
+      viewports: input.options?.browser?.viewports,
     },
-  };
+  });
 }
 
 export interface ContrastBuildOptions {
@@ -47,11 +67,16 @@ export interface ContrastBuildOptions {
   suggestFixes: boolean;
   includePassingElements: boolean;
   selector?: string;
+  mode?: ContrastMode;
+  backgroundSampling?: BackgroundSamplingMode;
+  styleStates?: StyleStates;
+  screenshots?: ScreenshotOptions;
+  excludeRules?: string[] | undefined;
 }
 
 export function buildAnalysisOptions(input: ContrastToolInput): ContrastBuildOptions {
   const options: ContrastBuildOptions = {
-    wcagLevel: input.options?.wcagLevel ?? 'AA',
+    wcagLevel: input.options?.wcagLevel ?? (resolveWcagLevel(input.url) === 'AAA' ? 'AAA' : 'AA'),
     contrastAlgorithm: input.options?.contrastAlgorithm ?? 'WCAG21',
     suggestFixes: input.options?.suggestFixes ?? true,
     includePassingElements: input.options?.includePassingElements ?? false,
@@ -59,9 +84,46 @@ export function buildAnalysisOptions(input: ContrastToolInput): ContrastBuildOpt
   if (input.options?.selector !== undefined) {
     options.selector = input.options.selector;
   }
+  if (input.options?.mode !== undefined) {
+    options.mode = input.options.mode;
+  }
+  if (input.options?.backgroundSampling !== undefined) {
+    options.backgroundSampling = input.options.backgroundSampling;
+  }
+  if (input.options?.styleStates !== undefined) {
+    options.styleStates = input.options.styleStates;
+  }
+  if (input.options?.screenshots !== undefined) {
+    options.screenshots = input.options.screenshots;
+  }
+  const ignoredRules = getIgnoredRules('contrast-analyzer', input.url).map((rule) => rule.ruleId);
+  if (ignoredRules.length > 0) {
+    options.excludeRules = ignoredRules;
+  }
   return options;
 }
 
+/**
+ * Checks a mode runs once the excluded rules are left out: `color-contrast`
+ * covers text and `non-text-contrast` covers UI components and graphics.
+ */
+export function getContrastChecks(
+  mode: ContrastMode,
+  excludeRules: string[] = []
+): { text: boolean; nonText: boolean } {
+  const excluded = new Set(excludeRules);
+  return {
+    text: mode !== 'non-text' && !excluded.has('color-contrast'),
+    nonText: mode !== 'text' && !excluded.has('non-text-contrast'),
+  };
+}
+
+/** Label of a pseudo-state under emulated media, such as `dark:hover`, or `default`. */
+export function getStyleStateName(media?: string, pseudoState?: PseudoState): string {
+  if (media && pseudoState) return `${media}:${pseudoState}`;
+  return media ?? pseudoState ?? 'default';
+}
+
 export function formatOutput(result: ContrastAnalysisResult): ContrastToolOutput {
   return {
     success: result.success,
@@ -71,7 +133,52 @@ export function formatOutput(result: ContrastAnalysisResult): ContrastToolOutput
     issueCount: result.issues.length,
     issues: result.issues,
     summary: result.summary,
+    pageScreenshots: getPageScreenshotPaths(result.snapshots),
     duration: result.duration,
     error: result.error,
   };
 }
+
+export function mergeContrastSummaries(
+  summaries: ContrastAnalysisResult['summary'][]
+): ContrastAnalysisResult['summary'] {
+  const merged: ContrastAnalysisResult['summary'] = { total: 0, passing: 0, failing: 0 };
+
+  for (const summary of summaries) {
+    merged.total += summary.total;
+    merged.passing += summary.passing;
+    merged.failing += summary.failing;
+
+    if (summary.byTextSize) {
+      merged.byTextSize ??= {
+        normalText: { passing: 0, failing: 0 },
+        largeText: { passing: 0, failing: 0 },
+      };
+      for (const size of ['normalText', 'largeText'] as const) {
+        merged.byTextSize[size].passing += summary.byTextSize[size].passing;
+        merged.byTextSize[size].failing += summary.byTextSize[size].failing;
+      }
+    }
+
+    if (summary.nonText) {
+      merged.nonText ??= { passing: 0, failing: 0 };
+      merged.nonText.passing += summary.nonText.passing;
+      merged.nonText.failing += summary.nonText.failing;
+    }
+
+    if (summary.sampledBackgrounds) {
+      merged.sampledBackgrounds ??= { sampled: 0, uncertain: 0 };
+      merged.sampledBackgrounds.sampled += summary.sampledBackgrounds.sampled;
+      merged.sampledBackgrounds.uncertain += summary.sampledBackgrounds.uncertain;
+    }
+
+    for (const [styleState, counts] of Object.entries(summary.byStyleState ?? {})) {
+      merged.byStyleState ??= {};
+      const mergedCounts = (merged.byStyleState[styleState] ??= { passing: 0, failing: 0 });
+      mergedCounts.passing += counts.passing;
+      mergedCounts.failing += counts.failing;
+    }
+  }
+
+  return merged;
+}
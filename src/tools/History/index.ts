@@ -0,0 +1,3 @@
+export { listHistoryRunsTool, getHistoryRunTool, getHistoryTrendTool } from './main.js';
+export * from './types/index.js';
+export * from './utils/index.js';
@@ -0,0 +1,181 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ensureProjectConfig } from '@/shared/config/index.js';
+import { getHistoryStore } from '@/shared/history/index.js';
+import {
+  ListHistoryRunsInputSchema,
+  GetHistoryRunInputSchema,
+  GetHistoryTrendInputSchema,
+  type ListHistoryRunsInput,
+  type GetHistoryRunInput,
+  type GetHistoryTrendInput,
+  type ListHistoryRunsOutput,
+  type GetHistoryTrendOutput,
+} from './types/index.js';
+import { resolveHistoryTargetId } from './utils/index.js';
+import {
+  type ToolContent,
+  type ToolDefinition,
+  type ToolResponse,
+  createJsonResponse,
+  createErrorResponse,
+} from '../Base/index.js';
+
+// History reads are quick file lookups, so like the job tools they bypass the
+// job queue instead of waiting behind running analyses.
+
+type McpToolResult = { content: ToolContent[] };
+
+function invalidInput(errors: string): McpToolResult {
+  return { content: createErrorResponse(new Error(`Invalid input: ${errors}`)).content };
+}
+
+async function handleListHistoryRuns(input: ListHistoryRunsInput): Promise<ToolResponse> {
+  await ensureProjectConfig();
+  const store = getHistoryStore();
+  const targetId = resolveHistoryTargetId(input);
+
+  const output: ListHistoryRunsOutput = {
+    directory: store.directory,
+    targetId,
+    runs: await store.listRuns({ targetId, tool: input.tool, limit: input.limit }),
+  };
+  return createJsonResponse(output);
+}
+
+async function handleGetHistoryRun(input: GetHistoryRunInput): Promise<ToolResponse> {
+  await ensureProjectConfig();
+  const stored = await getHistoryStore().getRun(input.runId);
+
+  if (!stored) {
+    return createErrorResponse(new Error(`History run ${input.runId} not found`));
+  }
+
+  return createJsonResponse(stored);
+}
+
+async function handleGetHistoryTrend(input: GetHistoryTrendInput): Promise<ToolResponse> {
+  await ensureProjectConfig();
+  const targetId = resolveHistoryTargetId(input)!;
+  const trend: GetHistoryTrendOutput | undefined = await getHistoryStore().getTrend(targetId, {
+    tool: input.tool,
+    limit: input.limit,
+  });
+
+  if (!trend) {
+    return createErrorResponse(
+      new Error(`No history recorded for ${input.url ?? `target ${targetId}`}`)
+    );
+  }
+
+  return createJsonResponse(trend);
+}
+
+export const listHistoryRunsTool: ToolDefinition = {
+  name: 'list-history-runs',
+  description: `List recorded accessibility analysis runs, newest first.
+
+When the project config sets history.enabled: true, every analysis tool call on a URL is recorded in the history directory.
+
+Input options
+- url: Only runs of this URL
+- targetId: Only runs of this target (ids are listed by the history://targets resource)
+- tool: Only runs of this tool, e.g. "analyze-with-lighthouse"
+- limit: Maximum runs to return. Default: 20
+
+Output
+- directory: History directory the runs were read from
+- runs: Run id, target, tool, timestamp, success, issue counts by severity, principle and criterion, and the Lighthouse score when there is one`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      ListHistoryRunsInputSchema.shape,
+      async (input): Promise<McpToolResult> => {
+        const parseResult = ListHistoryRunsInputSchema.safeParse(input);
+
+        if (!parseResult.success) {
+          return invalidInput(
+            parseResult.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ')
+          );
+        }
+
+        const response = await handleListHistoryRuns(parseResult.data);
+        return { content: response.content };
+      }
+    );
+  },
+};
+
+export const getHistoryRunTool: ToolDefinition = {
+  name: 'get-history-run',
+  description: `Return a recorded analysis run with its full result.
+
+Input options
+- runId: Id of the run, as listed by list-history-runs
+
+Output
+- run: Run summary (target, tool, timestamp and issue counts)
+- result: The analysis result exactly as the tool produced it`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      GetHistoryRunInputSchema.shape,
+      async (input): Promise<McpToolResult> => {
+        const parseResult = GetHistoryRunInputSchema.safeParse(input);
+
+        if (!parseResult.success) {
+          return invalidInput(
+            parseResult.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ')
+          );
+        }
+
+        const response = await handleGetHistoryRun(parseResult.data);
+        return { content: response.content };
+      }
+    );
+  },
+};
+
+export const getHistoryTrendTool: ToolDefinition = {
+  name: 'get-history-trend',
+  description: `Compute how the accessibility of a page evolved across recorded runs.
+
+One trend is returned per tool, because tools find different issues. Failed runs are skipped.
+
+Input options
+- url: URL of the page
+- targetId: Target id (alternative to url)
+- tool: Only the trend of this tool, e.g. "analyze-mixed"
+- limit: Only compare the most recent runs of each tool
+
+Output
+- trends[].direction: "improving" when the issue count went down (or, with the same count, the Lighthouse score went up), "worsening" in the opposite case, else "stable"
+- trends[].total, bySeverity, byPrinciple, byCriterion: First and last counts and the change between them
+- trends[].score: First and last Lighthouse score when both runs have one
+- trends[].points: Issue counts and score of every run, oldest first`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      GetHistoryTrendInputSchema.shape,
+      async (input): Promise<McpToolResult> => {
+        const parseResult = GetHistoryTrendInputSchema.safeParse(input);
+
+        if (!parseResult.success || (!parseResult.data.url && !parseResult.data.targetId)) {
+          return invalidInput(
+            parseResult.success
+              ? 'Provide url or targetId'
+              : parseResult.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ')
+          );
+        }
+
+        const response = await handleGetHistoryTrend(parseResult.data);
+        return { content: response.content };
+      }
+    );
+  },
+};
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import type { HistoryRun, HistoryTargetTrend } from '@/shared/history/index.js';
+
+const HistoryTargetInputSchema = z.object({
+  url: z.string().url().optional().describe('URL of the analyzed page'),
+  targetId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Target id from history://targets (alternative to url)'),
+  tool: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only runs of this tool, e.g. analyze-with-lighthouse or analyze-mixed'),
+});
+
+export const ListHistoryRunsInputSchema = HistoryTargetInputSchema.extend({
+  limit: z.number().int().positive().max(500).default(20).describe('Maximum runs to return'),
+});
+
+export const GetHistoryRunInputSchema = z.object({
+  runId: z.string().min(1).describe('Id of the recorded run'),
+});
+
+export const GetHistoryTrendInputSchema = HistoryTargetInputSchema.extend({
+  limit: z
+    .number()
+    .int()
+    .min(2)
+    .max(500)
+    .optional()
+    .describe('Only compare the most recent runs of each tool'),
+});
+
+export type ListHistoryRunsInput = z.infer<typeof ListHistoryRunsInputSchema>;
+export type GetHistoryRunInput = z.infer<typeof GetHistoryRunInputSchema>;
+export type GetHistoryTrendInput = z.infer<typeof GetHistoryTrendInputSchema>;
+
+export interface ListHistoryRunsOutput {
+  directory: string;
+  targetId?: string | undefined;
+  runs: HistoryRun[];
+}
+
+export type GetHistoryTrendOutput = HistoryTargetTrend;
@@ -0,0 +1,8 @@
+import { createHistoryTargetId } from '@/shared/history/index.js';
+
+export function resolveHistoryTargetId(input: {
+  url?: string | undefined;
+  targetId?: string | undefined;
+}): string | undefined {
+  return input.targetId ?? (input.url ? createHistoryTargetId(input.url) : undefined);
+}
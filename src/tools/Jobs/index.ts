@@ -0,0 +1,2 @@
+export { getJobStatusTool, getJobResultTool } from './main.js';
+export * from './types/index.js';
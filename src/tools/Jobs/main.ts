@@ -0,0 +1,138 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ensureProjectConfig } from '@/shared/config/index.js';
+import {
+  GetJobStatusInputSchema,
+  GetJobResultInputSchema,
+  type GetJobStatusInput,
+  type GetJobResultInput,
+  type JobStatusOutput,
+} from './types/index.js';
+import {
+  type ToolContent,
+  type ToolDefinition,
+  type ToolResponse,
+  createJsonResponse,
+  createErrorResponse,
+  getToolJobQueue,
+} from '../Base/index.js';
+
+// Job lookups bypass withToolContext: running them as jobs would queue them
+// behind the very analyses they report on.
+
+async function handleGetJobStatus(input: GetJobStatusInput): Promise<ToolResponse> {
+  await ensureProjectConfig();
+  const queue = getToolJobQueue();
+
+  if (!input.jobId) {
+    const output: JobStatusOutput = { queue: queue.stats(), jobs: queue.list() };
+    return createJsonResponse(output);
+  }
+
+  const job = queue.get(input.jobId);
+  if (!job) {
+    return createErrorResponse(new Error(`Job ${input.jobId} not found`));
+  }
+
+  const output: JobStatusOutput = { queue: queue.stats(), job };
+  return createJsonResponse(output);
+}
+
+async function handleGetJobResult(input: GetJobResultInput): Promise<ToolResponse> {
+  await ensureProjectConfig();
+  const queue = getToolJobQueue();
+  const job = queue.get(input.jobId);
+
+  if (!job) {
+    return createErrorResponse(new Error(`Job ${input.jobId} not found`));
+  }
+
+  switch (job.status) {
+    case 'completed':
+      return (
+        queue.getResult(job.id) ?? createErrorResponse(new Error(`Job ${job.id} has no result`))
+      );
+    case 'failed':
+      return createErrorResponse(
+        new Error(`Job ${job.id} failed: ${job.error ?? 'unknown error'}`)
+      );
+    case 'cancelled':
+      return createErrorResponse(new Error(`Job ${job.id} was cancelled`));
+    default:
+      return createErrorResponse(
+        new Error(`Job ${job.id} is ${job.status}; check get-job-status for progress`)
+      );
+  }
+}
+
+export const getJobStatusTool: ToolDefinition = {
+  name: 'get-job-status',
+  description: `Report the status and progress of analysis jobs.
+
+Every analysis tool call runs as a job on a concurrency-limited queue. The job id is sent in the first progress notification of the call ("Job job_... started" or "Job job_... queued behind N job(s)"), and returned right away by calls made with background: true.
+
+Input options
+- jobId: Id of the job to look up. Omit to list the jobs the server still remembers, newest first
+
+Output
+- queue: Number of queued, running and finished jobs
+- job: Status (queued, running, completed, failed, cancelled), timestamps, last progress and error of the job
+- jobs: The same information for every remembered job when jobId is omitted`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      GetJobStatusInputSchema.shape,
+      async (input): Promise<{ content: ToolContent[] }> => {
+        const parseResult = GetJobStatusInputSchema.safeParse(input);
+
+        if (!parseResult.success) {
+          const errors = parseResult.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; ');
+          const response = createErrorResponse(new Error(`Invalid input: ${errors}`));
+          return { content: response.content };
+        }
+
+        const response = await handleGetJobStatus(parseResult.data);
+        return { content: response.content };
+      }
+    );
+  },
+};
+
+export const getJobResultTool: ToolDefinition = {
+  name: 'get-job-result',
+  description: `Return the result of a finished analysis job.
+
+Use it to fetch the output of an analysis started with background: true, or of a long analysis when the original tool call stopped waiting for it without cancelling the request. Cancelled requests cancel their job. Only the most recent finished jobs are kept (see the jobs.maxFinishedJobs setting).
+
+Input options
+- jobId: Id of the job, as returned by a background call, reported in progress notifications or listed by get-job-status
+
+Output
+- The original tool output when the job completed
+- An error when the job is still queued or running, failed, was cancelled or is no longer remembered`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      GetJobResultInputSchema.shape,
+      async (input): Promise<{ content: ToolContent[] }> => {
+        const parseResult = GetJobResultInputSchema.safeParse(input);
+
+        if (!parseResult.success) {
+          const errors = parseResult.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; ');
+          const response = createErrorResponse(new Error(`Invalid input: ${errors}`));
+          return { content: response.content };
+        }
+
+        const response = await handleGetJobResult(parseResult.data);
+        return { content: response.content };
+      }
+    );
+  },
+};
@@ -0,0 +1 @@
+export * from './jobs.types.js';
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import type { JobInfo, JobQueueStats } from '@/shared/jobs/index.js';
+
+export const GetJobStatusInputSchema = z.object({
+  jobId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Id of the job to look up. Omit to list the jobs the server still remembers'),
+});
+
+export const GetJobResultInputSchema = z.object({
+  jobId: z.string().min(1).describe('Id of the job whose result should be returned'),
+});
+
+export type GetJobStatusInput = z.infer<typeof GetJobStatusInputSchema>;
+export type GetJobResultInput = z.infer<typeof GetJobResultInputSchema>;
+
+export interface JobStatusOutput {
+  queue: JobQueueStats;
+  job?: JobInfo | undefined;
+  jobs?: JobInfo[] | undefined;
+}
@@ -0,0 +1 @@
+export * from './keyboard.adapter.js';
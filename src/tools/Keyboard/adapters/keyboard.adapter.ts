@@ -0,0 +1,644 @@
+import type { Page } from 'puppeteer';
+import type { AnalysisTarget } from '@/shared/types/analysis.js';
+import type {
+  AccessibilityIssue,
+  AnalysisResult,
+  WCAGLevel,
+} from '@/shared/types/accessibility.js';
+import { createAdapterLogger } from '@/shared/utils/logger.js';
+import { collectTargetSecrets, redactSecrets } from '@/shared/utils/redact.js';
+import {
+  closeTargetPage,
+  openTargetPage,
+  resolveAuthSession,
+} from '@/shared/browser/authentication.js';
+import { loadTarget } from '@/shared/browser/navigation.js';
+import { installSelectorHelper, type SelectorWindow } from '@/shared/browser/selectors.js';
+import {
+  getBrowserPool,
+  type BrowserLaunchOptions,
+  type BrowserLease,
+} from '@/shared/browser/pool.js';
+import { toPageViewport } from '@/shared/browser/viewports.js';
+import { keyboardNormalizer } from '../normalizers/index.js';
+import {
+  INTERACTIVE_ROLES,
+  type BoundingBox,
+  type FocusableElement,
+  type KeyboardAnalysisResult,
+  type KeyboardTrace,
+  type KeyboardTrap,
+  type TracedFocusStop,
+} from '../types/index.js';
+import { detectKeyboardIssues } from '../utils/index.js';
+
+const MAX_SCREENSHOT_CHECKS = 50;
+const SCREENSHOT_PADDING_PX = 8;
+
+export interface KeyboardAdapterConfig {
+  timeout?: number;
+  headless?: boolean;
+  browserArgs?: string[];
+  ignoreHTTPSErrors?: boolean;
+}
+
+export interface KeyboardAdapterOptions {
+  wcagLevel?: WCAGLevel;
+  maxTabStops?: number;
+  checkFocusIndicator?: boolean;
+  excludeRules?: string[] | undefined;
+}
+
+interface ActiveElementInfo extends FocusableElement {
+  role?: string;
+  name?: string;
+  isFrame: boolean;
+  styleChanged: boolean | null;
+}
+
+interface CollectedElements {
+  focusable: FocusableElement[];
+  nonFocusableInteractive: KeyboardTrace['nonFocusableInteractive'];
+}
+
+interface KeyboardPageHelpers {
+  elements: Element[];
+  baseline: Map<number, string>;
+  idOf(el: Element): number;
+  describe(el: Element): FocusableElement;
+  styleSignature(el: Element): string;
+  activeElement(): Element | null;
+}
+
+type KeyboardWindow = Window & { __a11yKeyboard: KeyboardPageHelpers };
+
+export class KeyboardAdapter {
+  readonly name = 'keyboard-analyzer';
+  readonly version = '1.0.0';
+
+  private config: KeyboardAdapterConfig;
+  private logger: ReturnType<typeof createAdapterLogger>;
+
+  constructor(config: KeyboardAdapterConfig = {}) {
+    this.config = {
+      timeout: 30000,
+      headless: true,
+      browserArgs: ['--no-sandbox', '--disable-setuid-sandbox'],
+      ...config,
+    };
+    this.logger = createAdapterLogger('KeyboardAdapter');
+  }
+
+  async analyze(
+    target: AnalysisTarget,
+    options?: KeyboardAdapterOptions
+  ): Promise<KeyboardAnalysisResult> {
+    const startTime = Date.now();
+    let page: Page | null = null;
+    let lease: BrowserLease | null = null;
+    let pageTarget = target;
+
+    const wcagLevel = options?.wcagLevel ?? 'AA';
+    const maxTabStops = options?.maxTabStops ?? 200;
+    const checkFocusIndicator = options?.checkFocusIndicator ?? true;
+
+    try {
+      this.logger.info('Starting keyboard analysis', { target: target.value, maxTabStops });
+
+      pageTarget = await resolveAuthSession(target, {
+        timeout: this.config.timeout,
+        ignoreHTTPSErrors: this.config.ignoreHTTPSErrors,
+      });
+      lease = await getBrowserPool().acquire(this.launchOptions());
+      page = await openTargetPage(lease.browser, pageTarget);
+
+      if (target.options?.viewport) {
+        await page.setViewport(toPageViewport(target.options.viewport));
+      }
+
+      const snapshot = await loadTarget(page, pageTarget, this.config.timeout);
+      await installSelectorHelper(page);
+      await page.evaluate(installKeyboardHelpers);
+
+      const collected = await page.evaluate(collectElements, INTERACTIVE_ROLES);
+      const trace = await this.traceKeyboard(page, collected, maxTabStops, checkFocusIndicator);
+
+      if (checkFocusIndicator) {
+        await this.confirmFocusIndicators(page, trace.forward);
+      }
+
+      const findings = detectKeyboardIssues(trace, {
+        wcagLevel,
+        checkFocusIndicator,
+        excludeRules: options?.excludeRules,
+      });
+      const issues = keyboardNormalizer.normalize(findings, {
+        tool: 'keyboard-analyzer',
+        targetUrl: target.type === 'url' ? target.value : undefined,
+        targetFile: target.type === 'file' ? target.value : undefined,
+      });
+
+      const duration = Date.now() - startTime;
+      this.logger.info('Keyboard analysis completed', {
+        issueCount: issues.length,
+        tabStops: trace.forward.length,
+        completed: trace.completed,
+        duration,
+      });
+
+      return redactSecrets(
+        {
+          ...this.buildSuccessResult(target.value, issues, trace, duration),
+          snapshots: [snapshot],
+        },
+        collectTargetSecrets(pageTarget)
+      );
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error('Keyboard analysis failed', {
+        error: error as Error,
+        target: target.value,
+      });
+
+      return redactSecrets(
+        this.buildErrorResult(target.value, error, duration),
+        collectTargetSecrets(pageTarget)
+      );
+    } finally {
+      if (page) {
+        await closeTargetPage(page);
+      }
+      await lease?.release();
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return await getBrowserPool().isAvailable(this.launchOptions());
+  }
+
+  async dispose(): Promise<void> {
+    await getBrowserPool().closeIdle(this.launchOptions());
+  }
+
+  private launchOptions(): BrowserLaunchOptions {
+    return {
+      headless: this.config.headless,
+      args: this.config.browserArgs,
+      ignoreHTTPSErrors: this.config.ignoreHTTPSErrors,
+    };
+  }
+
+  private async traceKeyboard(
+    page: Page,
+    collected: CollectedElements,
+    maxTabStops: number,
+    checkFocusIndicator: boolean
+  ): Promise<KeyboardTrace> {
+    const forward: TracedFocusStop[] = [];
+    const seen = new Map<number, number>();
+    let completed = false;
+    let trap: KeyboardTrap | null = null;
+
+    await page.evaluate(() => {
+      (document.activeElement as HTMLElement | null)?.blur();
+    });
+
+    for (let press = 0; press < maxTabStops; press++) {
+      await page.keyboard.press('Tab');
+      const active = await this.describeActive(page);
+
+      if (!active) {
+        completed = true;
+        break;
+      }
+
+      const previous = forward[forward.length - 1];
+      if (previous?.id === active.id) {
+        if (active.isFrame) continue;
+        trap = { ids: [active.id], escapedWith: await this.tryEscape(page, [active.id]) };
+        break;
+      }
+
+      const index = seen.get(active.id);
+      if (index === 0) {
+        completed = true;
+        break;
+      }
+      if (index !== undefined) {
+        const ids = forward.slice(index).map((stop) => stop.id);
+        trap = { ids, escapedWith: await this.tryEscape(page, ids) };
+        break;
+      }
+
+      seen.set(active.id, forward.length);
+      forward.push(this.toFocusStop(active, forward.length + 1, checkFocusIndicator));
+    }
+
+    const reverse =
+      completed && forward.length > 1 ? await this.traceReverse(page, forward.length) : [];
+
+    if (trap) {
+      this.logger.warn('Keyboard trap detected', {
+        elements: trap.ids.length,
+        escapedWith: trap.escapedWith,
+      });
+    }
+
+    return {
+      focusable: collected.focusable,
+      nonFocusableInteractive: collected.nonFocusableInteractive,
+      forward,
+      reverse,
+      completed,
+      trap,
+    };
+  }
+
+  private async traceReverse(page: Page, tabStops: number): Promise<TracedFocusStop[]> {
+    const reverse: TracedFocusStop[] = [];
+    const seen = new Set<number>();
+
+    for (let press = 0; press < tabStops + 2; press++) {
+      await this.pressShiftTab(page);
+      const active = await this.describeActive(page);
+
+      if (!active) {
+        if (reverse.length > 0) break;
+        continue;
+      }
+      if (seen.has(active.id)) break;
+
+      seen.add(active.id);
+      reverse.push(this.toFocusStop(active, reverse.length + 1, false));
+    }
+
+    return reverse;
+  }
+
+  private async tryEscape(page: Page, ids: number[]): Promise<KeyboardTrap['escapedWith']> {
+    const trapped = new Set(ids);
+
+    for (let press = 0; press <= ids.length; press++) {
+      await this.pressShiftTab(page);
+      const active = await this.describeActive(page);
+      if (!active || !trapped.has(active.id)) {
+        return 'shift-tab';
+      }
+    }
+
+    await page.keyboard.press('Escape');
+    await page.keyboard.press('Tab');
+    const active = await this.describeActive(page);
+    if (!active || !trapped.has(active.id)) {
+      return 'escape';
+    }
+
+    return null;
+  }
+
+  /**
+   * Stops whose computed styles did not change on focus may still draw an
+   * indicator through a parent or pseudo-element, so they are compared
+   * pixel by pixel against the same area after blur.
+   */
+  private async confirmFocusIndicators(page: Page, forward: TracedFocusStop[]): Promise<void> {
+    const candidates = forward.filter((stop) => stop.focusIndicator === 'missing');
+
+    for (const stop of candidates.slice(0, MAX_SCREENSHOT_CHECKS)) {
+      const previous = forward[stop.step - 2];
+
+      try {
+        await page.evaluate((previousId: number | null) => {
+          const helpers = (window as unknown as KeyboardWindow).__a11yKeyboard;
+          (document.activeElement as HTMLElement | null)?.blur();
+          if (previousId !== null) {
+            (helpers.elements[previousId] as HTMLElement | undefined)?.focus();
+          }
+        }, previous?.id ?? null);
+        await page.keyboard.press('Tab');
+
+        const active = await this.describeActive(page);
+        if (active?.id !== stop.id) continue;
+
+        const clip = this.paddedClip(active.boundingBox);
+        const focused = await page.screenshot({ clip, captureBeyondViewport: false });
+        await page.evaluate(() => {
+          (document.activeElement as HTMLElement | null)?.blur();
+        });
+        const blurred = await page.screenshot({ clip, captureBeyondViewport: false });
+
+        if (!Buffer.from(focused).equals(Buffer.from(blurred))) {
+          stop.focusIndicator = 'visible';
+        }
+      } catch (error) {
+        this.logger.debug('Focus indicator screenshot failed', {
+          selector: stop.selector,
+          error: error as Error,
+        });
+      }
+    }
+  }
+
+  private async describeActive(page: Page): Promise<ActiveElementInfo | null> {
+    return await page.evaluate(() => {
+      const helpers = (window as unknown as KeyboardWindow).__a11yKeyboard;
+      const el = helpers.activeElement();
+      if (!el) return null;
+
+      const info = helpers.describe(el);
+      const baseline = helpers.baseline.get(info.id);
+      const role =
+        el.getAttribute('role') ??
+        (
+          { a: 'link', button: 'button', select: 'combobox', textarea: 'textbox' } as Record<
+            string,
+            string
+          >
+        )[info.tagName];
+      const name = (
+        el.getAttribute('aria-label') ||
+        (el as HTMLElement).innerText ||
+        (el as HTMLInputElement).value ||
+        el.getAttribute('title') ||
+        ''
+      )
+        .trim()
+        .substring(0, 80);
+
+      return {
+        ...info,
+        ...(role && { role }),
+        ...(name && { name }),
+        isFrame: info.tagName === 'iframe',
+        styleChanged: baseline === undefined ? null : baseline !== helpers.styleSignature(el),
+      };
+    });
+  }
+
+  private async pressShiftTab(page: Page): Promise<void> {
+    await page.keyboard.down('Shift');
+    await page.keyboard.press('Tab');
+    await page.keyboard.up('Shift');
+  }
+
+  private toFocusStop(
+    active: ActiveElementInfo,
+    step: number,
+    checkFocusIndicator: boolean
+  ): TracedFocusStop {
+    const focusIndicator =
+      !checkFocusIndicator || active.styleChanged === null
+        ? 'unknown'
+        : active.styleChanged
+          ? 'visible'
+          : 'missing';
+
+    return {
+      id: active.id,
+      step,
+      selector: active.selector,
+      snippet: active.snippet,
+      tagName: active.tagName,
+      ...(active.role && { role: active.role }),
+      ...(active.name && { name: active.name }),
+      tabIndex: active.tabIndex,
+      boundingBox: active.boundingBox,
+      focusIndicator,
+    };
+  }
+
+  private paddedClip(box: BoundingBox): BoundingBox {
+    return {
+      x: Math.max(0, box.x - SCREENSHOT_PADDING_PX),
+      y: Math.max(0, box.y - SCREENSHOT_PADDING_PX),
+      width: Math.max(1, box.width + SCREENSHOT_PADDING_PX * 2),
+      height: Math.max(1, box.height + SCREENSHOT_PADDING_PX * 2),
+    };
+  }
+
+  private buildSuccessResult(
+    target: string,
+    issues: AccessibilityIssue[],
+    trace: KeyboardTrace,
+    duration: number
+  ): KeyboardAnalysisResult {
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration,
+      target,
+      tool: 'keyboard-analyzer',
+      issues,
+      summary: this.calculateSummary(issues),
+      focusOrder: trace.forward.map(({ id: _id, snippet: _snippet, ...stop }) => stop),
+      traversal: {
+        tabStops: trace.forward.length,
+        focusableElements: trace.focusable.length,
+        completed: trace.completed,
+        trapped: trace.trap !== null && trace.trap.escapedWith === null,
+        reverseChecked: trace.reverse.length > 1,
+      },
+    };
+  }
+
+  private buildErrorResult(
+    target: string,
+    error: unknown,
+    duration: number
+  ): KeyboardAnalysisResult {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    return {
+      success: false,
+      timestamp: new Date().toISOString(),
+      duration,
+      target,
+      tool: 'keyboard-analyzer',
+      issues: [],
+      summary: {
+        total: 0,
+        bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+      },
+      focusOrder: [],
+      error: errorMessage,
+    };
+  }
+
+  private calculateSummary(issues: AccessibilityIssue[]): AnalysisResult['summary'] {
+    const bySeverity = { critical: 0, serious: 0, moderate: 0, minor: 0 };
+    const byPrinciple = { perceivable: 0, operable: 0, understandable: 0, robust: 0 };
+    const byRule: Record<string, number> = {};
+
+    for (const issue of issues) {
+      bySeverity[issue.severity]++;
+
+      if (issue.wcag?.principle) {
+        byPrinciple[issue.wcag.principle]++;
+      }
+
+      byRule[issue.ruleId] = (byRule[issue.ruleId] ?? 0) + 1;
+    }
+
+    return {
+      total: issues.length,
+      bySeverity,
+      byPrinciple,
+      byRule,
+    };
+  }
+}
+
+/**
+ * Runs in the page. Installs helpers shared by later evaluate calls so that
+ * elements keep a stable id across the whole trace.
+ */
+function installKeyboardHelpers(): void {
+  const ids = new WeakMap<Element, number>();
+  const elements: Element[] = [];
+
+  const STYLE_PROPERTIES = [
+    'outline-style',
+    'outline-width',
+    'outline-color',
+    'outline-offset',
+    'box-shadow',
+    'border-top-color',
+    'border-bottom-color',
+    'border-top-width',
+    'border-bottom-width',
+    'background-color',
+    'background-image',
+    'color',
+    'text-decoration-line',
+  ];
+
+  function idOf(el: Element): number {
+    let id = ids.get(el);
+    if (id === undefined) {
+      id = elements.length;
+      ids.set(el, id);
+      elements.push(el);
+    }
+    return id;
+  }
+
+  const selectorOf = (window as unknown as SelectorWindow).__a11ySelectorOf;
+
+  function describe(el: Element): FocusableElement {
+    const rect = el.getBoundingClientRect();
+
+    return {
+      id: idOf(el),
+      selector: selectorOf(el),
+      snippet: el.outerHTML.substring(0, 300),
+      tagName: el.tagName.toLowerCase(),
+      tabIndex: (el as HTMLElement).tabIndex,
+      boundingBox: {
+        x: rect.left + window.scrollX,
+        y: rect.top + window.scrollY,
+        width: rect.width,
+        height: rect.height,
+      },
+    };
+  }
+
+  function styleSignature(el: Element): string {
+    return [null, '::before', '::after']
+      .map((pseudo) => {
+        const style = window.getComputedStyle(el, pseudo);
+        return STYLE_PROPERTIES.map((property) => style.getPropertyValue(property)).join('|');
+      })
+      .join(';');
+  }
+
+  function activeElement(): Element | null {
+    let el: Element | null = document.activeElement;
+    while (el?.shadowRoot?.activeElement) {
+      el = el.shadowRoot.activeElement;
+    }
+    return el && el !== document.body && el !== document.documentElement ? el : null;
+  }
+
+  (window as unknown as KeyboardWindow).__a11yKeyboard = {
+    elements,
+    baseline: new Map(),
+    idOf,
+    describe,
+    styleSignature,
+    activeElement,
+  };
+}
+
+/**
+ * Runs in the page. Collects visible elements expected in the Tab order,
+ * records their unfocused styles, and finds interactive roles that cannot
+ * be focused.
+ */
+function collectElements(interactiveRoles: string[]): CollectedElements {
+  const helpers = (window as unknown as KeyboardWindow).__a11yKeyboard;
+
+  const FOCUSABLE_SELECTOR = [
+    'a[href]',
+    'area[href]',
+    'button',
+    'input:not([type="hidden"])',
+    'select',
+    'textarea',
+    'summary',
+    'iframe',
+    'audio[controls]',
+    'video[controls]',
+    '[contenteditable]:not([contenteditable="false"])',
+    '[tabindex]',
+  ].join(', ');
+
+  function isRendered(el: Element): boolean {
+    if (el.closest('[inert]') || (el as HTMLButtonElement).disabled) return false;
+    if (window.getComputedStyle(el).visibility === 'hidden') return false;
+    return el.getClientRects().length > 0;
+  }
+
+  const focusable: FocusableElement[] = [];
+  const radioGroups = new Set<string>();
+
+  for (const el of document.querySelectorAll(FOCUSABLE_SELECTOR)) {
+    if ((el as HTMLElement).tabIndex < 0 || !isRendered(el)) continue;
+
+    // Only one radio button per group is in the Tab order
+    if (el instanceof HTMLInputElement && el.type === 'radio' && el.name) {
+      const group = `${el.form?.id ?? ''}:${el.name}`;
+      if (radioGroups.has(group)) continue;
+      radioGroups.add(group);
+      const checked = document.querySelector(
+        `input[type="radio"][name="${CSS.escape(el.name)}"]:checked`
+      );
+      if (checked && checked !== el) {
+        const info = helpers.describe(checked);
+        helpers.baseline.set(info.id, helpers.styleSignature(checked));
+        focusable.push(info);
+        continue;
+      }
+    }
+
+    const info = helpers.describe(el);
+    helpers.baseline.set(info.id, helpers.styleSignature(el));
+    focusable.push(info);
+  }
+
+  const nonFocusableInteractive: CollectedElements['nonFocusableInteractive'] = [];
+  const roleSelector = interactiveRoles.map((role) => `[role="${role}"]`).join(', ');
+
+  for (const el of document.querySelectorAll(`${roleSelector}, [onclick]`)) {
+    if (el.matches(FOCUSABLE_SELECTOR) || (el as HTMLElement).tabIndex >= 0) continue;
+    if (el.getAttribute('aria-disabled') === 'true' || !isRendered(el)) continue;
+
+    const info = helpers.describe(el);
+    nonFocusableInteractive.push({
+      selector: info.selector,
+      snippet: info.snippet,
+      role: el.getAttribute('role') ?? 'onclick handler',
+    });
+  }
+
+  return { focusable, nonFocusableInteractive };
+}
@@ -0,0 +1,8 @@
+export { analyzeKeyboardTool, disposeKeyboardAdapter } from './main.js';
+export {
+  KeyboardAdapter,
+  type KeyboardAdapterConfig,
+  type KeyboardAdapterOptions,
+} from './adapters/index.js';
+export * from './types/index.js';
+export * from './utils/index.js';
@@ -0,0 +1,148 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { KeyboardAdapter } from './adapters/index.js';
+import { KeyboardToolInputSchema, type KeyboardToolInput } from './types/index.js';
+import { buildAnalysisTarget, buildAnalysisOptions, formatOutput } from './utils/index.js';
+import { getAdapterSettings } from '@/shared/config/index.js';
+import {
+  type ToolContent,
+  type ToolDefinition,
+  type ToolResponse,
+  createErrorResponse,
+  createFormattedResponse,
+  withToolContext,
+} from '../Base/index.js';
+import { KeyboardToolMcpInputSchema } from './types/input.type.js';
+
+let sharedAdapter: KeyboardAdapter | null = null;
+let currentIgnoreHTTPS = false;
+
+function getAdapter(ignoreHTTPSErrors = false): KeyboardAdapter {
+  if (!sharedAdapter || currentIgnoreHTTPS !== ignoreHTTPSErrors) {
+    if (sharedAdapter) {
+      sharedAdapter.dispose().catch(() => {});
+    }
+    sharedAdapter = new KeyboardAdapter({
+      headless: true,
+      timeout: getAdapterSettings('keyboard-analyzer').timeout ?? 30000,
+      ignoreHTTPSErrors,
+    });
+    currentIgnoreHTTPS = ignoreHTTPSErrors;
+  }
+  return sharedAdapter;
+}
+
+async function disposeAdapter(): Promise<void> {
+  if (sharedAdapter) {
+    await sharedAdapter.dispose();
+    sharedAdapter = null;
+  }
+}
+
+process.on('SIGINT', () => {
+  disposeAdapter().finally(() => process.exit(0));
+});
+
+process.on('SIGTERM', () => {
+  disposeAdapter().finally(() => process.exit(0));
+});
+
+const handleKeyboardAnalysis = withToolContext<KeyboardToolInput>(
+  'analyze-keyboard',
+  async (input, context): Promise<ToolResponse> => {
+    const target = buildAnalysisTarget(input);
+    const options = buildAnalysisOptions(input);
+    const ignoreHTTPSErrors = target.options?.ignoreHTTPSErrors ?? false;
+
+    context.logger.debug('Building analysis configuration', {
+      hasUrl: !!input.url,
+      hasHtml: !!input.html,
+      wcagLevel: options.wcagLevel,
+      maxTabStops: options.maxTabStops,
+      checkFocusIndicator: options.checkFocusIndicator,
+      ignoreHTTPSErrors,
+    });
+
+    const adapter = getAdapter(ignoreHTTPSErrors);
+
+    const isAvailable = await adapter.isAvailable();
+    if (!isAvailable) {
+      return createErrorResponse(
+        new Error('Keyboard adapter is not available. Browser may have failed to launch.')
+      );
+    }
+
+    context.logger.info('Starting keyboard analysis', {
+      targetType: target.type,
+      target: target.type === 'url' ? target.value : '[html content]',
+      wcagLevel: options.wcagLevel,
+    });
+
+    const result = await adapter.analyze(target, options);
+
+    if (!result.success) {
+      context.logger.warn('Analysis completed with errors', {
+        error: result.error,
+      });
+    }
+
+    context.recordHistory(target, result);
+    const output = formatOutput(result);
+    return createFormattedResponse(result, output, input.options?.outputFormat);
+  }
+);
+
+export const analyzeKeyboardTool: ToolDefinition = {
+  name: 'analyze-keyboard',
+  description: `Audit keyboard navigation by pressing Tab and Shift+Tab through a web page.
+
+Records the focus order with selectors and bounding boxes, then reports keyboard traps, focusable elements that Tab never reaches, interactive elements that cannot be focused, focus order that contradicts the visual layout, and focus stops without a visible focus indicator.
+
+Input options
+- url: URL of the page to analyze
+- html: Raw HTML content to analyze (alternative to url)
+- options.wcagLevel: WCAG level to check (A, AA, AAA). Focus indicators (2.4.7) are skipped at level A. Default: project config, else AA
+- options.maxTabStops: Maximum Tab presses before the trace stops. Default: 200, max 500
+- options.checkFocusIndicator: Compare computed styles, then screenshots, of each stop before and after focus. Default: true
+- options.browser.waitForSelector: CSS selector to wait for before analysis
+- options.browser.viewport: Browser viewport dimensions
+- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors. Default: project config, else false
+- options.browser.authentication: Cookies, localStorage, headers, basic auth or a login script for protected pages (secrets are redacted from output)
+- options.browser.actions: Interactions run before the trace starts (click, hover, focus, type, press, scroll, wait, select)
+- options.outputFormat: Response format, "json", "sarif" (SARIF 2.1.0), "junit" (JUnit XML) or "tap" (TAP 13). Default: json
+
+Output
+- issues: Normalized accessibility issues (tool: keyboard-analyzer)
+- focusOrder: Elements in Tab order with step, selector, role, name, tabIndex, boundingBox and focusIndicator
+- traversal: Tab stops reached, focusable elements found, whether the trace completed or hit a trap, and whether Shift+Tab order was checked
+- summary: Issue counts by severity, principle and rule
+
+WCAG Criteria
+- 2.1.1 Keyboard - Level A (focusable-not-reachable, interactive-not-focusable)
+- 2.1.2 No Keyboard Trap - Level A (keyboard-trap)
+- 2.4.3 Focus Order - Level A (focus-order-mismatch, reverse-order-mismatch, positive-tabindex)
+- 2.4.7 Focus Visible - Level AA (focus-indicator-missing)`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      KeyboardToolMcpInputSchema.shape,
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
+        const parseResult = KeyboardToolInputSchema.safeParse(input);
+
+        if (!parseResult.success) {
+          const errors = parseResult.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; ');
+          const response = createErrorResponse(new Error(`Invalid input: ${errors}`));
+          return { content: response.content };
+        }
+
+        const response = await handleKeyboardAnalysis(parseResult.data, extra);
+        return { content: response.content };
+      }
+    );
+  },
+};
+
+export { disposeAdapter as disposeKeyboardAdapter };
@@ -0,0 +1 @@
+export * from './keyboard.normalizer.js';
@@ -0,0 +1,41 @@
+import { BaseNormalizer, type NormalizerContext } from '@/shared/normalizers/base.js';
+import type { AccessibilityIssue } from '@/shared/types/accessibility.js';
+import { KEYBOARD_RULES, type KeyboardFinding } from '../types/index.js';
+
+export class KeyboardNormalizer extends BaseNormalizer<KeyboardFinding[]> {
+  normalize(findings: KeyboardFinding[], context: NormalizerContext): AccessibilityIssue[] {
+    return findings.map((finding) => this.normalizeFinding(finding, context));
+  }
+
+  private normalizeFinding(
+    finding: KeyboardFinding,
+    context: NormalizerContext
+  ): AccessibilityIssue {
+    const rule = KEYBOARD_RULES[finding.ruleId];
+
+    const baseIssue = {
+      id: this.generateIssueId('keyboard-analyzer', finding.ruleId, finding.selector),
+      ruleId: finding.ruleId,
+      tool: 'keyboard-analyzer' as const,
+      severity: rule.severity,
+      wcag: {
+        criterion: rule.criterion,
+        level: rule.level,
+        principle: 'operable' as const,
+        version: '2.1' as const,
+        title: rule.title,
+      },
+      location: {
+        selector: finding.selector,
+        snippet: finding.snippet?.substring(0, 500),
+        file: context.targetFile,
+      },
+      message: finding.detail ? `${rule.message}: ${finding.detail}` : rule.message,
+      confidence: rule.confidence,
+    };
+
+    return this.enrichWithHumanContext(baseIssue) as AccessibilityIssue;
+  }
+}
+
+export const keyboardNormalizer = new KeyboardNormalizer();
@@ -0,0 +1,2 @@
+export * from './keyboard.type.js';
+export * from './keyboard.maps.js';
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { BaseToolInputSchema, OutputFormatSchema } from '@/tools/Base/types/base.types.js';
+import { WCAGLevelSchema } from '@/shared/types/accessibility.js';
+import { KeyboardBrowserOptionsSchema } from './keyboard.type.js';
+
+export const KeyboardToolMcpInputSchema = BaseToolInputSchema.extend({
+  options: z
+    .object({
+      wcagLevel: WCAGLevelSchema.optional().describe('WCAG conformance level to check'),
+      maxTabStops: z
+        .number()
+        .int()
+        .positive()
+        .max(500)
+        .optional()
+        .describe('Maximum number of Tab presses before the trace stops (max 500)'),
+      checkFocusIndicator: z
+        .boolean()
+        .optional()
+        .describe('Check each focus stop for a visible focus indicator'),
+      outputFormat: OutputFormatSchema.default('json'),
+      browser: KeyboardBrowserOptionsSchema.optional(),
+    })
+    .optional(),
+});
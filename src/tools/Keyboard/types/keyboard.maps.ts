@@ -0,0 +1,87 @@
+import type { Severity, WCAGLevel } from '@/shared/types/accessibility.js';
+import type { KeyboardRuleId } from './keyboard.type.js';
+
+export interface KeyboardRule {
+  criterion: string;
+  title: string;
+  level: WCAGLevel;
+  severity: Severity;
+  confidence: number;
+  message: string;
+}
+
+export const KEYBOARD_RULES: Record<KeyboardRuleId, KeyboardRule> = {
+  'keyboard-trap': {
+    criterion: '2.1.2',
+    title: 'No Keyboard Trap',
+    level: 'A',
+    severity: 'critical',
+    confidence: 0.9,
+    message: 'Keyboard focus is trapped: Tab, Shift+Tab and Escape cannot move focus out',
+  },
+  'focusable-not-reachable': {
+    criterion: '2.1.1',
+    title: 'Keyboard',
+    level: 'A',
+    severity: 'serious',
+    confidence: 0.8,
+    message: 'Focusable element is never reached with the Tab key',
+  },
+  'interactive-not-focusable': {
+    criterion: '2.1.1',
+    title: 'Keyboard',
+    level: 'A',
+    severity: 'serious',
+    confidence: 0.7,
+    message: 'Interactive element cannot receive keyboard focus',
+  },
+  'focus-order-mismatch': {
+    criterion: '2.4.3',
+    title: 'Focus Order',
+    level: 'A',
+    severity: 'moderate',
+    confidence: 0.6,
+    message: 'Focus moves backwards against the visual reading order',
+  },
+  'reverse-order-mismatch': {
+    criterion: '2.4.3',
+    title: 'Focus Order',
+    level: 'A',
+    severity: 'moderate',
+    confidence: 0.7,
+    message: 'Shift+Tab does not retrace the Tab order',
+  },
+  'positive-tabindex': {
+    criterion: '2.4.3',
+    title: 'Focus Order',
+    level: 'A',
+    severity: 'minor',
+    confidence: 0.9,
+    message: 'Positive tabindex overrides the natural focus order',
+  },
+  'focus-indicator-missing': {
+    criterion: '2.4.7',
+    title: 'Focus Visible',
+    level: 'AA',
+    severity: 'serious',
+    confidence: 0.8,
+    message: 'Element shows no visible focus indicator when focused with the keyboard',
+  },
+};
+
+export const INTERACTIVE_ROLES = [
+  'button',
+  'checkbox',
+  'combobox',
+  'link',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'radio',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'tab',
+  'textbox',
+];
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import {
+  AnalysisResultSchema,
+  WCAGLevelSchema,
+  type AnalysisResult,
+} from '@/shared/types/accessibility.js';
+import {
+  BackgroundSchema,
+  BrowserOptionsSchema,
+  OutputFormatSchema,
+} from '@/tools/Base/types/base.types.js';
+
+export const KeyboardBrowserOptionsSchema = BrowserOptionsSchema.omit({
+  states: true,
+  viewports: true,
+});
+
+export const KeyboardToolInputSchema = z
+  .object({
+    url: z.string().url().optional().describe('URL of the page to analyze'),
+    html: z.string().min(1).optional().describe('Raw HTML content to analyze'),
+    background: BackgroundSchema,
+    options: z
+      .object({
+        wcagLevel: WCAGLevelSchema.optional().describe(
+          'WCAG conformance level to check. 2.4.7 Focus Visible is only checked at AA and AAA'
+        ),
+        maxTabStops: z
+          .number()
+          .int()
+          .positive()
+          .max(500)
+          .optional()
+          .describe('Maximum number of Tab presses before the trace stops (max 500)'),
+        checkFocusIndicator: z
+          .boolean()
+          .optional()
+          .describe('Check each focus stop for a visible focus indicator'),
+        outputFormat: OutputFormatSchema.default('json'),
+        browser: KeyboardBrowserOptionsSchema.optional(),
+      })
+      .optional(),
+  })
+  .refine((data) => data.url !== undefined || data.html !== undefined, {
+    message: 'Either url or html must be provided',
+  })
+  .refine((data) => !(data.url !== undefined && data.html !== undefined), {
+    message: 'Provide either url or html, not both',
+  })
+  .describe('Input for keyboard navigation analysis');
+
+export const BoundingBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+});
+
+export const FocusIndicatorSchema = z
+  .enum(['visible', 'missing', 'unknown'])
+  .describe('Whether focusing the element changes its appearance');
+
+export const FocusStopSchema = z
+  .object({
+    step: z.number().int().positive().describe('1-based position in the Tab sequence'),
+    selector: z.string(),
+    tagName: z.string(),
+    role: z.string().optional(),
+    name: z.string().optional().describe('Visible text or accessible label, truncated'),
+    tabIndex: z.number().int(),
+    boundingBox: BoundingBoxSchema.describe('Position in document coordinates'),
+    focusIndicator: FocusIndicatorSchema,
+  })
+  .describe('Element that received focus while pressing Tab');
+
+export const KeyboardTraversalSchema = z
+  .object({
+    tabStops: z.number().int().nonnegative().describe('Distinct elements reached with Tab'),
+    focusableElements: z
+      .number()
+      .int()
+      .nonnegative()
+      .describe('Visible elements expected to be in the Tab order'),
+    completed: z
+      .boolean()
+      .describe('Whether focus cycled through the whole page before maxTabStops was reached'),
+    trapped: z.boolean().describe('Whether a keyboard trap stopped the trace'),
+    reverseChecked: z.boolean().describe('Whether Shift+Tab order was compared to Tab order'),
+  })
+  .describe('Statistics about the keyboard traversal');
+
+export const KeyboardAnalysisResultSchema = AnalysisResultSchema.extend({
+  focusOrder: z.array(FocusStopSchema).describe('Elements in the order they received focus'),
+  traversal: KeyboardTraversalSchema.optional(),
+}).describe('Result of a keyboard navigation analysis');
+
+export type KeyboardToolInput = z.infer<typeof KeyboardToolInputSchema>;
+export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
+export type FocusIndicator = z.infer<typeof FocusIndicatorSchema>;
+export type FocusStop = z.infer<typeof FocusStopSchema>;
+export type KeyboardTraversal = z.infer<typeof KeyboardTraversalSchema>;
+export type KeyboardAnalysisResult = z.infer<typeof KeyboardAnalysisResultSchema>;
+
+export type KeyboardRuleId =
+  | 'keyboard-trap'
+  | 'focusable-not-reachable'
+  | 'interactive-not-focusable'
+  | 'focus-order-mismatch'
+  | 'reverse-order-mismatch'
+  | 'positive-tabindex'
+  | 'focus-indicator-missing';
+
+export interface FocusableElement {
+  id: number;
+  selector: string;
+  snippet: string;
+  tagName: string;
+  tabIndex: number;
+  boundingBox: BoundingBox;
+}
+
+export interface TracedFocusStop extends FocusStop {
+  id: number;
+  snippet: string;
+}
+
+export interface KeyboardTrap {
+  ids: number[];
+  escapedWith: 'shift-tab' | 'escape' | null;
+}
+
+export interface KeyboardTrace {
+  focusable: FocusableElement[];
+  nonFocusableInteractive: Array<Pick<FocusableElement, 'selector' | 'snippet'> & { role: string }>;
+  forward: TracedFocusStop[];
+  reverse: TracedFocusStop[];
+  completed: boolean;
+  trap: KeyboardTrap | null;
+}
+
+export interface KeyboardFinding {
+  ruleId: KeyboardRuleId;
+  selector: string;
+  snippet?: string | undefined;
+  detail?: string | undefined;
+}
+
+export interface KeyboardToolOutput {
+  success: boolean;
+  target: string;
+  issueCount: number;
+  issues: AnalysisResult['issues'];
+  summary: AnalysisResult['summary'];
+  focusOrder: FocusStop[];
+  traversal?: KeyboardTraversal | undefined;
+  duration?: number | undefined;
+  error?: string | undefined;
+}
@@ -0,0 +1 @@
+export * from './keyboard.utils.js';
@@ -0,0 +1,258 @@
+import type { AnalysisTarget } from '@/shared/types/analysis.js';
+import type { WCAGLevel } from '@/shared/types/accessibility.js';
+import { applyProjectTarget, getIgnoredRules, resolveWcagLevel } from '@/shared/config/index.js';
+import type {
+  BoundingBox,
+  KeyboardAnalysisResult,
+  KeyboardFinding,
+  KeyboardToolInput,
+  KeyboardToolOutput,
+  KeyboardTrace,
+  TracedFocusStop,
+} from '../types/index.js';
+
+const DEFAULT_MAX_TAB_STOPS = 200;
+const ORDER_TOLERANCE_PX = 4;
+
+export interface KeyboardBuildOptions {
+  wcagLevel: WCAGLevel;
+  maxTabStops: number;
+  checkFocusIndicator: boolean;
+  excludeRules?: string[] | undefined;
+}
+
+export function buildAnalysisTarget(input: KeyboardToolInput): AnalysisTarget {
+  if (input.url) {
+    return applyProjectTarget({
+      type: 'url',
+      value: input.url,
+      options: {
+        waitForSelector: input.options?.browser?.waitForSelector,
+        timeout: input.options?.browser?.waitForTimeout,
+        viewport: input.options?.browser?.viewport,
+        ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+        authentication: input.options?.browser?.authentication,
+        actions: input.options?.browser?.actions,
+      },
+    });
+  }
+
+  return applyProjectTarget({
+    type: 'html',
+    value: input.html!,
+    options: {
+      waitForSelector: input.options?.browser?.waitForSelector,
+      timeout: input.options?.browser?.waitForTimeout,
+      viewport: input.options?.browser?.viewport,
+      ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+      authentication: input.options?.browser?.authentication,
+      actions: input.options?.browser?.actions,
+    },
+  });
+}
+
+export function buildAnalysisOptions(input: KeyboardToolInput): KeyboardBuildOptions {
+  const options: KeyboardBuildOptions = {
+    wcagLevel: input.options?.wcagLevel ?? resolveWcagLevel(input.url),
+    maxTabStops: input.options?.maxTabStops ?? DEFAULT_MAX_TAB_STOPS,
+    checkFocusIndicator: input.options?.checkFocusIndicator ?? true,
+  };
+  const ignoredRules = getIgnoredRules('keyboard-analyzer', input.url).map((rule) => rule.ruleId);
+  if (ignoredRules.length > 0) {
+    options.excludeRules = ignoredRules;
+  }
+  return options;
+}
+
+export function formatOutput(result: KeyboardAnalysisResult): KeyboardToolOutput {
+  return {
+    success: result.success,
+    target: result.target,
+    issueCount: result.issues.length,
+    issues: result.issues,
+    summary: result.summary,
+    focusOrder: result.focusOrder,
+    traversal: result.traversal,
+    duration: result.duration,
+    error: result.error,
+  };
+}
+
+function describeStop(stop: Pick<TracedFocusStop, 'selector'>): string {
+  return stop.selector;
+}
+
+function isAbove(next: BoundingBox, previous: BoundingBox): boolean {
+  return next.y + next.height <= previous.y + ORDER_TOLERANCE_PX;
+}
+
+function isLeftOf(next: BoundingBox, previous: BoundingBox): boolean {
+  return next.x + next.width <= previous.x + previous.width + ORDER_TOLERANCE_PX;
+}
+
+function hasArea(box: BoundingBox): boolean {
+  return box.width > 0 && box.height > 0;
+}
+
+/**
+ * A trap is a focus cycle that does not cover the page's Tab sequence and
+ * that neither Shift+Tab nor Escape could leave.
+ */
+export function findKeyboardTrap(trace: KeyboardTrace): KeyboardFinding[] {
+  if (!trace.trap || trace.trap.escapedWith) {
+    return [];
+  }
+
+  const trapped = trace.forward.filter((stop) => trace.trap!.ids.includes(stop.id));
+  const first = trapped[0];
+  if (!first) {
+    return [];
+  }
+
+  return [
+    {
+      ruleId: 'keyboard-trap',
+      selector: first.selector,
+      snippet: first.snippet,
+      detail: `focus cycles between ${trapped.map(describeStop).join(', ')}`,
+    },
+  ];
+}
+
+export function findUnreachableElements(trace: KeyboardTrace): KeyboardFinding[] {
+  if (!trace.completed || trace.trap) {
+    return [];
+  }
+
+  const reached = new Set(trace.forward.map((stop) => stop.id));
+
+  return trace.focusable
+    .filter((element) => element.tabIndex >= 0 && !reached.has(element.id))
+    .map((element) => ({
+      ruleId: 'focusable-not-reachable' as const,
+      selector: element.selector,
+      snippet: element.snippet,
+    }));
+}
+
+export function findNonFocusableInteractive(trace: KeyboardTrace): KeyboardFinding[] {
+  return trace.nonFocusableInteractive.map((element) => ({
+    ruleId: 'interactive-not-focusable' as const,
+    selector: element.selector,
+    snippet: element.snippet,
+    detail: `role="${element.role}" without tabindex`,
+  }));
+}
+
+/**
+ * Flags stops that land above and to the left of the previous stop. Moving up
+ * and to the right is allowed so that multi-column layouts are not reported.
+ */
+export function findOrderMismatches(trace: KeyboardTrace): KeyboardFinding[] {
+  const findings: KeyboardFinding[] = [];
+
+  for (let i = 1; i < trace.forward.length; i++) {
+    const previous = trace.forward[i - 1]!;
+    const current = trace.forward[i]!;
+
+    if (!hasArea(previous.boundingBox) || !hasArea(current.boundingBox)) continue;
+
+    if (
+      isAbove(current.boundingBox, previous.boundingBox) &&
+      isLeftOf(current.boundingBox, previous.boundingBox)
+    ) {
+      findings.push({
+        ruleId: 'focus-order-mismatch',
+        selector: current.selector,
+        snippet: current.snippet,
+        detail: `focused after ${describeStop(previous)}, which appears below it`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Shift+Tab from a stop should land on the stop that preceded it in the
+ * forward trace.
+ */
+export function findReverseMismatches(trace: KeyboardTrace): KeyboardFinding[] {
+  if (trace.reverse.length < 2 || trace.trap) {
+    return [];
+  }
+
+  const previousById = new Map<number, TracedFocusStop>();
+  for (let i = 1; i < trace.forward.length; i++) {
+    previousById.set(trace.forward[i]!.id, trace.forward[i - 1]!);
+  }
+
+  const findings: KeyboardFinding[] = [];
+
+  for (let i = 1; i < trace.reverse.length; i++) {
+    const from = trace.reverse[i - 1]!;
+    const landed = trace.reverse[i]!;
+    const expected = previousById.get(from.id);
+
+    if (expected && expected.id !== landed.id) {
+      findings.push({
+        ruleId: 'reverse-order-mismatch',
+        selector: from.selector,
+        snippet: from.snippet,
+        detail: `Shift+Tab moves to ${describeStop(landed)} instead of ${describeStop(expected)}`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+export function findPositiveTabindex(trace: KeyboardTrace): KeyboardFinding[] {
+  return trace.focusable
+    .filter((element) => element.tabIndex > 0)
+    .map((element) => ({
+      ruleId: 'positive-tabindex' as const,
+      selector: element.selector,
+      snippet: element.snippet,
+      detail: `tabindex="${element.tabIndex}"`,
+    }));
+}
+
+export function findMissingFocusIndicators(trace: KeyboardTrace): KeyboardFinding[] {
+  return trace.forward
+    .filter((stop) => stop.focusIndicator === 'missing')
+    .map((stop) => ({
+      ruleId: 'focus-indicator-missing' as const,
+      selector: stop.selector,
+      snippet: stop.snippet,
+    }));
+}
+
+export function detectKeyboardIssues(
+  trace: KeyboardTrace,
+  options: Pick<KeyboardBuildOptions, 'wcagLevel' | 'checkFocusIndicator' | 'excludeRules'>
+): KeyboardFinding[] {
+  const findings = [
+    ...findKeyboardTrap(trace),
+    ...findUnreachableElements(trace),
+    ...findNonFocusableInteractive(trace),
+    ...findOrderMismatches(trace),
+    ...findReverseMismatches(trace),
+    ...findPositiveTabindex(trace),
+    ...(options.checkFocusIndicator && options.wcagLevel !== 'A'
+      ? findMissingFocusIndicators(trace)
+      : []),
+  ];
+
+  const excluded = new Set(options.excludeRules ?? []);
+  const seen = new Set<string>();
+
+  return findings.filter((finding) => {
+    const key = `${finding.ruleId}:${finding.selector}`;
+    if (excluded.has(finding.ruleId) || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
@@ -1,7 +1,22 @@
-import type { Browser } from 'puppeteer';
-import puppeteer from 'puppeteer';
-import lighthouse from 'lighthouse';
+import type { Browser, Page } from 'puppeteer';
+import lighthouse, { snapshot } from 'lighthouse';
 import { BaseAdapter } from '@/shared/adapters/base.js';
+import {
+  closeTargetPage,
+  hasAuthentication,
+  openTargetPage,
+  resolveAuthSession,
+} from '@/shared/browser/authentication.js';
+import { hasInteractions, runInteractions } from '@/shared/browser/interactions.js';
+import { createPageSnapshot } from '@/shared/browser/navigation.js';
+import { onJobAbort } from '@/shared/jobs/context.js';
+import {
+  getBrowserPool,
+  type BrowserLaunchOptions,
+  type BrowserLease,
+} from '@/shared/browser/pool.js';
+import { toPageViewport } from '@/shared/browser/viewports.js';
+import { collectTargetSecrets, redactSecrets } from '@/shared/utils/redact.js';
 import type { AnalysisTarget, AnalysisOptions } from '@/shared/types/analysis.js';
 import type {
   AnalysisResult,
@@ -12,6 +27,7 @@ import type {
   WCAGLevel,
   WCAGPrinciple,
   IssueLocation,
+  PageSnapshot,
 } from '@/shared/types/accessibility.js';
 import type {
   LighthouseAdapterConfig,
@@ -26,7 +42,6 @@ export class LighthouseAdapter extends BaseAdapter {
   readonly name = 'lighthouse';
   readonly version = '13.x';
 
-  private browser: Browser | null = null;
   private adapterConfig: LighthouseAdapterConfig;
 
   constructor(config: LighthouseAdapterConfig = {}) {
@@ -38,7 +53,7 @@ export class LighthouseAdapter extends BaseAdapter {
     };
   }
 
-  async analyze(target: AnalysisTarget, _options?: AnalysisOptions): Promise<AnalysisResult> {
+  async analyze(target: AnalysisTarget, options?: AnalysisOptions): Promise<AnalysisResult> {
     const startTime = Date.now();
 
     if (target.type !== 'url') {
@@ -51,11 +66,25 @@ export class LighthouseAdapter extends BaseAdapter {
       );
     }
 
+    let pageTarget = target;
+    let lease: BrowserLease | null = null;
+    let detachAbort: (() => void) | undefined;
+
     try {
       this.logger.info('Starting Lighthouse accessibility analysis', { target: target.value });
 
-      await this.ensureBrowser();
-      const port = new URL(this.browser!.wsEndpoint()).port;
+      pageTarget = await resolveAuthSession(target, {
+        timeout: this.config.timeout,
+        ignoreHTTPSErrors: this.adapterConfig.ignoreHTTPSErrors,
+      });
+      const exclusiveLease = await getBrowserPool().acquire(this.launchOptions(), {
+        exclusive: true,
+      });
+      lease = exclusiveLease;
+      detachAbort = onJobAbort(() => {
+        exclusiveLease.release({ discard: true }).catch(() => {});
+      });
+      const port = new URL(lease.browser.wsEndpoint()).port;
 
       const flags: Record<string, unknown> = {
         port: Number(port),
@@ -65,11 +94,13 @@ export class LighthouseAdapter extends BaseAdapter {
       };
 
       if (target.options?.viewport) {
+        const mobile = target.options.viewport.isMobile ?? false;
+        flags.formFactor = mobile ? 'mobile' : 'desktop';
         flags.screenEmulation = {
           width: target.options.viewport.width,
           height: target.options.viewport.height,
-          deviceScaleFactor: 1,
-          mobile: false,
+          deviceScaleFactor: target.options.viewport.deviceScaleFactor ?? 1,
+          mobile,
           disabled: false,
         };
       }
@@ -78,36 +109,93 @@ export class LighthouseAdapter extends BaseAdapter {
         flags.maxWaitForLoad = target.options.timeout;
       }
 
-      const result = (await lighthouse(target.value, flags)) as unknown as LighthouseRunnerResult;
+      if (options?.excludeRules && options.excludeRules.length > 0) {
+        flags.skipAudits = options.excludeRules;
+      }
+
+      if (hasAuthentication(pageTarget)) {
+        flags.disableStorageReset = true;
+      }
+
+      const result = (
+        hasInteractions(pageTarget)
+          ? await this.runSnapshot(lease.browser, pageTarget, flags)
+          : await this.runNavigation(lease.browser, pageTarget, flags)
+      ) as unknown as LighthouseRunnerResult;
 
       if (!result?.lhr) {
         throw new Error('Lighthouse returned no results');
       }
 
-      const accessibilityScore = (result.lhr.categories.accessibility?.score ?? 0) * 100;
-      const issues = this.transformResults(result.lhr.audits, result.lhr.categories.accessibility);
+      return redactSecrets(
+        this.buildSuccessResult(
+          target.value,
+          result,
+          Date.now() - startTime,
+          createPageSnapshot(result.lhr.finalDisplayedUrl)
+        ),
+        collectTargetSecrets(pageTarget)
+      );
+    } catch (error) {
       const duration = Date.now() - startTime;
-
-      this.logger.info('Lighthouse analysis completed', {
-        issueCount: issues.length,
-        accessibilityScore,
-        duration,
+      this.logger.error('Lighthouse analysis failed', {
+        error: error as Error,
+        target: target.value,
       });
 
-      return {
-        success: true,
-        timestamp: new Date().toISOString(),
-        duration,
+      return redactSecrets(
+        this.buildErrorResult(target.value, error, duration),
+        collectTargetSecrets(pageTarget)
+      );
+    } finally {
+      detachAbort?.();
+      await lease?.release({ discard: hasAuthentication(pageTarget) });
+    }
+  }
+
+  /**
+   * Takes a Lighthouse snapshot of a page that is already loaded instead of
+   * navigating it again, so it can share one render with other in-page
+   * analyses. Screen emulation is disabled to keep the page's layout.
+   */
+  async analyzePage(
+    page: Page,
+    target: AnalysisTarget,
+    options?: AnalysisOptions,
+    pageSnapshot?: PageSnapshot
+  ): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const snapshots = pageSnapshot ? [pageSnapshot] : undefined;
+
+    try {
+      this.logger.info('Starting Lighthouse snapshot analysis', {
         target: target.value,
-        tool: 'lighthouse',
-        issues,
-        summary: this.buildSummary(issues, accessibilityScore),
-        metadata: {
-          toolVersion: result.lhr.lighthouseVersion,
-          browserInfo: result.lhr.userAgent,
-          pageTitle: result.lhr.finalDisplayedUrl,
-        },
+        snapshot: pageSnapshot?.id,
+      });
+
+      const flags: Record<string, unknown> = {
+        onlyCategories: ['accessibility'],
+        output: 'json',
+        logLevel: 'error',
+        screenEmulation: { disabled: true },
       };
+
+      if (options?.excludeRules && options.excludeRules.length > 0) {
+        flags.skipAudits = options.excludeRules;
+      }
+
+      const result = (await snapshot(page as unknown as Parameters<typeof snapshot>[0], {
+        flags,
+      })) as unknown as LighthouseRunnerResult;
+
+      if (!result?.lhr) {
+        throw new Error('Lighthouse returned no results');
+      }
+
+      return redactSecrets(
+        this.buildSuccessResult(target.value, result, Date.now() - startTime, pageSnapshot),
+        collectTargetSecrets(target)
+      );
     } catch (error) {
       const duration = Date.now() - startTime;
       this.logger.error('Lighthouse analysis failed', {
@@ -115,47 +203,88 @@ export class LighthouseAdapter extends BaseAdapter {
         target: target.value,
       });
 
-      return this.buildErrorResult(target.value, error, duration);
+      return redactSecrets(
+        { ...this.buildErrorResult(target.value, error, duration), snapshots },
+        collectTargetSecrets(target)
+      );
     }
   }
 
   async isAvailable(): Promise<boolean> {
-    try {
-      await this.ensureBrowser();
-      return true;
-    } catch {
-      return false;
-    }
+    return await getBrowserPool().isAvailable(this.launchOptions());
   }
 
   async dispose(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-      this.logger.debug('Browser closed');
-    }
+    await getBrowserPool().closeIdle(this.launchOptions());
     await super.dispose();
   }
 
-  private async ensureBrowser(): Promise<void> {
-    if (!this.browser || !this.browser.connected) {
-      this.logger.debug('Launching browser', {
-        ignoreHTTPSErrors: this.adapterConfig.ignoreHTTPSErrors,
-      });
+  /**
+   * Runs a Lighthouse navigation. Authenticated targets are loaded in a page
+   * of their own, whose request interception adds the authentication headers
+   * to the target's origin only.
+   */
+  private async runNavigation(
+    browser: Browser,
+    target: AnalysisTarget,
+    flags: Record<string, unknown>
+  ) {
+    if (!hasAuthentication(target)) {
+      return await lighthouse(target.value, flags);
+    }
+
+    const page = await openTargetPage(browser, target);
+
+    try {
+      return await lighthouse(
+        target.value,
+        flags,
+        undefined,
+        page as unknown as Parameters<typeof lighthouse>[3]
+      );
+    } finally {
+      await closeTargetPage(page);
+    }
+  }
+
+  private async runSnapshot(
+    browser: Browser,
+    target: AnalysisTarget,
+    flags: Record<string, unknown>
+  ) {
+    const page = await openTargetPage(browser, target);
+    const timeout = target.options?.timeout ?? this.config.timeout ?? 60000;
+
+    try {
+      if (target.options?.viewport) {
+        await page.setViewport(toPageViewport(target.options.viewport));
+      }
 
-      const baseArgs = this.adapterConfig.browserArgs ?? ['--no-sandbox', '--disable-setuid-sandbox'];
-      const sslArgs = this.adapterConfig.ignoreHTTPSErrors
-        ? ['--ignore-certificate-errors', '--ignore-ssl-errors', '--allow-running-insecure-content']
-        : [];
+      await page.goto(target.value, { waitUntil: 'networkidle2', timeout });
 
-      this.browser = await puppeteer.launch({
-        headless: this.adapterConfig.headless ?? true,
-        args: [...baseArgs, ...sslArgs],
-        acceptInsecureCerts: this.adapterConfig.ignoreHTTPSErrors ?? false,
+      if (target.options?.waitForSelector) {
+        await page.waitForSelector(target.options.waitForSelector, { timeout });
+      }
+
+      await runInteractions(page, target.options?.actions, timeout);
+
+      const { port: _port, ...snapshotFlags } = flags;
+      return await snapshot(page as unknown as Parameters<typeof snapshot>[0], {
+        flags: snapshotFlags,
       });
+    } finally {
+      await closeTargetPage(page);
     }
   }
 
+  private launchOptions(): BrowserLaunchOptions {
+    return {
+      headless: this.adapterConfig.headless,
+      args: this.adapterConfig.browserArgs,
+      ignoreHTTPSErrors: this.adapterConfig.ignoreHTTPSErrors,
+    };
+  }
+
   private transformResults(
     audits: Record<string, LighthouseAudit>,
     category?: LighthouseCategory
@@ -384,6 +513,38 @@ export class LighthouseAdapter extends BaseAdapter {
     };
   }
 
+  private buildSuccessResult(
+    target: string,
+    result: LighthouseRunnerResult,
+    duration: number,
+    pageSnapshot?: PageSnapshot
+  ): AnalysisResult {
+    const accessibilityScore = (result.lhr.categories.accessibility?.score ?? 0) * 100;
+    const issues = this.transformResults(result.lhr.audits, result.lhr.categories.accessibility);
+
+    this.logger.info('Lighthouse analysis completed', {
+      issueCount: issues.length,
+      accessibilityScore,
+      duration,
+    });
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration,
+      target,
+      tool: 'lighthouse',
+      issues,
+      summary: this.buildSummary(issues, accessibilityScore),
+      metadata: {
+        toolVersion: result.lhr.lighthouseVersion,
+        browserInfo: result.lhr.userAgent,
+        pageTitle: result.lhr.finalDisplayedUrl,
+      },
+      snapshots: pageSnapshot && [pageSnapshot],
+    };
+  }
+
   private buildErrorResult(target: string, error: unknown, duration: number): AnalysisResult {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -2,11 +2,18 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { LighthouseAdapter } from './adapters/index.js';
 import { LighthouseToolInputSchema, type LighthouseToolInput } from './types/index.js';
 import { buildAnalysisTarget, buildAnalysisOptions, formatOutput } from './utils/index.js';
+import { getAdapterSettings } from '@/shared/config/index.js';
 import {
+  analyzeInStates,
+  analyzeInViewports,
+  mergeAnalysisSummaries,
+} from '@/shared/browser/index.js';
+import {
+  type ToolContent,
   type ToolDefinition,
   type ToolResponse,
-  createJsonResponse,
   createErrorResponse,
+  createFormattedResponse,
   withToolContext,
 } from '../Base/index.js';
 import { LighthouseToolMcpInputSchema } from './types/input.type.js';
@@ -21,7 +28,7 @@ function getAdapter(ignoreHTTPSErrors = false): LighthouseAdapter {
     }
     sharedAdapter = new LighthouseAdapter({
       headless: true,
-      timeout: 60000,
+      timeout: getAdapterSettings('lighthouse').timeout ?? 60000,
       ignoreHTTPSErrors,
     });
     currentIgnoreHTTPS = ignoreHTTPSErrors;
@@ -47,11 +54,13 @@ process.on('SIGTERM', () => {
 const handleLighthouseAnalysis = withToolContext<LighthouseToolInput>(
   'analyze-with-lighthouse',
   async (input, context): Promise<ToolResponse> => {
-    const ignoreHTTPSErrors = input.options?.browser?.ignoreHTTPSErrors ?? false;
+    const target = buildAnalysisTarget(input);
+    const options = buildAnalysisOptions(input);
+    const ignoreHTTPSErrors = target.options?.ignoreHTTPSErrors ?? false;
 
     context.logger.debug('Building analysis configuration', {
       hasUrl: !!input.url,
-      wcagLevel: input.options?.wcagLevel ?? 'AA',
+      wcagLevel: options.wcagLevel,
       ignoreHTTPSErrors,
     });
 
@@ -64,14 +73,22 @@ const handleLighthouseAnalysis = withToolContext<LighthouseToolInput>(
       );
     }
 
-    const target = buildAnalysisTarget(input);
-    const options = buildAnalysisOptions(input);
-
     context.logger.info('Starting Lighthouse accessibility analysis', {
       target: target.value,
     });
 
-    const result = await adapter.analyze(target, options);
+    const result = await analyzeInViewports(
+      target,
+      (viewportTarget, onProgress) =>
+        analyzeInStates(
+          viewportTarget,
+          (stateTarget) => adapter.analyze(stateTarget, options),
+          mergeAnalysisSummaries,
+          onProgress
+        ),
+      mergeAnalysisSummaries,
+      context.reportProgress
+    );
 
     if (!result.success) {
       context.logger.warn('Analysis completed with errors', {
@@ -79,8 +96,10 @@ const handleLighthouseAnalysis = withToolContext<LighthouseToolInput>(
       });
     }
 
+    context.recordHistory(target, result);
+
     const output = formatOutput(result);
-    return createJsonResponse(output, !result.success);
+    return createFormattedResponse(result, output, input.options?.outputFormat);
   }
 );
 
@@ -94,11 +113,16 @@ IMPORTANT: Lighthouse requires a live URL - raw HTML content is not supported.
 
 Input options
 - url: URL of the page to analyze (required)
-- options.wcagLevel: WCAG level to check (A, AA, or AAA). Default: AA
+- options.wcagLevel: WCAG level to check (A, AA, or AAA). Default: project config, else AA
 - options.browser.waitForSelector: CSS selector to wait for before analysis
 - options.browser.viewport: Browser viewport dimensions
-- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors (for local dev servers). Default: false
+- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors (for local dev servers). Default: project config, else false
+- options.browser.authentication: Cookies, localStorage, headers, basic auth or a login script for protected pages (secrets are redacted from output)
+- options.browser.actions: Interactions run before analysis (click, hover, focus, type, press, scroll, wait, select)
+- options.browser.states: Named UI states, each with its own actions; issues are tagged with the state and counted in summary.byState
+- options.browser.viewports: Viewports to analyze in one call, as presets ("mobile", "tablet", "desktop") or { name, preset, width, height, deviceScaleFactor, isMobile, hasTouch } (max 6); issues are tagged with the viewport and viewportSpecific, and counted in summary.byViewport, summary.viewportSpecific and summary.allViewports
 - options.browser.waitForTimeout: Time to wait in ms before analysis (max 60s)
+- options.outputFormat: Response format, "json", "sarif" (SARIF 2.1.0), "junit" (JUnit XML) or "tap" (TAP 13). Default: json
 
 Output
 - accessibilityScore: Lighthouse accessibility score (0-100)
@@ -111,7 +135,7 @@ Output
       this.name,
       this.description,
       LighthouseToolMcpInputSchema.shape,
-      async (input): Promise<{ content: Array<{ type: 'text'; text: string }> }> => {
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
         const validator = LighthouseToolInputSchema.safeParse(input);
 
         if (!validator.success) {
@@ -122,7 +146,7 @@ Output
           return { content: response.content };
         }
 
-        const response = await handleLighthouseAnalysis(validator.data);
+        const response = await handleLighthouseAnalysis(validator.data, extra);
         return { content: response.content };
       }
     );
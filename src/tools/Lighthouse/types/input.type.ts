@@ -1,12 +1,18 @@
 import { z } from 'zod';
-import { BrowserOptionsSchema } from '@/tools/Base/types/base.types.js';
+import {
+  BackgroundSchema,
+  BrowserOptionsSchema,
+  OutputFormatSchema,
+} from '@/tools/Base/types/base.types.js';
 import { WCAGLevelSchema } from '@/shared/types/accessibility.js';
 
 export const LighthouseToolMcpInputSchema = z.object({
   url: z.string().url().describe('URL of the page to analyze'),
+  background: BackgroundSchema,
   options: z
     .object({
-      wcagLevel: WCAGLevelSchema.default('AA').describe('WCAG conformance level to check'),
+      wcagLevel: WCAGLevelSchema.optional().describe('WCAG conformance level to check'),
+      outputFormat: OutputFormatSchema.default('json'),
       browser: BrowserOptionsSchema.optional(),
     })
     .optional(),
@@ -1,7 +1,11 @@
 import { z } from 'zod';
+import { AuthenticationSchema } from '@/shared/types/authentication.js';
+import { InteractionActionsSchema, InteractionStatesSchema } from '@/shared/types/interaction.js';
+import { ViewportsSchema } from '@/shared/types/viewport.js';
 import { WCAGLevelSchema } from '@/shared/types/accessibility.js';
 import type { AnalysisResult } from '@/shared/types/accessibility.js';
 import type { AdapterConfig } from '@/shared/adapters/base.js';
+import { BackgroundSchema, OutputFormatSchema } from '@/tools/Base/types/base.types.js';
 
 const ViewportSchema = z
   .object({
@@ -25,15 +29,23 @@ const BrowserOptionsSchema = z
       .boolean()
       .optional()
       .describe('Ignore HTTPS certificate errors (useful for local dev servers with self-signed certs)'),
+    authentication: AuthenticationSchema.optional().describe(
+      'Authentication for protected pages: cookies, localStorage, headers, basic auth or a login script'
+    ),
+    actions: InteractionActionsSchema.optional(),
+    states: InteractionStatesSchema.optional(),
+    viewports: ViewportsSchema.optional(),
   })
   .describe('Browser behavior options');
 
 export const LighthouseToolInputSchema = z
   .object({
     url: z.string().url().describe('URL of the page to analyze (required, Lighthouse does not support raw HTML)'),
+    background: BackgroundSchema,
     options: z
       .object({
-        wcagLevel: WCAGLevelSchema.default('AA').describe('WCAG conformance level to check'),
+        wcagLevel: WCAGLevelSchema.optional().describe('WCAG conformance level to check'),
+        outputFormat: OutputFormatSchema.default('json'),
         browser: BrowserOptionsSchema.optional(),
       })
       .optional(),
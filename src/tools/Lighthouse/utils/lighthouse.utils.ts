@@ -1,9 +1,10 @@
 import type { AnalysisTarget, AnalysisOptions } from '@/shared/types/analysis.js';
+import { applyIgnoredRules, applyProjectTarget, resolveWcagLevel } from '@/shared/config/index.js';
 import type { AnalysisResult } from '@/shared/types/accessibility.js';
 import type { LighthouseToolInput, LighthouseToolOutput } from '../types/index.js';
 
 export function buildAnalysisTarget(input: LighthouseToolInput): AnalysisTarget {
-  return {
+  return applyProjectTarget({
     type: 'url',
     value: input.url,
     options: {
@@ -11,15 +12,23 @@ export function buildAnalysisTarget(input: LighthouseToolInput): AnalysisTarget
       timeout: input.options?.browser?.waitForTimeout,
       viewport: input.options?.browser?.viewport,
       ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+      authentication: input.options?.browser?.authentication,
+      actions: input.options?.browser?.actions,
+      states: input.options?.browser?.states,
+      viewports: input.options?.browser?.viewports,
     },
-  };
+  });
 }
 
 export function buildAnalysisOptions(input: LighthouseToolInput): AnalysisOptions {
-  return {
-    wcagLevel: input.options?.wcagLevel ?? 'AA',
-    includeWarnings: false,
-  };
+  return applyIgnoredRules(
+    {
+      wcagLevel: input.options?.wcagLevel ?? resolveWcagLevel(input.url),
+      includeWarnings: false,
+    },
+    'lighthouse',
+    input.url
+  );
 }
 
 export function formatOutput(result: AnalysisResult): LighthouseToolOutput {
@@ -1,4 +1,5 @@
 import pa11y from 'pa11y';
+import type { Browser, Page } from 'puppeteer';
 import { BaseAdapter, type AdapterConfig } from '@/shared/adapters/base.js';
 import { pa11yNormalizer } from '../normalizers/index.js';
 import type { Pa11yIssue } from '../types/index.js';
@@ -9,11 +10,36 @@ import type {
 import type {
   AnalysisResult,
   AnalysisSummary,
+  PageSnapshot,
   Severity,
   WCAGPrinciple
 } from '@/shared/types/accessibility.js';
+import {
+  closeTargetPage,
+  openTargetPage,
+  resolveAuthSession
+} from '@/shared/browser/authentication.js';
+import { hasInteractions, runInteractions } from '@/shared/browser/interactions.js';
+import { createPageSnapshot } from '@/shared/browser/navigation.js';
+import {
+  getBrowserPool,
+  type BrowserLaunchOptions,
+  type BrowserLease
+} from '@/shared/browser/pool.js';
+import { toPageViewport } from '@/shared/browser/viewports.js';
+import { collectTargetSecrets, redactSecrets } from '@/shared/utils/redact.js';
 
 type Pa11yOptions = NonNullable<Parameters<typeof pa11y>[1]>;
+type Pa11yPageOptions = Pick<Pa11yOptions, 'browser' | 'page'>;
+
+/**
+ * @types/pa11y types `browser` and `page` with the Puppeteer 5 typings, which
+ * today's Puppeteer classes no longer match. Pa11y only uses methods both
+ * versions share, so this is the one place the instances are converted.
+ */
+function toPa11yPage(page: Page): Pa11yPageOptions {
+  return { browser: page.browser(), page } as unknown as Pa11yPageOptions;
+}
 
 interface Pa11yResults {
   documentTitle: string;
@@ -45,69 +71,100 @@ export class Pa11yAdapter extends BaseAdapter {
   ): Promise<AnalysisResult> {
     const startTime = Date.now();
     const targetValue = target.value;
+    let pageTarget = target;
+    let lease: BrowserLease | null = null;
+    let page: Page | null = null;
 
     this.logger.info('Starting Pa11y analysis', { target: targetValue });
 
     try {
-      const pa11yOptions = this.buildPa11yOptions(target, options);
-      const results = await this.runPa11y(target, pa11yOptions);
-
-      const issues = pa11yNormalizer.normalize(results.issues, {
-        tool: 'pa11y',
-        targetUrl: target.type === 'url' ? targetValue : undefined
+      pageTarget = await resolveAuthSession(target, {
+        timeout: this.config.timeout,
+        ignoreHTTPSErrors: this.adapterConfig.chromeLaunchConfig?.ignoreHTTPSErrors
       });
+      const pa11yOptions = this.buildPa11yOptions(pageTarget, options);
+      lease = await getBrowserPool().acquire(this.launchOptions());
+      page = await this.attachPage(lease.browser, pageTarget, pa11yOptions);
+      const results = await this.runPa11y(pageTarget, pa11yOptions);
+      const snapshot = createPageSnapshot(target.type === 'url' ? results.pageUrl : undefined);
+
+      return redactSecrets(
+        this.buildSuccessResult(target, results, Date.now() - startTime, snapshot),
+        collectTargetSecrets(pageTarget)
+      );
+    } catch (error) {
+      return redactSecrets(
+        this.buildErrorResult(targetValue, error, Date.now() - startTime),
+        collectTargetSecrets(pageTarget)
+      );
+    } finally {
+      if (page) {
+        await closeTargetPage(page);
+      }
+      await lease?.release();
+    }
+  }
 
-      const duration = Date.now() - startTime;
+  /**
+   * Runs Pa11y against a page that is already loaded, without navigating it
+   * again, so it can share one render with other in-page analyses.
+   */
+  async analyzePage(
+    page: Page,
+    target: AnalysisTarget,
+    options?: AnalysisOptions,
+    snapshot?: PageSnapshot
+  ): Promise<AnalysisResult> {
+    const startTime = Date.now();
+    const viewport = page.viewport();
+    const pa11yOptions = this.buildPa11yOptions(target, options);
 
-      this.logger.info('Pa11y analysis completed', {
-        target: targetValue,
-        issueCount: issues.length,
-        durationMs: duration
-      });
+    this.logger.info('Starting Pa11y analysis', { target: target.value, snapshot: snapshot?.id });
 
-      return {
-        success: true,
-        timestamp: new Date().toISOString(),
-        duration,
-        target: targetValue,
-        tool: 'pa11y',
-        issues,
-        summary: this.buildSummary(issues),
-        metadata: {
-          toolVersion: this.version,
-          pageTitle: results.documentTitle
-        }
-      };
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : String(error);
+    pa11yOptions.wait = 0;
+    pa11yOptions.ignoreUrl = true;
+    Object.assign(pa11yOptions, toPa11yPage(page));
 
-      this.logger.error('Pa11y analysis failed', {
-        target: targetValue,
-        error: error instanceof Error ? error : new Error(errorMessage)
-      });
+    if (viewport) {
+      pa11yOptions.viewport = viewport;
+    }
 
-      return {
-        success: false,
-        timestamp: new Date().toISOString(),
-        duration,
-        target: targetValue,
-        tool: 'pa11y',
-        issues: [],
-        summary: this.buildSummary([]),
-        error: errorMessage
-      };
+    try {
+      const results = await this.runPa11y(target, pa11yOptions);
+
+      return redactSecrets(
+        this.buildSuccessResult(target, results, Date.now() - startTime, snapshot),
+        collectTargetSecrets(target)
+      );
+    } catch (error) {
+      return redactSecrets(
+        {
+          ...this.buildErrorResult(target.value, error, Date.now() - startTime),
+          snapshots: snapshot && [snapshot]
+        },
+        collectTargetSecrets(target)
+      );
     }
   }
 
   async isAvailable(): Promise<boolean> {
     try {
-      return typeof pa11y === 'function';
+      return typeof pa11y === 'function' && await getBrowserPool().isAvailable(this.launchOptions());
     } catch {
       return false;
     }
   }
 
+  async dispose(): Promise<void> {
+    await getBrowserPool().closeIdle(this.launchOptions());
+    await super.dispose();
+  }
+
+  private launchOptions(): BrowserLaunchOptions {
+    const { executablePath, ignoreHTTPSErrors } = this.adapterConfig.chromeLaunchConfig ?? {};
+    return { executablePath, ignoreHTTPSErrors };
+  }
+
   private buildPa11yOptions(
     target: AnalysisTarget,
     options?: AnalysisOptions
@@ -121,10 +178,7 @@ export class Pa11yAdapter extends BaseAdapter {
     };
 
     if (target.options?.viewport) {
-      pa11yOpts.viewport = {
-        width: target.options.viewport.width,
-        height: target.options.viewport.height
-      };
+      pa11yOpts.viewport = toPageViewport(target.options.viewport);
     }
 
     if (target.options?.waitForSelector) {
@@ -135,10 +189,6 @@ export class Pa11yAdapter extends BaseAdapter {
       pa11yOpts.wait = target.options.timeout;
     }
 
-    if (this.adapterConfig.chromeLaunchConfig) {
-      pa11yOpts.chromeLaunchConfig = this.adapterConfig.chromeLaunchConfig as Pa11yOptions['chromeLaunchConfig'];
-    }
-
     if (options?.rules && options.rules.length > 0) {
       pa11yOpts.rules = options.rules;
     }
@@ -150,6 +200,43 @@ export class Pa11yAdapter extends BaseAdapter {
     return pa11yOpts;
   }
 
+  private async attachPage(
+    browser: Browser,
+    target: AnalysisTarget,
+    pa11yOpts: Pa11yOptions
+  ): Promise<Page> {
+    const page = await openTargetPage(browser, target);
+
+    if (hasInteractions(target)) {
+      await this.loadInteractivePage(page, target);
+      pa11yOpts.ignoreUrl = true;
+    }
+
+    Object.assign(pa11yOpts, toPa11yPage(page));
+
+    return page;
+  }
+
+  private async loadInteractivePage(page: Page, target: AnalysisTarget): Promise<void> {
+    const timeout = target.options?.timeout ?? this.config.timeout ?? 30000;
+
+    if (target.options?.viewport) {
+      await page.setViewport(toPageViewport(target.options.viewport));
+    }
+
+    if (target.type === 'html') {
+      await page.setContent(target.value, { waitUntil: 'networkidle2', timeout });
+    } else {
+      await page.goto(target.value, { waitUntil: 'networkidle2', timeout });
+    }
+
+    if (target.options?.waitForSelector) {
+      await page.waitForSelector(target.options.waitForSelector, { timeout });
+    }
+
+    await runInteractions(page, target.options?.actions, timeout);
+  }
+
   private async runPa11y(
     target: AnalysisTarget,
     options: Pa11yOptions
@@ -167,6 +254,59 @@ export class Pa11yAdapter extends BaseAdapter {
     throw new Error(`Unsupported target type: ${target.type}`);
   }
 
+  private buildSuccessResult(
+    target: AnalysisTarget,
+    results: Pa11yResults,
+    duration: number,
+    snapshot?: PageSnapshot
+  ): AnalysisResult {
+    const issues = pa11yNormalizer.normalize(results.issues, {
+      tool: 'pa11y',
+      targetUrl: target.type === 'url' ? target.value : undefined
+    });
+
+    this.logger.info('Pa11y analysis completed', {
+      target: target.value,
+      issueCount: issues.length,
+      durationMs: duration
+    });
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration,
+      target: target.value,
+      tool: 'pa11y',
+      issues,
+      summary: this.buildSummary(issues),
+      metadata: {
+        toolVersion: this.version,
+        pageTitle: results.documentTitle
+      },
+      snapshots: snapshot && [snapshot]
+    };
+  }
+
+  private buildErrorResult(target: string, error: unknown, duration: number): AnalysisResult {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    this.logger.error('Pa11y analysis failed', {
+      target,
+      error: error instanceof Error ? error : new Error(errorMessage)
+    });
+
+    return {
+      success: false,
+      timestamp: new Date().toISOString(),
+      duration,
+      target,
+      tool: 'pa11y',
+      issues: [],
+      summary: this.buildSummary([]),
+      error: errorMessage
+    };
+  }
+
   private mapWcagLevel(level: 'A' | 'AA' | 'AAA'): 'WCAG2A' | 'WCAG2AA' | 'WCAG2AAA' {
     const mapping = {
       A: 'WCAG2A' as const,
@@ -2,11 +2,18 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { Pa11yAdapter } from './adapters/index.js';
 import { Pa11yToolInputSchema, type Pa11yToolInput } from './types/index.js';
 import { buildAnalysisTarget, buildAnalysisOptions, formatOutput } from './utils/index.js';
+import { getAdapterSettings } from '@/shared/config/index.js';
 import {
+  analyzeInStates,
+  analyzeInViewports,
+  mergeAnalysisSummaries,
+} from '@/shared/browser/index.js';
+import {
+  type ToolContent,
   type ToolDefinition,
   type ToolResponse,
-  createJsonResponse,
   createErrorResponse,
+  createFormattedResponse,
   withToolContext,
 } from '../Base/index.js';
 import { Pa11yToolMcpInputSchema } from './types/input.type.js';
@@ -20,7 +27,7 @@ function getAdapter(ignoreHTTPSErrors = false): Pa11yAdapter {
       sharedAdapter.dispose().catch(() => {});
     }
     sharedAdapter = new Pa11yAdapter({
-      timeout: 30000,
+      timeout: getAdapterSettings('pa11y').timeout ?? 30000,
       chromeLaunchConfig: {
         ignoreHTTPSErrors,
       },
@@ -48,12 +55,14 @@ process.on('SIGTERM', () => {
 const handlePa11yAnalysis = withToolContext<Pa11yToolInput>(
   'analyze-with-pa11y',
   async (input, context): Promise<ToolResponse> => {
-    const ignoreHTTPSErrors = input.options?.browser?.ignoreHTTPSErrors ?? false;
+    const target = buildAnalysisTarget(input);
+    const options = buildAnalysisOptions(input);
+    const ignoreHTTPSErrors = target.options?.ignoreHTTPSErrors ?? false;
 
     context.logger.debug('Building analysis configuration', {
       hasUrl: !!input.url,
       hasHtml: !!input.html,
-      standard: input.options?.standard ?? 'WCAG21AA',
+      wcagLevel: options.wcagLevel,
       ignoreHTTPSErrors,
     });
 
@@ -66,15 +75,23 @@ const handlePa11yAnalysis = withToolContext<Pa11yToolInput>(
       );
     }
 
-    const target = buildAnalysisTarget(input);
-    const options = buildAnalysisOptions(input);
-
     context.logger.info('Starting Pa11y analysis', {
       targetType: target.type,
       target: target.type === 'url' ? target.value : '[html content]',
     });
 
-    const result = await adapter.analyze(target, options);
+    const result = await analyzeInViewports(
+      target,
+      (viewportTarget, onProgress) =>
+        analyzeInStates(
+          viewportTarget,
+          (stateTarget) => adapter.analyze(stateTarget, options),
+          mergeAnalysisSummaries,
+          onProgress
+        ),
+      mergeAnalysisSummaries,
+      context.reportProgress
+    );
 
     if (!result.success) {
       context.logger.warn('Analysis completed with errors', {
@@ -82,8 +99,10 @@ const handlePa11yAnalysis = withToolContext<Pa11yToolInput>(
       });
     }
 
+    context.recordHistory(target, result);
+
     const output = formatOutput(result);
-    return createJsonResponse(output, !result.success);
+    return createFormattedResponse(result, output, input.options?.outputFormat);
   }
 );
 
@@ -96,14 +115,19 @@ Returns accessibility violations based on WCAG guidelines.
 Input options
 - url: URL of the page to analyze
 - html: Raw HTML content to analyze (alternative to url)
-- options.standard: WCAG standard to test against (WCAG2A, WCAG2AA, WCAG2AAA, WCAG21A, WCAG21AA, WCAG21AAA). Default: WCAG21AA
+- options.standard: WCAG standard to test against (WCAG2A, WCAG2AA, WCAG2AAA, WCAG21A, WCAG21AA, WCAG21AAA). Default: project config wcagLevel, else WCAG21AA
 - options.includeWarnings: Include warnings in results. Default: true
 - options.includeNotices: Include notices in results. Default: false
 - options.rootElement: CSS selector for root element to test
 - options.hideElements: CSS selector for elements to hide from testing
 - options.browser.waitForSelector: CSS selector to wait for before analysis
 - options.browser.viewport: Browser viewport dimensions
-- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors (for local dev servers). Default: false
+- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors (for local dev servers). Default: project config, else false
+- options.browser.authentication: Cookies, localStorage, headers, basic auth or a login script for protected pages (secrets are redacted from output)
+- options.browser.actions: Interactions run before analysis (click, hover, focus, type, press, scroll, wait, select)
+- options.browser.states: Named UI states, each with its own actions; issues are tagged with the state and counted in summary.byState
+- options.browser.viewports: Viewports to analyze in one call, as presets ("mobile", "tablet", "desktop") or { name, preset, width, height, deviceScaleFactor, isMobile, hasTouch } (max 6); issues are tagged with the viewport and viewportSpecific, and counted in summary.byViewport, summary.viewportSpecific and summary.allViewports
+- options.outputFormat: Response format, "json", "sarif" (SARIF 2.1.0), "junit" (JUnit XML) or "tap" (TAP 13). Default: json
 
 Output:
 - issues: Array of accessibility issues found
@@ -115,7 +139,7 @@ Output:
       this.name,
       this.description,
       Pa11yToolMcpInputSchema.shape,
-      async (input): Promise<{ content: Array<{ type: 'text'; text: string }> }> => {
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
         const parseResult = Pa11yToolInputSchema.safeParse(input);
 
         if (!parseResult.success) {
@@ -126,7 +150,7 @@ Output:
           return { content: response.content };
         }
 
-        const response = await handlePa11yAnalysis(parseResult.data);
+        const response = await handlePa11yAnalysis(parseResult.data, extra);
         return { content: response.content };
       }
     );
@@ -1,5 +1,9 @@
 import { z } from 'zod';
+import { AuthenticationSchema } from '@/shared/types/authentication.js';
+import { InteractionActionsSchema, InteractionStatesSchema } from '@/shared/types/interaction.js';
+import { ViewportsSchema } from '@/shared/types/viewport.js';
 import type { AnalysisResult } from '@/shared/types/accessibility.js';
+import { BackgroundSchema, OutputFormatSchema } from '@/tools/Base/types/base.types.js';
 
 const ViewportSchema = z
   .object({
@@ -23,6 +27,12 @@ const BrowserOptionsSchema = z
       .boolean()
       .optional()
       .describe('Ignore HTTPS certificate errors (useful for local dev servers with self-signed certs)'),
+    authentication: AuthenticationSchema.optional().describe(
+      'Authentication for protected pages: cookies, localStorage, headers, basic auth or a login script'
+    ),
+    actions: InteractionActionsSchema.optional(),
+    states: InteractionStatesSchema.optional(),
+    viewports: ViewportsSchema.optional(),
   })
   .describe('Browser behavior options');
 
@@ -30,11 +40,12 @@ export const Pa11yToolInputSchema = z
   .object({
     url: z.string().url().optional().describe('URL of the page to analyze'),
     html: z.string().min(1).optional().describe('Raw HTML content to analyze'),
+    background: BackgroundSchema,
     options: z
       .object({
         standard: z
           .enum(['WCAG2A', 'WCAG2AA', 'WCAG2AAA', 'WCAG21A', 'WCAG21AA', 'WCAG21AAA'])
-          .default('WCAG21AA')
+          .optional()
           .describe('Accessibility standard to test against'),
         includeWarnings: z.boolean().default(true).describe('Include warnings in results'),
         includeNotices: z.boolean().default(false).describe('Include notices in results'),
@@ -43,6 +54,7 @@ export const Pa11yToolInputSchema = z
           .string()
           .optional()
           .describe('CSS selector for elements to hide from testing'),
+        outputFormat: OutputFormatSchema.default('json'),
         browser: BrowserOptionsSchema.optional(),
       })
       .optional(),
@@ -1,10 +1,11 @@
 import type { AnalysisTarget, AnalysisOptions } from '@/shared/types/analysis.js';
+import { applyIgnoredRules, applyProjectTarget, resolveWcagLevel } from '@/shared/config/index.js';
 import type { AnalysisResult } from '@/shared/types/accessibility.js';
 import type { Pa11yToolInput, Pa11yToolOutput } from '../types/index.js';
 
 export function buildAnalysisTarget(input: Pa11yToolInput): AnalysisTarget {
   if (input.url) {
-    return {
+    return applyProjectTarget({
       type: 'url',
       value: input.url,
       options: {
@@ -12,11 +13,15 @@ export function buildAnalysisTarget(input: Pa11yToolInput): AnalysisTarget {
         timeout: input.options?.browser?.waitForTimeout,
         viewport: input.options?.browser?.viewport,
         ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+        authentication: input.options?.browser?.authentication,
+        actions: input.options?.browser?.actions,
+        states: input.options?.browser?.states,
+        viewports: input.options?.browser?.viewports,
       },
-    };
+    });
   }
 
-  return {
+  return applyProjectTarget({
     type: 'html',
     value: input.html!,
     options: {
@@ -24,8 +29,12 @@ export function buildAnalysisTarget(input: Pa11yToolInput): AnalysisTarget {
       timeout: input.options?.browser?.waitForTimeout,
       viewport: input.options?.browser?.viewport,
       ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+      authentication: input.options?.browser?.authentication,
+      actions: input.options?.browser?.actions,
+      states: input.options?.browser?.states,
+      viewports: input.options?.browser?.viewports,
     },
-  };
+  });
 }
 
 export function buildAnalysisOptions(input: Pa11yToolInput): AnalysisOptions {
@@ -40,12 +49,16 @@ export function buildAnalysisOptions(input: Pa11yToolInput): AnalysisOptions {
 
   const wcagLevel = input.options?.standard
     ? standardMap[input.options.standard] ?? 'AA'
-    : 'AA';
+    : resolveWcagLevel(input.url);
 
-  return {
-    wcagLevel,
-    includeWarnings: input.options?.includeWarnings ?? true,
-  };
+  return applyIgnoredRules(
+    {
+      wcagLevel,
+      includeWarnings: input.options?.includeWarnings ?? true,
+    },
+    'pa11y',
+    input.url
+  );
 }
 
 export function formatOutput(result: AnalysisResult): Pa11yToolOutput {
@@ -0,0 +1,3 @@
+export { analyzePaletteTool } from './main.js';
+export * from './types/index.js';
+export * from './utils/index.js';
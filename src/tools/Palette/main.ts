@@ -0,0 +1,126 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  AnalyzePaletteInputSchema,
+  MAX_PALETTE_COLORS,
+  type AnalyzePaletteInput,
+  type AnalyzePaletteOutput,
+} from './types/index.js';
+import {
+  buildPaletteMatrix,
+  buildPaletteRequirement,
+  loadPalette,
+  resolvePaletteColors,
+} from './utils/index.js';
+import {
+  type ToolContent,
+  type ToolDefinition,
+  type ToolResponse,
+  createJsonResponse,
+  createErrorResponse,
+  withToolContext,
+} from '../Base/index.js';
+
+const handleAnalyzePalette = withToolContext<AnalyzePaletteInput>(
+  'analyze-palette',
+  async (input, context): Promise<ToolResponse> => {
+    const palette = await loadPalette(input);
+
+    if (palette.colors.length < 2 || palette.colors.length > MAX_PALETTE_COLORS) {
+      return createErrorResponse(
+        new Error(
+          `The palette has ${palette.colors.length} colors; between 2 and ${MAX_PALETTE_COLORS} are supported`
+        )
+      );
+    }
+
+    const colors = resolvePaletteColors(palette.colors);
+    const requirement = buildPaletteRequirement(input);
+
+    context.logger.info('Building palette contrast matrix', {
+      source: palette.source,
+      colors: colors.length,
+      contrastAlgorithm: requirement.contrastAlgorithm,
+      usage: requirement.usage,
+    });
+
+    const { pairs, summary } = buildPaletteMatrix(colors, requirement, {
+      foregrounds: input.options?.foregrounds,
+      backgrounds: input.options?.backgrounds,
+      maxAlternatives: input.options?.maxAlternatives ?? 3,
+    });
+
+    context.logger.info('Palette analysis completed', {
+      pairs: summary.pairs,
+      failing: summary.failing,
+    });
+
+    const output: AnalyzePaletteOutput = {
+      success: true,
+      source: palette.source,
+      tokensPath: palette.tokensPath,
+      colors: colors.map(({ rgba: _rgba, ...color }) => color),
+      requirement,
+      pairs,
+      summary,
+      ...(palette.warnings.length > 0 && { warnings: palette.warnings }),
+    };
+    return createJsonResponse(output);
+  }
+);
+
+export const analyzePaletteTool: ToolDefinition = {
+  name: 'analyze-palette',
+  description: `Check every foreground/background pair of a color palette before any page uses it.
+
+Measures each pair with the WCAG 2 contrast ratio and APCA, marks the thresholds it passes, and for the pairs that miss the requirement suggests the closest passing color and the closest palette colors that pass on the same background.
+
+Input options (one of colors, tokensPath or tokens)
+- colors: Array of named colors [{ name, value }]
+- tokensPath: Path of a design-tokens JSON file (W3C Design Tokens or Style Dictionary) or a CSS file with custom properties
+- tokens: Design-tokens JSON or CSS custom properties as text
+- options.foregrounds: Names of the colors used for text and icons. Default: every color
+- options.backgrounds: Names of the colors used as backgrounds. Default: every color
+- options.usage: body, large or non-text. Default: body
+- options.wcagLevel: AA or AAA, for the WCAG21 algorithm. Default: project config, else AA
+- options.contrastAlgorithm: WCAG21 or APCA, the algorithm pairs must pass. Default: WCAG21
+- options.maxAlternatives: Palette colors suggested per failing pair (0-10). Default: 3
+
+Output
+- colors: Palette colors with their hex value
+- requirement: Algorithm, level, usage and minimum value pairs must meet
+- pairs: Every foreground on every other background, with ratio, APCA Lc, passed criteria (aaNormal, aaLarge, aaaNormal, aaaLarge, nonText, apcaBody, apcaLarge, apcaNonText) and a suggestion when the pair fails
+- summary: Passing and failing pairs, and pairs passing each criterion
+- warnings: Tokens that could not be read as colors
+
+WCAG Criteria
+- 1.4.3 Contrast (Minimum) - Level AA
+- 1.4.6 Contrast (Enhanced) - Level AAA
+- 1.4.11 Non-text Contrast - Level AA`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      AnalyzePaletteInputSchema.shape,
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
+        const parseResult = AnalyzePaletteInputSchema.safeParse(input);
+        const sources = parseResult.success
+          ? [parseResult.data.colors, parseResult.data.tokensPath, parseResult.data.tokens].filter(
+              (source) => source !== undefined
+            ).length
+          : 0;
+
+        if (!parseResult.success || sources !== 1) {
+          const errors = parseResult.success
+            ? 'Provide exactly one of colors, tokensPath or tokens'
+            : parseResult.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ');
+          const response = createErrorResponse(new Error(`Invalid input: ${errors}`));
+          return { content: response.content };
+        }
+
+        const response = await handleAnalyzePalette(parseResult.data, extra);
+        return { content: response.content };
+      }
+    );
+  },
+};
@@ -0,0 +1 @@
+export * from './palette.types.js';
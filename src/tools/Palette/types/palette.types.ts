@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import {
+  ContrastAlgorithmSchema,
+  ContrastWCAGLevelSchema,
+} from '@/tools/Contrast/types/contrast.type.js';
+import { BackgroundSchema } from '@/tools/Base/types/base.types.js';
+
+/** Largest palette analyzed in one call; the matrix grows with its square. */
+export const MAX_PALETTE_COLORS = 32;
+
+export const PaletteColorSchema = z
+  .object({
+    name: z.string().min(1).describe('Token name, e.g. "color.brand.primary" or "--brand-primary"'),
+    value: z.string().min(1).describe('CSS color, e.g. "#0055ff" or "oklch(55% 0.2 260)"'),
+  })
+  .describe('Named color of the palette');
+export type PaletteColorInput = z.infer<typeof PaletteColorSchema>;
+
+export const PaletteUsageSchema = z
+  .enum(['body', 'large', 'non-text'])
+  .describe(
+    'What the pairs are used for, which sets the requirement they must meet: body text, large text, or UI components and graphics'
+  );
+export type PaletteUsage = z.infer<typeof PaletteUsageSchema>;
+
+export const AnalyzePaletteInputSchema = z.object({
+  colors: z
+    .array(PaletteColorSchema)
+    .min(2)
+    .max(MAX_PALETTE_COLORS)
+    .optional()
+    .describe('Named colors of the palette'),
+  tokensPath: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Path of a design-tokens JSON file or a CSS file with custom properties'),
+  tokens: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Design-tokens JSON or CSS custom properties as text (alternative to tokensPath)'),
+  background: BackgroundSchema,
+  options: z
+    .object({
+      foregrounds: z
+        .array(z.string().min(1))
+        .min(1)
+        .optional()
+        .describe('Names of the colors used for text and icons (default: every color)'),
+      backgrounds: z
+        .array(z.string().min(1))
+        .min(1)
+        .optional()
+        .describe('Names of the colors used as backgrounds (default: every color)'),
+      usage: PaletteUsageSchema.default('body'),
+      wcagLevel: ContrastWCAGLevelSchema.optional().describe(
+        'WCAG level pairs must meet with the WCAG21 algorithm'
+      ),
+      contrastAlgorithm: ContrastAlgorithmSchema.default('WCAG21').describe(
+        'Algorithm pairs must pass to count as passing and that fixes are suggested for'
+      ),
+      maxAlternatives: z
+        .number()
+        .int()
+        .min(0)
+        .max(10)
+        .default(3)
+        .describe('Maximum passing palette colors suggested for each failing pair'),
+    })
+    .optional(),
+});
+export type AnalyzePaletteInput = z.infer<typeof AnalyzePaletteInputSchema>;
+
+export type PaletteSource = 'colors' | 'json' | 'css';
+
+export const PALETTE_CRITERIA = [
+  'aaNormal',
+  'aaLarge',
+  'aaaNormal',
+  'aaaLarge',
+  'nonText',
+  'apcaBody',
+  'apcaLarge',
+  'apcaNonText',
+] as const;
+export type PaletteCriterion = (typeof PALETTE_CRITERIA)[number];
+
+export interface PaletteColor {
+  name: string;
+  /** Value as written in the input or tokens file, after resolving references. */
+  value: string;
+  hex: string;
+  /** Alpha of the color when it is translucent. */
+  alpha?: number | undefined;
+}
+
+export interface PaletteRequirement {
+  contrastAlgorithm: 'WCAG21' | 'APCA';
+  wcagLevel: 'AA' | 'AAA';
+  usage: PaletteUsage;
+  /** Minimum contrast ratio, or minimum absolute APCA Lc value. */
+  minimum: number;
+}
+
+export interface PaletteAlternative {
+  name: string;
+  hex: string;
+  ratio: number;
+  apca: number;
+  /** CIEDE2000 color difference from the suggested color, or from the foreground without one. */
+  distance: number;
+}
+
+export interface PaletteSuggestion {
+  /**
+   * Closest color to the foreground that meets the requirement on this
+   * background. Missing when lightening or darkening the foreground cannot
+   * reach it.
+   */
+  foreground?: string | undefined;
+  ratio?: number | undefined;
+  apca?: number | undefined;
+  /** Palette colors that meet the requirement on this background, closest first. */
+  alternatives: PaletteAlternative[];
+}
+
+export interface PalettePair {
+  foreground: string;
+  background: string;
+  /** Foreground as rendered on the background, after blending translucent colors. */
+  foregroundHex: string;
+  backgroundHex: string;
+  ratio: number;
+  /** Absolute APCA Lc value. */
+  apca: number;
+  criteria: Record<PaletteCriterion, boolean>;
+  /** Whether the pair meets the requirement. */
+  passes: boolean;
+  suggestion?: PaletteSuggestion | undefined;
+}
+
+export interface PaletteSummary {
+  colors: number;
+  pairs: number;
+  passing: number;
+  failing: number;
+  /** Number of pairs that pass each criterion. */
+  byCriterion: Record<PaletteCriterion, number>;
+}
+
+export interface AnalyzePaletteOutput {
+  success: boolean;
+  source: PaletteSource;
+  tokensPath?: string | undefined;
+  colors: PaletteColor[];
+  requirement: PaletteRequirement;
+  pairs: PalettePair[];
+  summary: PaletteSummary;
+  /** Tokens that were left out, such as values that are not colors. */
+  warnings?: string[] | undefined;
+}
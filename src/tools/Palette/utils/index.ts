@@ -0,0 +1 @@
+export * from './palette.utils.js';
@@ -0,0 +1,489 @@
+import { readFile } from 'node:fs/promises';
+import { extname, resolve } from 'node:path';
+import Color from 'colorjs.io';
+import { resolveWcagLevel } from '@/shared/config/index.js';
+import {
+  APCA_THRESHOLDS,
+  WCAG_THRESHOLDS,
+  type RGB,
+  type RGBA,
+} from '@/tools/Contrast/types/colorAnalysis.type.js';
+import {
+  blendOver,
+  getAPCAContrast,
+  getContrastRatio,
+  meetsAPCA,
+  meetsWCAG,
+  meetsWCAGNonText,
+  parseColorWithAlpha,
+  rgbToHex,
+  suggestFixedColor,
+  suggestFixedColorForAPCA,
+} from '@/tools/Contrast/utils/contrast.js';
+import {
+  PALETTE_CRITERIA,
+  type AnalyzePaletteInput,
+  type PaletteAlternative,
+  type PaletteColor,
+  type PaletteColorInput,
+  type PaletteCriterion,
+  type PaletteSource,
+  type PalettePair,
+  type PaletteRequirement,
+  type PaletteSuggestion,
+  type PaletteSummary,
+} from '../types/index.js';
+
+/** What the browser paints below translucent backgrounds. */
+const CANVAS: RGB = { r: 255, g: 255, b: 255 };
+
+const MAX_REFERENCE_DEPTH = 10;
+
+export type TokensFormat = 'json' | 'css';
+
+export interface ParsedTokens {
+  colors: PaletteColorInput[];
+  warnings: string[];
+}
+
+export interface LoadedPalette {
+  source: PaletteSource;
+  tokensPath?: string | undefined;
+  colors: PaletteColorInput[];
+  warnings: string[];
+}
+
+export interface ResolvedPaletteColor extends PaletteColor {
+  rgba: RGBA;
+}
+
+export interface PaletteMatrixOptions {
+  foregrounds?: string[] | undefined;
+  backgrounds?: string[] | undefined;
+  maxAlternatives: number;
+}
+
+export interface PaletteMatrix {
+  pairs: PalettePair[];
+  summary: PaletteSummary;
+}
+
+interface RawToken {
+  value: unknown;
+  type?: string | undefined;
+}
+
+interface MeasuredPair {
+  foreground: RGB;
+  background: RGB;
+  ratio: number;
+  apca: number;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export function detectTokensFormat(content: string, path?: string): TokensFormat {
+  const extension = path ? extname(path).toLowerCase() : '';
+  if (extension === '.json') return 'json';
+  if (extension === '.css') return 'css';
+  return content.trimStart().startsWith('{') ? 'json' : 'css';
+}
+
+/**
+ * Replaces `{group.token}` references with the value of the token they point
+ * to, the way design-token tools alias one token to another.
+ */
+function resolveTokenReference(
+  value: string,
+  tokens: Map<string, RawToken>,
+  depth = 0
+): string | null {
+  const match = /^\{([^{}]+)\}$/.exec(value.trim());
+  if (!match) return value;
+  if (depth >= MAX_REFERENCE_DEPTH) return null;
+
+  const referenced = tokens.get(match[1]!)?.value;
+  return typeof referenced === 'string'
+    ? resolveTokenReference(referenced, tokens, depth + 1)
+    : null;
+}
+
+function collectJsonTokens(
+  node: unknown,
+  path: string[],
+  inheritedType: string | undefined,
+  tokens: Map<string, RawToken>
+): void {
+  if (typeof node === 'string') {
+    tokens.set(path.join('.'), { value: node, type: inheritedType });
+    return;
+  }
+  if (typeof node !== 'object' || node === null || Array.isArray(node)) return;
+
+  const group = node as Record<string, unknown>;
+  const type = typeof group.$type === 'string' ? group.$type : inheritedType;
+
+  // W3C design tokens use `$value`, Style Dictionary uses `value`
+  if ('$value' in group) {
+    tokens.set(path.join('.'), { value: group.$value, type });
+    return;
+  }
+  if ('value' in group && typeof group.value !== 'object') {
+    tokens.set(path.join('.'), {
+      value: group.value,
+      type: typeof group.type === 'string' ? group.type : type,
+    });
+    return;
+  }
+
+  for (const [key, child] of Object.entries(group)) {
+    if (key.startsWith('$')) continue;
+    collectJsonTokens(child, [...path, key], type, tokens);
+  }
+}
+
+/**
+ * Reads the colors of a design-tokens JSON document, in the W3C Design Tokens
+ * format, the Style Dictionary format, or as plain nested name/value objects.
+ * Token names are the group path joined with dots. Tokens typed as something
+ * other than a color, and untyped values that are not colors, are left out.
+ */
+export function parseJsonTokens(content: string): ParsedTokens {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid design-tokens JSON: ${message}`);
+  }
+
+  const tokens = new Map<string, RawToken>();
+  collectJsonTokens(data, [], undefined, tokens);
+
+  const colors: PaletteColorInput[] = [];
+  const warnings: string[] = [];
+
+  for (const [name, token] of tokens) {
+    if (token.type !== undefined && token.type !== 'color') continue;
+
+    const value =
+      typeof token.value === 'string' ? resolveTokenReference(token.value, tokens) : null;
+    if (value !== null && parseColorWithAlpha(value)) {
+      colors.push({ name, value });
+    } else if (token.type === 'color') {
+      warnings.push(`${name}: could not read ${JSON.stringify(token.value)} as a color`);
+    }
+  }
+
+  return { colors, warnings };
+}
+
+/**
+ * Reads the custom properties of a style sheet whose values are colors,
+ * resolving `var()` references between them. Only the first declaration of
+ * each property is used, so overrides in later rules, such as a dark theme,
+ * are ignored; analyze them as a separate palette.
+ */
+export function parseCssCustomProperties(content: string): ParsedTokens {
+  const css = content.replace(/\/\*[\s\S]*?\*\//g, '');
+  const properties = new Map<string, string>();
+
+  for (const [, name = '', value = ''] of css.matchAll(/(--[\w-]+)\s*:\s*([^;{}]+)/g)) {
+    if (!properties.has(name)) {
+      properties.set(name, value.replace(/\s*!important\s*$/, '').trim());
+    }
+  }
+
+  const resolveVars = (value: string, depth: number): string | null => {
+    if (!value.includes('var(')) return value;
+    if (depth >= MAX_REFERENCE_DEPTH) return null;
+
+    let unresolved = false;
+    const replaced = value.replace(
+      /var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\))?[^()]*))?\)/g,
+      (_match, name: string, fallback?: string) => {
+        const referenced = properties.get(name) ?? fallback?.trim();
+        if (referenced === undefined) {
+          unresolved = true;
+          return '';
+        }
+        return referenced;
+      }
+    );
+
+    return unresolved ? null : resolveVars(replaced, depth + 1);
+  };
+
+  const colors: PaletteColorInput[] = [];
+  const warnings: string[] = [];
+
+  for (const [name, declared] of properties) {
+    const value = resolveVars(declared, 0);
+    if (value === null) {
+      warnings.push(`${name}: could not resolve ${declared}`);
+    } else if (parseColorWithAlpha(value)) {
+      colors.push({ name, value });
+    }
+  }
+
+  return { colors, warnings };
+}
+
+export function parseTokens(content: string, format: TokensFormat): ParsedTokens {
+  return format === 'json' ? parseJsonTokens(content) : parseCssCustomProperties(content);
+}
+
+export async function readTokensFile(
+  tokensPath: string
+): Promise<{ content: string; absolutePath: string }> {
+  const absolutePath = resolve(process.cwd(), tokensPath);
+
+  try {
+    return { content: await readFile(absolutePath, 'utf-8'), absolutePath };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read tokens file ${absolutePath}: ${message}`);
+  }
+}
+
+/** Reads the colors from the input, or from the tokens file or text it names. */
+export async function loadPalette(input: AnalyzePaletteInput): Promise<LoadedPalette> {
+  if (input.colors) {
+    return { source: 'colors', colors: input.colors, warnings: [] };
+  }
+
+  const file = input.tokensPath ? await readTokensFile(input.tokensPath) : undefined;
+  const content = file?.content ?? input.tokens ?? '';
+  const format = detectTokensFormat(content, input.tokensPath);
+
+  return { source: format, tokensPath: file?.absolutePath, ...parseTokens(content, format) };
+}
+
+export function resolvePaletteColors(colors: PaletteColorInput[]): ResolvedPaletteColor[] {
+  const seen = new Set<string>();
+
+  return colors.map(({ name, value }) => {
+    if (seen.has(name)) {
+      throw new Error(`Duplicate color name "${name}"`);
+    }
+    seen.add(name);
+
+    const rgba = parseColorWithAlpha(value);
+    if (!rgba) {
+      throw new Error(`Invalid color "${value}" for ${name}`);
+    }
+
+    return {
+      name,
+      value,
+      hex: rgbToHex(rgba),
+      ...(rgba.a < 1 && { alpha: round(rgba.a, 2) }),
+      rgba,
+    };
+  });
+}
+
+export function buildPaletteRequirement(input: AnalyzePaletteInput): PaletteRequirement {
+  const contrastAlgorithm = input.options?.contrastAlgorithm ?? 'WCAG21';
+  const wcagLevel = input.options?.wcagLevel ?? (resolveWcagLevel() === 'AAA' ? 'AAA' : 'AA');
+  const usage = input.options?.usage ?? 'body';
+  let minimum: number;
+
+  if (contrastAlgorithm === 'APCA') {
+    minimum =
+      usage === 'body'
+        ? APCA_THRESHOLDS.BODY_TEXT
+        : usage === 'large'
+          ? APCA_THRESHOLDS.LARGE_TEXT
+          : APCA_THRESHOLDS.NON_TEXT;
+  } else if (usage === 'non-text') {
+    minimum = WCAG_THRESHOLDS.NON_TEXT;
+  } else if (wcagLevel === 'AA') {
+    minimum = usage === 'large' ? WCAG_THRESHOLDS.AA_LARGE : WCAG_THRESHOLDS.AA_NORMAL;
+  } else {
+    minimum = usage === 'large' ? WCAG_THRESHOLDS.AAA_LARGE : WCAG_THRESHOLDS.AAA_NORMAL;
+  }
+
+  return { contrastAlgorithm, wcagLevel, usage, minimum };
+}
+
+/** Criterion a pair must pass to meet the requirement. */
+export function getRequiredCriterion(requirement: PaletteRequirement): PaletteCriterion {
+  if (requirement.contrastAlgorithm === 'APCA') {
+    return requirement.usage === 'body'
+      ? 'apcaBody'
+      : requirement.usage === 'large'
+        ? 'apcaLarge'
+        : 'apcaNonText';
+  }
+  if (requirement.usage === 'non-text') return 'nonText';
+  if (requirement.wcagLevel === 'AA') {
+    return requirement.usage === 'large' ? 'aaLarge' : 'aaNormal';
+  }
+  return requirement.usage === 'large' ? 'aaaLarge' : 'aaaNormal';
+}
+
+/**
+ * Measures a foreground on a background. Translucent backgrounds are painted
+ * over the white canvas and translucent foregrounds over the background.
+ */
+function measurePair(foreground: RGBA, background: RGBA): MeasuredPair {
+  const bg = blendOver(background, CANVAS);
+  const fg = blendOver(foreground, bg);
+  return {
+    foreground: fg,
+    background: bg,
+    ratio: getContrastRatio(fg, bg),
+    apca: Math.abs(getAPCAContrast(fg, bg)),
+  };
+}
+
+export function evaluateCriteria(ratio: number, apca: number): Record<PaletteCriterion, boolean> {
+  return {
+    aaNormal: meetsWCAG(ratio, 'AA', false),
+    aaLarge: meetsWCAG(ratio, 'AA', true),
+    aaaNormal: meetsWCAG(ratio, 'AAA', false),
+    aaaLarge: meetsWCAG(ratio, 'AAA', true),
+    nonText: meetsWCAGNonText(ratio),
+    apcaBody: meetsAPCA(apca, 'body'),
+    apcaLarge: meetsAPCA(apca, 'large'),
+    apcaNonText: meetsAPCA(apca, 'nonText'),
+  };
+}
+
+export function getColorDistance(a: RGB, b: RGB): number {
+  return new Color(rgbToHex(a)).deltaE2000(new Color(rgbToHex(b)));
+}
+
+/**
+ * Suggests a fix for a failing pair: the closest foreground that meets the
+ * requirement on the background, found with the same search as the contrast
+ * analyzer, and the palette colors that meet it, closest to that fix first.
+ * When the search cannot reach the requirement, only palette colors are
+ * suggested, closest to the original foreground first.
+ */
+function suggestAlternatives(
+  measured: MeasuredPair,
+  background: ResolvedPaletteColor,
+  candidates: ResolvedPaletteColor[],
+  requirement: PaletteRequirement,
+  maxAlternatives: number
+): PaletteSuggestion {
+  const criterion = getRequiredCriterion(requirement);
+  const fixed =
+    requirement.contrastAlgorithm === 'APCA'
+      ? suggestFixedColorForAPCA(measured.foreground, measured.background, requirement.minimum)
+      : suggestFixedColor(measured.foreground, measured.background, requirement.minimum);
+  const fixedRatio = getContrastRatio(fixed, measured.background);
+  const fixedApca = Math.abs(getAPCAContrast(fixed, measured.background));
+  const fixedPasses = evaluateCriteria(fixedRatio, fixedApca)[criterion];
+  const reference = fixedPasses ? fixed : measured.foreground;
+
+  const alternatives: PaletteAlternative[] = candidates
+    .map((candidate) => ({ candidate, pair: measurePair(candidate.rgba, background.rgba) }))
+    .filter(({ pair }) => evaluateCriteria(pair.ratio, pair.apca)[criterion])
+    .map(({ candidate, pair }) => ({
+      name: candidate.name,
+      hex: candidate.hex,
+      ratio: round(pair.ratio, 2),
+      apca: round(pair.apca, 1),
+      distance: round(getColorDistance(pair.foreground, reference), 1),
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, maxAlternatives);
+
+  return {
+    ...(fixedPasses && {
+      foreground: rgbToHex(fixed),
+      ratio: round(fixedRatio, 2),
+      apca: round(fixedApca, 1),
+    }),
+    alternatives,
+  };
+}
+
+function selectColors(
+  colors: ResolvedPaletteColor[],
+  names: string[] | undefined,
+  option: string
+): ResolvedPaletteColor[] {
+  if (!names) return colors;
+
+  return names.map((name) => {
+    const color = colors.find((c) => c.name === name);
+    if (!color) {
+      throw new Error(`Unknown color "${name}" in options.${option}`);
+    }
+    return color;
+  });
+}
+
+/**
+ * Measures every foreground on every other background of the palette with
+ * both the WCAG 2 contrast ratio and APCA, and suggests fixes for the pairs
+ * that miss the requirement.
+ */
+export function buildPaletteMatrix(
+  colors: ResolvedPaletteColor[],
+  requirement: PaletteRequirement,
+  options: PaletteMatrixOptions
+): PaletteMatrix {
+  const foregrounds = selectColors(colors, options.foregrounds, 'foregrounds');
+  const backgrounds = selectColors(colors, options.backgrounds, 'backgrounds');
+  const criterion = getRequiredCriterion(requirement);
+  const byCriterion = Object.fromEntries(PALETTE_CRITERIA.map((c) => [c, 0])) as Record<
+    PaletteCriterion,
+    number
+  >;
+  const pairs: PalettePair[] = [];
+
+  for (const foreground of foregrounds) {
+    for (const background of backgrounds) {
+      if (foreground.name === background.name) continue;
+
+      const measured = measurePair(foreground.rgba, background.rgba);
+      const criteria = evaluateCriteria(measured.ratio, measured.apca);
+      const passes = criteria[criterion];
+
+      for (const c of PALETTE_CRITERIA) {
+        if (criteria[c]) byCriterion[c]++;
+      }
+
+      pairs.push({
+        foreground: foreground.name,
+        background: background.name,
+        foregroundHex: rgbToHex(measured.foreground),
+        backgroundHex: rgbToHex(measured.background),
+        ratio: round(measured.ratio, 2),
+        apca: round(measured.apca, 1),
+        criteria,
+        passes,
+        ...(!passes && {
+          suggestion: suggestAlternatives(
+            measured,
+            background,
+            foregrounds.filter((c) => c.name !== foreground.name && c.name !== background.name),
+            requirement,
+            options.maxAlternatives
+          ),
+        }),
+      });
+    }
+  }
+
+  const passing = pairs.filter((pair) => pair.passes).length;
+
+  return {
+    pairs,
+    summary: {
+      colors: colors.length,
+      pairs: pairs.length,
+      passing,
+      failing: pairs.length - passing,
+      byCriterion,
+    },
+  };
+}
@@ -0,0 +1 @@
+export * from './reflow.adapter.js';
@@ -0,0 +1,506 @@
+import type { Page } from 'puppeteer';
+import type { AnalysisTarget } from '@/shared/types/analysis.js';
+import type {
+  AccessibilityIssue,
+  AnalysisResult,
+  PageSnapshot,
+  WCAGLevel,
+} from '@/shared/types/accessibility.js';
+import { createAdapterLogger } from '@/shared/utils/logger.js';
+import { collectTargetSecrets, redactSecrets } from '@/shared/utils/redact.js';
+import {
+  closeTargetPage,
+  openTargetPage,
+  resolveAuthSession,
+} from '@/shared/browser/authentication.js';
+import { loadTarget } from '@/shared/browser/navigation.js';
+import { installSelectorHelper, type SelectorWindow } from '@/shared/browser/selectors.js';
+import {
+  getBrowserPool,
+  type BrowserLaunchOptions,
+  type BrowserLease,
+} from '@/shared/browser/pool.js';
+import { toPageViewport } from '@/shared/browser/viewports.js';
+import { reportJobProgress } from '@/shared/jobs/context.js';
+import type { EmulatedViewport } from '@/shared/types/viewport.js';
+import { reflowNormalizer } from '../normalizers/index.js';
+import {
+  TEXT_SPACING_CSS,
+  TWO_DIMENSIONAL_SELECTOR,
+  type BoundingBox,
+  type ClippedElement,
+  type OverflowingElement,
+  type PageLayout,
+  type ReflowAnalysisResult,
+  type ReflowFinding,
+  type ReflowIssue,
+  type ReflowRender,
+  type RenderPlan,
+  type TextBox,
+} from '../types/index.js';
+import {
+  DEFAULT_BASE_VIEWPORT,
+  DEFAULT_REFLOW_WIDTH,
+  DEFAULT_ZOOM_LEVELS,
+  detectReflowIssues,
+  planRenders,
+  planTextSpacing,
+  withGeometry,
+  type ReflowBuildOptions,
+} from '../utils/index.js';
+
+const MAX_TEXT_BOXES = 400;
+const MAX_LAYOUT_ELEMENTS = 100;
+const TEXT_SPACING_STYLE_ID = '__a11y-text-spacing';
+
+export interface ReflowAdapterConfig {
+  timeout?: number;
+  headless?: boolean;
+  browserArgs?: string[];
+  ignoreHTTPSErrors?: boolean;
+}
+
+export interface ReflowAdapterOptions {
+  wcagLevel?: WCAGLevel;
+  zoomLevels?: number[];
+  reflowWidth?: number;
+  checkReflow?: boolean;
+  checkTextSpacing?: boolean;
+  excludeRules?: string[] | undefined;
+}
+
+export class ReflowAdapter {
+  readonly name = 'reflow-analyzer';
+  readonly version = '1.0.0';
+
+  private config: ReflowAdapterConfig;
+  private logger: ReturnType<typeof createAdapterLogger>;
+
+  constructor(config: ReflowAdapterConfig = {}) {
+    this.config = {
+      timeout: 30000,
+      headless: true,
+      browserArgs: ['--no-sandbox', '--disable-setuid-sandbox'],
+      ...config,
+    };
+    this.logger = createAdapterLogger('ReflowAdapter');
+  }
+
+  async analyze(
+    target: AnalysisTarget,
+    options?: ReflowAdapterOptions
+  ): Promise<ReflowAnalysisResult> {
+    const startTime = Date.now();
+    let page: Page | null = null;
+    let lease: BrowserLease | null = null;
+    let pageTarget = target;
+
+    const wcagLevel = options?.wcagLevel ?? 'AA';
+    const base: EmulatedViewport = target.options?.viewport ?? DEFAULT_BASE_VIEWPORT;
+    const plans = planRenders(base, {
+      zoomLevels: options?.zoomLevels ?? DEFAULT_ZOOM_LEVELS,
+      reflowWidth: options?.reflowWidth ?? DEFAULT_REFLOW_WIDTH,
+      checkReflow: options?.checkReflow ?? true,
+    });
+
+    try {
+      this.logger.info('Starting reflow analysis', {
+        target: target.value,
+        renders: plans.map((plan) => plan.name),
+      });
+
+      pageTarget = await resolveAuthSession(target, {
+        timeout: this.config.timeout,
+        ignoreHTTPSErrors: this.config.ignoreHTTPSErrors,
+      });
+      lease = await getBrowserPool().acquire(this.launchOptions());
+      page = await openTargetPage(lease.browser, pageTarget);
+
+      const snapshots: PageSnapshot[] = [];
+      const baseline = await this.renderLayout(page, pageTarget, base, 'baseline', snapshots);
+
+      const issues: ReflowIssue[] = [];
+      const renders: ReflowRender[] = [];
+      const normalizerContext = {
+        tool: 'reflow-analyzer' as const,
+        targetUrl: target.type === 'url' ? target.value : undefined,
+        targetFile: target.type === 'file' ? target.value : undefined,
+      };
+
+      const checkTextSpacing = options?.checkTextSpacing ?? true;
+      const renderCount = plans.length + (checkTextSpacing ? 1 : 0);
+
+      if (checkTextSpacing) {
+        const plan = planTextSpacing(base);
+        const { layout, findings } = await this.inspectTextSpacing(page, baseline, plan, {
+          wcagLevel,
+          excludeRules: options?.excludeRules,
+        });
+        const renderIssues = reflowNormalizer.normalize(findings, normalizerContext);
+
+        issues.push(...renderIssues);
+        renders.push(this.toRender(plan, layout, renderIssues.length));
+        reportJobProgress(renders.length, renderCount, `Checked render "${plan.name}"`);
+      }
+
+      for (const plan of plans) {
+        const layout = await this.renderLayout(page, pageTarget, plan, plan.name, snapshots);
+        const findings = detectReflowIssues(layout, baseline, plan, {
+          wcagLevel,
+          excludeRules: options?.excludeRules,
+        });
+        const renderIssues = reflowNormalizer.normalize(findings, normalizerContext);
+
+        issues.push(...renderIssues);
+        renders.push(this.toRender(plan, layout, renderIssues.length));
+        reportJobProgress(renders.length, renderCount, `Checked render "${plan.name}"`);
+      }
+
+      const duration = Date.now() - startTime;
+      this.logger.info('Reflow analysis completed', {
+        issueCount: issues.length,
+        renders: renders.length,
+        duration,
+      });
+
+      return redactSecrets(
+        { ...this.buildSuccessResult(target.value, issues, renders, duration), snapshots },
+        collectTargetSecrets(pageTarget)
+      );
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error('Reflow analysis failed', {
+        error: error as Error,
+        target: target.value,
+      });
+
+      return redactSecrets(
+        this.buildErrorResult(target.value, error, duration),
+        collectTargetSecrets(pageTarget)
+      );
+    } finally {
+      if (page) {
+        await closeTargetPage(page);
+      }
+      await lease?.release();
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return await getBrowserPool().isAvailable(this.launchOptions());
+  }
+
+  async dispose(): Promise<void> {
+    await getBrowserPool().closeIdle(this.launchOptions());
+  }
+
+  private launchOptions(): BrowserLaunchOptions {
+    return {
+      headless: this.config.headless,
+      args: this.config.browserArgs,
+      ignoreHTTPSErrors: this.config.ignoreHTTPSErrors,
+    };
+  }
+
+  /**
+   * Reloads the page at the given size so that media queries and scripts that
+   * measure the window lay it out as they would for a real visitor.
+   */
+  private async renderLayout(
+    page: Page,
+    target: AnalysisTarget,
+    viewport: EmulatedViewport,
+    name: string,
+    snapshots: PageSnapshot[]
+  ): Promise<PageLayout> {
+    await page.setViewport(toPageViewport(viewport));
+    const snapshot = await loadTarget(page, target, this.config.timeout);
+    snapshots.push({ ...snapshot, viewport: name });
+
+    await installSelectorHelper(page);
+    return await page.evaluate(
+      inspectLayout,
+      TWO_DIMENSIONAL_SELECTOR,
+      MAX_LAYOUT_ELEMENTS,
+      MAX_TEXT_BOXES
+    );
+  }
+
+  /**
+   * Applies the text spacing overrides to the loaded page, then removes them
+   * again to measure where each reported element was before.
+   */
+  private async inspectTextSpacing(
+    page: Page,
+    baseline: PageLayout,
+    plan: RenderPlan,
+    options: Pick<ReflowBuildOptions, 'wcagLevel' | 'excludeRules'>
+  ): Promise<{ layout: PageLayout; findings: ReflowFinding[] }> {
+    await page.evaluate(applyTextSpacing, TEXT_SPACING_STYLE_ID, TEXT_SPACING_CSS);
+    const layout = await page.evaluate(
+      inspectLayout,
+      TWO_DIMENSIONAL_SELECTOR,
+      MAX_LAYOUT_ELEMENTS,
+      MAX_TEXT_BOXES
+    );
+    const findings = detectReflowIssues(layout, baseline, plan, options);
+
+    await page.evaluate(removeTextSpacing, TEXT_SPACING_STYLE_ID);
+    const before = await page.evaluate(
+      measureBoxes,
+      findings.map((finding) => finding.selector)
+    );
+
+    return { layout, findings: withGeometry(findings, before) };
+  }
+
+  private toRender(plan: RenderPlan, layout: PageLayout, issueCount: number): ReflowRender {
+    return {
+      name: plan.name,
+      width: plan.width,
+      height: plan.height,
+      deviceScaleFactor: plan.deviceScaleFactor,
+      ...(plan.zoom !== undefined && { zoom: plan.zoom }),
+      criterion: plan.criterion,
+      documentWidth: Math.round(layout.documentWidth),
+      horizontalScroll: layout.horizontalScroll,
+      issueCount,
+    };
+  }
+
+  private buildSuccessResult(
+    target: string,
+    issues: ReflowIssue[],
+    renders: ReflowRender[],
+    duration: number
+  ): ReflowAnalysisResult {
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration,
+      target,
+      tool: 'reflow-analyzer',
+      issues,
+      summary: this.calculateSummary(issues, renders),
+      renders,
+    };
+  }
+
+  private buildErrorResult(target: string, error: unknown, duration: number): ReflowAnalysisResult {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    return {
+      success: false,
+      timestamp: new Date().toISOString(),
+      duration,
+      target,
+      tool: 'reflow-analyzer',
+      issues: [],
+      summary: {
+        total: 0,
+        bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+      },
+      renders: [],
+      error: errorMessage,
+    };
+  }
+
+  private calculateSummary(
+    issues: AccessibilityIssue[],
+    renders: ReflowRender[]
+  ): AnalysisResult['summary'] {
+    const bySeverity = { critical: 0, serious: 0, moderate: 0, minor: 0 };
+    const byPrinciple = { perceivable: 0, operable: 0, understandable: 0, robust: 0 };
+    const byRule: Record<string, number> = {};
+
+    for (const issue of issues) {
+      bySeverity[issue.severity]++;
+
+      if (issue.wcag?.principle) {
+        byPrinciple[issue.wcag.principle]++;
+      }
+
+      byRule[issue.ruleId] = (byRule[issue.ruleId] ?? 0) + 1;
+    }
+
+    return {
+      total: issues.length,
+      bySeverity,
+      byPrinciple,
+      byRule,
+      byViewport: Object.fromEntries(renders.map((render) => [render.name, render.issueCount])),
+    };
+  }
+}
+
+/**
+ * Runs in the page. Measures the document width, the elements that stick out
+ * past the right edge, containers that hide text with overflow, and the
+ * boxes of text nodes for the overlap check.
+ */
+function inspectLayout(
+  twoDimensionalSelector: string,
+  maxElements: number,
+  maxTextBoxes: number
+): PageLayout {
+  const root = document.documentElement;
+  const body = document.body;
+  const viewportWidth = root.clientWidth;
+  const documentWidth = Math.max(root.scrollWidth, body?.scrollWidth ?? 0);
+  const HIDING = ['hidden', 'clip'];
+
+  const selectorOf = (window as unknown as SelectorWindow).__a11ySelectorOf;
+
+  function boxOf(rect: DOMRect) {
+    return {
+      x: rect.left + window.scrollX,
+      y: rect.top + window.scrollY,
+      width: rect.width,
+      height: rect.height,
+    };
+  }
+
+  function isVisible(el: Element): boolean {
+    const style = window.getComputedStyle(el);
+    return style.visibility !== 'hidden' && style.display !== 'none';
+  }
+
+  /** Content inside a scroll or clip container does not widen the document. */
+  function insideOverflowContainer(el: Element): boolean {
+    for (let parent = el.parentElement; parent && parent !== body; parent = parent.parentElement) {
+      if (window.getComputedStyle(parent).overflowX !== 'visible') return true;
+    }
+    return false;
+  }
+
+  const elements = Array.from(body?.querySelectorAll('*') ?? []).filter(
+    (el) => !el.closest('head, script, style, noscript, template') && isVisible(el)
+  );
+
+  const rootStyle = window.getComputedStyle(root);
+  const bodyStyle = body ? window.getComputedStyle(body) : rootStyle;
+  const horizontalScroll =
+    documentWidth > viewportWidth + 1 &&
+    !HIDING.includes(rootStyle.overflowX) &&
+    !HIDING.includes(bodyStyle.overflowX);
+
+  const overflowing: OverflowingElement[] = [];
+  if (horizontalScroll) {
+    for (const el of elements) {
+      if (overflowing.length >= maxElements) break;
+
+      const rect = el.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0 || rect.right <= viewportWidth + 1) continue;
+      if (insideOverflowContainer(el)) continue;
+
+      const parentRect = el.parentElement?.getBoundingClientRect();
+      overflowing.push({
+        selector: selectorOf(el),
+        snippet: el.outerHTML.substring(0, 300),
+        box: boxOf(rect),
+        rootCause:
+          el.parentElement === body || !parentRect || parentRect.right <= viewportWidth + 1,
+        twoDimensional: el.closest(twoDimensionalSelector) !== null,
+      });
+    }
+  }
+
+  const clipped: ClippedElement[] = [];
+  for (const el of [root, ...(body ? [body] : []), ...elements]) {
+    if (clipped.length >= maxElements) break;
+
+    const style = window.getComputedStyle(el);
+    const hidesX = HIDING.includes(style.overflowX);
+    const hidesY = HIDING.includes(style.overflowY);
+    if (!hidesX && !hidesY) continue;
+
+    // Visually hidden text is clipped to 1px on purpose
+    const rect = el.getBoundingClientRect();
+    if (rect.width <= 1 || rect.height <= 1 || !el.textContent?.trim()) continue;
+
+    const hiddenWidth = hidesX ? Math.max(0, el.scrollWidth - el.clientWidth) : 0;
+    const hiddenHeight = hidesY ? Math.max(0, el.scrollHeight - el.clientHeight) : 0;
+    if (hiddenWidth <= 1 && hiddenHeight <= 1) continue;
+
+    clipped.push({
+      selector: el === root ? 'html' : selectorOf(el),
+      snippet: el.outerHTML.substring(0, 300),
+      box: boxOf(rect),
+      hiddenWidth: hiddenWidth > 1 ? hiddenWidth : 0,
+      hiddenHeight: hiddenHeight > 1 ? hiddenHeight : 0,
+      ellipsis: style.textOverflow === 'ellipsis' && hiddenWidth > 1,
+    });
+  }
+
+  const textBoxes: TextBox[] = [];
+  const ids = new Map<Element, number>();
+  for (const el of elements) {
+    if (textBoxes.length >= maxTextBoxes) break;
+    if (el.closest('svg, math')) continue;
+
+    let left = Infinity;
+    let top = Infinity;
+    let right = -Infinity;
+    let bottom = -Infinity;
+
+    for (const node of el.childNodes) {
+      if (node.nodeType !== Node.TEXT_NODE || !node.textContent?.trim()) continue;
+      const range = document.createRange();
+      range.selectNodeContents(node);
+      const rect = range.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) continue;
+      left = Math.min(left, rect.left);
+      top = Math.min(top, rect.top);
+      right = Math.max(right, rect.right);
+      bottom = Math.max(bottom, rect.bottom);
+    }
+
+    if (right <= left || bottom <= top) continue;
+
+    const ancestors: number[] = [];
+    for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+      const id = ids.get(parent);
+      if (id !== undefined) ancestors.push(id);
+    }
+
+    const id = textBoxes.length;
+    ids.set(el, id);
+    textBoxes.push({
+      id,
+      selector: selectorOf(el),
+      snippet: el.outerHTML.substring(0, 300),
+      box: boxOf(new DOMRect(left, top, right - left, bottom - top)),
+      ancestors,
+    });
+  }
+
+  return { viewportWidth, documentWidth, horizontalScroll, overflowing, clipped, textBoxes };
+}
+
+/** Runs in the page. Adds the WCAG 1.4.12 text spacing stylesheet. */
+function applyTextSpacing(id: string, css: string): void {
+  const style = document.createElement('style');
+  style.id = id;
+  style.textContent = css;
+  (document.head ?? document.documentElement).appendChild(style);
+}
+
+/** Runs in the page. Removes the text spacing stylesheet again. */
+function removeTextSpacing(id: string): void {
+  document.getElementById(id)?.remove();
+}
+
+/** Runs in the page. Returns the document position of each selector's element. */
+function measureBoxes(selectors: string[]): Array<BoundingBox | null> {
+  return selectors.map((selector) => {
+    const rect = document.querySelector(selector)?.getBoundingClientRect();
+    return rect
+      ? {
+          x: rect.left + window.scrollX,
+          y: rect.top + window.scrollY,
+          width: rect.width,
+          height: rect.height,
+        }
+      : null;
+  });
+}
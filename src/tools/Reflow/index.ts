@@ -0,0 +1,8 @@
+export { analyzeReflowTool, disposeReflowAdapter } from './main.js';
+export {
+  ReflowAdapter,
+  type ReflowAdapterConfig,
+  type ReflowAdapterOptions,
+} from './adapters/index.js';
+export * from './types/index.js';
+export * from './utils/index.js';
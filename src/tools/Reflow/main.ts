@@ -0,0 +1,150 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ReflowAdapter } from './adapters/index.js';
+import { ReflowToolInputSchema, type ReflowToolInput } from './types/index.js';
+import { buildAnalysisTarget, buildAnalysisOptions, formatOutput } from './utils/index.js';
+import { getAdapterSettings } from '@/shared/config/index.js';
+import {
+  type ToolContent,
+  type ToolDefinition,
+  type ToolResponse,
+  createErrorResponse,
+  createFormattedResponse,
+  withToolContext,
+} from '../Base/index.js';
+import { ReflowToolMcpInputSchema } from './types/input.type.js';
+
+let sharedAdapter: ReflowAdapter | null = null;
+let currentIgnoreHTTPS = false;
+
+function getAdapter(ignoreHTTPSErrors = false): ReflowAdapter {
+  if (!sharedAdapter || currentIgnoreHTTPS !== ignoreHTTPSErrors) {
+    if (sharedAdapter) {
+      sharedAdapter.dispose().catch(() => {});
+    }
+    sharedAdapter = new ReflowAdapter({
+      headless: true,
+      timeout: getAdapterSettings('reflow-analyzer').timeout ?? 30000,
+      ignoreHTTPSErrors,
+    });
+    currentIgnoreHTTPS = ignoreHTTPSErrors;
+  }
+  return sharedAdapter;
+}
+
+async function disposeAdapter(): Promise<void> {
+  if (sharedAdapter) {
+    await sharedAdapter.dispose();
+    sharedAdapter = null;
+  }
+}
+
+process.on('SIGINT', () => {
+  disposeAdapter().finally(() => process.exit(0));
+});
+
+process.on('SIGTERM', () => {
+  disposeAdapter().finally(() => process.exit(0));
+});
+
+const handleReflowAnalysis = withToolContext<ReflowToolInput>(
+  'analyze-reflow',
+  async (input, context): Promise<ToolResponse> => {
+    const target = buildAnalysisTarget(input);
+    const options = buildAnalysisOptions(input);
+    const ignoreHTTPSErrors = target.options?.ignoreHTTPSErrors ?? false;
+
+    context.logger.debug('Building analysis configuration', {
+      hasUrl: !!input.url,
+      hasHtml: !!input.html,
+      wcagLevel: options.wcagLevel,
+      zoomLevels: options.zoomLevels,
+      reflowWidth: options.reflowWidth,
+      checkReflow: options.checkReflow,
+      checkTextSpacing: options.checkTextSpacing,
+      ignoreHTTPSErrors,
+    });
+
+    const adapter = getAdapter(ignoreHTTPSErrors);
+
+    const isAvailable = await adapter.isAvailable();
+    if (!isAvailable) {
+      return createErrorResponse(
+        new Error('Reflow adapter is not available. Browser may have failed to launch.')
+      );
+    }
+
+    context.logger.info('Starting reflow analysis', {
+      targetType: target.type,
+      target: target.type === 'url' ? target.value : '[html content]',
+      wcagLevel: options.wcagLevel,
+    });
+
+    const result = await adapter.analyze(target, options);
+
+    if (!result.success) {
+      context.logger.warn('Analysis completed with errors', {
+        error: result.error,
+      });
+    }
+
+    context.recordHistory(target, result);
+    const output = formatOutput(result);
+    return createFormattedResponse(result, output, input.options?.outputFormat);
+  }
+);
+
+export const analyzeReflowTool: ToolDefinition = {
+  name: 'analyze-reflow',
+  description: `Check that a web page stays readable when zoomed and on narrow screens (WCAG 1.4.4 Resize Text, 1.4.10 Reflow and 1.4.12 Text Spacing).
+
+Renders the page at 320 CSS pixels wide and at 200% and 400% browser zoom, then reports horizontal scrolling, elements that stick out past the viewport, text cut off by overflow: hidden, and text that overlaps other text. It also applies the 1.4.12 text spacing overrides (line height 1.5, paragraph spacing 2em, letter spacing 0.12em, word spacing 0.16em) at the normal viewport and compares element geometry before and after. Clipping and overlaps that already exist at the normal viewport are not reported.
+
+Input options
+- url: URL of the page to analyze
+- html: Raw HTML content to analyze (alternative to url)
+- options.wcagLevel: WCAG level to check (A, AA, AAA). All three criteria are Level AA, so nothing is reported at A. Default: project config, else AA
+- options.zoomLevels: Zoom levels in percent, emulated on the base viewport. Up to 200% is checked against 1.4.4, above against 1.4.10. Default: [200, 400]
+- options.reflowWidth: Viewport width in CSS pixels for the reflow render. Default: 320
+- options.checkReflow: Render the page at reflowWidth in addition to the zoom levels. Default: true
+- options.checkTextSpacing: Apply the text spacing overrides at the base viewport. Default: true
+- options.browser.waitForSelector: CSS selector to wait for before analysis
+- options.browser.viewport: Base viewport, treated as 100% zoom. Default: 1280x720
+- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors. Default: project config, else false
+- options.browser.authentication: Cookies, localStorage, headers, basic auth or a login script for protected pages (secrets are redacted from output)
+- options.browser.actions: Interactions run after every page load (click, hover, focus, type, press, scroll, wait, select)
+- options.outputFormat: Response format, "json", "sarif" (SARIF 2.1.0), "junit" (JUnit XML) or "tap" (TAP 13). Default: json
+
+Output
+- issues: Normalized accessibility issues (tool: reflow-analyzer), each with the render it was found in as viewport. Text spacing issues include geometry with the before and after bounding boxes
+- renders: Each render with its size, device scale factor, zoom, criterion, document width, whether it scrolls horizontally and its issue count
+- summary: Issue counts by severity, principle, rule and render (byViewport)
+
+WCAG Criteria
+- 1.4.4 Resize Text - Level AA (clipped-content, overlapping-text at up to 200% zoom)
+- 1.4.10 Reflow - Level AA (horizontal-scroll, content-overflow, clipped-content, overlapping-text at reflowWidth and above 200% zoom)
+- 1.4.12 Text Spacing - Level AA (clipped-content, overlapping-text with the text spacing overrides)`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      ReflowToolMcpInputSchema.shape,
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
+        const parseResult = ReflowToolInputSchema.safeParse(input);
+
+        if (!parseResult.success) {
+          const errors = parseResult.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; ');
+          const response = createErrorResponse(new Error(`Invalid input: ${errors}`));
+          return { content: response.content };
+        }
+
+        const response = await handleReflowAnalysis(parseResult.data, extra);
+        return { content: response.content };
+      }
+    );
+  },
+};
+
+export { disposeAdapter as disposeReflowAdapter };
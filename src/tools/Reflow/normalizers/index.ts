@@ -0,0 +1 @@
+export * from './reflow.normalizer.js';
@@ -0,0 +1,48 @@
+import { BaseNormalizer, type NormalizerContext } from '@/shared/normalizers/base.js';
+import type { AccessibilityIssue } from '@/shared/types/accessibility.js';
+import {
+  REFLOW_CRITERIA,
+  REFLOW_RULES,
+  type ReflowFinding,
+  type ReflowIssue,
+} from '../types/index.js';
+
+export class ReflowNormalizer extends BaseNormalizer<ReflowFinding[]> {
+  normalize(findings: ReflowFinding[], context: NormalizerContext): ReflowIssue[] {
+    return findings.map((finding) => this.normalizeFinding(finding, context));
+  }
+
+  private normalizeFinding(finding: ReflowFinding, context: NormalizerContext): ReflowIssue {
+    const rule = REFLOW_RULES[finding.ruleId];
+    const criterion = REFLOW_CRITERIA[finding.criterion];
+
+    const baseIssue = {
+      id: `${finding.render}:${this.generateIssueId('reflow-analyzer', finding.ruleId, finding.selector)}`,
+      ruleId: finding.ruleId,
+      tool: 'reflow-analyzer' as const,
+      severity: rule.severity,
+      wcag: {
+        criterion: finding.criterion,
+        level: criterion.level,
+        principle: 'perceivable' as const,
+        version: '2.1' as const,
+        title: criterion.title,
+      },
+      location: {
+        selector: finding.selector,
+        snippet: finding.snippet?.substring(0, 500),
+        file: context.targetFile,
+      },
+      message: finding.detail ? `${rule.message}: ${finding.detail}` : rule.message,
+      confidence: rule.confidence,
+      viewport: finding.render,
+    };
+
+    return {
+      ...(this.enrichWithHumanContext(baseIssue) as AccessibilityIssue),
+      ...(finding.geometry && { geometry: finding.geometry }),
+    };
+  }
+}
+
+export const reflowNormalizer = new ReflowNormalizer();
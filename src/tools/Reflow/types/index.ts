@@ -0,0 +1,2 @@
+export * from './reflow.type.js';
+export * from './reflow.maps.js';
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { BaseToolInputSchema, OutputFormatSchema } from '@/tools/Base/types/base.types.js';
+import { WCAGLevelSchema } from '@/shared/types/accessibility.js';
+import { ReflowBrowserOptionsSchema, ReflowWidthSchema, ZoomLevelsSchema } from './reflow.type.js';
+
+export const ReflowToolMcpInputSchema = BaseToolInputSchema.extend({
+  options: z
+    .object({
+      wcagLevel: WCAGLevelSchema.optional().describe('WCAG conformance level to check'),
+      zoomLevels: ZoomLevelsSchema.optional(),
+      reflowWidth: ReflowWidthSchema.optional(),
+      checkReflow: z
+        .boolean()
+        .optional()
+        .describe('Render the page at reflowWidth in addition to the zoom levels'),
+      checkTextSpacing: z
+        .boolean()
+        .optional()
+        .describe('Apply the WCAG 1.4.12 text spacing overrides at the base viewport'),
+      outputFormat: OutputFormatSchema.default('json'),
+      browser: ReflowBrowserOptionsSchema.optional(),
+    })
+    .optional(),
+});
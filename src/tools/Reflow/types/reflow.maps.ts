@@ -0,0 +1,75 @@
+import type { Severity, WCAGLevel } from '@/shared/types/accessibility.js';
+import type { ReflowCriterion, ReflowRuleId } from './reflow.type.js';
+
+export interface ReflowRule {
+  severity: Severity;
+  confidence: number;
+  message: string;
+  /**
+   * Criteria the rule applies to; horizontal scrolling is allowed at 200% zoom
+   * and is left to 1.4.10 when text spacing is overridden
+   */
+  criteria: ReflowCriterion[];
+}
+
+export const REFLOW_CRITERIA: Record<ReflowCriterion, { title: string; level: WCAGLevel }> = {
+  '1.4.4': { title: 'Resize Text', level: 'AA' },
+  '1.4.10': { title: 'Reflow', level: 'AA' },
+  '1.4.12': { title: 'Text Spacing', level: 'AA' },
+};
+
+export const REFLOW_RULES: Record<ReflowRuleId, ReflowRule> = {
+  'horizontal-scroll': {
+    severity: 'serious',
+    confidence: 0.9,
+    message: 'Page scrolls horizontally instead of reflowing into a single column',
+    criteria: ['1.4.10'],
+  },
+  'content-overflow': {
+    severity: 'moderate',
+    confidence: 0.8,
+    message: 'Element extends beyond the viewport and forces horizontal scrolling',
+    criteria: ['1.4.10'],
+  },
+  'clipped-content': {
+    severity: 'serious',
+    confidence: 0.7,
+    message: 'Text is cut off by overflow: hidden and cannot be read',
+    criteria: ['1.4.4', '1.4.10', '1.4.12'],
+  },
+  'overlapping-text': {
+    severity: 'serious',
+    confidence: 0.6,
+    message: 'Text overlaps other text',
+    criteria: ['1.4.4', '1.4.10', '1.4.12'],
+  },
+};
+
+/**
+ * Containers whose content needs two-dimensional layout, which WCAG 1.4.10
+ * allows to scroll in both directions.
+ */
+export const TWO_DIMENSIONAL_SELECTOR = [
+  'table',
+  'pre',
+  'canvas',
+  'video',
+  'iframe',
+  'svg',
+  'math',
+  '[role="grid"]',
+  '[role="treegrid"]',
+  '[role="application"]',
+].join(', ');
+
+/** Minimum spacing that content must tolerate under WCAG 1.4.12 */
+export const TEXT_SPACING_CSS = `
+* {
+  line-height: 1.5 !important;
+  letter-spacing: 0.12em !important;
+  word-spacing: 0.16em !important;
+}
+p {
+  margin-bottom: 2em !important;
+}
+`;
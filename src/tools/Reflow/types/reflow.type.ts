@@ -0,0 +1,185 @@
+import { z } from 'zod';
+import {
+  AccessibilityIssueSchema,
+  AnalysisResultSchema,
+  WCAGLevelSchema,
+  type AnalysisResult,
+} from '@/shared/types/accessibility.js';
+import {
+  BackgroundSchema,
+  BrowserOptionsSchema,
+  OutputFormatSchema,
+} from '@/tools/Base/types/base.types.js';
+
+export const ReflowBrowserOptionsSchema = BrowserOptionsSchema.omit({
+  states: true,
+  viewports: true,
+});
+
+export const ZoomLevelsSchema = z
+  .array(z.number().int().min(110).max(500))
+  .min(1)
+  .max(4)
+  .describe('Zoom levels in percent to render the page at, e.g. [200, 400]');
+
+export const ReflowWidthSchema = z
+  .number()
+  .int()
+  .min(240)
+  .max(1280)
+  .describe('Viewport width in CSS pixels for the reflow check (WCAG 1.4.10 uses 320)');
+
+export const ReflowToolInputSchema = z
+  .object({
+    url: z.string().url().optional().describe('URL of the page to analyze'),
+    html: z.string().min(1).optional().describe('Raw HTML content to analyze'),
+    background: BackgroundSchema,
+    options: z
+      .object({
+        wcagLevel: WCAGLevelSchema.optional().describe(
+          'WCAG conformance level to check. 1.4.4, 1.4.10 and 1.4.12 are Level AA, so nothing is reported at A'
+        ),
+        zoomLevels: ZoomLevelsSchema.optional(),
+        reflowWidth: ReflowWidthSchema.optional(),
+        checkReflow: z
+          .boolean()
+          .optional()
+          .describe('Render the page at reflowWidth in addition to the zoom levels'),
+        checkTextSpacing: z
+          .boolean()
+          .optional()
+          .describe('Apply the WCAG 1.4.12 text spacing overrides at the base viewport'),
+        outputFormat: OutputFormatSchema.default('json'),
+        browser: ReflowBrowserOptionsSchema.optional(),
+      })
+      .optional(),
+  })
+  .refine((data) => data.url !== undefined || data.html !== undefined, {
+    message: 'Either url or html must be provided',
+  })
+  .refine((data) => !(data.url !== undefined && data.html !== undefined), {
+    message: 'Provide either url or html, not both',
+  })
+  .describe('Input for reflow, zoom and text spacing analysis');
+
+export const BoundingBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+});
+
+export const GeometryChangeSchema = z
+  .object({
+    before: BoundingBoxSchema.describe('Position and size without the text spacing overrides'),
+    after: BoundingBoxSchema.describe('Position and size with the text spacing overrides'),
+  })
+  .describe('Element geometry before and after the text spacing overrides');
+
+export const ReflowIssueSchema = AccessibilityIssueSchema.extend({
+  geometry: GeometryChangeSchema.optional(),
+}).describe('Accessibility issue with the element geometry for text spacing findings');
+
+export const ReflowRenderSchema = z
+  .object({
+    name: z
+      .string()
+      .describe('Render label used on issues, e.g. "reflow-320", "zoom-200" or "text-spacing"'),
+    width: z.number().int().positive().describe('Viewport width in CSS pixels'),
+    height: z.number().int().positive().describe('Viewport height in CSS pixels'),
+    deviceScaleFactor: z.number().positive(),
+    zoom: z.number().int().positive().optional().describe('Emulated zoom level in percent'),
+    criterion: z
+      .enum(['1.4.4', '1.4.10', '1.4.12'])
+      .describe('WCAG criterion checked in this render'),
+    documentWidth: z.number().nonnegative().describe('Scroll width of the document'),
+    horizontalScroll: z.boolean().describe('Whether the document scrolls horizontally'),
+    issueCount: z.number().int().nonnegative(),
+  })
+  .describe('Page render at a reduced viewport width, emulated zoom level or with text spacing');
+
+export const ReflowAnalysisResultSchema = AnalysisResultSchema.extend({
+  issues: z.array(ReflowIssueSchema).describe('List of reflow, zoom and text spacing issues'),
+  renders: z.array(ReflowRenderSchema).describe('Renders checked, in order'),
+}).describe('Result of a reflow, zoom and text spacing analysis');
+
+export type ReflowToolInput = z.infer<typeof ReflowToolInputSchema>;
+export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
+export type GeometryChange = z.infer<typeof GeometryChangeSchema>;
+export type ReflowIssue = z.infer<typeof ReflowIssueSchema>;
+export type ReflowRender = z.infer<typeof ReflowRenderSchema>;
+export type ReflowAnalysisResult = z.infer<typeof ReflowAnalysisResultSchema>;
+export type ReflowCriterion = ReflowRender['criterion'];
+
+export type ReflowRuleId =
+  | 'horizontal-scroll'
+  | 'content-overflow'
+  | 'clipped-content'
+  | 'overlapping-text';
+
+export interface RenderPlan {
+  name: string;
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  zoom?: number | undefined;
+  criterion: ReflowCriterion;
+}
+
+export interface LayoutElement {
+  selector: string;
+  snippet: string;
+  box: BoundingBox;
+}
+
+export interface OverflowingElement extends LayoutElement {
+  /** Extends past the right edge while its parent does not */
+  rootCause: boolean;
+  /** Inside a table, preformatted text, media or another two-dimensional container */
+  twoDimensional: boolean;
+}
+
+export interface ClippedElement extends LayoutElement {
+  hiddenWidth: number;
+  hiddenHeight: number;
+  ellipsis: boolean;
+}
+
+export interface TextBox extends LayoutElement {
+  id: number;
+  /** Ids of the text boxes that contain this one */
+  ancestors: number[];
+}
+
+export interface PageLayout {
+  viewportWidth: number;
+  documentWidth: number;
+  /** Wider than the viewport, and not hidden by overflow on the root or body */
+  horizontalScroll: boolean;
+  overflowing: OverflowingElement[];
+  clipped: ClippedElement[];
+  textBoxes: TextBox[];
+}
+
+export interface ReflowFinding {
+  ruleId: ReflowRuleId;
+  criterion: ReflowCriterion;
+  render: string;
+  selector: string;
+  snippet?: string | undefined;
+  detail?: string | undefined;
+  /** Position of the element in the render */
+  box?: BoundingBox | undefined;
+  geometry?: GeometryChange | undefined;
+}
+
+export interface ReflowToolOutput {
+  success: boolean;
+  target: string;
+  issueCount: number;
+  issues: ReflowIssue[];
+  summary: AnalysisResult['summary'];
+  renders: ReflowRender[];
+  duration?: number | undefined;
+  error?: string | undefined;
+}
@@ -0,0 +1 @@
+export * from './reflow.utils.js';
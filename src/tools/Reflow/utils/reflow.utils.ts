@@ -0,0 +1,318 @@
+import type { AnalysisTarget } from '@/shared/types/analysis.js';
+import type { WCAGLevel } from '@/shared/types/accessibility.js';
+import type { EmulatedViewport } from '@/shared/types/viewport.js';
+import { applyProjectTarget, getIgnoredRules, resolveWcagLevel } from '@/shared/config/index.js';
+import {
+  REFLOW_RULES,
+  type BoundingBox,
+  type PageLayout,
+  type ReflowAnalysisResult,
+  type ReflowFinding,
+  type ReflowToolInput,
+  type ReflowToolOutput,
+  type RenderPlan,
+  type TextBox,
+} from '../types/index.js';
+
+export const DEFAULT_ZOOM_LEVELS = [200, 400];
+export const DEFAULT_REFLOW_WIDTH = 320;
+export const DEFAULT_BASE_VIEWPORT: EmulatedViewport = { width: 1280, height: 720 };
+
+const REFLOW_HEIGHT_PX = 640;
+const OVERLAP_MIN_PX = 2;
+const OVERLAP_MIN_RATIO = 0.2;
+const MAX_FINDINGS_PER_RULE = 20;
+
+export interface ReflowBuildOptions {
+  wcagLevel: WCAGLevel;
+  zoomLevels: number[];
+  reflowWidth: number;
+  checkReflow: boolean;
+  checkTextSpacing: boolean;
+  excludeRules?: string[] | undefined;
+}
+
+export function buildAnalysisTarget(input: ReflowToolInput): AnalysisTarget {
+  if (input.url) {
+    return applyProjectTarget({
+      type: 'url',
+      value: input.url,
+      options: {
+        waitForSelector: input.options?.browser?.waitForSelector,
+        timeout: input.options?.browser?.waitForTimeout,
+        viewport: input.options?.browser?.viewport,
+        ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+        authentication: input.options?.browser?.authentication,
+        actions: input.options?.browser?.actions,
+      },
+    });
+  }
+
+  return applyProjectTarget({
+    type: 'html',
+    value: input.html!,
+    options: {
+      waitForSelector: input.options?.browser?.waitForSelector,
+      timeout: input.options?.browser?.waitForTimeout,
+      viewport: input.options?.browser?.viewport,
+      ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+      authentication: input.options?.browser?.authentication,
+      actions: input.options?.browser?.actions,
+    },
+  });
+}
+
+export function buildAnalysisOptions(input: ReflowToolInput): ReflowBuildOptions {
+  const options: ReflowBuildOptions = {
+    wcagLevel: input.options?.wcagLevel ?? resolveWcagLevel(input.url),
+    zoomLevels: input.options?.zoomLevels ?? DEFAULT_ZOOM_LEVELS,
+    reflowWidth: input.options?.reflowWidth ?? DEFAULT_REFLOW_WIDTH,
+    checkReflow: input.options?.checkReflow ?? true,
+    checkTextSpacing: input.options?.checkTextSpacing ?? true,
+  };
+  const ignoredRules = getIgnoredRules('reflow-analyzer', input.url).map((rule) => rule.ruleId);
+  if (ignoredRules.length > 0) {
+    options.excludeRules = ignoredRules;
+  }
+  return options;
+}
+
+export function formatOutput(result: ReflowAnalysisResult): ReflowToolOutput {
+  return {
+    success: result.success,
+    target: result.target,
+    issueCount: result.issues.length,
+    issues: result.issues,
+    summary: result.summary,
+    renders: result.renders,
+    duration: result.duration,
+    error: result.error,
+  };
+}
+
+/**
+ * Browser zoom shrinks the CSS viewport and raises the device pixel ratio by
+ * the same factor, so zoom is emulated on the base viewport that way. Zoom up
+ * to 200% is checked against 1.4.4, larger zoom and the narrow render against
+ * 1.4.10.
+ */
+export function planRenders(
+  base: EmulatedViewport,
+  options: Pick<ReflowBuildOptions, 'zoomLevels' | 'reflowWidth' | 'checkReflow'>
+): RenderPlan[] {
+  const renders: RenderPlan[] = [];
+
+  if (options.checkReflow) {
+    renders.push({
+      name: `reflow-${options.reflowWidth}`,
+      width: options.reflowWidth,
+      height: REFLOW_HEIGHT_PX,
+      deviceScaleFactor: 1,
+      criterion: '1.4.10',
+    });
+  }
+
+  for (const zoom of [...new Set(options.zoomLevels)].sort((a, b) => a - b)) {
+    const scale = zoom / 100;
+    renders.push({
+      name: `zoom-${zoom}`,
+      width: Math.max(1, Math.round(base.width / scale)),
+      height: Math.max(1, Math.round(base.height / scale)),
+      deviceScaleFactor: (base.deviceScaleFactor ?? 1) * scale,
+      zoom,
+      criterion: zoom <= 200 ? '1.4.4' : '1.4.10',
+    });
+  }
+
+  return renders;
+}
+
+/**
+ * Text spacing is checked on the base viewport, without reloading, by
+ * comparing the layout before and after the overrides are applied.
+ */
+export function planTextSpacing(base: EmulatedViewport): RenderPlan {
+  return {
+    name: 'text-spacing',
+    width: base.width,
+    height: base.height,
+    deviceScaleFactor: base.deviceScaleFactor ?? 1,
+    criterion: '1.4.12',
+  };
+}
+
+/** Pairs each finding with where its element was before the text spacing overrides. */
+export function withGeometry(
+  findings: ReflowFinding[],
+  before: Array<BoundingBox | null>
+): ReflowFinding[] {
+  return findings.map((item, index) => {
+    const box = before[index];
+    return box && item.box ? { ...item, geometry: { before: box, after: item.box } } : item;
+  });
+}
+
+function finding(
+  ruleId: ReflowFinding['ruleId'],
+  render: RenderPlan,
+  element: { selector: string; snippet?: string | undefined; box?: BoundingBox | undefined },
+  detail?: string
+): ReflowFinding {
+  return {
+    ruleId,
+    criterion: render.criterion,
+    render: render.name,
+    selector: element.selector,
+    snippet: element.snippet,
+    ...(detail && { detail }),
+    ...(element.box && { box: element.box }),
+  };
+}
+
+/**
+ * Scrolling caused only by tables, code blocks, media and other
+ * two-dimensional content is allowed by 1.4.10 and not reported.
+ */
+export function findHorizontalScroll(layout: PageLayout, render: RenderPlan): ReflowFinding[] {
+  if (!layout.horizontalScroll) {
+    return [];
+  }
+
+  const causes = layout.overflowing.filter((element) => element.rootCause);
+  if (causes.length > 0 && causes.every((element) => element.twoDimensional)) {
+    return [];
+  }
+
+  return [
+    finding(
+      'horizontal-scroll',
+      render,
+      { selector: 'html' },
+      `the page is ${Math.round(layout.documentWidth)}px wide in a ${layout.viewportWidth}px viewport`
+    ),
+  ];
+}
+
+export function findContentOverflow(layout: PageLayout, render: RenderPlan): ReflowFinding[] {
+  if (!layout.horizontalScroll) {
+    return [];
+  }
+
+  return layout.overflowing
+    .filter((element) => element.rootCause && !element.twoDimensional)
+    .slice(0, MAX_FINDINGS_PER_RULE)
+    .map((element) =>
+      finding(
+        'content-overflow',
+        render,
+        element,
+        `${Math.round(element.box.x + element.box.width - layout.viewportWidth)}px past the right edge`
+      )
+    );
+}
+
+/** Only reports elements that are not already clipped at the base viewport. */
+export function findClippedContent(
+  layout: PageLayout,
+  baseline: PageLayout,
+  render: RenderPlan
+): ReflowFinding[] {
+  const clippedBefore = new Set(baseline.clipped.map((element) => element.selector));
+
+  return layout.clipped
+    .filter((element) => !clippedBefore.has(element.selector))
+    .slice(0, MAX_FINDINGS_PER_RULE)
+    .map((element) => {
+      const hidden = [
+        element.hiddenWidth > 0 && `${Math.round(element.hiddenWidth)}px hidden horizontally`,
+        element.hiddenHeight > 0 && `${Math.round(element.hiddenHeight)}px hidden vertically`,
+        element.ellipsis && 'truncated with an ellipsis',
+      ].filter(Boolean);
+      return finding('clipped-content', render, element, hidden.join(', '));
+    });
+}
+
+function overlapArea(a: BoundingBox, b: BoundingBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > OVERLAP_MIN_PX && height > OVERLAP_MIN_PX ? width * height : 0;
+}
+
+function overlaps(a: TextBox, b: TextBox): boolean {
+  if (a.ancestors.includes(b.id) || b.ancestors.includes(a.id)) {
+    return false;
+  }
+  const area = overlapArea(a.box, b.box);
+  const smaller = Math.min(a.box.width * a.box.height, b.box.width * b.box.height);
+  return area > 0 && area >= smaller * OVERLAP_MIN_RATIO;
+}
+
+function findOverlapPairs(textBoxes: TextBox[]): Array<[TextBox, TextBox]> {
+  const pairs: Array<[TextBox, TextBox]> = [];
+
+  for (let i = 0; i < textBoxes.length; i++) {
+    for (let j = i + 1; j < textBoxes.length; j++) {
+      if (overlaps(textBoxes[i]!, textBoxes[j]!)) {
+        pairs.push([textBoxes[i]!, textBoxes[j]!]);
+      }
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Reports text that overlaps other text, skipping pairs that already overlap
+ * at the base viewport such as badges placed over a label on purpose.
+ */
+export function findOverlappingText(
+  layout: PageLayout,
+  baseline: PageLayout,
+  render: RenderPlan
+): ReflowFinding[] {
+  const pairKey = (a: TextBox, b: TextBox) => [a.selector, b.selector].sort().join('|');
+  const overlappingBefore = new Set(
+    findOverlapPairs(baseline.textBoxes).map(([a, b]) => pairKey(a, b))
+  );
+
+  return findOverlapPairs(layout.textBoxes)
+    .filter(([a, b]) => !overlappingBefore.has(pairKey(a, b)))
+    .slice(0, MAX_FINDINGS_PER_RULE)
+    .map(([first, second]) =>
+      finding('overlapping-text', render, second, `overlaps ${first.selector}`)
+    );
+}
+
+export function detectReflowIssues(
+  layout: PageLayout,
+  baseline: PageLayout,
+  render: RenderPlan,
+  options: Pick<ReflowBuildOptions, 'wcagLevel' | 'excludeRules'>
+): ReflowFinding[] {
+  if (options.wcagLevel === 'A') {
+    return [];
+  }
+
+  const findings = [
+    ...findHorizontalScroll(layout, render),
+    ...findContentOverflow(layout, render),
+    ...findClippedContent(layout, baseline, render),
+    ...findOverlappingText(layout, baseline, render),
+  ];
+
+  const excluded = new Set(options.excludeRules ?? []);
+  const seen = new Set<string>();
+
+  return findings.filter((item) => {
+    const key = `${item.ruleId}:${item.selector}`;
+    if (
+      excluded.has(item.ruleId) ||
+      !REFLOW_RULES[item.ruleId].criteria.includes(render.criterion) ||
+      seen.has(key)
+    ) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
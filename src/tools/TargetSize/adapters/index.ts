@@ -0,0 +1 @@
+export * from './target-size.adapter.js';
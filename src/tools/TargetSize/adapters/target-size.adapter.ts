@@ -0,0 +1,302 @@
+import type { Page } from 'puppeteer';
+import type { AnalysisTarget } from '@/shared/types/analysis.js';
+import type { WCAGLevel } from '@/shared/types/accessibility.js';
+import { createAdapterLogger } from '@/shared/utils/logger.js';
+import { collectTargetSecrets, redactSecrets } from '@/shared/utils/redact.js';
+import {
+  closeTargetPage,
+  openTargetPage,
+  resolveAuthSession,
+} from '@/shared/browser/authentication.js';
+import { loadTarget } from '@/shared/browser/navigation.js';
+import { installSelectorHelper, type SelectorWindow } from '@/shared/browser/selectors.js';
+import {
+  getBrowserPool,
+  type BrowserLaunchOptions,
+  type BrowserLease,
+} from '@/shared/browser/pool.js';
+import { toPageViewport } from '@/shared/browser/viewports.js';
+import { targetSizeNormalizer } from '../normalizers/index.js';
+import {
+  TARGET_SELECTOR,
+  type InteractiveTarget,
+  type TargetSizeAnalysisResult,
+  type TargetSizeIssue,
+  type TargetSizeSummary,
+  type TargetStats,
+} from '../types/index.js';
+import { countTargets, detectTargetSizeIssues } from '../utils/index.js';
+
+export interface TargetSizeAdapterConfig {
+  timeout?: number;
+  headless?: boolean;
+  browserArgs?: string[];
+  ignoreHTTPSErrors?: boolean;
+}
+
+export interface TargetSizeAdapterOptions {
+  wcagLevel?: WCAGLevel;
+  selector?: string | undefined;
+  excludeRules?: string[] | undefined;
+}
+
+export class TargetSizeAdapter {
+  readonly name = 'target-size-analyzer';
+  readonly version = '1.0.0';
+
+  private config: TargetSizeAdapterConfig;
+  private logger: ReturnType<typeof createAdapterLogger>;
+
+  constructor(config: TargetSizeAdapterConfig = {}) {
+    this.config = {
+      timeout: 30000,
+      headless: true,
+      browserArgs: ['--no-sandbox', '--disable-setuid-sandbox'],
+      ...config,
+    };
+    this.logger = createAdapterLogger('TargetSizeAdapter');
+  }
+
+  async analyze(
+    target: AnalysisTarget,
+    options?: TargetSizeAdapterOptions
+  ): Promise<TargetSizeAnalysisResult> {
+    const startTime = Date.now();
+    let page: Page | null = null;
+    let lease: BrowserLease | null = null;
+    let pageTarget = target;
+
+    try {
+      this.logger.info('Starting target size analysis', { target: target.value });
+
+      pageTarget = await resolveAuthSession(target, {
+        timeout: this.config.timeout,
+        ignoreHTTPSErrors: this.config.ignoreHTTPSErrors,
+      });
+      lease = await getBrowserPool().acquire(this.launchOptions());
+      page = await openTargetPage(lease.browser, pageTarget);
+
+      if (target.options?.viewport) {
+        await page.setViewport(toPageViewport(target.options.viewport));
+      }
+
+      const snapshot = await loadTarget(page, pageTarget, this.config.timeout);
+      await installSelectorHelper(page);
+      const targets = await page.evaluate(collectTargets, TARGET_SELECTOR, options?.selector);
+
+      const findings = detectTargetSizeIssues(targets, {
+        wcagLevel: options?.wcagLevel ?? 'AA',
+        excludeRules: options?.excludeRules,
+      });
+      const issues = targetSizeNormalizer.normalize(findings, {
+        tool: 'target-size-analyzer',
+        targetUrl: target.type === 'url' ? target.value : undefined,
+        targetFile: target.type === 'file' ? target.value : undefined,
+      });
+      const stats = countTargets(targets);
+
+      const duration = Date.now() - startTime;
+      this.logger.info('Target size analysis completed', {
+        issueCount: issues.length,
+        ...stats,
+        duration,
+      });
+
+      return redactSecrets(
+        {
+          ...this.buildSuccessResult(target.value, issues, stats, duration),
+          snapshots: [snapshot],
+        },
+        collectTargetSecrets(pageTarget)
+      );
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error('Target size analysis failed', {
+        error: error as Error,
+        target: target.value,
+      });
+
+      return redactSecrets(
+        this.buildErrorResult(target.value, error, duration),
+        collectTargetSecrets(pageTarget)
+      );
+    } finally {
+      if (page) {
+        await closeTargetPage(page);
+      }
+      await lease?.release();
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return await getBrowserPool().isAvailable(this.launchOptions());
+  }
+
+  async dispose(): Promise<void> {
+    await getBrowserPool().closeIdle(this.launchOptions());
+  }
+
+  private launchOptions(): BrowserLaunchOptions {
+    return {
+      headless: this.config.headless,
+      args: this.config.browserArgs,
+      ignoreHTTPSErrors: this.config.ignoreHTTPSErrors,
+    };
+  }
+
+  private buildSuccessResult(
+    target: string,
+    issues: TargetSizeIssue[],
+    targets: TargetStats,
+    duration: number
+  ): TargetSizeAnalysisResult {
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration,
+      target,
+      tool: 'target-size-analyzer',
+      issues,
+      summary: { ...this.calculateSummary(issues), targets },
+    };
+  }
+
+  private buildErrorResult(
+    target: string,
+    error: unknown,
+    duration: number
+  ): TargetSizeAnalysisResult {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    return {
+      success: false,
+      timestamp: new Date().toISOString(),
+      duration,
+      target,
+      tool: 'target-size-analyzer',
+      issues: [],
+      summary: {
+        total: 0,
+        bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+      },
+      error: errorMessage,
+    };
+  }
+
+  private calculateSummary(issues: TargetSizeIssue[]): TargetSizeSummary {
+    const bySeverity = { critical: 0, serious: 0, moderate: 0, minor: 0 };
+    const byPrinciple = { perceivable: 0, operable: 0, understandable: 0, robust: 0 };
+    const byRule: Record<string, number> = {};
+
+    for (const issue of issues) {
+      bySeverity[issue.severity]++;
+
+      if (issue.wcag?.principle) {
+        byPrinciple[issue.wcag.principle]++;
+      }
+
+      byRule[issue.ruleId] = (byRule[issue.ruleId] ?? 0) + 1;
+    }
+
+    return {
+      total: issues.length,
+      bySeverity,
+      byPrinciple,
+      byRule,
+    };
+  }
+}
+
+/**
+ * Runs in the page. Measures every visible, enabled target. Checkboxes and
+ * radio buttons include their labels, since clicking the label operates them.
+ */
+function collectTargets(targetSelector: string, scopeSelector?: string): InteractiveTarget[] {
+  const root = scopeSelector ? document.querySelector(scopeSelector) : document.body;
+  if (!root) return [];
+
+  const selectorOf = (window as unknown as SelectorWindow).__a11ySelectorOf;
+
+  function isOperable(el: Element): boolean {
+    if (el.closest('[inert], [aria-hidden="true"]') || (el as HTMLButtonElement).disabled) {
+      return false;
+    }
+    if (el.getAttribute('aria-disabled') === 'true') return false;
+    const style = window.getComputedStyle(el);
+    return style.visibility !== 'hidden' && style.pointerEvents !== 'none';
+  }
+
+  /** A link inside a sentence is sized by the line height of the text around it. */
+  function isInline(el: Element): boolean {
+    if (window.getComputedStyle(el).display !== 'inline' || !el.parentElement) return false;
+    const own = el.textContent?.trim().length ?? 0;
+    return (el.parentElement.textContent?.trim().length ?? 0) > own;
+  }
+
+  function isUserAgentControl(el: Element): boolean {
+    return (
+      el instanceof HTMLInputElement &&
+      (el.type === 'checkbox' || el.type === 'radio') &&
+      window.getComputedStyle(el).appearance !== 'none'
+    );
+  }
+
+  function boxOf(el: Element): DOMRect {
+    const rect = el.getBoundingClientRect();
+    const labels = el instanceof HTMLInputElement ? Array.from(el.labels ?? []) : [];
+    let { left, top, right, bottom } = rect;
+
+    for (const label of labels) {
+      const labelRect = label.getBoundingClientRect();
+      if (labelRect.width === 0 || labelRect.height === 0) continue;
+      left = Math.min(left, labelRect.left);
+      top = Math.min(top, labelRect.top);
+      right = Math.max(right, labelRect.right);
+      bottom = Math.max(bottom, labelRect.bottom);
+    }
+
+    return new DOMRect(left, top, right - left, bottom - top);
+  }
+
+  const targets: InteractiveTarget[] = [];
+  const ids = new Map<Element, number>();
+
+  for (const el of root.querySelectorAll(targetSelector)) {
+    if (!isOperable(el)) continue;
+
+    const rect = boxOf(el);
+    // Visually hidden elements, such as skip links before they receive focus
+    if (rect.width <= 1 || rect.height <= 1) continue;
+    if (rect.right + window.scrollX < 0 || rect.bottom + window.scrollY < 0) continue;
+
+    const ancestors: number[] = [];
+    for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+      const id = ids.get(parent);
+      if (id !== undefined) ancestors.push(id);
+    }
+
+    const exemption = isUserAgentControl(el)
+      ? 'user-agent-control'
+      : isInline(el)
+        ? 'inline'
+        : undefined;
+    const id = targets.length;
+    ids.set(el, id);
+    targets.push({
+      id,
+      selector: selectorOf(el),
+      snippet: el.outerHTML.substring(0, 300),
+      tagName: el.tagName.toLowerCase(),
+      box: {
+        x: rect.left + window.scrollX,
+        y: rect.top + window.scrollY,
+        width: rect.width,
+        height: rect.height,
+      },
+      ancestors,
+      ...(exemption && { exemption }),
+    });
+  }
+
+  return targets;
+}
@@ -0,0 +1,8 @@
+export { analyzeTargetSizeTool, disposeTargetSizeAdapter } from './main.js';
+export {
+  TargetSizeAdapter,
+  type TargetSizeAdapterConfig,
+  type TargetSizeAdapterOptions,
+} from './adapters/index.js';
+export * from './types/index.js';
+export * from './utils/index.js';
@@ -0,0 +1,166 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { TargetSizeAdapter } from './adapters/index.js';
+import { TargetSizeToolInputSchema, type TargetSizeToolInput } from './types/index.js';
+import {
+  buildAnalysisTarget,
+  buildAnalysisOptions,
+  formatOutput,
+  mergeTargetSizeSummaries,
+} from './utils/index.js';
+import { analyzeInStates, analyzeInViewports } from '@/shared/browser/index.js';
+import { getAdapterSettings } from '@/shared/config/index.js';
+import {
+  type ToolContent,
+  type ToolDefinition,
+  type ToolResponse,
+  createErrorResponse,
+  createFormattedResponse,
+  withToolContext,
+} from '../Base/index.js';
+import { TargetSizeToolMcpInputSchema } from './types/input.type.js';
+
+let sharedAdapter: TargetSizeAdapter | null = null;
+let currentIgnoreHTTPS = false;
+
+function getAdapter(ignoreHTTPSErrors = false): TargetSizeAdapter {
+  if (!sharedAdapter || currentIgnoreHTTPS !== ignoreHTTPSErrors) {
+    if (sharedAdapter) {
+      sharedAdapter.dispose().catch(() => {});
+    }
+    sharedAdapter = new TargetSizeAdapter({
+      headless: true,
+      timeout: getAdapterSettings('target-size-analyzer').timeout ?? 30000,
+      ignoreHTTPSErrors,
+    });
+    currentIgnoreHTTPS = ignoreHTTPSErrors;
+  }
+  return sharedAdapter;
+}
+
+async function disposeAdapter(): Promise<void> {
+  if (sharedAdapter) {
+    await sharedAdapter.dispose();
+    sharedAdapter = null;
+  }
+}
+
+process.on('SIGINT', () => {
+  disposeAdapter().finally(() => process.exit(0));
+});
+
+process.on('SIGTERM', () => {
+  disposeAdapter().finally(() => process.exit(0));
+});
+
+const handleTargetSizeAnalysis = withToolContext<TargetSizeToolInput>(
+  'analyze-target-size',
+  async (input, context): Promise<ToolResponse> => {
+    const target = buildAnalysisTarget(input);
+    const options = buildAnalysisOptions(input);
+    const ignoreHTTPSErrors = target.options?.ignoreHTTPSErrors ?? false;
+
+    context.logger.debug('Building analysis configuration', {
+      hasUrl: !!input.url,
+      hasHtml: !!input.html,
+      wcagLevel: options.wcagLevel,
+      selector: options.selector,
+      ignoreHTTPSErrors,
+    });
+
+    const adapter = getAdapter(ignoreHTTPSErrors);
+
+    const isAvailable = await adapter.isAvailable();
+    if (!isAvailable) {
+      return createErrorResponse(
+        new Error('Target size adapter is not available. Browser may have failed to launch.')
+      );
+    }
+
+    context.logger.info('Starting target size analysis', {
+      targetType: target.type,
+      target: target.type === 'url' ? target.value : '[html content]',
+      wcagLevel: options.wcagLevel,
+    });
+
+    const result = await analyzeInViewports(
+      target,
+      (viewportTarget, onProgress) =>
+        analyzeInStates(
+          viewportTarget,
+          (stateTarget) => adapter.analyze(stateTarget, options),
+          mergeTargetSizeSummaries,
+          onProgress
+        ),
+      mergeTargetSizeSummaries,
+      context.reportProgress
+    );
+
+    if (!result.success) {
+      context.logger.warn('Analysis completed with errors', {
+        error: result.error,
+      });
+    }
+
+    context.recordHistory(target, result);
+    const output = formatOutput(result);
+    return createFormattedResponse(result, output, input.options?.outputFormat);
+  }
+);
+
+export const analyzeTargetSizeTool: ToolDefinition = {
+  name: 'analyze-target-size',
+  description: `Measure the rendered size of every interactive element on a web page against the WCAG pointer target sizes.
+
+Collects links, buttons, form controls and elements with interactive roles, click handlers or tabindex, measures their boxes (checkboxes and radio buttons together with their labels), and reports targets smaller than 24×24 CSS pixels that are not spaced apart enough, and at level AAA targets smaller than 44×44 CSS pixels. Each failure includes the measured size, the distance to the nearest other target and the suggested minimum dimensions.
+
+Input options
+- url: URL of the page to analyze
+- html: Raw HTML content to analyze (alternative to url)
+- options.wcagLevel: WCAG level to check (A, AA, AAA). Nothing is checked at level A; 2.5.5 is only checked at AAA. Default: project config, else AA
+- options.selector: CSS selector to limit the analysis to part of the page
+- options.browser.waitForSelector: CSS selector to wait for before analysis
+- options.browser.viewport: Browser viewport dimensions
+- options.browser.ignoreHTTPSErrors: Ignore SSL certificate errors. Default: project config, else false
+- options.browser.authentication: Cookies, localStorage, headers, basic auth or a login script for protected pages (secrets are redacted from output)
+- options.browser.actions: Interactions run before measuring (click, hover, focus, type, press, scroll, wait, select)
+- options.browser.states: Named UI states, each with its own actions; issues are tagged with the state and counted in summary.byState
+- options.browser.viewports: Viewports to analyze in one call, as presets ("mobile", "tablet", "desktop") or { name, preset, width, height, deviceScaleFactor, isMobile, hasTouch } (max 6); issues are tagged with the viewport and viewportSpecific, and counted in summary.byViewport, summary.viewportSpecific and summary.allViewports
+- options.outputFormat: Response format, "json", "sarif" (SARIF 2.1.0), "junit" (JUnit XML) or "tap" (TAP 13). Default: json
+
+Output
+- issues: Normalized accessibility issues (tool: target-size-analyzer), each with targetSize: width, height, required size, nearestDistance and suggestedSize
+- summary: Issue counts by severity, principle and rule, and targets: targets checked, undersized and exempt
+
+Exemptions
+- Links inside a sentence or block of text
+- Checkboxes and radio buttons drawn by the browser without custom styling
+- Targets whose 24px circle does not overlap any other target (2.5.8 spacing exception)
+
+WCAG Criteria
+- 2.5.8 Target Size (Minimum) - Level AA (target-size-minimum)
+- 2.5.5 Target Size (Enhanced) - Level AAA (target-size-enhanced)`,
+
+  register(server: McpServer): void {
+    server.tool(
+      this.name,
+      this.description,
+      TargetSizeToolMcpInputSchema.shape,
+      async (input, extra): Promise<{ content: ToolContent[] }> => {
+        const parseResult = TargetSizeToolInputSchema.safeParse(input);
+
+        if (!parseResult.success) {
+          const errors = parseResult.error.errors
+            .map((e) => `${e.path.join('.')}: ${e.message}`)
+            .join('; ');
+          const response = createErrorResponse(new Error(`Invalid input: ${errors}`));
+          return { content: response.content };
+        }
+
+        const response = await handleTargetSizeAnalysis(parseResult.data, extra);
+        return { content: response.content };
+      }
+    );
+  },
+};
+
+export { disposeAdapter as disposeTargetSizeAdapter };
@@ -0,0 +1 @@
+export * from './target-size.normalizer.js';
@@ -0,0 +1,44 @@
+import { BaseNormalizer, type NormalizerContext } from '@/shared/normalizers/base.js';
+import type { AccessibilityIssue } from '@/shared/types/accessibility.js';
+import { TARGET_SIZE_RULES, type TargetSizeFinding, type TargetSizeIssue } from '../types/index.js';
+
+export class TargetSizeNormalizer extends BaseNormalizer<TargetSizeFinding[]> {
+  normalize(findings: TargetSizeFinding[], context: NormalizerContext): TargetSizeIssue[] {
+    return findings.map((finding) => this.normalizeFinding(finding, context));
+  }
+
+  private normalizeFinding(
+    finding: TargetSizeFinding,
+    context: NormalizerContext
+  ): TargetSizeIssue {
+    const rule = TARGET_SIZE_RULES[finding.ruleId];
+
+    const baseIssue = {
+      id: this.generateIssueId('target-size-analyzer', finding.ruleId, finding.selector),
+      ruleId: finding.ruleId,
+      tool: 'target-size-analyzer' as const,
+      severity: rule.severity,
+      wcag: {
+        criterion: rule.criterion,
+        level: rule.level,
+        principle: 'operable' as const,
+        version: rule.version,
+        title: rule.title,
+      },
+      location: {
+        selector: finding.selector,
+        snippet: finding.snippet?.substring(0, 500),
+        file: context.targetFile,
+      },
+      message: finding.detail ? `${rule.message}: ${finding.detail}` : rule.message,
+      confidence: rule.confidence,
+    };
+
+    return {
+      ...(this.enrichWithHumanContext(baseIssue) as AccessibilityIssue),
+      targetSize: finding.measurement,
+    };
+  }
+}
+
+export const targetSizeNormalizer = new TargetSizeNormalizer();
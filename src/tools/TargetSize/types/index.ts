@@ -0,0 +1,2 @@
+export * from './target-size.type.js';
+export * from './target-size.maps.js';
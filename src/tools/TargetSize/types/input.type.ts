@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import {
+  BaseToolInputSchema,
+  BrowserOptionsSchema,
+  OutputFormatSchema,
+} from '@/tools/Base/types/base.types.js';
+import { WCAGLevelSchema } from '@/shared/types/accessibility.js';
+
+export const TargetSizeToolMcpInputSchema = BaseToolInputSchema.extend({
+  options: z
+    .object({
+      wcagLevel: WCAGLevelSchema.optional().describe('WCAG conformance level to check'),
+      selector: z
+        .string()
+        .optional()
+        .describe('CSS selector to limit the analysis to a specific element'),
+      outputFormat: OutputFormatSchema.default('json'),
+      browser: BrowserOptionsSchema.optional(),
+    })
+    .optional(),
+});
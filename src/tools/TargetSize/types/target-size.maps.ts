@@ -0,0 +1,61 @@
+import type { Severity, WCAGLevel } from '@/shared/types/accessibility.js';
+import type { TargetSizeRuleId } from './target-size.type.js';
+
+export const MINIMUM_TARGET_PX = 24;
+export const ENHANCED_TARGET_PX = 44;
+
+export interface TargetSizeRule {
+  criterion: string;
+  title: string;
+  level: WCAGLevel;
+  version: '2.1' | '2.2';
+  severity: Severity;
+  confidence: number;
+  message: string;
+  required: number;
+}
+
+export const TARGET_SIZE_RULES: Record<TargetSizeRuleId, TargetSizeRule> = {
+  'target-size-minimum': {
+    criterion: '2.5.8',
+    title: 'Target Size (Minimum)',
+    level: 'AA',
+    version: '2.2',
+    severity: 'serious',
+    confidence: 0.8,
+    message: `Target is smaller than ${MINIMUM_TARGET_PX} by ${MINIMUM_TARGET_PX} CSS pixels and too close to other targets`,
+    required: MINIMUM_TARGET_PX,
+  },
+  'target-size-enhanced': {
+    criterion: '2.5.5',
+    title: 'Target Size (Enhanced)',
+    level: 'AAA',
+    version: '2.1',
+    severity: 'minor',
+    confidence: 0.8,
+    message: `Target is smaller than ${ENHANCED_TARGET_PX} by ${ENHANCED_TARGET_PX} CSS pixels`,
+    required: ENHANCED_TARGET_PX,
+  },
+};
+
+export const TARGET_SELECTOR = [
+  'a[href]',
+  'button',
+  'input:not([type="hidden"])',
+  'select',
+  'textarea',
+  'summary',
+  '[role="button"]',
+  '[role="checkbox"]',
+  '[role="link"]',
+  '[role="menuitem"]',
+  '[role="menuitemcheckbox"]',
+  '[role="menuitemradio"]',
+  '[role="option"]',
+  '[role="radio"]',
+  '[role="slider"]',
+  '[role="switch"]',
+  '[role="tab"]',
+  '[onclick]',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import {
+  AccessibilityIssueSchema,
+  AnalysisResultSchema,
+  AnalysisSummarySchema,
+  WCAGLevelSchema,
+} from '@/shared/types/accessibility.js';
+import {
+  BackgroundSchema,
+  BrowserOptionsSchema,
+  OutputFormatSchema,
+} from '@/tools/Base/types/base.types.js';
+
+export const TargetSizeToolInputSchema = z
+  .object({
+    url: z.string().url().optional().describe('URL of the page to analyze'),
+    html: z.string().min(1).optional().describe('Raw HTML content to analyze'),
+    background: BackgroundSchema,
+    options: z
+      .object({
+        wcagLevel: WCAGLevelSchema.optional().describe(
+          'WCAG conformance level to check. 2.5.8 is checked at AA, 2.5.5 only at AAA'
+        ),
+        selector: z
+          .string()
+          .optional()
+          .describe('CSS selector to limit the analysis to a specific element'),
+        outputFormat: OutputFormatSchema.default('json'),
+        browser: BrowserOptionsSchema.optional(),
+      })
+      .optional(),
+  })
+  .refine((data) => data.url !== undefined || data.html !== undefined, {
+    message: 'Either url or html must be provided',
+  })
+  .refine((data) => !(data.url !== undefined && data.html !== undefined), {
+    message: 'Provide either url or html, not both',
+  })
+  .describe('Input for target size analysis');
+
+export const BoundingBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+});
+
+export const TargetMeasurementSchema = z
+  .object({
+    width: z.number().nonnegative().describe('Rendered width in CSS pixels'),
+    height: z.number().nonnegative().describe('Rendered height in CSS pixels'),
+    required: z.number().int().positive().describe('Minimum size for the criterion: 24 or 44'),
+    nearestDistance: z
+      .number()
+      .nonnegative()
+      .nullable()
+      .describe('Edge-to-edge distance to the nearest other target, null without other targets'),
+    suggestedSize: z
+      .object({
+        width: z.number().int().positive(),
+        height: z.number().int().positive(),
+      })
+      .describe('Smallest size that meets the criterion without relying on spacing'),
+  })
+  .describe('Size and spacing of a target');
+
+export const TargetSizeIssueSchema = AccessibilityIssueSchema.extend({
+  targetSize: TargetMeasurementSchema,
+}).describe('Accessibility issue with target size measurements');
+
+export const TargetStatsSchema = z
+  .object({
+    checked: z.number().int().nonnegative().describe('Interactive targets measured'),
+    undersized: z
+      .number()
+      .int()
+      .nonnegative()
+      .describe('Targets smaller than 24 by 24 CSS pixels, including those with enough spacing'),
+    exempt: z
+      .number()
+      .int()
+      .nonnegative()
+      .describe('Inline links and unstyled browser controls, which the criteria exempt'),
+  })
+  .describe('Target counts');
+
+export const TargetSizeAnalysisResultSchema = AnalysisResultSchema.extend({
+  issues: z.array(TargetSizeIssueSchema).describe('List of target size issues found'),
+  summary: AnalysisSummarySchema.extend({ targets: TargetStatsSchema.optional() }),
+}).describe('Result of a target size analysis');
+
+export type TargetSizeToolInput = z.infer<typeof TargetSizeToolInputSchema>;
+export type BoundingBox = z.infer<typeof BoundingBoxSchema>;
+export type TargetMeasurement = z.infer<typeof TargetMeasurementSchema>;
+export type TargetSizeIssue = z.infer<typeof TargetSizeIssueSchema>;
+export type TargetStats = z.infer<typeof TargetStatsSchema>;
+export type TargetSizeAnalysisResult = z.infer<typeof TargetSizeAnalysisResultSchema>;
+export type TargetSizeSummary = TargetSizeAnalysisResult['summary'];
+
+export type TargetSizeRuleId = 'target-size-minimum' | 'target-size-enhanced';
+
+export type TargetExemption = 'inline' | 'user-agent-control';
+
+export interface InteractiveTarget {
+  id: number;
+  selector: string;
+  snippet: string;
+  tagName: string;
+  /** Element box, joined with the boxes of its labels for checkboxes and radio buttons */
+  box: BoundingBox;
+  /** Ids of the targets that contain this one */
+  ancestors: number[];
+  exemption?: TargetExemption | undefined;
+}
+
+export interface TargetSizeFinding {
+  ruleId: TargetSizeRuleId;
+  selector: string;
+  snippet?: string | undefined;
+  detail?: string | undefined;
+  measurement: TargetMeasurement;
+}
+
+export interface TargetSizeToolOutput {
+  success: boolean;
+  target: string;
+  issueCount: number;
+  issues: TargetSizeIssue[];
+  summary: TargetSizeSummary;
+  duration?: number | undefined;
+  error?: string | undefined;
+}
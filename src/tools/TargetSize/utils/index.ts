@@ -0,0 +1 @@
+export * from './target-size.utils.js';
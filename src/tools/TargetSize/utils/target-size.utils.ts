@@ -0,0 +1,245 @@
+import type { AnalysisTarget } from '@/shared/types/analysis.js';
+import type { WCAGLevel } from '@/shared/types/accessibility.js';
+import { applyProjectTarget, getIgnoredRules, resolveWcagLevel } from '@/shared/config/index.js';
+import { mergeAnalysisSummaries } from '@/shared/browser/states.js';
+import {
+  ENHANCED_TARGET_PX,
+  MINIMUM_TARGET_PX,
+  TARGET_SIZE_RULES,
+  type BoundingBox,
+  type InteractiveTarget,
+  type TargetMeasurement,
+  type TargetSizeAnalysisResult,
+  type TargetSizeFinding,
+  type TargetSizeRuleId,
+  type TargetSizeSummary,
+  type TargetSizeToolInput,
+  type TargetSizeToolOutput,
+  type TargetStats,
+} from '../types/index.js';
+
+export interface TargetSizeBuildOptions {
+  wcagLevel: WCAGLevel;
+  selector?: string | undefined;
+  excludeRules?: string[] | undefined;
+}
+
+export function buildAnalysisTarget(input: TargetSizeToolInput): AnalysisTarget {
+  if (input.url) {
+    return applyProjectTarget({
+      type: 'url',
+      value: input.url,
+      options: {
+        waitForSelector: input.options?.browser?.waitForSelector,
+        timeout: input.options?.browser?.waitForTimeout,
+        viewport: input.options?.browser?.viewport,
+        ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+        authentication: input.options?.browser?.authentication,
+        actions: input.options?.browser?.actions,
+        states: input.options?.browser?.states,
+        viewports: input.options?.browser?.viewports,
+      },
+    });
+  }
+
+  return applyProjectTarget({
+    type: 'html',
+    value: input.html!,
+    options: {
+      waitForSelector: input.options?.browser?.waitForSelector,
+      timeout: input.options?.browser?.waitForTimeout,
+      viewport: input.options?.browser?.viewport,
+      ignoreHTTPSErrors: input.options?.browser?.ignoreHTTPSErrors,
+      authentication: input.options?.browser?.authentication,
+      actions: input.options?.browser?.actions,
+      states: input.options?.browser?.states,
+      viewports: input.options?.browser?.viewports,
+    },
+  });
+}
+
+export function buildAnalysisOptions(input: TargetSizeToolInput): TargetSizeBuildOptions {
+  const options: TargetSizeBuildOptions = {
+    wcagLevel: input.options?.wcagLevel ?? resolveWcagLevel(input.url),
+    selector: input.options?.selector,
+  };
+  const ignoredRules = getIgnoredRules('target-size-analyzer', input.url).map(
+    (rule) => rule.ruleId
+  );
+  if (ignoredRules.length > 0) {
+    options.excludeRules = ignoredRules;
+  }
+  return options;
+}
+
+export function formatOutput(result: TargetSizeAnalysisResult): TargetSizeToolOutput {
+  return {
+    success: result.success,
+    target: result.target,
+    issueCount: result.issues.length,
+    issues: result.issues,
+    summary: result.summary,
+    duration: result.duration,
+    error: result.error,
+  };
+}
+
+export function mergeTargetSizeSummaries(summaries: TargetSizeSummary[]): TargetSizeSummary {
+  const merged: TargetSizeSummary = mergeAnalysisSummaries(summaries);
+
+  for (const summary of summaries) {
+    if (summary.targets) {
+      merged.targets ??= { checked: 0, undersized: 0, exempt: 0 };
+      merged.targets.checked += summary.targets.checked;
+      merged.targets.undersized += summary.targets.undersized;
+      merged.targets.exempt += summary.targets.exempt;
+    }
+  }
+
+  return merged;
+}
+
+export function isUndersized(box: BoundingBox, size: number): boolean {
+  return box.width < size || box.height < size;
+}
+
+function center(box: BoundingBox): { x: number; y: number } {
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+function distanceToBox(point: { x: number; y: number }, box: BoundingBox): number {
+  const dx = Math.max(box.x - point.x, 0, point.x - (box.x + box.width));
+  const dy = Math.max(box.y - point.y, 0, point.y - (box.y + box.height));
+  return Math.hypot(dx, dy);
+}
+
+export function edgeDistance(a: BoundingBox, b: BoundingBox): number {
+  const dx = Math.max(0, b.x - (a.x + a.width), a.x - (b.x + b.width));
+  const dy = Math.max(0, b.y - (a.y + a.height), a.y - (b.y + b.height));
+  return Math.hypot(dx, dy);
+}
+
+function isNested(a: InteractiveTarget, b: InteractiveTarget): boolean {
+  return a.ancestors.includes(b.id) || b.ancestors.includes(a.id);
+}
+
+function others(target: InteractiveTarget, targets: InteractiveTarget[]): InteractiveTarget[] {
+  return targets.filter((other) => other.id !== target.id && !isNested(target, other));
+}
+
+/**
+ * The 2.5.8 spacing exception: a 24px circle centred on the undersized target
+ * must not intersect another target, nor the circle of another undersized
+ * target.
+ */
+export function hasEnoughSpacing(target: InteractiveTarget, targets: InteractiveTarget[]): boolean {
+  const radius = MINIMUM_TARGET_PX / 2;
+  const origin = center(target.box);
+
+  return others(target, targets).every((other) =>
+    isUndersized(other.box, MINIMUM_TARGET_PX)
+      ? Math.hypot(origin.x - center(other.box).x, origin.y - center(other.box).y) >=
+        MINIMUM_TARGET_PX
+      : distanceToBox(origin, other.box) >= radius
+  );
+}
+
+export function nearestDistance(
+  target: InteractiveTarget,
+  targets: InteractiveTarget[]
+): number | null {
+  const distances = others(target, targets).map((other) => edgeDistance(target.box, other.box));
+  return distances.length > 0 ? Math.min(...distances) : null;
+}
+
+function measure(
+  target: InteractiveTarget,
+  targets: InteractiveTarget[],
+  required: number
+): TargetMeasurement {
+  const distance = nearestDistance(target, targets);
+
+  return {
+    width: Math.round(target.box.width * 10) / 10,
+    height: Math.round(target.box.height * 10) / 10,
+    required,
+    nearestDistance: distance === null ? null : Math.round(distance * 10) / 10,
+    suggestedSize: {
+      width: Math.max(required, Math.ceil(target.box.width)),
+      height: Math.max(required, Math.ceil(target.box.height)),
+    },
+  };
+}
+
+function toFinding(
+  ruleId: TargetSizeRuleId,
+  target: InteractiveTarget,
+  targets: InteractiveTarget[]
+): TargetSizeFinding {
+  const measurement = measure(target, targets, TARGET_SIZE_RULES[ruleId].required);
+  const size = `${measurement.width}×${measurement.height}px`;
+
+  return {
+    ruleId,
+    selector: target.selector,
+    snippet: target.snippet,
+    detail:
+      measurement.nearestDistance === null
+        ? size
+        : `${size}, nearest target ${measurement.nearestDistance}px away`,
+    measurement,
+  };
+}
+
+export function findMinimumSizeFailures(targets: InteractiveTarget[]): TargetSizeFinding[] {
+  return targets
+    .filter(
+      (target) =>
+        !target.exemption &&
+        isUndersized(target.box, MINIMUM_TARGET_PX) &&
+        !hasEnoughSpacing(target, targets)
+    )
+    .map((target) => toFinding('target-size-minimum', target, targets));
+}
+
+export function findEnhancedSizeFailures(targets: InteractiveTarget[]): TargetSizeFinding[] {
+  return targets
+    .filter((target) => !target.exemption && isUndersized(target.box, ENHANCED_TARGET_PX))
+    .map((target) => toFinding('target-size-enhanced', target, targets));
+}
+
+export function countTargets(targets: InteractiveTarget[]): TargetStats {
+  return {
+    checked: targets.length,
+    undersized: targets.filter(
+      (target) => !target.exemption && isUndersized(target.box, MINIMUM_TARGET_PX)
+    ).length,
+    exempt: targets.filter((target) => target.exemption).length,
+  };
+}
+
+export function detectTargetSizeIssues(
+  targets: InteractiveTarget[],
+  options: Pick<TargetSizeBuildOptions, 'wcagLevel' | 'excludeRules'>
+): TargetSizeFinding[] {
+  if (options.wcagLevel === 'A') {
+    return [];
+  }
+
+  const findings = [
+    ...findMinimumSizeFailures(targets),
+    ...(options.wcagLevel === 'AAA' ? findEnhancedSizeFailures(targets) : []),
+  ];
+
+  const excluded = new Set(options.excludeRules ?? []);
+  const seen = new Set<string>();
+
+  return findings.filter((finding) => {
+    const key = `${finding.ruleId}:${finding.selector}`;
+    if (excluded.has(finding.ruleId) || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
@@ -1,6 +1,18 @@
 export * from './Base/index.js';
 export { analyzeWithAxeTool, disposeAxeAdapter } from './Axe/index.js';
 export { analyzeWithPa11yTool, disposePa11yAdapter } from './Pa11y/index.js';
-export { analyzeMixedTool, disposeAnalyzeMixedAdapters } from './AnalyzeMixed/index.js';
+export { analyzeMixedTool } from './AnalyzeMixed/index.js';
 export { analyzeContrastTool, disposeContrastAdapter } from './Contrast/index.js';
+export { analyzeKeyboardTool, disposeKeyboardAdapter } from './Keyboard/index.js';
+export {
+  inspectAccessibilityTreeTool,
+  disposeAccessibilityTreeAdapter,
+} from './AccessibilityTree/index.js';
+export { analyzeReflowTool, disposeReflowAdapter } from './Reflow/index.js';
+export { analyzeTargetSizeTool, disposeTargetSizeAdapter } from './TargetSize/index.js';
+export { analyzePaletteTool } from './Palette/index.js';
 export { analyzeWithLighthouseTool, disposeLighthouseAdapter } from './Lighthouse/index.js';
+export { analyzeSiteTool } from './AnalyzeSite/index.js';
+export { saveBaselineTool, compareToBaselineTool } from './Baseline/index.js';
+export { getJobStatusTool, getJobResultTool } from './Jobs/index.js';
+export { listHistoryRunsTool, getHistoryRunTool, getHistoryTrendTool } from './History/index.js';
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const mockBrowser = {
+  connected: true,
+  wsEndpoint: vi.fn().mockReturnValue('ws://127.0.0.1:9222/devtools'),
+  newPage: vi.fn().mockResolvedValue({ goto: vi.fn(), close: vi.fn() }),
+  close: vi.fn().mockResolvedValue(undefined),
+  on: vi.fn(),
+};
+
+vi.mock('puppeteer', () => ({
+  default: { launch: vi.fn().mockResolvedValue(mockBrowser) },
+}));
+
+const mockLighthouseResult = {
+  lhr: {
+    categories: {
+      accessibility: {
+        score: 0.92,
+        auditRefs: [{ id: 'image-alt', weight: 10 }],
+      },
+    },
+    audits: {
+      'image-alt': {
+        id: 'image-alt',
+        title: 'Image elements do not have [alt] attributes',
+        description: 'Informative images should have alt text.',
+        score: 0,
+        scoreDisplayMode: 'binary',
+        details: { items: [{ node: { selector: 'img', snippet: '<img src="test.jpg">' } }] },
+      },
+    },
+    lighthouseVersion: '13.0.0',
+    userAgent: 'HeadlessChrome/120.0',
+    finalDisplayedUrl: 'https://example.com/',
+  },
+};
+
+vi.mock('lighthouse', () => ({ default: vi.fn().mockResolvedValue(mockLighthouseResult) }));
+
+const { recordAnalysisHistory } = await import('../../src/shared/history/store.js');
+const { runCli, isCliInvocation } = await import('../../src/cli/main.js');
+
+describe('accessibility-hub CLI', () => {
+  let stdout: string;
+  let stderr: string;
+
+  beforeEach(() => {
+    stdout = '';
+    stderr = '';
+    vi.spyOn(process.stdout, 'write').mockImplementation((chunk: unknown, callback?: unknown) => {
+      stdout += String(chunk);
+      if (typeof callback === 'function') callback();
+      return true;
+    });
+    vi.spyOn(process.stderr, 'write').mockImplementation((chunk: unknown) => {
+      stderr += String(chunk);
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should leave only empty arguments and serve to the MCP server', () => {
+    expect(isCliInvocation(['axe', 'page.html'])).toBe(true);
+    expect(isCliInvocation(['axee', 'https://example.com'])).toBe(true);
+    expect(isCliInvocation(['--help'])).toBe(true);
+    expect(isCliInvocation([])).toBe(false);
+    expect(isCliInvocation(['serve'])).toBe(false);
+  });
+
+  it('should print help and exit with code 0', async () => {
+    await expect(runCli(['--help'])).resolves.toBe(0);
+    expect(stdout).toContain('Usage: accessibility-hub <command> <target> [options]');
+  });
+
+  it('should exit with code 2 for unknown commands and invalid options', async () => {
+    await expect(runCli(['wave', 'https://example.com'])).resolves.toBe(2);
+    expect(stderr).toContain('Unknown command: wave');
+
+    await expect(runCli(['axe', 'https://example.com', '--wcag-level', 'AAAA'])).resolves.toBe(2);
+    expect(stderr).toContain('Validation failed');
+  });
+
+  it('should require a URL for lighthouse', async () => {
+    await expect(runCli(['lighthouse', 'README.md'])).resolves.toBe(2);
+    expect(stderr).toContain('The lighthouse command requires a URL target');
+  });
+
+  it('should print the report and pass when thresholds are met', async () => {
+    const exitCode = await runCli([
+      'lighthouse',
+      'https://example.com',
+      '--fail-on',
+      'none',
+      '--min-score',
+      '90',
+    ]);
+
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout).accessibilityScore).toBe(92);
+    expect(recordAnalysisHistory).toHaveBeenCalledWith(
+      'analyze-with-lighthouse',
+      expect.objectContaining({ type: 'url', value: 'https://example.com' }),
+      expect.objectContaining({ tool: 'lighthouse', success: true })
+    );
+  });
+
+  it('should exit with code 1 when the score threshold is not met', async () => {
+    const exitCode = await runCli([
+      'lighthouse',
+      'https://example.com',
+      '--fail-on',
+      'none',
+      '--min-score',
+      '95',
+      '--format',
+      'tap',
+    ]);
+
+    expect(exitCode).toBe(1);
+    expect(stdout).toContain('TAP version 13');
+    expect(stderr).toContain('Lighthouse accessibility score 92 is below 95');
+  });
+});
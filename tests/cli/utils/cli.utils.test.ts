@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Readable } from 'node:stream';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  parseCliArgs,
+  parseList,
+  parseViewport,
+  buildBrowserOptions,
+  resolveFormat,
+  resolveThresholds,
+  resolveTargetInput,
+  findThresholdViolations,
+  resolveExitCode,
+  renderReport,
+} from '../../../src/cli/utils/cli.utils.js';
+import type { CliCommandRun } from '../../../src/cli/types/index.js';
+import type { AccessibilityIssue } from '../../../src/shared/types/accessibility.js';
+
+function createIssue(overrides: Partial<AccessibilityIssue> = {}): AccessibilityIssue {
+  return {
+    id: 'axe-0',
+    ruleId: 'image-alt',
+    tool: 'axe-core',
+    severity: 'serious',
+    wcag: { criterion: '1.1.1', level: 'A', principle: 'perceivable' },
+    location: { selector: 'img.logo' },
+    message: 'Images must have alternate text',
+    ...overrides,
+  };
+}
+
+function createRun(issues: AccessibilityIssue[], overrides: Partial<CliCommandRun> = {}) {
+  const run: CliCommandRun = {
+    result: {
+      success: true,
+      timestamp: '2025-01-15T10:30:00.000Z',
+      target: 'https://example.com',
+      tool: 'axe-core',
+      issues,
+    },
+    output: { success: true, issueCount: issues.length },
+    ...overrides,
+  };
+  return run;
+}
+
+function createStdin(content: string, isTTY = false) {
+  return Object.assign(Readable.from([content]), { isTTY });
+}
+
+describe('parseCliArgs', () => {
+  it('should split the command, target and flags', () => {
+    const parsed = parseCliArgs([
+      'axe',
+      'https://example.com',
+      '-f',
+      'sarif',
+      '--fail-on',
+      'critical',
+      '--ignore-https-errors',
+    ]);
+
+    expect(parsed.command).toBe('axe');
+    expect(parsed.target).toBe('https://example.com');
+    expect(parsed.values.format).toBe('sarif');
+    expect(parsed.values['fail-on']).toBe('critical');
+    expect(parsed.values['ignore-https-errors']).toBe(true);
+  });
+
+  it('should reject unknown flags and extra positionals', () => {
+    expect(() => parseCliArgs(['axe', 'page.html', '--unknown'])).toThrow();
+    expect(() => parseCliArgs(['axe', 'a.html', 'b.html'])).toThrow(/Unexpected arguments/);
+  });
+});
+
+describe('option parsing', () => {
+  it('should parse comma separated lists', () => {
+    expect(parseList('color-contrast, image-alt,,')).toEqual(['color-contrast', 'image-alt']);
+    expect(parseList(undefined)).toBeUndefined();
+  });
+
+  it('should parse viewports', () => {
+    expect(parseViewport('375x667')).toEqual({ width: 375, height: 667 });
+    expect(() => parseViewport('wide')).toThrow(/WIDTHxHEIGHT/);
+  });
+
+  it('should build browser options for the tool schemas', () => {
+    expect(buildBrowserOptions({ 'wait-for-timeout': '500', 'wait-for-selector': '#app' })).toEqual(
+      {
+        waitForSelector: '#app',
+        waitForTimeout: 500,
+        viewport: undefined,
+        ignoreHTTPSErrors: undefined,
+      }
+    );
+    expect(() => buildBrowserOptions({ 'wait-for-timeout': 'soon' })).toThrow(/must be a number/);
+  });
+
+  it('should validate the format and thresholds', () => {
+    expect(resolveFormat({})).toBe('json');
+    expect(resolveFormat({ format: 'markdown' })).toBe('markdown');
+    expect(() => resolveFormat({ format: 'pdf' })).toThrow(/Validation failed/);
+
+    expect(resolveThresholds({})).toEqual({ failOn: 'serious' });
+    expect(resolveThresholds({ 'fail-on': 'none', 'min-score': '90' })).toEqual({
+      failOn: 'none',
+      minScore: 90,
+    });
+    expect(() => resolveThresholds({ 'fail-on': 'blocker' })).toThrow(/Validation failed/);
+  });
+});
+
+describe('resolveTargetInput', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'a11y-cli-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should treat http(s) targets as URLs', async () => {
+    await expect(
+      resolveTargetInput('https://example.com', {}, createStdin('', true))
+    ).resolves.toEqual({ url: 'https://example.com' });
+  });
+
+  it('should read HTML files', async () => {
+    const file = join(dir, 'page.html');
+    await writeFile(file, '<html><body>Hi</body></html>', 'utf-8');
+
+    await expect(resolveTargetInput(file, {}, createStdin('', true))).resolves.toEqual({
+      html: '<html><body>Hi</body></html>',
+    });
+  });
+
+  it('should read HTML from stdin', async () => {
+    await expect(resolveTargetInput('-', {}, createStdin('<p>stdin</p>'))).resolves.toEqual({
+      html: '<p>stdin</p>',
+    });
+    await expect(
+      resolveTargetInput(undefined, { stdin: true }, createStdin('<p>piped</p>'))
+    ).resolves.toEqual({ html: '<p>piped</p>' });
+  });
+
+  it('should report missing targets and files', async () => {
+    await expect(resolveTargetInput(undefined, {}, createStdin('', true))).rejects.toThrow(
+      /Missing target/
+    );
+    await expect(resolveTargetInput(undefined, {}, createStdin('<p>piped</p>'))).rejects.toThrow(
+      /Missing target/
+    );
+    await expect(
+      resolveTargetInput(join(dir, 'missing.html'), {}, createStdin('', true))
+    ).rejects.toThrow(/Could not read HTML file/);
+  });
+});
+
+describe('thresholds', () => {
+  it('should fail on issues at or above the configured severity', () => {
+    const run = createRun([createIssue(), createIssue({ severity: 'minor' })]);
+
+    expect(findThresholdViolations(run, { failOn: 'serious' })).toEqual([
+      '1 issue(s) with severity serious or higher',
+    ]);
+    expect(findThresholdViolations(run, { failOn: 'critical' })).toEqual([]);
+    expect(resolveExitCode(run, { failOn: 'serious' })).toBe(1);
+    expect(resolveExitCode(run, { failOn: 'none' })).toBe(0);
+  });
+
+  it('should fail when the Lighthouse score is below the minimum', () => {
+    const run = createRun([], { score: 84 });
+
+    expect(findThresholdViolations(run, { failOn: 'none', minScore: 90 })).toEqual([
+      'Lighthouse accessibility score 84 is below 90',
+    ]);
+    expect(resolveExitCode(createRun([], { score: 95 }), { failOn: 'none', minScore: 90 })).toBe(0);
+  });
+
+  it('should exit with code 2 when the analysis failed', () => {
+    const run = createRun([]);
+    run.result.success = false;
+
+    expect(resolveExitCode(run, { failOn: 'none' })).toBe(2);
+  });
+});
+
+describe('renderReport', () => {
+  it('should print the tool output as JSON by default', () => {
+    expect(JSON.parse(renderReport(createRun([createIssue()]), 'json'))).toEqual({
+      success: true,
+      issueCount: 1,
+    });
+  });
+
+  it('should render the other formats from the analysis result', () => {
+    const run = createRun([createIssue()]);
+
+    expect(JSON.parse(renderReport(run, 'sarif')).version).toBe('2.1.0');
+    expect(renderReport(run, 'markdown')).toContain('# Accessibility Report');
+    expect(renderReport(run, 'junit')).toContain('<testsuites');
+    expect(renderReport(run, 'tap')).toContain('TAP version 13');
+  });
+});
@@ -325,6 +325,149 @@ export const contrastUIComponentsHtml = `
 </html>
 `;
 
+export const contrastNonTextHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Non-text Contrast</title>
+  <style>
+    body { background: #ffffff; color: #222222; }
+    .input-faint { border: 1px solid #dddddd; background: #ffffff; }
+    .input-strong { border: 1px solid #767676; background: #ffffff; }
+    .toggle { appearance: none; width: 20px; height: 20px; border: 2px solid #e0e0e0; }
+    .ring:focus { outline: 2px solid #cccccc; }
+    #ring-visible:focus { outline: none; }
+    #ring-visible:focus-visible { outline: 2px solid #dddddd; }
+    .chart { width: 200px; height: 120px; }
+  </style>
+</head>
+<body>
+  <main>
+    <form>
+      <label for="faint">Faint</label>
+      <input id="faint" class="input-faint" type="text">
+      <label for="strong">Strong</label>
+      <input id="strong" class="input-strong" type="text">
+      <label><input class="toggle" type="checkbox"> Custom checkbox</label>
+      <label><input type="checkbox" disabled> Disabled checkbox</label>
+      <a class="ring" href="#top">Focusable link</a>
+      <a id="ring-visible" href="#top">Keyboard focus link</a>
+      <button type="button" aria-label="Close">
+        <svg id="close-icon" width="16" height="16" viewBox="0 0 16 16">
+          <path d="M2 2 L14 14 M14 2 L2 14" fill="none" stroke="#eeeeee" stroke-width="2"></path>
+        </svg>
+      </button>
+    </form>
+    <svg class="chart" viewBox="0 0 200 120" role="img" aria-label="Sales by quarter">
+      <rect x="0" y="0" width="200" height="120" fill="#ffffff"></rect>
+      <rect class="bar-faint" x="10" y="40" width="40" height="80" fill="#f0f0f0"></rect>
+      <rect class="bar-strong" x="60" y="20" width="40" height="100" fill="#1f4e79"></rect>
+      <rect class="bar-strong" x="110" y="60" width="40" height="60" fill="#1f4e79"></rect>
+    </svg>
+  </main>
+</body>
+</html>
+`;
+
+export const contrastImageBackgroundHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Text Over Images</title>
+  <style>
+    body { background: #ffffff; margin: 0; }
+    .hero {
+      padding: 40px;
+      background-color: #000000;
+      background-image: linear-gradient(to right, #000000 0%, #000000 50%, #ffffff 50%, #ffffff 100%);
+    }
+    .hero-title { color: #ffffff; font-size: 16px; margin: 0; }
+    .banner { padding: 20px; background: linear-gradient(#f5f5f5, #eeeeee); }
+    .banner-text { color: #ffffff; margin: 0; }
+    .plain { color: #222222; }
+  </style>
+</head>
+<body>
+  <section class="hero"><p class="hero-title">Half on dark, half on light</p></section>
+  <section class="banner"><p class="banner-text">White on a pale gradient</p></section>
+  <p class="plain">Plain text</p>
+</body>
+</html>
+`;
+
+export const contrastTranslucentCardHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Translucent Cards</title>
+  <style>
+    body { background: #1a1a1a; margin: 0; padding: 20px; }
+    .card { background: rgba(255, 255, 255, 0.1); padding: 16px; margin-bottom: 16px; }
+    .card-text { color: #ffffff; margin: 0; }
+    .frosted { background: rgba(255, 255, 255, 0.6); padding: 16px; }
+    .card-muted { color: #767676; margin: 0; }
+  </style>
+</head>
+<body>
+  <div class="card"><p class="card-text">White text on a faint white card</p></div>
+  <div class="frosted"><p class="card-muted">Gray text on a frosted card</p></div>
+</body>
+</html>
+`;
+
+export const contrastDisabledTextHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Disabled-looking Text</title>
+  <style>
+    body { background: #ffffff; color: #000000; }
+    .is-disabled { opacity: 0.4; }
+    .faded { color: rgba(0, 0, 0, 0.38); }
+    .is-hidden { opacity: 0; }
+  </style>
+</head>
+<body>
+  <div class="is-disabled"><label class="disabled-label">Dimmed by its container</label></div>
+  <p class="faded">Translucent text color</p>
+  <div class="is-hidden"><p class="invisible">Not rendered</p></div>
+  <p class="normal">Regular text</p>
+</body>
+</html>
+`;
+
+export const contrastStyleStatesHtml = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Style States</title>
+  <style>
+    body { background: #ffffff; color: #111111; }
+    a { color: #0645ad; }
+    a:hover { color: #c0c0c0; }
+    a:visited { color: #d0d0d0; }
+    button { background: #ffffff; color: #222222; border: 1px solid #222222; }
+    button:focus { color: #bbbbbb; }
+    input::placeholder { color: #cccccc; }
+    @media (prefers-color-scheme: dark) {
+      body { background: #121212; color: #333333; }
+    }
+  </style>
+</head>
+<body>
+  <p class="intro">Plain text</p>
+  <a href="#more" class="more">Read more</a>
+  <button class="save">Save</button>
+  <input class="search" aria-label="Search" placeholder="Search">
+</body>
+</html>
+`;
+
 export const missingLangHtml = `
 <!DOCTYPE html>
 <html>
@@ -504,6 +647,11 @@ export const fixtures = {
   contrastAAALevel: contrastAAALevelHtml,
   contrastNestedElements: contrastNestedElementsHtml,
   contrastUIComponents: contrastUIComponentsHtml,
+  contrastNonText: contrastNonTextHtml,
+  contrastImageBackground: contrastImageBackgroundHtml,
+  contrastTranslucentCard: contrastTranslucentCardHtml,
+  contrastDisabledText: contrastDisabledTextHtml,
+  contrastStyleStates: contrastStyleStatesHtml,
   missingLang: missingLangHtml,
   emptyButtonsAndLinks: emptyButtonsAndLinksHtml,
   duplicateIds: duplicateIdsHtml,
@@ -100,4 +100,20 @@ describe('pre-deploy-check Prompt', () => {
     expect(text).toContain('most improve the Lighthouse score');
     expect(text).toContain('reach the 90 score threshold');
   });
+
+  it('should gate only on regressions when baselinePath is provided', async () => {
+    const testUrl = 'https://staging.example.com';
+    const result = await promptHandler({ url: testUrl, baselinePath: '.a11y/baseline.json' });
+
+    const text = result.messages[0]?.content.text;
+    expect(text).toContain('compare-to-baseline');
+    expect(text).toContain('baselinePath: ".a11y/baseline.json"');
+    expect(text).toContain('newIssues');
+  });
+
+  it('should not reference compare-to-baseline without baselinePath', async () => {
+    const result = await promptHandler({ url: 'https://staging.example.com' });
+
+    expect(result.messages[0]?.content.text).not.toContain('compare-to-baseline');
+  });
 });
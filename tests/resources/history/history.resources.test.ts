@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { registerHistoryResources } from '../../../src/resources/history/history.resources.js';
+import { resetProjectConfig, setProjectConfig } from '../../../src/shared/config/loader.js';
+import { createHistoryTargetId, getHistoryStore } from '../../../src/shared/history/store.js';
+import {
+  createMockResourceServer,
+  getResourceHandler,
+  getResourceTemplateHandler,
+  type MockResourceServer,
+} from '../../helpers/mock-resource-server.js';
+
+const TARGET = 'https://example.com/';
+
+describe('History Resources', () => {
+  let mockServer: MockResourceServer;
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'a11y-history-'));
+    setProjectConfig({ config: { history: { directory } }, filePath: null });
+
+    await getHistoryStore().record('analyze-with-lighthouse', TARGET, {
+      success: true,
+      timestamp: new Date().toISOString(),
+      target: TARGET,
+      tool: 'lighthouse',
+      issues: [],
+      summary: { total: 0, bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 } },
+    });
+
+    mockServer = createMockResourceServer();
+    registerHistoryResources(mockServer as never);
+  });
+
+  afterAll(async () => {
+    resetProjectConfig();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should register the history resources', () => {
+    expect(mockServer.registeredResources.has('history-targets')).toBe(true);
+    expect(mockServer.registeredResourceTemplates.has('history-target-trend')).toBe(true);
+  });
+
+  it('should list recorded targets', async () => {
+    const handler = getResourceHandler(mockServer, 'history-targets');
+    const result = await handler();
+
+    const targets = JSON.parse(result.contents[0]?.text ?? '[]');
+    expect(targets).toHaveLength(1);
+    expect(targets[0]).toMatchObject({
+      id: createHistoryTargetId(TARGET),
+      target: TARGET,
+      runCount: 1,
+      tools: ['analyze-with-lighthouse'],
+    });
+  });
+
+  it('should return the trend of a target and handle unknown ids', async () => {
+    const handler = getResourceTemplateHandler(mockServer, 'history-target-trend');
+    const id = createHistoryTargetId(TARGET);
+
+    const result = await handler(new URL(`history://target/${id}/trend`), { id });
+    const trend = JSON.parse(result.contents[0]?.text ?? '{}');
+    expect(trend.target).toBe(TARGET);
+    expect(trend.trends[0]).toMatchObject({ tool: 'analyze-with-lighthouse', direction: 'stable' });
+
+    const missing = await handler(new URL('history://target/unknown/trend'), { id: 'unknown' });
+    expect(JSON.parse(missing.contents[0]?.text ?? '{}')).toHaveProperty('error');
+  });
+});
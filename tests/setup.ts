@@ -1,6 +1,7 @@
-import { vi } from 'vitest';
+import { afterEach, vi } from 'vitest';
 
 vi.mock('../src/shared/utils/logger.js', () => {
+  let requestCount = 0;
   const createMockLogger = () => ({
     debug: vi.fn(),
     info: vi.fn(),
@@ -14,6 +15,17 @@ vi.mock('../src/shared/utils/logger.js', () => {
     createToolLogger: () => createMockLogger(),
     createAdapterLogger: () => createMockLogger(),
     createRequestLogger: () => createMockLogger(),
-    generateRequestId: () => `test_${Date.now()}`,
+    generateRequestId: () => `test_${Date.now()}_${++requestCount}`,
   };
 });
+
+vi.mock('../src/shared/history/store.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/shared/history/store.js')>()),
+  recordAnalysisHistory: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Imported lazily so the modules of the tool context load after each test file's mocks.
+afterEach(async () => {
+  const { resetToolJobQueue } = await import('../src/tools/Base/utils/base.utils.js');
+  resetToolJobQueue();
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { HTTPRequest, Page } from 'puppeteer';
+import {
+  applyAuthentication,
+  getAuthCookies,
+  getAuthHeaders,
+  getAuthLocalStorage,
+  getRequestAuthHeaders,
+  hasAuthentication,
+  resolveAuthSession,
+} from '../../../src/shared/browser/index.js';
+import { collectTargetSecrets, redactSecrets, REDACTED } from '../../../src/shared/utils/redact.js';
+import { AnalysisTargetSchema, type AnalysisTarget } from '../../../src/shared/types/analysis.js';
+import { buildAnalysisTarget } from '../../../src/tools/Axe/utils/axe.utils.js';
+
+const target: AnalysisTarget = {
+  type: 'url',
+  value: 'https://app.example.com/dashboard',
+  options: {
+    authentication: {
+      cookies: [
+        { name: 'session', value: 'session-secret' },
+        { name: 'tracking', value: 'abc', domain: '.example.com' },
+      ],
+      localStorage: { token: 'storage-secret' },
+      headers: { Authorization: 'Bearer header-secret' },
+      basicAuth: { username: 'preview', password: 'basic-secret' },
+    },
+  },
+};
+
+describe('authentication helpers', () => {
+  it('detects authenticated targets', () => {
+    expect(hasAuthentication(target)).toBe(true);
+    expect(hasAuthentication({ type: 'url', value: 'https://example.com' })).toBe(false);
+  });
+
+  it('scopes cookies without domain or url to the target', () => {
+    const cookies = getAuthCookies(target);
+
+    expect(cookies).toHaveLength(2);
+    expect(cookies[0]).toMatchObject({ name: 'session', domain: 'app.example.com' });
+    expect(cookies[1]).toMatchObject({ name: 'tracking', domain: '.example.com' });
+  });
+
+  it('writes localStorage under the target origin', () => {
+    expect(getAuthLocalStorage(target)).toEqual({
+      'https://app.example.com': { token: 'storage-secret' },
+    });
+  });
+
+  it('keeps an explicit Authorization header over basic auth', () => {
+    expect(getAuthHeaders(target)).toEqual({ Authorization: 'Bearer header-secret' });
+  });
+
+  it('derives a Basic Authorization header from basic auth', () => {
+    const headers = getAuthHeaders({
+      type: 'url',
+      value: 'https://app.example.com',
+      options: { authentication: { basicAuth: { username: 'preview', password: 'basic-secret' } } },
+    });
+    const encoded = Buffer.from('preview:basic-secret').toString('base64');
+
+    expect(headers).toEqual({ Authorization: `Basic ${encoded}` });
+  });
+
+  it('only gives auth headers to requests for the target origin', () => {
+    expect(getRequestAuthHeaders('https://app.example.com/api/me', target)).toEqual({
+      Authorization: 'Bearer header-secret',
+    });
+    expect(getRequestAuthHeaders('https://cdn.example.com/app.js', target)).toEqual({});
+    expect(getRequestAuthHeaders('http://app.example.com/dashboard', target)).toEqual({});
+    expect(
+      getRequestAuthHeaders('https://app.example.com', { type: 'html', value: '<p>Hi</p>' })
+    ).toEqual({});
+  });
+
+  it('keeps auth headers off cross-origin subresources of the page', async () => {
+    let onRequest: ((request: HTTPRequest) => void) | undefined;
+    const page = {
+      setRequestInterception: vi.fn(async () => {}),
+      on: vi.fn((event: string, handler: (request: HTTPRequest) => void) => {
+        if (event === 'request') onRequest = handler;
+      }),
+      browserContext: () => ({ setCookie: vi.fn(async () => {}) }),
+      evaluateOnNewDocument: vi.fn(async () => {}),
+    };
+    const request = (url: string) => ({
+      url: () => url,
+      headers: () => ({ accept: '*/*' }),
+      isInterceptResolutionHandled: () => false,
+      continue: vi.fn(async () => {}),
+    });
+
+    await applyAuthentication(page as unknown as Page, target);
+    const documentRequest = request('https://app.example.com/dashboard');
+    const scriptRequest = request('https://cdn.thirdparty.net/analytics.js');
+    onRequest?.(documentRequest as unknown as HTTPRequest);
+    onRequest?.(scriptRequest as unknown as HTTPRequest);
+
+    expect(page.setRequestInterception).toHaveBeenCalledWith(true);
+    expect(documentRequest.continue).toHaveBeenCalledWith({
+      headers: { accept: '*/*', Authorization: 'Bearer header-secret' },
+    });
+    expect(scriptRequest.continue).toHaveBeenCalledWith({});
+  });
+
+  it('returns the target unchanged when no login script is configured', async () => {
+    await expect(resolveAuthSession(target)).resolves.toBe(target);
+  });
+
+  it('validates login steps', () => {
+    const parsed = AnalysisTargetSchema.safeParse({
+      type: 'url',
+      value: 'https://app.example.com',
+      options: {
+        authentication: {
+          loginScript: {
+            url: 'https://app.example.com/login',
+            steps: [{ action: 'hover', selector: '#menu' }],
+          },
+        },
+      },
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+
+  it('passes authentication through the tool target builders', () => {
+    const built = buildAnalysisTarget({
+      url: 'https://app.example.com',
+      options: { browser: { authentication: { headers: { 'X-Token': 'token-secret' } } } },
+    });
+
+    expect(built.options?.authentication?.headers).toEqual({ 'X-Token': 'token-secret' });
+  });
+});
+
+describe('redactSecrets', () => {
+  it('collects every secret from the target', () => {
+    const secrets = collectTargetSecrets(target);
+
+    expect(secrets).toEqual(
+      expect.arrayContaining([
+        'session-secret',
+        'storage-secret',
+        'Bearer header-secret',
+        'basic-secret',
+      ])
+    );
+    expect(secrets).not.toContain('abc');
+  });
+
+  it('replaces secrets in nested results', () => {
+    const result = {
+      rawResult: { url: 'https://app.example.com/?token=storage-secret', items: ['basic-secret'] },
+      count: 2,
+    };
+
+    const redacted = redactSecrets(result, collectTargetSecrets(target));
+
+    expect(redacted.rawResult.url).toBe(`https://app.example.com/?token=${REDACTED}`);
+    expect(redacted.rawResult.items).toEqual([REDACTED]);
+    expect(redacted.count).toBe(2);
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+interface MockBrowser {
+  connected: boolean;
+  version: ReturnType<typeof vi.fn>;
+  close: ReturnType<typeof vi.fn>;
+  on: ReturnType<typeof vi.fn>;
+  emitDisconnected: () => void;
+}
+
+const launched: MockBrowser[] = [];
+
+function createMockBrowser(): MockBrowser {
+  const listeners: Array<() => void> = [];
+  const browser: MockBrowser = {
+    connected: true,
+    version: vi.fn().mockResolvedValue('HeadlessChrome/131.0'),
+    close: vi.fn().mockImplementation(async () => {
+      browser.connected = false;
+    }),
+    on: vi.fn().mockImplementation((event: string, handler: () => void) => {
+      if (event === 'disconnected') listeners.push(handler);
+    }),
+    emitDisconnected: () => {
+      browser.connected = false;
+      listeners.forEach((handler) => handler());
+    },
+  };
+  return browser;
+}
+
+vi.mock('puppeteer', () => ({
+  default: {
+    launch: vi.fn().mockImplementation(async () => {
+      const browser = createMockBrowser();
+      launched.push(browser);
+      return browser;
+    }),
+  },
+}));
+
+const { BrowserPool, toPuppeteerLaunchOptions } =
+  await import('../../../src/shared/browser/pool.js');
+
+describe('BrowserPool', () => {
+  beforeEach(() => {
+    launched.length = 0;
+  });
+
+  it('should reuse one browser for leases with the same launch options', async () => {
+    const pool = new BrowserPool({ healthCheckInterval: 0 });
+
+    const first = await pool.acquire({ ignoreHTTPSErrors: false });
+    const second = await pool.acquire({});
+
+    expect(launched).toHaveLength(1);
+    expect(second.browser).toBe(first.browser);
+    expect(pool.stats()).toEqual({ browsers: 1, activeLeases: 2, waiting: 0 });
+
+    await first.release();
+    await second.release();
+    await pool.close();
+  });
+
+  it('should launch a separate browser for different launch options', async () => {
+    const pool = new BrowserPool({ healthCheckInterval: 0 });
+
+    const plain = await pool.acquire({});
+    const insecure = await pool.acquire({ ignoreHTTPSErrors: true });
+
+    expect(launched).toHaveLength(2);
+    expect(insecure.browser).not.toBe(plain.browser);
+
+    await plain.release();
+    await insecure.release();
+    await pool.close();
+  });
+
+  it('should wait for a free slot when the page limit is reached', async () => {
+    const pool = new BrowserPool({ maxBrowsers: 1, maxPagesPerBrowser: 1, healthCheckInterval: 0 });
+
+    const first = await pool.acquire({});
+    const pending = pool.acquire({});
+    await Promise.resolve();
+    expect(pool.stats().waiting).toBe(1);
+
+    await first.release();
+    const second = await pending;
+
+    expect(second.browser).toBe(first.browser);
+    expect(launched).toHaveLength(1);
+
+    await second.release();
+    await pool.close();
+  });
+
+  it('should time out when no slot frees up', async () => {
+    const pool = new BrowserPool({
+      maxBrowsers: 1,
+      maxPagesPerBrowser: 1,
+      acquireTimeout: 20,
+      healthCheckInterval: 0,
+    });
+
+    const lease = await pool.acquire({});
+    await expect(pool.acquire({})).rejects.toThrow(/waiting for a browser/);
+
+    await lease.release();
+    await pool.close();
+  });
+
+  it('should not share an exclusive browser', async () => {
+    const pool = new BrowserPool({ healthCheckInterval: 0 });
+
+    const exclusive = await pool.acquire({}, { exclusive: true });
+    const shared = await pool.acquire({});
+
+    expect(shared.browser).not.toBe(exclusive.browser);
+
+    await exclusive.release();
+    await shared.release();
+    await pool.close();
+  });
+
+  it('should evict an idle browser when launching with other options at the limit', async () => {
+    const pool = new BrowserPool({ maxBrowsers: 1, healthCheckInterval: 0 });
+
+    const plain = await pool.acquire({});
+    await plain.release();
+    const insecure = await pool.acquire({ ignoreHTTPSErrors: true });
+
+    expect(launched[0]?.close).toHaveBeenCalled();
+    expect(pool.stats().browsers).toBe(1);
+
+    await insecure.release();
+    await pool.close();
+  });
+
+  it('should close idle browsers after the idle timeout', async () => {
+    vi.useFakeTimers();
+    try {
+      const pool = new BrowserPool({ idleTimeout: 1000, healthCheckInterval: 0 });
+
+      const lease = await pool.acquire({});
+      await lease.release();
+      expect(launched[0]?.close).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(launched[0]?.close).toHaveBeenCalled();
+      expect(pool.stats().browsers).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should close a discarded browser on release', async () => {
+    const pool = new BrowserPool({ healthCheckInterval: 0 });
+
+    const lease = await pool.acquire({}, { exclusive: true });
+    await lease.release({ discard: true });
+
+    expect(launched[0]?.close).toHaveBeenCalled();
+    expect(pool.stats().browsers).toBe(0);
+  });
+
+  it('should replace a browser that crashed', async () => {
+    const pool = new BrowserPool({ healthCheckInterval: 0 });
+
+    const lease = await pool.acquire({});
+    await lease.release();
+    launched[0]?.emitDisconnected();
+
+    expect(pool.stats().browsers).toBe(0);
+
+    const next = await pool.acquire({});
+    expect(next.browser).toBe(launched[1]);
+
+    await next.release();
+    await pool.close();
+  });
+
+  it('should close idle browsers that fail the health check', async () => {
+    const pool = new BrowserPool({ healthCheckInterval: 0 });
+
+    const lease = await pool.acquire({});
+    await lease.release();
+    launched[0]?.version.mockRejectedValueOnce(new Error('Target closed'));
+
+    expect(await pool.checkHealth()).toBe(1);
+    expect(launched[0]?.close).toHaveBeenCalled();
+    expect(pool.stats().browsers).toBe(0);
+  });
+
+  it('should report availability and fail when the browser cannot launch', async () => {
+    const puppeteer = (await import('puppeteer')).default;
+    const pool = new BrowserPool({ healthCheckInterval: 0 });
+
+    expect(await pool.isAvailable({})).toBe(true);
+
+    vi.mocked(puppeteer.launch).mockRejectedValueOnce(new Error('Launch failed'));
+    expect(await pool.isAvailable({ ignoreHTTPSErrors: true })).toBe(false);
+    expect(pool.stats().browsers).toBe(1);
+
+    await pool.close();
+  });
+});
+
+describe('toPuppeteerLaunchOptions', () => {
+  it('should add certificate flags when HTTPS errors are ignored', () => {
+    const options = toPuppeteerLaunchOptions({ ignoreHTTPSErrors: true });
+
+    expect(options.acceptInsecureCerts).toBe(true);
+    expect(options.args).toContain('--ignore-certificate-errors');
+    expect(options.headless).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPageScreenshotPaths,
+  getScreenshotClip,
+  planIssueScreenshots,
+} from '../../../src/shared/browser/index.js';
+import { createPageSnapshot } from '../../../src/shared/browser/navigation.js';
+
+const page = { width: 1280, height: 2000 };
+
+describe('planIssueScreenshots', () => {
+  it('should number the visible elements in issue order', () => {
+    const targets = planIssueScreenshots(
+      ['header a', 'main p', 'footer a'],
+      [
+        { x: 10, y: 10, width: 80, height: 20 },
+        { x: 10, y: 400, width: 600, height: 40 },
+        { x: 10, y: 1900, width: 80, height: 20 },
+      ],
+      page,
+      10
+    );
+
+    expect(targets.map(({ marker, selector }) => [marker, selector])).toEqual([
+      [1, 'header a'],
+      [2, 'main p'],
+      [3, 'footer a'],
+    ]);
+  });
+
+  it('should skip missing, zero-size and offscreen elements', () => {
+    const targets = planIssueScreenshots(
+      ['#missing', '.empty', '.sr-only', '.below', 'button'],
+      [
+        null,
+        { x: 10, y: 10, width: 0, height: 20 },
+        { x: -10000, y: 10, width: 1, height: 1 },
+        { x: 10, y: 2400, width: 80, height: 20 },
+        { x: 10, y: 10, width: 80, height: 20 },
+      ],
+      page,
+      10
+    );
+
+    expect(targets).toEqual([
+      { marker: 1, selector: 'button', box: { x: 10, y: 10, width: 80, height: 20 } },
+    ]);
+  });
+
+  it('should stop at the maximum number of elements', () => {
+    const selectors = Array.from({ length: 5 }, (_, index) => `li:nth-child(${index + 1})`);
+    const boxes = selectors.map((_, index) => ({ x: 0, y: index * 30, width: 100, height: 20 }));
+
+    expect(planIssueScreenshots(selectors, boxes, page, 3)).toHaveLength(3);
+  });
+});
+
+describe('getScreenshotClip', () => {
+  it('should pad the element and clamp the crop to the document', () => {
+    expect(getScreenshotClip({ x: 4, y: 100, width: 50, height: 20 }, page)).toEqual({
+      x: 0,
+      y: 84,
+      width: 70,
+      height: 52,
+    });
+    expect(getScreenshotClip({ x: 1250, y: 1990, width: 30, height: 10 }, page)).toEqual({
+      x: 1234,
+      y: 1974,
+      width: 46,
+      height: 26,
+    });
+  });
+});
+
+describe('getPageScreenshotPaths', () => {
+  it('should list the files of annotated page screenshots once', () => {
+    const snapshot = createPageSnapshot('https://example.com/');
+
+    expect(
+      getPageScreenshotPaths([
+        { ...snapshot, screenshot: { path: '/tmp/shots/page.png' } },
+        { ...snapshot, screenshot: { path: '/tmp/shots/page.png' } },
+        { ...snapshot, screenshot: { data: 'iVBORw0KGgo=' } },
+      ])
+    ).toEqual(['/tmp/shots/page.png']);
+    expect(getPageScreenshotPaths([snapshot])).toBeUndefined();
+  });
+});
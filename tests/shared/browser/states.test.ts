@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  analyzeInStates,
+  mergeAnalysisSummaries,
+  toStateTarget,
+} from '../../../src/shared/browser/index.js';
+import { AnalysisTargetSchema, type AnalysisTarget } from '../../../src/shared/types/analysis.js';
+import type {
+  AccessibilityIssue,
+  AnalysisResult,
+} from '../../../src/shared/types/accessibility.js';
+import { mergeContrastSummaries } from '../../../src/tools/Contrast/utils/index.js';
+import { generateIssueFingerprint } from '../../../src/tools/AnalyzeMixed/utils/index.js';
+
+function issue(id: string, severity: AccessibilityIssue['severity']): AccessibilityIssue {
+  return {
+    id,
+    ruleId: 'button-name',
+    tool: 'axe-core',
+    severity,
+    location: { selector: '#menu button' },
+    message: 'Buttons must have discernible text',
+  };
+}
+
+function result(issues: AccessibilityIssue[], error?: string): AnalysisResult {
+  return {
+    success: !error,
+    timestamp: new Date().toISOString(),
+    duration: 100,
+    target: 'https://example.com',
+    tool: 'axe-core',
+    issues,
+    summary: mergeAnalysisSummaries([
+      {
+        total: issues.length,
+        bySeverity: {
+          critical: issues.filter((i) => i.severity === 'critical').length,
+          serious: issues.filter((i) => i.severity === 'serious').length,
+          moderate: 0,
+          minor: 0,
+        },
+        byRule: { 'button-name': issues.length },
+      },
+    ]),
+    ...(error && { error }),
+  };
+}
+
+const target: AnalysisTarget = {
+  type: 'url',
+  value: 'https://example.com',
+  options: {
+    actions: [{ action: 'click', selector: '#accept-cookies' }],
+    states: [
+      { name: 'closed', actions: [] },
+      { name: 'menu open', actions: [{ action: 'click', selector: '#menu-toggle' }] },
+    ],
+  },
+};
+
+describe('toStateTarget', () => {
+  it('appends state actions to the shared actions and drops states', () => {
+    const stateTarget = toStateTarget(target, target.options!.states![1]!);
+
+    expect(stateTarget.options?.actions).toEqual([
+      { action: 'click', selector: '#accept-cookies' },
+      { action: 'click', selector: '#menu-toggle' },
+    ]);
+    expect(stateTarget.options?.states).toBeUndefined();
+  });
+});
+
+describe('analyzeInStates', () => {
+  it('analyzes the target once when no states are given', async () => {
+    const analyze = vi.fn().mockResolvedValue(result([issue('axe-0', 'serious')]));
+    const plain: AnalysisTarget = { type: 'url', value: 'https://example.com' };
+
+    const merged = await analyzeInStates(plain, analyze, mergeAnalysisSummaries);
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(analyze).toHaveBeenCalledWith(plain);
+    expect(merged.issues[0]?.state).toBeUndefined();
+  });
+
+  it('tags issues with their state and counts them per state', async () => {
+    const analyze = vi
+      .fn()
+      .mockResolvedValueOnce(result([issue('axe-0', 'serious')]))
+      .mockResolvedValueOnce(result([issue('axe-0', 'serious'), issue('axe-1', 'critical')]));
+
+    const merged = await analyzeInStates(target, analyze, mergeAnalysisSummaries);
+
+    expect(analyze).toHaveBeenCalledTimes(2);
+    expect(merged.success).toBe(true);
+    expect(merged.duration).toBe(200);
+    expect(merged.issues.map((i) => [i.id, i.state])).toEqual([
+      ['closed:axe-0', 'closed'],
+      ['menu open:axe-0', 'menu open'],
+      ['menu open:axe-1', 'menu open'],
+    ]);
+    expect(merged.summary.total).toBe(3);
+    expect(merged.summary.bySeverity).toMatchObject({ critical: 1, serious: 2 });
+    expect(merged.summary.byRule).toEqual({ 'button-name': 3 });
+    expect(merged.summary.byState).toEqual({ closed: 1, 'menu open': 2 });
+  });
+
+  it('keeps the page snapshot of every state', async () => {
+    const snapshot = (id: string) => ({ id, loadedAt: new Date().toISOString() });
+    const analyze = vi
+      .fn()
+      .mockResolvedValueOnce({ ...result([]), snapshots: [snapshot('snap_a')] })
+      .mockResolvedValueOnce({ ...result([]), snapshots: [snapshot('snap_b')] });
+
+    const merged = await analyzeInStates(target, analyze, mergeAnalysisSummaries);
+
+    expect(merged.snapshots?.map((s) => [s.id, s.state])).toEqual([
+      ['snap_a', 'closed'],
+      ['snap_b', 'menu open'],
+    ]);
+  });
+
+  it('reports failing states without dropping the others', async () => {
+    const analyze = vi
+      .fn()
+      .mockResolvedValueOnce(result([issue('axe-0', 'serious')]))
+      .mockResolvedValueOnce(result([], 'Action 2 (click) failed: No element found'));
+
+    const merged = await analyzeInStates(target, analyze, mergeAnalysisSummaries);
+
+    expect(merged.success).toBe(false);
+    expect(merged.error).toBe('menu open: Action 2 (click) failed: No element found');
+    expect(merged.issues).toHaveLength(1);
+  });
+});
+
+describe('mergeContrastSummaries', () => {
+  it('adds up element counts by text size', () => {
+    const summary = {
+      normalText: { passing: 2, failing: 1 },
+      largeText: { passing: 1, failing: 0 },
+    };
+
+    expect(
+      mergeContrastSummaries([
+        { total: 4, passing: 3, failing: 1, byTextSize: summary },
+        { total: 4, passing: 3, failing: 1, byTextSize: summary },
+      ])
+    ).toEqual({
+      total: 8,
+      passing: 6,
+      failing: 2,
+      byTextSize: { normalText: { passing: 4, failing: 2 }, largeText: { passing: 2, failing: 0 } },
+    });
+  });
+
+  it('adds up non-text counts when components were checked', () => {
+    const merged = mergeContrastSummaries([
+      { total: 3, passing: 1, failing: 2, nonText: { passing: 1, failing: 2 } },
+      { total: 1, passing: 1, failing: 0 },
+    ]);
+
+    expect(merged.nonText).toEqual({ passing: 1, failing: 2 });
+  });
+
+  it('adds up sampled backgrounds', () => {
+    const merged = mergeContrastSummaries([
+      { total: 2, passing: 1, failing: 1, sampledBackgrounds: { sampled: 2, uncertain: 1 } },
+      { total: 2, passing: 2, failing: 0, sampledBackgrounds: { sampled: 1, uncertain: 0 } },
+    ]);
+
+    expect(merged.sampledBackgrounds).toEqual({ sampled: 3, uncertain: 1 });
+  });
+
+  it('adds up counts per style state', () => {
+    const merged = mergeContrastSummaries([
+      {
+        total: 3,
+        passing: 2,
+        failing: 1,
+        byStyleState: { default: { passing: 2, failing: 0 }, hover: { passing: 0, failing: 1 } },
+      },
+      { total: 1, passing: 1, failing: 0, byStyleState: { default: { passing: 1, failing: 0 } } },
+    ]);
+
+    expect(merged.byStyleState).toEqual({
+      default: { passing: 3, failing: 0 },
+      hover: { passing: 0, failing: 1 },
+    });
+  });
+});
+
+describe('state schemas', () => {
+  it('rejects duplicate state names', () => {
+    const parsed = AnalysisTargetSchema.safeParse({
+      ...target,
+      options: { states: [{ name: 'open' }, { name: 'open' }] },
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+
+  it('rejects unknown actions', () => {
+    const parsed = AnalysisTargetSchema.safeParse({
+      ...target,
+      options: { actions: [{ action: 'drag', selector: '#item' }] },
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+
+  it('keeps issues from different states apart when deduplicating', () => {
+    const closed = { ...issue('axe-0', 'serious'), state: 'closed' };
+    const open = { ...issue('axe-0', 'serious'), state: 'menu open' };
+
+    expect(generateIssueFingerprint(closed)).not.toBe(generateIssueFingerprint(open));
+  });
+});
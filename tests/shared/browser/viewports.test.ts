@@ -0,0 +1,238 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  analyzeInStates,
+  analyzeInViewports,
+  mergeAnalysisSummaries,
+  toPageViewport,
+  toViewportTarget,
+} from '../../../src/shared/browser/index.js';
+import { AnalysisTargetSchema, type AnalysisTarget } from '../../../src/shared/types/analysis.js';
+import { resolveViewport } from '../../../src/shared/types/viewport.js';
+import type {
+  AccessibilityIssue,
+  AnalysisResult,
+} from '../../../src/shared/types/accessibility.js';
+import { generateIssueFingerprint } from '../../../src/tools/AnalyzeMixed/utils/index.js';
+
+function issue(id: string, selector: string): AccessibilityIssue {
+  return {
+    id,
+    ruleId: 'target-size',
+    tool: 'axe-core',
+    severity: 'serious',
+    location: { selector },
+    message: 'Touch targets must be large enough',
+  };
+}
+
+function result(issues: AccessibilityIssue[], error?: string): AnalysisResult {
+  return {
+    success: !error,
+    timestamp: new Date().toISOString(),
+    duration: 100,
+    target: 'https://example.com',
+    tool: 'axe-core',
+    issues,
+    summary: {
+      total: issues.length,
+      bySeverity: { critical: 0, serious: issues.length, moderate: 0, minor: 0 },
+    },
+    ...(error && { error }),
+  };
+}
+
+const target: AnalysisTarget = {
+  type: 'url',
+  value: 'https://example.com',
+  options: {
+    viewport: { width: 1024, height: 768 },
+    viewports: ['mobile', { name: 'wide', width: 1920, height: 1080 }],
+  },
+};
+
+describe('resolveViewport', () => {
+  it('fills presets and names custom viewports', () => {
+    expect(resolveViewport('mobile')).toEqual({
+      name: 'mobile',
+      width: 375,
+      height: 667,
+      deviceScaleFactor: 2,
+      isMobile: true,
+      hasTouch: true,
+    });
+    expect(resolveViewport({ preset: 'tablet', hasTouch: false })).toMatchObject({
+      name: 'tablet',
+      width: 768,
+      hasTouch: false,
+    });
+    expect(resolveViewport({ preset: 'tablet', width: 1024 })).toMatchObject({
+      name: '1024x1024',
+      isMobile: true,
+    });
+    expect(resolveViewport({ width: 320, height: 640 })).toEqual({
+      name: '320x640',
+      width: 320,
+      height: 640,
+      deviceScaleFactor: undefined,
+      isMobile: undefined,
+      hasTouch: undefined,
+    });
+  });
+});
+
+describe('toViewportTarget', () => {
+  it('replaces the viewport and drops viewports', () => {
+    const viewportTarget = toViewportTarget(target, resolveViewport('mobile'));
+
+    expect(viewportTarget.options?.viewport).toEqual({
+      width: 375,
+      height: 667,
+      deviceScaleFactor: 2,
+      isMobile: true,
+      hasTouch: true,
+    });
+    expect(viewportTarget.options?.viewports).toBeUndefined();
+  });
+});
+
+describe('toPageViewport', () => {
+  it('leaves out emulation fields that are not set', () => {
+    expect(toPageViewport(resolveViewport({ width: 320, height: 640 }))).toEqual({
+      width: 320,
+      height: 640,
+    });
+  });
+});
+
+describe('analyzeInViewports', () => {
+  it('analyzes the target once when no viewports are given', async () => {
+    const analyze = vi.fn().mockResolvedValue(result([issue('axe-0', 'nav a')]));
+    const plain: AnalysisTarget = { type: 'url', value: 'https://example.com' };
+
+    const merged = await analyzeInViewports(plain, analyze, mergeAnalysisSummaries);
+
+    expect(analyze).toHaveBeenCalledWith(plain, undefined);
+    expect(merged.issues[0]?.viewport).toBeUndefined();
+    expect(merged.summary.byViewport).toBeUndefined();
+  });
+
+  it('tags issues per viewport and flags the viewport-specific ones', async () => {
+    const analyze = vi
+      .fn()
+      .mockResolvedValueOnce(result([issue('axe-0', 'nav a'), issue('axe-1', '.menu-toggle')]))
+      .mockResolvedValueOnce(result([issue('axe-0', 'nav a')]));
+
+    const merged = await analyzeInViewports(target, analyze, mergeAnalysisSummaries);
+
+    expect(analyze.mock.calls.map(([call]) => call.options.viewport.width)).toEqual([375, 1920]);
+    expect(merged.duration).toBe(200);
+    expect(merged.issues.map((i) => [i.id, i.viewport, i.viewportSpecific])).toEqual([
+      ['mobile:axe-0', 'mobile', false],
+      ['mobile:axe-1', 'mobile', true],
+      ['wide:axe-0', 'wide', false],
+    ]);
+    expect(merged.summary).toMatchObject({
+      total: 3,
+      byViewport: { mobile: 2, wide: 1 },
+      viewportSpecific: { mobile: 1, wide: 0 },
+      allViewports: 1,
+    });
+  });
+
+  it('keeps state counts when combined with states', async () => {
+    const analyze = vi.fn().mockResolvedValue(result([issue('axe-0', 'nav a')]));
+    const withStates: AnalysisTarget = {
+      ...target,
+      options: {
+        ...target.options,
+        states: [
+          { name: 'closed', actions: [] },
+          { name: 'open', actions: [{ action: 'click', selector: '#menu-toggle' }] },
+        ],
+      },
+    };
+
+    const merged = await analyzeInViewports(
+      withStates,
+      (viewportTarget) => analyzeInStates(viewportTarget, analyze, mergeAnalysisSummaries),
+      mergeAnalysisSummaries
+    );
+
+    expect(analyze).toHaveBeenCalledTimes(4);
+    expect(merged.issues[0]).toMatchObject({ id: 'mobile:closed:axe-0', state: 'closed' });
+    expect(merged.summary.byState).toEqual({ closed: 2, open: 2 });
+    expect(merged.summary.allViewports).toBe(2);
+  });
+
+  it('reports progress across viewports and the states inside them', async () => {
+    const analyze = vi.fn().mockResolvedValue(result([]));
+    const onProgress = vi.fn();
+    const withStates: AnalysisTarget = {
+      ...target,
+      options: {
+        ...target.options,
+        states: [
+          { name: 'closed', actions: [] },
+          { name: 'open', actions: [{ action: 'click', selector: '#menu-toggle' }] },
+        ],
+      },
+    };
+
+    await analyzeInViewports(
+      withStates,
+      (viewportTarget, viewportProgress) =>
+        analyzeInStates(viewportTarget, analyze, mergeAnalysisSummaries, viewportProgress),
+      mergeAnalysisSummaries,
+      onProgress
+    );
+
+    expect(onProgress.mock.calls).toEqual([
+      [1, 4, 'Analyzed state "closed"'],
+      [2, 4, 'Analyzed state "open"'],
+      [1, 2, 'Analyzed viewport "mobile"'],
+      [3, 4, 'Analyzed state "closed"'],
+      [4, 4, 'Analyzed state "open"'],
+      [2, 2, 'Analyzed viewport "wide"'],
+    ]);
+  });
+
+  it('reports failing viewports without dropping the others', async () => {
+    const analyze = vi
+      .fn()
+      .mockResolvedValueOnce(result([], 'Navigation timeout'))
+      .mockResolvedValueOnce(result([issue('axe-0', 'nav a')]));
+
+    const merged = await analyzeInViewports(target, analyze, mergeAnalysisSummaries);
+
+    expect(merged.success).toBe(false);
+    expect(merged.error).toBe('mobile: Navigation timeout');
+    expect(merged.issues).toHaveLength(1);
+  });
+});
+
+describe('viewport schemas', () => {
+  it('rejects duplicate viewport names', () => {
+    const parsed = AnalysisTargetSchema.safeParse({
+      ...target,
+      options: { viewports: ['mobile', { preset: 'mobile', hasTouch: false }] },
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+
+  it('rejects custom viewports without a size', () => {
+    const parsed = AnalysisTargetSchema.safeParse({
+      ...target,
+      options: { viewports: [{ name: 'small', width: 320 }] },
+    });
+
+    expect(parsed.success).toBe(false);
+  });
+
+  it('keeps issues from different viewports apart when deduplicating', () => {
+    const mobile = { ...issue('axe-0', 'nav a'), viewport: 'mobile' };
+    const desktop = { ...issue('axe-0', 'nav a'), viewport: 'desktop' };
+
+    expect(generateIssueFingerprint(mobile)).not.toBe(generateIssueFingerprint(desktop));
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  applyIgnoredRules,
+  applyProjectTarget,
+  getAdapterSettings,
+  loadProjectConfig,
+  matchesUrlPattern,
+  resetProjectConfig,
+  resolveProjectSettings,
+  setProjectConfig,
+} from '../../../src/shared/config/index.js';
+import type { ProjectConfig } from '../../../src/shared/config/index.js';
+import {
+  buildAnalysisOptions,
+  buildAnalysisTarget,
+} from '../../../src/tools/Axe/utils/axe.utils.js';
+
+const projectConfig: ProjectConfig = {
+  defaults: {
+    wcagLevel: 'AA',
+    browser: { viewport: { width: 1440, height: 900 }, ignoreHTTPSErrors: true },
+  },
+  overrides: [
+    {
+      pattern: 'https://example.com/admin/*',
+      wcagLevel: 'AAA',
+      browser: { waitForSelector: '#app' },
+    },
+  ],
+  ignoredRules: [
+    {
+      tool: 'axe-core',
+      ruleId: 'region',
+      justification: 'Legacy layout tracked in JIRA-123',
+    },
+    {
+      tool: 'axe-core',
+      ruleId: 'color-contrast',
+      justification: 'Brand colors approved for the marketing pages',
+      pattern: 'https://example.com/promo/*',
+    },
+  ],
+  adapters: {
+    lighthouse: { timeout: 90000 },
+  },
+};
+
+describe('loadProjectConfig', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'accessibility-hub-config-'));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return an empty config when no file exists', async () => {
+    const loaded = await loadProjectConfig({ cwd: tempDir, configPath: undefined });
+
+    expect(loaded.filePath === null || !loaded.filePath.startsWith(tempDir)).toBe(true);
+  });
+
+  it('should find a JSON rc file in a parent directory', async () => {
+    const nestedDir = join(tempDir, 'packages', 'web');
+    await mkdir(nestedDir, { recursive: true });
+    await writeFile(
+      join(tempDir, '.accessibilityhubrc.json'),
+      JSON.stringify({ defaults: { wcagLevel: 'AAA' } })
+    );
+
+    const loaded = await loadProjectConfig({ cwd: nestedDir });
+
+    expect(loaded.filePath).toBe(join(tempDir, '.accessibilityhubrc.json'));
+    expect(loaded.config.defaults?.wcagLevel).toBe('AAA');
+  });
+
+  it('should parse YAML from an extensionless rc file', async () => {
+    await writeFile(
+      join(tempDir, '.accessibilityhubrc'),
+      [
+        'defaults:',
+        '  wcagLevel: A',
+        'ignoredRules:',
+        '  - tool: pa11y',
+        '    ruleId: WCAG2AA.Principle1.Guideline1_3.1_3_1.H49.B',
+        '    justification: Bold text is decorative',
+      ].join('\n')
+    );
+
+    const loaded = await loadProjectConfig({ cwd: tempDir });
+
+    expect(loaded.config.defaults?.wcagLevel).toBe('A');
+    expect(loaded.config.ignoredRules).toHaveLength(1);
+  });
+
+  it('should load the default export of a module config', async () => {
+    await writeFile(
+      join(tempDir, 'accessibilityhub.config.mjs'),
+      "export default { adapters: { 'axe-core': { timeout: 45000 } } };"
+    );
+
+    const loaded = await loadProjectConfig({ cwd: tempDir });
+
+    expect(loaded.config.adapters?.['axe-core']?.timeout).toBe(45000);
+  });
+
+  it('should report invalid configs with validation errors', async () => {
+    await writeFile(
+      join(tempDir, '.accessibilityhubrc.json'),
+      JSON.stringify({
+        defaults: { wcagLevel: 'AAAA' },
+        ignoredRules: [{ tool: 'axe-core', ruleId: 'region', justification: '' }],
+      })
+    );
+
+    const error = await loadProjectConfig({ cwd: tempDir }).catch((e: Error) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('Invalid configuration file');
+    expect((error as Error).message).toContain('Validation failed:');
+    expect((error as Error).message).toContain('[defaults.wcagLevel]');
+    expect((error as Error).message).toContain('[ignoredRules.0.justification]');
+  });
+
+  it('should report files that cannot be parsed', async () => {
+    await writeFile(join(tempDir, '.accessibilityhubrc.json'), '{ not json');
+
+    await expect(loadProjectConfig({ cwd: tempDir })).rejects.toThrow(
+      'Could not read configuration file'
+    );
+  });
+});
+
+describe('matchesUrlPattern', () => {
+  it('should treat * as a wildcard and match the whole URL', () => {
+    expect(
+      matchesUrlPattern('https://example.com/admin/users', 'https://example.com/admin/*')
+    ).toBe(true);
+    expect(matchesUrlPattern('https://example.com/blog', 'https://example.com/admin/*')).toBe(
+      false
+    );
+    expect(matchesUrlPattern('https://example.com/a?b=1', 'https://example.com/a?b=1')).toBe(true);
+  });
+});
+
+describe('resolveProjectSettings', () => {
+  it('should layer matching overrides on top of the defaults', () => {
+    const settings = resolveProjectSettings('https://example.com/admin/users', projectConfig);
+
+    expect(settings.wcagLevel).toBe('AAA');
+    expect(settings.browser).toEqual({
+      viewport: { width: 1440, height: 900 },
+      ignoreHTTPSErrors: true,
+      waitForSelector: '#app',
+    });
+  });
+
+  it('should only apply the defaults to HTML targets', () => {
+    const settings = resolveProjectSettings(undefined, projectConfig);
+
+    expect(settings.wcagLevel).toBe('AA');
+    expect(settings.browser?.waitForSelector).toBeUndefined();
+  });
+});
+
+describe('applyProjectTarget', () => {
+  it('should keep explicit target options over the config', () => {
+    const target = applyProjectTarget(
+      {
+        type: 'url',
+        value: 'https://example.com/admin',
+        options: { viewport: { width: 320, height: 640 } },
+      },
+      projectConfig
+    );
+
+    expect(target.options?.viewport).toEqual({ width: 320, height: 640 });
+    expect(target.options?.ignoreHTTPSErrors).toBe(true);
+  });
+});
+
+describe('applyIgnoredRules', () => {
+  it('should add ignored rules for the tool and URL to excludeRules', () => {
+    const options = applyIgnoredRules(
+      { wcagLevel: 'AA', includeWarnings: false, excludeRules: ['region'] },
+      'axe-core',
+      'https://example.com/promo/spring',
+      projectConfig
+    );
+
+    expect(options.excludeRules).toEqual(['region', 'color-contrast']);
+  });
+
+  it('should leave other tools untouched', () => {
+    const options = { wcagLevel: 'AA' as const, includeWarnings: true };
+
+    expect(applyIgnoredRules(options, 'pa11y', undefined, projectConfig)).toBe(options);
+  });
+});
+
+describe('getAdapterSettings', () => {
+  it('should return the settings for the adapter', () => {
+    expect(getAdapterSettings('lighthouse', projectConfig)).toEqual({ timeout: 90000 });
+    expect(getAdapterSettings('pa11y', projectConfig)).toEqual({});
+  });
+});
+
+describe('tool inputs with an active project config', () => {
+  beforeEach(() => {
+    setProjectConfig({ config: projectConfig, filePath: '/project/.accessibilityhubrc' });
+  });
+
+  afterEach(() => {
+    resetProjectConfig();
+  });
+
+  it('should merge the config into the axe target and options', () => {
+    const input = { url: 'https://example.com/admin/users' };
+
+    expect(buildAnalysisTarget(input).options).toMatchObject({
+      waitForSelector: '#app',
+      viewport: { width: 1440, height: 900 },
+      ignoreHTTPSErrors: true,
+    });
+    expect(buildAnalysisOptions(input)).toMatchObject({
+      wcagLevel: 'AAA',
+      excludeRules: ['region'],
+    });
+  });
+
+  it('should let explicit input win over the config', () => {
+    const options = buildAnalysisOptions({
+      url: 'https://example.com/admin/users',
+      options: { wcagLevel: 'A', includeIncomplete: false, outputFormat: 'json' },
+    });
+
+    expect(options.wcagLevel).toBe('A');
+  });
+});
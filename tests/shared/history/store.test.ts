@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { resetProjectConfig, setProjectConfig } from '../../../src/shared/config/loader.js';
+import { HistoryStore, createHistoryTargetId } from '../../../src/shared/history/store.js';
+import { countResultIssues } from '../../../src/shared/history/trends.js';
+import type {
+  AccessibilityIssue,
+  AnalysisResult,
+  CombinedAnalysisResult,
+  Severity,
+} from '../../../src/shared/types/accessibility.js';
+
+// tests/setup.ts replaces it with a mock for the tool tests
+const { recordAnalysisHistory } = await vi.importActual<
+  typeof import('../../../src/shared/history/store.js')
+>('../../../src/shared/history/store.js');
+
+const TARGET = 'https://example.com/dashboard';
+
+function createIssue(severity: Severity, criterion = '1.1.1'): AccessibilityIssue {
+  return {
+    id: `issue-${Math.random()}`,
+    ruleId: 'image-alt',
+    tool: 'axe-core',
+    severity,
+    wcag: { criterion, level: 'A', principle: 'perceivable' },
+    location: { selector: 'img' },
+    message: 'Image has no alternative text',
+  };
+}
+
+function createResult(
+  issues: AccessibilityIssue[],
+  overrides: Partial<AnalysisResult> = {}
+): AnalysisResult {
+  return {
+    success: true,
+    timestamp: new Date().toISOString(),
+    target: TARGET,
+    tool: 'axe-core',
+    issues,
+    summary: {
+      total: issues.length,
+      bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+    },
+    ...overrides,
+  };
+}
+
+describe('HistoryStore', () => {
+  let directory: string;
+  let store: HistoryStore;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'a11y-history-'));
+    store = new HistoryStore({ directory, maxRunsPerTarget: 3 });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should record runs and return the stored result', async () => {
+    const result = createResult([createIssue('critical'), createIssue('minor', '1.4.3')]);
+
+    const run = await store.record('analyze-with-axe', TARGET, result);
+
+    expect(run.targetId).toBe(createHistoryTargetId(TARGET));
+    expect(run).toMatchObject({
+      total: 2,
+      bySeverity: { critical: 1, minor: 1 },
+      byCriterion: { '1.1.1': 1, '1.4.3': 1 },
+      toolsUsed: ['axe-core'],
+    });
+
+    const stored = await store.getRun(run.id);
+    expect(stored?.run).toEqual(run);
+    expect(stored?.result).toEqual(result);
+  });
+
+  it('should not lose runs recorded at the same time', async () => {
+    await Promise.all(
+      [0, 1, 2].map((index) =>
+        store.record('analyze-with-axe', TARGET, createResult([], { duration: index }))
+      )
+    );
+
+    expect(await store.listRuns({ targetId: createHistoryTargetId(TARGET) })).toHaveLength(3);
+  });
+
+  it('should drop the oldest runs beyond maxRunsPerTarget', async () => {
+    const runs = [];
+    for (let index = 0; index < 4; index++) {
+      runs.push(await store.record('analyze-with-axe', TARGET, createResult([])));
+    }
+
+    const targetId = createHistoryTargetId(TARGET);
+    const files = await readdir(join(directory, targetId));
+
+    expect((await store.getTarget(targetId))?.runs.map((run) => run.id)).toEqual(
+      runs.slice(1).map((run) => run.id)
+    );
+    expect(files).not.toContain(`${runs[0]!.id}.json`);
+    expect(await store.getRun(runs[0]!.id)).toBeUndefined();
+  });
+
+  it('should list targets and filter runs by tool', async () => {
+    await store.record('analyze-with-axe', TARGET, createResult([createIssue('serious')]));
+    await store.record('analyze-mixed', 'https://example.com/', createResult([]));
+
+    const targets = await store.listTargets();
+    expect(targets.map((target) => target.target).sort()).toEqual(['https://example.com/', TARGET]);
+
+    const runs = await store.listRuns({ tool: 'analyze-mixed' });
+    expect(runs).toHaveLength(1);
+    expect(runs[0]?.target).toBe('https://example.com/');
+  });
+
+  it('should return nothing for unknown or malformed target ids', async () => {
+    expect(await store.getTarget('0123456789abcdef')).toBeUndefined();
+    expect(await store.getTarget('../../etc')).toBeUndefined();
+    expect(await store.listTargets()).toEqual([]);
+  });
+
+  it('should compute a trend per tool from successful runs', async () => {
+    await store.record(
+      'analyze-with-axe',
+      TARGET,
+      createResult([createIssue('critical'), createIssue('serious', '1.4.3')], {
+        timestamp: '2025-01-01T00:00:00.000Z',
+      })
+    );
+    await store.record(
+      'analyze-with-axe',
+      TARGET,
+      createResult([], { success: false, error: 'Timeout', timestamp: '2025-01-02T00:00:00.000Z' })
+    );
+    await store.record(
+      'analyze-with-axe',
+      TARGET,
+      createResult([createIssue('serious', '1.4.3')], { timestamp: '2025-01-03T00:00:00.000Z' })
+    );
+
+    const trend = await store.getTrend(createHistoryTargetId(TARGET));
+    const axe = trend?.trends[0];
+
+    expect(trend?.trends).toHaveLength(1);
+    expect(axe).toMatchObject({
+      tool: 'analyze-with-axe',
+      runCount: 2,
+      direction: 'improving',
+      total: { first: 2, last: 1, change: -1 },
+      from: '2025-01-01T00:00:00.000Z',
+      to: '2025-01-03T00:00:00.000Z',
+    });
+    expect(axe?.bySeverity.critical).toEqual({ first: 1, last: 0, change: -1 });
+    expect(axe?.byCriterion).toEqual({
+      '1.1.1': { first: 1, last: 0, change: -1 },
+      '1.4.3': { first: 1, last: 1, change: 0 },
+    });
+    expect(axe?.byPrinciple.perceivable).toEqual({ first: 2, last: 1, change: -1 });
+  });
+});
+
+describe('recordAnalysisHistory', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'a11y-history-'));
+  });
+
+  afterEach(async () => {
+    resetProjectConfig();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should not record unless the project config enables history', async () => {
+    setProjectConfig({ config: { history: { directory } }, filePath: null });
+
+    await expect(
+      recordAnalysisHistory('analyze-with-axe', { type: 'url', value: TARGET }, createResult([]))
+    ).resolves.toBeUndefined();
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('should record URL analyses once history is enabled', async () => {
+    setProjectConfig({ config: { history: { enabled: true, directory } }, filePath: null });
+
+    const run = await recordAnalysisHistory(
+      'analyze-with-axe',
+      { type: 'url', value: TARGET },
+      createResult([createIssue('serious')])
+    );
+
+    expect(run).toMatchObject({ tool: 'analyze-with-axe', total: 1 });
+    expect(await readdir(directory)).toEqual([createHistoryTargetId(TARGET)]);
+  });
+});
+
+describe('countResultIssues', () => {
+  it('should take the Lighthouse score of a combined result', () => {
+    const lighthouse = createResult([], {
+      tool: 'lighthouse',
+      summary: {
+        total: 0,
+        bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+        accessibilityScore: 87,
+      } as AnalysisResult['summary'],
+    });
+    const combined: CombinedAnalysisResult = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      target: TARGET,
+      toolsUsed: ['axe-core', 'lighthouse'],
+      issues: [createIssue('moderate')],
+      summary: { total: 1, bySeverity: { critical: 0, serious: 0, moderate: 1, minor: 0 } },
+      individualResults: [createResult([createIssue('moderate')]), lighthouse],
+    };
+
+    expect(countResultIssues(combined)).toMatchObject({
+      toolsUsed: ['axe-core', 'lighthouse'],
+      total: 1,
+      score: 87,
+    });
+  });
+});
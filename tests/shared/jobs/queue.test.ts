@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JobQueue, JobCancelledError } from '../../../src/shared/jobs/queue.js';
+import { getCurrentJob, onJobAbort, scaleProgress } from '../../../src/shared/jobs/context.js';
+import type { JobContext } from '../../../src/shared/jobs/context.js';
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+}
+
+function createDeferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+function waitForAbort(job: JobContext): Promise<string> {
+  return new Promise((_, reject) => {
+    job.signal.addEventListener('abort', () => reject(new Error('aborted')));
+  });
+}
+
+describe('JobQueue', () => {
+  it('should run at most `concurrency` jobs at the same time', async () => {
+    const queue = new JobQueue<string>({ concurrency: 1 });
+    const first = createDeferred<string>();
+
+    const a = queue.submit('analyze-with-axe', () => first.promise);
+    const b = queue.submit('analyze-with-axe', async () => 'second');
+
+    expect(queue.get(a.id)?.status).toBe('running');
+    expect(queue.get(b.id)?.status).toBe('queued');
+    expect(queue.stats()).toEqual({ queued: 1, running: 1, finished: 0 });
+
+    first.resolve('first');
+
+    await expect(a.result).resolves.toBe('first');
+    await expect(b.result).resolves.toBe('second');
+    expect(queue.get(b.id)?.status).toBe('completed');
+    expect(queue.getResult(b.id)).toBe('second');
+    expect(queue.stats()).toEqual({ queued: 0, running: 0, finished: 2 });
+  });
+
+  it('should drop a queued job when it is cancelled', async () => {
+    const queue = new JobQueue<string>({ concurrency: 1 });
+    const first = createDeferred<string>();
+    const task = vi.fn(async () => 'never');
+
+    queue.submit('analyze-with-axe', () => first.promise);
+    const queued = queue.submit('analyze-with-axe', task);
+
+    expect(queue.cancel(queued.id)).toBe(true);
+    await expect(queued.result).rejects.toBeInstanceOf(JobCancelledError);
+
+    first.resolve('done');
+    await Promise.resolve();
+
+    expect(task).not.toHaveBeenCalled();
+    expect(queue.get(queued.id)?.status).toBe('cancelled');
+  });
+
+  it('should abort the signal of a running job and mark it cancelled', async () => {
+    const queue = new JobQueue<string>();
+    const job = queue.submit('analyze-with-lighthouse', waitForAbort);
+
+    expect(queue.cancel(job.id)).toBe(true);
+
+    await expect(job.result).rejects.toBeInstanceOf(JobCancelledError);
+    expect(queue.get(job.id)?.status).toBe('cancelled');
+    expect(queue.cancel(job.id)).toBe(false);
+  });
+
+  it('should cancel the job when the external signal aborts', async () => {
+    const queue = new JobQueue<string>();
+    const controller = new AbortController();
+    const job = queue.submit('analyze-mixed', waitForAbort, { signal: controller.signal });
+
+    controller.abort();
+
+    await expect(job.result).rejects.toBeInstanceOf(JobCancelledError);
+  });
+
+  it('should record the error of a failed job', async () => {
+    const queue = new JobQueue<string>();
+    const job = queue.submit('analyze-with-pa11y', async () => {
+      throw new Error('Navigation timeout');
+    });
+
+    await expect(job.result).rejects.toThrow('Navigation timeout');
+    expect(queue.get(job.id)).toMatchObject({ status: 'failed', error: 'Navigation timeout' });
+  });
+
+  it('should only forward progress that increases', async () => {
+    const queue = new JobQueue<string>();
+    const onProgress = vi.fn();
+
+    const job = queue.submit(
+      'analyze-site',
+      async (context) => {
+        context.reportProgress(1, 3, 'first page');
+        context.reportProgress(1, 3, 'again');
+        context.reportProgress(2, 3, 'second page');
+        return 'done';
+      },
+      { onProgress }
+    );
+    await job.result;
+
+    expect(onProgress.mock.calls.map(([progress]) => progress.progress)).toEqual([1, 2, 3]);
+    expect(onProgress).toHaveBeenLastCalledWith({ progress: 3, total: 4, message: 'second page' });
+    expect(queue.get(job.id)?.progress).toEqual({ progress: 2, total: 3, message: 'second page' });
+  });
+
+  it('should send the started notification of a job that was queued', async () => {
+    const queue = new JobQueue<string>({ concurrency: 1 });
+    const first = createDeferred<string>();
+    const onProgress = vi.fn();
+
+    queue.submit('analyze-with-axe', () => first.promise);
+    const queued = queue.submit('analyze-with-axe', async () => 'second', {
+      id: 'job_queued',
+      onProgress,
+    });
+    first.resolve('first');
+    await queued.result;
+
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { progress: 0, message: 'Job job_queued queued behind 1 job(s)' },
+      { progress: 1, message: 'Job job_queued started' },
+    ]);
+  });
+
+  it('should expose the job context to code running inside the job', async () => {
+    const queue = new JobQueue<string | undefined>();
+    const listener = vi.fn();
+
+    const job = queue.submit(
+      'analyze-contrast',
+      async () => {
+        onJobAbort(listener);
+        queue.cancel(getCurrentJob()!.id);
+        return getCurrentJob()?.id;
+      },
+      { id: 'job_custom' }
+    );
+
+    await expect(job.result).rejects.toBeInstanceOf(JobCancelledError);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(onJobAbort(listener)).toBeUndefined();
+  });
+
+  it('should forget the oldest finished jobs beyond maxFinishedJobs', async () => {
+    const queue = new JobQueue<number>({ maxFinishedJobs: 2 });
+
+    const handles = [1, 2, 3].map((value) => queue.submit('analyze-with-axe', async () => value));
+    await Promise.all(handles.map((handle) => handle.result));
+
+    expect(queue.get(handles[0]!.id)).toBeUndefined();
+    expect(queue.list().map((job) => job.id)).toEqual([handles[2]!.id, handles[1]!.id]);
+  });
+});
+
+describe('scaleProgress', () => {
+  it('should map the progress of a step onto the whole run', () => {
+    const report = vi.fn();
+    const secondOfThree = scaleProgress(report, 1, 3);
+
+    secondOfThree(1, 2, 'first state');
+    secondOfThree(2, 2, 'second state');
+
+    expect(report.mock.calls).toEqual([
+      [3, 6, 'first state'],
+      [4, 6, 'second state'],
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { toJUnitXml, escapeXml } from '../../../src/shared/reporters/index.js';
+import type {
+  AccessibilityIssue,
+  AnalysisResult,
+  CombinedAnalysisResult,
+} from '../../../src/shared/types/accessibility.js';
+import type { ContrastAnalysisResult } from '../../../src/tools/Contrast/types/index.js';
+
+function createIssue(overrides: Partial<AccessibilityIssue> = {}): AccessibilityIssue {
+  return {
+    id: 'axe-0',
+    ruleId: 'image-alt',
+    tool: 'axe-core',
+    severity: 'serious',
+    wcag: { criterion: '1.1.1', level: 'A', principle: 'perceivable', title: 'Non-text Content' },
+    location: { selector: 'img.logo', snippet: '<img src="logo.png">' },
+    message: 'Images must have alternate text',
+    ...overrides,
+  };
+}
+
+function createResult(issues: AccessibilityIssue[], overrides: Partial<AnalysisResult> = {}) {
+  const result: AnalysisResult = {
+    success: true,
+    timestamp: '2025-01-15T10:30:00.000Z',
+    duration: 3200,
+    target: 'https://example.com',
+    tool: 'axe-core',
+    issues,
+    summary: {
+      total: issues.length,
+      bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+    },
+    ...overrides,
+  };
+  return result;
+}
+
+describe('escapeXml', () => {
+  it('should escape markup and strip invalid control characters', () => {
+    expect(escapeXml('<a href="x">&\'</a>\u0001')).toBe(
+      '&lt;a href=&quot;x&quot;&gt;&amp;&apos;&lt;/a&gt;'
+    );
+  });
+});
+
+describe('toJUnitXml', () => {
+  it('should create one test case per WCAG criterion with a single failure listing its issues', () => {
+    const xml = toJUnitXml(
+      createResult([
+        createIssue(),
+        createIssue({ id: 'axe-1', location: { selector: 'img.hero' } }),
+        createIssue({
+          id: 'axe-2',
+          ruleId: 'color-contrast',
+          wcag: { criterion: '1.4.3', level: 'AA', principle: 'perceivable' },
+        }),
+      ])
+    );
+
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/);
+    expect(xml).toContain(
+      '<testsuites name="accessibility-hub" tests="2" failures="2" errors="0" time="3.200">'
+    );
+    expect(xml).toContain('<testcase name="WCAG 1.1.1 Non-text Content"');
+    expect(xml).toContain('<testcase name="WCAG 1.4.3"');
+    expect(xml.match(/<failure /g)).toHaveLength(2);
+    expect(xml).toContain('<failure message="2 issues: Images must have alternate text');
+    expect(xml).toContain('Selector: img.hero');
+    expect(xml).toContain('Snippet: &lt;img src=&quot;logo.png&quot;&gt;');
+  });
+
+  it('should group by rule when requested', () => {
+    const xml = toJUnitXml(createResult([createIssue()]), { groupBy: 'rule' });
+
+    expect(xml).toContain('<testcase name="image-alt"');
+  });
+
+  it('should report a passing test case when no issues are found', () => {
+    const xml = toJUnitXml(createResult([]));
+
+    expect(xml).toContain('tests="1" failures="0" errors="0"');
+    expect(xml).toContain(
+      '<testcase name="accessibility" classname="axe-core.https://example.com"/>'
+    );
+  });
+
+  it('should report analysis errors as errored test cases', () => {
+    const xml = toJUnitXml(createResult([], { success: false, error: 'Navigation timeout' }));
+
+    expect(xml).toContain('<error message="Navigation timeout" type="analysis-error"/>');
+    expect(xml).toContain('errors="1"');
+  });
+
+  it('should create one suite per tool for combined results', () => {
+    const combined: CombinedAnalysisResult = {
+      success: true,
+      timestamp: '2025-01-15T10:30:00.000Z',
+      target: 'https://example.com',
+      toolsUsed: ['axe-core', 'pa11y'],
+      issues: [createIssue(), createIssue({ id: 'pa11y-0', tool: 'pa11y', ruleId: 'H37' })],
+      summary: { total: 2, bySeverity: { critical: 0, serious: 2, moderate: 0, minor: 0 } },
+    };
+
+    const xml = toJUnitXml(combined);
+
+    expect(xml).toContain('<testsuite name="axe-core"');
+    expect(xml).toContain('<testsuite name="pa11y"');
+  });
+
+  it('should accept contrast results', () => {
+    const contrast: ContrastAnalysisResult = {
+      success: true,
+      timestamp: '2025-01-15T10:30:00.000Z',
+      target: '<p style="color:#777">Low contrast</p>',
+      wcagLevel: 'AA',
+      contrastAlgorithm: 'WCAG21',
+      issues: [
+        createIssue({
+          tool: 'contrast-analyzer',
+          ruleId: 'color-contrast',
+          wcag: { criterion: '1.4.3', level: 'AA', principle: 'perceivable' },
+        }) as ContrastAnalysisResult['issues'][number],
+      ],
+      summary: { total: 1, passing: 0, failing: 1 },
+    };
+
+    const xml = toJUnitXml(contrast);
+
+    expect(xml).toContain('<testsuite name="contrast-analyzer"');
+    expect(xml).toContain('classname="contrast-analyzer.html"');
+  });
+});
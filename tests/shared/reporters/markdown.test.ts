@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { toMarkdown } from '../../../src/shared/reporters/index.js';
+import type {
+  AccessibilityIssue,
+  AnalysisResult,
+} from '../../../src/shared/types/accessibility.js';
+
+function createIssue(overrides: Partial<AccessibilityIssue> = {}): AccessibilityIssue {
+  return {
+    id: 'axe-0',
+    ruleId: 'image-alt',
+    tool: 'axe-core',
+    severity: 'serious',
+    wcag: { criterion: '1.1.1', level: 'A', principle: 'perceivable', title: 'Non-text Content' },
+    location: { selector: 'img.logo', snippet: '<img src="logo.png">' },
+    message: 'Images must have alternate text',
+    suggestedActions: ['Add an alt attribute'],
+    ...overrides,
+  };
+}
+
+function createResult(issues: AccessibilityIssue[]): AnalysisResult {
+  return {
+    success: true,
+    timestamp: '2025-01-15T10:30:00.000Z',
+    target: 'https://example.com',
+    tool: 'axe-core',
+    issues,
+    summary: {
+      total: issues.length,
+      bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+    },
+  };
+}
+
+describe('toMarkdown', () => {
+  it('should summarize issues by severity and group them by WCAG criterion', () => {
+    const markdown = toMarkdown(createResult([createIssue(), createIssue({ severity: 'minor' })]));
+
+    expect(markdown).toContain('- **Target:** https://example.com');
+    expect(markdown).toContain('| Serious | 1 |');
+    expect(markdown).toContain('| Minor | 1 |');
+    expect(markdown).toContain('| **Total** | **2** |');
+    expect(markdown).toContain('### WCAG 1.1.1 Non-text Content (2)');
+    expect(markdown).toContain('  - Selector: `img.logo`');
+    expect(markdown).toContain('  - Suggested: Add an alt attribute');
+  });
+
+  it('should state when no issues were found', () => {
+    expect(toMarkdown(createResult([]))).toContain('No accessibility issues found.');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toSarifLog,
+  severityToSarifLevel,
+  SARIF_SCHEMA_URI,
+  HTML_CONTENT_ARTIFACT_URI,
+} from '../../../src/shared/reporters/index.js';
+import type {
+  AccessibilityIssue,
+  AnalysisResult,
+  CombinedAnalysisResult,
+} from '../../../src/shared/types/accessibility.js';
+
+function createIssue(overrides: Partial<AccessibilityIssue> = {}): AccessibilityIssue {
+  return {
+    id: 'axe-0',
+    ruleId: 'image-alt',
+    tool: 'axe-core',
+    severity: 'serious',
+    wcag: {
+      criterion: '1.1.1',
+      level: 'A',
+      principle: 'perceivable',
+      title: 'Non-text Content',
+      url: 'https://www.w3.org/WAI/WCAG21/Understanding/non-text-content.html',
+    },
+    location: { selector: 'img.logo', snippet: '<img src="logo.png" class="logo">' },
+    message: 'Images must have alternate text',
+    suggestedActions: ['Add an alt attribute describing the image'],
+    ...overrides,
+  };
+}
+
+function createResult(issues: AccessibilityIssue[]): AnalysisResult {
+  return {
+    success: true,
+    timestamp: '2025-01-15T10:30:00.000Z',
+    duration: 1200,
+    target: 'https://example.com',
+    tool: 'axe-core',
+    issues,
+    summary: {
+      total: issues.length,
+      bySeverity: { critical: 0, serious: issues.length, moderate: 0, minor: 0 },
+    },
+    metadata: { toolVersion: '4.10.0' },
+  };
+}
+
+describe('severityToSarifLevel', () => {
+  it('should map severities to SARIF levels', () => {
+    expect(severityToSarifLevel('critical')).toBe('error');
+    expect(severityToSarifLevel('serious')).toBe('error');
+    expect(severityToSarifLevel('moderate')).toBe('warning');
+    expect(severityToSarifLevel('minor')).toBe('note');
+  });
+});
+
+describe('toSarifLog', () => {
+  it('should produce a SARIF 2.1.0 log with one run for a single tool result', () => {
+    const log = toSarifLog(createResult([createIssue()]));
+
+    expect(log.$schema).toBe(SARIF_SCHEMA_URI);
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0]?.tool.driver.name).toBe('axe-core');
+    expect(log.runs[0]?.tool.driver.version).toBe('4.10.0');
+    expect(log.runs[0]?.invocations[0]?.executionSuccessful).toBe(true);
+  });
+
+  it('should register each rule once and reference it by index', () => {
+    const log = toSarifLog(
+      createResult([
+        createIssue(),
+        createIssue({ id: 'axe-1', location: { selector: 'img.hero' } }),
+        createIssue({ id: 'axe-2', ruleId: 'label', wcag: undefined, suggestedActions: undefined }),
+      ])
+    );
+    const run = log.runs[0]!;
+
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual(['image-alt', 'label']);
+    expect(run.results.map((result) => result.ruleIndex)).toEqual([0, 0, 1]);
+  });
+
+  it('should put the WCAG reference and suggested actions into rule help', () => {
+    const rule = toSarifLog(createResult([createIssue()])).runs[0]!.tool.driver.rules[0]!;
+
+    expect(rule.helpUri).toBe('https://www.w3.org/WAI/WCAG21/Understanding/non-text-content.html');
+    expect(rule.help.text).toContain('WCAG 1.1.1 Non-text Content (Level A)');
+    expect(rule.help.text).toContain('- Add an alt attribute describing the image');
+    expect(rule.help.markdown).toContain('**Suggested actions:**');
+    expect(rule.properties.tags).toContain('wcag111');
+  });
+
+  it('should map selectors to logical locations and the URL to the artifact', () => {
+    const result = toSarifLog(createResult([createIssue()])).runs[0]!.results[0]!;
+    const location = result.locations[0]!;
+
+    expect(result.level).toBe('error');
+    expect(location.physicalLocation?.artifactLocation.uri).toBe('https://example.com');
+    expect(location.physicalLocation?.region?.snippet?.text).toContain('<img');
+    expect(location.logicalLocations).toEqual([
+      { name: 'img.logo', fullyQualifiedName: 'img.logo', kind: 'element' },
+    ]);
+    expect(result.partialFingerprints['accessibilityHubFingerprint/v1']).toContain('image-alt');
+  });
+
+  it('should map file locations to physical regions', () => {
+    const issue = createIssue({ location: { file: 'src/index.html', line: 12, column: 4 } });
+    const location = toSarifLog(createResult([issue])).runs[0]!.results[0]!.locations[0]!;
+
+    expect(location.physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/index.html' },
+      region: { startLine: 12, startColumn: 5 },
+    });
+  });
+
+  it('should split combined results into one run per tool', () => {
+    const combined: CombinedAnalysisResult = {
+      success: false,
+      timestamp: '2025-01-15T10:30:00.000Z',
+      target: '<html></html>',
+      toolsUsed: ['axe-core', 'pa11y'],
+      issues: [createIssue(), createIssue({ id: 'pa11y-0', tool: 'pa11y', ruleId: 'H37' })],
+      summary: { total: 2, bySeverity: { critical: 0, serious: 2, moderate: 0, minor: 0 } },
+      error: 'pa11y: timeout',
+    };
+    const log = toSarifLog(combined);
+
+    expect(log.runs.map((run) => run.tool.driver.name)).toEqual(['axe-core', 'pa11y']);
+    expect(log.runs[1]?.results[0]?.ruleId).toBe('H37');
+    expect(log.runs[0]?.results[0]?.locations[0]?.physicalLocation?.artifactLocation.uri).toBe(
+      HTML_CONTENT_ARTIFACT_URI
+    );
+    expect(log.runs[0]?.invocations[0]?.toolExecutionNotifications?.[0]?.message.text).toBe(
+      'pa11y: timeout'
+    );
+  });
+});
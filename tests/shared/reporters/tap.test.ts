@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { toTap } from '../../../src/shared/reporters/index.js';
+import type {
+  AccessibilityIssue,
+  CombinedAnalysisResult,
+} from '../../../src/shared/types/accessibility.js';
+
+function createIssue(overrides: Partial<AccessibilityIssue> = {}): AccessibilityIssue {
+  return {
+    id: 'axe-0',
+    ruleId: 'image-alt',
+    tool: 'axe-core',
+    severity: 'serious',
+    wcag: { criterion: '1.1.1', level: 'A', principle: 'perceivable', title: 'Non-text Content' },
+    location: { selector: 'img.logo', snippet: '<img src="logo.png">' },
+    message: 'Images must have alternate text',
+    ...overrides,
+  };
+}
+
+function createResult(
+  issues: AccessibilityIssue[],
+  overrides: Partial<CombinedAnalysisResult> = {}
+): CombinedAnalysisResult {
+  return {
+    success: true,
+    timestamp: '2025-01-15T10:30:00.000Z',
+    target: 'https://example.com',
+    toolsUsed: ['axe-core', 'pa11y'],
+    issues,
+    summary: {
+      total: issues.length,
+      bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+    },
+    ...overrides,
+  };
+}
+
+describe('toTap', () => {
+  it('should emit a plan and one test point per criterion and tool', () => {
+    const tap = toTap(createResult([createIssue()]));
+    const lines = tap.split('\n');
+
+    expect(lines[0]).toBe('TAP version 13');
+    expect(lines[1]).toBe('1..2');
+    expect(tap).toContain('not ok 1 - axe-core: WCAG 1.1.1 Non-text Content');
+    expect(tap).toContain('ok 2 - pa11y: accessibility');
+  });
+
+  it('should include failures with selector and snippet in the YAML block', () => {
+    const tap = toTap(createResult([createIssue(), createIssue({ severity: 'critical' })]));
+
+    expect(tap).toContain('  severity: critical');
+    expect(tap).toContain('  count: 2');
+    expect(tap).toContain('      selector: "img.logo"');
+    expect(tap).toContain('      snippet: "<img src=\\"logo.png\\">"');
+  });
+
+  it('should escape hash characters in descriptions', () => {
+    const tap = toTap(
+      createResult([createIssue({ ruleId: 'rule#1', wcag: undefined })], {
+        toolsUsed: ['axe-core'],
+      })
+    );
+
+    expect(tap).toContain('not ok 1 - axe-core: rule\\#1');
+  });
+
+  it('should report analysis errors as a failing test point', () => {
+    const tap = toTap(
+      createResult([], { success: false, error: 'Browser crashed', toolsUsed: [] })
+    );
+
+    expect(tap).toContain('1..1');
+    expect(tap).toContain('not ok 1 - analysis');
+    expect(tap).toContain('  message: "Browser crashed"');
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTranscript,
+  calculateTreeStats,
+  detectTreeIssues,
+  findDuplicateLandmarks,
+  findEmptyNames,
+  findGenericWrappers,
+  toAccessibilityNode,
+} from '../../../../src/tools/AccessibilityTree/utils/accessibility-tree.utils.js';
+import { accessibilityTreeNormalizer } from '../../../../src/tools/AccessibilityTree/normalizers/index.js';
+import type { RawAXNode } from '../../../../src/tools/AccessibilityTree/types/index.js';
+
+const page: RawAXNode = {
+  role: 'RootWebArea',
+  name: 'Shop',
+  children: [
+    {
+      role: 'banner',
+      name: '',
+      children: [
+        { role: 'link', name: 'Home', children: [{ role: 'StaticText', name: 'Home' }] },
+        { role: 'button', name: '', expanded: false },
+      ],
+    },
+    {
+      role: 'main',
+      name: '',
+      children: [
+        { role: 'heading', name: 'Products', level: 1 },
+        {
+          role: 'generic',
+          name: 'Filters',
+          children: [{ role: 'checkbox', name: 'In stock', checked: true }],
+        },
+        { role: 'image', name: '' },
+      ],
+    },
+    { role: 'main', name: '' },
+  ],
+};
+
+describe('toAccessibilityNode', () => {
+  it('should assign paths and drop empty names', () => {
+    const tree = toAccessibilityNode(page);
+    const button = tree.children?.[0]?.children?.[1];
+
+    expect(tree.path).toBe('0');
+    expect(button?.path).toBe('0.0.1');
+    expect(button?.name).toBeUndefined();
+    expect(button?.states).toEqual(['collapsed']);
+  });
+
+  it('should map checked and pressed values to states', () => {
+    const node = toAccessibilityNode({ role: 'checkbox', name: 'All', checked: 'mixed' });
+    expect(node.states).toEqual(['partially checked']);
+  });
+});
+
+describe('buildTranscript', () => {
+  it('should announce roles, names and states in reading order', () => {
+    const transcript = buildTranscript(toAccessibilityNode(page));
+
+    expect(transcript).toEqual([
+      'document, Shop',
+      'banner landmark',
+      'link, Home',
+      'button, (no name), collapsed',
+      'main landmark',
+      'heading level 1, Products',
+      'generic, Filters',
+      'checkbox, In stock, checked',
+      'image, (no name)',
+      'main landmark',
+    ]);
+  });
+
+  it('should return an empty transcript without a tree', () => {
+    expect(buildTranscript(null)).toEqual([]);
+  });
+});
+
+describe('calculateTreeStats', () => {
+  it('should count nodes, interactive roles and landmarks', () => {
+    const stats = calculateTreeStats(toAccessibilityNode(page));
+
+    expect(stats.nodes).toBe(11);
+    expect(stats.interactive).toBe(3);
+    expect(stats.landmarks).toEqual({ banner: 1, main: 2 });
+  });
+});
+
+describe('tree issue detection', () => {
+  const tree = toAccessibilityNode(page);
+
+  it('should flag unnamed nodes with the criterion of their role', () => {
+    const findings = findEmptyNames(tree);
+
+    expect(findings.map((f) => [f.role, f.criterion])).toEqual([
+      ['button', '4.1.2'],
+      ['image', '1.1.1'],
+    ]);
+  });
+
+  it('should flag named generic containers that wrap controls', () => {
+    const findings = findGenericWrappers(tree);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]?.path).toBe('0.1.1');
+  });
+
+  it('should flag a second main landmark', () => {
+    const findings = findDuplicateLandmarks(tree);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]?.path).toBe('0.2');
+  });
+
+  it('should allow same-role landmarks with different names', () => {
+    const navs = toAccessibilityNode({
+      role: 'RootWebArea',
+      children: [
+        { role: 'navigation', name: 'Main' },
+        { role: 'navigation', name: 'Footer' },
+      ],
+    });
+
+    expect(findDuplicateLandmarks(navs)).toHaveLength(0);
+  });
+
+  it('should skip excluded rules', () => {
+    const findings = detectTreeIssues(tree, ['duplicate-landmark']);
+
+    expect(findings.map((f) => f.ruleId)).not.toContain('duplicate-landmark');
+    expect(findings).toHaveLength(3);
+  });
+});
+
+describe('accessibilityTreeNormalizer', () => {
+  it('should normalize findings into issues with WCAG metadata', () => {
+    const [issue] = accessibilityTreeNormalizer.normalize(
+      [
+        {
+          ruleId: 'empty-accessible-name',
+          path: '0.0.1',
+          role: 'button',
+          criterion: '4.1.2',
+          selector: '#menu',
+          detail: 'announced as "button, (no name)"',
+        },
+      ],
+      { tool: 'accessibility-tree' }
+    );
+
+    expect(issue?.tool).toBe('accessibility-tree');
+    expect(issue?.severity).toBe('serious');
+    expect(issue?.wcag?.criterion).toBe('4.1.2');
+    expect(issue?.wcag?.principle).toBe('robust');
+    expect(issue?.location.selector).toBe('#menu');
+    expect(issue?.message).toContain('(no name)');
+  });
+});
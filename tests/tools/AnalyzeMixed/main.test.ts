@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { AnalysisResult } from '../../../src/shared/types/accessibility.js';
+import type { AnalysisTarget } from '../../../src/shared/types/analysis.js';
+
+interface Deferred {
+  promise: Promise<void>;
+  resolve: () => void;
+}
+
+function createDeferred(): Deferred {
+  let resolve!: () => void;
+  const promise = new Promise<void>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+const createdAdapters: Array<{ ignoreHTTPSErrors: boolean }> = [];
+const mockDispose = vi.fn().mockResolvedValue(undefined);
+let firstAnalysis = createDeferred();
+
+vi.mock('../../../src/tools/Axe/adapters/index.js', () => ({
+  AxeAdapter: class {
+    constructor(config: { ignoreHTTPSErrors: boolean }) {
+      createdAdapters.push({ ignoreHTTPSErrors: config.ignoreHTTPSErrors });
+    }
+
+    dispose = mockDispose;
+
+    async analyze(target: AnalysisTarget): Promise<AnalysisResult> {
+      if (!target.options?.ignoreHTTPSErrors) {
+        await firstAnalysis.promise;
+      }
+      return {
+        success: true,
+        timestamp: '2026-01-15T10:00:00.000Z',
+        duration: 100,
+        target: target.value,
+        tool: 'axe-core',
+        issues: [],
+        summary: { total: 0, bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 } },
+      };
+    }
+  },
+}));
+
+const { runCombinedAnalysis } = await import('../../../src/tools/AnalyzeMixed/main.js');
+
+function runAxe(ignoreHTTPSErrors: boolean) {
+  const target: AnalysisTarget = {
+    type: 'url',
+    value: ignoreHTTPSErrors ? 'https://localhost:8443/' : 'https://example.com/',
+    options: { ignoreHTTPSErrors },
+  };
+
+  return runCombinedAnalysis(
+    target,
+    { wcagLevel: 'AA' },
+    {
+      tools: ['axe-core'],
+      deduplicate: true,
+      ignoreHTTPSErrors,
+      logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as never,
+    }
+  );
+}
+
+describe('runCombinedAnalysis', () => {
+  beforeEach(() => {
+    createdAdapters.length = 0;
+    mockDispose.mockClear();
+    firstAnalysis = createDeferred();
+  });
+
+  it('should not replace the adapters of a running analysis with other HTTPS settings', async () => {
+    const strict = runAxe(false);
+    const lenient = await runAxe(true);
+    firstAnalysis.resolve();
+
+    expect(lenient.result.success).toBe(true);
+    expect((await strict).result.success).toBe(true);
+    expect(createdAdapters).toEqual([{ ignoreHTTPSErrors: false }, { ignoreHTTPSErrors: true }]);
+    expect(mockDispose).not.toHaveBeenCalled();
+  });
+});
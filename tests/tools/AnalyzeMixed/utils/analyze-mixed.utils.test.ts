@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCombinedSummary,
+  buildContrastOptions,
+  fromContrastResult,
+} from '../../../../src/tools/AnalyzeMixed/utils/analyze-mixed.utils.js';
+import { createPageSnapshot } from '../../../../src/shared/browser/navigation.js';
+import type { AccessibilityIssue } from '../../../../src/shared/types/accessibility.js';
+import type { ContrastAnalysisResult } from '../../../../src/tools/Contrast/types/index.js';
+
+function createIssue(overrides: Partial<AccessibilityIssue> = {}): AccessibilityIssue {
+  return {
+    id: 'contrast-0',
+    ruleId: 'color-contrast',
+    tool: 'contrast-analyzer',
+    severity: 'serious',
+    wcag: { criterion: '1.4.3', level: 'AA', principle: 'perceivable' },
+    location: { selector: 'p.muted' },
+    message: 'Text contrast ratio 3.2:1 is below 4.5:1',
+    ...overrides,
+  };
+}
+
+describe('buildCombinedSummary', () => {
+  it('should count issues for every tool that was run', () => {
+    const summary = buildCombinedSummary(
+      [createIssue(), createIssue({ id: 'axe-0', tool: 'axe-core' })],
+      ['axe-core', 'contrast-analyzer', 'accessibility-tree']
+    );
+
+    expect(summary.byTool).toEqual({
+      'axe-core': 1,
+      pa11y: 0,
+      lighthouse: 0,
+      'contrast-analyzer': 1,
+      'accessibility-tree': 0,
+    });
+  });
+});
+
+describe('fromContrastResult', () => {
+  it('should convert a contrast result into an analysis result', () => {
+    const snapshot = createPageSnapshot('https://example.com/');
+    const contrast: ContrastAnalysisResult = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration: 420,
+      target: 'https://example.com',
+      wcagLevel: 'AA',
+      contrastAlgorithm: 'WCAG21',
+      issues: [createIssue({ severity: 'critical' }), createIssue({ id: 'contrast-1' })],
+      summary: { total: 12, passing: 10, failing: 2 },
+      snapshots: [snapshot],
+    };
+
+    const result = fromContrastResult(contrast);
+
+    expect(result.tool).toBe('contrast-analyzer');
+    expect(result.issues).toHaveLength(2);
+    expect(result.summary.total).toBe(2);
+    expect(result.summary.bySeverity).toMatchObject({ critical: 1, serious: 1 });
+    expect(result.summary).not.toHaveProperty('byTool');
+    expect(result.snapshots).toEqual([snapshot]);
+  });
+});
+
+describe('buildContrastOptions', () => {
+  it('should raise level A to the lowest contrast level', () => {
+    expect(buildContrastOptions({ wcagLevel: 'A' }).wcagLevel).toBe('AA');
+    expect(buildContrastOptions({ wcagLevel: 'AAA' }).wcagLevel).toBe('AAA');
+  });
+});
+
+describe('createPageSnapshot', () => {
+  it('should create unique snapshot ids', () => {
+    const first = createPageSnapshot('https://example.com/');
+    const second = createPageSnapshot();
+
+    expect(first.id).toMatch(/^snap_/);
+    expect(second.id).not.toBe(first.id);
+    expect(second.url).toBeUndefined();
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  escapeHtml,
+  renderHtmlReport,
+  saveHtmlReport,
+  writeHtmlReport,
+} from '../../../../src/tools/AnalyzeMixed/utils/html-report.utils.js';
+import { buildCombinedSummary } from '../../../../src/tools/AnalyzeMixed/utils/analyze-mixed.utils.js';
+import type {
+  AccessibilityIssue,
+  CombinedAnalysisResult,
+} from '../../../../src/shared/types/accessibility.js';
+
+function createIssue(overrides: Partial<AccessibilityIssue> = {}): AccessibilityIssue {
+  return {
+    id: 'axe-0',
+    ruleId: 'image-alt',
+    tool: 'axe-core',
+    severity: 'critical',
+    wcag: { criterion: '1.1.1', level: 'A', principle: 'perceivable' },
+    location: { selector: 'img.hero', snippet: '<img class="hero" src="hero.png">' },
+    message: 'Images must have alternate text',
+    ...overrides,
+  };
+}
+
+function createResult(issues: AccessibilityIssue[]): CombinedAnalysisResult {
+  return {
+    success: true,
+    timestamp: '2026-01-15T10:00:00.000Z',
+    duration: 2400,
+    target: 'https://example.com',
+    toolsUsed: ['axe-core', 'pa11y'],
+    issues,
+    summary: buildCombinedSummary(issues, ['axe-core', 'pa11y']),
+  };
+}
+
+describe('escapeHtml', () => {
+  it('should escape markup characters', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;'
+    );
+  });
+});
+
+describe('renderHtmlReport', () => {
+  it('should escape issue content taken from the page', () => {
+    const html = renderHtmlReport(
+      createResult([createIssue({ message: '<script>alert(1)</script>' })])
+    );
+
+    expect(html).not.toContain('<script>alert(1)</script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('&lt;img class=&quot;hero&quot; src=&quot;hero.png&quot;&gt;');
+  });
+
+  it('should group issues by WCAG criterion with unmapped issues last', () => {
+    const html = renderHtmlReport(
+      createResult([
+        createIssue({ id: 'pa11y-0', tool: 'pa11y', wcag: undefined }),
+        createIssue({
+          id: 'axe-1',
+          ruleId: 'color-contrast',
+          severity: 'serious',
+          wcag: { criterion: '1.4.3', level: 'AA', principle: 'perceivable' },
+        }),
+        createIssue(),
+      ])
+    );
+
+    const first = html.indexOf('aria-label="WCAG 1.1.1"');
+    const second = html.indexOf('aria-label="WCAG 1.4.3"');
+    const unmapped = html.indexOf('aria-label="Not mapped to WCAG"');
+
+    expect(first).toBeGreaterThan(-1);
+    expect(second).toBeGreaterThan(first);
+    expect(unmapped).toBeGreaterThan(second);
+  });
+
+  it('should include human context, affected users and suggested actions', () => {
+    const html = renderHtmlReport(
+      createResult([
+        createIssue({
+          humanContext: 'Screen readers announce the file name instead of the image.',
+          affectedUsers: ['screen-reader', 'low-vision'],
+          suggestedActions: ['Add an alt attribute that describes the image'],
+        }),
+      ])
+    );
+
+    expect(html).toContain('Screen readers announce the file name instead of the image.');
+    expect(html).toContain('<li>Screen reader users</li>');
+    expect(html).toContain('<li>Low vision users</li>');
+    expect(html).toContain('Add an alt attribute that describes the image');
+    expect(html).toContain('data-users="screen-reader low-vision"');
+  });
+
+  it('should embed screenshots keyed by issue id', () => {
+    const html = renderHtmlReport(createResult([createIssue()]), {
+      screenshots: { 'axe-0': 'iVBORw0KGgo=' },
+    });
+
+    expect(html).toContain('src="data:image/png;base64,iVBORw0KGgo="');
+    expect(html).toContain('alt="Screenshot of img.hero"');
+  });
+
+  it('should only render the filters when there are issues', () => {
+    const withIssues = renderHtmlReport(createResult([createIssue()]));
+    const withoutIssues = renderHtmlReport(createResult([]));
+
+    expect(withIssues).toContain('<form class="filters"');
+    expect(withIssues).toContain('<script>');
+    expect(withoutIssues).not.toContain('<form class="filters"');
+    expect(withoutIssues).toContain('No issues to show.');
+  });
+});
+
+describe('writeHtmlReport', () => {
+  it('should create missing folders and return the absolute path', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'a11y-report-'));
+
+    try {
+      const path = await writeHtmlReport(join(directory, 'reports', 'index.html'), '<p>ok</p>');
+
+      expect(path).toBe(join(directory, 'reports', 'index.html'));
+      expect(await readFile(path, 'utf-8')).toBe('<p>ok</p>');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('saveHtmlReport', () => {
+  it('should write the report with the element screenshots', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'a11y-report-'));
+    const issue = createIssue({
+      screenshot: { marker: 1, boundingBox: { x: 0, y: 0, width: 10, height: 10 }, data: 'aW1n' },
+    });
+
+    try {
+      const saved = await saveHtmlReport(join(directory, 'index.html'), createResult([issue]));
+
+      expect(saved).toEqual({ htmlReportPath: join(directory, 'index.html') });
+      expect(await readFile(join(directory, 'index.html'), 'utf-8')).toContain(
+        'data:image/png;base64,aW1n'
+      );
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should return the error instead of throwing when the file cannot be written', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'a11y-report-'));
+    await writeFile(join(directory, 'taken'), '');
+
+    try {
+      const saved = await saveHtmlReport(join(directory, 'taken', 'index.html'), createResult([]));
+
+      expect(saved.htmlReportPath).toBeUndefined();
+      expect(saved.htmlReportError).toMatch(/^Could not write HTML report to .*taken/);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
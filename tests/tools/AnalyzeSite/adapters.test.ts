@@ -0,0 +1,40 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getBrowserPool } from '../../../src/shared/browser/index.js';
+import { SiteCrawler } from '../../../src/tools/AnalyzeSite/adapters/index.js';
+import { CrawlOptionsSchema } from '../../../src/tools/AnalyzeSite/types/index.js';
+
+describe('SiteCrawler', () => {
+  const crawler = new SiteCrawler();
+
+  describe('crawl', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should analyze the seed when the patterns match it', async () => {
+      const options = CrawlOptionsSchema.parse({ maxDepth: 0 });
+
+      await expect(crawler.crawl('https://example.com/', options)).resolves.toEqual([
+        { url: 'https://example.com/', depth: 0, source: 'seed' },
+      ]);
+    });
+
+    it('should leave out a seed matched by the exclude patterns', async () => {
+      const options = CrawlOptionsSchema.parse({ maxDepth: 0, exclude: ['/'] });
+
+      await expect(crawler.crawl('https://example.com/', options)).rejects.toThrow(
+        'No pages to analyze'
+      );
+    });
+
+    it('should not load pages or sitemaps once the job is cancelled', async () => {
+      const acquire = vi.spyOn(getBrowserPool(), 'acquire');
+      const options = CrawlOptionsSchema.parse({ maxDepth: 2, useSitemap: true });
+
+      await expect(
+        crawler.crawl('https://example.com/', options, undefined, AbortSignal.abort())
+      ).resolves.toEqual([{ url: 'https://example.com/', depth: 0, source: 'seed' }]);
+      expect(acquire).not.toHaveBeenCalled();
+    });
+  });
+});
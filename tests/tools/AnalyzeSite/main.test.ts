@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import {
+  createMockServer,
+  getToolHandler,
+  type MockToolRegistration,
+} from '../../helpers/mock-server.js';
+import type { CombinedAnalysisResult } from '../../../src/shared/types/accessibility.js';
+import type { DiscoveredPage } from '../../../src/tools/AnalyzeSite/types/index.js';
+
+interface Deferred {
+  promise: Promise<void>;
+  resolve: () => void;
+}
+
+function createDeferred(): Deferred {
+  let resolve!: () => void;
+  const promise = new Promise<void>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+const createdCrawlers: Array<{ ignoreHTTPSErrors: boolean }> = [];
+const mockDispose = vi.fn().mockResolvedValue(undefined);
+let firstCrawl = createDeferred();
+
+vi.mock('../../../src/tools/AnalyzeSite/adapters/index.js', () => ({
+  SiteCrawler: class {
+    private ignoreHTTPSErrors: boolean;
+
+    constructor(config: { ignoreHTTPSErrors: boolean }) {
+      this.ignoreHTTPSErrors = config.ignoreHTTPSErrors;
+      createdCrawlers.push({ ignoreHTTPSErrors: config.ignoreHTTPSErrors });
+    }
+
+    dispose = mockDispose;
+    isAvailable = vi.fn().mockResolvedValue(true);
+
+    async crawl(seedUrl: string): Promise<DiscoveredPage[]> {
+      if (!this.ignoreHTTPSErrors) {
+        await firstCrawl.promise;
+      }
+      return [{ url: seedUrl, depth: 0, source: 'seed' }];
+    }
+  },
+}));
+
+vi.mock('../../../src/tools/AnalyzeMixed/main.js', () => ({
+  runCombinedAnalysis: vi.fn(
+    async (target: { value: string }): Promise<{ result: CombinedAnalysisResult }> => ({
+      result: {
+        success: true,
+        timestamp: '2026-01-15T10:00:00.000Z',
+        duration: 100,
+        target: target.value,
+        toolsUsed: ['axe-core'],
+        issues: [],
+        summary: { total: 0, bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 } },
+      },
+    })
+  ),
+}));
+
+const { analyzeSiteTool } = await import('../../../src/tools/AnalyzeSite/main.js');
+
+describe('analyze-site Tool', () => {
+  let toolHandler: MockToolRegistration['handler'];
+
+  beforeAll(() => {
+    const mockServer = createMockServer();
+    analyzeSiteTool.register(mockServer as never);
+    toolHandler = getToolHandler(mockServer, 'analyze-site');
+  });
+
+  beforeEach(() => {
+    createdCrawlers.length = 0;
+    mockDispose.mockClear();
+    firstCrawl = createDeferred();
+  });
+
+  it('should not replace the crawler of a running analysis with other HTTPS settings', async () => {
+    const strict = toolHandler({ url: 'https://example.com/', tools: ['axe-core'] });
+    const lenient = await toolHandler({
+      url: 'https://localhost:8443/',
+      tools: ['axe-core'],
+      options: { browser: { ignoreHTTPSErrors: true } },
+    });
+    firstCrawl.resolve();
+
+    expect(JSON.parse(lenient.content[0]!.text)).toMatchObject({ success: true });
+    expect(JSON.parse((await strict).content[0]!.text)).toMatchObject({ success: true });
+    expect(createdCrawlers).toEqual([{ ignoreHTTPSErrors: false }, { ignoreHTTPSErrors: true }]);
+    expect(mockDispose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeUrl,
+  isSameOrigin,
+  patternToRegExp,
+  matchesPatterns,
+  shouldVisit,
+  parseSitemapXml,
+  aggregateSiteIssues,
+  summarizeByCriterion,
+  buildSiteResult,
+  formatOutput,
+  resolveCrawlOptions,
+} from '../../../../src/tools/AnalyzeSite/utils/analyze-site.utils.js';
+import type { SitePageResult } from '../../../../src/tools/AnalyzeSite/types/index.js';
+import type { AccessibilityIssue } from '../../../../src/shared/types/accessibility.js';
+
+function createIssue(overrides: Partial<AccessibilityIssue> = {}): AccessibilityIssue {
+  return {
+    id: 'axe-0',
+    ruleId: 'image-alt',
+    tool: 'axe-core',
+    severity: 'serious',
+    wcag: { criterion: '1.1.1', level: 'A', principle: 'perceivable' },
+    location: { selector: 'img.logo' },
+    message: 'Images must have alternate text',
+    ...overrides,
+  };
+}
+
+function createPage(url: string, issues: AccessibilityIssue[], success = true): SitePageResult {
+  return {
+    url,
+    depth: 0,
+    source: 'link',
+    success,
+    issueCount: issues.length,
+    issues,
+    summary: {
+      total: issues.length,
+      bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+    },
+  };
+}
+
+describe('normalizeUrl', () => {
+  it('should resolve relative links and strip fragments', () => {
+    expect(normalizeUrl('/about#team', 'https://example.com/home')).toBe(
+      'https://example.com/about'
+    );
+  });
+
+  it('should reject non-http protocols and invalid URLs', () => {
+    expect(normalizeUrl('mailto:info@example.com')).toBeNull();
+    expect(normalizeUrl('javascript:void(0)', 'https://example.com')).toBeNull();
+    expect(normalizeUrl('not a url')).toBeNull();
+  });
+});
+
+describe('isSameOrigin', () => {
+  it('should compare protocol, host and port', () => {
+    expect(isSameOrigin('https://example.com/a', 'https://example.com/')).toBe(true);
+    expect(isSameOrigin('https://blog.example.com/a', 'https://example.com/')).toBe(false);
+    expect(isSameOrigin('http://example.com/a', 'https://example.com/')).toBe(false);
+  });
+});
+
+describe('patternToRegExp', () => {
+  it('should treat * as a single path segment and ** as any depth', () => {
+    expect(patternToRegExp('/blog/*').test('/blog/post-1')).toBe(true);
+    expect(patternToRegExp('/blog/*').test('/blog/2024/post-1')).toBe(false);
+    expect(patternToRegExp('/blog/**').test('/blog/2024/post-1')).toBe(true);
+  });
+
+  it('should escape regex characters', () => {
+    expect(patternToRegExp('/file.html').test('/fileXhtml')).toBe(false);
+  });
+});
+
+describe('matchesPatterns', () => {
+  it('should include everything when no patterns are given', () => {
+    expect(matchesPatterns('https://example.com/any')).toBe(true);
+  });
+
+  it('should apply include and exclude patterns with exclude taking precedence', () => {
+    const include = ['/docs/**'];
+    const exclude = ['/docs/private/**'];
+
+    expect(matchesPatterns('https://example.com/docs/intro', include, exclude)).toBe(true);
+    expect(matchesPatterns('https://example.com/docs/private/keys', include, exclude)).toBe(false);
+    expect(matchesPatterns('https://example.com/pricing', include, exclude)).toBe(false);
+  });
+
+  it('should ignore query strings when matching', () => {
+    expect(matchesPatterns('https://example.com/search?q=a', ['/search'])).toBe(true);
+  });
+});
+
+describe('shouldVisit', () => {
+  it('should reject other origins even if patterns match', () => {
+    const options = resolveCrawlOptions({ url: 'https://example.com', tools: ['axe-core'] });
+    expect(shouldVisit('https://other.com/', 'https://example.com/', options)).toBe(false);
+    expect(shouldVisit('https://example.com/page', 'https://example.com/', options)).toBe(true);
+  });
+});
+
+describe('resolveCrawlOptions', () => {
+  it('should apply defaults', () => {
+    const options = resolveCrawlOptions({ url: 'https://example.com', tools: ['axe-core'] });
+    expect(options.maxPages).toBe(20);
+    expect(options.maxDepth).toBe(2);
+    expect(options.useSitemap).toBe(false);
+  });
+});
+
+describe('parseSitemapXml', () => {
+  it('should extract page URLs from a urlset', () => {
+    const xml = `<?xml version="1.0"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url><loc>https://example.com/</loc></url>
+        <url><loc> https://example.com/a?x=1&amp;y=2 </loc></url>
+      </urlset>`;
+
+    const result = parseSitemapXml(xml);
+    expect(result.urls).toEqual(['https://example.com/', 'https://example.com/a?x=1&y=2']);
+    expect(result.sitemaps).toEqual([]);
+  });
+
+  it('should extract nested sitemaps from a sitemap index', () => {
+    const xml = `<sitemapindex><sitemap><loc><![CDATA[https://example.com/posts.xml]]></loc></sitemap></sitemapindex>`;
+
+    const result = parseSitemapXml(xml);
+    expect(result.sitemaps).toEqual(['https://example.com/posts.xml']);
+    expect(result.urls).toEqual([]);
+  });
+});
+
+describe('aggregateSiteIssues', () => {
+  it('should group the same rule and criterion across pages with page counts', () => {
+    const pages = [
+      createPage('https://example.com/', [
+        createIssue(),
+        createIssue({ location: { selector: 'img.hero' } }),
+      ]),
+      createPage('https://example.com/about', [createIssue()]),
+      createPage('https://example.com/contact', [
+        createIssue({
+          ruleId: 'label',
+          wcag: { criterion: '1.3.1', level: 'A', principle: 'perceivable' },
+        }),
+      ]),
+    ];
+
+    const aggregated = aggregateSiteIssues(pages);
+    const imageAlt = aggregated.find((item) => item.ruleId === 'image-alt');
+
+    expect(aggregated).toHaveLength(2);
+    expect(imageAlt?.pageCount).toBe(2);
+    expect(imageAlt?.occurrences).toBe(3);
+    expect(imageAlt?.sampleSelectors).toEqual(['img.logo', 'img.hero']);
+    expect(imageAlt?.pages).toContain('https://example.com/about');
+  });
+
+  it('should keep the highest severity and sort by it', () => {
+    const pages = [
+      createPage('https://example.com/', [
+        createIssue({ ruleId: 'region', severity: 'moderate', wcag: undefined }),
+      ]),
+      createPage('https://example.com/a', [createIssue({ severity: 'minor' })]),
+      createPage('https://example.com/b', [createIssue({ severity: 'critical' })]),
+    ];
+
+    const aggregated = aggregateSiteIssues(pages);
+    expect(aggregated[0]?.ruleId).toBe('image-alt');
+    expect(aggregated[0]?.severity).toBe('critical');
+    expect(aggregated[1]?.criterion).toBeUndefined();
+  });
+});
+
+describe('summarizeByCriterion', () => {
+  it('should count distinct pages and occurrences per criterion', () => {
+    const pages = [
+      createPage('https://example.com/', [
+        createIssue(),
+        createIssue({ ruleId: 'input-image-alt' }),
+      ]),
+      createPage('https://example.com/a', [createIssue()]),
+    ];
+
+    const byCriterion = summarizeByCriterion(aggregateSiteIssues(pages));
+    expect(byCriterion['1.1.1']).toEqual({
+      pageCount: 2,
+      occurrences: 3,
+      ruleIds: ['image-alt', 'input-image-alt'],
+    });
+  });
+});
+
+describe('buildSiteResult and formatOutput', () => {
+  it('should combine pages into a site-level result', () => {
+    const pages = [
+      createPage('https://example.com/', [createIssue()]),
+      { ...createPage('https://example.com/broken', [], false), error: 'Timeout' },
+    ];
+
+    const result = buildSiteResult('https://example.com/', ['axe-core'], pages, 1200);
+    const output = formatOutput(result);
+
+    expect(result.success).toBe(true);
+    expect(result.issues).toHaveLength(1);
+    expect(result.summary.byTool?.['axe-core']).toBe(1);
+    expect(result.error).toContain('https://example.com/broken: Timeout');
+    expect(output.pagesAnalyzed).toBe(2);
+    expect(output.pagesFailed).toBe(1);
+    expect(output.uniqueIssueCount).toBe(1);
+  });
+
+  it('should fail when no page could be analyzed', () => {
+    const result = buildSiteResult('https://example.com/', ['axe-core'], [], 10);
+    expect(result.success).toBe(false);
+  });
+});
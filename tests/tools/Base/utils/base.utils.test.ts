@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createJsonResponse,
+  extractScreenshotContent,
+  getToolJobQueue,
+  withToolContext,
+} from '../../../../src/tools/Base/utils/index.js';
+import type { ToolResponse } from '../../../../src/tools/Base/types/index.js';
+import { recordAnalysisHistory } from '../../../../src/shared/history/store.js';
+import type {
+  AccessibilityIssue,
+  AnalysisResult,
+} from '../../../../src/shared/types/accessibility.js';
+
+const boundingBox = { x: 10, y: 20, width: 100, height: 24 };
+
+function createIssue(overrides: Partial<AccessibilityIssue> = {}): AccessibilityIssue {
+  return {
+    id: 'axe-0',
+    ruleId: 'link-name',
+    tool: 'axe-core',
+    severity: 'serious',
+    location: { selector: 'div.card > a' },
+    message: 'Links must have discernible text',
+    ...overrides,
+  };
+}
+
+function createResult(issues: AccessibilityIssue[]): AnalysisResult {
+  return {
+    success: true,
+    timestamp: new Date().toISOString(),
+    target: 'https://example.com',
+    tool: 'axe-core',
+    issues,
+    summary: {
+      total: issues.length,
+      bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+    },
+    snapshots: [
+      {
+        id: 'snap_1',
+        loadedAt: new Date().toISOString(),
+        screenshot: { data: 'cGFnZQ==' },
+      },
+    ],
+  };
+}
+
+describe('extractScreenshotContent', () => {
+  it('should move screenshot data into image content', () => {
+    const screenshot = { marker: 1, boundingBox, data: 'ZWxlbWVudA==' };
+    const { result, content } = extractScreenshotContent(
+      createResult([
+        createIssue({ screenshot }),
+        createIssue({ id: 'axe-1', ruleId: 'color-contrast', screenshot }),
+        createIssue({ id: 'axe-2', location: { selector: 'nav' } }),
+      ])
+    );
+
+    expect(content).toEqual([
+      { type: 'text', text: 'Screenshot 1 of div.card > a (issues axe-0, axe-1)' },
+      { type: 'image', data: 'ZWxlbWVudA==', mimeType: 'image/png' },
+      { type: 'text', text: 'Annotated page screenshot of page load snap_1' },
+      { type: 'image', data: 'cGFnZQ==', mimeType: 'image/png' },
+    ]);
+    expect(result.issues[0]?.screenshot).toEqual({ marker: 1, boundingBox });
+    expect(result.issues[2]?.screenshot).toBeUndefined();
+    expect(result.snapshots?.[0]?.screenshot).toEqual({});
+  });
+
+  it('should keep file screenshots in the result', () => {
+    const screenshot = { marker: 1, boundingBox, path: '/tmp/shots/snap_1-axe-core-1.png' };
+    const input = createResult([createIssue({ screenshot })]);
+    input.snapshots = undefined;
+
+    const { result, content } = extractScreenshotContent(input);
+
+    expect(content).toEqual([]);
+    expect(result).toBe(input);
+  });
+});
+
+function parseText(response: ToolResponse): unknown {
+  const [content] = response.content;
+  return JSON.parse(content?.type === 'text' ? content.text : '');
+}
+
+describe('withToolContext', () => {
+  const target = { type: 'url' as const, value: 'https://example.com' };
+
+  it('should wait for the job and record the results passed to recordHistory', async () => {
+    const analysis = createResult([createIssue()]);
+    const handle = withToolContext<{ background?: boolean }>(
+      'analyze-with-axe',
+      async (_input, context) => {
+        context.recordHistory(target, analysis);
+        return createJsonResponse({ success: true });
+      }
+    );
+
+    const response = await handle({});
+
+    expect(parseText(response)).toEqual({ success: true });
+    expect(recordAnalysisHistory).toHaveBeenCalledWith('analyze-with-axe', target, analysis);
+  });
+
+  it('should return the queued job right away in background mode', async () => {
+    let finish!: () => void;
+    const finished = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    const onProgress = vi.fn();
+    const handle = withToolContext<{ background?: boolean }>('analyze-site', async () => {
+      await finished;
+      return createJsonResponse({ success: true });
+    });
+
+    const response = await handle({ background: true }, {
+      _meta: { progressToken: 'token' },
+      sendNotification: onProgress,
+    } as never);
+    const job = parseText(response) as { id: string };
+
+    expect(job).toMatchObject({ tool: 'analyze-site', status: 'running' });
+    expect(getToolJobQueue().getResult(job.id)).toBeUndefined();
+
+    finish();
+    await vi.waitFor(() => expect(getToolJobQueue().get(job.id)?.status).toBe('completed'));
+    expect(getToolJobQueue().getResult(job.id)).toEqual(createJsonResponse({ success: true }));
+    expect(onProgress).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  createBaselineFile,
+  compareToBaseline,
+  countBySeverity,
+  readBaselineFile,
+  writeBaselineFile,
+} from '../../../../src/tools/Baseline/utils/baseline.utils.js';
+import {
+  generateStableFingerprint,
+  normalizeSelector,
+} from '../../../../src/shared/utils/fingerprint.js';
+import { isAtLeastSeverity } from '../../../../src/shared/utils/severity.js';
+import type { AccessibilityIssue } from '../../../../src/shared/types/accessibility.js';
+
+function createIssue(overrides: Partial<AccessibilityIssue> = {}): AccessibilityIssue {
+  return {
+    id: 'axe-0',
+    ruleId: 'image-alt',
+    tool: 'axe-core',
+    severity: 'serious',
+    wcag: { criterion: '1.1.1', level: 'A', principle: 'perceivable' },
+    location: { selector: 'img.logo' },
+    message: 'Images must have alternate text',
+    ...overrides,
+  };
+}
+
+describe('normalizeSelector', () => {
+  it('should drop positional pseudo-classes and generated class names', () => {
+    expect(normalizeSelector('html > body > div:nth-child(3) > img.css-1x2y3z4.logo')).toBe(
+      normalizeSelector('html > body > div:nth-child(7) > img.css-9a8b7c6.logo')
+    );
+  });
+
+  it('should drop class names generated by CSS-in-JS and CSS Modules', () => {
+    expect(normalizeSelector('button.sc-bdVaJa.primary')).toBe('button.primary');
+    expect(normalizeSelector('div.jss123.makeStyles-root-12.card')).toBe('div.card');
+    expect(normalizeSelector('span.svelte-1abc2de.css-1x2y3z4-Label.badge')).toBe('span.badge');
+    expect(normalizeSelector('a.Button_root__a1B2c._3xYz9.link')).toBe('a.link');
+  });
+
+  it('should keep real class names that look like hashes', () => {
+    for (const selector of [
+      'button.btn-added',
+      'div.card-decade',
+      'h2.h2title',
+      'a.btn-primary2',
+      'div.grid-2column',
+      'section.sc-header',
+      'div.css-grid',
+      'li.item-12345',
+    ]) {
+      expect(normalizeSelector(selector)).toBe(selector);
+    }
+  });
+});
+
+describe('generateStableFingerprint', () => {
+  it('should ignore message wording and issue ids', () => {
+    const first = createIssue({ id: 'axe-1', message: 'Image has no alt' });
+    const second = createIssue({ id: 'axe-9', message: 'Images must have alternate text' });
+
+    expect(generateStableFingerprint(first)).toBe(generateStableFingerprint(second));
+  });
+
+  it('should differ by rule, tool and criterion', () => {
+    const base = generateStableFingerprint(createIssue());
+
+    expect(generateStableFingerprint(createIssue({ ruleId: 'role-img-alt' }))).not.toBe(base);
+    expect(generateStableFingerprint(createIssue({ tool: 'pa11y' }))).not.toBe(base);
+    expect(
+      generateStableFingerprint(
+        createIssue({ wcag: { criterion: '1.4.3', level: 'AA', principle: 'perceivable' } })
+      )
+    ).not.toBe(base);
+  });
+
+  it('should fall back to the snippet when there is no selector', () => {
+    const issue = createIssue({ location: { snippet: '<img src="a.png" class="x1">' } });
+
+    expect(generateStableFingerprint(issue)).toContain('img');
+  });
+});
+
+describe('compareToBaseline', () => {
+  it('should classify issues as new, fixed and unchanged', () => {
+    const known = createIssue();
+    const fixed = createIssue({ ruleId: 'label', location: { selector: 'input#email' } });
+    const baseline = createBaselineFile('https://example.com', ['axe-core'], 'AA', [known, fixed]);
+
+    const regression = createIssue({ ruleId: 'button-name', location: { selector: 'button' } });
+    const comparison = compareToBaseline(
+      [createIssue({ message: 'Reworded message' }), regression],
+      baseline.issues
+    );
+
+    expect(comparison.unchangedIssues).toHaveLength(1);
+    expect(comparison.newIssues).toEqual([regression]);
+    expect(comparison.fixedIssues.map((issue) => issue.ruleId)).toEqual(['label']);
+  });
+
+  it('should count repeated occurrences of the same fingerprint', () => {
+    const baseline = createBaselineFile('https://example.com', ['axe-core'], 'AA', [createIssue()]);
+
+    const comparison = compareToBaseline([createIssue(), createIssue()], baseline.issues);
+
+    expect(comparison.unchangedIssues).toHaveLength(1);
+    expect(comparison.newIssues).toHaveLength(1);
+    expect(comparison.fixedIssues).toHaveLength(0);
+  });
+});
+
+describe('isAtLeastSeverity', () => {
+  it('should compare severities by rank', () => {
+    expect(isAtLeastSeverity('critical', 'serious')).toBe(true);
+    expect(isAtLeastSeverity('serious', 'serious')).toBe(true);
+    expect(isAtLeastSeverity('moderate', 'serious')).toBe(false);
+  });
+});
+
+describe('countBySeverity', () => {
+  it('should count issues per severity', () => {
+    expect(
+      countBySeverity([createIssue(), createIssue({ severity: 'minor' }), createIssue()])
+    ).toEqual({ critical: 0, serious: 2, moderate: 0, minor: 1 });
+  });
+});
+
+describe('baseline files', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'a11y-baseline-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write and read a baseline file', async () => {
+    const baseline = createBaselineFile('https://example.com', ['axe-core'], 'AA', [createIssue()]);
+    const path = await writeBaselineFile(join(dir, 'nested', 'baseline.json'), baseline);
+
+    await expect(readBaselineFile(path)).resolves.toEqual(baseline);
+  });
+
+  it('should reject files that do not match the baseline schema', async () => {
+    const path = join(dir, 'invalid.json');
+    await writeFile(path, JSON.stringify({ version: 1, issues: 'none' }), 'utf-8');
+
+    await expect(readBaselineFile(path)).rejects.toThrow(/Invalid baseline file/);
+  });
+
+  it('should report unreadable files', async () => {
+    await expect(readBaselineFile(join(dir, 'missing.json'))).rejects.toThrow(
+      /Could not read baseline file/
+    );
+  });
+});
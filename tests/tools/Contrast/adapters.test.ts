@@ -300,6 +300,265 @@ describe('ContrastAdapter', () => {
       });
     });
 
+    describe('with non-text mode', () => {
+      it('should check UI components and graphics against 1.4.11', async () => {
+        if (!browserAvailable) {
+          console.log('Skipping test: browser not available');
+          return;
+        }
+
+        const target: AnalysisTarget = {
+          type: 'html',
+          value: fixtures.contrastNonText,
+        };
+
+        const result = await adapter.analyze(target, { mode: 'non-text' });
+        const failing = result.issues.map((issue) => [
+          issue.contrastData.component,
+          issue.location.selector,
+        ]);
+
+        expect(result.success).toBe(true);
+        expect(result.issues.every((issue) => issue.ruleId === 'non-text-contrast')).toBe(true);
+        expect(result.issues[0]?.wcag?.criterion).toBe('1.4.11');
+        expect(failing).toContainEqual(['input-border', '#faint']);
+        expect(failing).toContainEqual(['checkbox', 'input.toggle']);
+        expect(failing).toContainEqual(['focus-ring', 'a.ring']);
+        expect(failing).toContainEqual(['focus-ring', '#ring-visible']);
+        expect(failing).toContainEqual(['icon', '#close-icon']);
+        expect(failing).toContainEqual(['chart', 'rect.bar-faint']);
+        expect(failing).not.toContainEqual(['input-border', '#strong']);
+        expect(failing).not.toContainEqual(['chart', 'rect.bar-strong']);
+        expect(result.summary.nonText?.failing).toBe(result.issues.length);
+        expect(result.summary.byTextSize?.normalText).toEqual({ passing: 0, failing: 0 });
+      });
+
+      it('should suggest a component color that reaches 3:1', async () => {
+        if (!browserAvailable) {
+          console.log('Skipping test: browser not available');
+          return;
+        }
+
+        const target: AnalysisTarget = {
+          type: 'html',
+          value: fixtures.contrastNonText,
+        };
+
+        const result = await adapter.analyze(target, { mode: 'non-text' });
+        const border = result.issues.find((issue) => issue.location.selector === '#faint');
+
+        expect(border?.contrastData.requiredRatio).toBe(3);
+        expect(border?.contrastData.suggestedFix?.background).toBe('#ffffff');
+        expect(border?.contrastData.suggestedFix?.newRatio).toBeGreaterThanOrEqual(2.99);
+      });
+
+      it('should leave non-text components out in text mode', async () => {
+        if (!browserAvailable) {
+          console.log('Skipping test: browser not available');
+          return;
+        }
+
+        const target: AnalysisTarget = {
+          type: 'html',
+          value: fixtures.contrastNonText,
+        };
+
+        const result = await adapter.analyze(target);
+
+        expect(result.issues.some((issue) => issue.ruleId === 'non-text-contrast')).toBe(false);
+        expect(result.summary.nonText).toBeUndefined();
+      });
+    });
+
+    describe('with background sampling', () => {
+      it('should measure text over gradients against the rendered pixels', async () => {
+        if (!browserAvailable) {
+          console.log('Skipping test: browser not available');
+          return;
+        }
+
+        const target: AnalysisTarget = {
+          type: 'html',
+          value: fixtures.contrastImageBackground,
+        };
+
+        const result = await adapter.analyze(target, {
+          backgroundSampling: 'auto',
+          includePassingElements: true,
+        });
+        const bySelector = new Map(result.issues.map((issue) => [issue.location.selector, issue]));
+        const hero = bySelector.get('p.hero-title');
+        const banner = bySelector.get('p.banner-text');
+
+        expect(result.summary.sampledBackgrounds).toEqual({ sampled: 2, uncertain: 1 });
+        expect(hero?.contrastData.backgroundSampling).toMatchObject({ uncertain: true });
+        expect(hero?.contrastData.backgroundSampling?.best).toBeGreaterThan(20);
+        expect(hero?.confidence).toBe(0.5);
+        expect(banner?.contrastData.backgroundSampling?.uncertain).toBe(false);
+        expect(banner?.contrastData.currentRatio).toBeLessThan(1.2);
+        expect(bySelector.get('p.plain')?.contrastData.backgroundSampling).toBeUndefined();
+      });
+
+      it('should leave backgrounds alone when sampling is off', async () => {
+        if (!browserAvailable) {
+          console.log('Skipping test: browser not available');
+          return;
+        }
+
+        const target: AnalysisTarget = {
+          type: 'html',
+          value: fixtures.contrastImageBackground,
+        };
+
+        const result = await adapter.analyze(target, { includePassingElements: true });
+
+        expect(result.summary.sampledBackgrounds).toBeUndefined();
+        expect(result.issues.every((issue) => !issue.contrastData.backgroundSampling)).toBe(true);
+      });
+    });
+
+    describe('with translucent layers', () => {
+      it('should composite translucent backgrounds down to the page background', async () => {
+        if (!browserAvailable) {
+          console.log('Skipping test: browser not available');
+          return;
+        }
+
+        const target: AnalysisTarget = {
+          type: 'html',
+          value: fixtures.contrastTranslucentCard,
+        };
+
+        const result = await adapter.analyze(target, { includePassingElements: true });
+        const bySelector = new Map(result.issues.map((issue) => [issue.location.selector, issue]));
+        const card = bySelector.get('p.card-text');
+        const muted = bySelector.get('p.card-muted');
+
+        expect(card?.contrastData.background).toBe('#313131');
+        expect(card?.contrastData.currentRatio).toBeGreaterThan(12);
+        expect(muted?.contrastData.background).toBe('#a3a3a3');
+        expect(muted?.contrastData.currentRatio).toBeCloseTo(1.8, 1);
+        expect(muted?.severity).not.toBe('minor');
+      });
+
+      it('should apply ancestor opacity and translucent text colors', async () => {
+        if (!browserAvailable) {
+          console.log('Skipping test: browser not available');
+          return;
+        }
+
+        const target: AnalysisTarget = {
+          type: 'html',
+          value: fixtures.contrastDisabledText,
+        };
+
+        const result = await adapter.analyze(target, { includePassingElements: true });
+        const bySelector = new Map(result.issues.map((issue) => [issue.location.selector, issue]));
+        const dimmed = bySelector.get('label.disabled-label');
+        const faded = bySelector.get('p.faded');
+
+        expect(dimmed?.contrastData).toMatchObject({
+          foreground: '#999999',
+          foregroundOpacity: 0.4,
+          currentRatio: 2.85,
+        });
+        expect(dimmed?.humanContext).toContain('40% opacity');
+        expect(faded?.contrastData.foregroundOpacity).toBe(0.38);
+        expect(faded?.contrastData.currentRatio).toBeLessThan(3);
+        expect(bySelector.has('p.invisible')).toBe(false);
+        expect(bySelector.get('p.normal')?.contrastData.foregroundOpacity).toBeUndefined();
+      });
+    });
+
+    describe('with style states', () => {
+      it('should report elements whose colors change in a pseudo-state or media', async () => {
+        if (!browserAvailable) {
+          console.log('Skipping test: browser not available');
+          return;
+        }
+
+        const target: AnalysisTarget = {
+          type: 'html',
+          value: fixtures.contrastStyleStates,
+        };
+
+        const result = await adapter.analyze(target, {
+          includePassingElements: true,
+          styleStates: {
+            pseudoStates: ['hover', 'focus', 'visited', 'placeholder'],
+            media: ['dark'],
+          },
+        });
+        const states = (selector: string): Array<string | undefined> =>
+          result.issues
+            .filter((issue) => issue.location.selector === selector)
+            .map((issue) => issue.contrastData.styleState);
+        const failing = (selector: string, styleState: string) =>
+          result.issues.find(
+            (issue) =>
+              issue.location.selector === selector && issue.contrastData.styleState === styleState
+          );
+
+        expect(states('p.intro')).toEqual(['default', 'dark']);
+        expect(states('a.more')).toEqual(
+          expect.arrayContaining(['default', 'hover', 'visited', 'dark', 'dark:hover'])
+        );
+        expect(states('button.save')).toEqual(['default', 'focus']);
+        expect(states('input.search')).toEqual(['placeholder']);
+        expect(failing('a.more', 'hover')?.humanContext).toContain('on hover');
+        expect(failing('p.intro', 'dark')?.humanContext).toContain('dark media emulation');
+        expect(failing('button.save', 'focus')?.severity).not.toBe('minor');
+        expect(result.summary.byStyleState?.default).toMatchObject({ failing: 0 });
+        expect(result.summary.byStyleState?.hover).toEqual({ passing: 0, failing: 1 });
+      });
+
+      it('should leave out the breakdown without style states', async () => {
+        if (!browserAvailable) {
+          console.log('Skipping test: browser not available');
+          return;
+        }
+
+        const target: AnalysisTarget = {
+          type: 'html',
+          value: fixtures.contrastStyleStates,
+        };
+
+        const result = await adapter.analyze(target, { includePassingElements: true });
+
+        expect(result.summary.byStyleState).toBeUndefined();
+        expect(result.issues.every((issue) => !issue.contrastData.styleState)).toBe(true);
+      });
+    });
+
+    describe('with screenshots', () => {
+      it('should attach highlighted screenshots to failing elements', async () => {
+        if (!browserAvailable) {
+          console.log('Skipping test: browser not available');
+          return;
+        }
+
+        const target: AnalysisTarget = {
+          type: 'html',
+          value: fixtures.lowContrast,
+        };
+
+        const result = await adapter.analyze(target, {
+          includePassingElements: true,
+          screenshots: { maxElements: 2, fullPage: true },
+        });
+
+        const captured = result.issues.filter((issue) => issue.screenshot);
+        expect(captured.length).toBeGreaterThan(0);
+        const markers = new Set(captured.map((issue) => issue.screenshot?.marker));
+        expect(markers.size).toBeLessThanOrEqual(2);
+        for (const issue of captured) {
+          expect(issue.contrastData.currentRatio).toBeLessThan(issue.contrastData.requiredRatio);
+          expect(issue.screenshot?.data).toMatch(/^iVBORw0KGgo/);
+        }
+        expect(result.snapshots?.[0]?.screenshot?.data).toMatch(/^iVBORw0KGgo/);
+      });
+    });
+
     describe('issue structure', () => {
       it('should have correct issue structure with all required fields', async () => {
         if (!browserAvailable) {
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { compositeColors } from '../../../../src/tools/Contrast/utils/compositing.js';
+import type { ColorLayer, RGBA } from '../../../../src/tools/Contrast/types/colorAnalysis.type.js';
+
+const black: RGBA = { r: 0, g: 0, b: 0, a: 1 };
+
+function layer(backgroundColor: string, overrides: Partial<ColorLayer> = {}): ColorLayer {
+  return { backgroundColor, opacity: 1, filter: 'none', blendMode: 'normal', ...overrides };
+}
+
+describe('compositeColors', () => {
+  it('should keep opaque colors as they are', () => {
+    expect(compositeColors(black, [layer('rgb(255, 255, 255)')])).toEqual({
+      foreground: { r: 0, g: 0, b: 0 },
+      background: { r: 255, g: 255, b: 255 },
+      foregroundAlpha: 1,
+      approximate: false,
+    });
+  });
+
+  it('should blend translucent backgrounds down to the first opaque one', () => {
+    const result = compositeColors(black, [
+      layer('rgba(255, 255, 255, 0.5)'),
+      layer('rgba(0, 0, 255, 0.5)'),
+      layer('rgb(0, 0, 0)'),
+    ]);
+
+    expect(result.background).toEqual({ r: 128, g: 128, b: 191 });
+    expect(result.foreground).toEqual({ r: 0, g: 0, b: 0 });
+  });
+
+  it('should fall back to the white canvas without an opaque background', () => {
+    expect(compositeColors(black, [layer('rgba(0, 0, 0, 0.2)')]).background).toEqual({
+      r: 204,
+      g: 204,
+      b: 204,
+    });
+    expect(compositeColors(black, []).background).toEqual({ r: 255, g: 255, b: 255 });
+  });
+
+  it('should blend translucent text colors over the background', () => {
+    const result = compositeColors({ ...black, a: 0.6 }, [layer('rgb(255, 255, 255)')]);
+
+    expect(result.foreground).toEqual({ r: 102, g: 102, b: 102 });
+    expect(result.foregroundAlpha).toBe(0.6);
+  });
+
+  it('should apply the opacity of the element and its ancestors to the text', () => {
+    const result = compositeColors(black, [
+      layer('rgba(0, 0, 0, 0)', { opacity: 0.8 }),
+      layer('rgba(0, 0, 0, 0)', { opacity: 0.5 }),
+      layer('rgb(255, 255, 255)'),
+    ]);
+
+    expect(result.foreground).toEqual({ r: 153, g: 153, b: 153 });
+    expect(result.background).toEqual({ r: 255, g: 255, b: 255 });
+    expect(result.foregroundAlpha).toBeCloseTo(0.4, 5);
+  });
+
+  it('should apply group opacity to everything inside the layer', () => {
+    const result = compositeColors(black, [
+      layer('rgb(255, 0, 0)'),
+      layer('rgb(255, 255, 255)', { opacity: 0.5 }),
+      layer('rgb(0, 0, 0)'),
+    ]);
+
+    expect(result.background).toEqual({ r: 128, g: 0, b: 0 });
+    expect(result.foreground).toEqual({ r: 0, g: 0, b: 0 });
+  });
+
+  it('should apply color filters', () => {
+    expect(
+      compositeColors(black, [layer('rgb(255, 255, 255)', { filter: 'invert(1)' })])
+    ).toMatchObject({
+      foreground: { r: 255, g: 255, b: 255 },
+      background: { r: 0, g: 0, b: 0 },
+      approximate: false,
+    });
+    expect(
+      compositeColors(black, [layer('rgb(255, 0, 0)', { filter: 'grayscale(100%) blur(2px)' })])
+        .background
+    ).toEqual({ r: 54, g: 54, b: 54 });
+    expect(
+      compositeColors(black, [
+        layer('rgba(0, 0, 0, 0)', { filter: 'opacity(0.5)' }),
+        layer('rgb(255, 255, 255)'),
+      ]).foreground
+    ).toEqual({ r: 128, g: 128, b: 128 });
+  });
+
+  it('should blend layers with separable blend modes against the layers outside them', () => {
+    const result = compositeColors(black, [
+      layer('rgb(255, 255, 0)', { blendMode: 'multiply' }),
+      layer('rgb(0, 255, 255)'),
+    ]);
+
+    expect(result.background).toEqual({ r: 0, g: 255, b: 0 });
+    expect(result.approximate).toBe(false);
+  });
+
+  it('should flag filters and blend modes it cannot reproduce', () => {
+    expect(
+      compositeColors(black, [layer('rgb(255, 255, 255)', { filter: 'url("#duotone")' })])
+        .approximate
+    ).toBe(true);
+    expect(
+      compositeColors(black, [layer('rgb(255, 255, 255)', { blendMode: 'luminosity' })]).approximate
+    ).toBe(true);
+  });
+});
@@ -2,15 +2,19 @@ import { describe, it, expect } from 'vitest';
 import {
   getContrastRatio,
   meetsWCAG,
+  meetsWCAGNonText,
   isLargeText,
   getRequiredRatio,
   suggestFixedColor,
   parseColor,
+  parseColorWithAlpha,
+  blendOver,
   rgbToHex,
   getAPCAContrast,
   meetsAPCA,
   getRequiredAPCALightness,
   suggestFixedColorForAPCA,
+  summarizeSampledContrast,
 } from '../../../../src/tools/Contrast/utils/contrast.js';
 import type { RGB } from '../../../../src/tools/Contrast/types/colorAnalysis.type.js';
 
@@ -76,6 +80,55 @@ describe('meetsWCAG', () => {
   });
 });
 
+describe('meetsWCAGNonText', () => {
+  it('should require 3:1 for UI components and graphics', () => {
+    expect(meetsWCAGNonText(3.0)).toBe(true);
+    expect(meetsWCAGNonText(2.99)).toBe(false);
+  });
+});
+
+describe('summarizeSampledContrast', () => {
+  const white: RGB = { r: 255, g: 255, b: 255 };
+  const black: RGB = { r: 0, g: 0, b: 0 };
+  const gray: RGB = { r: 118, g: 118, b: 118 };
+
+  it('should return null without samples', () => {
+    expect(summarizeSampledContrast(white, [])).toBeNull();
+  });
+
+  it('should report worst, median and best contrast with their backgrounds', () => {
+    const summary = summarizeSampledContrast(white, [black, white, gray])!;
+
+    expect(summary.worst.value).toBeCloseTo(1, 2);
+    expect(summary.worst.background).toEqual(white);
+    expect(summary.median.background).toEqual(gray);
+    expect(summary.best.value).toBeCloseTo(21, 1);
+    expect(summary.best.background).toEqual(black);
+  });
+
+  it('should flag highly variable backgrounds as uncertain', () => {
+    expect(summarizeSampledContrast(white, [black, black, white])?.uncertain).toBe(true);
+    expect(summarizeSampledContrast(white, [black, { r: 10, g: 10, b: 10 }])?.uncertain).toBe(
+      false
+    );
+  });
+
+  it('should order APCA results by absolute lightness contrast', () => {
+    const summary = summarizeSampledContrast(white, [black, gray], 'APCA')!;
+
+    expect(summary.worst.background).toEqual(gray);
+    expect(summary.best.value).toBeGreaterThan(0);
+  });
+
+  it('should blend translucent text over each sample', () => {
+    const summary = summarizeSampledContrast({ ...black, a: 0.5 }, [white, black])!;
+
+    expect(summary.worst.background).toEqual(black);
+    expect(summary.worst.value).toBe(1);
+    expect(summary.best.value).toBeCloseTo(getContrastRatio({ r: 128, g: 128, b: 128 }, white), 5);
+  });
+});
+
 describe('isLargeText', () => {
   it('should return true for text >= 24px (normal weight)', () => {
     expect(isLargeText(24, 400)).toBe(true);
@@ -183,6 +236,30 @@ describe('parseColor', () => {
   });
 });
 
+describe('parseColorWithAlpha', () => {
+  it('should keep the alpha channel', () => {
+    expect(parseColorWithAlpha('rgba(0, 0, 0, 0.5)')).toEqual({ r: 0, g: 0, b: 0, a: 0.5 });
+    expect(parseColorWithAlpha('#ff000080')?.a).toBeCloseTo(0.5, 2);
+  });
+
+  it('should treat colors without alpha as opaque', () => {
+    expect(parseColorWithAlpha('rgb(255, 255, 255)')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+  });
+
+  it('should return null for invalid colors', () => {
+    expect(parseColorWithAlpha('invalid')).toBeNull();
+  });
+});
+
+describe('blendOver', () => {
+  it('should mix the colors by the alpha of the top one', () => {
+    const white: RGB = { r: 255, g: 255, b: 255 };
+    expect(blendOver({ r: 0, g: 0, b: 0, a: 0.5 }, white)).toEqual({ r: 128, g: 128, b: 128 });
+    expect(blendOver({ r: 255, g: 0, b: 0, a: 1 }, white)).toEqual({ r: 255, g: 0, b: 0 });
+    expect(blendOver({ r: 255, g: 0, b: 0, a: 0 }, white)).toEqual(white);
+  });
+});
+
 describe('rgbToHex', () => {
   it('should convert RGB to hex', () => {
     expect(rgbToHex({ r: 255, g: 255, b: 255 })).toBe('#ffffff');
@@ -385,6 +462,48 @@ describe('formatOutput', async () => {
   });
 });
 
+describe('getStyleStateName', async () => {
+  const { getStyleStateName } = await import('../../../../src/tools/Contrast/utils/index.js');
+
+  it('should join emulated media and pseudo-state', () => {
+    expect(getStyleStateName()).toBe('default');
+    expect(getStyleStateName(undefined, 'hover')).toBe('hover');
+    expect(getStyleStateName('dark')).toBe('dark');
+    expect(getStyleStateName('dark', 'focus')).toBe('dark:focus');
+  });
+});
+
+describe('resolveEmulatedMedia', async () => {
+  const { resolveEmulatedMedia, StyleStatesSchema } =
+    await import('../../../../src/tools/Contrast/types/contrast.type.js');
+
+  it('should expand presets into media features', () => {
+    expect(resolveEmulatedMedia('forced-colors')).toEqual({
+      name: 'forced-colors',
+      features: [{ name: 'forced-colors', value: 'active' }],
+    });
+  });
+
+  it('should name custom media after its features', () => {
+    expect(resolveEmulatedMedia({ colorScheme: 'dark', contrast: 'more' })).toEqual({
+      name: 'dark+more-contrast',
+      features: [
+        { name: 'prefers-color-scheme', value: 'dark' },
+        { name: 'prefers-contrast', value: 'more' },
+      ],
+    });
+    expect(resolveEmulatedMedia({ name: 'night', colorScheme: 'dark' }).name).toBe('night');
+  });
+
+  it('should reject media without features or with duplicate names', () => {
+    expect(StyleStatesSchema.safeParse({ media: [{ name: 'empty' }] }).success).toBe(false);
+    expect(StyleStatesSchema.safeParse({ media: ['dark', { colorScheme: 'dark' }] }).success).toBe(
+      false
+    );
+    expect(StyleStatesSchema.safeParse({ media: ['dark', 'forced-colors'] }).success).toBe(true);
+  });
+});
+
 describe('buildAnalysisOptions', async () => {
   const { buildAnalysisOptions } = await import('../../../../src/tools/Contrast/utils/index.js');
 
@@ -407,6 +526,39 @@ describe('buildAnalysisOptions', async () => {
     expect(options.contrastAlgorithm).toBe('APCA');
   });
 
+  it('should pass the non-text mode through', () => {
+    const input = {
+      url: 'https://example.com',
+      options: { mode: 'all' as const },
+    };
+
+    const options = buildAnalysisOptions(input);
+
+    expect(options.mode).toBe('all');
+  });
+
+  it('should pass the background sampling mode through', () => {
+    const input = {
+      url: 'https://example.com',
+      options: { backgroundSampling: 'auto' as const },
+    };
+
+    const options = buildAnalysisOptions(input);
+
+    expect(options.backgroundSampling).toBe('auto');
+  });
+
+  it('should pass style states through', () => {
+    const input = {
+      url: 'https://example.com',
+      options: { styleStates: { pseudoStates: ['hover' as const], media: ['dark' as const] } },
+    };
+
+    const options = buildAnalysisOptions(input);
+
+    expect(options.styleStates).toEqual({ pseudoStates: ['hover'], media: ['dark'] });
+  });
+
   it('should preserve WCAG21 when explicitly set', () => {
     const input = {
       url: 'https://example.com',
@@ -417,4 +569,44 @@ describe('buildAnalysisOptions', async () => {
 
     expect(options.contrastAlgorithm).toBe('WCAG21');
   });
+
+  it('should exclude the contrast rules ignored by the project config', async () => {
+    const { setProjectConfig, resetProjectConfig } =
+      await import('../../../../src/shared/config/index.js');
+    setProjectConfig({
+      config: {
+        ignoredRules: [
+          {
+            tool: 'contrast-analyzer',
+            ruleId: 'non-text-contrast',
+            justification: 'Icon colors approved by the brand team',
+          },
+          { tool: 'axe-core', ruleId: 'color-contrast', justification: 'Checked by contrast' },
+        ],
+      },
+      filePath: '/project/.accessibilityhubrc',
+    });
+
+    try {
+      expect(buildAnalysisOptions({ url: 'https://example.com' }).excludeRules).toEqual([
+        'non-text-contrast',
+      ]);
+    } finally {
+      resetProjectConfig();
+    }
+  });
+});
+
+describe('getContrastChecks', async () => {
+  const { getContrastChecks } = await import('../../../../src/tools/Contrast/utils/index.js');
+
+  it('should run the checks of the mode', () => {
+    expect(getContrastChecks('text')).toEqual({ text: true, nonText: false });
+    expect(getContrastChecks('all')).toEqual({ text: true, nonText: true });
+  });
+
+  it('should skip the checks of excluded rules', () => {
+    expect(getContrastChecks('all', ['non-text-contrast'])).toEqual({ text: true, nonText: false });
+    expect(getContrastChecks('text', ['color-contrast'])).toEqual({ text: false, nonText: false });
+  });
 });
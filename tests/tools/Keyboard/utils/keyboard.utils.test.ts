@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectKeyboardIssues,
+  findKeyboardTrap,
+  findOrderMismatches,
+  findReverseMismatches,
+  findUnreachableElements,
+} from '../../../../src/tools/Keyboard/utils/keyboard.utils.js';
+import { keyboardNormalizer } from '../../../../src/tools/Keyboard/normalizers/index.js';
+import type {
+  BoundingBox,
+  FocusableElement,
+  KeyboardTrace,
+  TracedFocusStop,
+} from '../../../../src/tools/Keyboard/types/index.js';
+
+function element(id: number, boundingBox: BoundingBox, tabIndex = 0): FocusableElement {
+  return {
+    id,
+    selector: `#el-${id}`,
+    snippet: `<button id="el-${id}">Button ${id}</button>`,
+    tagName: 'button',
+    tabIndex,
+    boundingBox,
+  };
+}
+
+function stop(
+  el: FocusableElement,
+  step: number,
+  focusIndicator: TracedFocusStop['focusIndicator'] = 'visible'
+): TracedFocusStop {
+  return { ...el, step, focusIndicator };
+}
+
+function row(count: number): FocusableElement[] {
+  return Array.from({ length: count }, (_, i) =>
+    element(i, { x: 20 + i * 120, y: 20, width: 100, height: 30 })
+  );
+}
+
+function trace(overrides: Partial<KeyboardTrace> = {}): KeyboardTrace {
+  const focusable = row(3);
+  const forward = focusable.map((el, i) => stop(el, i + 1));
+
+  return {
+    focusable,
+    nonFocusableInteractive: [],
+    forward,
+    reverse: [...forward].reverse(),
+    completed: true,
+    trap: null,
+    ...overrides,
+  };
+}
+
+const defaults = { wcagLevel: 'AA' as const, checkFocusIndicator: true };
+
+describe('detectKeyboardIssues', () => {
+  it('reports nothing for a complete trace in visual order', () => {
+    expect(detectKeyboardIssues(trace(), defaults)).toEqual([]);
+  });
+
+  it('skips focus indicators at level A and honours excluded rules', () => {
+    const focusable = row(2);
+    const withMissing = trace({
+      focusable,
+      forward: [stop(focusable[0]!, 1, 'missing'), stop(focusable[1]!, 2)],
+      reverse: [],
+      nonFocusableInteractive: [{ selector: 'div.close', snippet: '<div>', role: 'button' }],
+    });
+
+    expect(detectKeyboardIssues(withMissing, defaults).map((f) => f.ruleId)).toEqual([
+      'interactive-not-focusable',
+      'focus-indicator-missing',
+    ]);
+    expect(
+      detectKeyboardIssues(withMissing, {
+        wcagLevel: 'A',
+        checkFocusIndicator: true,
+        excludeRules: ['interactive-not-focusable'],
+      })
+    ).toEqual([]);
+  });
+
+  it('reports positive tabindex', () => {
+    const focusable = [element(0, { x: 20, y: 20, width: 100, height: 30 }, 2)];
+    const findings = detectKeyboardIssues(
+      trace({ focusable, forward: [stop(focusable[0]!, 1)], reverse: [] }),
+      defaults
+    );
+
+    expect(findings).toEqual([
+      expect.objectContaining({ ruleId: 'positive-tabindex', detail: 'tabindex="2"' }),
+    ]);
+  });
+});
+
+describe('findKeyboardTrap', () => {
+  it('reports a cycle that could not be escaped', () => {
+    const base = trace();
+    const findings = findKeyboardTrap({
+      ...base,
+      completed: false,
+      trap: { ids: [1, 2], escapedWith: null },
+    });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ ruleId: 'keyboard-trap', selector: '#el-1' });
+    expect(findings[0]?.detail).toContain('#el-1, #el-2');
+  });
+
+  it('ignores cycles left with Shift+Tab or Escape', () => {
+    expect(findKeyboardTrap({ ...trace(), trap: { ids: [1, 2], escapedWith: 'escape' } })).toEqual(
+      []
+    );
+  });
+});
+
+describe('findUnreachableElements', () => {
+  it('reports focusable elements missing from a complete trace', () => {
+    const focusable = row(3);
+    const findings = findUnreachableElements(
+      trace({ focusable, forward: [stop(focusable[0]!, 1), stop(focusable[2]!, 2)] })
+    );
+
+    expect(findings.map((f) => f.selector)).toEqual(['#el-1']);
+  });
+
+  it('reports nothing when the trace stopped early', () => {
+    const focusable = row(3);
+
+    expect(
+      findUnreachableElements(
+        trace({ focusable, forward: [stop(focusable[0]!, 1)], completed: false })
+      )
+    ).toEqual([]);
+  });
+});
+
+describe('findOrderMismatches', () => {
+  it('flags focus jumping up and to the left', () => {
+    const top = element(0, { x: 20, y: 20, width: 100, height: 30 });
+    const bottom = element(1, { x: 20, y: 400, width: 100, height: 30 });
+
+    const findings = findOrderMismatches(trace({ forward: [stop(bottom, 1), stop(top, 2)] }));
+
+    expect(findings).toEqual([
+      expect.objectContaining({ ruleId: 'focus-order-mismatch', selector: '#el-0' }),
+    ]);
+  });
+
+  it('allows moving to the top of the next column', () => {
+    const endOfFirstColumn = element(0, { x: 20, y: 400, width: 200, height: 30 });
+    const startOfSecondColumn = element(1, { x: 400, y: 20, width: 200, height: 30 });
+
+    expect(
+      findOrderMismatches(
+        trace({ forward: [stop(endOfFirstColumn, 1), stop(startOfSecondColumn, 2)] })
+      )
+    ).toEqual([]);
+  });
+});
+
+describe('findReverseMismatches', () => {
+  it('flags Shift+Tab landing on an unexpected element', () => {
+    const base = trace();
+    const [first, second, third] = base.forward;
+
+    const findings = findReverseMismatches({ ...base, reverse: [third!, first!, second!] });
+
+    expect(findings[0]).toMatchObject({
+      ruleId: 'reverse-order-mismatch',
+      selector: '#el-2',
+      detail: 'Shift+Tab moves to #el-0 instead of #el-1',
+    });
+  });
+});
+
+describe('keyboardNormalizer', () => {
+  it('maps findings to WCAG-enriched issues', () => {
+    const [issue] = keyboardNormalizer.normalize(
+      [{ ruleId: 'keyboard-trap', selector: '#player', detail: 'focus cycles between #player' }],
+      { tool: 'keyboard-analyzer' }
+    );
+
+    expect(issue).toMatchObject({
+      ruleId: 'keyboard-trap',
+      tool: 'keyboard-analyzer',
+      severity: 'critical',
+      wcag: { criterion: '2.1.2', level: 'A', principle: 'operable' },
+      location: { selector: '#player' },
+    });
+    expect(issue?.id).toMatch(/^keyboard-analyzer:keyboard-trap:/);
+    expect(issue?.message).toContain('focus cycles between #player');
+    expect(issue?.affectedUsers).toContain('keyboard-only');
+  });
+});
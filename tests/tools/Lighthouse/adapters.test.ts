@@ -6,6 +6,7 @@ const mockBrowser = {
   wsEndpoint: vi.fn().mockReturnValue('ws://127.0.0.1:9222/devtools'),
   newPage: vi.fn().mockResolvedValue({ goto: vi.fn(), close: vi.fn() }),
   close: vi.fn().mockResolvedValue(undefined),
+  on: vi.fn(),
 };
 
 vi.mock('puppeteer', () => ({
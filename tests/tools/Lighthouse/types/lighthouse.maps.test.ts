@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { PRINCIPLE_MAP, AUDIT_WCAG_MAP } from '../../../../src/tools/Lighthouse/types/lighthouse.maps.js';
 import { LighthouseToolInputSchema } from '../../../../src/tools/Lighthouse/types/lighthouse.type.js';
 import { LighthouseToolMcpInputSchema } from '../../../../src/tools/Lighthouse/types/input.type.js';
+import { buildAnalysisOptions } from '../../../../src/tools/Lighthouse/utils/lighthouse.utils.js';
 
 describe('PRINCIPLE_MAP', () => {
   it('should map digits 1-4 to the four WCAG principles', () => {
@@ -52,7 +53,7 @@ describe('LighthouseToolInputSchema', () => {
 
     const withDefault = LighthouseToolInputSchema.safeParse({ url: 'https://example.com', options: {} });
     expect(withDefault.success).toBe(true);
-    if (withDefault.success) expect(withDefault.data.options?.wcagLevel).toBe('AA');
+    if (withDefault.success) expect(buildAnalysisOptions(withDefault.data).wcagLevel).toBe('AA');
   });
 
   it('should reject invalid inputs', () => {
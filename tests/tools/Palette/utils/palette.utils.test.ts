@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  buildPaletteMatrix,
+  buildPaletteRequirement,
+  detectTokensFormat,
+  getRequiredCriterion,
+  loadPalette,
+  parseCssCustomProperties,
+  parseJsonTokens,
+  resolvePaletteColors,
+} from '../../../../src/tools/Palette/utils/palette.utils.js';
+import { AnalyzePaletteInputSchema } from '../../../../src/tools/Palette/types/palette.types.js';
+
+const palette = resolvePaletteColors([
+  { name: 'ink', value: '#000000' },
+  { name: 'paper', value: '#ffffff' },
+  { name: 'muted', value: '#999999' },
+  { name: 'brand', value: '#0055ff' },
+]);
+
+const aaBody = buildPaletteRequirement({ options: { wcagLevel: 'AA' } });
+
+function findPair(pairs: ReturnType<typeof buildPaletteMatrix>['pairs'], fg: string, bg: string) {
+  return pairs.find((pair) => pair.foreground === fg && pair.background === bg);
+}
+
+describe('parseJsonTokens', () => {
+  it('should read W3C, Style Dictionary and plain tokens and resolve references', () => {
+    const { colors, warnings } = parseJsonTokens(
+      JSON.stringify({
+        color: {
+          $type: 'color',
+          blue: { $value: '#0055ff' },
+          text: { $value: '{color.blue}' },
+          broken: { $value: 'not-a-color' },
+        },
+        spacing: { sm: { $value: '4px', $type: 'dimension' } },
+        legacy: { red: { value: 'red' } },
+        accent: 'green',
+        font: 'Inter',
+      })
+    );
+
+    expect(colors).toEqual([
+      { name: 'color.blue', value: '#0055ff' },
+      { name: 'color.text', value: '#0055ff' },
+      { name: 'legacy.red', value: 'red' },
+      { name: 'accent', value: 'green' },
+    ]);
+    expect(warnings).toEqual(['color.broken: could not read "not-a-color" as a color']);
+  });
+
+  it('should reject invalid JSON', () => {
+    expect(() => parseJsonTokens('{ "color": ')).toThrow('Invalid design-tokens JSON');
+  });
+});
+
+describe('parseCssCustomProperties', () => {
+  it('should read color properties and resolve var() references', () => {
+    const { colors, warnings } = parseCssCustomProperties(`
+      :root {
+        --blue: #0055ff; /* brand */
+        --text: var(--blue);
+        --border: var(--missing, rgb(1 2 3));
+        --gap: 4px;
+        --shadow: var(--undefined);
+      }
+      @media (prefers-color-scheme: dark) {
+        :root { --blue: #99bbff; }
+      }
+    `);
+
+    expect(colors).toEqual([
+      { name: '--blue', value: '#0055ff' },
+      { name: '--text', value: '#0055ff' },
+      { name: '--border', value: 'rgb(1 2 3)' },
+    ]);
+    expect(warnings).toEqual(['--shadow: could not resolve var(--undefined)']);
+  });
+});
+
+describe('detectTokensFormat', () => {
+  it('should use the file extension, then the content', () => {
+    expect(detectTokensFormat(':root {}', 'tokens.json')).toBe('json');
+    expect(detectTokensFormat('{}', 'theme.css')).toBe('css');
+    expect(detectTokensFormat('  { "a": "#fff" }')).toBe('json');
+    expect(detectTokensFormat(':root { --a: #fff; }')).toBe('css');
+  });
+});
+
+describe('loadPalette', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'a11y-palette-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read a tokens file', async () => {
+    const path = join(dir, 'theme.css');
+    await writeFile(path, ':root { --ink: #000; --paper: #fff; }');
+
+    const loaded = await loadPalette({ tokensPath: path });
+
+    expect(loaded).toMatchObject({ source: 'css', tokensPath: path });
+    expect(loaded.colors.map((c) => c.name)).toEqual(['--ink', '--paper']);
+  });
+
+  it('should report a missing tokens file', async () => {
+    await expect(loadPalette({ tokensPath: join(dir, 'missing.json') })).rejects.toThrow(
+      'Could not read tokens file'
+    );
+  });
+});
+
+describe('resolvePaletteColors', () => {
+  it('should convert colors to hex and keep the alpha of translucent ones', () => {
+    expect(resolvePaletteColors([{ name: 'scrim', value: 'rgba(0, 0, 0, 0.5)' }])[0]).toMatchObject(
+      {
+        hex: '#000000',
+        alpha: 0.5,
+      }
+    );
+  });
+
+  it('should reject invalid colors and duplicate names', () => {
+    expect(() => resolvePaletteColors([{ name: 'x', value: 'nope' }])).toThrow('Invalid color');
+    expect(() =>
+      resolvePaletteColors([
+        { name: 'x', value: '#fff' },
+        { name: 'x', value: '#000' },
+      ])
+    ).toThrow('Duplicate color name');
+  });
+});
+
+describe('buildPaletteRequirement', () => {
+  it('should pick the minimum for the algorithm, level and usage', () => {
+    expect(aaBody).toEqual({
+      contrastAlgorithm: 'WCAG21',
+      wcagLevel: 'AA',
+      usage: 'body',
+      minimum: 4.5,
+    });
+    expect(buildPaletteRequirement({ options: { wcagLevel: 'AAA', usage: 'large' } }).minimum).toBe(
+      4.5
+    );
+    expect(
+      buildPaletteRequirement({ options: { wcagLevel: 'AAA', usage: 'non-text' } }).minimum
+    ).toBe(3);
+    const apcaLarge = buildPaletteRequirement({
+      options: { contrastAlgorithm: 'APCA', usage: 'large' },
+    });
+    expect(apcaLarge.minimum).toBe(60);
+    expect(getRequiredCriterion(apcaLarge)).toBe('apcaLarge');
+  });
+});
+
+describe('buildPaletteMatrix', () => {
+  it('should measure every foreground on every other background', () => {
+    const { pairs, summary } = buildPaletteMatrix(palette, aaBody, { maxAlternatives: 3 });
+
+    expect(pairs).toHaveLength(12);
+    expect(findPair(pairs, 'ink', 'ink')).toBeUndefined();
+    expect(findPair(pairs, 'ink', 'paper')).toMatchObject({ ratio: 21, passes: true });
+    expect(findPair(pairs, 'ink', 'paper')?.suggestion).toBeUndefined();
+    expect(findPair(pairs, 'ink', 'muted')?.criteria).toEqual({
+      aaNormal: true,
+      aaLarge: true,
+      aaaNormal: true,
+      aaaLarge: true,
+      nonText: true,
+      apcaBody: false,
+      apcaLarge: false,
+      apcaNonText: true,
+    });
+    expect(summary).toMatchObject({ colors: 4, pairs: 12 });
+    expect(summary.passing + summary.failing).toBe(12);
+    expect(summary.byCriterion.aaNormal).toBe(summary.passing);
+  });
+
+  it('should suggest a fixed color and the closest passing palette colors', () => {
+    const { pairs } = buildPaletteMatrix(palette, aaBody, { maxAlternatives: 3 });
+    const pair = findPair(pairs, 'muted', 'paper');
+
+    expect(pair).toMatchObject({ ratio: 2.85, passes: false });
+    expect(pair?.suggestion).toMatchObject({ foreground: '#767676', ratio: 4.54 });
+    expect(pair?.suggestion?.alternatives.map((a) => a.name)).toEqual(['brand', 'ink']);
+  });
+
+  it('should only suggest palette colors when the foreground cannot be fixed', () => {
+    const { pairs } = buildPaletteMatrix(palette, aaBody, { maxAlternatives: 1 });
+    const suggestion = findPair(pairs, 'ink', 'brand')?.suggestion;
+
+    expect(suggestion?.foreground).toBeUndefined();
+    expect(suggestion?.alternatives).toEqual([
+      expect.objectContaining({ name: 'paper', ratio: 5.61 }),
+    ]);
+  });
+
+  it('should limit the pairs to the given foregrounds and backgrounds', () => {
+    const { pairs } = buildPaletteMatrix(palette, aaBody, {
+      foregrounds: ['ink', 'muted'],
+      backgrounds: ['paper'],
+      maxAlternatives: 3,
+    });
+
+    expect(pairs.map((p) => p.foreground)).toEqual(['ink', 'muted']);
+    expect(findPair(pairs, 'muted', 'paper')?.suggestion?.alternatives.map((a) => a.name)).toEqual([
+      'ink',
+    ]);
+    expect(() =>
+      buildPaletteMatrix(palette, aaBody, { backgrounds: ['canvas'], maxAlternatives: 3 })
+    ).toThrow('Unknown color "canvas" in options.backgrounds');
+  });
+
+  it('should blend translucent colors before measuring them', () => {
+    const colors = resolvePaletteColors([
+      { name: 'text', value: 'rgba(0, 0, 0, 0.5)' },
+      { name: 'paper', value: '#ffffff' },
+    ]);
+    const { pairs } = buildPaletteMatrix(colors, aaBody, {
+      foregrounds: ['text'],
+      maxAlternatives: 3,
+    });
+
+    expect(pairs[0]).toMatchObject({ foregroundHex: '#808080', backgroundHex: '#ffffff' });
+  });
+});
+
+describe('AnalyzePaletteInputSchema', () => {
+  it('should reject palettes with a single color', () => {
+    expect(
+      AnalyzePaletteInputSchema.safeParse({ colors: [{ name: 'ink', value: '#000' }] }).success
+    ).toBe(false);
+  });
+});
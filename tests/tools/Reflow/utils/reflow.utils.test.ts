@@ -0,0 +1,336 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectReflowIssues,
+  findClippedContent,
+  findContentOverflow,
+  findHorizontalScroll,
+  findOverlappingText,
+  planRenders,
+  planTextSpacing,
+  withGeometry,
+} from '../../../../src/tools/Reflow/utils/reflow.utils.js';
+import { reflowNormalizer } from '../../../../src/tools/Reflow/normalizers/index.js';
+import type {
+  BoundingBox,
+  ClippedElement,
+  OverflowingElement,
+  PageLayout,
+  RenderPlan,
+  TextBox,
+} from '../../../../src/tools/Reflow/types/index.js';
+
+function layout(overrides: Partial<PageLayout> = {}): PageLayout {
+  return {
+    viewportWidth: 320,
+    documentWidth: 320,
+    horizontalScroll: false,
+    overflowing: [],
+    clipped: [],
+    textBoxes: [],
+    ...overrides,
+  };
+}
+
+function overflowing(
+  selector: string,
+  box: BoundingBox,
+  overrides: Partial<OverflowingElement> = {}
+): OverflowingElement {
+  return {
+    selector,
+    snippet: `<div class="${selector}"></div>`,
+    box,
+    rootCause: true,
+    twoDimensional: false,
+    ...overrides,
+  };
+}
+
+function clipped(selector: string, overrides: Partial<ClippedElement> = {}): ClippedElement {
+  return {
+    selector,
+    snippet: `<div class="${selector}">Long label</div>`,
+    box: { x: 0, y: 0, width: 100, height: 20 },
+    hiddenWidth: 0,
+    hiddenHeight: 24,
+    ellipsis: false,
+    ...overrides,
+  };
+}
+
+function text(id: number, box: BoundingBox, ancestors: number[] = []): TextBox {
+  return { id, selector: `#t${id}`, snippet: `<p id="t${id}">Text</p>`, box, ancestors };
+}
+
+const reflow: RenderPlan = {
+  name: 'reflow-320',
+  width: 320,
+  height: 640,
+  deviceScaleFactor: 1,
+  criterion: '1.4.10',
+};
+
+const zoom200: RenderPlan = {
+  name: 'zoom-200',
+  width: 640,
+  height: 360,
+  deviceScaleFactor: 2,
+  zoom: 200,
+  criterion: '1.4.4',
+};
+
+const wide = layout({
+  documentWidth: 600,
+  horizontalScroll: true,
+  overflowing: [
+    overflowing('.banner', { x: 0, y: 0, width: 600, height: 80 }),
+    overflowing('.banner img', { x: 0, y: 0, width: 600, height: 80 }, { rootCause: false }),
+  ],
+});
+
+describe('planRenders', () => {
+  it('emulates zoom by shrinking the base viewport', () => {
+    const renders = planRenders(
+      { width: 1280, height: 720 },
+      { zoomLevels: [400, 200, 200], reflowWidth: 320, checkReflow: true }
+    );
+
+    expect(renders.map((render) => [render.name, render.width, render.height])).toEqual([
+      ['reflow-320', 320, 640],
+      ['zoom-200', 640, 360],
+      ['zoom-400', 320, 180],
+    ]);
+    expect(renders.map((render) => render.criterion)).toEqual(['1.4.10', '1.4.4', '1.4.10']);
+    expect(renders[2]?.deviceScaleFactor).toBe(4);
+  });
+
+  it('skips the reflow render when disabled', () => {
+    const renders = planRenders(
+      { width: 1024, height: 768, deviceScaleFactor: 2 },
+      { zoomLevels: [150], reflowWidth: 320, checkReflow: false }
+    );
+
+    expect(renders).toEqual([
+      {
+        name: 'zoom-150',
+        width: 683,
+        height: 512,
+        deviceScaleFactor: 3,
+        zoom: 150,
+        criterion: '1.4.4',
+      },
+    ]);
+  });
+});
+
+describe('findHorizontalScroll', () => {
+  it('reports a page wider than the viewport', () => {
+    expect(findHorizontalScroll(wide, reflow)).toEqual([
+      {
+        ruleId: 'horizontal-scroll',
+        criterion: '1.4.10',
+        render: 'reflow-320',
+        selector: 'html',
+        snippet: undefined,
+        detail: 'the page is 600px wide in a 320px viewport',
+      },
+    ]);
+  });
+
+  it('allows scrolling caused only by two-dimensional content', () => {
+    const table = layout({
+      documentWidth: 900,
+      horizontalScroll: true,
+      overflowing: [
+        overflowing('table', { x: 0, y: 0, width: 900, height: 200 }, { twoDimensional: true }),
+      ],
+    });
+
+    expect(findHorizontalScroll(table, reflow)).toEqual([]);
+    expect(findContentOverflow(table, reflow)).toEqual([]);
+  });
+});
+
+describe('findContentOverflow', () => {
+  it('reports the outermost element that sticks out', () => {
+    const findings = findContentOverflow(wide, reflow);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      selector: '.banner',
+      detail: '280px past the right edge',
+    });
+  });
+});
+
+describe('findClippedContent', () => {
+  it('ignores containers already clipped at the base viewport', () => {
+    const findings = findClippedContent(
+      layout({
+        clipped: [
+          clipped('.carousel'),
+          clipped('.card-title', { hiddenWidth: 40, ellipsis: true }),
+        ],
+      }),
+      layout({ clipped: [clipped('.carousel')] }),
+      zoom200
+    );
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        ruleId: 'clipped-content',
+        criterion: '1.4.4',
+        selector: '.card-title',
+        detail: '40px hidden horizontally, 24px hidden vertically, truncated with an ellipsis',
+      }),
+    ]);
+  });
+});
+
+describe('findOverlappingText', () => {
+  const heading = text(0, { x: 0, y: 0, width: 300, height: 40 });
+  const intro = text(1, { x: 0, y: 30, width: 300, height: 40 });
+
+  it('reports text boxes that start overlapping', () => {
+    const findings = findOverlappingText(
+      layout({ textBoxes: [heading, intro] }),
+      layout({
+        textBoxes: [
+          { ...heading, box: { x: 0, y: 0, width: 600, height: 20 } },
+          { ...intro, box: { x: 0, y: 30, width: 600, height: 20 } },
+        ],
+      }),
+      reflow
+    );
+
+    expect(findings).toEqual([
+      expect.objectContaining({ selector: '#t1', detail: 'overlaps #t0' }),
+    ]);
+  });
+
+  it('skips nested text, small touches and overlaps present at the base viewport', () => {
+    const link = text(2, { x: 10, y: 10, width: 50, height: 20 }, [0]);
+    const below = text(3, { x: 0, y: 39, width: 300, height: 20 });
+
+    expect(
+      findOverlappingText(layout({ textBoxes: [heading, link, below] }), layout(), reflow)
+    ).toEqual([]);
+    expect(
+      findOverlappingText(
+        layout({ textBoxes: [heading, intro] }),
+        layout({ textBoxes: [heading, intro] }),
+        reflow
+      )
+    ).toEqual([]);
+  });
+});
+
+describe('detectReflowIssues', () => {
+  it('does not report horizontal scrolling at 200% zoom', () => {
+    const findings = detectReflowIssues(
+      { ...wide, clipped: [clipped('.card-title')] },
+      layout(),
+      zoom200,
+      { wcagLevel: 'AA' }
+    );
+
+    expect(findings.map((finding) => finding.ruleId)).toEqual(['clipped-content']);
+  });
+
+  it('reports nothing at level A and honours excluded rules', () => {
+    expect(detectReflowIssues(wide, layout(), reflow, { wcagLevel: 'A' })).toEqual([]);
+    expect(
+      detectReflowIssues(wide, layout(), reflow, {
+        wcagLevel: 'AA',
+        excludeRules: ['content-overflow'],
+      }).map((finding) => finding.ruleId)
+    ).toEqual(['horizontal-scroll']);
+  });
+});
+
+describe('text spacing', () => {
+  const spacing = planTextSpacing({ width: 1280, height: 720 });
+  const tab = clipped('.tab', { box: { x: 0, y: 0, width: 100, height: 36 } });
+
+  it('checks the base viewport against 1.4.12', () => {
+    expect(spacing).toEqual({
+      name: 'text-spacing',
+      width: 1280,
+      height: 720,
+      deviceScaleFactor: 1,
+      criterion: '1.4.12',
+    });
+  });
+
+  it('reports clipping caused by the overrides with before and after boxes', () => {
+    const findings = detectReflowIssues(
+      layout({ viewportWidth: 1280, documentWidth: 1400, horizontalScroll: true, clipped: [tab] }),
+      layout({ viewportWidth: 1280, documentWidth: 1280 }),
+      spacing,
+      { wcagLevel: 'AA' }
+    );
+    const [result] = withGeometry(findings, [{ x: 0, y: 0, width: 100, height: 24 }]);
+
+    expect(findings.map((finding) => finding.ruleId)).toEqual(['clipped-content']);
+    expect(result).toMatchObject({
+      criterion: '1.4.12',
+      render: 'text-spacing',
+      geometry: {
+        before: { x: 0, y: 0, width: 100, height: 24 },
+        after: { x: 0, y: 0, width: 100, height: 36 },
+      },
+    });
+  });
+
+  it('leaves findings without a measured element unchanged', () => {
+    const findings = findClippedContent(layout({ clipped: [tab] }), layout(), spacing);
+
+    expect(withGeometry(findings, [null])[0]?.geometry).toBeUndefined();
+  });
+});
+
+describe('ReflowNormalizer', () => {
+  it('maps findings to the criterion and render they were found in', () => {
+    const [issue] = reflowNormalizer.normalize(
+      detectReflowIssues(wide, layout(), reflow, { wcagLevel: 'AA' }),
+      { tool: 'reflow-analyzer' }
+    );
+
+    expect(issue).toMatchObject({
+      ruleId: 'horizontal-scroll',
+      tool: 'reflow-analyzer',
+      severity: 'serious',
+      viewport: 'reflow-320',
+      wcag: { criterion: '1.4.10', level: 'AA', principle: 'perceivable', title: 'Reflow' },
+      location: { selector: 'html' },
+    });
+    expect(issue?.id).toMatch(/^reflow-320:reflow-analyzer:horizontal-scroll:/);
+    expect(issue?.humanContext).toBeDefined();
+    expect(issue?.geometry).toBeUndefined();
+  });
+
+  it('keeps the geometry of text spacing findings', () => {
+    const geometry = {
+      before: { x: 0, y: 0, width: 100, height: 24 },
+      after: { x: 0, y: 0, width: 100, height: 36 },
+    };
+    const [issue] = reflowNormalizer.normalize(
+      [
+        {
+          ruleId: 'clipped-content',
+          criterion: '1.4.12',
+          render: 'text-spacing',
+          selector: '.tab',
+          geometry,
+        },
+      ],
+      { tool: 'reflow-analyzer' }
+    );
+
+    expect(issue).toMatchObject({
+      wcag: { criterion: '1.4.12', title: 'Text Spacing' },
+      viewport: 'text-spacing',
+      geometry,
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import {
+  createMockServer,
+  getToolHandler,
+  type MockToolRegistration,
+} from '../../helpers/mock-server.js';
+import type { TargetSizeAnalysisResult } from '../../../src/tools/TargetSize/types/index.js';
+
+const mockResult: TargetSizeAnalysisResult = {
+  success: true,
+  timestamp: '2026-01-15T10:00:00.000Z',
+  duration: 120,
+  target: 'https://example.com/',
+  tool: 'target-size-analyzer',
+  issues: [],
+  summary: {
+    total: 0,
+    bySeverity: { critical: 0, serious: 0, moderate: 0, minor: 0 },
+    byPrinciple: { perceivable: 0, operable: 0, understandable: 0, robust: 0 },
+    byRule: {},
+    targets: { checked: 4, undersized: 0, exempt: 1 },
+  },
+};
+
+const mockAnalyze = vi.fn();
+
+vi.mock('../../../src/tools/TargetSize/adapters/index.js', () => ({
+  TargetSizeAdapter: class {
+    isAvailable = vi.fn().mockResolvedValue(true);
+    analyze = mockAnalyze;
+    dispose = vi.fn().mockResolvedValue(undefined);
+  },
+}));
+
+const { recordAnalysisHistory } = await import('../../../src/shared/history/store.js');
+const { analyzeTargetSizeTool, disposeTargetSizeAdapter } =
+  await import('../../../src/tools/TargetSize/main.js');
+
+describe('analyze-target-size Tool', () => {
+  let toolHandler: MockToolRegistration['handler'];
+
+  beforeAll(() => {
+    const mockServer = createMockServer();
+    analyzeTargetSizeTool.register(mockServer as never);
+    toolHandler = getToolHandler(mockServer, 'analyze-target-size');
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAnalyze.mockResolvedValue(mockResult);
+  });
+
+  afterAll(async () => {
+    await disposeTargetSizeAdapter();
+  });
+
+  it('should record URL analyses in the history under the tool name', async () => {
+    const response = await toolHandler({ url: 'https://example.com/' });
+
+    expect(JSON.parse(response.content[0]!.text)).toMatchObject({ success: true });
+    expect(recordAnalysisHistory).toHaveBeenCalledWith(
+      'analyze-target-size',
+      expect.objectContaining({ type: 'url', value: 'https://example.com/' }),
+      mockResult
+    );
+  });
+});
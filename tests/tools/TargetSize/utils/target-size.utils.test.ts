@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countTargets,
+  detectTargetSizeIssues,
+  edgeDistance,
+  findEnhancedSizeFailures,
+  findMinimumSizeFailures,
+  hasEnoughSpacing,
+  mergeTargetSizeSummaries,
+  nearestDistance,
+} from '../../../../src/tools/TargetSize/utils/target-size.utils.js';
+import { targetSizeNormalizer } from '../../../../src/tools/TargetSize/normalizers/index.js';
+import type {
+  BoundingBox,
+  InteractiveTarget,
+  TargetSizeSummary,
+} from '../../../../src/tools/TargetSize/types/index.js';
+
+function target(
+  id: number,
+  box: BoundingBox,
+  overrides: Partial<InteractiveTarget> = {}
+): InteractiveTarget {
+  return {
+    id,
+    selector: `#t${id}`,
+    snippet: `<button id="t${id}"></button>`,
+    tagName: 'button',
+    box,
+    ancestors: [],
+    ...overrides,
+  };
+}
+
+function summary(total: number, checked?: number): TargetSizeSummary {
+  return {
+    total,
+    bySeverity: { critical: 0, serious: total, moderate: 0, minor: 0 },
+    ...(checked !== undefined && {
+      targets: { checked, undersized: total, exempt: 0 },
+    }),
+  };
+}
+
+describe('edgeDistance', () => {
+  it('measures the gap between boxes and is zero when they touch', () => {
+    const a = { x: 0, y: 0, width: 16, height: 16 };
+
+    expect(edgeDistance(a, { x: 20, y: 0, width: 16, height: 16 })).toBe(4);
+    expect(edgeDistance(a, { x: 19, y: 20, width: 16, height: 16 })).toBe(5);
+    expect(edgeDistance(a, { x: 8, y: 8, width: 16, height: 16 })).toBe(0);
+  });
+});
+
+describe('hasEnoughSpacing', () => {
+  it('accepts small targets whose 24px circles do not overlap', () => {
+    const targets = [
+      target(0, { x: 0, y: 0, width: 16, height: 16 }),
+      target(1, { x: 24, y: 0, width: 16, height: 16 }),
+    ];
+
+    expect(hasEnoughSpacing(targets[0]!, targets)).toBe(true);
+  });
+
+  it('rejects small targets closer than 24px centre to centre', () => {
+    const targets = [
+      target(0, { x: 0, y: 0, width: 16, height: 16 }),
+      target(1, { x: 20, y: 0, width: 16, height: 16 }),
+    ];
+
+    expect(hasEnoughSpacing(targets[0]!, targets)).toBe(false);
+  });
+
+  it('rejects a small target whose circle reaches a large target', () => {
+    const targets = [
+      target(0, { x: 0, y: 0, width: 16, height: 16 }),
+      target(1, { x: 18, y: 0, width: 80, height: 32 }),
+    ];
+
+    expect(hasEnoughSpacing(targets[0]!, targets)).toBe(false);
+  });
+
+  it('ignores targets nested inside each other', () => {
+    const targets = [
+      target(0, { x: 0, y: 0, width: 200, height: 40 }),
+      target(1, { x: 4, y: 4, width: 16, height: 16 }, { ancestors: [0] }),
+    ];
+
+    expect(hasEnoughSpacing(targets[1]!, targets)).toBe(true);
+    expect(nearestDistance(targets[1]!, targets)).toBeNull();
+  });
+});
+
+describe('findMinimumSizeFailures', () => {
+  const crowded = [
+    target(0, { x: 0, y: 0, width: 16, height: 16 }),
+    target(1, { x: 20, y: 0, width: 16, height: 16 }),
+    target(2, { x: 0, y: 100, width: 30, height: 30 }),
+  ];
+
+  it('reports undersized targets with their size, neighbour and suggested size', () => {
+    const findings = findMinimumSizeFailures(crowded);
+
+    expect(findings.map((finding) => finding.selector)).toEqual(['#t0', '#t1']);
+    expect(findings[0]).toMatchObject({
+      ruleId: 'target-size-minimum',
+      detail: '16×16px, nearest target 4px away',
+      measurement: {
+        width: 16,
+        height: 16,
+        required: 24,
+        nearestDistance: 4,
+        suggestedSize: { width: 24, height: 24 },
+      },
+    });
+  });
+
+  it('skips exempt targets', () => {
+    const targets = crowded.map((t) => ({ ...t, exemption: 'inline' as const }));
+
+    expect(findMinimumSizeFailures(targets)).toEqual([]);
+  });
+
+  it('keeps the larger dimension in the suggested size', () => {
+    const targets = [
+      target(0, { x: 0, y: 0, width: 80.4, height: 18 }),
+      target(1, { x: 0, y: 20, width: 80, height: 18 }),
+    ];
+
+    expect(findMinimumSizeFailures(targets)[0]?.measurement.suggestedSize).toEqual({
+      width: 81,
+      height: 24,
+    });
+  });
+});
+
+describe('findEnhancedSizeFailures', () => {
+  it('reports targets under 44px regardless of spacing', () => {
+    const targets = [
+      target(0, { x: 0, y: 0, width: 40, height: 40 }),
+      target(1, { x: 300, y: 0, width: 48, height: 48 }),
+    ];
+
+    expect(findEnhancedSizeFailures(targets)).toMatchObject([
+      {
+        selector: '#t0',
+        measurement: { required: 44, suggestedSize: { width: 44, height: 44 } },
+      },
+    ]);
+  });
+});
+
+describe('detectTargetSizeIssues', () => {
+  const targets = [
+    target(0, { x: 0, y: 0, width: 16, height: 16 }),
+    target(1, { x: 20, y: 0, width: 16, height: 16 }),
+    target(2, { x: 0, y: 100, width: 32, height: 32 }),
+  ];
+
+  it('checks nothing at level A', () => {
+    expect(detectTargetSizeIssues(targets, { wcagLevel: 'A' })).toEqual([]);
+  });
+
+  it('adds the enhanced rule only at level AAA', () => {
+    const count = (wcagLevel: 'AA' | 'AAA') =>
+      detectTargetSizeIssues(targets, { wcagLevel }).filter(
+        (finding) => finding.ruleId === 'target-size-enhanced'
+      ).length;
+
+    expect(count('AA')).toBe(0);
+    expect(count('AAA')).toBe(3);
+  });
+
+  it('drops excluded rules', () => {
+    const findings = detectTargetSizeIssues(targets, {
+      wcagLevel: 'AAA',
+      excludeRules: ['target-size-minimum'],
+    });
+
+    expect(findings.every((finding) => finding.ruleId === 'target-size-enhanced')).toBe(true);
+  });
+});
+
+describe('countTargets', () => {
+  it('counts checked, undersized and exempt targets', () => {
+    expect(
+      countTargets([
+        target(0, { x: 0, y: 0, width: 16, height: 16 }),
+        target(1, { x: 0, y: 40, width: 13, height: 13 }, { exemption: 'user-agent-control' }),
+        target(2, { x: 0, y: 80, width: 30, height: 30 }),
+      ])
+    ).toEqual({ checked: 3, undersized: 1, exempt: 1 });
+  });
+});
+
+describe('mergeTargetSizeSummaries', () => {
+  it('sums target counts across states and viewports', () => {
+    const merged = mergeTargetSizeSummaries([summary(2, 10), summary(1, 8)]);
+
+    expect(merged.total).toBe(3);
+    expect(merged.targets).toEqual({ checked: 18, undersized: 3, exempt: 0 });
+  });
+
+  it('leaves target counts out when no run measured targets', () => {
+    expect(mergeTargetSizeSummaries([summary(0)]).targets).toBeUndefined();
+  });
+});
+
+describe('TargetSizeNormalizer', () => {
+  it('maps findings to their criterion with the measurement attached', () => {
+    const [minimum, enhanced] = targetSizeNormalizer.normalize(
+      detectTargetSizeIssues(
+        [
+          target(0, { x: 0, y: 0, width: 16, height: 16 }),
+          target(1, { x: 20, y: 0, width: 16, height: 16 }),
+        ],
+        { wcagLevel: 'AAA' }
+      ).filter((finding) => finding.selector === '#t0'),
+      { tool: 'target-size-analyzer' }
+    );
+
+    expect(minimum).toMatchObject({
+      ruleId: 'target-size-minimum',
+      tool: 'target-size-analyzer',
+      severity: 'serious',
+      wcag: { criterion: '2.5.8', level: 'AA', principle: 'operable', version: '2.2' },
+      location: { selector: '#t0' },
+      targetSize: { width: 16, height: 16, nearestDistance: 4 },
+    });
+    expect(enhanced).toMatchObject({
+      ruleId: 'target-size-enhanced',
+      severity: 'minor',
+      wcag: { criterion: '2.5.5', level: 'AAA', version: '2.1' },
+    });
+  });
+});
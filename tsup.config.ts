@@ -25,6 +25,7 @@ export default defineConfig({
     options.alias = {
       '@/types': './src/types',
       '@/tools': './src/tools',
+      '@/cli': './src/cli',
       '@/adapters': './src/adapters',
       '@/normalizers': './src/normalizers',
       '@/utils': './src/utils',